@@ -5,7 +5,9 @@
 
 import {
   ZlgCanDriver,
+  ZlgCanLibFunctions,
   getDriver,
+  createDriver,
   ZCAN_DEVICE_TYPE,
   ZCAN_DATA_TYPE,
   ZCAN_TRANSMIT_TYPE,
@@ -19,8 +21,26 @@ import {
   IZcanTransmitFdData,
   IZcanAutoTransmitObj,
   IZcanfdAutoTransmitObj,
+  IZcanDataObj,
+  IZcanGpsData,
+  IZcanLinData,
+  IZcanLinExData,
+  IZcanLinErrData,
+  IZcanLinEventData,
+  IBusUsage,
+  ZCAN_DATA_OBJ_TYPE,
+  ZCAN_DATA_FLAG,
+  ZCAN_NODE_STATE,
+  ZCAN_UDS_ERROR,
+  ZCAN_UDS_MAX_REQUEST_ID,
   ZlgCanError,
+  DeviceNotOpenError,
+  UdsRequestError,
+  createZlgCanError,
 } from '../driver';
+import { BusState, ChannelErrorMonitor, ChannelErrorState, decodeChannelErrorState } from './error-monitor';
+import { DeviceInfo, decodeDeviceInfo, decodeDeviceInfoEx } from './device-info';
+import { UdsRequestOptions, UdsResponse, toZcanUdsRequest, fromZcanUdsResponse } from './uds-request';
 
 // ============================================================================
 // 类型定义
@@ -36,8 +56,16 @@ export interface CanfdWifi100uTcpConfig {
   port: number;
   /** 设备索引，默认 0 */
   deviceIndex?: number;
+  /** 设备名称 (自定义序列号)，设置后按名称打开设备并忽略 deviceIndex */
+  deviceName?: string;
   /** 发送回显，默认 true */
   echo?: boolean;
+  /** 合并接收，开启后通过 ZCAN_ReceiveData 按设备上报顺序接收所有类型数据，默认 false */
+  mergeReceive?: boolean;
+  /** 原生库实现 (如 FakeZlgCanLib)，省略时使用全局驱动加载 zlgcan 动态库 */
+  lib?: ZlgCanLibFunctions;
+  /** 动态库路径，用于加载非内置位置的 zlgcan.dll / libzlgcan.so */
+  libPath?: string;
 }
 
 /**
@@ -54,6 +82,8 @@ export interface CanMessage {
   isRemote?: boolean;
   /** 时间戳 (接收时有效) */
   timestamp?: bigint | number;
+  /** 是否为发送回显 (接收时有效) */
+  echoed?: boolean;
 }
 
 /**
@@ -95,6 +125,40 @@ export interface QueueSendItem {
  */
 export type MessageType = 'can' | 'canfd' | 'all';
 
+/**
+ * 总线错误数据
+ */
+export interface BusErrorRecord {
+  /** 时间戳 (us) */
+  timestamp: bigint | number;
+  /** 错误类型 (ZCAN_ERR_TYPE) */
+  errorType: number;
+  /** 错误子类型 (如 ZCAN_BUS_ERR) */
+  errorSubType: number;
+  /** 节点状态，设备未给出时为 undefined */
+  nodeState?: BusState;
+  /** 接收错误计数 (REC) */
+  rxErrorCounter: number;
+  /** 发送错误计数 (TEC) */
+  txErrorCounter: number;
+  /** 错误数据 (含义取决于错误类型) */
+  errorData: number;
+}
+
+/**
+ * 合并接收记录，按 type 区分
+ */
+export type ReceivedRecord =
+  | { type: 'can'; channel: number; echoed: boolean; message: CanMessage }
+  | { type: 'canfd'; channel: number; echoed: boolean; message: CanFdMessage }
+  | { type: 'error'; channel: number; error: BusErrorRecord }
+  | { type: 'gps'; channel: number; gps: IZcanGpsData }
+  | { type: 'lin'; channel: number; lin: IZcanLinData }
+  | { type: 'linEx'; channel: number; lin: IZcanLinExData }
+  | { type: 'linError'; channel: number; linError: IZcanLinErrData }
+  | { type: 'linEvent'; channel: number; linEvent: IZcanLinEventData }
+  | { type: 'busUsage'; channel: number; busUsage: IBusUsage };
+
 // ============================================================================
 // 辅助函数
 // ============================================================================
@@ -170,7 +234,7 @@ function toZcanTransmitFdData(msg: CanFdMessage, transmitType: number = ZCAN_TRA
 /**
  * 从驱动层接收数据转换为 CanMessage
  */
-function fromZcanReceiveData(data: { frame: { can_id: number; can_dlc: number; data: number[] | Uint8Array }; timestamp: bigint | number }): CanMessage {
+function fromZcanReceiveData(data: { frame: { can_id: number; can_dlc: number; __pad?: number; data: number[] | Uint8Array }; timestamp: bigint | number }): CanMessage {
   const canId = data.frame.can_id;
   const isExtended = (canId & CAN_FLAG.EFF_FLAG) !== 0;
   const isRemote = (canId & CAN_FLAG.RTR_FLAG) !== 0;
@@ -182,6 +246,7 @@ function fromZcanReceiveData(data: { frame: { can_id: number; can_dlc: number; d
     isExtended,
     isRemote,
     timestamp: data.timestamp,
+    echoed: ((data.frame.__pad || 0) & TX_FLAG.ECHO_FLAG) !== 0,
   };
 }
 
@@ -203,9 +268,62 @@ function fromZcanReceiveFdData(data: { frame: { can_id: number; len: number; fla
     timestamp: data.timestamp,
     brs: (flags & CANFD_FLAG.BRS) !== 0,
     esi: (flags & CANFD_FLAG.ESI) !== 0,
+    echoed: (flags & TX_FLAG.ECHO_FLAG) !== 0,
   };
 }
 
+const NODE_STATES: Record<number, BusState> = {
+  [ZCAN_NODE_STATE.ACTIVE]: 'error-active',
+  [ZCAN_NODE_STATE.WARNING]: 'error-warning',
+  [ZCAN_NODE_STATE.PASSIVE]: 'error-passive',
+  [ZCAN_NODE_STATE.BUSOFF]: 'bus-off',
+};
+
+/**
+ * 从驱动层合并接收数据转换为 ReceivedRecord
+ */
+function fromZcanDataObj(obj: IZcanDataObj): ReceivedRecord {
+  const channel = obj.chnl;
+
+  switch (obj.dataType) {
+    case ZCAN_DATA_OBJ_TYPE.CAN_CANFD: {
+      const { frame, flag, timeStamp } = obj.data;
+      const echoed = (flag & ZCAN_DATA_FLAG.TX_ECHOED) !== 0;
+      if ((flag & ZCAN_DATA_FLAG.FRAME_TYPE_MASK) === 1) {
+        return { type: 'canfd', channel, echoed, message: fromZcanReceiveFdData({ frame, timestamp: timeStamp }) };
+      }
+      const canFrame = { can_id: frame.can_id, can_dlc: frame.len, data: frame.data };
+      return { type: 'can', channel, echoed, message: fromZcanReceiveData({ frame: canFrame, timestamp: timeStamp }) };
+    }
+    case ZCAN_DATA_OBJ_TYPE.ERROR:
+      return {
+        type: 'error',
+        channel,
+        error: {
+          timestamp: obj.data.timeStamp,
+          errorType: obj.data.errType,
+          errorSubType: obj.data.errSubType,
+          nodeState: NODE_STATES[obj.data.nodeState],
+          rxErrorCounter: obj.data.rxErrCount,
+          txErrorCounter: obj.data.txErrCount,
+          errorData: obj.data.errData,
+        },
+      };
+    case ZCAN_DATA_OBJ_TYPE.GPS:
+      return { type: 'gps', channel, gps: obj.data };
+    case ZCAN_DATA_OBJ_TYPE.LIN:
+      return { type: 'lin', channel, lin: obj.data };
+    case ZCAN_DATA_OBJ_TYPE.LIN_EX:
+      return { type: 'linEx', channel, lin: obj.data };
+    case ZCAN_DATA_OBJ_TYPE.LIN_ERROR:
+      return { type: 'linError', channel, linError: obj.data };
+    case ZCAN_DATA_OBJ_TYPE.LIN_EVENT:
+      return { type: 'linEvent', channel, linEvent: obj.data };
+    case ZCAN_DATA_OBJ_TYPE.BUS_USAGE:
+      return { type: 'busUsage', channel, busUsage: obj.data };
+  }
+}
+
 // ============================================================================
 // 设备类
 // ============================================================================
@@ -227,13 +345,17 @@ export class CanfdWifi100uTcp {
   private deviceHandle: number = INVALID_DEVICE_HANDLE;
   private channelHandle: number = INVALID_CHANNEL_HANDLE;
   private readonly channelIndex = 0;
+  private errorMonitor: ChannelErrorMonitor | null = null;
+  private nextUdsRequestId = 0;
+  private readonly pendingUdsRequests = new Set<number>();
 
   constructor(config: CanfdWifi100uTcpConfig) {
     this.config = {
       deviceIndex: 0,
       ...config,
     };
-    this.driver = getDriver();
+    const backend = config.lib || config.libPath;
+    this.driver = backend ? createDriver(backend) : getDriver();
   }
 
   // ============================================================================
@@ -245,7 +367,7 @@ export class CanfdWifi100uTcp {
    *
    * 执行以下操作：
    * 1. 初始化驱动
-   * 2. 打开设备
+   * 2. 打开设备 (按 deviceName 或 deviceIndex)
    * 3. 配置连接参数 (ip, port, client 模式)
    * 4. 开启 CANFD 增强和 ALL_DATA 协议
    * 5. 初始化并启动通道
@@ -259,11 +381,11 @@ export class CanfdWifi100uTcp {
     this.driver.initialize();
 
     // 打开设备
-    this.deviceHandle = this.driver.openDevice(
-      // ZCAN_DEVICE_TYPE.ZCAN_CANFDWIFI_100U_TCP,
-      ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, // dll 库问题, 临时使用这个设备号, 之后会修复
-      this.config.deviceIndex!,
-    );
+    // const deviceType = ZCAN_DEVICE_TYPE.ZCAN_CANFDWIFI_100U_TCP;
+    const deviceType = ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP; // dll 库问题, 临时使用这个设备号, 之后会修复
+    this.deviceHandle = this.config.deviceName !== undefined
+      ? this.driver.openDeviceByName(deviceType, this.config.deviceName)
+      : this.driver.openDevice(deviceType, this.config.deviceIndex!);
 
     try {
       // 配置连接参数
@@ -276,6 +398,11 @@ export class CanfdWifi100uTcp {
         this.driver.setValue(this.deviceHandle, `${this.channelIndex}/set_device_tx_echo`, '1');
       }
 
+      // 开启合并接收
+      if (this.config.mergeReceive) {
+        this.driver.setValue(this.deviceHandle, `${this.channelIndex}/set_device_recv_merge`, '1');
+      }
+
       // 开启 CANFD 增强
       this.driver.setValue(this.deviceHandle, `${this.channelIndex}/canfd_exp`, '1');
 
@@ -314,6 +441,19 @@ export class CanfdWifi100uTcp {
    * 内部关闭方法
    */
   private closeInternal(): void {
+    if (this.isOpen() && this.pendingUdsRequests.size > 0) {
+      try {
+        this.cancelUdsRequest();
+      } catch {
+        // 忽略取消错误
+      }
+    }
+
+    if (this.errorMonitor) {
+      this.errorMonitor.stop();
+      this.errorMonitor.reset();
+    }
+
     if (this.deviceHandle !== INVALID_DEVICE_HANDLE) {
       try {
         this.driver.closeDevice(this.deviceHandle);
@@ -337,7 +477,7 @@ export class CanfdWifi100uTcp {
    */
   private ensureOpen(): void {
     if (!this.isOpen()) {
-      throw new ZlgCanError('Device', undefined, '设备未打开');
+      throw new DeviceNotOpenError('Device', undefined, '设备未打开');
     }
   }
 
@@ -355,6 +495,17 @@ export class CanfdWifi100uTcp {
   receive(maxCount: number = 100, timeout: number = 0, type: MessageType = 'all'): (CanMessage | CanFdMessage)[] {
     this.ensureOpen();
 
+    // 合并接收模式下数据已按设备上报顺序排列，仅保留报文记录
+    if (this.config.mergeReceive) {
+      const messages: (CanMessage | CanFdMessage)[] = [];
+      for (const record of this.receiveRecords(maxCount, timeout)) {
+        if ((record.type === 'can' || record.type === 'canfd') && (type === 'all' || type === record.type)) {
+          messages.push(record.message);
+        }
+      }
+      return messages;
+    }
+
     const result: (CanMessage | CanFdMessage)[] = [];
 
     // 接收 CAN 报文
@@ -385,6 +536,23 @@ export class CanfdWifi100uTcp {
     return result;
   }
 
+  /**
+   * 接收合并数据 (需开启 mergeReceive)
+   *
+   * CAN/CANFD 报文、错误数据、GPS、LIN 等记录按设备上报顺序返回，无需按时间戳重新排序
+   *
+   * @param maxCount 最大接收数量，默认 100
+   * @param timeout 超时时间 (ms)，默认 0 (不等待)
+   * @returns 接收到的记录数组
+   */
+  receiveRecords(maxCount: number = 100, timeout: number = 0): ReceivedRecord[] {
+    this.ensureOpen();
+    if (!this.config.mergeReceive) {
+      throw new ZlgCanError('receiveRecords', undefined, '未开启合并接收 (mergeReceive)');
+    }
+    return this.driver.receiveData(this.deviceHandle, maxCount, timeout).map(fromZcanDataObj);
+  }
+
   /**
    * 立即发送报文
    * @param message 要发送的报文
@@ -397,17 +565,26 @@ export class CanfdWifi100uTcp {
       const data = toZcanTransmitFdData(message, ZCAN_TRANSMIT_TYPE.NORMAL, echo);
       const sent = this.driver.transmitFD(this.channelHandle, [data]);
       if (sent !== 1) {
-        throw new ZlgCanError('transmit', undefined, '发送 CANFD 报文失败');
+        throw this.transmitError('发送 CANFD 报文失败');
       }
     } else {
       const data = toZcanTransmitData(message, ZCAN_TRANSMIT_TYPE.NORMAL, echo);
       const sent = this.driver.transmit(this.channelHandle, [data]);
       if (sent !== 1) {
-        throw new ZlgCanError('transmit', undefined, '发送 CAN 报文失败');
+        throw this.transmitError('发送 CAN 报文失败');
       }
     }
   }
 
+  /**
+   * 生成发送失败的异常，能读取到通道错误码时按错误码选择异常类型
+   * (如 BusOffError、TransmitBackpressureError)
+   */
+  private transmitError(fallbackMessage: string): ZlgCanError {
+    const errorCode = this.driver.readErrorCode(this.channelHandle);
+    return createZlgCanError('transmit', errorCode, errorCode === undefined ? fallbackMessage : undefined);
+  }
+
   /**
    * 批量发送报文
    * @param messages 要发送的报文数组 (可混合 CAN 和 CANFD)
@@ -475,6 +652,61 @@ export class CanfdWifi100uTcp {
     return count;
   }
 
+  // ============================================================================
+  // 设备信息
+  // ============================================================================
+
+  /**
+   * 读取设备信息
+   *
+   * 优先使用 ZCAN_GetDeviceInfoEx，设备或库不支持时回退到 ZCAN_GetDeviceInf
+   *
+   * @returns 解码后的设备名称、序列号、版本和通道数
+   */
+  info(): DeviceInfo {
+    this.ensureOpen();
+    try {
+      return decodeDeviceInfoEx(this.driver.getDeviceInfoEx(this.deviceHandle));
+    } catch (error) {
+      if (!(error instanceof ZlgCanError)) {
+        throw error;
+      }
+      return decodeDeviceInfo(this.driver.getDeviceInfo(this.deviceHandle));
+    }
+  }
+
+  // ============================================================================
+  // 错误状态
+  // ============================================================================
+
+  /**
+   * 读取通道错误状态
+   *
+   * 解码错误计数 (TEC/REC)、消极错误/总线关闭标志和仲裁丢失捕获
+   *
+   * @returns 通道错误状态
+   */
+  getChannelState(): ChannelErrorState {
+    this.ensureOpen();
+    const errInfo = this.driver.readChannelErrInfo(this.channelHandle);
+    const status = this.driver.readChannelStatus(this.channelHandle);
+    return decodeChannelErrorState(errInfo, status);
+  }
+
+  /**
+   * 获取错误状态监视器
+   *
+   * 调用 start() 开始轮询，总线状态变化时发出 stateChange 事件；关闭设备时自动停止
+   *
+   * @returns 监视器实例 (同一设备复用)
+   */
+  getErrorMonitor(): ChannelErrorMonitor {
+    if (!this.errorMonitor) {
+      this.errorMonitor = new ChannelErrorMonitor(() => this.getChannelState());
+    }
+    return this.errorMonitor;
+  }
+
   // ============================================================================
   // 周期发送
   // ============================================================================
@@ -662,4 +894,65 @@ export class CanfdWifi100uTcp {
     this.ensureOpen();
     this.driver.setValue(this.deviceHandle, `${this.channelIndex}/clear_delay_send_queue`, '0');
   }
+
+  // ============================================================================
+  // UDS 诊断
+  // ============================================================================
+
+  /**
+   * 由设备执行 UDS 请求
+   *
+   * 分帧、流控和 P2/P2* 超时 (包括 NRC 0x78 响应挂起) 由设备处理，等待期间不阻塞事件循环
+   *
+   * @param options 请求选项
+   * @returns 积极/消极响应；抑制积极响应时返回 { type: 'none' }
+   * @throws {UdsRequestError} 响应超时、发送失败或请求被取消时抛出异常
+   * @throws {RangeError} stMin 或 remoteStMin 超出 0-127ms 时抛出异常
+   */
+  async udsRequest(options: UdsRequestOptions): Promise<UdsResponse> {
+    this.ensureOpen();
+
+    const requestId = options.requestId ?? this.allocateUdsRequestId();
+    if (this.pendingUdsRequests.has(requestId)) {
+      throw new UdsRequestError('ZCAN_UDS_Request', ZCAN_UDS_ERROR.BUSY);
+    }
+
+    const request = toZcanUdsRequest(options, requestId, this.channelIndex);
+    this.pendingUdsRequests.add(requestId);
+    try {
+      const { response, data } = await this.driver.udsRequest(this.deviceHandle, request, options.maxResponseLength);
+      if (response.status !== ZCAN_UDS_ERROR.OK && response.status !== ZCAN_UDS_ERROR.SUPPRESS_RESPONSE) {
+        throw new UdsRequestError('ZCAN_UDS_Request', response.status);
+      }
+      return fromZcanUdsResponse(response, data);
+    } finally {
+      this.pendingUdsRequests.delete(requestId);
+    }
+  }
+
+  /**
+   * 取消进行中的 UDS 请求，被取消的请求以 UdsRequestError (CANCEL) 结束
+   * @param requestId 请求事务 ID，省略时取消所有请求
+   * @returns 是否成功取消
+   */
+  cancelUdsRequest(requestId?: number): boolean {
+    this.ensureOpen();
+
+    const ids = requestId === undefined ? Array.from(this.pendingUdsRequests) : [requestId];
+    let cancelled = ids.length > 0;
+    for (const id of ids) {
+      cancelled = this.driver.udsControl(this.deviceHandle, id) && cancelled;
+    }
+    return cancelled;
+  }
+
+  /**
+   * 分配未被占用的请求事务 ID
+   */
+  private allocateUdsRequestId(): number {
+    do {
+      this.nextUdsRequestId = (this.nextUdsRequestId + 1) & ZCAN_UDS_MAX_REQUEST_ID;
+    } while (this.pendingUdsRequests.has(this.nextUdsRequestId));
+    return this.nextUdsRequestId;
+  }
 }
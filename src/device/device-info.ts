@@ -0,0 +1,110 @@
+/**
+ * 设备信息解码
+ * 将 ZCAN_DEVICE_INFO / ZCAN_DEVICE_INFO_EX 中的定长字符数组和版本号解码为可读形式
+ */
+
+import { IZcanDeviceInfo, IZcanDeviceInfoEx, IZcanVersion } from '../driver';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 设备信息
+ */
+export interface DeviceInfo {
+  /** 设备名称 (不支持扩展信息的设备与硬件类型相同) */
+  deviceName: string;
+  /** 硬件类型 */
+  hardwareType: string;
+  /** 序列号 */
+  serialNumber: string;
+  /** 硬件版本 (major.minor.patch) */
+  hardwareVersion: string;
+  /** 固件版本 (major.minor.patch) */
+  firmwareVersion: string;
+  /** 驱动版本 (major.minor.patch) */
+  driverVersion: string;
+  /** 动态库版本 (major.minor.patch) */
+  libraryVersion: string;
+  /** CAN 通道数 */
+  canChannelCount: number;
+  /** LIN 通道数 */
+  linChannelCount: number;
+}
+
+// ============================================================================
+// 解码
+// ============================================================================
+
+/**
+ * 解码 '\0' 结尾的定长字符数组
+ */
+export function decodeFixedString(bytes: ArrayLike<number>): string {
+  const buffer = Buffer.from(Array.from(bytes));
+  const end = buffer.indexOf(0);
+  return buffer.toString('utf8', 0, end === -1 ? buffer.length : end).trim();
+}
+
+/**
+ * 格式化 ZCAN_VERSION 结构体
+ */
+export function formatVersion(version: IZcanVersion): string {
+  return `${version.major_version}.${version.minor_version}.${version.patch_version}`;
+}
+
+/**
+ * 格式化 ZCAN_DEVICE_INFO 中的 16 位版本号
+ *
+ * 版本号按十六进制书写，如 0x0215 表示 V2.15，格式化为 2.15.0；
+ * 含 A-F 的字节不是十六进制书写的十进制数，按字节数值格式化，如 0x020A 格式化为 2.10.0
+ */
+export function formatPackedVersion(version: number): string {
+  return `${decodePackedDigits((version >> 8) & 0xFF)}.${decodePackedDigits(version & 0xFF)}.0`;
+}
+
+/**
+ * 按十六进制书写的十进制数解码一个字节 (如 0x15 → 15)，含 A-F 时返回字节数值
+ */
+function decodePackedDigits(byte: number): number {
+  const high = byte >> 4;
+  const low = byte & 0x0F;
+  return high <= 9 && low <= 9 ? high * 10 + low : byte;
+}
+
+/**
+ * 解码扩展设备信息
+ * @param info ZCAN_GetDeviceInfoEx 结果
+ */
+export function decodeDeviceInfoEx(info: IZcanDeviceInfoEx): DeviceInfo {
+  return {
+    deviceName: decodeFixedString(info.device_name),
+    hardwareType: decodeFixedString(info.hardware_type),
+    serialNumber: decodeFixedString(info.serial_number),
+    hardwareVersion: formatVersion(info.hardware_version),
+    firmwareVersion: formatVersion(info.firmware_version),
+    driverVersion: formatVersion(info.driver_version),
+    libraryVersion: formatVersion(info.library_version),
+    canChannelCount: info.can_channel_number,
+    linChannelCount: info.lin_channel_number,
+  };
+}
+
+/**
+ * 解码基本设备信息 (用于不支持 ZCAN_GetDeviceInfoEx 的设备或库版本)
+ * @param info ZCAN_GetDeviceInf 结果
+ */
+export function decodeDeviceInfo(info: IZcanDeviceInfo): DeviceInfo {
+  const hardwareType = decodeFixedString(info.str_hw_Type);
+  return {
+    deviceName: hardwareType,
+    hardwareType,
+    serialNumber: decodeFixedString(info.str_Serial_Num),
+    hardwareVersion: formatPackedVersion(info.hw_Version),
+    firmwareVersion: formatPackedVersion(info.fw_Version),
+    driverVersion: formatPackedVersion(info.dr_Version),
+    libraryVersion: formatPackedVersion(info.in_Version),
+    canChannelCount: info.can_Num,
+    linChannelCount: 0,
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * 通道错误状态监视
+ * 解码控制器错误计数、错误标志和仲裁丢失捕获，并在总线状态变化时发出事件
+ */
+
+import { EventEmitter } from 'events';
+import {
+  ZCAN_ERROR,
+  CAN_STATUS_REG,
+  CAN_ECC_REG,
+  CAN_ALC_BIT_MASK,
+  CAN_ERROR_WARNING_LIMIT,
+  CAN_ERROR_PASSIVE_LIMIT,
+  IZcanChannelErrInfo,
+  IZcanChannelStatus,
+  startPollTimer,
+} from '../driver';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 总线状态 (按严重程度递增)
+ */
+export type BusState = 'error-active' | 'error-warning' | 'error-passive' | 'bus-off';
+
+/**
+ * 错误码捕获 (ECC) 的错误类型
+ */
+export type BusErrorType = 'bit' | 'form' | 'stuff' | 'other';
+
+/**
+ * 错误码捕获信息
+ */
+export interface BusErrorCapture {
+  /** 错误类型 */
+  type: BusErrorType;
+  /** 错误方向 */
+  direction: 'tx' | 'rx';
+  /** 错误发生的帧段 (控制器相关编码) */
+  segment: number;
+}
+
+/**
+ * 通道错误标志 (对应 ZCAN_ERROR 中 CAN_* 错误位)
+ */
+export interface ChannelErrorFlags {
+  /** CAN 控制器内部 FIFO 溢出 */
+  overflow: boolean;
+  /** 错误报警 */
+  errorWarning: boolean;
+  /** 消极错误 */
+  errorPassive: boolean;
+  /** 仲裁丢失 */
+  arbitrationLost: boolean;
+  /** 总线错误 */
+  busError: boolean;
+  /** 总线关闭 */
+  busOff: boolean;
+  /** 接收缓冲区溢出 */
+  bufferOverflow: boolean;
+}
+
+/**
+ * 通道错误状态
+ */
+export interface ChannelErrorState {
+  /** 总线状态 */
+  state: BusState;
+  /** 发送错误计数 (TEC) */
+  txErrorCounter: number;
+  /** 接收错误计数 (REC) */
+  rxErrorCounter: number;
+  /** 错误报警限制 */
+  errorWarningLimit: number;
+  /** 原始错误码 */
+  errorCode: number;
+  /** 错误标志 */
+  flags: ChannelErrorFlags;
+  /** 仲裁丢失的位位置，未发生仲裁丢失时为 undefined */
+  arbitrationLostBit?: number;
+  /** 错误码捕获，未发生总线错误时为 undefined */
+  errorCapture?: BusErrorCapture;
+}
+
+/**
+ * 总线状态变化事件
+ */
+export interface BusStateChangeEvent {
+  /** 变化前的状态 */
+  previous: BusState;
+  /** 变化后的状态 */
+  current: BusState;
+  /** 完整的错误状态 */
+  detail: ChannelErrorState;
+}
+
+// ============================================================================
+// 解码
+// ============================================================================
+
+const ERROR_TYPES: BusErrorType[] = ['bit', 'form', 'stuff', 'other'];
+
+/**
+ * 解码错误码捕获寄存器
+ */
+function decodeErrorCapture(ecc: number): BusErrorCapture {
+  return {
+    type: ERROR_TYPES[(ecc & CAN_ECC_REG.TYPE_MASK) >> CAN_ECC_REG.TYPE_SHIFT],
+    direction: ecc & CAN_ECC_REG.DIR_RX ? 'rx' : 'tx',
+    segment: ecc & CAN_ECC_REG.SEGMENT_MASK,
+  };
+}
+
+/**
+ * 由通道错误信息和控制器状态解码错误状态
+ * @param errInfo ZCAN_ReadChannelErrInfo 结果
+ * @param status ZCAN_ReadChannelStatus 结果
+ */
+export function decodeChannelErrorState(errInfo: IZcanChannelErrInfo, status: IZcanChannelStatus): ChannelErrorState {
+  const code = errInfo.error_code;
+  const flags: ChannelErrorFlags = {
+    overflow: (code & ZCAN_ERROR.CAN_OVERFLOW) !== 0,
+    errorWarning: (code & ZCAN_ERROR.CAN_ERRALARM) !== 0,
+    errorPassive: (code & ZCAN_ERROR.CAN_PASSIVE) !== 0,
+    arbitrationLost: (code & ZCAN_ERROR.CAN_LOSE) !== 0,
+    busError: (code & ZCAN_ERROR.CAN_BUSERR) !== 0,
+    busOff: (code & ZCAN_ERROR.CAN_BUSOFF) !== 0,
+    bufferOverflow: (code & ZCAN_ERROR.CAN_BUFFER_OVERFLOW) !== 0,
+  };
+
+  // 消极错误数据依次为 ECC、REC、TEC，仅在错误信息中给出时才作为计数来源
+  const passive = Array.from(errInfo.passive_ErrData);
+  const tec = Math.max(status.regTECounter, flags.errorPassive ? passive[2] || 0 : 0);
+  const rec = Math.max(status.regRECounter, flags.errorPassive ? passive[1] || 0 : 0);
+  const ewl = status.regEWLimit || CAN_ERROR_WARNING_LIMIT;
+
+  let state: BusState = 'error-active';
+  if (flags.busOff || (status.regStatus & CAN_STATUS_REG.BUS_STATUS) !== 0) {
+    state = 'bus-off';
+  } else if (flags.errorPassive || tec >= CAN_ERROR_PASSIVE_LIMIT || rec >= CAN_ERROR_PASSIVE_LIMIT) {
+    state = 'error-passive';
+  } else if (flags.errorWarning || (status.regStatus & CAN_STATUS_REG.ERROR_STATUS) !== 0 || tec >= ewl || rec >= ewl) {
+    state = 'error-warning';
+  }
+
+  const result: ChannelErrorState = {
+    state,
+    txErrorCounter: tec,
+    rxErrorCounter: rec,
+    errorWarningLimit: ewl,
+    errorCode: code,
+    flags,
+  };
+
+  if (flags.arbitrationLost) {
+    result.arbitrationLostBit = (errInfo.arLost_ErrData || status.regALCapture) & CAN_ALC_BIT_MASK;
+  }
+
+  if (flags.busError || flags.errorPassive) {
+    result.errorCapture = decodeErrorCapture(flags.errorPassive && passive[0] ? passive[0] : status.regECCapture);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// 监视器
+// ============================================================================
+
+/**
+ * 错误状态监视器事件
+ */
+export interface ChannelErrorMonitorEvents {
+  /** 总线状态变化 */
+  stateChange: (event: BusStateChangeEvent) => void;
+  /** 发生仲裁丢失 */
+  arbitrationLost: (bit: number, detail: ChannelErrorState) => void;
+  /** 周期轮询中读取错误状态失败 (没有监听器时忽略) */
+  error: (error: Error) => void;
+}
+
+export interface ChannelErrorMonitor {
+  on<E extends keyof ChannelErrorMonitorEvents>(event: E, listener: ChannelErrorMonitorEvents[E]): this;
+  once<E extends keyof ChannelErrorMonitorEvents>(event: E, listener: ChannelErrorMonitorEvents[E]): this;
+  off<E extends keyof ChannelErrorMonitorEvents>(event: E, listener: ChannelErrorMonitorEvents[E]): this;
+  emit<E extends keyof ChannelErrorMonitorEvents>(event: E, ...args: Parameters<ChannelErrorMonitorEvents[E]>): boolean;
+}
+
+/**
+ * 通道错误状态监视器
+ *
+ * 周期读取错误状态，总线状态变化时发出 stateChange 事件
+ */
+export class ChannelErrorMonitor extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private current: BusState = 'error-active';
+
+  /**
+   * @param read 读取当前错误状态的函数
+   */
+  constructor(private readonly read: () => ChannelErrorState) {
+    super();
+  }
+
+  /**
+   * 当前总线状态 (最后一次轮询的结果)
+   */
+  get state(): BusState {
+    return this.current;
+  }
+
+  /**
+   * 是否正在周期轮询
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * 开始周期轮询
+   * @param interval 轮询间隔 (ms)，默认 100
+   */
+  start(interval: number = 100): void {
+    this.stop();
+    this.timer = startPollTimer(this, interval, () => this.poll());
+  }
+
+  /**
+   * 停止周期轮询
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * 读取一次错误状态，状态变化时发出事件
+   * @returns 当前错误状态
+   */
+  poll(): ChannelErrorState {
+    const detail = this.read();
+
+    if (detail.arbitrationLostBit !== undefined) {
+      this.emit('arbitrationLost', detail.arbitrationLostBit, detail);
+    }
+
+    if (detail.state !== this.current) {
+      const previous = this.current;
+      this.current = detail.state;
+      this.emit('stateChange', { previous, current: detail.state, detail });
+    }
+
+    return detail;
+  }
+
+  /**
+   * 重置为主动错误状态 (如通道重新初始化后)
+   */
+  reset(): void {
+    this.current = 'error-active';
+  }
+}
@@ -10,4 +10,51 @@ export {
   AutoSendConfig,
   QueueSendItem,
   MessageType,
+  BusErrorRecord,
+  ReceivedRecord,
 } from './canfd-wifi-100u-tcp';
+
+export {
+  ChannelErrorMonitor,
+  ChannelErrorMonitorEvents,
+  ChannelErrorState,
+  ChannelErrorFlags,
+  BusState,
+  BusErrorType,
+  BusErrorCapture,
+  BusStateChangeEvent,
+  decodeChannelErrorState,
+} from './error-monitor';
+
+export {
+  DeviceInfo,
+  decodeDeviceInfo,
+  decodeDeviceInfoEx,
+  decodeFixedString,
+  formatVersion,
+  formatPackedVersion,
+} from './device-info';
+
+export {
+  LinChannel,
+  LinChannelConfig,
+  LinChannelEvents,
+  LinMode,
+  LinChecksumType,
+  LinFrame,
+  LinBusError,
+  LinResponse,
+  LinSubscription,
+  LinScheduleEntry,
+  LinScheduleAction,
+} from './lin-channel';
+
+export {
+  UdsRequestOptions,
+  UdsResponse,
+  UdsFrameType,
+  toZcanUdsRequest,
+  fromZcanUdsResponse,
+  encodeStMin,
+  decodeStMin,
+} from './uds-request';
@@ -0,0 +1,589 @@
+/**
+ * LIN 通道
+ * 封装 ZCAN LIN 接口，提供主机帧头调度、从机应答表、校验方式选择和休眠/唤醒事件
+ */
+
+import { EventEmitter } from 'events';
+import {
+  ZlgCanDriver,
+  ZlgCanError,
+  DeviceNotOpenError,
+  createZlgCanError,
+  emitError,
+  startPollTimer,
+  IZcanLinMsg,
+  IZcanLinPublishCfg,
+  IZcanLinSubscribeCfg,
+  LIN_MSG_DATA_TYPE,
+  LIN_MODE,
+  LIN_CHECKSUM_MODE,
+  LIN_DIR,
+  LIN_ID_MASK,
+  LIN_MASTER_REQUEST_ID,
+  LIN_SUBSCRIBE_AUTO_LENGTH,
+  LIN_MAX_DLEN,
+  LIN_EX_MAX_DLEN,
+  ZCAN_LIN_EVENT,
+  INVALID_CHANNEL_HANDLE,
+} from '../driver';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * LIN 节点模式
+ */
+export type LinMode = 'master' | 'slave';
+
+/**
+ * 校验方式
+ * - classic: 经典校验 (仅数据)
+ * - enhanced: 增强校验 (PID + 数据)，诊断帧 0x3C/0x3D 仍使用经典校验
+ * - auto: 接收时自动识别 (仅用于通道配置和订阅)
+ */
+export type LinChecksumType = 'classic' | 'enhanced' | 'auto';
+
+/**
+ * LIN 通道配置
+ */
+export interface LinChannelConfig {
+  /** 节点模式 */
+  mode: LinMode;
+  /** LIN 通道索引，默认 0 */
+  channelIndex?: number;
+  /** 波特率 (1000~20000)，默认 19200 */
+  baudRate?: number;
+  /** 默认校验方式，默认 'enhanced' */
+  checksum?: LinChecksumType;
+  /** 最大数据长度 (8~64)，默认 8 */
+  maxLength?: number;
+}
+
+/**
+ * LIN 数据帧
+ */
+export interface LinFrame {
+  /** 帧 ID (0-63) */
+  id: number;
+  /** 受保护的 ID (含奇偶校验位) */
+  pid: number;
+  /** 数据 */
+  data: number[];
+  /** 校验和 (部分设备不支持获取) */
+  checksum: number;
+  /** 传输方向，tx 表示由本节点发送 (帧头或应答) */
+  direction: 'rx' | 'tx';
+  /** 时间戳 (us) */
+  timestamp: number;
+}
+
+/**
+ * LIN 总线错误
+ */
+export interface LinBusError {
+  /** 帧 ID (0-63) */
+  id: number;
+  /** 错误发生前收到的数据 */
+  data: number[];
+  /** 错误阶段 (设备相关编码) */
+  stage: number;
+  /** 错误原因 (设备相关编码) */
+  reason: number;
+  /** 传输方向 */
+  direction: 'rx' | 'tx';
+  /** 校验和 */
+  checksum: number;
+  /** 时间戳 (us) */
+  timestamp: number;
+}
+
+/**
+ * 应答表项 (收到帧头时由本节点发送的数据)
+ */
+export interface LinResponse {
+  /** 帧 ID (0-63) */
+  id: number;
+  /** 数据，1-8 字节 (maxLength 大于 8 时最多 64 字节) */
+  data: number[];
+  /** 校验方式，省略时使用通道配置 */
+  checksum?: Exclude<LinChecksumType, 'auto'>;
+}
+
+/**
+ * 订阅表项 (接收时校验的数据长度和校验方式)
+ */
+export interface LinSubscription {
+  /** 帧 ID (0-63) */
+  id: number;
+  /** 数据长度 1-8，省略时由设备自动识别 */
+  length?: number;
+  /** 校验方式，省略时使用通道配置 */
+  checksum?: LinChecksumType;
+}
+
+/**
+ * 调度表项
+ */
+export interface LinScheduleEntry {
+  /** 帧 ID (0-63) */
+  id: number;
+  /** 时隙 (ms)，发送本帧后到下一帧的间隔 */
+  slot: number;
+  /** 由主机发送的数据，省略时只发送帧头，由发布了该 ID 的节点应答 */
+  data?: number[];
+}
+
+/**
+ * 自定义调度表项，时隙开始时调用 run() 代替发送固定的帧 (如按当前信号值发送)
+ */
+export interface LinScheduleAction {
+  /** 时隙 (ms)，执行本项后到下一项的间隔 */
+  slot: number;
+  /** 时隙动作，抛出的异常按发送失败处理 */
+  run: () => void;
+}
+
+// ============================================================================
+// 辅助函数
+// ============================================================================
+
+const CHECKSUM_MODES: Record<LinChecksumType, number> = {
+  classic: LIN_CHECKSUM_MODE.CLASSIC,
+  enhanced: LIN_CHECKSUM_MODE.ENHANCED,
+  auto: LIN_CHECKSUM_MODE.AUTOMATIC,
+};
+
+/**
+ * 休眠命令 (主机请求帧 0x3C，首字节 0x00)
+ */
+const GO_TO_SLEEP_DATA = [0x00, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF];
+
+function checkId(id: number): void {
+  if (!Number.isInteger(id) || id < 0 || id > LIN_ID_MASK) {
+    throw new RangeError(`LIN 帧 ID 超出范围 (0-63): ${id}`);
+  }
+}
+
+/**
+ * 构造主机发送的 LIN 报文
+ */
+function toZcanLinMsg(channelIndex: number, id: number, data: number[]): IZcanLinMsg {
+  return {
+    chnl: channelIndex,
+    dataType: LIN_MSG_DATA_TYPE.DATA,
+    data: {
+      PID: id,
+      RxData: { timeStamp: 0, dataLen: data.length, dir: LIN_DIR.TX, chkSum: 0, data },
+    },
+  };
+}
+
+/**
+ * 构造订阅配置，未指定长度时由设备自动识别
+ */
+function toSubscribeCfg(subscription: LinSubscription): IZcanLinSubscribeCfg {
+  return {
+    ID: subscription.id,
+    dataLen: subscription.length ?? LIN_SUBSCRIBE_AUTO_LENGTH,
+    chkSumMode: subscription.checksum ? CHECKSUM_MODES[subscription.checksum] : LIN_CHECKSUM_MODE.DEFAULT,
+  };
+}
+
+// ============================================================================
+// LIN 通道
+// ============================================================================
+
+/**
+ * LIN 通道事件
+ */
+export interface LinChannelEvents {
+  /** 收到数据帧 (包括本节点发送的帧) */
+  frame: (frame: LinFrame) => void;
+  /** 总线错误 (无应答、校验错误等) */
+  linError: (error: LinBusError) => void;
+  /** 总线进入休眠 */
+  sleep: () => void;
+  /** 总线退出休眠 */
+  wake: () => void;
+  /** 检测到其它节点发送的唤醒信号 */
+  wakeUpSignal: () => void;
+  /** 调度或轮询失败 (没有监听器时忽略) */
+  error: (error: Error) => void;
+}
+
+export interface LinChannel {
+  on<E extends keyof LinChannelEvents>(event: E, listener: LinChannelEvents[E]): this;
+  once<E extends keyof LinChannelEvents>(event: E, listener: LinChannelEvents[E]): this;
+  off<E extends keyof LinChannelEvents>(event: E, listener: LinChannelEvents[E]): this;
+  emit<E extends keyof LinChannelEvents>(event: E, ...args: Parameters<LinChannelEvents[E]>): boolean;
+}
+
+/**
+ * LIN 通道
+ *
+ * 使用已打开设备的 LIN 通道。主机通过 sendHeader/send 或调度表发送帧头，
+ * 从机通过应答表 (setResponse) 响应帧头；接收的数据、错误和休眠/唤醒事件由 poll() 读取并发出事件
+ */
+export class LinChannel extends EventEmitter {
+  private readonly config: Required<LinChannelConfig>;
+  private channelHandle: number = INVALID_CHANNEL_HANDLE;
+  private readonly responses = new Map<number, LinResponse>();
+  private readonly subscriptions = new Map<number, LinSubscription>();
+  private scheduleTimer: NodeJS.Timeout | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private sleeping = false;
+
+  /**
+   * @param driver 已初始化的驱动
+   * @param deviceHandle 设备句柄
+   * @param config 通道配置
+   */
+  constructor(
+    private readonly driver: ZlgCanDriver,
+    private readonly deviceHandle: number,
+    config: LinChannelConfig,
+  ) {
+    super();
+    this.config = {
+      channelIndex: 0,
+      baudRate: 19200,
+      checksum: 'enhanced',
+      maxLength: LIN_MAX_DLEN,
+      ...config,
+    };
+  }
+
+  /**
+   * 节点模式
+   */
+  get mode(): LinMode {
+    return this.config.mode;
+  }
+
+  /**
+   * 总线是否处于休眠状态 (根据最近收到的休眠/唤醒事件)
+   */
+  get isSleeping(): boolean {
+    return this.sleeping;
+  }
+
+  // ============================================================================
+  // 通道状态管理
+  // ============================================================================
+
+  /**
+   * 初始化并启动通道，写入已配置的应答表和订阅表
+   */
+  open(): void {
+    if (this.isOpen()) {
+      return;
+    }
+
+    this.channelHandle = this.driver.initLIN(this.deviceHandle, this.config.channelIndex, {
+      linMode: this.config.mode === 'master' ? LIN_MODE.MASTER : LIN_MODE.SLAVE,
+      chkSumMode: CHECKSUM_MODES[this.config.checksum],
+      maxLength: this.config.maxLength,
+      linBaud: this.config.baudRate,
+    });
+
+    try {
+      this.driver.startLIN(this.channelHandle);
+      for (const response of this.responses.values()) {
+        this.applyResponse(response);
+      }
+      if (this.subscriptions.size > 0) {
+        this.driver.setLINSubscribe(this.channelHandle, Array.from(this.subscriptions.values(), toSubscribeCfg));
+      }
+    } catch (error) {
+      this.channelHandle = INVALID_CHANNEL_HANDLE;
+      throw error;
+    }
+  }
+
+  /**
+   * 停止调度和轮询并复位通道
+   */
+  close(): void {
+    this.stopSchedule();
+    this.stopPolling();
+
+    if (this.isOpen()) {
+      try {
+        this.driver.resetLIN(this.channelHandle);
+      } finally {
+        this.channelHandle = INVALID_CHANNEL_HANDLE;
+        this.sleeping = false;
+      }
+    }
+  }
+
+  /**
+   * 通道是否已打开
+   */
+  isOpen(): boolean {
+    return this.channelHandle !== INVALID_CHANNEL_HANDLE;
+  }
+
+  private ensureOpen(): void {
+    if (!this.isOpen()) {
+      throw new DeviceNotOpenError('LinChannel', undefined, 'LIN 通道未打开');
+    }
+  }
+
+  private ensureMaster(operation: string): void {
+    this.ensureOpen();
+    if (this.config.mode !== 'master') {
+      throw new ZlgCanError(operation, undefined, '仅主机可发送帧头');
+    }
+  }
+
+  // ============================================================================
+  // 主机
+  // ============================================================================
+
+  /**
+   * 发送帧头，由发布了该 ID 的节点应答
+   * @param id 帧 ID (0-63)
+   */
+  sendHeader(id: number): void {
+    this.send(id, []);
+  }
+
+  /**
+   * 发送帧头和主机数据
+   * @param id 帧 ID (0-63)
+   * @param data 数据，为空时只发送帧头
+   */
+  send(id: number, data: number[]): void {
+    this.ensureMaster('send');
+    checkId(id);
+    if (data.length > LIN_MAX_DLEN) {
+      throw new RangeError(`LIN 数据长度超出范围 (0-${LIN_MAX_DLEN}): ${data.length}`);
+    }
+
+    const sent = this.driver.transmitLIN(this.channelHandle, [toZcanLinMsg(this.config.channelIndex, id, data)]);
+    if (sent !== 1) {
+      const errorCode = this.driver.readErrorCode(this.channelHandle);
+      throw createZlgCanError('transmitLIN', errorCode, errorCode === undefined ? '发送 LIN 帧头失败' : undefined);
+    }
+  }
+
+  /**
+   * 发送休眠命令 (主机请求帧 0x3C，数据 00 FF FF FF FF FF FF FF)
+   */
+  goToSleep(): void {
+    this.send(LIN_MASTER_REQUEST_ID, GO_TO_SLEEP_DATA);
+  }
+
+  /**
+   * 按调度表循环发送帧头
+   *
+   * 使用主机定时器，每个时隙结束后发送下一帧；发送失败时发出 error 事件 (没有监听器时忽略) 并继续调度
+   *
+   * @param entries 调度表，可包含自定义调度表项
+   */
+  startSchedule(entries: (LinScheduleEntry | LinScheduleAction)[]): void {
+    this.ensureMaster('startSchedule');
+    if (entries.length === 0) {
+      throw new RangeError('调度表为空');
+    }
+    entries.forEach((entry) => {
+      if (!('run' in entry)) {
+        checkId(entry.id);
+      }
+    });
+    this.stopSchedule();
+
+    let index = 0;
+    const runSlot = () => {
+      const entry = entries[index];
+      index = (index + 1) % entries.length;
+      // 先安排下一时隙，发送失败或 error 监听器抛出异常时调度仍继续
+      this.scheduleTimer = setTimeout(runSlot, entry.slot);
+      this.scheduleTimer.unref();
+      try {
+        if ('run' in entry) {
+          entry.run();
+        } else {
+          this.send(entry.id, entry.data || []);
+        }
+      } catch (error) {
+        emitError(this, error);
+      }
+    };
+
+    this.scheduleTimer = setTimeout(runSlot, 0);
+    this.scheduleTimer.unref();
+  }
+
+  /**
+   * 停止调度
+   */
+  stopSchedule(): void {
+    if (this.scheduleTimer) {
+      clearTimeout(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+  }
+
+  /**
+   * 调度是否正在运行
+   */
+  isScheduleRunning(): boolean {
+    return this.scheduleTimer !== null;
+  }
+
+  // ============================================================================
+  // 应答表和订阅表
+  // ============================================================================
+
+  /**
+   * 设置应答数据，收到该 ID 的帧头时由本节点发送
+   *
+   * 数据超过 8 字节时使用 ZCAN_SetLINPublishEx (需 maxLength 大于 8)
+   */
+  setResponse(response: LinResponse): void {
+    checkId(response.id);
+    const maxLength = Math.min(this.config.maxLength, LIN_EX_MAX_DLEN);
+    if (response.data.length < 1 || response.data.length > maxLength) {
+      throw new RangeError(`LIN 应答数据长度超出范围 (1-${maxLength}): ${response.data.length}`);
+    }
+
+    this.responses.set(response.id, { ...response, data: [...response.data] });
+    if (this.isOpen()) {
+      this.applyResponse(response);
+    }
+  }
+
+  /**
+   * 当前应答表
+   */
+  getResponses(): LinResponse[] {
+    return Array.from(this.responses.values());
+  }
+
+  /**
+   * 设置订阅 (接收时校验的数据长度和校验方式)
+   */
+  subscribe(subscription: LinSubscription): void {
+    checkId(subscription.id);
+    this.subscriptions.set(subscription.id, { ...subscription });
+    if (this.isOpen()) {
+      this.driver.setLINSubscribe(this.channelHandle, [toSubscribeCfg(subscription)]);
+    }
+  }
+
+  private applyResponse(response: LinResponse): void {
+    const cfg: IZcanLinPublishCfg = {
+      ID: response.id,
+      dataLen: response.data.length,
+      data: response.data,
+      chkSumMode: response.checksum ? CHECKSUM_MODES[response.checksum] : LIN_CHECKSUM_MODE.DEFAULT,
+    };
+    if (response.data.length > LIN_MAX_DLEN) {
+      this.driver.setLINPublishEx(this.channelHandle, [cfg]);
+    } else {
+      this.driver.setLINPublish(this.channelHandle, [cfg]);
+    }
+  }
+
+  // ============================================================================
+  // 休眠/唤醒
+  // ============================================================================
+
+  /**
+   * 发送唤醒信号
+   */
+  wakeUp(): void {
+    this.ensureOpen();
+    this.driver.wakeUpLIN(this.channelHandle);
+  }
+
+  // ============================================================================
+  // 接收
+  // ============================================================================
+
+  /**
+   * 读取接收缓冲区，为数据帧、错误和事件发出对应事件
+   * @param maxCount 最大读取数量，默认 100
+   * @returns 收到的数据帧
+   */
+  poll(maxCount: number = 100): LinFrame[] {
+    this.ensureOpen();
+    const frames: LinFrame[] = [];
+
+    for (const msg of this.driver.receiveLIN(this.channelHandle, maxCount, 0)) {
+      switch (msg.dataType) {
+        case LIN_MSG_DATA_TYPE.DATA: {
+          const rx = msg.data.RxData;
+          const frame: LinFrame = {
+            id: msg.data.PID & LIN_ID_MASK,
+            pid: msg.data.PID,
+            data: Array.from(rx.data).slice(0, rx.dataLen),
+            checksum: rx.chkSum,
+            direction: rx.dir === LIN_DIR.TX ? 'tx' : 'rx',
+            timestamp: Number(rx.timeStamp),
+          };
+          frames.push(frame);
+          this.emit('frame', frame);
+          break;
+        }
+        case LIN_MSG_DATA_TYPE.ERROR: {
+          const err = msg.data;
+          this.emit('linError', {
+            id: err.PID & LIN_ID_MASK,
+            data: Array.from(err.data).slice(0, err.dataLen),
+            stage: err.errData & 0x0F,
+            reason: (err.errData >> 4) & 0x0F,
+            direction: err.dir === LIN_DIR.TX ? 'tx' : 'rx',
+            checksum: err.chkSum,
+            timestamp: Number(err.timeStamp),
+          });
+          break;
+        }
+        case LIN_MSG_DATA_TYPE.EVENT:
+          this.handleEvent(msg.data.type);
+          break;
+      }
+    }
+
+    return frames;
+  }
+
+  private handleEvent(type: number): void {
+    switch (type) {
+      case ZCAN_LIN_EVENT.WAKE_UP:
+        this.emit('wakeUpSignal');
+        break;
+      case ZCAN_LIN_EVENT.ENTERED_SLEEP_MODE:
+        this.sleeping = true;
+        this.emit('sleep');
+        break;
+      case ZCAN_LIN_EVENT.EXITED_SLEEP_MODE:
+        this.sleeping = false;
+        this.emit('wake');
+        break;
+    }
+  }
+
+  /**
+   * 开始周期轮询接收缓冲区
+   * @param interval 轮询间隔 (ms)，默认 10
+   */
+  startPolling(interval: number = 10): void {
+    this.ensureOpen();
+    this.stopPolling();
+    this.pollTimer = startPollTimer(this, interval, () => this.poll());
+  }
+
+  /**
+   * 停止周期轮询
+   */
+  stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * 设备端 UDS 请求
+ * 将 udsRequest() 的选项转换为 ZCAN_UDS_REQUEST，并将 ZCAN_UDS_RESPONSE 转换为积极/消极响应
+ */
+
+import {
+  IZcanUdsRequest,
+  IZcanUdsResponse,
+  ZCAN_UDS_TRANS_VER,
+  ZCAN_UDS_FRAME_TYPE,
+  ZCAN_UDS_FILL_MODE,
+  ZCAN_UDS_SESSION_FLAG,
+  ZCAN_UDS_RESPONSE_TYPE,
+} from '../driver';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * UDS 请求帧类型
+ */
+export type UdsFrameType = 'can' | 'canfd' | 'canfd-brs';
+
+/**
+ * UDS 请求选项
+ */
+export interface UdsRequestOptions {
+  /** 请求地址 (诊断仪发送 ID) */
+  txId: number;
+  /** 响应地址 (ECU 响应 ID) */
+  rxId: number;
+  /** 请求服务 ID */
+  sid: number;
+  /** 数据 (不包含 SID) */
+  data?: Buffer | number[];
+  /** 是否使用扩展帧，默认 false */
+  extended?: boolean;
+  /** 请求事务 ID，省略时自动分配 */
+  requestId?: number;
+  /** 帧类型，默认 'can' */
+  frameType?: UdsFrameType;
+  /** 单帧最大数据长度，默认 CAN 为 8、CANFD 为 64 */
+  maxDataLength?: number;
+  /** 填充字节，默认 0xCC */
+  fillByte?: number;
+  /** 填充方式，默认 'short' (小于 8 字节填充至 8 字节，大于 8 字节按 DLC 就近填充) */
+  fillMode?: 'short' | 'none' | 'max';
+  /** ISO 15765-2 版本，默认 2004 */
+  transportVersion?: 2004 | 2016;
+  /** 本地流控帧的 STmin (ms，0-127，小于 1 时按 100μs 单位编码)，默认 0 */
+  stMin?: number;
+  /** 本地流控帧的块大小，默认 0 (不限制) */
+  blockSize?: number;
+  /** 忽略 ECU 流控帧并使用该 STmin (ms，0-127) 发送连续帧 */
+  remoteStMin?: number;
+  /** 等待流控帧超时时间 (ms)，默认 1000 */
+  fcTimeout?: number;
+  /** P2 响应超时时间 (ms)，默认 1000 */
+  p2Timeout?: number;
+  /** 收到 NRC 0x78 后的 P2* 超时时间 (ms)，默认 5000 */
+  p2StarTimeout?: number;
+  /** 抑制积极响应 (子功能最高位)，默认 false */
+  suppressPositiveResponse?: boolean;
+  /** 抑制积极响应时仍等待 P2 超时以接收消极响应，默认 false */
+  waitIfSuppressed?: boolean;
+  /** 接收任意服务的消极响应 (默认仅接收与请求 SID 相同的消极响应) */
+  checkAnyNegativeResponse?: boolean;
+  /** 积极响应数据缓冲区大小 (字节)，默认 4095 */
+  maxResponseLength?: number;
+}
+
+/**
+ * UDS 响应
+ * - positive: 积极响应，sid 为响应 SID (请求 SID + 0x40)，data 不包含 SID
+ * - negative: 消极响应，sid 为被拒绝的请求 SID
+ * - none: 抑制积极响应时未收到响应
+ */
+export type UdsResponse =
+  | { type: 'positive'; sid: number; data: Buffer }
+  | { type: 'negative'; sid: number; nrc: number }
+  | { type: 'none' };
+
+// ============================================================================
+// STmin
+// ============================================================================
+
+/**
+ * 将 STmin (ms) 编码为流控帧字节
+ */
+export function encodeStMin(ms: number): number {
+  if (ms <= 0) {
+    return 0;
+  }
+  if (ms < 1) {
+    return 0xF0 + Math.min(9, Math.max(1, Math.round(ms * 10)));
+  }
+  return Math.min(0x7F, Math.round(ms));
+}
+
+/**
+ * 将流控帧 STmin 字节解码为 ms，保留值按最大值 127ms 处理
+ */
+export function decodeStMin(value: number): number {
+  if (value <= 0x7F) {
+    return value;
+  }
+  if (value >= 0xF1 && value <= 0xF9) {
+    return (value - 0xF0) / 10;
+  }
+  return 0x7F;
+}
+
+// ============================================================================
+// 转换
+// ============================================================================
+
+const FRAME_TYPES: Record<UdsFrameType, number> = {
+  'can': ZCAN_UDS_FRAME_TYPE.CAN,
+  'canfd': ZCAN_UDS_FRAME_TYPE.CANFD,
+  'canfd-brs': ZCAN_UDS_FRAME_TYPE.CANFD_BRS,
+};
+
+const FILL_MODES: Record<NonNullable<UdsRequestOptions['fillMode']>, number> = {
+  short: ZCAN_UDS_FILL_MODE.SHORT,
+  none: ZCAN_UDS_FILL_MODE.NONE,
+  max: ZCAN_UDS_FILL_MODE.MAX,
+};
+
+/**
+ * 将 STmin (ms) 编码为请求结构的 STmin 字节
+ * @throws {RangeError} 超出 0-127ms 时抛出异常
+ */
+function encodeRequestStMin(name: string, ms: number): number {
+  if (!(ms >= 0 && ms <= 0x7F)) {
+    throw new RangeError(`${name} 超出范围 (0-127ms): ${ms}`);
+  }
+  return encodeStMin(ms);
+}
+
+/**
+ * 将请求选项转换为驱动层请求结构
+ * @param options 请求选项
+ * @param requestId 请求事务 ID
+ * @param channel 设备通道索引
+ * @throws {RangeError} stMin 或 remoteStMin 超出 0-127ms 时抛出异常
+ */
+export function toZcanUdsRequest(options: UdsRequestOptions, requestId: number, channel: number): IZcanUdsRequest {
+  const frameType = options.frameType || 'can';
+  let flag = 0;
+  if (options.checkAnyNegativeResponse) {
+    flag |= ZCAN_UDS_SESSION_FLAG.CHECK_ANY_NEGATIVE_RESPONSE;
+  }
+  if (options.waitIfSuppressed) {
+    flag |= ZCAN_UDS_SESSION_FLAG.WAIT_IF_SUPPRESS_RESPONSE;
+  }
+
+  return {
+    req_id: requestId,
+    channel,
+    frame_type: FRAME_TYPES[frameType],
+    src_addr: options.txId,
+    dst_addr: options.rxId,
+    suppress_response: options.suppressPositiveResponse ? 1 : 0,
+    sid: options.sid,
+    session_param: {
+      timeout: options.p2Timeout ?? 1000,
+      enhanced_timeout: options.p2StarTimeout ?? 5000,
+      flag,
+    },
+    trans_param: {
+      version: options.transportVersion === 2016 ? ZCAN_UDS_TRANS_VER.VER_2016 : ZCAN_UDS_TRANS_VER.VER_2004,
+      max_data_len: options.maxDataLength ?? (frameType === 'can' ? 8 : 64),
+      local_st_min: encodeRequestStMin('stMin', options.stMin ?? 0),
+      block_size: options.blockSize ?? 0,
+      fill_byte: options.fillByte ?? 0xCC,
+      ext_frame: options.extended ? 1 : 0,
+      is_modify_ecu_st_min: options.remoteStMin !== undefined ? 1 : 0,
+      remote_st_min: encodeRequestStMin('remoteStMin', options.remoteStMin ?? 0),
+      fc_timeout: options.fcTimeout ?? 1000,
+      fill_mode: FILL_MODES[options.fillMode || 'short'],
+    },
+    data: options.data ? Array.from(options.data) : [],
+  };
+}
+
+/**
+ * 将驱动层响应转换为 UdsResponse
+ * @param response 响应信息
+ * @param data 积极响应数据
+ */
+export function fromZcanUdsResponse(response: IZcanUdsResponse, data: Buffer): UdsResponse {
+  switch (response.type) {
+    case ZCAN_UDS_RESPONSE_TYPE.POSITIVE:
+      return { type: 'positive', sid: response.positive.sid, data };
+    case ZCAN_UDS_RESPONSE_TYPE.NEGATIVE:
+      return { type: 'negative', sid: response.negative.sid, nrc: response.negative.error_code };
+    default:
+      return { type: 'none' };
+  }
+}
@@ -174,6 +174,200 @@ export const ZCAN_DATA_TYPE = {
   ALL_DATA: 2,
 } as const;
 
+// 合并收发数据类型 (ZCANDataObj.dataType，对应 eZCANDataDEF)
+export const ZCAN_DATA_OBJ_TYPE = {
+  CAN_CANFD: 1,   // CAN/CANFD 数据
+  ERROR: 2,       // 错误数据
+  GPS: 3,         // GPS 数据
+  LIN: 4,         // LIN 数据
+  BUS_USAGE: 5,   // 总线利用率数据
+  LIN_ERROR: 6,   // LIN 错误数据
+  LIN_EX: 7,      // LIN 扩展数据
+  LIN_EVENT: 8,   // LIN 事件数据
+} as const;
+
+// ZCANCANFDData.flag 位域
+export const ZCAN_DATA_FLAG = {
+  FRAME_TYPE_MASK: 0x03,       // 帧类型 (0: CAN, 1: CANFD)
+  TX_DELAY_SHIFT: 2,           // 队列发送延时单位 (见 ZCAN_TX_DELAY)
+  TX_DELAY_MASK: 0x0C,
+  TRANSMIT_TYPE_SHIFT: 4,      // 发送类型 (见 ZCAN_TRANSMIT_TYPE)
+  TRANSMIT_TYPE_MASK: 0xF0,
+  TX_ECHO_REQUEST: 0x100,      // 发送回显请求
+  TX_ECHOED: 0x200,            // 回显报文标志 (接收有效)
+} as const;
+
+// 合并发送队列延时单位 (ZCANCANFDData.flag.txDelay)
+export const ZCAN_TX_DELAY = {
+  NO_DELAY: 0,     // 无发送延时
+  UNIT_MS: 1,      // 延时单位 ms
+  UNIT_100US: 2,   // 延时单位 100us
+} as const;
+
+// 错误数据类型 (ZCANErrorData.errType)
+export const ZCAN_ERR_TYPE = {
+  NO_ERR: 0,          // 无错误
+  BUS_ERR: 1,         // 总线错误
+  CONTROLLER_ERR: 2,  // 控制器错误
+  DEVICE_ERR: 3,      // 终端设备错误
+} as const;
+
+// 节点状态 (ZCANErrorData.nodeState)
+export const ZCAN_NODE_STATE = {
+  ACTIVE: 1,    // 总线积极
+  WARNING: 2,   // 总线告警
+  PASSIVE: 3,   // 总线消极
+  BUSOFF: 4,    // 总线关闭
+} as const;
+
+// 总线错误子类型 (errType = BUS_ERR 时的 ZCANErrorData.errSubType)
+export const ZCAN_BUS_ERR = {
+  NO_ERR: 0,             // 无错误
+  BIT_ERR: 1,            // 位错误
+  ACK_ERR: 2,            // 应答错误
+  CRC_ERR: 3,            // CRC 错误
+  FORM_ERR: 4,           // 格式错误
+  STUFF_ERR: 5,          // 填充错误
+  OVERLOAD_ERR: 6,       // 超载错误
+  ARBITRATION_LOST: 7,   // 仲裁丢失
+  NODE_STATE_CHANGE: 8,  // 总线节点变化
+} as const;
+
+// LIN 事件类型 (ZCANLINEventData.type)
+export const ZCAN_LIN_EVENT = {
+  WAKE_UP: 1,             // 唤醒
+  ENTERED_SLEEP_MODE: 2,  // 进入休眠
+  EXITED_SLEEP_MODE: 3,   // 退出休眠
+  SWITCH_SCHED: 4,        // 切换调度表
+} as const;
+
+// LIN 报文数据类型 (ZCAN_LIN_MSG.dataType)
+export const LIN_MSG_DATA_TYPE = {
+  DATA: 0,   // LIN 数据
+  ERROR: 1,  // LIN 错误数据
+  EVENT: 2,  // LIN 事件数据
+} as const;
+
+// LIN 工作模式 (ZCAN_LIN_INIT_CONFIG.linMode)
+export const LIN_MODE = {
+  SLAVE: 0,   // 从机
+  MASTER: 1,  // 主机
+} as const;
+
+// LIN 校验方式 (对应 eZLINChkSumMode)
+export const LIN_CHECKSUM_MODE = {
+  DEFAULT: 0,    // 默认，使用初始化时的配置
+  CLASSIC: 1,    // 经典校验
+  ENHANCED: 2,   // 增强校验
+  AUTOMATIC: 3,  // 自动识别 (仅 ZCAN_SetLINSubscribe 和初始化时有效)
+} as const;
+
+// LIN 传输方向 (ZCANLINData.RxData.dir)
+export const LIN_DIR = {
+  RX: 0,  // 接收
+  TX: 1,  // 发送
+} as const;
+
+// LIN 帧 ID 掩码 (PID bit0-5)
+export const LIN_ID_MASK = 0x3F;
+
+// LIN 诊断帧 ID，始终使用经典校验
+export const LIN_MASTER_REQUEST_ID = 0x3C;
+export const LIN_SLAVE_RESPONSE_ID = 0x3D;
+
+// ZCAN_LIN_SUBSCIBE_CFG.dataLen 取 0xFF 时由设备自动识别报文长度
+export const LIN_SUBSCRIBE_AUTO_LENGTH = 0xFF;
+
+// LIN 数据长度
+export const LIN_MAX_DLEN = 8;
+export const LIN_EX_MAX_DLEN = 64;
+
+// UDS 传输协议版本 (ZCAN_UDS_REQUEST.trans_param.version)
+export const ZCAN_UDS_TRANS_VER = {
+  VER_2004: 0,  // ISO 15765-2 (2004 版本)
+  VER_2016: 1,  // ISO 15765-2 (2016 版本)
+} as const;
+
+// UDS 帧类型 (ZCAN_UDS_REQUEST.frame_type)
+export const ZCAN_UDS_FRAME_TYPE = {
+  CAN: 0,        // CAN 帧
+  CANFD: 1,      // CANFD 帧
+  CANFD_BRS: 2,  // CANFD 加速帧
+} as const;
+
+// UDS 数据长度填充模式 (ZCAN_UDS_REQUEST.trans_param.fill_mode)
+export const ZCAN_UDS_FILL_MODE = {
+  SHORT: 0,  // 小于 8 字节填充至 8 字节，大于 8 字节时按 DLC 就近填充
+  NONE: 1,   // 不填充
+  MAX: 2,    // 填充至最大数据长度 (不建议)
+} as const;
+
+// ZCAN_UDS_REQUEST.session_param 标志位
+export const ZCAN_UDS_SESSION_FLAG = {
+  CHECK_ANY_NEGATIVE_RESPONSE: 0x01,  // 接收到非本次请求服务的消极响应时判定为响应错误
+  WAIT_IF_SUPPRESS_RESPONSE: 0x02,    // 抑制响应时等待消极响应，等待时长为响应超时时间
+} as const;
+
+// UDS 请求状态 (ZCAN_UDS_RESPONSE.status)
+export const ZCAN_UDS_ERROR = {
+  OK: 0x00,                 // 没错误
+  TIMEOUT: 0x01,            // 响应超时
+  TRANSPORT: 0x02,          // 发送数据失败
+  CANCEL: 0x03,             // 取消请求
+  SUPPRESS_RESPONSE: 0x04,  // 抑制响应
+  BUSY: 0x05,               // 忙碌中
+  REQ_PARAM: 0x06,          // 请求参数错误
+  OTHER: 0x64,              // 其它未知错误
+  // DoIP
+  DOIP_FAILED_TO_CREATE_SOCKET: 0x20,                   // 创建 socket 失败
+  DOIP_FAILED_TO_CONNECT: 0x21,                         // 建立连接失败
+  DOIP_TIMEOUT: 0x22,                                   // 操作超时
+  DOIP_ROUTING_NOT_ACTIVE: 0x23,                        // 路由未激活
+  DOIP_BUFFER_TOO_SMALL: 0x24,                          // 缓冲区不足
+  DOIP_ROUTING_ALREADY_ACTIVE: 0x25,                    // 路由已被激活
+  DOIP_HEADER_NACK_INCORRECT_PATTERN_FORMAT: 0x26,      // 收到 DoIP 头部 NACK
+  DOIP_HEADER_NACK_UNKNOWN_PAYLOAD_TYPE: 0x27,          // 收到 DoIP 头部 NACK
+  DOIP_HEADER_NACK_MESSAGE_TOO_LARGE: 0x28,             // 收到 DoIP 头部 NACK
+  DOIP_HEADER_NACK_OUT_OF_MEMORY: 0x29,                 // 收到 DoIP 头部 NACK
+  DOIP_HEADER_NACK_INVALID_PAYLOAD_LENGTH: 0x2A,        // 收到 DoIP 头部 NACK
+  DOIP_HEADER_NACK_UNKNOWN: 0x2B,                       // 收到 DoIP 头部 NACK
+  DOIP_DIAGNOSTIC_NACK_INVALID_SOURCE_ADDRESS: 0x2C,    // 收到诊断请求 NACK
+  DOIP_DIAGNOSTIC_NACK_UNKNOWN_TARGET_ADDRESS: 0x2D,    // 收到诊断请求 NACK
+  DOIP_DIAGNOSTIC_NACK_MESSAGE_TOO_LARGE: 0x2E,         // 收到诊断请求 NACK
+  DOIP_DIAGNOSTIC_NACK_OUT_OF_MEMORY: 0x2F,             // 收到诊断请求 NACK
+  DOIP_DIAGNOSTIC_NACK_TARGET_UNREACHABLE: 0x30,        // 收到诊断请求 NACK
+  DOIP_DIAGNOSTIC_NACK_UNKNOWN_NETWORK: 0x31,           // 收到诊断请求 NACK
+  DOIP_DIAGNOSTIC_NACK_TRANSPORT_PROTOCOL_ERROR: 0x32,  // 收到诊断请求 NACK
+  DOIP_DIAGNOSTIC_NACK_UNKNOWN: 0x33,                   // 收到诊断请求 NACK
+  DOIP_INVALID_HANDLE: 0x34,                            // 无效的句柄
+  DOIP_UNEXPECTED_NULL_POINTER: 0x35,                   // 未预期的空指针
+  DOIP_UNKNOWN_HANDLE: 0x36,                            // 未知的句柄
+  DOIP_OUT_OF_MEMORY: 0x37,                             // 内存不足
+  DOIP_UNKNOWN_ERROR: 0x38,                             // 未知的错误
+  DOIP_ROUTING_ACTIVE_FAIL: 0x39,                       // 路由激活失败
+} as const;
+
+// UDS 响应类型 (ZCAN_UDS_RESPONSE.type)
+export const ZCAN_UDS_RESPONSE_TYPE = {
+  NEGATIVE: 0,  // 消极响应
+  POSITIVE: 1,  // 积极响应
+  NONE: 2,      // 无响应
+} as const;
+
+// UDS 控制类型 (ZCAN_UDS_CTRL_REQ.cmd)
+export const ZCAN_UDS_CTRL_CODE = {
+  STOP_REQ: 0,  // 停止 UDS 请求
+} as const;
+
+// UDS 控制结果 (ZCAN_UDS_CTRL_RESP.result)
+export const ZCAN_UDS_CTRL_RESULT = {
+  OK: 0,   // 成功
+  ERR: 1,  // 失败
+} as const;
+
+// UDS 请求事务 ID 范围
+export const ZCAN_UDS_MAX_REQUEST_ID = 0xFFFF;
+
 // 发送类型
 export const ZCAN_TRANSMIT_TYPE = {
   NORMAL: 0,      // 正常发送
@@ -186,6 +380,29 @@ export const ZCAN_TRANSMIT_TYPE = {
 export const INVALID_DEVICE_HANDLE = 0;
 export const INVALID_CHANNEL_HANDLE = 0;
 
+// 控制器状态寄存器位 (ZCAN_CHANNEL_STATUS.regStatus，SJA1000 兼容)
+export const CAN_STATUS_REG = {
+  BUS_STATUS: 0x80,    // 总线关闭
+  ERROR_STATUS: 0x40,  // 错误计数达到报警限制
+  TX_STATUS: 0x20,     // 正在发送
+  RX_STATUS: 0x10,     // 正在接收
+} as const;
+
+// 错误码捕获寄存器 (ZCAN_CHANNEL_STATUS.regECCapture)
+export const CAN_ECC_REG = {
+  TYPE_MASK: 0xC0,     // 错误类型 (00: 位错误, 01: 格式错误, 10: 填充错误, 11: 其它)
+  TYPE_SHIFT: 6,
+  DIR_RX: 0x20,        // 错误方向 (1: 接收, 0: 发送)
+  SEGMENT_MASK: 0x1F,  // 错误发生的帧段
+} as const;
+
+// 仲裁丢失捕获寄存器位位置掩码 (ZCAN_CHANNEL_STATUS.regALCapture)
+export const CAN_ALC_BIT_MASK = 0x1F;
+
+// 错误计数阈值 (ISO 11898-1)
+export const CAN_ERROR_WARNING_LIMIT = 96;
+export const CAN_ERROR_PASSIVE_LIMIT = 128;
+
 // CAN 帧最大数据长度
 export const CAN_MAX_DLEN = 8;
 export const CANFD_MAX_DLEN = 64;
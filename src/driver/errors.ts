@@ -2,7 +2,13 @@
  * ZLG CAN 驱动错误处理
  */
 
-import { ZCAN_ERROR } from './constants';
+import { EventEmitter } from 'events';
+import { ZCAN_ERROR, ZCAN_UDS_ERROR } from './constants';
+
+/**
+ * 错误信息语言
+ */
+export type ErrorLocale = 'zh' | 'en';
 
 /**
  * 错误码到错误信息的映射
@@ -38,14 +44,187 @@ export const ZCAN_ERROR_MESSAGES: Record<number, string> = {
   [ZCAN_ERROR.SEND_TOO_FAST]: '发送过快',
 };
 
+/**
+ * 错误码到英文错误信息的映射
+ */
+export const ZCAN_ERROR_MESSAGES_EN: Record<number, string> = {
+  // CAN 总线错误
+  [ZCAN_ERROR.CAN_OVERFLOW]: 'CAN controller overflow',
+  [ZCAN_ERROR.CAN_ERRALARM]: 'CAN error warning',
+  [ZCAN_ERROR.CAN_PASSIVE]: 'CAN error passive',
+  [ZCAN_ERROR.CAN_LOSE]: 'CAN arbitration lost',
+  [ZCAN_ERROR.CAN_BUSERR]: 'CAN bus error',
+  [ZCAN_ERROR.CAN_BUSOFF]: 'CAN bus off',
+  [ZCAN_ERROR.CAN_BUFFER_OVERFLOW]: 'CAN buffer overflow',
+  // 设备错误
+  [ZCAN_ERROR.DEVICEOPENED]: 'device already opened',
+  [ZCAN_ERROR.DEVICEOPEN]: 'failed to open device',
+  [ZCAN_ERROR.DEVICENOTOPEN]: 'device not open',
+  [ZCAN_ERROR.BUFFEROVERFLOW]: 'buffer overflow',
+  [ZCAN_ERROR.DEVICENOTEXIST]: 'device does not exist',
+  [ZCAN_ERROR.LOADKERNELDLL]: 'failed to load kernel library',
+  [ZCAN_ERROR.CMDFAILED]: 'command failed',
+  [ZCAN_ERROR.BUFFERCREATE]: 'failed to create buffer',
+  // CANETE 错误
+  [ZCAN_ERROR.CANETE_PORTOPENED]: 'CANETE port already opened',
+  [ZCAN_ERROR.CANETE_INDEXUSED]: 'CANETE index already used',
+  // 网络错误
+  [ZCAN_ERROR.REF_TYPE_ID]: 'invalid reference type id',
+  [ZCAN_ERROR.CREATE_SOCKET]: 'failed to create socket',
+  [ZCAN_ERROR.OPEN_CONNECT]: 'failed to open connection',
+  [ZCAN_ERROR.NO_STARTUP]: 'not started',
+  [ZCAN_ERROR.NO_CONNECTED]: 'not connected',
+  [ZCAN_ERROR.SEND_PARTIAL]: 'partially sent',
+  [ZCAN_ERROR.SEND_TOO_FAST]: 'sending too fast',
+};
+
+/**
+ * UDS 请求状态到错误信息的映射
+ */
+export const ZCAN_UDS_ERROR_MESSAGES: Record<number, string> = {
+  [ZCAN_UDS_ERROR.TIMEOUT]: '响应超时',
+  [ZCAN_UDS_ERROR.TRANSPORT]: '发送数据失败',
+  [ZCAN_UDS_ERROR.CANCEL]: '请求已取消',
+  [ZCAN_UDS_ERROR.SUPPRESS_RESPONSE]: '抑制响应',
+  [ZCAN_UDS_ERROR.BUSY]: '忙碌中',
+  [ZCAN_UDS_ERROR.REQ_PARAM]: '请求参数错误',
+  [ZCAN_UDS_ERROR.OTHER]: '其它未知错误',
+  [ZCAN_UDS_ERROR.DOIP_FAILED_TO_CREATE_SOCKET]: 'DoIP 创建 socket 失败',
+  [ZCAN_UDS_ERROR.DOIP_FAILED_TO_CONNECT]: 'DoIP 建立连接失败',
+  [ZCAN_UDS_ERROR.DOIP_TIMEOUT]: 'DoIP 操作超时',
+  [ZCAN_UDS_ERROR.DOIP_ROUTING_NOT_ACTIVE]: 'DoIP 路由未激活',
+  [ZCAN_UDS_ERROR.DOIP_BUFFER_TOO_SMALL]: 'DoIP 缓冲区不足',
+  [ZCAN_UDS_ERROR.DOIP_ROUTING_ALREADY_ACTIVE]: 'DoIP 路由已被激活',
+  [ZCAN_UDS_ERROR.DOIP_HEADER_NACK_INCORRECT_PATTERN_FORMAT]: 'DoIP 头部 NACK: 格式错误',
+  [ZCAN_UDS_ERROR.DOIP_HEADER_NACK_UNKNOWN_PAYLOAD_TYPE]: 'DoIP 头部 NACK: 未知的负载类型',
+  [ZCAN_UDS_ERROR.DOIP_HEADER_NACK_MESSAGE_TOO_LARGE]: 'DoIP 头部 NACK: 消息过长',
+  [ZCAN_UDS_ERROR.DOIP_HEADER_NACK_OUT_OF_MEMORY]: 'DoIP 头部 NACK: 内存不足',
+  [ZCAN_UDS_ERROR.DOIP_HEADER_NACK_INVALID_PAYLOAD_LENGTH]: 'DoIP 头部 NACK: 负载长度无效',
+  [ZCAN_UDS_ERROR.DOIP_HEADER_NACK_UNKNOWN]: 'DoIP 头部 NACK',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_INVALID_SOURCE_ADDRESS]: 'DoIP 诊断 NACK: 源地址无效',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_UNKNOWN_TARGET_ADDRESS]: 'DoIP 诊断 NACK: 未知的目标地址',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_MESSAGE_TOO_LARGE]: 'DoIP 诊断 NACK: 消息过长',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_OUT_OF_MEMORY]: 'DoIP 诊断 NACK: 内存不足',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_TARGET_UNREACHABLE]: 'DoIP 诊断 NACK: 目标不可达',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_UNKNOWN_NETWORK]: 'DoIP 诊断 NACK: 未知的网络',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_TRANSPORT_PROTOCOL_ERROR]: 'DoIP 诊断 NACK: 传输协议错误',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_UNKNOWN]: 'DoIP 诊断 NACK',
+  [ZCAN_UDS_ERROR.DOIP_UNKNOWN_ERROR]: 'DoIP 未知的错误',
+  [ZCAN_UDS_ERROR.DOIP_ROUTING_ACTIVE_FAIL]: 'DoIP 路由激活失败',
+};
+
+/**
+ * UDS 请求状态到英文错误信息的映射
+ */
+export const ZCAN_UDS_ERROR_MESSAGES_EN: Record<number, string> = {
+  [ZCAN_UDS_ERROR.TIMEOUT]: 'response timeout',
+  [ZCAN_UDS_ERROR.TRANSPORT]: 'transport failed',
+  [ZCAN_UDS_ERROR.CANCEL]: 'request cancelled',
+  [ZCAN_UDS_ERROR.SUPPRESS_RESPONSE]: 'response suppressed',
+  [ZCAN_UDS_ERROR.BUSY]: 'busy',
+  [ZCAN_UDS_ERROR.REQ_PARAM]: 'invalid request parameters',
+  [ZCAN_UDS_ERROR.OTHER]: 'unknown error',
+  [ZCAN_UDS_ERROR.DOIP_FAILED_TO_CREATE_SOCKET]: 'DoIP failed to create socket',
+  [ZCAN_UDS_ERROR.DOIP_FAILED_TO_CONNECT]: 'DoIP failed to connect',
+  [ZCAN_UDS_ERROR.DOIP_TIMEOUT]: 'DoIP timeout',
+  [ZCAN_UDS_ERROR.DOIP_ROUTING_NOT_ACTIVE]: 'DoIP routing not active',
+  [ZCAN_UDS_ERROR.DOIP_BUFFER_TOO_SMALL]: 'DoIP buffer too small',
+  [ZCAN_UDS_ERROR.DOIP_ROUTING_ALREADY_ACTIVE]: 'DoIP routing already active',
+  [ZCAN_UDS_ERROR.DOIP_HEADER_NACK_INCORRECT_PATTERN_FORMAT]: 'DoIP header NACK: incorrect pattern format',
+  [ZCAN_UDS_ERROR.DOIP_HEADER_NACK_UNKNOWN_PAYLOAD_TYPE]: 'DoIP header NACK: unknown payload type',
+  [ZCAN_UDS_ERROR.DOIP_HEADER_NACK_MESSAGE_TOO_LARGE]: 'DoIP header NACK: message too large',
+  [ZCAN_UDS_ERROR.DOIP_HEADER_NACK_OUT_OF_MEMORY]: 'DoIP header NACK: out of memory',
+  [ZCAN_UDS_ERROR.DOIP_HEADER_NACK_INVALID_PAYLOAD_LENGTH]: 'DoIP header NACK: invalid payload length',
+  [ZCAN_UDS_ERROR.DOIP_HEADER_NACK_UNKNOWN]: 'DoIP header NACK',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_INVALID_SOURCE_ADDRESS]: 'DoIP diagnostic NACK: invalid source address',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_UNKNOWN_TARGET_ADDRESS]: 'DoIP diagnostic NACK: unknown target address',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_MESSAGE_TOO_LARGE]: 'DoIP diagnostic NACK: message too large',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_OUT_OF_MEMORY]: 'DoIP diagnostic NACK: out of memory',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_TARGET_UNREACHABLE]: 'DoIP diagnostic NACK: target unreachable',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_UNKNOWN_NETWORK]: 'DoIP diagnostic NACK: unknown network',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_TRANSPORT_PROTOCOL_ERROR]: 'DoIP diagnostic NACK: transport protocol error',
+  [ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_UNKNOWN]: 'DoIP diagnostic NACK',
+  [ZCAN_UDS_ERROR.DOIP_UNKNOWN_ERROR]: 'DoIP unknown error',
+  [ZCAN_UDS_ERROR.DOIP_ROUTING_ACTIVE_FAIL]: 'DoIP routing activation failed',
+};
+
+const UDS_MESSAGES: Record<ErrorLocale, Record<number, string>> = {
+  zh: ZCAN_UDS_ERROR_MESSAGES,
+  en: ZCAN_UDS_ERROR_MESSAGES_EN,
+};
+
+const MESSAGES: Record<ErrorLocale, Record<number, string>> = {
+  zh: ZCAN_ERROR_MESSAGES,
+  en: ZCAN_ERROR_MESSAGES_EN,
+};
+
+const FAILED: Record<ErrorLocale, string> = {
+  zh: '失败',
+  en: 'failed',
+};
+
+/**
+ * CAN 总线错误位 (ZCAN_ERROR_CAN_*) 可组合出现，取值均小于 0x100
+ */
+const CAN_ERROR_BITS_MASK = 0xFF;
+
+let currentLocale: ErrorLocale = 'zh';
+
+/**
+ * 设置默认错误信息语言
+ */
+export function setErrorLocale(locale: ErrorLocale): void {
+  currentLocale = locale;
+}
+
+/**
+ * 获取默认错误信息语言
+ */
+export function getErrorLocale(): ErrorLocale {
+  return currentLocale;
+}
+
+/**
+ * 获取错误码的描述，CAN 总线错误位组合时逐位描述
+ * @returns 描述文本，未知错误码返回 undefined
+ */
+export function describeErrorCode(errorCode: number, locale: ErrorLocale = currentLocale): string | undefined {
+  const messages = MESSAGES[locale];
+  if (messages[errorCode]) {
+    return messages[errorCode];
+  }
+
+  if (errorCode > 0 && (errorCode & ~CAN_ERROR_BITS_MASK) === 0) {
+    const parts: string[] = [];
+    for (let bit = 1; bit <= CAN_ERROR_BITS_MASK; bit <<= 1) {
+      if (errorCode & bit && messages[bit]) {
+        parts.push(messages[bit]);
+      }
+    }
+    return parts.length > 0 ? parts.join(', ') : undefined;
+  }
+
+  return undefined;
+}
+
 /**
  * 获取错误信息
  */
-export function getErrorMessage(operation: string, errorCode?: number): string {
-  if (errorCode !== undefined && ZCAN_ERROR_MESSAGES[errorCode]) {
-    return `${operation} 失败: ${ZCAN_ERROR_MESSAGES[errorCode]} (0x${errorCode.toString(16)})`;
+export function getErrorMessage(operation: string, errorCode?: number, locale: ErrorLocale = currentLocale): string {
+  const description = errorCode !== undefined ? describeErrorCode(errorCode, locale) : undefined;
+  if (errorCode !== undefined && description) {
+    return `${operation} ${FAILED[locale]}: ${description} (0x${errorCode.toString(16)})`;
   }
-  return `${operation} 失败`;
+  return `${operation} ${FAILED[locale]}`;
+}
+
+/**
+ * 获取 UDS 请求失败的错误信息
+ */
+export function getUdsErrorMessage(operation: string, status: number, locale: ErrorLocale = currentLocale): string {
+  const description = UDS_MESSAGES[locale][status];
+  const hex = `0x${status.toString(16)}`;
+  return `${operation} ${FAILED[locale]}: ${description ? `${description} (${hex})` : hex}`;
 }
 
 /**
@@ -60,4 +239,134 @@ export class ZlgCanError extends Error {
     super(message || getErrorMessage(operation, errorCode));
     this.name = 'ZlgCanError';
   }
+
+  /**
+   * 按指定语言生成错误信息
+   */
+  localizedMessage(locale: ErrorLocale): string {
+    return getErrorMessage(this.operation, this.errorCode, locale);
+  }
+}
+
+/**
+ * 设备未打开 (ZCAN_ERROR_DEVICENOTOPEN)
+ */
+export class DeviceNotOpenError extends ZlgCanError {
+  constructor(operation: string, errorCode: number = ZCAN_ERROR.DEVICENOTOPEN, message?: string) {
+    super(operation, errorCode, message);
+    this.name = 'DeviceNotOpenError';
+  }
+}
+
+/**
+ * 网络设备连接失败 (ZCAN_ERROR_OPEN_CONNECT / ZCAN_ERROR_NO_CONNECTED)
+ */
+export class ConnectionError extends ZlgCanError {
+  constructor(operation: string, errorCode?: number, message?: string) {
+    super(operation, errorCode, message);
+    this.name = 'ConnectionError';
+  }
+}
+
+/**
+ * CAN 控制器总线关闭 (ZCAN_ERROR_CAN_BUSOFF)
+ */
+export class BusOffError extends ZlgCanError {
+  constructor(operation: string, errorCode: number = ZCAN_ERROR.CAN_BUSOFF, message?: string) {
+    super(operation, errorCode, message);
+    this.name = 'BusOffError';
+  }
+}
+
+/**
+ * 发送受阻，可稍后重试 (ZCAN_ERROR_SEND_TOO_FAST / ZCAN_ERROR_SEND_PARTIAL)
+ */
+export class TransmitBackpressureError extends ZlgCanError {
+  constructor(operation: string, errorCode?: number, message?: string) {
+    super(operation, errorCode, message);
+    this.name = 'TransmitBackpressureError';
+  }
+}
+
+/**
+ * 设备执行的 UDS 请求失败 (超时、取消、传输失败等)
+ *
+ * status 为 ZCAN_UDS_ERROR 状态码，与 ZCAN_ERROR 错误码不同，errorCode 为空
+ */
+export class UdsRequestError extends ZlgCanError {
+  constructor(
+    operation: string,
+    public readonly status: number,
+    message?: string,
+  ) {
+    super(operation, undefined, message || getUdsErrorMessage(operation, status));
+    this.name = 'UdsRequestError';
+  }
+
+  localizedMessage(locale: ErrorLocale): string {
+    return getUdsErrorMessage(this.operation, this.status, locale);
+  }
+}
+
+/**
+ * 按错误码创建对应类型的异常
+ * @param operation 操作名称
+ * @param errorCode 厂商错误码
+ * @param message 自定义错误信息
+ */
+export function createZlgCanError(operation: string, errorCode?: number, message?: string): ZlgCanError {
+  switch (errorCode) {
+    case undefined:
+      return new ZlgCanError(operation, errorCode, message);
+    case ZCAN_ERROR.DEVICENOTOPEN:
+      return new DeviceNotOpenError(operation, errorCode, message);
+    case ZCAN_ERROR.OPEN_CONNECT:
+    case ZCAN_ERROR.NO_CONNECTED:
+      return new ConnectionError(operation, errorCode, message);
+    case ZCAN_ERROR.SEND_TOO_FAST:
+    case ZCAN_ERROR.SEND_PARTIAL:
+      return new TransmitBackpressureError(operation, errorCode, message);
+    default:
+      if ((errorCode & ~CAN_ERROR_BITS_MASK) === 0 && (errorCode & ZCAN_ERROR.CAN_BUSOFF) !== 0) {
+        return new BusOffError(operation, errorCode, message);
+      }
+      return new ZlgCanError(operation, errorCode, message);
+  }
+}
+
+// ============================================================================
+// 异步错误报告
+// ============================================================================
+
+/**
+ * 在定时器、套接字等回调中报告错误
+ *
+ * 仅在有 error 监听器时发出 error 事件；没有监听器时丢弃错误，
+ * 避免 EventEmitter 将其作为未捕获异常抛出而终止进程
+ * @param args 附加的事件参数
+ * @returns 是否有监听器收到了错误
+ */
+export function emitError(emitter: EventEmitter, error: unknown, ...args: unknown[]): boolean {
+  if (emitter.listenerCount('error') === 0) {
+    return false;
+  }
+  return emitter.emit('error', error, ...args);
+}
+
+/**
+ * 启动周期轮询定时器
+ *
+ * poll 抛出的异常通过 emitError() 报告，不会中断轮询；定时器不阻止进程退出
+ * @param interval 轮询间隔 (ms)
+ */
+export function startPollTimer(emitter: EventEmitter, interval: number, poll: () => void): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    try {
+      poll();
+    } catch (error) {
+      emitError(emitter, error);
+    }
+  }, interval);
+  timer.unref();
+  return timer;
 }
@@ -0,0 +1,1545 @@
+/**
+ * 内存中的 ZLG CAN 原生库实现
+ * 按 zlgcan.h 的内存布局编解码缓冲区，用于在无 zlgcan.dll 的环境 (如 Linux CI) 中运行完整协议栈
+ *
+ * 行为约定：
+ * - 同一实例中所有已启动的通道共享一条虚拟总线，发送的帧会投递到其它通道
+ * - 发送帧设置了回显标志或使用自发自收类型时，回环到发送通道本身
+ * - 时间由虚拟时钟驱动，调用 advance() 推进，队列发送和周期发送在推进时触发
+ * - ZCAN_ReceiveData 按投递顺序合并返回设备各通道的 CAN/CANFD 帧和注入的错误数据
+ * - 所有已启动的 LIN 通道共享一条虚拟 LIN 总线：主机发送帧头时由发布了该 ID 的通道应答，
+ *   主机发送诊断帧 0x3C (首字节 0x00) 后总线进入休眠，ZCAN_WakeUpLIN 唤醒总线
+ * - ZCAN_UDS_Request 由 setUdsResponder() 设置的模拟 ECU 应答；工作线程调用 (async) 的延时和超时
+ *   按虚拟时钟计算，可在完成前通过 ZCAN_UDS_Control 取消
+ */
+
+import koffi from 'koffi';
+import { ZlgCanLibFunctions } from './loader';
+import {
+  ZcanDeviceInfo,
+  ZcanDeviceInfoEx,
+  ZcanChannelInitConfig,
+  ZcanChannelErrInfo,
+  ZcanChannelStatus,
+  ZcanTransmitData,
+  ZcanReceiveData,
+  ZcanTransmitFdData,
+  ZcanReceiveFdData,
+  ZcanAutoTransmitObj,
+  ZcanfdAutoTransmitObj,
+  ZcanDataObj,
+  ZcanCanfdData,
+  ZcanErrorData,
+  ZCAN_DATA_OBJ_DATA_OFFSET,
+  ZcanLinMsg,
+  ZcanLinInitConfig,
+  ZcanLinPublishCfg,
+  ZcanLinPublishCfgEx,
+  ZcanLinSubscribeCfg,
+  ZcanLinData,
+  ZcanLinErrData,
+  ZcanLinEventData,
+  ZCAN_LIN_MSG_DATA_OFFSET,
+  ZcanUdsRequest,
+  ZcanUdsResponse,
+  ZcanUdsPositiveResponse,
+  ZcanUdsNegativeResponse,
+  ZcanUdsCtrlReq,
+  ZcanUdsCtrlResp,
+  ZCAN_UDS_RESPONSE_DATA_OFFSET,
+  BusUsage,
+  ICanFrame,
+  ICanfdFrame,
+  IZcanCanfdData,
+  IZcanErrorData,
+  IZcanLinData,
+  IZcanLinErrData,
+  IZcanLinEventData,
+  IZcanLinInitConfig,
+  IZcanLinPublishCfg,
+  IZcanLinSubscribeCfg,
+} from './types';
+import {
+  ZCAN_STATUS,
+  ZCAN_ERROR,
+  ZCAN_DATA_TYPE,
+  ZCAN_TRANSMIT_TYPE,
+  ZCAN_DATA_OBJ_TYPE,
+  ZCAN_DATA_FLAG,
+  ZCAN_TX_DELAY,
+  TX_FLAG,
+  CAN_STATUS_REG,
+  CAN_ERROR_WARNING_LIMIT,
+  INVALID_DEVICE_HANDLE,
+  INVALID_CHANNEL_HANDLE,
+  LIN_MSG_DATA_TYPE,
+  LIN_MODE,
+  LIN_CHECKSUM_MODE,
+  LIN_DIR,
+  LIN_ID_MASK,
+  LIN_MASTER_REQUEST_ID,
+  LIN_SUBSCRIBE_AUTO_LENGTH,
+  LIN_MAX_DLEN,
+  ZCAN_LIN_EVENT,
+  ZCAN_UDS_ERROR,
+  ZCAN_UDS_RESPONSE_TYPE,
+  ZCAN_UDS_CTRL_CODE,
+  ZCAN_UDS_CTRL_RESULT,
+} from './constants';
+import { linChecksum, linProtectedId, isLinDiagnosticId } from './lin';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 内存原生库配置
+ */
+export interface FakeZlgCanLibOptions {
+  /** 设备发送队列容量，默认 1000 */
+  txQueueCapacity?: number;
+  /** 设备序列号，默认 'FAKE0000000000000000' */
+  serialNumber?: string;
+  /** 硬件类型，默认 'ZLG-FAKE' */
+  hardwareType?: string;
+  /** 设备名称，默认 'ZLG-FAKE' */
+  deviceName?: string;
+  /**
+   * 按设备索引排列的设备名称 (自定义序列号)，用于 ZCAN_OpenDeviceByName，
+   * 默认仅索引 0 的设备，名称为 deviceName
+   */
+  deviceNames?: string[];
+  /** 设备 LIN 通道数，默认 0 (ZCAN_InitLIN 对超出的索引返回无效句柄) */
+  linChannelCount?: number;
+}
+
+/**
+ * 模拟的控制器错误状态
+ */
+export interface FakeChannelErrorState {
+  /** 发送错误计数 (TEC) */
+  txErrorCounter?: number;
+  /** 接收错误计数 (REC) */
+  rxErrorCounter?: number;
+  /** 是否处于总线关闭状态，总线关闭时发送失败 */
+  busOff?: boolean;
+  /** ZCAN_ERROR 中 CAN_* 错误位组合，读取错误信息后清除 */
+  errorCode?: number;
+  /** 仲裁丢失位位置 (ALC) */
+  arbitrationLostBit?: number;
+  /** 错误码捕获寄存器原始值 (ECC) */
+  errorCapture?: number;
+}
+
+/**
+ * 模拟 ECU 收到的 UDS 请求
+ */
+export interface FakeUdsRequest {
+  /** 请求事务 ID */
+  requestId: number;
+  /** 设备通道索引 */
+  channel: number;
+  /** 帧类型 (见 ZCAN_UDS_FRAME_TYPE) */
+  frameType: number;
+  /** 请求地址 */
+  srcAddr: number;
+  /** 响应地址 */
+  dstAddr: number;
+  /** 请求服务 ID */
+  sid: number;
+  /** 数据 (不包含 SID) */
+  data: number[];
+  /** 是否抑制积极响应 */
+  suppressResponse: boolean;
+}
+
+/**
+ * 模拟 ECU 的 UDS 响应，data 为积极响应数据 (不包含 SID)，nrc 为消极响应码
+ *
+ * delay 为应答延时 (ms 虚拟时间)，仅对工作线程调用有效
+ */
+export type FakeUdsResponse = ({ data: number[] } | { nrc: number }) & { delay?: number };
+
+/**
+ * 模拟 ECU，返回 null 表示不应答 (请求在响应超时后失败)
+ */
+export type FakeUdsResponder = (request: FakeUdsRequest) => FakeUdsResponse | null | undefined;
+
+/**
+ * 等待虚拟时间到期的 UDS 请求
+ */
+interface FakeUdsPending {
+  device: FakeDevice;
+  requestId: number;
+  dueTime: number;
+  /** 到期时完成请求 */
+  onDue: () => void;
+  /** 取消请求 */
+  cancel: () => void;
+}
+
+/**
+ * 总线上传输的帧
+ */
+interface FakeFrame {
+  isFd: boolean;
+  can_id: number;
+  len: number;
+  flags: number;
+  /** 队列发送延时，取自 __res0/__res1 */
+  delay: number;
+  data: number[];
+}
+
+/**
+ * 接收缓冲区中的帧
+ */
+interface FakeRxFrame {
+  frame: FakeFrame;
+  timestamp: number;
+  /** 投递顺序，用于合并接收时还原时间线 */
+  seq: number;
+}
+
+/**
+ * 接收缓冲区中的错误数据 (仅合并接收可读取)
+ */
+interface FakeRxError {
+  data: IZcanErrorData;
+  seq: number;
+}
+
+/**
+ * 队列发送中等待的帧
+ */
+interface FakeQueuedFrame {
+  frame: FakeFrame;
+  dueTime: number;
+}
+
+/**
+ * 周期发送项
+ */
+interface FakeAutoSend {
+  frame: FakeFrame;
+  enable: boolean;
+  interval: number;
+  nextTime: number;
+}
+
+interface FakeChannel {
+  handle: number;
+  device: FakeDevice;
+  index: number;
+  started: boolean;
+  rxCan: FakeRxFrame[];
+  rxFd: FakeRxFrame[];
+  rxError: FakeRxError[];
+  delayQueue: FakeQueuedFrame[];
+}
+
+/**
+ * LIN 接收缓冲区中的记录
+ */
+type FakeLinRx =
+  | { dataType: typeof LIN_MSG_DATA_TYPE.DATA; data: IZcanLinData }
+  | { dataType: typeof LIN_MSG_DATA_TYPE.ERROR; data: IZcanLinErrData }
+  | { dataType: typeof LIN_MSG_DATA_TYPE.EVENT; data: IZcanLinEventData };
+
+interface FakeLinChannel {
+  handle: number;
+  device: FakeDevice;
+  index: number;
+  started: boolean;
+  config: IZcanLinInitConfig;
+  /** 发布表，键为帧 ID */
+  publish: Map<number, IZcanLinPublishCfg>;
+  /** 订阅表，键为帧 ID */
+  subscribe: Map<number, IZcanLinSubscribeCfg>;
+  rx: FakeLinRx[];
+}
+
+interface FakeDevice {
+  handle: number;
+  type: number;
+  index: number;
+  values: Map<string, string>;
+  channels: Map<number, FakeChannel>;
+  linChannels: Map<number, FakeLinChannel>;
+  /** 周期发送列表，键为 `${通道}/${can|canfd}/${索引}` */
+  autoSend: Map<string, FakeAutoSend>;
+  autoSendRunning: boolean;
+}
+
+// ============================================================================
+// 辅助函数
+// ============================================================================
+
+/**
+ * 将字符串写入定长字节数组
+ */
+function toFixedBytes(value: string, size: number): number[] {
+  const bytes = Buffer.alloc(size);
+  bytes.write(value, 'utf8');
+  return Array.from(bytes);
+}
+
+/**
+ * 发送帧中与总线无关的控制位 (队列、时间单位、回显)
+ */
+const TX_CONTROL_MASK = TX_FLAG.DELAY_SEND_FLAG | TX_FLAG.DELAY_SEND_TIME_UNIT_FLAG | TX_FLAG.ECHO_FLAG;
+
+function fromCanFrame(frame: ICanFrame): FakeFrame {
+  return {
+    isFd: false,
+    can_id: frame.can_id,
+    len: frame.can_dlc,
+    flags: frame.__pad || 0,
+    delay: (frame.__res0 || 0) | ((frame.__res1 || 0) << 8),
+    data: Array.from(frame.data).slice(0, frame.can_dlc),
+  };
+}
+
+function fromCanfdFrame(frame: ICanfdFrame): FakeFrame {
+  return {
+    isFd: true,
+    can_id: frame.can_id,
+    len: frame.len,
+    flags: frame.flags || 0,
+    delay: (frame.__res0 || 0) | ((frame.__res1 || 0) << 8),
+    data: Array.from(frame.data).slice(0, frame.len),
+  };
+}
+
+/**
+ * 将 ZCANCANFDData 转换为总线帧，flag 中的回显和队列延时转换为 canfd_frame.flags 中的等价标志
+ */
+function fromCanfdData(data: IZcanCanfdData): FakeFrame {
+  const frame = fromCanfdFrame(data.frame);
+  const txDelay = (data.flag & ZCAN_DATA_FLAG.TX_DELAY_MASK) >> ZCAN_DATA_FLAG.TX_DELAY_SHIFT;
+
+  let flags = frame.flags & ~TX_CONTROL_MASK;
+  if (data.flag & ZCAN_DATA_FLAG.TX_ECHO_REQUEST) {
+    flags |= TX_FLAG.ECHO_FLAG;
+  }
+  if (txDelay !== ZCAN_TX_DELAY.NO_DELAY) {
+    flags |= TX_FLAG.DELAY_SEND_FLAG | (txDelay === ZCAN_TX_DELAY.UNIT_100US ? TX_FLAG.DELAY_SEND_TIME_UNIT_FLAG : 0);
+  }
+
+  return {
+    ...frame,
+    isFd: (data.flag & ZCAN_DATA_FLAG.FRAME_TYPE_MASK) === 1,
+    flags,
+    delay: txDelay !== ZCAN_TX_DELAY.NO_DELAY ? Number(data.timeStamp) : 0,
+  };
+}
+
+// ============================================================================
+// 内存原生库
+// ============================================================================
+
+/**
+ * 内存中的 ZLG CAN 原生库
+ *
+ * 实现 ZlgCanLibFunctions，可通过 createDriver(lib) 或设备配置的 lib 字段注入
+ */
+export class FakeZlgCanLib implements ZlgCanLibFunctions {
+  private readonly options: Required<FakeZlgCanLibOptions>;
+  private readonly devices = new Map<number, FakeDevice>();
+  private readonly channels = new Map<number, FakeChannel>();
+  private readonly linChannels = new Map<number, FakeLinChannel>();
+  /** LIN 总线是否处于休眠状态 */
+  private linSleeping = false;
+  private udsResponder: FakeUdsResponder | null = null;
+  private udsPending: FakeUdsPending[] = [];
+  private nextHandle = 1;
+  private clock = 0;
+  private lastValue: unknown = null;
+  private rxSeq = 0;
+  private readonly failures = new Map<keyof ZlgCanLibFunctions, number>();
+  private errorState: Required<FakeChannelErrorState> = {
+    txErrorCounter: 0,
+    rxErrorCounter: 0,
+    busOff: false,
+    errorCode: 0,
+    arbitrationLostBit: 0,
+    errorCapture: 0,
+  };
+
+  constructor(options: FakeZlgCanLibOptions = {}) {
+    this.options = {
+      txQueueCapacity: 1000,
+      serialNumber: 'FAKE0000000000000000',
+      hardwareType: 'ZLG-FAKE',
+      deviceName: 'ZLG-FAKE',
+      deviceNames: [options.deviceName || 'ZLG-FAKE'],
+      linChannelCount: 0,
+      ...options,
+    };
+  }
+
+  // ============================================================================
+  // 虚拟总线控制
+  // ============================================================================
+
+  /**
+   * 当前虚拟时间 (us)
+   */
+  now(): number {
+    return this.clock;
+  }
+
+  /**
+   * 推进虚拟时钟，按时间顺序触发到期的队列发送和周期发送
+   * @param ms 推进时长 (ms)
+   */
+  advance(ms: number): void {
+    const target = this.clock + Math.round(ms * 1000);
+
+    for (;;) {
+      const next = this.nextEventTime();
+      if (next === null || next > target) {
+        break;
+      }
+      this.clock = Math.max(this.clock, next);
+      this.fireDueEvents();
+    }
+
+    this.clock = target;
+  }
+
+  /**
+   * 模拟总线上其它节点发送 CAN 帧
+   */
+  injectCan(frame: ICanFrame): void {
+    this.deliver(null, fromCanFrame(frame), ZCAN_TRANSMIT_TYPE.NORMAL);
+  }
+
+  /**
+   * 模拟总线上其它节点发送 CANFD 帧
+   */
+  injectCanFd(frame: ICanfdFrame): void {
+    this.deliver(null, fromCanfdFrame(frame), ZCAN_TRANSMIT_TYPE.NORMAL);
+  }
+
+  /**
+   * 模拟总线错误，所有已启动通道的合并接收缓冲区收到错误数据
+   */
+  injectErrorData(data: Omit<IZcanErrorData, 'timeStamp'>): void {
+    for (const channel of this.channels.values()) {
+      if (channel.started) {
+        channel.rxError.push({ data: { ...data, timeStamp: this.clock }, seq: this.rxSeq++ });
+      }
+    }
+  }
+
+  /**
+   * 设置模拟 ECU，用于 ZCAN_UDS_Request，未设置时所有请求均超时
+   */
+  setUdsResponder(responder: FakeUdsResponder | null): void {
+    this.udsResponder = responder;
+  }
+
+  /**
+   * 设置总线上所有通道的控制器错误状态
+   */
+  setErrorState(state: FakeChannelErrorState): void {
+    this.errorState = { ...this.errorState, ...state };
+  }
+
+  /**
+   * 使下一次调用指定函数失败，并将错误码写入通道错误信息
+   * @param name 原生函数名
+   * @param errorCode ZCAN_ERROR 错误码
+   */
+  injectFailure(name: keyof ZlgCanLibFunctions, errorCode: number = ZCAN_ERROR.CMDFAILED): void {
+    this.failures.set(name, errorCode);
+  }
+
+  // ============================================================================
+  // 设备管理
+  // ============================================================================
+
+  ZCAN_OpenDevice(device_type: number, device_index: number, reserved: number): number {
+    if (this.consumeFailure('ZCAN_OpenDevice')) {
+      return INVALID_DEVICE_HANDLE;
+    }
+    for (const device of this.devices.values()) {
+      if (device.type === device_type && device.index === device_index) {
+        return INVALID_DEVICE_HANDLE;
+      }
+    }
+
+    const handle = this.nextHandle++;
+    this.devices.set(handle, {
+      handle,
+      type: device_type,
+      index: device_index,
+      values: new Map(),
+      channels: new Map(),
+      linChannels: new Map(),
+      autoSend: new Map(),
+      autoSendRunning: false,
+    });
+    return handle;
+  }
+
+  ZCAN_OpenDeviceByName(device_type: number, name: string): number {
+    if (this.consumeFailure('ZCAN_OpenDeviceByName')) {
+      return INVALID_DEVICE_HANDLE;
+    }
+    const index = this.options.deviceNames.indexOf(name);
+    if (index === -1) {
+      return INVALID_DEVICE_HANDLE;
+    }
+    return this.ZCAN_OpenDevice(device_type, index, 0);
+  }
+
+  ZCAN_CloseDevice(device_handle: number): number {
+    if (this.consumeFailure('ZCAN_CloseDevice')) {
+      return ZCAN_STATUS.ERR;
+    }
+    const device = this.devices.get(device_handle);
+    if (!device) {
+      return ZCAN_STATUS.ERR;
+    }
+    for (const channel of device.channels.values()) {
+      this.channels.delete(channel.handle);
+    }
+    for (const channel of device.linChannels.values()) {
+      this.linChannels.delete(channel.handle);
+    }
+    this.devices.delete(device_handle);
+    return ZCAN_STATUS.OK;
+  }
+
+  ZCAN_GetDeviceInf(device_handle: number, pInfo: Buffer): number {
+    if (this.consumeFailure('ZCAN_GetDeviceInf')) {
+      return ZCAN_STATUS.ERR;
+    }
+    const device = this.devices.get(device_handle);
+    if (!device) {
+      return ZCAN_STATUS.ERR;
+    }
+    koffi.encode(pInfo, ZcanDeviceInfo, {
+      hw_Version: 0x0100,
+      fw_Version: 0x0210,
+      dr_Version: 0x0103,
+      in_Version: 0x0205,
+      irq_Num: 0,
+      can_Num: 1,
+      str_Serial_Num: toFixedBytes(this.options.serialNumber, 20),
+      str_hw_Type: toFixedBytes(this.options.hardwareType, 40),
+      reserved: [0, 0, 0, 0],
+    });
+    return ZCAN_STATUS.OK;
+  }
+
+  ZCAN_GetDeviceInfoEx(device_handle: number, pInfo: Buffer): number {
+    if (this.consumeFailure('ZCAN_GetDeviceInfoEx')) {
+      return ZCAN_STATUS.ERR;
+    }
+    const device = this.devices.get(device_handle);
+    if (!device) {
+      return ZCAN_STATUS.ERR;
+    }
+    const version = (major: number, minor: number, patch: number) => ({
+      major_version: major,
+      minor_version: minor,
+      patch_version: patch,
+      reserved: 0,
+    });
+    koffi.encode(pInfo, ZcanDeviceInfoEx, {
+      hardware_version: version(1, 0, 0),
+      firmware_version: version(2, 10, 1),
+      driver_version: version(1, 3, 0),
+      library_version: version(2, 5, 0),
+      device_name: toFixedBytes(this.options.deviceNames[device.index] || this.options.deviceName, 128),
+      hardware_type: toFixedBytes(this.options.hardwareType, 40),
+      serial_number: toFixedBytes(this.options.serialNumber, 20),
+      can_channel_number: 1,
+      lin_channel_number: this.options.linChannelCount,
+      reserved: new Array(46).fill(0),
+      device_info_version: version(1, 0, 0),
+    });
+    return ZCAN_STATUS.OK;
+  }
+
+  ZCAN_IsDeviceOnLine(device_handle: number): number {
+    return this.devices.has(device_handle) ? ZCAN_STATUS.ONLINE : ZCAN_STATUS.OFFLINE;
+  }
+
+  // ============================================================================
+  // 通道管理
+  // ============================================================================
+
+  ZCAN_InitCAN(device_handle: number, can_index: number, pInitConfig: Buffer): number {
+    if (this.consumeFailure('ZCAN_InitCAN')) {
+      return INVALID_CHANNEL_HANDLE;
+    }
+    const device = this.devices.get(device_handle);
+    if (!device || pInitConfig.length < koffi.sizeof(ZcanChannelInitConfig)) {
+      return INVALID_CHANNEL_HANDLE;
+    }
+
+    const existing = device.channels.get(can_index);
+    if (existing) {
+      return existing.handle;
+    }
+
+    const channel: FakeChannel = {
+      handle: this.nextHandle++,
+      device,
+      index: can_index,
+      started: false,
+      rxCan: [],
+      rxFd: [],
+      rxError: [],
+      delayQueue: [],
+    };
+    device.channels.set(can_index, channel);
+    this.channels.set(channel.handle, channel);
+    return channel.handle;
+  }
+
+  ZCAN_StartCAN(channel_handle: number): number {
+    if (this.consumeFailure('ZCAN_StartCAN')) {
+      return ZCAN_STATUS.ERR;
+    }
+    const channel = this.channels.get(channel_handle);
+    if (!channel) {
+      return ZCAN_STATUS.ERR;
+    }
+    channel.started = true;
+    return ZCAN_STATUS.OK;
+  }
+
+  ZCAN_ResetCAN(channel_handle: number): number {
+    if (this.consumeFailure('ZCAN_ResetCAN')) {
+      return ZCAN_STATUS.ERR;
+    }
+    const channel = this.channels.get(channel_handle);
+    if (!channel) {
+      return ZCAN_STATUS.ERR;
+    }
+    channel.started = false;
+    channel.rxCan = [];
+    channel.rxFd = [];
+    channel.rxError = [];
+    channel.delayQueue = [];
+    return ZCAN_STATUS.OK;
+  }
+
+  ZCAN_ClearBuffer(channel_handle: number): number {
+    if (this.consumeFailure('ZCAN_ClearBuffer')) {
+      return ZCAN_STATUS.ERR;
+    }
+    const channel = this.channels.get(channel_handle);
+    if (!channel) {
+      return ZCAN_STATUS.ERR;
+    }
+    channel.rxCan = [];
+    channel.rxFd = [];
+    channel.rxError = [];
+    return ZCAN_STATUS.OK;
+  }
+
+  ZCAN_ReadChannelErrInfo(channel_handle: number, pErrInfo: Buffer): number {
+    if (this.consumeFailure('ZCAN_ReadChannelErrInfo')) {
+      return ZCAN_STATUS.ERR;
+    }
+    if (!this.channels.has(channel_handle) && !this.linChannels.has(channel_handle)) {
+      return ZCAN_STATUS.ERR;
+    }
+    const state = this.errorState;
+    koffi.encode(pErrInfo, ZcanChannelErrInfo, {
+      error_code: state.errorCode | (state.busOff ? ZCAN_ERROR.CAN_BUSOFF : 0),
+      passive_ErrData: [state.errorCapture, Math.min(state.rxErrorCounter, 255), Math.min(state.txErrorCounter, 255)],
+      arLost_ErrData: state.arbitrationLostBit,
+    });
+    // 错误码在读取后清除
+    state.errorCode = 0;
+    return ZCAN_STATUS.OK;
+  }
+
+  ZCAN_ReadChannelStatus(channel_handle: number, pCANStatus: Buffer): number {
+    if (this.consumeFailure('ZCAN_ReadChannelStatus')) {
+      return ZCAN_STATUS.ERR;
+    }
+    if (!this.channels.has(channel_handle)) {
+      return ZCAN_STATUS.ERR;
+    }
+    const state = this.errorState;
+    const warning =
+      state.txErrorCounter >= CAN_ERROR_WARNING_LIMIT || state.rxErrorCounter >= CAN_ERROR_WARNING_LIMIT;
+    koffi.encode(pCANStatus, ZcanChannelStatus, {
+      errInterrupt: state.errorCode !== 0 ? 1 : 0,
+      regMode: 0,
+      regStatus: (state.busOff ? CAN_STATUS_REG.BUS_STATUS : 0) | (warning ? CAN_STATUS_REG.ERROR_STATUS : 0),
+      regALCapture: state.arbitrationLostBit,
+      regECCapture: state.errorCapture,
+      regEWLimit: CAN_ERROR_WARNING_LIMIT,
+      regRECounter: Math.min(state.rxErrorCounter, 255),
+      regTECounter: Math.min(state.txErrorCounter, 255),
+      Reserved: 0,
+    });
+    return ZCAN_STATUS.OK;
+  }
+
+  ZCAN_GetReceiveNum(channel_handle: number, type: number): number {
+    const channel = this.channels.get(channel_handle);
+    if (!channel) {
+      return 0;
+    }
+    switch (type) {
+      case ZCAN_DATA_TYPE.CAN:
+        return channel.rxCan.length;
+      case ZCAN_DATA_TYPE.CANFD:
+        return channel.rxFd.length;
+      default:
+        return channel.rxCan.length + channel.rxFd.length;
+    }
+  }
+
+  // ============================================================================
+  // 数据收发
+  // ============================================================================
+
+  ZCAN_Transmit(channel_handle: number, pTransmit: Buffer, len: number): number {
+    if (this.consumeFailure('ZCAN_Transmit')) {
+      return 0;
+    }
+    const itemSize = koffi.sizeof(ZcanTransmitData);
+    return this.transmitFrames(channel_handle, len, (i) => {
+      const item = koffi.decode(pTransmit, i * itemSize, ZcanTransmitData);
+      return { frame: fromCanFrame(item.frame), transmitType: item.transmit_type };
+    });
+  }
+
+  ZCAN_Receive(channel_handle: number, pReceive: Buffer, len: number, wait_time: number): number {
+    const channel = this.channels.get(channel_handle);
+    if (!channel) {
+      return 0;
+    }
+
+    const itemSize = koffi.sizeof(ZcanReceiveData);
+    const items = channel.rxCan.splice(0, Math.min(len, Math.floor(pReceive.length / itemSize)));
+    items.forEach((item, i) => {
+      koffi.encode(pReceive, i * itemSize, ZcanReceiveData, {
+        frame: {
+          can_id: item.frame.can_id,
+          can_dlc: item.frame.len,
+          __pad: item.frame.flags,
+          __res0: 0,
+          __res1: 0,
+          data: item.frame.data.concat(new Array(8).fill(0)).slice(0, 8),
+        },
+        timestamp: item.timestamp,
+      });
+    });
+    return items.length;
+  }
+
+  ZCAN_TransmitFD(channel_handle: number, pTransmit: Buffer, len: number): number {
+    if (this.consumeFailure('ZCAN_TransmitFD')) {
+      return 0;
+    }
+    const itemSize = koffi.sizeof(ZcanTransmitFdData);
+    return this.transmitFrames(channel_handle, len, (i) => {
+      const item = koffi.decode(pTransmit, i * itemSize, ZcanTransmitFdData);
+      return { frame: fromCanfdFrame(item.frame), transmitType: item.transmit_type };
+    });
+  }
+
+  ZCAN_ReceiveFD(channel_handle: number, pReceive: Buffer, len: number, wait_time: number): number {
+    const channel = this.channels.get(channel_handle);
+    if (!channel) {
+      return 0;
+    }
+
+    const itemSize = koffi.sizeof(ZcanReceiveFdData);
+    const items = channel.rxFd.splice(0, Math.min(len, Math.floor(pReceive.length / itemSize)));
+    items.forEach((item, i) => {
+      koffi.encode(pReceive, i * itemSize, ZcanReceiveFdData, {
+        frame: {
+          can_id: item.frame.can_id,
+          len: item.frame.len,
+          flags: item.frame.flags,
+          __res0: 0,
+          __res1: 0,
+          data: item.frame.data.concat(new Array(64).fill(0)).slice(0, 64),
+        },
+        timestamp: item.timestamp,
+      });
+    });
+    return items.length;
+  }
+
+  ZCAN_TransmitData(device_handle: number, pTransmit: Buffer, len: number): number {
+    if (this.consumeFailure('ZCAN_TransmitData')) {
+      return 0;
+    }
+    const device = this.devices.get(device_handle);
+    if (!device) {
+      return 0;
+    }
+
+    const itemSize = koffi.sizeof(ZcanDataObj);
+    let sent = 0;
+    for (let i = 0; i < len; i++) {
+      const offset = i * itemSize;
+      const channel = device.channels.get(pTransmit.readUInt8(offset + 1));
+      if (pTransmit.readUInt8(offset) !== ZCAN_DATA_OBJ_TYPE.CAN_CANFD || !channel) {
+        break;
+      }
+      const item = koffi.decode(pTransmit, offset + ZCAN_DATA_OBJ_DATA_OFFSET, ZcanCanfdData) as IZcanCanfdData;
+      const transmitType = (item.flag & ZCAN_DATA_FLAG.TRANSMIT_TYPE_MASK) >> ZCAN_DATA_FLAG.TRANSMIT_TYPE_SHIFT;
+      if (this.transmitFrames(channel.handle, 1, () => ({ frame: fromCanfdData(item), transmitType })) !== 1) {
+        break;
+      }
+      sent++;
+    }
+    return sent;
+  }
+
+  ZCAN_ReceiveData(device_handle: number, pReceive: Buffer, len: number, wait_time: number): number {
+    const device = this.devices.get(device_handle);
+    if (!device) {
+      return 0;
+    }
+
+    const itemSize = koffi.sizeof(ZcanDataObj);
+    const max = Math.min(len, Math.floor(pReceive.length / itemSize));
+    let count = 0;
+
+    // 按投递顺序合并各通道的 CAN、CANFD 和错误数据
+    while (count < max) {
+      let next: { channel: FakeChannel; queue: (FakeRxFrame | FakeRxError)[] } | null = null;
+      for (const channel of device.channels.values()) {
+        for (const queue of [channel.rxCan, channel.rxFd, channel.rxError]) {
+          if (queue.length > 0 && (!next || queue[0].seq < next.queue[0].seq)) {
+            next = { channel, queue };
+          }
+        }
+      }
+      if (!next) {
+        break;
+      }
+
+      const item = next.queue.shift()!;
+      const offset = count * itemSize;
+      const isFrame = 'frame' in item;
+      koffi.encode(pReceive, offset, ZcanDataObj, {
+        dataType: isFrame ? ZCAN_DATA_OBJ_TYPE.CAN_CANFD : ZCAN_DATA_OBJ_TYPE.ERROR,
+        chnl: next.channel.index,
+        flag: 0,
+      });
+      if (isFrame) {
+        const echoed = (item.frame.flags & TX_FLAG.ECHO_FLAG) !== 0;
+        koffi.encode(pReceive, offset + ZCAN_DATA_OBJ_DATA_OFFSET, ZcanCanfdData, {
+          timeStamp: item.timestamp,
+          flag: (item.frame.isFd ? 1 : 0) | (echoed ? ZCAN_DATA_FLAG.TX_ECHOED : 0),
+          frame: {
+            can_id: item.frame.can_id,
+            len: item.frame.len,
+            flags: item.frame.flags & ~TX_FLAG.ECHO_FLAG,
+            data: item.frame.data,
+          },
+        });
+      } else {
+        koffi.encode(pReceive, offset + ZCAN_DATA_OBJ_DATA_OFFSET, ZcanErrorData, item.data);
+      }
+      count++;
+    }
+
+    return count;
+  }
+
+  // ============================================================================
+  // LIN
+  // ============================================================================
+
+  ZCAN_InitLIN(device_handle: number, lin_index: number, pLINInitConfig: Buffer): number {
+    if (this.consumeFailure('ZCAN_InitLIN')) {
+      return INVALID_CHANNEL_HANDLE;
+    }
+    const device = this.devices.get(device_handle);
+    if (!device || lin_index >= this.options.linChannelCount || pLINInitConfig.length < koffi.sizeof(ZcanLinInitConfig)) {
+      return INVALID_CHANNEL_HANDLE;
+    }
+
+    const config = koffi.decode(pLINInitConfig, ZcanLinInitConfig) as IZcanLinInitConfig;
+    const existing = device.linChannels.get(lin_index);
+    if (existing) {
+      existing.config = config;
+      return existing.handle;
+    }
+
+    const channel: FakeLinChannel = {
+      handle: this.nextHandle++,
+      device,
+      index: lin_index,
+      started: false,
+      config,
+      publish: new Map(),
+      subscribe: new Map(),
+      rx: [],
+    };
+    device.linChannels.set(lin_index, channel);
+    this.linChannels.set(channel.handle, channel);
+    return channel.handle;
+  }
+
+  ZCAN_StartLIN(channel_handle: number): number {
+    if (this.consumeFailure('ZCAN_StartLIN')) {
+      return ZCAN_STATUS.ERR;
+    }
+    const channel = this.linChannels.get(channel_handle);
+    if (!channel) {
+      return ZCAN_STATUS.ERR;
+    }
+    channel.started = true;
+    return ZCAN_STATUS.OK;
+  }
+
+  ZCAN_ResetLIN(channel_handle: number): number {
+    if (this.consumeFailure('ZCAN_ResetLIN')) {
+      return ZCAN_STATUS.ERR;
+    }
+    const channel = this.linChannels.get(channel_handle);
+    if (!channel) {
+      return ZCAN_STATUS.ERR;
+    }
+    channel.started = false;
+    channel.rx = [];
+    return ZCAN_STATUS.OK;
+  }
+
+  ZCAN_TransmitLIN(channel_handle: number, pSend: Buffer, len: number): number {
+    if (this.consumeFailure('ZCAN_TransmitLIN')) {
+      return 0;
+    }
+    const channel = this.linChannels.get(channel_handle);
+    if (!channel || !channel.started || channel.config.linMode !== LIN_MODE.MASTER) {
+      return 0;
+    }
+
+    const itemSize = koffi.sizeof(ZcanLinMsg);
+    let sent = 0;
+    for (let i = 0; i < len; i++) {
+      const offset = i * itemSize;
+      // 休眠时总线上不传输帧头，需先唤醒
+      if (pSend.readUInt8(offset + 1) !== LIN_MSG_DATA_TYPE.DATA || this.linSleeping) {
+        break;
+      }
+      const item = koffi.decode(pSend, offset + ZCAN_LIN_MSG_DATA_OFFSET, ZcanLinData) as IZcanLinData;
+      this.runLinFrame(channel, item.PID & LIN_ID_MASK, item.RxData);
+      sent++;
+    }
+    return sent;
+  }
+
+  ZCAN_GetLINReceiveNum(channel_handle: number): number {
+    const channel = this.linChannels.get(channel_handle);
+    return channel ? channel.rx.length : 0;
+  }
+
+  ZCAN_ReceiveLIN(channel_handle: number, pReceive: Buffer, len: number, wait_time: number): number {
+    const channel = this.linChannels.get(channel_handle);
+    if (!channel) {
+      return 0;
+    }
+
+    const itemSize = koffi.sizeof(ZcanLinMsg);
+    const items = channel.rx.splice(0, Math.min(len, Math.floor(pReceive.length / itemSize)));
+    items.forEach((item, i) => {
+      const offset = i * itemSize;
+      koffi.encode(pReceive, offset, ZcanLinMsg, { chnl: channel.index, dataType: item.dataType });
+      const member =
+        item.dataType === LIN_MSG_DATA_TYPE.DATA
+          ? ZcanLinData
+          : item.dataType === LIN_MSG_DATA_TYPE.ERROR
+            ? ZcanLinErrData
+            : ZcanLinEventData;
+      koffi.encode(pReceive, offset + ZCAN_LIN_MSG_DATA_OFFSET, member, item.data);
+    });
+    return items.length;
+  }
+
+  ZCAN_SetLINSubscribe(channel_handle: number, pSend: Buffer, nSubscribeCount: number): number {
+    if (this.consumeFailure('ZCAN_SetLINSubscribe')) {
+      return ZCAN_STATUS.ERR;
+    }
+    const channel = this.linChannels.get(channel_handle);
+    if (!channel) {
+      return ZCAN_STATUS.ERR;
+    }
+    const itemSize = koffi.sizeof(ZcanLinSubscribeCfg);
+    for (let i = 0; i < nSubscribeCount; i++) {
+      const cfg = koffi.decode(pSend, i * itemSize, ZcanLinSubscribeCfg) as IZcanLinSubscribeCfg;
+      channel.subscribe.set(cfg.ID & LIN_ID_MASK, cfg);
+    }
+    return ZCAN_STATUS.OK;
+  }
+
+  ZCAN_SetLINPublish(channel_handle: number, pSend: Buffer, nPublishCount: number): number {
+    if (this.consumeFailure('ZCAN_SetLINPublish')) {
+      return ZCAN_STATUS.ERR;
+    }
+    return this.setLinPublish(channel_handle, pSend, nPublishCount, ZcanLinPublishCfg);
+  }
+
+  ZCAN_SetLINPublishEx(channel_handle: number, pSend: Buffer, nPublishCount: number): number {
+    if (this.consumeFailure('ZCAN_SetLINPublishEx')) {
+      return ZCAN_STATUS.ERR;
+    }
+    return this.setLinPublish(channel_handle, pSend, nPublishCount, ZcanLinPublishCfgEx);
+  }
+
+  ZCAN_WakeUpLIN(channel_handle: number): number {
+    if (this.consumeFailure('ZCAN_WakeUpLIN')) {
+      return ZCAN_STATUS.ERR;
+    }
+    const source = this.linChannels.get(channel_handle);
+    if (!source || !source.started) {
+      return ZCAN_STATUS.ERR;
+    }
+
+    // 其它节点检测到唤醒信号，休眠中的节点随后退出休眠
+    const wasSleeping = this.linSleeping;
+    this.linSleeping = false;
+    for (const channel of this.linChannels.values()) {
+      if (!channel.started) {
+        continue;
+      }
+      if (channel !== source) {
+        this.pushLinEvent(channel, ZCAN_LIN_EVENT.WAKE_UP);
+      }
+      if (wasSleeping) {
+        this.pushLinEvent(channel, ZCAN_LIN_EVENT.EXITED_SLEEP_MODE);
+      }
+    }
+    return ZCAN_STATUS.OK;
+  }
+
+  // ============================================================================
+  // UDS 诊断
+  // ============================================================================
+
+  readonly ZCAN_UDS_Request = Object.assign(
+    (device_handle: number, req: Buffer, resp: Buffer, dataBuf: Buffer, dataBufSize: number): number => {
+      let result: number = ZCAN_STATUS.ERR;
+      this.runUdsRequest(device_handle, req, resp, dataBuf, dataBufSize, false, (status) => {
+        result = status;
+      });
+      return result;
+    },
+    {
+      async: (
+        device_handle: number,
+        req: Buffer,
+        resp: Buffer,
+        dataBuf: Buffer,
+        dataBufSize: number,
+        callback: (error: unknown, result: number) => void,
+      ): void => {
+        this.runUdsRequest(device_handle, req, resp, dataBuf, dataBufSize, true, (status) => {
+          setImmediate(() => callback(null, status));
+        });
+      },
+    },
+  );
+
+  ZCAN_UDS_Control(device_handle: number, ctrl: Buffer, resp: Buffer): number {
+    if (this.consumeFailure('ZCAN_UDS_Control')) {
+      return ZCAN_STATUS.ERR;
+    }
+    const device = this.devices.get(device_handle);
+    if (!device) {
+      return ZCAN_STATUS.ERR;
+    }
+
+    const { reqID, cmd } = koffi.decode(ctrl, ZcanUdsCtrlReq);
+    const pending = this.udsPending.find((p) => p.device === device && p.requestId === reqID);
+    let result: number = ZCAN_UDS_CTRL_RESULT.ERR;
+    if (pending && cmd === ZCAN_UDS_CTRL_CODE.STOP_REQ) {
+      this.udsPending = this.udsPending.filter((p) => p !== pending);
+      pending.cancel();
+      result = ZCAN_UDS_CTRL_RESULT.OK;
+    }
+
+    koffi.encode(resp, ZcanUdsCtrlResp, { result });
+    return ZCAN_STATUS.OK;
+  }
+
+  // ============================================================================
+  // 配置
+  // ============================================================================
+
+  ZCAN_SetValue(device_handle: number, path: string, value: Buffer): number {
+    if (this.consumeFailure('ZCAN_SetValue')) {
+      return ZCAN_STATUS.ERR;
+    }
+    const device = this.devices.get(device_handle);
+    if (!device) {
+      return ZCAN_STATUS.ERR;
+    }
+
+    const [channelPart, key] = path.split('/');
+    const channelIndex = parseInt(channelPart, 10);
+
+    switch (key) {
+      case 'auto_send':
+      case 'auto_send_canfd':
+        return this.setAutoSend(device, channelIndex, value);
+      case 'apply_auto_send':
+        device.autoSendRunning = true;
+        for (const entry of device.autoSend.values()) {
+          entry.nextTime = this.clock;
+        }
+        this.fireDueEvents();
+        return ZCAN_STATUS.OK;
+      case 'clear_auto_send':
+        device.autoSend.clear();
+        device.autoSendRunning = false;
+        return ZCAN_STATUS.OK;
+      case 'clear_delay_send_queue': {
+        const channel = device.channels.get(channelIndex);
+        if (channel) {
+          channel.delayQueue = [];
+        }
+        return ZCAN_STATUS.OK;
+      }
+      default: {
+        const end = value.indexOf(0);
+        device.values.set(path, value.toString('utf8', 0, end === -1 ? value.length : end));
+        return ZCAN_STATUS.OK;
+      }
+    }
+  }
+
+  ZCAN_GetValue(device_handle: number, path: string): unknown {
+    if (this.consumeFailure('ZCAN_GetValue')) {
+      return null;
+    }
+    const device = this.devices.get(device_handle);
+    if (!device) {
+      return null;
+    }
+
+    const [channelPart, key] = path.split('/');
+    const channel = device.channels.get(parseInt(channelPart, 10));
+
+    switch (key) {
+      case 'get_device_available_tx_count':
+        return this.returnString(String(this.options.txQueueCapacity - (channel ? channel.delayQueue.length : 0)));
+      case 'get_auto_send_can_count':
+      case 'get_auto_send_canfd_count': {
+        const kind = key === 'get_auto_send_canfd_count' ? 'canfd' : 'can';
+        const count = Array.from(device.autoSend.keys()).filter((k) => k.startsWith(`${channelPart}/${kind}/`)).length;
+        return this.returnString(String(count));
+      }
+      case 'get_bus_usage':
+        return this.returnBusUsage(channel);
+      default: {
+        const stored = device.values.get(path);
+        return stored === undefined ? null : this.returnString(stored);
+      }
+    }
+  }
+
+  // ============================================================================
+  // 内部实现
+  // ============================================================================
+
+  /**
+   * 检查是否注入了失败，注入的错误码可通过 ZCAN_ReadChannelErrInfo 读取
+   */
+  private consumeFailure(name: keyof ZlgCanLibFunctions): boolean {
+    const errorCode = this.failures.get(name);
+    if (errorCode === undefined) {
+      return false;
+    }
+    this.failures.delete(name);
+    this.errorState.errorCode = errorCode;
+    return true;
+  }
+
+  /**
+   * 解码并发送帧，返回成功发送的数量
+   */
+  private transmitFrames(
+    channel_handle: number,
+    len: number,
+    decodeAt: (i: number) => { frame: FakeFrame; transmitType: number },
+  ): number {
+    const channel = this.channels.get(channel_handle);
+    if (!channel || !channel.started || this.errorState.busOff) {
+      return 0;
+    }
+
+    let sent = 0;
+    for (let i = 0; i < len; i++) {
+      const { frame, transmitType } = decodeAt(i);
+
+      if (frame.flags & TX_FLAG.DELAY_SEND_FLAG) {
+        if (channel.delayQueue.length >= this.options.txQueueCapacity) {
+          break;
+        }
+        // 延时表示与队列中前一帧的间隔
+        const unit = frame.flags & TX_FLAG.DELAY_SEND_TIME_UNIT_FLAG ? 100 : 1000;
+        const last = channel.delayQueue[channel.delayQueue.length - 1];
+        const base = last ? last.dueTime : this.clock;
+        channel.delayQueue.push({ frame, dueTime: base + frame.delay * unit });
+      } else {
+        this.deliver(channel, frame, transmitType);
+      }
+      sent++;
+    }
+
+    return sent;
+  }
+
+  /**
+   * 将帧投递到总线上的各通道
+   * @param source 发送通道，null 表示来自总线上的其它节点
+   */
+  private deliver(source: FakeChannel | null, frame: FakeFrame, transmitType: number): void {
+    const selfReceive =
+      transmitType === ZCAN_TRANSMIT_TYPE.SELF_SR || transmitType === ZCAN_TRANSMIT_TYPE.SINGLE_SR;
+    const echo = (frame.flags & TX_FLAG.ECHO_FLAG) !== 0;
+    const busFrame: FakeFrame = { ...frame, flags: frame.flags & ~TX_CONTROL_MASK, delay: 0 };
+
+    for (const channel of this.channels.values()) {
+      if (!channel.started) {
+        continue;
+      }
+
+      let received: FakeFrame;
+      if (channel === source) {
+        if (!echo && !selfReceive) {
+          continue;
+        }
+        // 回显帧保留回显标志，便于区分总线接收的报文
+        received = { ...busFrame, flags: busFrame.flags | (echo ? TX_FLAG.ECHO_FLAG : 0) };
+      } else {
+        received = busFrame;
+      }
+
+      const queue = received.isFd ? channel.rxFd : channel.rxCan;
+      queue.push({ frame: received, timestamp: this.clock, seq: this.rxSeq++ });
+    }
+  }
+
+  /**
+   * 执行 UDS 请求，完成时以 ZCAN_RET_STATUS 调用 done
+   * @param wait 是否按虚拟时钟等待应答延时和响应超时 (工作线程调用)
+   */
+  private runUdsRequest(
+    device_handle: number,
+    req: Buffer,
+    resp: Buffer,
+    dataBuf: Buffer,
+    dataBufSize: number,
+    wait: boolean,
+    done: (status: number) => void,
+  ): void {
+    const device = this.devices.get(device_handle);
+    if (this.consumeFailure('ZCAN_UDS_Request') || !device) {
+      done(ZCAN_STATUS.ERR);
+      return;
+    }
+
+    const decoded = koffi.decode(req, ZcanUdsRequest);
+    const request: FakeUdsRequest = {
+      requestId: decoded.req_id,
+      channel: decoded.channel,
+      frameType: decoded.frame_type,
+      srcAddr: decoded.src_addr,
+      dstAddr: decoded.dst_addr,
+      sid: decoded.sid,
+      data: decoded.data_len > 0 ? Array.from(koffi.decode(decoded.data, koffi.types.uint8, decoded.data_len) as number[]) : [],
+      suppressResponse: decoded.suppress_response !== 0,
+    };
+
+    const finish = (status: number, response: FakeUdsResponse | null) => {
+      let type: number = ZCAN_UDS_RESPONSE_TYPE.NONE;
+      koffi.encode(resp, ZcanUdsResponse, {});
+      if (response && 'nrc' in response) {
+        type = ZCAN_UDS_RESPONSE_TYPE.NEGATIVE;
+        koffi.encode(resp, ZCAN_UDS_RESPONSE_DATA_OFFSET, ZcanUdsNegativeResponse, {
+          neg_code: 0x7F,
+          sid: request.sid,
+          error_code: response.nrc,
+        });
+      } else if (response && request.suppressResponse) {
+        status = ZCAN_UDS_ERROR.SUPPRESS_RESPONSE;
+      } else if (response) {
+        if (response.data.length > dataBufSize) {
+          done(ZCAN_STATUS.BUFFER_TOO_SMALL);
+          return;
+        }
+        type = ZCAN_UDS_RESPONSE_TYPE.POSITIVE;
+        Buffer.from(response.data).copy(dataBuf);
+        koffi.encode(resp, ZCAN_UDS_RESPONSE_DATA_OFFSET, ZcanUdsPositiveResponse, {
+          sid: (request.sid + 0x40) & 0xFF,
+          data_len: response.data.length,
+        });
+      }
+      resp.writeUInt8(status, 0);
+      resp.writeUInt8(type, 7);
+      done(ZCAN_STATUS.OK);
+    };
+
+    const channel = device.channels.get(request.channel);
+    if (!channel || !channel.started || this.errorState.busOff) {
+      finish(ZCAN_UDS_ERROR.TRANSPORT, null);
+      return;
+    }
+    if (this.udsPending.some((p) => p.device === device && p.requestId === request.requestId)) {
+      finish(ZCAN_UDS_ERROR.BUSY, null);
+      return;
+    }
+
+    const response = (this.udsResponder && this.udsResponder(request)) || null;
+    const delay = response ? response.delay || 0 : decoded.session_param.timeout;
+    if (!wait || delay <= 0) {
+      finish(response ? ZCAN_UDS_ERROR.OK : ZCAN_UDS_ERROR.TIMEOUT, response);
+      return;
+    }
+
+    this.udsPending.push({
+      device,
+      requestId: request.requestId,
+      dueTime: this.clock + Math.round(delay * 1000),
+      onDue: () => finish(response ? ZCAN_UDS_ERROR.OK : ZCAN_UDS_ERROR.TIMEOUT, response),
+      cancel: () => finish(ZCAN_UDS_ERROR.CANCEL, null),
+    });
+  }
+
+  /**
+   * 解码并保存发布表
+   */
+  private setLinPublish(channel_handle: number, pSend: Buffer, count: number, type: koffi.IKoffiCType): number {
+    const channel = this.linChannels.get(channel_handle);
+    if (!channel) {
+      return ZCAN_STATUS.ERR;
+    }
+    const itemSize = koffi.sizeof(type);
+    for (let i = 0; i < count; i++) {
+      const cfg = koffi.decode(pSend, i * itemSize, type) as IZcanLinPublishCfg;
+      if (cfg.dataLen < 1 || cfg.dataLen > channel.config.maxLength) {
+        return ZCAN_STATUS.ERR;
+      }
+      channel.publish.set(cfg.ID & LIN_ID_MASK, { ...cfg, data: Array.from(cfg.data).slice(0, cfg.dataLen) });
+    }
+    return ZCAN_STATUS.OK;
+  }
+
+  /**
+   * 按校验方式配置确定实际使用的校验方式
+   */
+  private resolveLinChecksum(channel: FakeLinChannel, mode: number): number {
+    const resolved = mode === LIN_CHECKSUM_MODE.DEFAULT ? channel.config.chkSumMode : mode;
+    return resolved === LIN_CHECKSUM_MODE.CLASSIC ? LIN_CHECKSUM_MODE.CLASSIC : LIN_CHECKSUM_MODE.ENHANCED;
+  }
+
+  /**
+   * 执行一帧 LIN 传输：主机发送帧头，数据由主机 (dataLen > 0) 或发布了该 ID 的节点应答
+   */
+  private runLinFrame(master: FakeLinChannel, id: number, request: IZcanLinData['RxData']): void {
+    const pid = linProtectedId(id);
+    let responder: FakeLinChannel | undefined;
+    let data: number[];
+    let checksumMode: number;
+
+    if (request.dataLen > 0) {
+      responder = master;
+      data = Array.from(request.data).slice(0, Math.min(request.dataLen, LIN_MAX_DLEN));
+      checksumMode = this.resolveLinChecksum(master, LIN_CHECKSUM_MODE.DEFAULT);
+    } else {
+      responder = Array.from(this.linChannels.values()).find((c) => c.started && c.publish.has(id));
+      if (!responder) {
+        // 无应答，主机报告错误
+        master.rx.push({
+          dataType: LIN_MSG_DATA_TYPE.ERROR,
+          data: { timeStamp: this.clock, PID: pid, dataLen: 0, data: [], errData: 0, dir: LIN_DIR.RX, chkSum: 0 },
+        });
+        return;
+      }
+      const cfg = responder.publish.get(id)!;
+      data = Array.from(cfg.data).slice(0, LIN_MAX_DLEN);
+      checksumMode = this.resolveLinChecksum(responder, cfg.chkSumMode);
+    }
+
+    if (isLinDiagnosticId(id)) {
+      checksumMode = LIN_CHECKSUM_MODE.CLASSIC;
+    }
+    const chkSum = linChecksum(id, data, checksumMode);
+
+    for (const channel of this.linChannels.values()) {
+      if (!channel.started) {
+        continue;
+      }
+      const dir = channel === responder ? LIN_DIR.TX : LIN_DIR.RX;
+
+      // 订阅方按订阅配置校验长度和校验方式
+      const sub = channel.subscribe.get(id);
+      if (dir === LIN_DIR.RX && sub && !isLinDiagnosticId(id)) {
+        const lengthOk = sub.dataLen === LIN_SUBSCRIBE_AUTO_LENGTH || sub.dataLen === data.length;
+        const checksumOk =
+          sub.chkSumMode === LIN_CHECKSUM_MODE.AUTOMATIC ||
+          this.resolveLinChecksum(channel, sub.chkSumMode) === checksumMode;
+        if (!lengthOk || !checksumOk) {
+          channel.rx.push({
+            dataType: LIN_MSG_DATA_TYPE.ERROR,
+            data: { timeStamp: this.clock, PID: pid, dataLen: data.length, data, errData: 0, dir, chkSum },
+          });
+          continue;
+        }
+      }
+
+      channel.rx.push({
+        dataType: LIN_MSG_DATA_TYPE.DATA,
+        data: { PID: pid, RxData: { timeStamp: this.clock, dataLen: data.length, dir, chkSum, data } },
+      });
+    }
+
+    // 主机请求帧首字节为 0x00 时为休眠命令
+    if (id === LIN_MASTER_REQUEST_ID && data[0] === 0x00) {
+      this.linSleeping = true;
+      for (const channel of this.linChannels.values()) {
+        if (channel.started) {
+          this.pushLinEvent(channel, ZCAN_LIN_EVENT.ENTERED_SLEEP_MODE);
+        }
+      }
+    }
+  }
+
+  private pushLinEvent(channel: FakeLinChannel, type: number): void {
+    channel.rx.push({ dataType: LIN_MSG_DATA_TYPE.EVENT, data: { timeStamp: this.clock, type } });
+  }
+
+  /**
+   * 解码周期发送对象 (按缓冲区大小区分 CAN 与 CANFD)
+   */
+  private setAutoSend(device: FakeDevice, channelIndex: number, value: Buffer): number {
+    let entry: { enable: number; index: number; interval: number; frame: FakeFrame };
+
+    if (value.length === koffi.sizeof(ZcanfdAutoTransmitObj)) {
+      const obj = koffi.decode(value, ZcanfdAutoTransmitObj);
+      entry = { enable: obj.enable, index: obj.index, interval: obj.interval, frame: fromCanfdFrame(obj.obj.frame) };
+    } else if (value.length === koffi.sizeof(ZcanAutoTransmitObj)) {
+      const obj = koffi.decode(value, ZcanAutoTransmitObj);
+      entry = { enable: obj.enable, index: obj.index, interval: obj.interval, frame: fromCanFrame(obj.obj.frame) };
+    } else {
+      return ZCAN_STATUS.ERR;
+    }
+
+    const key = `${channelIndex}/${entry.frame.isFd ? 'canfd' : 'can'}/${entry.index}`;
+    device.autoSend.set(key, {
+      frame: entry.frame,
+      enable: entry.enable !== 0,
+      interval: entry.interval,
+      nextTime: this.clock,
+    });
+    return ZCAN_STATUS.OK;
+  }
+
+  /**
+   * 最近一个待触发事件的时间，无事件时返回 null
+   */
+  private nextEventTime(): number | null {
+    let next: number | null = null;
+
+    for (const channel of this.channels.values()) {
+      if (channel.delayQueue.length > 0) {
+        const due = channel.delayQueue[0].dueTime;
+        next = next === null ? due : Math.min(next, due);
+      }
+    }
+
+    for (const pending of this.udsPending) {
+      next = next === null ? pending.dueTime : Math.min(next, pending.dueTime);
+    }
+
+    for (const device of this.devices.values()) {
+      if (!device.autoSendRunning) {
+        continue;
+      }
+      for (const entry of device.autoSend.values()) {
+        if (entry.enable && entry.interval > 0) {
+          next = next === null ? entry.nextTime : Math.min(next, entry.nextTime);
+        }
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * 触发当前时间点所有到期的事件
+   */
+  private fireDueEvents(): void {
+    for (const channel of this.channels.values()) {
+      while (channel.delayQueue.length > 0 && channel.delayQueue[0].dueTime <= this.clock) {
+        const queued = channel.delayQueue.shift()!;
+        this.deliver(channel, queued.frame, ZCAN_TRANSMIT_TYPE.NORMAL);
+      }
+    }
+
+    for (const device of this.devices.values()) {
+      if (!device.autoSendRunning) {
+        continue;
+      }
+      for (const [key, entry] of device.autoSend) {
+        if (!entry.enable || entry.interval <= 0 || entry.nextTime > this.clock) {
+          continue;
+        }
+        const channel = device.channels.get(parseInt(key, 10));
+        if (channel) {
+          this.deliver(channel, entry.frame, ZCAN_TRANSMIT_TYPE.NORMAL);
+        }
+        entry.nextTime += entry.interval * 1000;
+      }
+    }
+
+    const due = this.udsPending.filter((p) => p.dueTime <= this.clock);
+    this.udsPending = this.udsPending.filter((p) => p.dueTime > this.clock);
+    due.forEach((p) => p.onDue());
+  }
+
+  /**
+   * 返回 '\0' 结尾的字符串指针，内存在下一次 GetValue 时释放 (与 DLL 内部缓冲区的生命周期一致)
+   */
+  private returnString(value: string): unknown {
+    const bytes = Buffer.from(value + '\0', 'utf8');
+    const ptr = koffi.alloc(koffi.types.uint8, bytes.length);
+    koffi.encode(ptr, koffi.types.uint8, Array.from(bytes), bytes.length);
+    return this.replaceLastValue(ptr);
+  }
+
+  /**
+   * 返回 BusUsage 结构体指针
+   */
+  private returnBusUsage(channel: FakeChannel | undefined): unknown {
+    const ptr = koffi.alloc(BusUsage, 1);
+    koffi.encode(ptr, BusUsage, {
+      nTimeStampBegin: this.clock,
+      nTimeStampEnd: this.clock,
+      nChnl: channel ? channel.index : 0,
+      nReserved: 0,
+      nBusUsage: 0,
+      nFrameCount: 0,
+    });
+    return this.replaceLastValue(ptr);
+  }
+
+  private replaceLastValue(ptr: unknown): unknown {
+    if (this.lastValue !== null) {
+      koffi.free(this.lastValue);
+    }
+    this.lastValue = ptr;
+    return ptr;
+  }
+}
@@ -4,7 +4,8 @@
  */
 
 import koffi from 'koffi';
-import { loadZlgCanLib, isPlatformSupported, ZlgCanLibFunctions } from './loader';
+import os from 'os';
+import { loadZlgCanLib, isPlatformSupported, ZlgCanLibFunctions, ZLGCAN_LIB_PATH_ENV } from './loader';
 import {
   ZcanDeviceInfo,
   ZcanDeviceInfoEx,
@@ -19,8 +20,40 @@ import {
   ZcanfdAutoTransmitObj,
   BusUsage,
   ZcanDynamicConfigData,
+  ZcanDataObj,
+  ZcanCanfdData,
+  ZcanErrorData,
+  ZcanGpsData,
+  ZcanLinData,
+  ZcanLinErrData,
+  ZcanLinEventData,
+  ZcanLinExData,
+  ZCAN_DATA_OBJ_DATA_OFFSET,
+  ZcanLinMsg,
+  ZcanLinInitConfig,
+  ZcanLinPublishCfg,
+  ZcanLinPublishCfgEx,
+  ZcanLinSubscribeCfg,
+  ZCAN_LIN_MSG_DATA_OFFSET,
+  ZcanUdsRequest,
+  ZcanUdsResponse,
+  ZcanUdsPositiveResponse,
+  ZcanUdsNegativeResponse,
+  ZcanUdsCtrlReq,
+  ZcanUdsCtrlResp,
+  ZCAN_UDS_RESPONSE_DATA_OFFSET,
+  IZcanDataObj,
+  IZcanLinMsg,
+  IZcanLinInitConfig,
+  IZcanLinPublishCfg,
+  IZcanLinSubscribeCfg,
+  IZcanUdsRequest,
+  IZcanUdsResponse,
   IZcanDeviceInfo,
+  IZcanDeviceInfoEx,
   IZcanChannelInitConfig,
+  IZcanChannelErrInfo,
+  IZcanChannelStatus,
   IZcanTransmitData,
   IZcanReceiveData,
   IZcanTransmitFdData,
@@ -35,14 +68,63 @@ import {
   INVALID_DEVICE_HANDLE,
   INVALID_CHANNEL_HANDLE,
   ZCAN_DATA_TYPE,
+  ZCAN_DATA_OBJ_TYPE,
+  ZCAN_ERROR,
+  LIN_MSG_DATA_TYPE,
+  LIN_MAX_DLEN,
+  LIN_EX_MAX_DLEN,
+  ZCAN_UDS_RESPONSE_TYPE,
+  ZCAN_UDS_CTRL_CODE,
+  ZCAN_UDS_CTRL_RESULT,
 } from './constants';
-import { ZlgCanError } from './errors';
+import { ZlgCanError, createZlgCanError } from './errors';
 
 // 导出所有类型和常量
 export * from './types';
 export * from './constants';
 export * from './errors';
-export { isPlatformSupported, getSystemArch, getDllPath } from './loader';
+export * from './lin';
+export {
+  isPlatformSupported,
+  getSystemArch,
+  getDllPath,
+  getCallingConvention,
+  ZLGCAN_LIB_PATH_ENV,
+  SystemArch,
+  ZlgCanLibFunctions,
+  AsyncNativeFunction,
+} from './loader';
+export {
+  FakeZlgCanLib,
+  FakeZlgCanLibOptions,
+  FakeChannelErrorState,
+  FakeUdsRequest,
+  FakeUdsResponse,
+  FakeUdsResponder,
+} from './fake';
+
+/**
+ * ZCANDataObj.data 中各数据类型对应的结构体
+ */
+const DATA_OBJ_MEMBERS: Record<number, koffi.IKoffiCType> = {
+  [ZCAN_DATA_OBJ_TYPE.CAN_CANFD]: ZcanCanfdData,
+  [ZCAN_DATA_OBJ_TYPE.ERROR]: ZcanErrorData,
+  [ZCAN_DATA_OBJ_TYPE.GPS]: ZcanGpsData,
+  [ZCAN_DATA_OBJ_TYPE.LIN]: ZcanLinData,
+  [ZCAN_DATA_OBJ_TYPE.BUS_USAGE]: BusUsage,
+  [ZCAN_DATA_OBJ_TYPE.LIN_ERROR]: ZcanLinErrData,
+  [ZCAN_DATA_OBJ_TYPE.LIN_EX]: ZcanLinExData,
+  [ZCAN_DATA_OBJ_TYPE.LIN_EVENT]: ZcanLinEventData,
+};
+
+/**
+ * ZCAN_LIN_MSG.data 中各数据类型对应的结构体
+ */
+const LIN_MSG_MEMBERS: Record<number, koffi.IKoffiCType> = {
+  [LIN_MSG_DATA_TYPE.DATA]: ZcanLinData,
+  [LIN_MSG_DATA_TYPE.ERROR]: ZcanLinErrData,
+  [LIN_MSG_DATA_TYPE.EVENT]: ZcanLinEventData,
+};
 
 /**
  * ZLG CAN 驱动类
@@ -50,21 +132,37 @@ export { isPlatformSupported, getSystemArch, getDllPath } from './loader';
 export class ZlgCanDriver {
   private lib: ZlgCanLibFunctions | null = null;
   private initialized = false;
+  /** 设备句柄到 "类型:索引" 或 "类型@名称" 的映射，用于识别重复打开 */
+  private readonly openedDevices = new Map<number, string>();
+  /** 设备句柄到已初始化通道句柄的映射，用于在设备级操作失败时读取错误码 */
+  private readonly deviceChannels = new Map<number, Set<number>>();
+  /** 进行中的 UDS 请求数据，请求完成前保持引用，避免原生侧读取时被回收 */
+  private readonly pendingUdsData = new Set<Buffer>();
+
+  /**
+   * @param backend 原生库实现 (如 FakeZlgCanLib) 或动态库路径，省略时在 initialize() 中按平台加载 zlgcan 动态库
+   */
+  constructor(private readonly backend?: ZlgCanLibFunctions | string) {}
 
   /**
    * 初始化驱动
-   * 加载 DLL 并绑定函数
+   * 使用注入的原生库实现，或加载动态库并绑定函数
    */
   initialize(): void {
     if (this.initialized) {
       return;
     }
 
-    if (!isPlatformSupported()) {
-      throw new Error('ZLG CAN driver only supports Windows platform');
+    if (typeof this.backend === 'object') {
+      this.lib = this.backend;
+    } else {
+      // 指定了库路径时由调用者负责库与平台匹配
+      const custom = this.backend !== undefined || !!process.env[ZLGCAN_LIB_PATH_ENV];
+      if (!custom && !isPlatformSupported()) {
+        throw new Error(`ZLG CAN driver does not support ${os.platform()}/${os.arch()}`);
+      }
+      this.lib = loadZlgCanLib(this.backend);
     }
-
-    this.lib = loadZlgCanLib();
     this.initialized = true;
   }
 
@@ -93,8 +191,34 @@ export class ZlgCanDriver {
     const lib = this.ensureInitialized();
     const handle = lib.ZCAN_OpenDevice(deviceType, deviceIndex, 0);
     if (handle === INVALID_DEVICE_HANDLE) {
-      throw new ZlgCanError('ZCAN_OpenDevice');
+      // 打开前没有可查询错误信息的通道，仅能识别本驱动内的重复打开
+      const key = `${deviceType}:${deviceIndex}`;
+      const opened = Array.from(this.openedDevices.values()).includes(key);
+      throw createZlgCanError('ZCAN_OpenDevice', opened ? ZCAN_ERROR.DEVICEOPENED : undefined);
     }
+    this.openedDevices.set(handle, `${deviceType}:${deviceIndex}`);
+    return handle;
+  }
+
+  /**
+   * 按名称 (自定义序列号) 打开设备
+   *
+   * 多个同型号设备重新插拔后索引顺序可能变化，按名称打开可固定对应关系
+   *
+   * @param deviceType 设备类型
+   * @param name 设备名称
+   * @returns 设备句柄
+   * @throws {ZlgCanError} 打开设备失败时抛出异常
+   */
+  openDeviceByName(deviceType: number, name: string): number {
+    const lib = this.ensureInitialized();
+    const handle = lib.ZCAN_OpenDeviceByName(deviceType, name);
+    const key = `${deviceType}@${name}`;
+    if (handle === INVALID_DEVICE_HANDLE) {
+      const opened = Array.from(this.openedDevices.values()).includes(key);
+      throw createZlgCanError('ZCAN_OpenDeviceByName', opened ? ZCAN_ERROR.DEVICEOPENED : undefined);
+    }
+    this.openedDevices.set(handle, key);
     return handle;
   }
 
@@ -106,8 +230,10 @@ export class ZlgCanDriver {
   closeDevice(deviceHandle: number): void {
     const lib = this.ensureInitialized();
     if (lib.ZCAN_CloseDevice(deviceHandle) !== ZCAN_STATUS.OK) {
-      throw new ZlgCanError('ZCAN_CloseDevice');
+      throw this.deviceError('ZCAN_CloseDevice', deviceHandle);
     }
+    this.openedDevices.delete(deviceHandle);
+    this.deviceChannels.delete(deviceHandle);
   }
 
   /**
@@ -123,13 +249,30 @@ export class ZlgCanDriver {
 
     const result = lib.ZCAN_GetDeviceInf(deviceHandle, buffer);
     if (result !== ZCAN_STATUS.OK) {
-      throw new ZlgCanError('ZCAN_GetDeviceInfo');
+      throw this.deviceError('ZCAN_GetDeviceInfo', deviceHandle);
     }
 
     const info = koffi.decode(buffer, ZcanDeviceInfo);
     return info as IZcanDeviceInfo;
   }
 
+  /**
+   * 获取扩展设备信息
+   * @param deviceHandle 设备句柄
+   * @returns 扩展设备信息 (设备名称、分段版本号、CAN/LIN 通道数)
+   * @throws {ZlgCanError} 获取设备信息失败时抛出异常
+   */
+  getDeviceInfoEx(deviceHandle: number): IZcanDeviceInfoEx {
+    const lib = this.ensureInitialized();
+    const buffer = Buffer.alloc(koffi.sizeof(ZcanDeviceInfoEx));
+
+    if (lib.ZCAN_GetDeviceInfoEx(deviceHandle, buffer) !== ZCAN_STATUS.OK) {
+      throw this.deviceError('ZCAN_GetDeviceInfoEx', deviceHandle);
+    }
+
+    return koffi.decode(buffer, ZcanDeviceInfoEx) as IZcanDeviceInfoEx;
+  }
+
   /**
    * 检查设备是否在线
    * @param deviceHandle 设备句柄
@@ -173,8 +316,15 @@ export class ZlgCanDriver {
 
     const handle = lib.ZCAN_InitCAN(deviceHandle, canIndex, buffer);
     if (handle === INVALID_CHANNEL_HANDLE) {
-      throw new ZlgCanError('ZCAN_InitCAN');
+      throw this.deviceError('ZCAN_InitCAN', deviceHandle);
     }
+
+    let channels = this.deviceChannels.get(deviceHandle);
+    if (!channels) {
+      channels = new Set();
+      this.deviceChannels.set(deviceHandle, channels);
+    }
+    channels.add(handle);
     return handle;
   }
 
@@ -186,7 +336,7 @@ export class ZlgCanDriver {
   startCAN(channelHandle: number): void {
     const lib = this.ensureInitialized();
     if (lib.ZCAN_StartCAN(channelHandle) !== ZCAN_STATUS.OK) {
-      throw new ZlgCanError('ZCAN_StartCAN');
+      throw this.channelError('ZCAN_StartCAN', channelHandle);
     }
   }
 
@@ -198,7 +348,7 @@ export class ZlgCanDriver {
   resetCAN(channelHandle: number): void {
     const lib = this.ensureInitialized();
     if (lib.ZCAN_ResetCAN(channelHandle) !== ZCAN_STATUS.OK) {
-      throw new ZlgCanError('ZCAN_ResetCAN');
+      throw this.channelError('ZCAN_ResetCAN', channelHandle);
     }
   }
 
@@ -210,8 +360,80 @@ export class ZlgCanDriver {
   clearBuffer(channelHandle: number): void {
     const lib = this.ensureInitialized();
     if (lib.ZCAN_ClearBuffer(channelHandle) !== ZCAN_STATUS.OK) {
-      throw new ZlgCanError('ZCAN_ClearBuffer');
+      throw this.channelError('ZCAN_ClearBuffer', channelHandle);
+    }
+  }
+
+  /**
+   * 读取通道错误信息
+   * @param channelHandle 通道句柄
+   * @returns 通道错误信息
+   * @throws {ZlgCanError} 读取失败时抛出异常
+   */
+  readChannelErrInfo(channelHandle: number): IZcanChannelErrInfo {
+    const lib = this.ensureInitialized();
+    const buffer = Buffer.alloc(koffi.sizeof(ZcanChannelErrInfo));
+
+    if (lib.ZCAN_ReadChannelErrInfo(channelHandle, buffer) !== ZCAN_STATUS.OK) {
+      // 读取失败可能是暂时的，再读取一次以附带错误码
+      throw this.channelError('ZCAN_ReadChannelErrInfo', channelHandle);
+    }
+
+    return koffi.decode(buffer, ZcanChannelErrInfo) as IZcanChannelErrInfo;
+  }
+
+  /**
+   * 读取通道控制器状态
+   * @param channelHandle 通道句柄
+   * @returns 控制器状态 (错误计数、状态寄存器等)
+   * @throws {ZlgCanError} 读取失败时抛出异常
+   */
+  readChannelStatus(channelHandle: number): IZcanChannelStatus {
+    const lib = this.ensureInitialized();
+    const buffer = Buffer.alloc(koffi.sizeof(ZcanChannelStatus));
+
+    if (lib.ZCAN_ReadChannelStatus(channelHandle, buffer) !== ZCAN_STATUS.OK) {
+      throw this.channelError('ZCAN_ReadChannelStatus', channelHandle);
     }
+
+    return koffi.decode(buffer, ZcanChannelStatus) as IZcanChannelStatus;
+  }
+
+  /**
+   * 读取通道最近一次的错误码
+   * @param channelHandle 通道句柄
+   * @returns ZCAN_ERROR 错误码，无错误或读取失败时返回 undefined
+   */
+  readErrorCode(channelHandle: number): number | undefined {
+    const lib = this.ensureInitialized();
+    const buffer = Buffer.alloc(koffi.sizeof(ZcanChannelErrInfo));
+
+    if (lib.ZCAN_ReadChannelErrInfo(channelHandle, buffer) !== ZCAN_STATUS.OK) {
+      return undefined;
+    }
+
+    const info = koffi.decode(buffer, ZcanChannelErrInfo) as IZcanChannelErrInfo;
+    return info.error_code || undefined;
+  }
+
+  /**
+   * 生成通道操作失败的异常，附带通道错误码
+   */
+  private channelError(operation: string, channelHandle: number): ZlgCanError {
+    return createZlgCanError(operation, this.readErrorCode(channelHandle));
+  }
+
+  /**
+   * 生成设备操作失败的异常，错误码取自该设备已初始化的通道
+   */
+  private deviceError(operation: string, deviceHandle: number): ZlgCanError {
+    for (const channelHandle of this.deviceChannels.get(deviceHandle) || []) {
+      const errorCode = this.readErrorCode(channelHandle);
+      if (errorCode !== undefined) {
+        return createZlgCanError(operation, errorCode);
+      }
+    }
+    return createZlgCanError(operation);
   }
 
   /**
@@ -333,6 +555,392 @@ export class ZlgCanDriver {
     return result;
   }
 
+  /**
+   * 发送合并数据 (CAN/CANFD/LIN 等)
+   * @param deviceHandle 设备句柄
+   * @param data 发送数据数组，通道由 chnl 指定
+   * @returns 成功发送的数量
+   */
+  transmitData(deviceHandle: number, data: IZcanDataObj[]): number {
+    const lib = this.ensureInitialized();
+    const itemSize = koffi.sizeof(ZcanDataObj);
+    const buffer = Buffer.alloc(itemSize * data.length);
+
+    data.forEach((item, i) => {
+      const offset = i * itemSize;
+      koffi.encode(buffer, offset, ZcanDataObj, {
+        dataType: item.dataType,
+        chnl: item.chnl,
+        flag: item.flag || 0,
+      });
+
+      let member: object = item.data;
+      if (item.dataType === ZCAN_DATA_OBJ_TYPE.CAN_CANFD) {
+        const frame = item.data.frame;
+        member = {
+          ...item.data,
+          frame: { ...frame, data: Array.from(frame.data).slice(0, 64) },
+        };
+      }
+      koffi.encode(buffer, offset + ZCAN_DATA_OBJ_DATA_OFFSET, DATA_OBJ_MEMBERS[item.dataType], member);
+    });
+
+    return lib.ZCAN_TransmitData(deviceHandle, buffer, data.length);
+  }
+
+  /**
+   * 接收合并数据
+   *
+   * 设备需先通过 set_device_recv_merge 开启合并接收，各类数据按设备上报顺序返回
+   *
+   * @param deviceHandle 设备句柄
+   * @param maxCount 最大接收数量
+   * @param timeout 超时时间 (ms)，-1 表示无限等待
+   * @returns 接收到的数据数组，未知数据类型的记录被忽略
+   */
+  receiveData(deviceHandle: number, maxCount: number, timeout: number = -1): IZcanDataObj[] {
+    const lib = this.ensureInitialized();
+    const itemSize = koffi.sizeof(ZcanDataObj);
+    const buffer = Buffer.alloc(itemSize * maxCount);
+
+    const count = lib.ZCAN_ReceiveData(deviceHandle, buffer, maxCount, timeout);
+    const result: IZcanDataObj[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const offset = i * itemSize;
+      const dataType = buffer.readUInt8(offset);
+      const member = DATA_OBJ_MEMBERS[dataType];
+      if (!member) {
+        continue;
+      }
+      result.push({
+        dataType,
+        chnl: buffer.readUInt8(offset + 1),
+        flag: buffer.readUInt16LE(offset + 2),
+        data: koffi.decode(buffer, offset + ZCAN_DATA_OBJ_DATA_OFFSET, member),
+      } as IZcanDataObj);
+    }
+
+    return result;
+  }
+
+  // ============================================================================
+  // LIN 通道
+  // ============================================================================
+
+  /**
+   * 初始化 LIN 通道
+   * @param deviceHandle 设备句柄
+   * @param linIndex LIN 通道索引
+   * @param config 通道配置 (主从模式、校验方式、波特率)
+   * @returns LIN 通道句柄
+   * @throws {ZlgCanError} 初始化通道失败时抛出异常
+   */
+  initLIN(deviceHandle: number, linIndex: number, config: IZcanLinInitConfig): number {
+    const lib = this.ensureInitialized();
+    const buffer = Buffer.alloc(koffi.sizeof(ZcanLinInitConfig));
+
+    koffi.encode(buffer, ZcanLinInitConfig, {
+      linMode: config.linMode,
+      chkSumMode: config.chkSumMode,
+      maxLength: config.maxLength,
+      reserved: 0,
+      linBaud: config.linBaud,
+    });
+
+    const handle = lib.ZCAN_InitLIN(deviceHandle, linIndex, buffer);
+    if (handle === INVALID_CHANNEL_HANDLE) {
+      throw this.deviceError('ZCAN_InitLIN', deviceHandle);
+    }
+
+    let channels = this.deviceChannels.get(deviceHandle);
+    if (!channels) {
+      channels = new Set();
+      this.deviceChannels.set(deviceHandle, channels);
+    }
+    channels.add(handle);
+    return handle;
+  }
+
+  /**
+   * 启动 LIN 通道
+   * @param channelHandle LIN 通道句柄
+   * @throws {ZlgCanError} 启动通道失败时抛出异常
+   */
+  startLIN(channelHandle: number): void {
+    const lib = this.ensureInitialized();
+    if (lib.ZCAN_StartLIN(channelHandle) !== ZCAN_STATUS.OK) {
+      throw this.channelError('ZCAN_StartLIN', channelHandle);
+    }
+  }
+
+  /**
+   * 重置 LIN 通道
+   * @param channelHandle LIN 通道句柄
+   * @throws {ZlgCanError} 重置通道失败时抛出异常
+   */
+  resetLIN(channelHandle: number): void {
+    const lib = this.ensureInitialized();
+    if (lib.ZCAN_ResetLIN(channelHandle) !== ZCAN_STATUS.OK) {
+      throw this.channelError('ZCAN_ResetLIN', channelHandle);
+    }
+  }
+
+  /**
+   * 发送 LIN 报文
+   *
+   * 仅主机可发送。RxData.dataLen 为 0 时只发送帧头，由发布了该 ID 的节点应答；
+   * 否则由主机发送帧头和数据
+   *
+   * @param channelHandle LIN 通道句柄
+   * @param data 发送报文数组
+   * @returns 成功发送的数量
+   */
+  transmitLIN(channelHandle: number, data: IZcanLinMsg[]): number {
+    const lib = this.ensureInitialized();
+    const itemSize = koffi.sizeof(ZcanLinMsg);
+    const buffer = Buffer.alloc(itemSize * data.length);
+
+    data.forEach((item, i) => {
+      const offset = i * itemSize;
+      koffi.encode(buffer, offset, ZcanLinMsg, {
+        chnl: item.chnl,
+        dataType: item.dataType,
+      });
+
+      let member: object = item.data;
+      if (item.dataType === LIN_MSG_DATA_TYPE.DATA) {
+        const rx = item.data.RxData;
+        member = {
+          ...item.data,
+          RxData: { ...rx, data: Array.from(rx.data).slice(0, LIN_MAX_DLEN) },
+        };
+      }
+      koffi.encode(buffer, offset + ZCAN_LIN_MSG_DATA_OFFSET, LIN_MSG_MEMBERS[item.dataType], member);
+    });
+
+    return lib.ZCAN_TransmitLIN(channelHandle, buffer, data.length);
+  }
+
+  /**
+   * 获取 LIN 接收缓冲区中的报文数量
+   * @param channelHandle LIN 通道句柄
+   */
+  getLINReceiveNum(channelHandle: number): number {
+    const lib = this.ensureInitialized();
+    return lib.ZCAN_GetLINReceiveNum(channelHandle);
+  }
+
+  /**
+   * 接收 LIN 报文 (数据、错误和事件)
+   * @param channelHandle LIN 通道句柄
+   * @param maxCount 最大接收数量
+   * @param timeout 超时时间 (ms)，-1 表示无限等待
+   * @returns 接收到的报文数组，未知数据类型的记录被忽略
+   */
+  receiveLIN(channelHandle: number, maxCount: number, timeout: number = -1): IZcanLinMsg[] {
+    const lib = this.ensureInitialized();
+    const itemSize = koffi.sizeof(ZcanLinMsg);
+    const buffer = Buffer.alloc(itemSize * maxCount);
+
+    const count = lib.ZCAN_ReceiveLIN(channelHandle, buffer, maxCount, timeout);
+    const result: IZcanLinMsg[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const offset = i * itemSize;
+      const dataType = buffer.readUInt8(offset + 1);
+      const member = LIN_MSG_MEMBERS[dataType];
+      if (!member) {
+        continue;
+      }
+      result.push({
+        chnl: buffer.readUInt8(offset),
+        dataType,
+        data: koffi.decode(buffer, offset + ZCAN_LIN_MSG_DATA_OFFSET, member),
+      } as IZcanLinMsg);
+    }
+
+    return result;
+  }
+
+  /**
+   * 设置 LIN 订阅 (接收时的数据长度和校验方式)
+   * @param channelHandle LIN 通道句柄
+   * @param configs 订阅配置数组
+   * @throws {ZlgCanError} 设置失败时抛出异常
+   */
+  setLINSubscribe(channelHandle: number, configs: IZcanLinSubscribeCfg[]): void {
+    const lib = this.ensureInitialized();
+    const itemSize = koffi.sizeof(ZcanLinSubscribeCfg);
+    const buffer = Buffer.alloc(itemSize * configs.length);
+
+    configs.forEach((cfg, i) => {
+      koffi.encode(buffer, i * itemSize, ZcanLinSubscribeCfg, {
+        ID: cfg.ID,
+        dataLen: cfg.dataLen,
+        chkSumMode: cfg.chkSumMode,
+      });
+    });
+
+    if (lib.ZCAN_SetLINSubscribe(channelHandle, buffer, configs.length) !== ZCAN_STATUS.OK) {
+      throw this.channelError('ZCAN_SetLINSubscribe', channelHandle);
+    }
+  }
+
+  /**
+   * 设置 LIN 发布 (收到对应帧头时应答的数据，数据长度 1-8)
+   * @param channelHandle LIN 通道句柄
+   * @param configs 发布配置数组
+   * @throws {ZlgCanError} 设置失败时抛出异常
+   */
+  setLINPublish(channelHandle: number, configs: IZcanLinPublishCfg[]): void {
+    const lib = this.ensureInitialized();
+    const buffer = this.encodeLinPublish(ZcanLinPublishCfg, LIN_MAX_DLEN, configs);
+
+    if (lib.ZCAN_SetLINPublish(channelHandle, buffer, configs.length) !== ZCAN_STATUS.OK) {
+      throw this.channelError('ZCAN_SetLINPublish', channelHandle);
+    }
+  }
+
+  /**
+   * 设置 LIN 扩展发布 (数据长度 1-64，需初始化时 maxLength 大于 8)
+   * @param channelHandle LIN 通道句柄
+   * @param configs 发布配置数组
+   * @throws {ZlgCanError} 设置失败时抛出异常
+   */
+  setLINPublishEx(channelHandle: number, configs: IZcanLinPublishCfg[]): void {
+    const lib = this.ensureInitialized();
+    const buffer = this.encodeLinPublish(ZcanLinPublishCfgEx, LIN_EX_MAX_DLEN, configs);
+
+    if (lib.ZCAN_SetLINPublishEx(channelHandle, buffer, configs.length) !== ZCAN_STATUS.OK) {
+      throw this.channelError('ZCAN_SetLINPublishEx', channelHandle);
+    }
+  }
+
+  /**
+   * 编码发布配置数组
+   */
+  private encodeLinPublish(type: koffi.IKoffiCType, maxLength: number, configs: IZcanLinPublishCfg[]): Buffer {
+    const itemSize = koffi.sizeof(type);
+    const buffer = Buffer.alloc(itemSize * configs.length);
+
+    configs.forEach((cfg, i) => {
+      koffi.encode(buffer, i * itemSize, type, {
+        ID: cfg.ID,
+        dataLen: cfg.dataLen,
+        data: Array.from(cfg.data).slice(0, maxLength),
+        chkSumMode: cfg.chkSumMode,
+      });
+    });
+
+    return buffer;
+  }
+
+  /**
+   * 在 LIN 总线上发送唤醒信号
+   * @param channelHandle LIN 通道句柄
+   * @throws {ZlgCanError} 发送失败时抛出异常
+   */
+  wakeUpLIN(channelHandle: number): void {
+    const lib = this.ensureInitialized();
+    if (lib.ZCAN_WakeUpLIN(channelHandle) !== ZCAN_STATUS.OK) {
+      throw this.channelError('ZCAN_WakeUpLIN', channelHandle);
+    }
+  }
+
+  // ============================================================================
+  // UDS 诊断
+  // ============================================================================
+
+  /**
+   * 由设备执行 UDS 请求 (ISO 15765-2 分帧、流控和 P2/P2* 超时由设备处理)
+   *
+   * 请求在工作线程中执行，等待响应期间不阻塞事件循环，可通过 udsControl() 取消
+   *
+   * @param deviceHandle 设备句柄
+   * @param request 请求信息
+   * @param maxResponseLength 积极响应数据缓冲区大小 (字节)，默认 4095
+   * @returns 响应信息和积极响应数据 (不包含 SID)
+   * @throws {ZlgCanError} 调用失败或响应数据超过缓冲区大小时抛出异常
+   */
+  async udsRequest(
+    deviceHandle: number,
+    request: IZcanUdsRequest,
+    maxResponseLength: number = 4095,
+  ): Promise<{ response: IZcanUdsResponse; data: Buffer }> {
+    const lib = this.ensureInitialized();
+    const payload = Buffer.from(Array.from(request.data));
+    const reqBuffer = Buffer.alloc(koffi.sizeof(ZcanUdsRequest));
+    const respBuffer = Buffer.alloc(koffi.sizeof(ZcanUdsResponse));
+    const dataBuffer = Buffer.alloc(maxResponseLength);
+
+    koffi.encode(reqBuffer, ZcanUdsRequest, {
+      ...request,
+      data: payload,
+      data_len: payload.length,
+    });
+
+    this.pendingUdsData.add(payload);
+    let status: number;
+    try {
+      status = await new Promise<number>((resolve, reject) => {
+        lib.ZCAN_UDS_Request.async(deviceHandle, reqBuffer, respBuffer, dataBuffer, maxResponseLength, (error, result) => {
+          if (error) {
+            reject(error);
+          } else {
+            resolve(result);
+          }
+        });
+      });
+    } finally {
+      this.pendingUdsData.delete(payload);
+    }
+
+    switch (status) {
+      case ZCAN_STATUS.OK:
+        break;
+      case ZCAN_STATUS.BUFFER_TOO_SMALL:
+        throw new ZlgCanError('ZCAN_UDS_Request', undefined, `响应数据超过缓冲区大小 (${maxResponseLength} 字节)`);
+      case ZCAN_STATUS.UNSUPPORTED:
+        throw new ZlgCanError('ZCAN_UDS_Request', undefined, '设备不支持 UDS 请求');
+      default:
+        throw this.deviceError('ZCAN_UDS_Request', deviceHandle);
+    }
+
+    const header = koffi.decode(respBuffer, ZcanUdsResponse);
+    const response: IZcanUdsResponse = {
+      status: header.status,
+      type: header.type,
+      positive: koffi.decode(respBuffer, ZCAN_UDS_RESPONSE_DATA_OFFSET, ZcanUdsPositiveResponse),
+      negative: koffi.decode(respBuffer, ZCAN_UDS_RESPONSE_DATA_OFFSET, ZcanUdsNegativeResponse),
+    };
+    const dataLength = response.type === ZCAN_UDS_RESPONSE_TYPE.POSITIVE ? response.positive.data_len : 0;
+
+    return { response, data: Buffer.from(dataBuffer.subarray(0, Math.min(dataLength, maxResponseLength))) };
+  }
+
+  /**
+   * 控制进行中的 UDS 请求
+   * @param deviceHandle 设备句柄
+   * @param requestId 请求事务 ID
+   * @param cmd 控制类型，默认停止请求
+   * @returns 设备是否执行成功 (请求已完成或不存在时为 false)
+   * @throws {ZlgCanError} 调用失败时抛出异常
+   */
+  udsControl(deviceHandle: number, requestId: number, cmd: number = ZCAN_UDS_CTRL_CODE.STOP_REQ): boolean {
+    const lib = this.ensureInitialized();
+    const ctrlBuffer = Buffer.alloc(koffi.sizeof(ZcanUdsCtrlReq));
+    const respBuffer = Buffer.alloc(koffi.sizeof(ZcanUdsCtrlResp));
+
+    koffi.encode(ctrlBuffer, ZcanUdsCtrlReq, { reqID: requestId, cmd });
+
+    if (lib.ZCAN_UDS_Control(deviceHandle, ctrlBuffer, respBuffer) !== ZCAN_STATUS.OK) {
+      throw this.deviceError('ZCAN_UDS_Control', deviceHandle);
+    }
+
+    return koffi.decode(respBuffer, ZcanUdsCtrlResp).result === ZCAN_UDS_CTRL_RESULT.OK;
+  }
+
   // ============================================================================
   // 配置接口
   // ============================================================================
@@ -369,7 +977,7 @@ export class ZlgCanDriver {
     }
 
     if (lib.ZCAN_SetValue(deviceHandle, path, buffer) !== ZCAN_STATUS.OK) {
-      throw new ZlgCanError('ZCAN_SetValue');
+      throw this.deviceError('ZCAN_SetValue', deviceHandle);
     }
   }
 
@@ -510,8 +1118,8 @@ export class ZlgCanDriver {
     const lib = this.ensureInitialized();
     const ptr = lib.ZCAN_GetValue(deviceHandle, path);
 
-    if (ptr === 0) {
-      throw new ZlgCanError('ZCAN_GetValue');
+    if (!ptr) {
+      throw this.deviceError('ZCAN_GetValue', deviceHandle);
     }
 
     // 处理 get_bus_usage 路径，返回 BusUsage 结构体
@@ -521,17 +1129,17 @@ export class ZlgCanDriver {
         return busUsage as IBusUsage;
       } catch {
         // 解码失败，返回指针地址
-        return ptr;
+        return ptr as object;
       }
     }
 
-    // 尝试作为字符串读取
+    // 尝试作为 '\0' 结尾的字符数组读取
     try {
-      const str = koffi.decode(ptr, 'str');
+      const str = koffi.decode(ptr, 'char', -1);
       return str;
     } catch {
       // 如果不是字符串，返回指针地址
-      return ptr;
+      return ptr as object;
     }
   }
 }
@@ -551,7 +1159,8 @@ export function getDriver(): ZlgCanDriver {
 
 /**
  * 创建新的驱动实例
+ * @param lib 原生库实现或动态库路径，省略时按平台加载 zlgcan 动态库
  */
-export function createDriver(): ZlgCanDriver {
-  return new ZlgCanDriver();
+export function createDriver(lib?: ZlgCanLibFunctions | string): ZlgCanDriver {
+  return new ZlgCanDriver(lib);
 }
@@ -0,0 +1,55 @@
+/**
+ * LIN 协议辅助函数
+ * 受保护 ID 的奇偶校验位和数据校验和计算 (LIN 2.x)
+ */
+
+import {
+  LIN_ID_MASK,
+  LIN_CHECKSUM_MODE,
+  LIN_MASTER_REQUEST_ID,
+  LIN_SLAVE_RESPONSE_ID,
+} from './constants';
+
+/**
+ * 计算受保护的 ID (PID)
+ *
+ * P0 = ID0 ^ ID1 ^ ID2 ^ ID4，P1 = !(ID1 ^ ID3 ^ ID4 ^ ID5)
+ *
+ * @param id 帧 ID (0-63)
+ */
+export function linProtectedId(id: number): number {
+  const bit = (n: number) => (id >> n) & 1;
+  const p0 = bit(0) ^ bit(1) ^ bit(2) ^ bit(4);
+  const p1 = (bit(1) ^ bit(3) ^ bit(4) ^ bit(5)) ^ 1;
+  return (id & LIN_ID_MASK) | (p0 << 6) | (p1 << 7);
+}
+
+/**
+ * 诊断帧 (0x3C/0x3D) 始终使用经典校验
+ * @param id 帧 ID 或受保护的 ID
+ */
+export function isLinDiagnosticId(id: number): boolean {
+  const frameId = id & LIN_ID_MASK;
+  return frameId === LIN_MASTER_REQUEST_ID || frameId === LIN_SLAVE_RESPONSE_ID;
+}
+
+/**
+ * 计算 LIN 数据校验和
+ *
+ * 按字节带进位累加后取反；增强校验在累加时包含 PID，诊断帧强制使用经典校验
+ *
+ * @param id 帧 ID 或受保护的 ID
+ * @param data 数据
+ * @param mode 校验方式 (LIN_CHECKSUM_MODE.CLASSIC 或 ENHANCED)
+ */
+export function linChecksum(id: number, data: ArrayLike<number>, mode: number): number {
+  const enhanced = mode === LIN_CHECKSUM_MODE.ENHANCED && !isLinDiagnosticId(id);
+  let sum = enhanced ? linProtectedId(id & LIN_ID_MASK) : 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i] & 0xFF;
+    if (sum > 0xFF) {
+      sum -= 0xFF;
+    }
+  }
+  return ~sum & 0xFF;
+}
@@ -1,11 +1,12 @@
 /**
- * ZLG CAN DLL 加载器
- * 根据系统架构自动加载对应的 DLL
+ * ZLG CAN 动态库加载器
+ * 根据系统平台和架构自动加载对应的 DLL (Windows) 或共享库 (Linux)
  */
 
 import koffi from 'koffi';
 import path from 'path';
 import os from 'os';
+import fs from 'fs';
 import {
   ZcanDeviceInfo,
   ZcanDeviceInfoEx,
@@ -16,30 +17,98 @@ import {
   ZcanReceiveData,
   ZcanTransmitFdData,
   ZcanReceiveFdData,
+  ZcanDataObj,
+  ZcanLinMsg,
+  ZcanLinInitConfig,
+  ZcanLinPublishCfg,
+  ZcanLinPublishCfgEx,
+  ZcanLinSubscribeCfg,
+  ZcanUdsRequest,
+  ZcanUdsResponse,
+  ZcanUdsCtrlReq,
+  ZcanUdsCtrlResp,
   BusUsage,
   ZcanDynamicConfigData,
 } from './types';
 
 /**
- * 获取 DLL 路径
- * 根据当前系统架构选择 x64 或 x86 版本
+ * 系统架构
  */
-export function getDllPath(): string {
-  const arch = os.arch();
-  const dllDir = arch === 'x64' ? 'zlgcan_x64' : 'zlgcan_x86';
+export type SystemArch = 'x64' | 'x86' | 'arm64' | 'arm';
+
+/**
+ * 动态库路径环境变量，设置后优先于内置路径
+ */
+export const ZLGCAN_LIB_PATH_ENV = 'ZLGCAN_LIB_PATH';
+
+/**
+ * 各平台支持的架构
+ * Linux 使用 ZLG 提供的 libzlgcan.so (USBCANFD 及网络设备)
+ */
+const SUPPORTED_ARCHS: Record<string, SystemArch[]> = {
+  win32: ['x64', 'x86'],
+  linux: ['x64', 'arm64', 'arm'],
+};
+
+/**
+ * Linux 下未放入内置目录时使用的库名，由系统动态链接器查找
+ */
+const LINUX_LIB_NAME = 'libzlgcan.so';
+
+/**
+ * 获取动态库路径
+ *
+ * 查找顺序：
+ * 1. 环境变量 ZLGCAN_LIB_PATH
+ * 2. Windows: libs/zlg_canlib/zlgcan_{x64|x86}/zlgcan.dll
+ * 3. Linux: libs/zlg_canlib/zlgcan_linux_{x64|arm64|arm}/libzlgcan.so (需自行放入)，
+ *    不存在时返回 libzlgcan.so，由系统动态链接器按 LD_LIBRARY_PATH 和 ldconfig 路径查找
+ *
+ * @param platform 系统平台，默认当前平台
+ * @param arch 系统架构，默认当前架构
+ * @throws {Error} 未设置环境变量且当前架构不受支持时抛出异常
+ */
+export function getDllPath(platform: string = os.platform(), arch?: SystemArch): string {
+  const override = process.env[ZLGCAN_LIB_PATH_ENV];
+  if (override) {
+    return path.resolve(override);
+  }
 
   // 从 src/driver 向上两级到项目根目录，再进入 libs
-  const dllPath = path.join(__dirname, '../../libs/zlg_canlib', dllDir, 'zlgcan.dll');
+  const libRoot = path.join(__dirname, '../../libs/zlg_canlib');
+  const target = arch ?? getSystemArch();
+
+  if (platform === 'win32') {
+    return path.join(libRoot, target === 'x64' ? 'zlgcan_x64' : 'zlgcan_x86', 'zlgcan.dll');
+  }
 
-  return dllPath;
+  const bundled = path.join(libRoot, `zlgcan_linux_${target}`, 'libzlgcan.so');
+  return fs.existsSync(bundled) ? bundled : LINUX_LIB_NAME;
 }
 
+/**
+ * 获取函数调用约定
+ * zlgcan.h 中 FUNC_CALL 在 Windows 下为 __stdcall，其它平台为空 (即 cdecl)
+ */
+export function getCallingConvention(platform: string = os.platform()): '__stdcall' | '__cdecl' {
+  return platform === 'win32' ? '__stdcall' : '__cdecl';
+}
+
+/**
+ * 可在工作线程中调用的原生函数
+ * 对应 koffi 函数的 async 方法，用于 ZCAN_UDS_Request 等会阻塞到请求完成的调用
+ */
+export type AsyncNativeFunction<F extends (...args: never[]) => number> = F & {
+  async: (...args: [...Parameters<F>, (error: unknown, result: number) => void]) => void;
+};
+
 /**
  * DLL 函数接口定义
  */
 export interface ZlgCanLibFunctions {
   // 设备管理
   ZCAN_OpenDevice: (device_type: number, device_index: number, reserved: number) => number;
+  ZCAN_OpenDeviceByName: (device_type: number, name: string) => number;
   ZCAN_CloseDevice: (device_handle: number) => number;
   ZCAN_GetDeviceInf: (device_handle: number, pInfo: Buffer) => number;
   ZCAN_GetDeviceInfoEx: (device_handle: number, pInfo: Buffer) => number;
@@ -59,61 +128,131 @@ export interface ZlgCanLibFunctions {
   ZCAN_Receive: (channel_handle: number, pReceive: Buffer, len: number, wait_time: number) => number;
   ZCAN_TransmitFD: (channel_handle: number, pTransmit: Buffer, len: number) => number;
   ZCAN_ReceiveFD: (channel_handle: number, pReceive: Buffer, len: number, wait_time: number) => number;
+  ZCAN_TransmitData: (device_handle: number, pTransmit: Buffer, len: number) => number;
+  ZCAN_ReceiveData: (device_handle: number, pReceive: Buffer, len: number, wait_time: number) => number;
+
+  // LIN
+  ZCAN_InitLIN: (device_handle: number, lin_index: number, pLINInitConfig: Buffer) => number;
+  ZCAN_StartLIN: (channel_handle: number) => number;
+  ZCAN_ResetLIN: (channel_handle: number) => number;
+  ZCAN_TransmitLIN: (channel_handle: number, pSend: Buffer, len: number) => number;
+  ZCAN_GetLINReceiveNum: (channel_handle: number) => number;
+  ZCAN_ReceiveLIN: (channel_handle: number, pReceive: Buffer, len: number, wait_time: number) => number;
+  ZCAN_SetLINSubscribe: (channel_handle: number, pSend: Buffer, nSubscribeCount: number) => number;
+  ZCAN_SetLINPublish: (channel_handle: number, pSend: Buffer, nPublishCount: number) => number;
+  ZCAN_SetLINPublishEx: (channel_handle: number, pSend: Buffer, nPublishCount: number) => number;
+  ZCAN_WakeUpLIN: (channel_handle: number) => number;
+
+  // UDS 诊断
+  ZCAN_UDS_Request: AsyncNativeFunction<
+    (device_handle: number, req: Buffer, resp: Buffer, dataBuf: Buffer, dataBufSize: number) => number
+  >;
+  ZCAN_UDS_Control: (device_handle: number, ctrl: Buffer, resp: Buffer) => number;
 
   // 配置
   ZCAN_SetValue: (device_handle: number, path: string, value: Buffer) => number;
-  ZCAN_GetValue: (device_handle: number, path: string) => number;
+  ZCAN_GetValue: (device_handle: number, path: string) => unknown;
 }
 
 /**
- * 加载 ZLG CAN DLL 并绑定函数
+ * 加载 ZLG CAN 动态库并绑定函数
+ * @param libPath 动态库路径，默认由 getDllPath() 决定
  */
-export function loadZlgCanLib(): ZlgCanLibFunctions {
-  const dllPath = getDllPath();
-  const lib = koffi.load(dllPath);
+export function loadZlgCanLib(libPath: string = getDllPath()): ZlgCanLibFunctions {
+  const lib = koffi.load(libPath);
+  const convention = getCallingConvention();
 
   // 定义函数签名并绑定
   const functions: ZlgCanLibFunctions = {
     // 设备管理
-    ZCAN_OpenDevice: lib.func('__stdcall', 'ZCAN_OpenDevice', 'void *', ['uint', 'uint', 'uint']),
-    ZCAN_CloseDevice: lib.func('__stdcall', 'ZCAN_CloseDevice', 'uint', ['void *']),
-    ZCAN_GetDeviceInf: lib.func('__stdcall', 'ZCAN_GetDeviceInf', 'uint', ['void *', koffi.out(koffi.pointer(ZcanDeviceInfo))]),
-    ZCAN_GetDeviceInfoEx: lib.func('__stdcall', 'ZCAN_GetDeviceInfoEx', 'uint', ['void *', koffi.out(koffi.pointer(ZcanDeviceInfoEx))]),
-    ZCAN_IsDeviceOnLine: lib.func('__stdcall', 'ZCAN_IsDeviceOnLine', 'uint', ['void *']),
+    ZCAN_OpenDevice: lib.func(convention, 'ZCAN_OpenDevice', 'void *', ['uint', 'uint', 'uint']),
+    ZCAN_OpenDeviceByName: lib.func(convention, 'ZCAN_OpenDeviceByName', 'void *', ['uint', 'str']),
+    ZCAN_CloseDevice: lib.func(convention, 'ZCAN_CloseDevice', 'uint', ['void *']),
+    ZCAN_GetDeviceInf: lib.func(convention, 'ZCAN_GetDeviceInf', 'uint', ['void *', koffi.out(koffi.pointer(ZcanDeviceInfo))]),
+    ZCAN_GetDeviceInfoEx: lib.func(convention, 'ZCAN_GetDeviceInfoEx', 'uint', ['void *', koffi.out(koffi.pointer(ZcanDeviceInfoEx))]),
+    ZCAN_IsDeviceOnLine: lib.func(convention, 'ZCAN_IsDeviceOnLine', 'uint', ['void *']),
 
     // 通道管理
-    ZCAN_InitCAN: lib.func('__stdcall', 'ZCAN_InitCAN', 'void *', ['void *', 'uint', koffi.pointer(ZcanChannelInitConfig)]),
-    ZCAN_StartCAN: lib.func('__stdcall', 'ZCAN_StartCAN', 'uint', ['void *']),
-    ZCAN_ResetCAN: lib.func('__stdcall', 'ZCAN_ResetCAN', 'uint', ['void *']),
-    ZCAN_ClearBuffer: lib.func('__stdcall', 'ZCAN_ClearBuffer', 'uint', ['void *']),
-    ZCAN_ReadChannelErrInfo: lib.func('__stdcall', 'ZCAN_ReadChannelErrInfo', 'uint', ['void *', koffi.out(koffi.pointer(ZcanChannelErrInfo))]),
-    ZCAN_ReadChannelStatus: lib.func('__stdcall', 'ZCAN_ReadChannelStatus', 'uint', ['void *', koffi.out(koffi.pointer(ZcanChannelStatus))]),
-    ZCAN_GetReceiveNum: lib.func('__stdcall', 'ZCAN_GetReceiveNum', 'uint', ['void *', 'uint8']),
+    ZCAN_InitCAN: lib.func(convention, 'ZCAN_InitCAN', 'void *', ['void *', 'uint', koffi.pointer(ZcanChannelInitConfig)]),
+    ZCAN_StartCAN: lib.func(convention, 'ZCAN_StartCAN', 'uint', ['void *']),
+    ZCAN_ResetCAN: lib.func(convention, 'ZCAN_ResetCAN', 'uint', ['void *']),
+    ZCAN_ClearBuffer: lib.func(convention, 'ZCAN_ClearBuffer', 'uint', ['void *']),
+    ZCAN_ReadChannelErrInfo: lib.func(convention, 'ZCAN_ReadChannelErrInfo', 'uint', ['void *', koffi.out(koffi.pointer(ZcanChannelErrInfo))]),
+    ZCAN_ReadChannelStatus: lib.func(convention, 'ZCAN_ReadChannelStatus', 'uint', ['void *', koffi.out(koffi.pointer(ZcanChannelStatus))]),
+    ZCAN_GetReceiveNum: lib.func(convention, 'ZCAN_GetReceiveNum', 'uint', ['void *', 'uint8']),
 
     // 数据收发
-    ZCAN_Transmit: lib.func('__stdcall', 'ZCAN_Transmit', 'uint', ['void *', koffi.pointer(ZcanTransmitData), 'uint']),
-    ZCAN_Receive: lib.func('__stdcall', 'ZCAN_Receive', 'uint', ['void *', koffi.out(koffi.pointer(ZcanReceiveData)), 'uint', 'int']),
-    ZCAN_TransmitFD: lib.func('__stdcall', 'ZCAN_TransmitFD', 'uint', ['void *', koffi.pointer(ZcanTransmitFdData), 'uint']),
-    ZCAN_ReceiveFD: lib.func('__stdcall', 'ZCAN_ReceiveFD', 'uint', ['void *', koffi.out(koffi.pointer(ZcanReceiveFdData)), 'uint', 'int']),
+    ZCAN_Transmit: lib.func(convention, 'ZCAN_Transmit', 'uint', ['void *', koffi.pointer(ZcanTransmitData), 'uint']),
+    ZCAN_Receive: lib.func(convention, 'ZCAN_Receive', 'uint', ['void *', koffi.out(koffi.pointer(ZcanReceiveData)), 'uint', 'int']),
+    ZCAN_TransmitFD: lib.func(convention, 'ZCAN_TransmitFD', 'uint', ['void *', koffi.pointer(ZcanTransmitFdData), 'uint']),
+    ZCAN_ReceiveFD: lib.func(convention, 'ZCAN_ReceiveFD', 'uint', ['void *', koffi.out(koffi.pointer(ZcanReceiveFdData)), 'uint', 'int']),
+    ZCAN_TransmitData: lib.func(convention, 'ZCAN_TransmitData', 'uint', ['void *', koffi.pointer(ZcanDataObj), 'uint']),
+    ZCAN_ReceiveData: lib.func(convention, 'ZCAN_ReceiveData', 'uint', ['void *', koffi.out(koffi.pointer(ZcanDataObj)), 'uint', 'int']),
+
+    // LIN
+    ZCAN_InitLIN: lib.func(convention, 'ZCAN_InitLIN', 'void *', ['void *', 'uint', koffi.pointer(ZcanLinInitConfig)]),
+    ZCAN_StartLIN: lib.func(convention, 'ZCAN_StartLIN', 'uint', ['void *']),
+    ZCAN_ResetLIN: lib.func(convention, 'ZCAN_ResetLIN', 'uint', ['void *']),
+    ZCAN_TransmitLIN: lib.func(convention, 'ZCAN_TransmitLIN', 'uint', ['void *', koffi.pointer(ZcanLinMsg), 'uint']),
+    ZCAN_GetLINReceiveNum: lib.func(convention, 'ZCAN_GetLINReceiveNum', 'uint', ['void *']),
+    ZCAN_ReceiveLIN: lib.func(convention, 'ZCAN_ReceiveLIN', 'uint', ['void *', koffi.out(koffi.pointer(ZcanLinMsg)), 'uint', 'int']),
+    ZCAN_SetLINSubscribe: lib.func(convention, 'ZCAN_SetLINSubscribe', 'uint', ['void *', koffi.pointer(ZcanLinSubscribeCfg), 'uint']),
+    ZCAN_SetLINPublish: lib.func(convention, 'ZCAN_SetLINPublish', 'uint', ['void *', koffi.pointer(ZcanLinPublishCfg), 'uint']),
+    ZCAN_SetLINPublishEx: lib.func(convention, 'ZCAN_SetLINPublishEx', 'uint', ['void *', koffi.pointer(ZcanLinPublishCfgEx), 'uint']),
+    ZCAN_WakeUpLIN: lib.func(convention, 'ZCAN_WakeUpLIN', 'uint', ['void *']),
+
+    // UDS 诊断
+    ZCAN_UDS_Request: lib.func(convention, 'ZCAN_UDS_Request', 'uint', [
+      'void *',
+      koffi.pointer(ZcanUdsRequest),
+      koffi.out(koffi.pointer(ZcanUdsResponse)),
+      koffi.out(koffi.pointer(koffi.types.uint8)),
+      'uint',
+    ]),
+    ZCAN_UDS_Control: lib.func(convention, 'ZCAN_UDS_Control', 'uint', ['void *', koffi.pointer(ZcanUdsCtrlReq), koffi.out(koffi.pointer(ZcanUdsCtrlResp))]),
 
     // 配置
-    ZCAN_SetValue: lib.func('__stdcall', 'ZCAN_SetValue', 'uint', ['void *', 'str', 'void *']),
-    ZCAN_GetValue: lib.func('__stdcall', 'ZCAN_GetValue', 'void *', ['void *', 'str']),
+    ZCAN_SetValue: lib.func(convention, 'ZCAN_SetValue', 'uint', ['void *', 'str', 'void *']),
+    ZCAN_GetValue: lib.func(convention, 'ZCAN_GetValue', 'void *', ['void *', 'str']),
   };
 
   return functions;
 }
 
 /**
- * 检查当前平台是否支持
+ * 检查平台是否支持
+ * @param platform 系统平台，默认当前平台
+ * @param arch 系统架构，默认当前架构 (无法识别的架构视为不支持)
  */
-export function isPlatformSupported(): boolean {
-  return os.platform() === 'win32';
+export function isPlatformSupported(platform: string = os.platform(), arch: SystemArch | undefined = toSystemArch(os.arch())): boolean {
+  const archs = SUPPORTED_ARCHS[platform];
+  return archs !== undefined && arch !== undefined && archs.includes(arch);
 }
 
 /**
  * 获取当前系统架构
+ * @param nodeArch Node.js 架构名称，默认 os.arch()
+ * @throws {Error} 无法识别的架构 (如 ppc64、s390x) 抛出异常
  */
-export function getSystemArch(): 'x64' | 'x86' {
-  return os.arch() === 'x64' ? 'x64' : 'x86';
+export function getSystemArch(nodeArch: string = os.arch()): SystemArch {
+  const arch = toSystemArch(nodeArch);
+  if (!arch) {
+    throw new Error(`ZLG CAN driver does not support architecture ${nodeArch}`);
+  }
+  return arch;
+}
+
+function toSystemArch(nodeArch: string): SystemArch | undefined {
+  switch (nodeArch) {
+    case 'x64':
+      return 'x64';
+    case 'ia32':
+      return 'x86';
+    case 'arm64':
+      return 'arm64';
+    case 'arm':
+      return 'arm';
+    default:
+      return undefined;
+  }
 }
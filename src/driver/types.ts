@@ -6,7 +6,7 @@
  */
 
 import koffi from 'koffi';
-import { CAN_MAX_DLEN, CANFD_MAX_DLEN } from './constants';
+import { CAN_MAX_DLEN, CANFD_MAX_DLEN, ZCAN_DATA_OBJ_TYPE, LIN_MSG_DATA_TYPE } from './constants';
 
 // ============================================================================
 // 基础 CAN 帧结构体
@@ -282,6 +282,27 @@ export interface IZcanDeviceInfo {
   reserved: Uint16Array;
 }
 
+export interface IZcanVersion {
+  major_version: number;
+  minor_version: number;
+  patch_version: number;
+  reserved: number;
+}
+
+export interface IZcanDeviceInfoEx {
+  hardware_version: IZcanVersion;
+  firmware_version: IZcanVersion;
+  driver_version: IZcanVersion;
+  library_version: IZcanVersion;
+  device_name: Uint8Array;
+  hardware_type: Uint8Array;
+  serial_number: Uint8Array;
+  can_channel_number: number;
+  lin_channel_number: number;
+  reserved: Uint8Array;
+  device_info_version: IZcanVersion;
+}
+
 export interface IZcanChannelInitConfig {
   can_type: number;  // 0: CAN, 1: CANFD
   acc_code: number;
@@ -296,6 +317,24 @@ export interface IZcanChannelInitConfig {
   timing1?: number;
 }
 
+export interface IZcanChannelErrInfo {
+  error_code: number;                      // ZCAN_ERROR 中 CAN_* 错误位组合
+  passive_ErrData: number[] | Uint8Array;  // 消极错误数据 (ECC, REC, TEC)
+  arLost_ErrData: number;                  // 仲裁丢失数据 (ALC)
+}
+
+export interface IZcanChannelStatus {
+  errInterrupt: number;
+  regMode: number;
+  regStatus: number;
+  regALCapture: number;
+  regECCapture: number;
+  regEWLimit: number;
+  regRECounter: number;
+  regTECounter: number;
+  Reserved: number;
+}
+
 export interface IZcanTransmitData {
   frame: ICanFrame;
   transmit_type: number;
@@ -359,6 +398,504 @@ export interface IBusUsage {
   nFrameCount: number;                  // 帧数量
 }
 
+// ============================================================================
+// 合并收发结构体 (ZCAN_TransmitData / ZCAN_ReceiveData)
+// ============================================================================
+//
+// zlgcan.h 中以下结构体位于 #pragma pack(1) 区域，使用 koffi.pack 定义。
+// ZCANDataObj.data 为 union，由于 koffi 对 union 的支持限制，这里定义为 92 字节
+// 原始数据，由驱动按 dataType 选择成员结构体在偏移 ZCAN_DATA_OBJ_DATA_OFFSET 处编解码。
+
+/**
+ * CAN/CANFD 数据 (88 bytes)
+ * 对应 C 结构体 ZCANCANFDData
+ */
+export const ZcanCanfdData = koffi.pack('ZCANCANFDData', {
+  timeStamp: koffi.types.uint64,   // 时间戳 (us)；队列发送时为延时，单位由 flag.txDelay 决定
+  flag: koffi.types.uint32,        // 帧标志位 (见 ZCAN_DATA_FLAG)
+  extraData: koffi.array(koffi.types.uint8, 4),
+  frame: CanfdFrame,
+});
+
+/**
+ * 错误数据 (16 bytes)
+ * 对应 C 结构体 ZCANErrorData
+ */
+export const ZcanErrorData = koffi.pack('ZCANErrorData', {
+  timeStamp: koffi.types.uint64,   // 时间戳 (us)
+  errType: koffi.types.uint8,      // 错误类型 (见 ZCAN_ERR_TYPE)
+  errSubType: koffi.types.uint8,   // 错误子类型 (见 ZCAN_BUS_ERR)
+  nodeState: koffi.types.uint8,    // 节点状态 (见 ZCAN_NODE_STATE)
+  rxErrCount: koffi.types.uint8,   // 接收错误计数
+  txErrCount: koffi.types.uint8,   // 发送错误计数
+  errData: koffi.types.uint8,      // 错误数据
+  reserved: koffi.array(koffi.types.uint8, 2),
+});
+
+/**
+ * GPS UTC 时间
+ */
+export const ZcanGpsTime = koffi.pack('ZCANGPSTime', {
+  year: koffi.types.uint16,
+  mon: koffi.types.uint16,
+  day: koffi.types.uint16,
+  hour: koffi.types.uint16,
+  min: koffi.types.uint16,
+  sec: koffi.types.uint16,
+  milsec: koffi.types.uint16,
+});
+
+/**
+ * GPS 数据 (56 bytes)
+ * 对应 C 结构体 ZCANGPSData
+ */
+export const ZcanGpsData = koffi.pack('ZCANGPSData', {
+  time: ZcanGpsTime,
+  flag: koffi.types.uint16,        // bit0 时间有效，bit1 经纬度有效，bit2 海拔有效，bit3 速度有效，bit4 航向角有效
+  latitude: koffi.types.double,    // 纬度，正数北纬
+  longitude: koffi.types.double,   // 经度，正数东经
+  altitude: koffi.types.double,    // 海拔 (m)
+  speed: koffi.types.double,       // 速度 (km/h)
+  courseAngle: koffi.types.double, // 航向角
+});
+
+/**
+ * LIN 接收数据
+ */
+export const ZcanLinRxData = koffi.pack('ZCANLINRxData', {
+  timeStamp: koffi.types.uint64,   // 时间戳 (us)
+  dataLen: koffi.types.uint8,      // 数据长度
+  dir: koffi.types.uint8,          // 传输方向，0: 接收 1: 发送
+  chkSum: koffi.types.uint8,       // 校验和
+  reserved: koffi.array(koffi.types.uint8, 13),
+  data: koffi.array(koffi.types.uint8, 8),
+});
+
+/**
+ * LIN 数据 (40 bytes)
+ * 对应 C 结构体 ZCANLINData
+ */
+export const ZcanLinData = koffi.pack('ZCANLINData', {
+  PID: koffi.types.uint8,          // 受保护的 ID (bit0-5 ID，bit6-7 校验)
+  RxData: ZcanLinRxData,           // 仅接收数据时有效
+  reserved: koffi.array(koffi.types.uint8, 7),
+});
+
+/**
+ * LIN 错误数据 (32 bytes)
+ * 对应 C 结构体 ZCANLINErrData
+ */
+export const ZcanLinErrData = koffi.pack('ZCANLINErrData', {
+  timeStamp: koffi.types.uint64,   // 时间戳 (us)
+  PID: koffi.types.uint8,          // 受保护的 ID
+  dataLen: koffi.types.uint8,
+  data: koffi.array(koffi.types.uint8, 8),
+  errData: koffi.types.uint16,     // bit0-3 错误阶段，bit4-7 错误原因
+  dir: koffi.types.uint8,          // 传输方向
+  chkSum: koffi.types.uint8,       // 校验和
+  reserved: koffi.array(koffi.types.uint8, 10),
+});
+
+/**
+ * LIN 事件数据 (16 bytes)
+ * 对应 C 结构体 ZCANLINEventData
+ */
+export const ZcanLinEventData = koffi.pack('ZCANLINEventData', {
+  timeStamp: koffi.types.uint64,   // 时间戳 (us)
+  type: koffi.types.uint8,         // 事件类型 (见 ZCAN_LIN_EVENT)
+  reserved: koffi.array(koffi.types.uint8, 7),
+});
+
+/**
+ * LIN 扩展接收数据
+ */
+export const ZcanLinExRxData = koffi.pack('ZCANLINExRxData', {
+  timeStamp: koffi.types.uint64,   // 时间戳 (us)
+  dataLen: koffi.types.uint8,      // 数据长度
+  dir: koffi.types.uint8,          // 传输方向，0: 接收 1: 发送
+  chkSum: koffi.types.uint8,       // 校验和
+  reserved: koffi.array(koffi.types.uint8, 5),
+  data: koffi.array(koffi.types.uint8, 64),
+});
+
+/**
+ * LIN 扩展数据 (88 bytes)
+ * 对应 C 结构体 ZCANLINExData
+ */
+export const ZcanLinExData = koffi.pack('ZCANLINExData', {
+  PID: koffi.types.uint8,          // 受保护的 ID
+  reserved: koffi.array(koffi.types.uint8, 7),
+  RxData: ZcanLinExRxData,         // 仅接收数据时有效
+});
+
+/**
+ * ZCANDataObj.data 在结构体中的偏移
+ */
+export const ZCAN_DATA_OBJ_DATA_OFFSET = 8;
+
+/**
+ * 合并收发数据结构体 (100 bytes)
+ * 对应 C 结构体 ZCANDataObj
+ */
+export const ZcanDataObj = koffi.pack('ZCANDataObj', {
+  dataType: koffi.types.uint8,     // 数据类型 (见 ZCAN_DATA_OBJ_TYPE)
+  chnl: koffi.types.uint8,         // 数据通道
+  flag: koffi.types.uint16,        // 标志信息，暂未使用
+  extraData: koffi.array(koffi.types.uint8, 4),
+  data: koffi.array(koffi.types.uint8, 92),  // union 原始数据
+});
+
+export interface IZcanCanfdData {
+  timeStamp: bigint | number;
+  flag: number;
+  extraData?: number[] | Uint8Array;
+  frame: ICanfdFrame;
+}
+
+export interface IZcanErrorData {
+  timeStamp: bigint | number;
+  errType: number;
+  errSubType: number;
+  nodeState: number;
+  rxErrCount: number;
+  txErrCount: number;
+  errData: number;
+  reserved?: number[] | Uint8Array;
+}
+
+export interface IZcanGpsData {
+  time: {
+    year: number;
+    mon: number;
+    day: number;
+    hour: number;
+    min: number;
+    sec: number;
+    milsec: number;
+  };
+  flag: number;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  speed: number;
+  courseAngle: number;
+}
+
+export interface IZcanLinData {
+  PID: number;
+  RxData: {
+    timeStamp: bigint | number;
+    dataLen: number;
+    dir: number;
+    chkSum: number;
+    reserved?: number[] | Uint8Array;
+    data: number[] | Uint8Array;
+  };
+  reserved?: number[] | Uint8Array;
+}
+
+export interface IZcanLinErrData {
+  timeStamp: bigint | number;
+  PID: number;
+  dataLen: number;
+  data: number[] | Uint8Array;
+  errData: number;
+  dir: number;
+  chkSum: number;
+  reserved?: number[] | Uint8Array;
+}
+
+export interface IZcanLinEventData {
+  timeStamp: bigint | number;
+  type: number;
+  reserved?: number[] | Uint8Array;
+}
+
+export interface IZcanLinExData {
+  PID: number;
+  reserved?: number[] | Uint8Array;
+  RxData: {
+    timeStamp: bigint | number;
+    dataLen: number;
+    dir: number;
+    chkSum: number;
+    reserved?: number[] | Uint8Array;
+    data: number[] | Uint8Array;
+  };
+}
+
+interface IZcanDataObjBase {
+  chnl: number;
+  flag?: number;
+}
+
+/**
+ * 合并收发数据，按 dataType 区分 data 的类型
+ */
+export type IZcanDataObj =
+  | (IZcanDataObjBase & { dataType: typeof ZCAN_DATA_OBJ_TYPE.CAN_CANFD; data: IZcanCanfdData })
+  | (IZcanDataObjBase & { dataType: typeof ZCAN_DATA_OBJ_TYPE.ERROR; data: IZcanErrorData })
+  | (IZcanDataObjBase & { dataType: typeof ZCAN_DATA_OBJ_TYPE.GPS; data: IZcanGpsData })
+  | (IZcanDataObjBase & { dataType: typeof ZCAN_DATA_OBJ_TYPE.LIN; data: IZcanLinData })
+  | (IZcanDataObjBase & { dataType: typeof ZCAN_DATA_OBJ_TYPE.BUS_USAGE; data: IBusUsage })
+  | (IZcanDataObjBase & { dataType: typeof ZCAN_DATA_OBJ_TYPE.LIN_ERROR; data: IZcanLinErrData })
+  | (IZcanDataObjBase & { dataType: typeof ZCAN_DATA_OBJ_TYPE.LIN_EX; data: IZcanLinExData })
+  | (IZcanDataObjBase & { dataType: typeof ZCAN_DATA_OBJ_TYPE.LIN_EVENT; data: IZcanLinEventData });
+
+// ============================================================================
+// LIN 结构体
+// ============================================================================
+//
+// ZCAN_LIN_MSG.data 与 ZCANDataObj.data 一样为 union，这里定义为 46 字节原始数据，
+// 由驱动按 dataType 选择 ZcanLinData / ZcanLinErrData / ZcanLinEventData 编解码。
+
+/**
+ * ZCAN_LIN_MSG.data 在结构体中的偏移
+ */
+export const ZCAN_LIN_MSG_DATA_OFFSET = 2;
+
+/**
+ * LIN 报文 (48 bytes)
+ * 对应 C 结构体 ZCAN_LIN_MSG
+ */
+export const ZcanLinMsg = koffi.pack('ZCAN_LIN_MSG', {
+  chnl: koffi.types.uint8,         // 数据通道
+  dataType: koffi.types.uint8,     // 数据类型 (见 LIN_MSG_DATA_TYPE)
+  data: koffi.array(koffi.types.uint8, 46),  // union 原始数据
+});
+
+/**
+ * LIN 通道初始化配置 (8 bytes)
+ * 对应 C 结构体 ZCAN_LIN_INIT_CONFIG
+ */
+export const ZcanLinInitConfig = koffi.pack('ZCAN_LIN_INIT_CONFIG', {
+  linMode: koffi.types.uint8,      // 0: 从机 1: 主机 (见 LIN_MODE)
+  chkSumMode: koffi.types.uint8,   // 校验方式 (见 LIN_CHECKSUM_MODE)
+  maxLength: koffi.types.uint8,    // 最大数据长度，8~64
+  reserved: koffi.types.uint8,
+  linBaud: koffi.types.uint32,     // 波特率，1000~20000
+});
+
+/**
+ * LIN 发布配置 (16 bytes)
+ * 对应 C 结构体 ZCAN_LIN_PUBLISH_CFG
+ */
+export const ZcanLinPublishCfg = koffi.pack('ZCAN_LIN_PUBLISH_CFG', {
+  ID: koffi.types.uint8,           // 帧 ID (0-63)
+  dataLen: koffi.types.uint8,      // 数据长度，1-8
+  data: koffi.array(koffi.types.uint8, 8),
+  chkSumMode: koffi.types.uint8,   // 校验方式 (见 LIN_CHECKSUM_MODE)
+  reserved: koffi.array(koffi.types.uint8, 5),
+});
+
+/**
+ * LIN 扩展发布配置 (72 bytes)
+ * 对应 C 结构体 ZCAN_LIN_PUBLISH_CFG_EX
+ */
+export const ZcanLinPublishCfgEx = koffi.pack('ZCAN_LIN_PUBLISH_CFG_EX', {
+  ID: koffi.types.uint8,           // 帧 ID (0-63)
+  dataLen: koffi.types.uint8,      // 数据长度，1-64
+  data: koffi.array(koffi.types.uint8, 64),
+  chkSumMode: koffi.types.uint8,   // 校验方式 (见 LIN_CHECKSUM_MODE)
+  reserved: koffi.array(koffi.types.uint8, 5),
+});
+
+/**
+ * LIN 订阅配置 (8 bytes)
+ * 对应 C 结构体 ZCAN_LIN_SUBSCIBE_CFG
+ */
+export const ZcanLinSubscribeCfg = koffi.pack('ZCAN_LIN_SUBSCIBE_CFG', {
+  ID: koffi.types.uint8,           // 帧 ID (0-63)
+  dataLen: koffi.types.uint8,      // 数据长度，1-8；0xFF 表示自动识别
+  chkSumMode: koffi.types.uint8,   // 校验方式 (见 LIN_CHECKSUM_MODE)
+  reserved: koffi.array(koffi.types.uint8, 5),
+});
+
+export interface IZcanLinInitConfig {
+  linMode: number;
+  chkSumMode: number;
+  maxLength: number;
+  reserved?: number;
+  linBaud: number;
+}
+
+export interface IZcanLinPublishCfg {
+  ID: number;
+  dataLen: number;
+  data: number[] | Uint8Array;
+  chkSumMode: number;
+  reserved?: number[] | Uint8Array;
+}
+
+export interface IZcanLinSubscribeCfg {
+  ID: number;
+  dataLen: number;
+  chkSumMode: number;
+  reserved?: number[] | Uint8Array;
+}
+
+interface IZcanLinMsgBase {
+  chnl: number;
+}
+
+/**
+ * LIN 报文，按 dataType 区分 data 的类型
+ */
+export type IZcanLinMsg =
+  | (IZcanLinMsgBase & { dataType: typeof LIN_MSG_DATA_TYPE.DATA; data: IZcanLinData })
+  | (IZcanLinMsgBase & { dataType: typeof LIN_MSG_DATA_TYPE.ERROR; data: IZcanLinErrData })
+  | (IZcanLinMsgBase & { dataType: typeof LIN_MSG_DATA_TYPE.EVENT; data: IZcanLinEventData });
+
+// ============================================================================
+// UDS 诊断结构体 (ZCAN_UDS_Request / ZCAN_UDS_Control)
+// ============================================================================
+//
+// ZCAN_UDS_RESPONSE 中积极/消极响应为 union，这里定义为 8 字节原始数据，
+// 由驱动在偏移 ZCAN_UDS_RESPONSE_DATA_OFFSET 处按两种成员结构体解码。
+
+/**
+ * UDS 会话层参数 (16 bytes)
+ */
+export const ZcanUdsSessionParam = koffi.pack('ZCAN_UDS_SESSION_PARAM', {
+  timeout: koffi.types.uint32,           // 响应超时时间 (ms)，建议不小于 200ms
+  enhanced_timeout: koffi.types.uint32,  // 收到 NRC 0x78 后的超时时间 (ms)，建议不小于 200ms
+  flag: koffi.types.uint8,               // 标志位 (见 ZCAN_UDS_SESSION_FLAG)
+  reserved0: koffi.array(koffi.types.uint8, 7),
+});
+
+/**
+ * UDS 传输层参数 (16 bytes)
+ */
+export const ZcanUdsTransParam = koffi.pack('ZCAN_UDS_TRANS_PARAM', {
+  version: koffi.types.uint8,               // 传输协议版本 (见 ZCAN_UDS_TRANS_VER)
+  max_data_len: koffi.types.uint8,          // 单帧最大数据长度，CAN: 8，CANFD: 64
+  local_st_min: koffi.types.uint8,          // 本机发送流控帧中的 STmin
+  block_size: koffi.types.uint8,            // 流控帧的块大小
+  fill_byte: koffi.types.uint8,             // 无效字节的填充数据
+  ext_frame: koffi.types.uint8,             // 0: 标准帧 1: 扩展帧
+  is_modify_ecu_st_min: koffi.types.uint8,  // 是否忽略 ECU 流控帧中的 STmin，强制使用 remote_st_min
+  remote_st_min: koffi.types.uint8,         // 发送多帧时使用的 STmin
+  fc_timeout: koffi.types.uint32,           // 接收流控超时时间 (ms)
+  fill_mode: koffi.types.uint8,             // 数据长度填充模式 (见 ZCAN_UDS_FILL_MODE)
+  reserved0: koffi.array(koffi.types.uint8, 3),
+});
+
+/**
+ * CAN UDS 请求
+ * 对应 C 结构体 ZCAN_UDS_REQUEST
+ */
+export const ZcanUdsRequest = koffi.pack('ZCAN_UDS_REQUEST', {
+  req_id: koffi.types.uint32,             // 请求事务 ID (0~65535)
+  channel: koffi.types.uint8,             // 设备通道索引
+  frame_type: koffi.types.uint8,          // 帧类型 (见 ZCAN_UDS_FRAME_TYPE)
+  reserved0: koffi.array(koffi.types.uint8, 2),
+  src_addr: koffi.types.uint32,           // 请求地址
+  dst_addr: koffi.types.uint32,           // 响应地址
+  suppress_response: koffi.types.uint8,   // 1: 抑制积极响应
+  sid: koffi.types.uint8,                 // 请求服务 ID
+  reserved1: koffi.array(koffi.types.uint8, 6),
+  session_param: ZcanUdsSessionParam,
+  trans_param: ZcanUdsTransParam,
+  data: koffi.pointer(koffi.types.uint8), // 数据 (不包含 SID)
+  data_len: koffi.types.uint32,
+  reserved2: koffi.types.uint32,
+});
+
+/**
+ * ZCAN_UDS_RESPONSE 中 union 的偏移
+ */
+export const ZCAN_UDS_RESPONSE_DATA_OFFSET = 8;
+
+/**
+ * UDS 响应 (16 bytes)
+ * 对应 C 结构体 ZCAN_UDS_RESPONSE
+ */
+export const ZcanUdsResponse = koffi.pack('ZCAN_UDS_RESPONSE', {
+  status: koffi.types.uint8,    // 请求状态 (见 ZCAN_UDS_ERROR)
+  reserved: koffi.array(koffi.types.uint8, 6),
+  type: koffi.types.uint8,      // 响应类型 (见 ZCAN_UDS_RESPONSE_TYPE)
+  raw: koffi.array(koffi.types.uint8, 8),  // union 原始数据
+});
+
+/**
+ * 积极响应 (ZCAN_UDS_RESPONSE.positive)
+ */
+export const ZcanUdsPositiveResponse = koffi.pack('ZCAN_UDS_POSITIVE_RESPONSE', {
+  sid: koffi.types.uint8,       // 响应服务 ID
+  data_len: koffi.types.uint32, // 数据长度 (不包含 SID)
+});
+
+/**
+ * 消极响应 (ZCAN_UDS_RESPONSE.negative)
+ */
+export const ZcanUdsNegativeResponse = koffi.pack('ZCAN_UDS_NEGATIVE_RESPONSE', {
+  neg_code: koffi.types.uint8,   // 固定为 0x7F
+  sid: koffi.types.uint8,        // 请求服务 ID
+  error_code: koffi.types.uint8, // 否定响应码 (NRC)
+});
+
+/**
+ * UDS 控制请求 (16 bytes)
+ * 对应 C 结构体 ZCAN_UDS_CTRL_REQ
+ */
+export const ZcanUdsCtrlReq = koffi.pack('ZCAN_UDS_CTRL_REQ', {
+  reqID: koffi.types.uint32,    // 请求事务 ID
+  cmd: koffi.types.uint32,      // 控制类型 (见 ZCAN_UDS_CTRL_CODE)
+  reserved: koffi.array(koffi.types.uint8, 8),
+});
+
+/**
+ * UDS 控制响应 (16 bytes)
+ * 对应 C 结构体 ZCAN_UDS_CTRL_RESP
+ */
+export const ZcanUdsCtrlResp = koffi.pack('ZCAN_UDS_CTRL_RESP', {
+  result: koffi.types.uint32,   // 操作结果 (见 ZCAN_UDS_CTRL_RESULT)
+  reserved: koffi.array(koffi.types.uint8, 12),
+});
+
+export interface IZcanUdsRequest {
+  req_id: number;
+  channel: number;
+  frame_type: number;
+  src_addr: number;
+  dst_addr: number;
+  suppress_response: number;
+  sid: number;
+  session_param: {
+    timeout: number;
+    enhanced_timeout: number;
+    flag: number;
+  };
+  trans_param: {
+    version: number;
+    max_data_len: number;
+    local_st_min: number;
+    block_size: number;
+    fill_byte: number;
+    ext_frame: number;
+    is_modify_ecu_st_min: number;
+    remote_st_min: number;
+    fc_timeout: number;
+    fill_mode: number;
+  };
+  /** 数据 (不包含 SID)，由驱动复制到原生内存并填写 data_len */
+  data: number[] | Uint8Array;
+}
+
+export interface IZcanUdsResponse {
+  status: number;
+  type: number;
+  positive: {
+    sid: number;
+    data_len: number;
+  };
+  negative: {
+    neg_code: number;
+    sid: number;
+    error_code: number;
+  };
+}
+
 // ============================================================================
 // 动态配置结构体
 // ============================================================================
@@ -6,3 +6,4 @@
 
 export * from './driver';
 export * from './device';
+export * from './protocol';
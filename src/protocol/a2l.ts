@@ -0,0 +1,515 @@
+/**
+ * A2L 文件解析器 (ASAM MCD-2 MC)
+ * 解析测量量、标定量、转换方法和记录布局，按名称提供地址、数据类型和物理值转换
+ */
+
+import { ZlgCanError } from '../driver';
+import { XcpByteOrder, XcpDataType, isXcpDataType } from './xcp';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 转换方法 (COMPU_METHOD)
+ */
+export interface A2lCompuMethod {
+  /** 名称 */
+  name: string;
+  /** 描述 */
+  description: string;
+  /** 转换类型 (IDENTICAL、LINEAR、RAT_FUNC、TAB_VERB 等) */
+  type: string;
+  /** 显示格式 (如 "%6.2") */
+  format: string;
+  /** 单位 */
+  unit: string;
+  /** RAT_FUNC 系数 a-f：raw = (a·x² + b·x + c) / (d·x² + e·x + f) */
+  coeffs?: number[];
+  /** LINEAR 系数 a、b：phys = a·raw + b */
+  coeffsLinear?: [number, number];
+  /** TAB_VERB 值表 (原始值 → 文本) */
+  table?: Map<number, string>;
+}
+
+/**
+ * 测量量 (MEASUREMENT)
+ */
+export interface A2lMeasurement {
+  /** 名称 */
+  name: string;
+  /** 描述 */
+  description: string;
+  /** 数据类型 */
+  dataType: XcpDataType;
+  /** 转换方法名称 (NO_COMPU_METHOD 表示原始值) */
+  conversion: string;
+  /** 物理值下限 */
+  lowerLimit: number;
+  /** 物理值上限 */
+  upperLimit: number;
+  /** ECU 地址 */
+  address: number;
+  /** 地址扩展，默认 0 */
+  addressExtension: number;
+  /** 字节序，省略时使用模块默认字节序 */
+  byteOrder?: XcpByteOrder;
+  /** 数组长度 (ARRAY_SIZE 或 MATRIX_DIM 各维之积)，默认 1 */
+  arraySize: number;
+}
+
+/**
+ * 标定量 (CHARACTERISTIC)
+ */
+export interface A2lCharacteristic {
+  /** 名称 */
+  name: string;
+  /** 描述 */
+  description: string;
+  /** 类型 (VALUE、VAL_BLK、ASCII、CURVE、MAP 等) */
+  type: string;
+  /** ECU 地址 */
+  address: number;
+  /** 地址扩展，默认 0 */
+  addressExtension: number;
+  /** 记录布局名称 */
+  recordLayout: string;
+  /** 数据类型 (记录布局的 FNC_VALUES) */
+  dataType: XcpDataType;
+  /** 转换方法名称 */
+  conversion: string;
+  /** 物理值下限 */
+  lowerLimit: number;
+  /** 物理值上限 */
+  upperLimit: number;
+  /** 字节序，省略时使用模块默认字节序 */
+  byteOrder?: XcpByteOrder;
+  /** 元素数量 (VAL_BLK 和 ASCII 的 NUMBER 或 MATRIX_DIM)，默认 1 */
+  count: number;
+}
+
+/**
+ * A2L 数据库
+ */
+export interface A2lDatabase {
+  /** 项目名称 */
+  project: string;
+  /** 模块名称 (多个模块时为第一个) */
+  module: string;
+  /** 默认字节序 (MOD_COMMON BYTE_ORDER)，默认 intel */
+  byteOrder: XcpByteOrder;
+  /** 测量量 (名称 → 定义) */
+  measurements: Map<string, A2lMeasurement>;
+  /** 标定量 (名称 → 定义) */
+  characteristics: Map<string, A2lCharacteristic>;
+  /** 转换方法 (名称 → 定义) */
+  compuMethods: Map<string, A2lCompuMethod>;
+  /** 记录布局 (名称 → FNC_VALUES 数据类型) */
+  recordLayouts: Map<string, XcpDataType>;
+}
+
+// ============================================================================
+// 词法和块结构
+// ============================================================================
+
+interface A2lToken {
+  type: 'word' | 'string';
+  text: string;
+  line: number;
+}
+
+interface A2lBlock {
+  keyword: string;
+  line: number;
+  /** 块内按顺序出现的词和子块 */
+  items: (A2lToken | A2lBlock)[];
+}
+
+function isBlock(item: A2lToken | A2lBlock): item is A2lBlock {
+  return 'keyword' in item;
+}
+
+function fail(line: number, message: string): never {
+  throw new ZlgCanError('parseA2l', undefined, `第 ${line} 行${message}`);
+}
+
+function tokenize(text: string): A2lToken[] {
+  const tokens: A2lToken[] = [];
+  let line = 1;
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    if (c === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(c)) {
+      i++;
+    } else if (c === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      if (end < 0) {
+        fail(line, '注释未结束');
+      }
+      line += text.slice(i, end).split('\n').length - 1;
+      i = end + 2;
+    } else if (c === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') {
+        i++;
+      }
+    } else if (c === '"') {
+      const start = line;
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          i++;
+        }
+        if (text[i] === '\n') {
+          line++;
+        }
+        value += text[i++];
+      }
+      if (i >= text.length) {
+        fail(start, '字符串未结束');
+      }
+      i++;
+      tokens.push({ type: 'string', text: value, line: start });
+    } else {
+      const start = i;
+      while (i < text.length && !/\s/.test(text[i]) && text[i] !== '"') {
+        i++;
+      }
+      tokens.push({ type: 'word', text: text.slice(start, i), line });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 将词序列组织为 /begin ... /end 块
+ */
+function buildBlocks(tokens: A2lToken[]): A2lBlock {
+  const root: A2lBlock = { keyword: '', line: 1, items: [] };
+  const stack: A2lBlock[] = [root];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'word' && (token.text === '/begin' || token.text === '/end')) {
+      const keyword = tokens[++i];
+      if (!keyword || keyword.type !== 'word') {
+        fail(token.line, `${token.text} 之后缺少关键字`);
+      }
+      if (token.text === '/begin') {
+        const block: A2lBlock = { keyword: keyword.text, line: token.line, items: [] };
+        stack[stack.length - 1].items.push(block);
+        stack.push(block);
+      } else {
+        const block = stack.pop()!;
+        if (block === root || block.keyword !== keyword.text) {
+          fail(token.line, `/end ${keyword.text} 与 /begin ${block.keyword || '(无)'} 不匹配`);
+        }
+      }
+    } else {
+      stack[stack.length - 1].items.push(token);
+    }
+  }
+  if (stack.length > 1) {
+    const open = stack[stack.length - 1];
+    fail(open.line, `/begin ${open.keyword} 未结束`);
+  }
+  return root;
+}
+
+// ============================================================================
+// 解析
+// ============================================================================
+
+/**
+ * 块的参数访问
+ */
+class BlockReader {
+  readonly words: A2lToken[];
+
+  constructor(readonly block: A2lBlock) {
+    this.words = block.items.filter((item): item is A2lToken => !isBlock(item));
+  }
+
+  text(index: number, name: string): string {
+    const token = this.words[index];
+    if (!token) {
+      fail(this.block.line, ` ${this.block.keyword} 缺少参数 ${name}`);
+    }
+    return token.text;
+  }
+
+  number(index: number, name: string): number {
+    const text = this.text(index, name);
+    const value = Number(text);
+    if (Number.isNaN(value)) {
+      fail(this.words[index].line, ` ${this.block.keyword} 的 ${name} 不是数字: ${text}`);
+    }
+    return value;
+  }
+
+  dataType(index: number, name: string): XcpDataType {
+    const text = this.text(index, name);
+    if (!isXcpDataType(text)) {
+      fail(this.words[index].line, `不支持的数据类型: ${text}`);
+    }
+    return text;
+  }
+
+  /**
+   * 可选关键字之后的参数
+   * @param from 必选参数数量，从其后开始查找
+   */
+  option(keyword: string, from: number, count: number = 1): string[] | undefined {
+    for (let i = from; i < this.words.length; i++) {
+      if (this.words[i].type === 'word' && this.words[i].text === keyword) {
+        return this.words.slice(i + 1, i + 1 + count).map((token) => token.text);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 可选关键字之后的全部数字参数 (直到下一个非数字)
+   */
+  numbers(keyword: string, from: number): number[] | undefined {
+    for (let i = from; i < this.words.length; i++) {
+      if (this.words[i].type === 'word' && this.words[i].text === keyword) {
+        const values: number[] = [];
+        for (let j = i + 1; j < this.words.length && !Number.isNaN(Number(this.words[j].text)); j++) {
+          values.push(Number(this.words[j].text));
+        }
+        return values;
+      }
+    }
+    return undefined;
+  }
+
+  byteOrder(from: number): XcpByteOrder | undefined {
+    const value = this.option('BYTE_ORDER', from)?.[0];
+    if (value === undefined) {
+      return undefined;
+    }
+    return value === 'MSB_FIRST' || value === 'BIG_ENDIAN' ? 'motorola' : 'intel';
+  }
+
+  children(keyword: string): A2lBlock[] {
+    return this.block.items.filter((item): item is A2lBlock => isBlock(item) && item.keyword === keyword);
+  }
+}
+
+function collect(block: A2lBlock, keyword: string, found: A2lBlock[] = []): A2lBlock[] {
+  for (const item of block.items) {
+    if (isBlock(item)) {
+      if (item.keyword === keyword) {
+        found.push(item);
+      } else {
+        collect(item, keyword, found);
+      }
+    }
+  }
+  return found;
+}
+
+function parseCompuMethod(block: A2lBlock, vtabs: Map<string, Map<number, string>>): A2lCompuMethod {
+  const reader = new BlockReader(block);
+  const method: A2lCompuMethod = {
+    name: reader.text(0, 'Name'),
+    description: reader.text(1, 'LongIdentifier'),
+    type: reader.text(2, 'ConversionType'),
+    format: reader.text(3, 'Format'),
+    unit: reader.text(4, 'Unit'),
+  };
+  const coeffs = reader.numbers('COEFFS', 5);
+  if (coeffs) {
+    if (coeffs.length !== 6) {
+      fail(block.line, ` COMPU_METHOD ${method.name} 的 COEFFS 需要 6 个系数`);
+    }
+    method.coeffs = coeffs;
+  }
+  const linear = reader.numbers('COEFFS_LINEAR', 5);
+  if (linear) {
+    if (linear.length !== 2) {
+      fail(block.line, ` COMPU_METHOD ${method.name} 的 COEFFS_LINEAR 需要 2 个系数`);
+    }
+    method.coeffsLinear = [linear[0], linear[1]];
+  }
+  const table = reader.option('COMPU_TAB_REF', 5)?.[0];
+  if (table !== undefined) {
+    method.table = vtabs.get(table);
+  }
+  return method;
+}
+
+function parseVtab(block: A2lBlock): [string, Map<number, string>] {
+  const reader = new BlockReader(block);
+  const count = reader.number(3, 'NumberValuePairs');
+  const table = new Map<number, string>();
+  for (let i = 0; i < count; i++) {
+    table.set(reader.number(4 + i * 2, 'InVal'), reader.text(5 + i * 2, 'OutVal'));
+  }
+  return [reader.text(0, 'Name'), table];
+}
+
+function parseMeasurement(block: A2lBlock): A2lMeasurement {
+  const reader = new BlockReader(block);
+  const address = reader.option('ECU_ADDRESS', 8)?.[0];
+  const arraySize = reader.option('ARRAY_SIZE', 8)?.[0];
+  const matrix = reader.numbers('MATRIX_DIM', 8);
+  const measurement: A2lMeasurement = {
+    name: reader.text(0, 'Name'),
+    description: reader.text(1, 'LongIdentifier'),
+    dataType: reader.dataType(2, 'Datatype'),
+    conversion: reader.text(3, 'Conversion'),
+    lowerLimit: reader.number(6, 'LowerLimit'),
+    upperLimit: reader.number(7, 'UpperLimit'),
+    address: address === undefined ? 0 : Number(address),
+    addressExtension: Number(reader.option('ECU_ADDRESS_EXTENSION', 8)?.[0] ?? 0),
+    arraySize: matrix?.length ? matrix.reduce((a, b) => a * b, 1) : Number(arraySize ?? 1),
+  };
+  const byteOrder = reader.byteOrder(8);
+  if (byteOrder) {
+    measurement.byteOrder = byteOrder;
+  }
+  return measurement;
+}
+
+function parseCharacteristic(block: A2lBlock, recordLayouts: Map<string, XcpDataType>): A2lCharacteristic {
+  const reader = new BlockReader(block);
+  const recordLayout = reader.text(4, 'Deposit');
+  const dataType = recordLayouts.get(recordLayout);
+  if (!dataType) {
+    fail(block.line, ` CHARACTERISTIC ${reader.text(0, 'Name')} 引用了未定义的记录布局 ${recordLayout}`);
+  }
+  const matrix = reader.numbers('MATRIX_DIM', 9);
+  const number = reader.option('NUMBER', 9)?.[0];
+  const characteristic: A2lCharacteristic = {
+    name: reader.text(0, 'Name'),
+    description: reader.text(1, 'LongIdentifier'),
+    type: reader.text(2, 'Type'),
+    address: reader.number(3, 'Address'),
+    addressExtension: Number(reader.option('ECU_ADDRESS_EXTENSION', 9)?.[0] ?? 0),
+    recordLayout,
+    dataType,
+    conversion: reader.text(6, 'Conversion'),
+    lowerLimit: reader.number(7, 'LowerLimit'),
+    upperLimit: reader.number(8, 'UpperLimit'),
+    count: matrix?.length ? matrix.reduce((a, b) => a * b, 1) : Number(number ?? 1),
+  };
+  const byteOrder = reader.byteOrder(9);
+  if (byteOrder) {
+    characteristic.byteOrder = byteOrder;
+  }
+  return characteristic;
+}
+
+/**
+ * 解析 A2L 文件
+ *
+ * 仅解析测量和标定所需的 MEASUREMENT、CHARACTERISTIC、COMPU_METHOD、COMPU_VTAB、
+ * RECORD_LAYOUT 和 MOD_COMMON，其它块 (含 IF_DATA) 被跳过；不支持 /include
+ * @param content 文件内容 (Buffer 按 latin1 解码)
+ * @throws {ZlgCanError} 语法错误时抛出异常，消息包含行号
+ */
+export function parseA2l(content: string | Buffer): A2lDatabase {
+  const text = typeof content === 'string' ? content : content.toString('latin1');
+  const root = buildBlocks(tokenize(text));
+
+  const recordLayouts = new Map<string, XcpDataType>();
+  for (const block of collect(root, 'RECORD_LAYOUT')) {
+    const reader = new BlockReader(block);
+    const index = reader.words.findIndex((token) => token.text === 'FNC_VALUES');
+    if (index > 0) {
+      recordLayouts.set(reader.text(0, 'Name'), reader.dataType(index + 2, 'FNC_VALUES Datatype'));
+    }
+  }
+
+  const vtabs = new Map(collect(root, 'COMPU_VTAB').map(parseVtab));
+  const compuMethods = new Map<string, A2lCompuMethod>();
+  for (const block of collect(root, 'COMPU_METHOD')) {
+    const method = parseCompuMethod(block, vtabs);
+    compuMethods.set(method.name, method);
+  }
+
+  const measurements = new Map<string, A2lMeasurement>();
+  for (const block of collect(root, 'MEASUREMENT')) {
+    const measurement = parseMeasurement(block);
+    measurements.set(measurement.name, measurement);
+  }
+
+  const characteristics = new Map<string, A2lCharacteristic>();
+  for (const block of collect(root, 'CHARACTERISTIC')) {
+    const characteristic = parseCharacteristic(block, recordLayouts);
+    characteristics.set(characteristic.name, characteristic);
+  }
+
+  const [project] = collect(root, 'PROJECT');
+  const [module] = collect(root, 'MODULE');
+  const [modCommon] = collect(root, 'MOD_COMMON');
+  return {
+    project: project ? new BlockReader(project).text(0, 'Name') : '',
+    module: module ? new BlockReader(module).text(0, 'Name') : '',
+    byteOrder: (modCommon && new BlockReader(modCommon).byteOrder(1)) || 'intel',
+    measurements,
+    characteristics,
+    compuMethods,
+    recordLayouts,
+  };
+}
+
+// ============================================================================
+// 物理值转换
+// ============================================================================
+
+/**
+ * 原始值转换为物理值
+ * @param method 转换方法，省略 (NO_COMPU_METHOD) 时返回原始值
+ * @throws {ZlgCanError} 不支持的转换类型或二次 RAT_FUNC 时抛出异常
+ */
+export function a2lToPhysical(method: A2lCompuMethod | undefined, raw: number): number {
+  if (!method || method.type === 'IDENTICAL' || method.type === 'TAB_VERB' || method.type === 'TAB_INTP' || method.type === 'TAB_NOINTP') {
+    return raw;
+  }
+  if (method.type === 'LINEAR' && method.coeffsLinear) {
+    const [a, b] = method.coeffsLinear;
+    return a * raw + b;
+  }
+  if (method.type === 'RAT_FUNC' && method.coeffs) {
+    const [a, b, c, d, e, f] = method.coeffs;
+    if (a !== 0 || d !== 0) {
+      throw new ZlgCanError('a2lToPhysical', undefined, `转换方法 ${method.name} 为二次 RAT_FUNC，无法求逆`);
+    }
+    // raw = (b·x + c) / (e·x + f)  =>  x = (f·raw - c) / (b - e·raw)
+    return (f * raw - c) / (b - e * raw);
+  }
+  throw new ZlgCanError('a2lToPhysical', undefined, `不支持的转换方法 ${method.name} (${method.type})`);
+}
+
+/**
+ * 物理值转换为原始值 (未取整)
+ * @param method 转换方法，省略 (NO_COMPU_METHOD) 时返回物理值
+ * @throws {ZlgCanError} 不支持的转换类型时抛出异常
+ */
+export function a2lToRaw(method: A2lCompuMethod | undefined, physical: number): number {
+  if (!method || method.type === 'IDENTICAL' || method.type === 'TAB_VERB' || method.type === 'TAB_INTP' || method.type === 'TAB_NOINTP') {
+    return physical;
+  }
+  if (method.type === 'LINEAR' && method.coeffsLinear) {
+    const [a, b] = method.coeffsLinear;
+    return (physical - b) / a;
+  }
+  if (method.type === 'RAT_FUNC' && method.coeffs) {
+    const [a, b, c, d, e, f] = method.coeffs;
+    const x = physical;
+    return (a * x * x + b * x + c) / (d * x * x + e * x + f);
+  }
+  throw new ZlgCanError('a2lToRaw', undefined, `不支持的转换方法 ${method.name} (${method.type})`);
+}
+
+/**
+ * TAB_VERB 转换方法的原始值文本
+ */
+export function a2lVerbalValue(method: A2lCompuMethod | undefined, raw: number): string | undefined {
+  return method?.table?.get(raw);
+}
@@ -0,0 +1,446 @@
+/**
+ * Vector ASC 日志读写
+ * 将接收的 CAN/CANFD 报文 (含发送回显) 写入 .asc 文本日志，并将 .asc 文件解析为报文数组用于回放和分析
+ */
+
+import { ZlgCanError } from '../driver';
+import { CanMessage, CanFdMessage, ReceivedRecord } from '../device';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 报文方向
+ */
+export type AscDirection = 'Rx' | 'Tx';
+
+/**
+ * 时间戳模式
+ * - absolute: 相对测量开始的时间
+ * - relative: 相对上一条记录的时间
+ */
+export type AscTimestampMode = 'absolute' | 'relative';
+
+/**
+ * ID 和数据的进制
+ */
+export type AscBase = 'hex' | 'dec';
+
+/**
+ * 日志输出目标 (如 fs.createWriteStream() 返回的流)
+ */
+export interface AscSink {
+  write(chunk: string): unknown;
+  end?(): unknown;
+}
+
+/**
+ * ASC 写入配置
+ */
+export interface AscWriterOptions {
+  /** 时间戳模式，默认 'absolute' */
+  timestamps?: AscTimestampMode;
+  /** ID 和数据的进制，默认 'hex' */
+  base?: AscBase;
+  /** 测量开始时间，默认当前时间 */
+  date?: Date;
+  /** 默认通道号 (ASC 通道从 1 开始)，默认 1 */
+  channel?: number;
+}
+
+/**
+ * 单条报文的写入选项
+ */
+export interface AscWriteOptions {
+  /** 通道号 (从 1 开始)，默认使用 AscWriterOptions.channel */
+  channel?: number;
+  /** 方向，默认回显报文为 'Tx'，其它报文为 'Rx' */
+  direction?: AscDirection;
+}
+
+/**
+ * ASC 日志中的一条报文
+ */
+export interface AscRecord {
+  /** 相对测量开始的时间 (μs)，与 message.timestamp 相同 */
+  time: number;
+  /** 通道号 (从 1 开始) */
+  channel: number;
+  /** 方向 */
+  direction: AscDirection;
+  /** 报文，CANFD 报文包含 brs 和 esi 字段 */
+  message: CanMessage | CanFdMessage;
+}
+
+/**
+ * 解析的 ASC 文件
+ */
+export interface AscFile {
+  /** 测量开始时间 (无 date 行或无法解析时为空) */
+  date?: Date;
+  /** ID 和数据的进制 */
+  base: AscBase;
+  /** 时间戳模式 */
+  timestamps: AscTimestampMode;
+  /** 报文记录 (按文件顺序) */
+  records: AscRecord[];
+}
+
+/** CANFD 行 Flags 字段：EDL (CANFD 帧) */
+const FD_FLAG_EDL = 0x1000;
+/** CANFD 行 Flags 字段：BRS */
+const FD_FLAG_BRS = 0x2000;
+/** CANFD 行 Flags 字段：ESI */
+const FD_FLAG_ESI = 0x4000;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// ============================================================================
+// 写入
+// ============================================================================
+
+/**
+ * ASC 日志写入器
+ *
+ * 创建时写入文件头和 Begin Triggerblock，close() 写入 End TriggerBlock。
+ * 时间以第一条带时间戳的报文为测量开始 (设备时间戳单位为 μs)，不带时间戳的报文使用主机时间
+ */
+export class AscWriter {
+  private readonly options: Required<AscWriterOptions>;
+  private readonly created = Date.now();
+  private origin: number | null = null;
+  private lastTime = 0;
+  private closed = false;
+
+  constructor(private readonly sink: AscSink, options: AscWriterOptions = {}) {
+    this.options = {
+      timestamps: 'absolute',
+      base: 'hex',
+      date: new Date(),
+      channel: 1,
+      ...options,
+    };
+    const date = formatAscDate(this.options.date);
+    this.sink.write(
+      `date ${date}\r\n`
+      + `base ${this.options.base}  timestamps ${this.options.timestamps}\r\n`
+      + 'internal events logged\r\n'
+      + '// version 9.0.0\r\n'
+      + `Begin Triggerblock ${date}\r\n`
+      + `${formatTime(0)} Start of measurement\r\n`,
+    );
+  }
+
+  /**
+   * 写入一条报文
+   * @throws {ZlgCanError} 写入器已关闭时抛出异常
+   */
+  write(message: CanMessage | CanFdMessage, options: AscWriteOptions = {}): void {
+    const time = this.nextTime(message.timestamp);
+    const channel = options.channel ?? this.options.channel;
+    const direction = options.direction ?? (message.echoed ? 'Tx' : 'Rx');
+    const data = Array.from(message.data);
+    const id = this.formatId(message.id, !!message.isExtended);
+
+    if (isFdMessage(message)) {
+      const flags = FD_FLAG_EDL | (message.brs ? FD_FLAG_BRS : 0) | (message.esi ? FD_FLAG_ESI : 0);
+      this.sink.write(
+        `${time} CANFD ${String(channel).padStart(3)} ${direction.padEnd(4)} ${id.padStart(8)} `
+        + `${message.brs ? 1 : 0} ${message.esi ? 1 : 0} ${fdDlc(data.length).toString(16)} ${String(data.length).padStart(2)} `
+        + `${data.map((byte) => this.formatByte(byte)).join(' ')}${data.length > 0 ? ' ' : ''}`
+        + `${'0'.padStart(8)} ${'0'.padStart(4)} ${flags.toString(16).padStart(8)} ${'0'.padStart(8)} `
+        + `${'0'.padStart(8)} ${'0'.padStart(8)} ${'0'.padStart(8)} ${'0'.padStart(8)}\r\n`,
+      );
+      return;
+    }
+
+    const prefix = `${time} ${channel}  ${id.padEnd(15)} ${direction.padEnd(4)}`;
+    if (message.isRemote) {
+      this.sink.write(`${prefix} r ${data.length.toString(16)}\r\n`);
+    } else {
+      this.sink.write(`${prefix} d ${data.length.toString(16)}${data.map((byte) => ` ${this.formatByte(byte)}`).join('')}\r\n`);
+    }
+  }
+
+  /**
+   * 写入多条报文 (如 receive() 的返回值)
+   */
+  writeMessages(messages: (CanMessage | CanFdMessage)[], options: AscWriteOptions = {}): void {
+    for (const message of messages) {
+      this.write(message, options);
+    }
+  }
+
+  /**
+   * 写入合并接收记录 (receiveRecords() 的返回值)
+   *
+   * 发送回显写为 Tx，总线错误写为 ErrorFrame，其它记录被忽略；设备通道号从 0 开始，写入时加 1
+   */
+  writeRecord(record: ReceivedRecord): void {
+    if (record.type === 'can' || record.type === 'canfd') {
+      this.write(record.message, { channel: record.channel + 1, direction: record.echoed ? 'Tx' : 'Rx' });
+    } else if (record.type === 'error') {
+      const time = this.nextTime(record.error.timestamp);
+      this.sink.write(`${time} ${record.channel + 1}  ErrorFrame\r\n`);
+    }
+  }
+
+  /**
+   * 写入 End TriggerBlock 并结束输出流
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.sink.write('End TriggerBlock\r\n');
+    this.sink.end?.();
+  }
+
+  /**
+   * 计算并格式化下一条记录的时间
+   */
+  private nextTime(timestamp: bigint | number | undefined): string {
+    if (this.closed) {
+      throw new ZlgCanError('AscWriter', undefined, 'ASC 写入器已关闭');
+    }
+    let time: number;
+    if (timestamp !== undefined) {
+      const value = Number(timestamp);
+      this.origin ??= value;
+      time = Math.max(0, value - this.origin);
+    } else {
+      time = (Date.now() - this.created) * 1000;
+    }
+    const printed = this.options.timestamps === 'relative' ? Math.max(0, time - this.lastTime) : time;
+    this.lastTime = time;
+    return formatTime(printed);
+  }
+
+  private formatId(id: number, extended: boolean): string {
+    const text = this.options.base === 'hex' ? id.toString(16).toUpperCase() : String(id);
+    return extended ? `${text}x` : text;
+  }
+
+  private formatByte(byte: number): string {
+    return this.options.base === 'hex' ? byte.toString(16).toUpperCase().padStart(2, '0') : String(byte);
+  }
+}
+
+/**
+ * 将报文转换为 ASC 文本
+ * @param records 报文记录，省略 channel/direction 时为 1/Rx
+ */
+export function stringifyAsc(
+  records: ({ message: CanMessage | CanFdMessage } & AscWriteOptions)[],
+  options: AscWriterOptions = {},
+): string {
+  const chunks: string[] = [];
+  const writer = new AscWriter({ write: (chunk) => chunks.push(chunk) }, options);
+  for (const { message, ...writeOptions } of records) {
+    writer.write(message, writeOptions);
+  }
+  writer.close();
+  return chunks.join('');
+}
+
+// ============================================================================
+// 解析
+// ============================================================================
+
+/**
+ * 解析 ASC 文件
+ *
+ * 解析经典 CAN 数据帧/远程帧和 CANFD 行，错误帧、事件、注释和统计信息被忽略。
+ * CANFD 行的 Flags 不含 EDL 时作为经典 CAN 帧返回
+ * @param content 文件内容 (Buffer 按 latin1 解码)
+ * @throws {ZlgCanError} 报文行格式错误时抛出异常，消息包含行号
+ */
+export function parseAsc(content: string | Buffer): AscFile {
+  const text = typeof content === 'string' ? content : content.toString('latin1');
+  const file: AscFile = { base: 'hex', timestamps: 'absolute', records: [] };
+  let time = 0;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('//')) {
+      return;
+    }
+    const tokens = line.split(/\s+/);
+    const lineNumber = index + 1;
+
+    if (tokens[0] === 'date') {
+      file.date = parseAscDate(line.slice(4).trim());
+      return;
+    }
+    if (tokens[0] === 'base') {
+      file.base = tokens[1] === 'dec' ? 'dec' : 'hex';
+      const mode = tokens.indexOf('timestamps');
+      if (mode > 0) {
+        file.timestamps = tokens[mode + 1] === 'relative' ? 'relative' : 'absolute';
+      }
+      return;
+    }
+    if (!/^\d+(\.\d+)?$/.test(tokens[0])) {
+      return;
+    }
+
+    const seconds = Number(tokens[0]);
+    const lineTime = Math.round(seconds * 1e6);
+    const recordTime = file.timestamps === 'relative' ? time + lineTime : lineTime;
+    // 非报文行 (事件、错误帧等) 同样计入相对时间
+    time = recordTime;
+
+    const record = tokens[1] === 'CANFD'
+      ? parseFdLine(tokens, file.base, lineNumber)
+      : parseCanLine(tokens, file.base, lineNumber);
+    if (record) {
+      record.message.timestamp = recordTime;
+      file.records.push({ time: recordTime, ...record });
+    }
+  });
+  return file;
+}
+
+/**
+ * 经典 CAN 行：时间 通道 ID[x] Rx|Tx d DLC 数据... 或 时间 通道 ID[x] Rx|Tx r [DLC]
+ */
+function parseCanLine(tokens: string[], base: AscBase, line: number): Omit<AscRecord, 'time'> | null {
+  if (tokens.length < 5 || !/^\d+$/.test(tokens[1]) || (tokens[3] !== 'Rx' && tokens[3] !== 'Tx')) {
+    return null;
+  }
+  const { id, isExtended } = parseId(tokens[2], base, line);
+  const channel = Number(tokens[1]);
+  const direction = tokens[3];
+  if (tokens[4] === 'r') {
+    const length = tokens[5] !== undefined && /^[0-9a-f]$/i.test(tokens[5]) ? parseInt(tokens[5], 16) : 0;
+    return { channel, direction, message: { id, isExtended, isRemote: true, data: Buffer.alloc(Math.min(length, 8)) } };
+  }
+  if (tokens[4] !== 'd') {
+    return null;
+  }
+  const length = parseInt(tokens[5], 16);
+  if (Number.isNaN(length) || length > 8) {
+    throw new ZlgCanError('parseAsc', undefined, `第 ${line} 行 DLC 无效: ${tokens[5]}`);
+  }
+  const data = parseBytes(tokens.slice(6, 6 + length), length, base, line);
+  return { channel, direction, message: { id, isExtended, data } };
+}
+
+/**
+ * CANFD 行：时间 CANFD 通道 Rx|Tx ID[x] [名称] BRS ESI DLC 数据长度 数据... [时长 位数 Flags ...]
+ */
+function parseFdLine(tokens: string[], base: AscBase, line: number): Omit<AscRecord, 'time'> | null {
+  if (tokens.length < 9 || (tokens[3] !== 'Rx' && tokens[3] !== 'Tx')) {
+    return null;
+  }
+  const channel = Number(tokens[2]);
+  const direction = tokens[3];
+  const { id, isExtended } = parseId(tokens[4], base, line);
+  let i = 5;
+  // 可选的符号名称
+  if (tokens[i] !== '0' && tokens[i] !== '1') {
+    i++;
+  }
+  const brs = tokens[i] === '1';
+  const esi = tokens[i + 1] === '1';
+  const length = Number(tokens[i + 3]);
+  if (!Number.isInteger(length) || length > 64) {
+    throw new ZlgCanError('parseAsc', undefined, `第 ${line} 行数据长度无效: ${tokens[i + 3]}`);
+  }
+  const data = parseBytes(tokens.slice(i + 4, i + 4 + length), length, base, line);
+  const flagsToken = tokens[i + 4 + length + 2];
+  const flags = flagsToken !== undefined ? parseInt(flagsToken, 16) : FD_FLAG_EDL;
+
+  if (!Number.isNaN(flags) && (flags & FD_FLAG_EDL) === 0) {
+    return { channel, direction, message: { id, isExtended, data, ...((flags & 0x10) !== 0 ? { isRemote: true } : {}) } };
+  }
+  return { channel, direction, message: { id, isExtended, data, brs, esi } };
+}
+
+function parseId(token: string, base: AscBase, line: number): { id: number; isExtended: boolean } {
+  const isExtended = /x$/i.test(token);
+  const text = isExtended ? token.slice(0, -1) : token;
+  const id = base === 'hex' ? parseInt(text, 16) : Number(text);
+  const valid = base === 'hex' ? /^[0-9a-f]+$/i.test(text) : /^\d+$/.test(text);
+  if (!valid || id > (isExtended ? 0x1FFFFFFF : 0x7FF)) {
+    throw new ZlgCanError('parseAsc', undefined, `第 ${line} 行报文 ID 无效: ${token}`);
+  }
+  return { id, isExtended };
+}
+
+function parseBytes(tokens: string[], length: number, base: AscBase, line: number): Buffer {
+  if (tokens.length < length) {
+    throw new ZlgCanError('parseAsc', undefined, `第 ${line} 行数据不足 ${length} 字节`);
+  }
+  return Buffer.from(tokens.map((token) => {
+    const value = base === 'hex' ? parseInt(token, 16) : Number(token);
+    if (Number.isNaN(value) || value < 0 || value > 0xFF) {
+      throw new ZlgCanError('parseAsc', undefined, `第 ${line} 行数据字节无效: ${token}`);
+    }
+    return value;
+  }));
+}
+
+// ============================================================================
+// 辅助函数
+// ============================================================================
+
+function isFdMessage(message: CanMessage | CanFdMessage): message is CanFdMessage {
+  return 'brs' in message || 'esi' in message;
+}
+
+/**
+ * 数据长度对应的 CANFD DLC
+ */
+function fdDlc(length: number): number {
+  if (length <= 8) {
+    return length;
+  }
+  return [12, 16, 20, 24, 32, 48, 64].findIndex((size) => length <= size) + 9;
+}
+
+/**
+ * 格式化时间 (μs → 秒，保留 6 位小数)
+ */
+function formatTime(microseconds: number): string {
+  return (microseconds / 1e6).toFixed(6).padStart(11);
+}
+
+/**
+ * 格式化日期，如 "Mon Oct 19 02:15:30.123 pm 2026"
+ */
+export function formatAscDate(date: Date): string {
+  const hours = date.getHours();
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+  return `${WEEKDAYS[date.getDay()]} ${MONTHS[date.getMonth()]} ${pad(date.getDate())} `
+    + `${pad(hour12)}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)} `
+    + `${hours < 12 ? 'am' : 'pm'} ${date.getFullYear()}`;
+}
+
+/**
+ * 解析 date 行的日期 (本地时间，支持 12 和 24 小时制)
+ * @returns 日期，无法解析时返回 undefined
+ */
+export function parseAscDate(text: string): Date | undefined {
+  const match = /^(?:\w+\s+)?(\w{3})\w*\s+(\d{1,2})\s+(\d{1,2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?\s*(am|pm)?\s+(\d{4})$/i.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const month = MONTHS.findIndex((name) => name.toLowerCase() === match[1].toLowerCase());
+  if (month < 0) {
+    return undefined;
+  }
+  let hours = Number(match[3]);
+  const meridiem = match[7]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) {
+    hours += 12;
+  } else if (meridiem === 'am' && hours === 12) {
+    hours = 0;
+  }
+  const milliseconds = match[6] ? Number(match[6].padEnd(3, '0')) : 0;
+  return new Date(Number(match[8]), month, Number(match[2]), hours, Number(match[4]), Number(match[5]), milliseconds);
+}
@@ -0,0 +1,694 @@
+/**
+ * Vector BLF (Binary Logging Format) 日志读写
+ * 流式写入 zlib 压缩的日志容器，逐个容器读取 CAN_MESSAGE2、CAN_FD_MESSAGE_64 和 CAN_ERROR_EXT 等对象
+ */
+
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { ZlgCanError } from '../driver';
+import { CanMessage, CanFdMessage, ReceivedRecord } from '../device';
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/**
+ * BLF 对象类型
+ */
+export const BLF_OBJECT_TYPE = {
+  CAN_MESSAGE: 1,
+  CAN_ERROR: 2,
+  LOG_CONTAINER: 10,
+  CAN_ERROR_EXT: 73,
+  CAN_MESSAGE2: 86,
+  CAN_FD_MESSAGE: 100,
+  CAN_FD_MESSAGE_64: 101,
+} as const;
+
+/** 文件头长度 */
+const FILE_HEADER_SIZE = 144;
+/** 对象基本头长度 (LOBJ、头长度、头版本、对象长度、对象类型) */
+const OBJECT_BASE_SIZE = 16;
+/** 版本 1 对象头长度 (基本头 + 标志、客户端索引、对象版本、时间戳) */
+const OBJECT_HEADER_V1_SIZE = 32;
+/** 日志容器头长度 (压缩方式、未压缩长度) */
+const CONTAINER_HEADER_SIZE = 16;
+/** 文件头中的应用程序 ID */
+const APPLICATION_ID = 5;
+
+/** 对象头标志：时间戳单位为 10μs */
+const TIME_TEN_MICS = 0x01;
+/** 对象头标志：时间戳单位为 1ns */
+const TIME_ONE_NANS = 0x02;
+
+/** 日志容器压缩方式：不压缩 */
+const NO_COMPRESSION = 0;
+/** 日志容器压缩方式：zlib */
+const ZLIB_DEFLATE = 2;
+
+/** 报文 ID 的扩展帧标志 */
+const CAN_MSG_EXT = 0x80000000;
+/** CAN_MESSAGE/CAN_MESSAGE2 标志：发送 */
+const CAN_MSG_TX = 0x01;
+/** CAN_MESSAGE/CAN_MESSAGE2 标志：远程帧 */
+const CAN_MSG_RTR = 0x80;
+/** CAN_FD_MESSAGE 的 FD 标志 */
+const FD_MSG_EDL = 0x01;
+const FD_MSG_BRS = 0x02;
+const FD_MSG_ESI = 0x04;
+/** CAN_FD_MESSAGE_64 标志 */
+const FD64_RTR = 0x0010;
+const FD64_EDL = 0x1000;
+const FD64_BRS = 0x2000;
+const FD64_ESI = 0x4000;
+
+const FD_DATA_LENGTHS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 12, 16, 20, 24, 32, 48, 64];
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 报文方向
+ */
+export type BlfDirection = 'Rx' | 'Tx';
+
+/**
+ * BLF 写入配置
+ */
+export interface BlfWriterOptions {
+  /** 测量开始时间，默认当前时间 */
+  date?: Date;
+  /** 默认通道号 (BLF 通道从 1 开始)，默认 1 */
+  channel?: number;
+  /** zlib 压缩级别 (0 表示不压缩)，默认 6 */
+  compressionLevel?: number;
+  /** 日志容器的未压缩数据长度 (字节)，达到后压缩写入文件，默认 128 KiB */
+  containerSize?: number;
+}
+
+/**
+ * 单条报文的写入选项
+ */
+export interface BlfWriteOptions {
+  /** 通道号 (从 1 开始)，默认使用 BlfWriterOptions.channel */
+  channel?: number;
+  /** 方向，默认回显报文为 'Tx'，其它报文为 'Rx' */
+  direction?: BlfDirection;
+}
+
+/**
+ * 错误帧 (CAN_ERROR_EXT)
+ */
+export interface BlfErrorFrame {
+  /** 错误帧对应的报文 ID (未知时为 0) */
+  id: number;
+  /** 是否为扩展帧 */
+  isExtended: boolean;
+  /** 错误发生前已接收的数据 */
+  data: Buffer;
+  /** 错误码捕获寄存器 (ECC) */
+  ecc: number;
+  /** 错误位置 */
+  position: number;
+  /** 错误标志 */
+  flags: number;
+}
+
+/**
+ * BLF 日志中的一条记录
+ *
+ * time 为相对测量开始的时间 (μs)，报文的 timestamp 与之相同
+ */
+export type BlfRecord =
+  | { type: 'can'; time: number; channel: number; direction: BlfDirection; message: CanMessage }
+  | { type: 'canfd'; time: number; channel: number; direction: BlfDirection; message: CanFdMessage }
+  | { type: 'error'; time: number; channel: number; error: BlfErrorFrame };
+
+/**
+ * BLF 文件头信息
+ */
+export interface BlfFileInfo {
+  /** 应用程序 ID */
+  application: number;
+  /** 文件长度 */
+  fileSize: number;
+  /** 未压缩的数据长度 */
+  uncompressedSize: number;
+  /** 对象数量 (不含日志容器) */
+  objectCount: number;
+  /** 测量开始时间 */
+  start?: Date;
+  /** 测量结束时间 */
+  stop?: Date;
+}
+
+/**
+ * 解析的 BLF 文件
+ */
+export interface BlfFile {
+  /** 文件头信息 */
+  info: BlfFileInfo;
+  /** 记录 (按文件顺序，不支持的对象类型被忽略) */
+  records: BlfRecord[];
+}
+
+// ============================================================================
+// 写入
+// ============================================================================
+
+/**
+ * BLF 日志写入器
+ *
+ * 对象先缓存在日志容器中，达到 containerSize 后压缩写入文件，内存占用与日志长度无关。
+ * 打开时写入临时文件头，每写入一个容器后更新文件头中的文件长度、对象数量和测量时间，
+ * 未正常关闭的文件也可以读取已写入的容器。close() 写入最后一个容器并更新文件头。
+ * 时间以第一条带时间戳的报文为测量开始 (设备时间戳单位为 μs)，不带时间戳的报文使用主机时间
+ */
+export class BlfWriter {
+  private readonly options: Required<BlfWriterOptions>;
+  private readonly created = Date.now();
+  private fd: number | null;
+  private position = FILE_HEADER_SIZE;
+  private uncompressedSize = FILE_HEADER_SIZE;
+  private objectCount = 0;
+  private container: Buffer[] = [];
+  private containerLength = 0;
+  private origin: number | null = null;
+  private lastTime = 0;
+
+  /**
+   * @param path 文件路径 (已存在时覆盖)
+   */
+  constructor(path: string, options: BlfWriterOptions = {}) {
+    this.options = {
+      date: new Date(),
+      channel: 1,
+      compressionLevel: 6,
+      containerSize: 128 * 1024,
+      ...options,
+    };
+    this.fd = fs.openSync(path, 'w');
+    this.writeHeader(this.fd);
+  }
+
+  /**
+   * 写入一条报文，经典 CAN 帧写为 CAN_MESSAGE2，CANFD 帧写为 CAN_FD_MESSAGE_64
+   * @throws {ZlgCanError} 写入器已关闭时抛出异常
+   */
+  write(message: CanMessage | CanFdMessage, options: BlfWriteOptions = {}): void {
+    const time = this.nextTime(message.timestamp);
+    const channel = options.channel ?? this.options.channel;
+    const tx = (options.direction ?? (message.echoed ? 'Tx' : 'Rx')) === 'Tx';
+    const data = Buffer.from(message.data);
+    const id = (message.id >>> 0) | (message.isExtended ? CAN_MSG_EXT : 0);
+
+    if ('brs' in message || 'esi' in message) {
+      const fd = message as CanFdMessage;
+      const length = Math.min(data.length, 64);
+      const body = Buffer.alloc(40 + length);
+      body.writeUInt8(channel, 0);
+      body.writeUInt8(fdDlc(length), 1);
+      body.writeUInt8(length, 2);
+      body.writeUInt32LE(id >>> 0, 4);
+      body.writeUInt32LE(FD64_EDL | (fd.brs ? FD64_BRS : 0) | (fd.esi ? FD64_ESI : 0), 12);
+      body.writeUInt8(tx ? 1 : 0, 34);
+      data.copy(body, 40, 0, length);
+      this.addObject(BLF_OBJECT_TYPE.CAN_FD_MESSAGE_64, time, body);
+      return;
+    }
+
+    const body = Buffer.alloc(24);
+    body.writeUInt16LE(channel, 0);
+    body.writeUInt8((tx ? CAN_MSG_TX : 0) | (message.isRemote ? CAN_MSG_RTR : 0), 2);
+    body.writeUInt8(Math.min(data.length, 8), 3);
+    body.writeUInt32LE(id >>> 0, 4);
+    if (!message.isRemote) {
+      data.copy(body, 8, 0, 8);
+    }
+    this.addObject(BLF_OBJECT_TYPE.CAN_MESSAGE2, time, body);
+  }
+
+  /**
+   * 写入多条报文 (如 receive() 的返回值)
+   */
+  writeMessages(messages: (CanMessage | CanFdMessage)[], options: BlfWriteOptions = {}): void {
+    for (const message of messages) {
+      this.write(message, options);
+    }
+  }
+
+  /**
+   * 写入合并接收记录 (receiveRecords() 的返回值)
+   *
+   * 发送回显写为 Tx，总线错误写为 CAN_ERROR_EXT，其它记录被忽略；设备通道号从 0 开始，写入时加 1
+   */
+  writeRecord(record: ReceivedRecord): void {
+    if (record.type === 'can' || record.type === 'canfd') {
+      this.write(record.message, { channel: record.channel + 1, direction: record.echoed ? 'Tx' : 'Rx' });
+    } else if (record.type === 'error') {
+      this.writeError({ id: 0, isExtended: false, data: Buffer.alloc(0), ecc: record.error.errorData & 0xFF, position: 0, flags: 0 }, {
+        channel: record.channel + 1,
+        timestamp: record.error.timestamp,
+      });
+    }
+  }
+
+  /**
+   * 写入错误帧 (CAN_ERROR_EXT)
+   * @param options.timestamp 设备时间戳 (μs)
+   */
+  writeError(error: BlfErrorFrame, options: { channel?: number; timestamp?: bigint | number } = {}): void {
+    const time = this.nextTime(options.timestamp);
+    const body = Buffer.alloc(32);
+    const length = Math.min(error.data.length, 8);
+    body.writeUInt16LE(options.channel ?? this.options.channel, 0);
+    body.writeUInt32LE(error.flags >>> 0, 4);
+    body.writeUInt8(error.ecc & 0xFF, 8);
+    body.writeUInt8(error.position & 0xFF, 9);
+    body.writeUInt8(length, 10);
+    body.writeUInt32LE(((error.id >>> 0) | (error.isExtended ? CAN_MSG_EXT : 0)) >>> 0, 16);
+    error.data.copy(body, 24, 0, length);
+    this.addObject(BLF_OBJECT_TYPE.CAN_ERROR_EXT, time, body);
+  }
+
+  /**
+   * 将缓存的对象压缩写入文件
+   */
+  flush(): void {
+    const fd = this.ensureOpen();
+    if (this.containerLength === 0) {
+      return;
+    }
+    const data = Buffer.concat(this.container, this.containerLength);
+    this.container = [];
+    this.containerLength = 0;
+
+    const compress = this.options.compressionLevel > 0;
+    const payload = compress ? zlib.deflateSync(data, { level: this.options.compressionLevel }) : data;
+    const size = OBJECT_BASE_SIZE + CONTAINER_HEADER_SIZE + payload.length;
+    const object = Buffer.alloc(size + (size % 4));
+    writeBaseHeader(object, OBJECT_BASE_SIZE, size, BLF_OBJECT_TYPE.LOG_CONTAINER);
+    object.writeUInt16LE(compress ? ZLIB_DEFLATE : NO_COMPRESSION, 16);
+    object.writeUInt32LE(data.length, 24);
+    payload.copy(object, OBJECT_BASE_SIZE + CONTAINER_HEADER_SIZE);
+
+    fs.writeSync(fd, object, 0, object.length, this.position);
+    this.position += object.length;
+    this.uncompressedSize += OBJECT_BASE_SIZE + CONTAINER_HEADER_SIZE + data.length;
+    this.writeHeader(fd);
+  }
+
+  /**
+   * 写入剩余对象和文件头并关闭文件，重复调用无效
+   */
+  close(): void {
+    if (this.fd === null) {
+      return;
+    }
+    this.flush();
+    this.writeHeader(this.fd);
+    fs.closeSync(this.fd);
+    this.fd = null;
+  }
+
+  /**
+   * 按已写入文件的容器更新文件头
+   */
+  private writeHeader(fd: number): void {
+    const header = Buffer.alloc(FILE_HEADER_SIZE);
+    header.write('LOGG', 0, 'latin1');
+    header.writeUInt32LE(FILE_HEADER_SIZE, 4);
+    header.writeUInt8(APPLICATION_ID, 8);
+    // BLF 格式版本 2.6.8.1
+    header.set([2, 6, 8, 1], 12);
+    header.writeBigUInt64LE(BigInt(this.position), 16);
+    header.writeBigUInt64LE(BigInt(this.uncompressedSize), 24);
+    header.writeUInt32LE(this.objectCount, 32);
+    writeSystemTime(header, 40, this.options.date);
+    writeSystemTime(header, 56, new Date(this.options.date.getTime() + Math.floor(this.lastTime / 1000)));
+    fs.writeSync(fd, header, 0, FILE_HEADER_SIZE, 0);
+  }
+
+  private addObject(type: number, time: number, body: Buffer): void {
+    const size = OBJECT_HEADER_V1_SIZE + body.length;
+    const object = Buffer.alloc(size + (size % 4));
+    writeBaseHeader(object, OBJECT_HEADER_V1_SIZE, size, type);
+    object.writeUInt32LE(TIME_ONE_NANS, 16);
+    object.writeBigUInt64LE(BigInt(Math.round(time)) * 1000n, 24);
+    body.copy(object, OBJECT_HEADER_V1_SIZE);
+
+    this.container.push(object);
+    this.containerLength += object.length;
+    this.objectCount++;
+    if (this.containerLength >= this.options.containerSize) {
+      this.flush();
+    }
+  }
+
+  /**
+   * 计算下一条记录相对测量开始的时间 (μs)
+   */
+  private nextTime(timestamp: bigint | number | undefined): number {
+    this.ensureOpen();
+    let time: number;
+    if (timestamp !== undefined) {
+      const value = Number(timestamp);
+      this.origin ??= value;
+      time = Math.max(0, value - this.origin);
+    } else {
+      time = (Date.now() - this.created) * 1000;
+    }
+    this.lastTime = Math.max(this.lastTime, time);
+    return time;
+  }
+
+  private ensureOpen(): number {
+    if (this.fd === null) {
+      throw new ZlgCanError('BlfWriter', undefined, 'BLF 写入器已关闭');
+    }
+    return this.fd;
+  }
+}
+
+function writeBaseHeader(target: Buffer, headerSize: number, objectSize: number, type: number): void {
+  target.write('LOBJ', 0, 'latin1');
+  target.writeUInt16LE(headerSize, 4);
+  target.writeUInt16LE(1, 6);
+  target.writeUInt32LE(objectSize, 8);
+  target.writeUInt32LE(type, 12);
+}
+
+// ============================================================================
+// 读取
+// ============================================================================
+
+/**
+ * BLF 日志读取器
+ *
+ * 按需逐个读取日志容器并解压，适合读取大文件；跨容器的对象会被拼接
+ */
+export class BlfReader {
+  /** 文件头信息 */
+  readonly info: BlfFileInfo;
+  private fd: number | null;
+
+  /**
+   * @param path 文件路径
+   * @throws {ZlgCanError} 不是 BLF 文件时抛出异常
+   */
+  constructor(path: string) {
+    this.fd = fs.openSync(path, 'r');
+    try {
+      this.info = parseFileHeader(this.read(0, FILE_HEADER_SIZE));
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  /**
+   * 依次读取记录
+   * @throws {ZlgCanError} 文件已关闭、对象格式错误或解压失败时抛出异常
+   */
+  *records(): Generator<BlfRecord> {
+    yield* iterateRecords((position, length) => this.read(position, length));
+  }
+
+  [Symbol.iterator](): Generator<BlfRecord> {
+    return this.records();
+  }
+
+  /**
+   * 关闭文件，重复调用无效
+   */
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private read(position: number, length: number): Buffer {
+    if (this.fd === null) {
+      throw new ZlgCanError('BlfReader', undefined, 'BLF 读取器已关闭');
+    }
+    const buffer = Buffer.alloc(length);
+    const count = fs.readSync(this.fd, buffer, 0, length, position);
+    return count < length ? buffer.subarray(0, count) : buffer;
+  }
+}
+
+/**
+ * 解析内存中的 BLF 文件
+ * @throws {ZlgCanError} 不是 BLF 文件、对象格式错误或解压失败时抛出异常
+ */
+export function parseBlf(content: Buffer): BlfFile {
+  const read = (position: number, length: number): Buffer => content.subarray(position, position + length);
+  return { info: parseFileHeader(read(0, FILE_HEADER_SIZE)), records: [...iterateRecords(read)] };
+}
+
+function parseFileHeader(header: Buffer): BlfFileInfo {
+  if (header.length < 72 || header.toString('latin1', 0, 4) !== 'LOGG') {
+    throw new ZlgCanError('BLF', undefined, '不是 BLF 文件 (缺少 LOGG 签名)');
+  }
+  return {
+    application: header[8],
+    fileSize: Number(header.readBigUInt64LE(16)),
+    uncompressedSize: Number(header.readBigUInt64LE(24)),
+    objectCount: header.readUInt32LE(32),
+    start: readSystemTime(header, 40),
+    stop: readSystemTime(header, 56),
+  };
+}
+
+/**
+ * 依次读取顶层对象，日志容器解压后与上一个容器的剩余数据拼接再解析
+ */
+function* iterateRecords(read: (position: number, length: number) => Buffer): Generator<BlfRecord> {
+  const header = read(0, FILE_HEADER_SIZE);
+  let position = header.readUInt32LE(4);
+  let tail = Buffer.alloc(0);
+
+  for (;;) {
+    const base = read(position, OBJECT_BASE_SIZE);
+    if (base.length < OBJECT_BASE_SIZE) {
+      break;
+    }
+    if (base.toString('latin1', 0, 4) !== 'LOBJ') {
+      throw new ZlgCanError('BLF', undefined, `偏移 ${position} 处的对象签名无效`);
+    }
+    const size = base.readUInt32LE(8);
+    const type = base.readUInt32LE(12);
+    if (size < OBJECT_BASE_SIZE) {
+      throw new ZlgCanError('BLF', undefined, `偏移 ${position} 处的对象长度无效: ${size}`);
+    }
+    const object = read(position, size);
+    if (object.length < size) {
+      // 文件被截断 (如写入未正常结束)
+      break;
+    }
+    position += size + (size % 4);
+
+    const data = type === BLF_OBJECT_TYPE.LOG_CONTAINER ? decompressContainer(object) : object;
+    const buffer = tail.length > 0 ? Buffer.concat([tail, data]) : data;
+    let offset = 0;
+    for (;;) {
+      const result = parseObject(buffer, offset);
+      if (!result) {
+        break;
+      }
+      offset = result.next;
+      if (result.record) {
+        yield result.record;
+      }
+    }
+    tail = Buffer.from(buffer.subarray(offset));
+  }
+}
+
+function decompressContainer(object: Buffer): Buffer {
+  const method = object.readUInt16LE(OBJECT_BASE_SIZE);
+  const payload = object.subarray(OBJECT_BASE_SIZE + CONTAINER_HEADER_SIZE);
+  if (method === NO_COMPRESSION) {
+    return payload;
+  }
+  if (method !== ZLIB_DEFLATE) {
+    throw new ZlgCanError('BLF', undefined, `不支持的日志容器压缩方式: ${method}`);
+  }
+  try {
+    return zlib.inflateSync(payload);
+  } catch (error) {
+    throw new ZlgCanError('BLF', undefined, `日志容器解压失败: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * 解析 offset 处的对象 (跳过前面最多 8 字节的填充)
+ * @returns 记录和下一个对象的偏移，对象不完整时返回 null
+ */
+function parseObject(buffer: Buffer, offset: number): { record: BlfRecord | null; next: number } | null {
+  const start = buffer.indexOf('LOBJ', offset, 'latin1');
+  if (start < 0 || start >= offset + 8) {
+    if (buffer.length - offset < 8 + OBJECT_BASE_SIZE) {
+      return null;
+    }
+    throw new ZlgCanError('BLF', undefined, '找不到下一个对象');
+  }
+  if (buffer.length - start < OBJECT_BASE_SIZE) {
+    return null;
+  }
+  const headerSize = buffer.readUInt16LE(start + 4);
+  const headerVersion = buffer.readUInt16LE(start + 6);
+  const size = buffer.readUInt32LE(start + 8);
+  const type = buffer.readUInt32LE(start + 12);
+  if (size < OBJECT_BASE_SIZE) {
+    throw new ZlgCanError('BLF', undefined, `对象长度无效: ${size}`);
+  }
+  if (start + size > buffer.length) {
+    return null;
+  }
+
+  // 版本 1 和版本 2 对象头的标志和时间戳位于相同偏移
+  let time = 0;
+  if ((headerVersion === 1 || headerVersion === 2) && headerSize >= OBJECT_HEADER_V1_SIZE) {
+    const flags = buffer.readUInt32LE(start + 16);
+    const raw = buffer.readBigUInt64LE(start + 24);
+    time = flags === TIME_TEN_MICS ? Number(raw) * 10 : Math.round(Number(raw) / 1000);
+  }
+  const body = buffer.subarray(start + headerSize, start + size);
+  return { record: decodeObject(type, body, time), next: start + size };
+}
+
+function decodeObject(type: number, body: Buffer, time: number): BlfRecord | null {
+  switch (type) {
+    case BLF_OBJECT_TYPE.CAN_MESSAGE:
+    case BLF_OBJECT_TYPE.CAN_MESSAGE2: {
+      if (body.length < 16) {
+        return null;
+      }
+      const flags = body[2];
+      const id = body.readUInt32LE(4);
+      const length = Math.min(body[3] & 0x0F, 8);
+      const message: CanMessage = {
+        id: id & 0x1FFFFFFF,
+        isExtended: (id & CAN_MSG_EXT) !== 0,
+        data: (flags & CAN_MSG_RTR) !== 0 ? Buffer.alloc(length) : Buffer.from(body.subarray(8, 8 + length)),
+        timestamp: time,
+      };
+      if (flags & CAN_MSG_RTR) {
+        message.isRemote = true;
+      }
+      return { type: 'can', time, channel: body.readUInt16LE(0), direction: flags & CAN_MSG_TX ? 'Tx' : 'Rx', message };
+    }
+    case BLF_OBJECT_TYPE.CAN_FD_MESSAGE: {
+      if (body.length < 20) {
+        return null;
+      }
+      const flags = body[2];
+      const fdFlags = body[13];
+      const id = body.readUInt32LE(4);
+      const length = Math.min(body[14], FD_DATA_LENGTHS[body[3] & 0x0F], body.length - 20);
+      const direction: BlfDirection = flags & CAN_MSG_TX ? 'Tx' : 'Rx';
+      const channel = body.readUInt16LE(0);
+      const data = Buffer.from(body.subarray(20, 20 + length));
+      if (!(fdFlags & FD_MSG_EDL)) {
+        const message: CanMessage = { id: id & 0x1FFFFFFF, isExtended: (id & CAN_MSG_EXT) !== 0, data, timestamp: time };
+        if (flags & CAN_MSG_RTR) {
+          message.isRemote = true;
+        }
+        return { type: 'can', time, channel, direction, message };
+      }
+      const message: CanFdMessage = {
+        id: id & 0x1FFFFFFF,
+        isExtended: (id & CAN_MSG_EXT) !== 0,
+        data,
+        brs: (fdFlags & FD_MSG_BRS) !== 0,
+        esi: (fdFlags & FD_MSG_ESI) !== 0,
+        timestamp: time,
+      };
+      return { type: 'canfd', time, channel, direction, message };
+    }
+    case BLF_OBJECT_TYPE.CAN_FD_MESSAGE_64: {
+      if (body.length < 40) {
+        return null;
+      }
+      const flags = body.readUInt32LE(12);
+      const id = body.readUInt32LE(4);
+      // 有效字节数可能超过实际数据
+      const length = Math.min(body[2], body.length - 40);
+      const direction: BlfDirection = body[34] ? 'Tx' : 'Rx';
+      const data = Buffer.from(body.subarray(40, 40 + length));
+      if (!(flags & FD64_EDL)) {
+        const message: CanMessage = { id: id & 0x1FFFFFFF, isExtended: (id & CAN_MSG_EXT) !== 0, data, timestamp: time };
+        if (flags & FD64_RTR) {
+          message.isRemote = true;
+        }
+        return { type: 'can', time, channel: body[0], direction, message };
+      }
+      const message: CanFdMessage = {
+        id: id & 0x1FFFFFFF,
+        isExtended: (id & CAN_MSG_EXT) !== 0,
+        data,
+        brs: (flags & FD64_BRS) !== 0,
+        esi: (flags & FD64_ESI) !== 0,
+        timestamp: time,
+      };
+      return { type: 'canfd', time, channel: body[0], direction, message };
+    }
+    case BLF_OBJECT_TYPE.CAN_ERROR_EXT: {
+      if (body.length < 32) {
+        return null;
+      }
+      const id = body.readUInt32LE(16);
+      return {
+        type: 'error',
+        time,
+        channel: body.readUInt16LE(0),
+        error: {
+          id: id & 0x1FFFFFFF,
+          isExtended: (id & CAN_MSG_EXT) !== 0,
+          data: Buffer.from(body.subarray(24, 24 + Math.min(body[10], 8))),
+          ecc: body[8],
+          position: body[9],
+          flags: body.readUInt32LE(4),
+        },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// 辅助函数
+// ============================================================================
+
+/**
+ * 数据长度对应的 CANFD DLC
+ */
+function fdDlc(length: number): number {
+  return FD_DATA_LENGTHS.findIndex((size) => length <= size);
+}
+
+/**
+ * 写入 Windows SYSTEMTIME (本地时间)
+ */
+function writeSystemTime(target: Buffer, offset: number, date: Date): void {
+  const fields = [
+    date.getFullYear(), date.getMonth() + 1, date.getDay(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds(),
+  ];
+  fields.forEach((value, i) => target.writeUInt16LE(value, offset + i * 2));
+}
+
+/**
+ * 读取 Windows SYSTEMTIME (本地时间)，全 0 时返回 undefined
+ */
+function readSystemTime(source: Buffer, offset: number): Date | undefined {
+  const [year, month, , day, hour, minute, second, millisecond] = Array.from({ length: 8 }, (_, i) => source.readUInt16LE(offset + i * 2));
+  if (year === 0) {
+    return undefined;
+  }
+  return new Date(year, month - 1, day, hour, minute, second, millisecond);
+}
@@ -0,0 +1,365 @@
+/**
+ * CAN 数据库
+ * 按 DBC 描述将收到的 CAN/CANFD 帧解码为信号物理值
+ */
+
+import { ZlgCanError } from '../driver';
+import { CanLinkMessage } from './can-link';
+import { DbcDatabase, DbcMessage, DbcSignal } from './dbc';
+import { canFdDataLength } from './isotp';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 解码后的信号
+ */
+export interface DecodedSignal {
+  /** 信号定义 */
+  signal: DbcSignal;
+  /** 原始值 (有符号信号已做符号扩展，浮点信号为浮点数) */
+  raw: number;
+  /** 物理值 (raw * factor + offset) */
+  value: number;
+  /** 值表描述 */
+  label?: string;
+}
+
+/**
+ * 解码后的报文
+ */
+export interface DecodedMessage {
+  /** 报文定义 */
+  message: DbcMessage;
+  /** 信号物理值 (信号名 → 物理值)，未激活的多路复用信号不包含在内 */
+  values: Record<string, number>;
+  /** 信号详情 */
+  signals: DecodedSignal[];
+}
+
+/**
+ * 待编码的信号值 (信号名 → 物理值或值表描述)
+ */
+export type SignalValues = Record<string, number | string>;
+
+/**
+ * 编码选项
+ */
+export interface EncodeOptions {
+  /** 检查物理值范围 ([min|max] 均为 0 时不检查) 和原始值位宽，默认 true */
+  checkRange?: boolean;
+  /** 基础数据，未指定的信号保留其中的值，省略时未指定的信号使用 GenSigStartValue (原始值) 或 0 */
+  data?: Buffer | number[];
+}
+
+// ============================================================================
+// 信号编解码
+// ============================================================================
+
+/**
+ * 依次返回信号从最高位到最低位的位置 (字节 * 8 + 位)
+ */
+function signalBitPositions(signal: DbcSignal): number[] {
+  const positions: number[] = [];
+  if (signal.byteOrder === 'intel') {
+    for (let i = signal.length - 1; i >= 0; i--) {
+      positions.push(signal.startBit + i);
+    }
+  } else {
+    // Motorola 起始位为最高位，字节内递减，跨字节时跳到下一字节的第 7 位
+    let position = signal.startBit;
+    for (let i = 0; i < signal.length; i++) {
+      positions.push(position);
+      position = position % 8 === 0 ? position + 15 : position - 1;
+    }
+  }
+  return positions;
+}
+
+/**
+ * 从数据中解码信号原始值
+ * @returns 数据长度不足时返回 undefined
+ */
+export function decodeSignalRaw(signal: DbcSignal, data: Buffer | number[]): number | undefined {
+  const positions = signalBitPositions(signal);
+  let bits = 0n;
+  for (const position of positions) {
+    const byte = data[position >> 3];
+    if (byte === undefined) {
+      return undefined;
+    }
+    bits = (bits << 1n) | BigInt((byte >> (position & 7)) & 1);
+  }
+
+  switch (signal.valueType) {
+    case 'float': {
+      const buffer = Buffer.alloc(4);
+      buffer.writeUInt32BE(Number(bits));
+      return buffer.readFloatBE();
+    }
+    case 'double': {
+      const buffer = Buffer.alloc(8);
+      buffer.writeBigUInt64BE(bits);
+      return buffer.readDoubleBE();
+    }
+    case 'signed':
+      return Number(BigInt.asIntN(signal.length, bits));
+    default:
+      return Number(bits);
+  }
+}
+
+/**
+ * 从数据中解码信号物理值
+ * @returns 数据长度不足时返回 undefined
+ */
+export function decodeSignal(signal: DbcSignal, data: Buffer | number[]): number | undefined {
+  const raw = decodeSignalRaw(signal, data);
+  return raw === undefined ? undefined : raw * signal.factor + signal.offset;
+}
+
+/**
+ * 将信号原始值写入数据
+ * @throws {ZlgCanError} 信号超出数据长度时抛出异常
+ */
+export function encodeSignalRaw(signal: DbcSignal, raw: number, data: Buffer): void {
+  let bits: bigint;
+  if (signal.valueType === 'float') {
+    const buffer = Buffer.alloc(4);
+    buffer.writeFloatBE(raw);
+    bits = BigInt(buffer.readUInt32BE());
+  } else if (signal.valueType === 'double') {
+    const buffer = Buffer.alloc(8);
+    buffer.writeDoubleBE(raw);
+    bits = buffer.readBigUInt64BE();
+  } else {
+    bits = BigInt.asUintN(signal.length, BigInt(Math.round(raw)));
+  }
+
+  const positions = signalBitPositions(signal);
+  positions.forEach((position, i) => {
+    const index = position >> 3;
+    if (index >= data.length) {
+      throw new ZlgCanError('encodeSignal', undefined, `信号 ${signal.name} 超出数据长度 ${data.length}`);
+    }
+    const mask = 1 << (position & 7);
+    if ((bits >> BigInt(positions.length - 1 - i)) & 1n) {
+      data[index] |= mask;
+    } else {
+      data[index] &= ~mask;
+    }
+  });
+}
+
+/**
+ * 将物理值转换为原始值
+ * @param value 物理值或值表描述
+ * @param checkRange 检查物理值范围和原始值位宽，默认 true
+ * @throws {ZlgCanError} 值表中没有该描述或超出范围时抛出异常
+ */
+export function physicalToRaw(signal: DbcSignal, value: number | string, checkRange = true): number {
+  if (typeof value === 'string') {
+    const entry = Object.entries(signal.valueTable ?? {}).find(([, label]) => label === value);
+    if (!entry) {
+      throw new ZlgCanError('encodeSignal', undefined, `信号 ${signal.name} 的值表中没有 "${value}"`);
+    }
+    return Number(entry[0]);
+  }
+
+  const scaled = (value - signal.offset) / signal.factor;
+  const isFloat = signal.valueType === 'float' || signal.valueType === 'double';
+  const raw = isFloat ? scaled : Math.round(scaled);
+  if (!checkRange) {
+    return raw;
+  }
+  if ((signal.minimum !== 0 || signal.maximum !== 0) && (value < signal.minimum || value > signal.maximum)) {
+    throw new ZlgCanError('encodeSignal', undefined, `信号 ${signal.name} 的值 ${value} 超出范围 [${signal.minimum}, ${signal.maximum}]`);
+  }
+  if (!isFloat) {
+    const signed = signal.valueType === 'signed';
+    const min = signed ? -(2 ** (signal.length - 1)) : 0;
+    const max = signed ? 2 ** (signal.length - 1) - 1 : 2 ** signal.length - 1;
+    if (raw < min || raw > max) {
+      throw new ZlgCanError('encodeSignal', undefined, `信号 ${signal.name} 的原始值 ${raw} 超出 ${signal.length} 位${signed ? '有符号' : '无符号'}范围`);
+    }
+  }
+  return raw;
+}
+
+/**
+ * 将信号物理值写入数据
+ * @throws {ZlgCanError} 超出范围或超出数据长度时抛出异常
+ */
+export function encodeSignal(signal: DbcSignal, value: number | string, data: Buffer, checkRange = true): void {
+  encodeSignalRaw(signal, physicalToRaw(signal, value, checkRange), data);
+}
+
+// ============================================================================
+// 数据库
+// ============================================================================
+
+/**
+ * CAN 数据库
+ *
+ * 按 ID 和帧类型查找报文，多路复用信号仅在选择信号的值匹配时解码 (支持扩展多路复用的多级选择)
+ */
+export class CanDatabase {
+  private readonly byName = new Map<string, DbcMessage>();
+  private readonly byId = new Map<string, DbcMessage>();
+
+  constructor(readonly database: DbcDatabase) {
+    for (const message of database.messages) {
+      this.byName.set(message.name, message);
+      this.byId.set(`${message.isExtended ? 'x' : 's'}${message.id}`, message);
+    }
+  }
+
+  /**
+   * 全部报文
+   */
+  get messages(): DbcMessage[] {
+    return this.database.messages;
+  }
+
+  /**
+   * 按名称查找报文
+   */
+  getMessage(name: string): DbcMessage | undefined {
+    return this.byName.get(name);
+  }
+
+  /**
+   * 按 ID 查找报文
+   */
+  getMessageById(id: number, isExtended = false): DbcMessage | undefined {
+    return this.byId.get(`${isExtended ? 'x' : 's'}${id}`);
+  }
+
+  /**
+   * 解码一帧，未定义的 ID 和远程帧返回 null
+   */
+  decode(frame: CanLinkMessage): DecodedMessage | null {
+    const message = this.getMessageById(frame.id, !!frame.isExtended);
+    if (!message || frame.isRemote) {
+      return null;
+    }
+    return this.decodeData(message, frame.data);
+  }
+
+  /**
+   * 按报文定义解码数据，超出数据长度的信号被跳过
+   */
+  decodeData(message: DbcMessage | string, data: Buffer | number[]): DecodedMessage {
+    const definition = typeof message === 'string' ? this.requireMessage(message) : message;
+    const raws = new Map<string, number | undefined>();
+    const rawOf = (signal: DbcSignal) => {
+      if (!raws.has(signal.name)) {
+        raws.set(signal.name, decodeSignalRaw(signal, data));
+      }
+      return raws.get(signal.name);
+    };
+
+    const signals: DecodedSignal[] = [];
+    const values: Record<string, number> = {};
+    for (const signal of definition.signals) {
+      if (!this.isActive(definition, signal, rawOf)) {
+        continue;
+      }
+      const raw = rawOf(signal);
+      if (raw === undefined) {
+        continue;
+      }
+      const value = raw * signal.factor + signal.offset;
+      const decoded: DecodedSignal = { signal, raw, value };
+      const label = signal.valueTable?.[raw];
+      if (label !== undefined) {
+        decoded.label = label;
+      }
+      signals.push(decoded);
+      values[signal.name] = value;
+    }
+    return { message: definition, values, signals };
+  }
+
+  /**
+   * 由信号值生成报文，返回值可直接用于 transmit、transmitBatch、addAutoSend 和 transmitQueue
+   *
+   * 先写入多路复用选择信号，只有在当前选择下激活的信号才会被写入。
+   * CANFD 报文数据长度向上取整到有效 DLC，并按 CANFD_BRS 设置比特率切换
+   * @param message 报文名或报文定义
+   * @param values 信号值 (物理值或值表描述)
+   * @throws {ZlgCanError} 报文或信号未定义、信号在当前多路复用选择下无效或超出范围时抛出异常
+   */
+  encode(message: DbcMessage | string, values: SignalValues = {}, options: EncodeOptions = {}): CanLinkMessage {
+    const definition = typeof message === 'string' ? this.requireMessage(message) : message;
+    const checkRange = options.checkRange ?? true;
+    for (const name of Object.keys(values)) {
+      if (!definition.signals.some((s) => s.name === name)) {
+        throw new ZlgCanError('encode', undefined, `报文 ${definition.name} 未定义信号: ${name}`);
+      }
+    }
+
+    const length = definition.isFd && definition.length > 8 ? canFdDataLength(definition.length) : definition.length;
+    const data = Buffer.alloc(length);
+    if (options.data) {
+      Buffer.from(options.data).copy(data);
+    }
+
+    // 选择信号先于被复用的信号写入
+    const written = new Set<string>();
+    const rawOf = (signal: DbcSignal) => decodeSignalRaw(signal, data);
+    const pending = [...definition.signals];
+    while (pending.length > 0) {
+      const index = pending.findIndex((s) => !s.multiplexerSignal || written.has(s.multiplexerSignal)
+        || !pending.some((p) => p.name === s.multiplexerSignal));
+      const [signal] = pending.splice(index === -1 ? 0 : index, 1);
+      written.add(signal.name);
+
+      const value = values[signal.name];
+      if (!this.isActive(definition, signal, rawOf)) {
+        if (value !== undefined) {
+          throw new ZlgCanError('encode', undefined, `信号 ${signal.name} 在当前多路复用选择下无效`);
+        }
+        continue;
+      }
+      if (value !== undefined) {
+        encodeSignal(signal, value, data, checkRange);
+      } else if (!options.data) {
+        const startValue = signal.attributes.GenSigStartValue;
+        encodeSignalRaw(signal, typeof startValue === 'number' ? startValue : 0, data);
+      }
+    }
+
+    const frame: CanLinkMessage = { id: definition.id, isExtended: definition.isExtended, data };
+    return definition.isFd ? { ...frame, brs: definition.brs } : frame;
+  }
+
+  /**
+   * 判断多路复用信号是否激活 (逐级检查选择信号)
+   */
+  private isActive(
+    message: DbcMessage,
+    signal: DbcSignal,
+    rawOf: (signal: DbcSignal) => number | undefined,
+    depth = 0,
+  ): boolean {
+    if (!signal.multiplexerRanges) {
+      return true;
+    }
+    const multiplexer = message.signals.find((s) => s.name === signal.multiplexerSignal);
+    if (!multiplexer || depth > message.signals.length || !this.isActive(message, multiplexer, rawOf, depth + 1)) {
+      return false;
+    }
+    const selector = rawOf(multiplexer);
+    return selector !== undefined && signal.multiplexerRanges.some((r) => selector >= r.from && selector <= r.to);
+  }
+
+  private requireMessage(name: string): DbcMessage {
+    const message = this.byName.get(name);
+    if (!message) {
+      throw new ZlgCanError('CanDatabase', undefined, `未定义的报文: ${name}`);
+    }
+    return message;
+  }
+}
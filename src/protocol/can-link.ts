@@ -0,0 +1,75 @@
+/**
+ * CAN 帧收发接口
+ * 协议层通过 CanLink 收发帧，CanfdWifi100uTcp 可直接作为 CanLink 使用，CanLoopback 用于无硬件测试
+ */
+
+import { CanMessage, CanFdMessage, AutoSendConfig } from '../device';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * CAN/CANFD 帧 (包含 brs 或 esi 字段时按 CANFD 帧发送)
+ */
+export type CanLinkMessage = CanMessage | CanFdMessage;
+
+/**
+ * CAN 帧收发接口
+ */
+export interface CanLink {
+  /** 立即发送一帧 */
+  transmit(message: CanLinkMessage): void;
+  /** 读取已接收的帧 (不等待) */
+  receive(maxCount?: number): CanLinkMessage[];
+  /** 队列发送，每帧在前一帧发出 delay (ms) 后发送，返回已加入队列的数量 (可选) */
+  transmitQueue?(items: { message: CanLinkMessage; delay: number }[]): number;
+  /** 发送队列可用长度 (可选) */
+  getAvailableTxCount?(): number;
+  /** 设置硬件周期发送，相同索引覆盖原有报文 (可选，需同时支持 applyAutoSend 和 clearAutoSend) */
+  addAutoSend?(config: AutoSendConfig): void;
+  /** 开始硬件周期发送 (可选) */
+  applyAutoSend?(): void;
+  /** 清除所有硬件周期发送 (可选) */
+  clearAutoSend?(): void;
+}
+
+// ============================================================================
+// 内存回环总线
+// ============================================================================
+
+/**
+ * 内存回环总线
+ *
+ * 每个端点发送的帧由其它所有端点接收，发送端自身不接收回显
+ */
+export class CanLoopback {
+  private readonly queues: CanLinkMessage[][] = [];
+
+  /**
+   * 创建连接到总线的端点
+   */
+  createLink(): CanLink {
+    const queue: CanLinkMessage[] = [];
+    this.queues.push(queue);
+    return {
+      transmit: (message) => {
+        const frame = { ...message, data: Buffer.from(message.data) };
+        for (const other of this.queues) {
+          if (other !== queue) {
+            other.push({ ...frame, data: Buffer.from(frame.data) });
+          }
+        }
+      },
+      receive: (maxCount = 100) => queue.splice(0, maxCount),
+    };
+  }
+}
+
+/**
+ * 创建一对互相连接的回环端点
+ */
+export function createCanLoopbackPair(): [CanLink, CanLink] {
+  const bus = new CanLoopback();
+  return [bus.createLink(), bus.createLink()];
+}
@@ -0,0 +1,118 @@
+/**
+ * CANopen 对象字典
+ * 按 EDS 描述查找对象、计算默认值和生成 PDO 映射项
+ */
+
+import { ZlgCanError } from '../driver';
+import { CANOPEN_DATA_TYPE, CanOpenValue, PdoMappingEntry, canOpenDataTypeBits } from './canopen';
+import { EdsFile, EdsObject, parseEds, parseEdsInteger } from './eds';
+
+/**
+ * 对象字典
+ */
+export class ObjectDictionary {
+  private readonly byName = new Map<string, EdsObject>();
+
+  constructor(readonly eds: EdsFile) {
+    for (const object of eds.objects.values()) {
+      this.byName.set(object.name, object);
+      for (const sub of object.subObjects.values()) {
+        this.byName.set(`${object.name}.${sub.name}`, sub);
+      }
+    }
+  }
+
+  /**
+   * 从 EDS 文件内容创建
+   */
+  static fromEds(content: string | Buffer): ObjectDictionary {
+    return new ObjectDictionary(parseEds(content));
+  }
+
+  /**
+   * 设备信息 ([DeviceInfo] 节)
+   */
+  get deviceInfo(): Record<string, string> {
+    return this.eds.deviceInfo;
+  }
+
+  /**
+   * 按索引查找条目
+   * @param subIndex 子索引，VAR 对象只有子索引 0
+   */
+  getObject(index: number, subIndex: number = 0): EdsObject | undefined {
+    const object = this.eds.objects.get(index);
+    if (!object) {
+      return undefined;
+    }
+    if (object.subObjects.size > 0) {
+      return object.subObjects.get(subIndex);
+    }
+    return subIndex === 0 ? object : undefined;
+  }
+
+  /**
+   * 按参数名查找条目，子对象为 "对象名.子对象名" (如 "Identity object.Vendor-ID")
+   */
+  getObjectByName(name: string): EdsObject | undefined {
+    return this.byName.get(name);
+  }
+
+  /**
+   * 计算默认值
+   * - 整数支持 "$NODEID+0x180" 形式的表达式
+   * - 字符串和其它非数值类型返回原文
+   * @param nodeId 节点 ID，用于替换 $NODEID
+   * @returns 条目不存在或没有默认值时返回 undefined
+   */
+  getDefaultValue(index: number, subIndex: number = 0, nodeId: number = 0): CanOpenValue | undefined {
+    const object = this.getObject(index, subIndex);
+    if (!object || object.defaultValue === undefined) {
+      return undefined;
+    }
+    const text = object.defaultValue;
+    const dataType = object.dataType ?? CANOPEN_DATA_TYPE.UNSIGNED32;
+    if (dataType === CANOPEN_DATA_TYPE.REAL32 || dataType === CANOPEN_DATA_TYPE.REAL64) {
+      return parseFloat(text);
+    }
+    const bits = canOpenDataTypeBits(dataType);
+    if (bits === undefined) {
+      return text;
+    }
+    const value = text.split('+').reduce((sum, term) => {
+      const trimmed = term.trim();
+      const value = trimmed.toUpperCase() === '$NODEID' ? nodeId : parseEdsInteger(trimmed);
+      if (Number.isNaN(value)) {
+        throw new ZlgCanError('getDefaultValue', undefined, `对象 ${index.toString(16).toUpperCase()}sub${subIndex} 的默认值无法解析: ${text}`);
+      }
+      return sum + value;
+    }, 0);
+    if (dataType === CANOPEN_DATA_TYPE.BOOLEAN) {
+      return value !== 0;
+    }
+    return bits > 48 ? BigInt(value) : value;
+  }
+
+  /**
+   * 生成 PDO 映射项，信号名为参数名
+   * @throws {ZlgCanError} 条目不存在、不可映射或数据类型长度未知时抛出异常
+   */
+  pdoEntry(index: number, subIndex: number = 0): PdoMappingEntry {
+    const object = this.getObject(index, subIndex);
+    const target = `${index.toString(16).toUpperCase()}sub${subIndex}`;
+    if (!object) {
+      throw new ZlgCanError('pdoEntry', undefined, `对象字典中不存在 ${target}`);
+    }
+    if (!object.pdoMapping) {
+      throw new ZlgCanError('pdoEntry', undefined, `对象 ${target} 不能映射到 PDO`);
+    }
+    // BOOLEAN 在 PDO 中占 1 位
+    const bitLength = object.dataType === CANOPEN_DATA_TYPE.BOOLEAN
+      ? 1
+      : object.dataType === undefined ? undefined : canOpenDataTypeBits(object.dataType);
+    if (bitLength === undefined) {
+      throw new ZlgCanError('pdoEntry', undefined, `对象 ${target} 的数据类型长度未知`);
+    }
+    return { index, subIndex, bitLength, dataType: object.dataType, name: object.name };
+  }
+}
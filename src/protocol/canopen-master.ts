@@ -0,0 +1,619 @@
+/**
+ * CANopen 主站
+ * 通过 CanLink 实现 NMT 命令、SDO 访问、PDO 配置和收发、SYNC 生产者、心跳/节点保护监控和 EMCY 接收
+ */
+
+import { EventEmitter } from 'events';
+import { ZlgCanError, startPollTimer } from '../driver';
+import { CanLink, CanLinkMessage } from './can-link';
+import {
+  CANOPEN_COB_ID,
+  CANOPEN_DATA_TYPE,
+  NMT_COMMAND,
+  NmtState,
+  CanOpenValue,
+  EmcyMessage,
+  PdoMappingEntry,
+  decodeNmtState,
+  decodeEmcy,
+  decodeCanOpenValue,
+  encodeCanOpenValue,
+  pdoMappingValue,
+  decodePdo,
+  encodePdo,
+} from './canopen';
+import { SdoClient, SdoTransferOptions } from './canopen-sdo';
+import { ObjectDictionary } from './canopen-dictionary';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * CANopen 主站配置
+ */
+export interface CanOpenMasterConfig {
+  /** SDO 响应超时时间 (ms)，默认 1000 */
+  sdoTimeout?: number;
+  /** SDO 块上传时每块的段数，默认 127 */
+  sdoBlockSize?: number;
+}
+
+/**
+ * PDO 方向：tpdo 为节点发送 (主站接收)，rpdo 为节点接收 (主站发送)
+ */
+export type PdoDirection = 'tpdo' | 'rpdo';
+
+/**
+ * PDO 配置
+ */
+export interface PdoConfig {
+  /** COB-ID，默认为预定义连接集 (仅 PDO 1-4) */
+  cobId?: number;
+  /** 传输类型 (0-240 同步，254/255 异步)，省略时不修改 */
+  transmissionType?: number;
+  /** 禁止时间 (100us)，省略时不修改 */
+  inhibitTime?: number;
+  /** 事件定时器 (ms)，省略时不修改 */
+  eventTimer?: number;
+  /** 映射项 */
+  mapping: PdoMappingEntry[];
+}
+
+/**
+ * 接收的 TPDO
+ */
+export interface PdoMessage {
+  /** 节点 ID */
+  nodeId: number;
+  /** PDO 编号 (从 1 开始) */
+  pdo: number;
+  /** COB-ID */
+  cobId: number;
+  /** 信号名 → 值 */
+  values: Record<string, CanOpenValue>;
+  /** 原始数据 */
+  data: Buffer;
+  /** 接收时间戳 */
+  timestamp?: bigint | number;
+}
+
+/**
+ * 本地登记的 PDO
+ */
+interface PdoEntry {
+  nodeId: number;
+  pdo: number;
+  cobId: number;
+  mapping: PdoMappingEntry[];
+}
+
+/**
+ * 心跳监控状态
+ */
+interface HeartbeatMonitor {
+  timeout: number;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * 节点保护状态
+ */
+interface NodeGuard {
+  lifeTime: number;
+  timer: NodeJS.Timeout;
+  toggle: number;
+  lastResponse: number;
+  timedOut: boolean;
+}
+
+function pdoKey(nodeId: number, pdo: number): string {
+  return `${nodeId}:${pdo}`;
+}
+
+// ============================================================================
+// 主站
+// ============================================================================
+
+/**
+ * CANopen 主站事件
+ */
+export interface CanOpenMasterEvents {
+  /** 节点状态变化 (来自启动消息、心跳或节点保护响应) */
+  nodeState: (nodeId: number, state: NmtState, previous: NmtState) => void;
+  /** 收到启动消息 */
+  bootup: (nodeId: number) => void;
+  /** 心跳或节点保护超时 */
+  nodeTimeout: (nodeId: number, source: 'heartbeat' | 'guarding') => void;
+  /** 收到紧急报文 */
+  emcy: (emcy: EmcyMessage) => void;
+  /** 收到已登记的 TPDO */
+  pdo: (message: PdoMessage) => void;
+  /** 轮询、SYNC 或节点保护发送失败 (没有监听器时忽略) */
+  error: (error: Error) => void;
+}
+
+export interface CanOpenMaster {
+  on<E extends keyof CanOpenMasterEvents>(event: E, listener: CanOpenMasterEvents[E]): this;
+  once<E extends keyof CanOpenMasterEvents>(event: E, listener: CanOpenMasterEvents[E]): this;
+  off<E extends keyof CanOpenMasterEvents>(event: E, listener: CanOpenMasterEvents[E]): this;
+  emit<E extends keyof CanOpenMasterEvents>(event: E, ...args: Parameters<CanOpenMasterEvents[E]>): boolean;
+}
+
+/**
+ * CANopen 主站
+ *
+ * 接收的帧由 poll() 处理 (start() 开始周期轮询)。SYNC、心跳和节点保护使用主机定时器，
+ * 周期精度取决于事件循环负载
+ */
+export class CanOpenMaster extends EventEmitter {
+  private readonly config: Required<CanOpenMasterConfig>;
+  private readonly sdoClients = new Map<number, SdoClient>();
+  private readonly dictionaries = new Map<number, ObjectDictionary>();
+  private readonly states = new Map<number, NmtState>();
+  private readonly heartbeats = new Map<number, HeartbeatMonitor>();
+  private readonly guards = new Map<number, NodeGuard>();
+  private readonly tpdos = new Map<number, PdoEntry>();
+  private readonly rpdos = new Map<string, PdoEntry>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private syncTimer: NodeJS.Timeout | null = null;
+  private syncCounter = 0;
+
+  constructor(private readonly link: CanLink, config: CanOpenMasterConfig = {}) {
+    super();
+    this.config = {
+      sdoTimeout: 1000,
+      sdoBlockSize: 127,
+      ...config,
+    };
+  }
+
+  // ============================================================================
+  // 轮询
+  // ============================================================================
+
+  /**
+   * 开始周期轮询接收帧
+   * @param interval 轮询间隔 (ms)，默认 1
+   */
+  start(interval: number = 1): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+    this.pollTimer = startPollTimer(this, interval, () => this.poll());
+  }
+
+  /**
+   * 停止轮询、SYNC、心跳监控和节点保护
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.stopSync();
+    for (const nodeId of [...this.heartbeats.keys()]) {
+      this.stopHeartbeatMonitor(nodeId);
+    }
+    for (const nodeId of [...this.guards.keys()]) {
+      this.stopNodeGuarding(nodeId);
+    }
+  }
+
+  /**
+   * 是否正在轮询
+   */
+  isRunning(): boolean {
+    return this.pollTimer !== null;
+  }
+
+  /**
+   * 读取并处理已接收的帧
+   * @param maxCount 最大读取数量，默认 100
+   */
+  poll(maxCount: number = 100): void {
+    for (const frame of this.link.receive(maxCount)) {
+      this.handleFrame(frame);
+    }
+  }
+
+  /**
+   * 处理一帧，扩展帧被忽略
+   */
+  handleFrame(frame: CanLinkMessage): void {
+    if (frame.isExtended) {
+      return;
+    }
+    const id = frame.id;
+    if (id > CANOPEN_COB_ID.SDO_TX && id <= CANOPEN_COB_ID.SDO_TX + 0x7F) {
+      this.sdoClients.get(id - CANOPEN_COB_ID.SDO_TX)?.handleFrame(frame);
+      return;
+    }
+    if (frame.isRemote) {
+      return;
+    }
+    const data = Buffer.from(frame.data);
+    if (id > CANOPEN_COB_ID.HEARTBEAT && id <= CANOPEN_COB_ID.HEARTBEAT + 0x7F && data.length >= 1) {
+      this.handleHeartbeat(id - CANOPEN_COB_ID.HEARTBEAT, data[0]);
+      return;
+    }
+    const pdo = this.tpdos.get(id);
+    if (pdo) {
+      this.emit('pdo', {
+        nodeId: pdo.nodeId,
+        pdo: pdo.pdo,
+        cobId: id,
+        values: decodePdo(pdo.mapping, data),
+        data,
+        timestamp: frame.timestamp,
+      });
+      return;
+    }
+    if (id > CANOPEN_COB_ID.EMCY && id <= CANOPEN_COB_ID.EMCY + 0x7F && data.length > 0) {
+      this.emit('emcy', decodeEmcy(id - CANOPEN_COB_ID.EMCY, data));
+    }
+  }
+
+  // ============================================================================
+  // NMT
+  // ============================================================================
+
+  /**
+   * 发送 NMT 命令
+   * @param command NMT_COMMAND
+   * @param nodeId 节点 ID，0 表示全部节点
+   */
+  nmt(command: number, nodeId: number = 0): void {
+    this.link.transmit({ id: CANOPEN_COB_ID.NMT, data: [command, nodeId] });
+  }
+
+  /**
+   * 进入运行状态
+   */
+  startNode(nodeId: number = 0): void {
+    this.nmt(NMT_COMMAND.START, nodeId);
+  }
+
+  /**
+   * 进入停止状态
+   */
+  stopNode(nodeId: number = 0): void {
+    this.nmt(NMT_COMMAND.STOP, nodeId);
+  }
+
+  /**
+   * 进入预运行状态
+   */
+  enterPreOperational(nodeId: number = 0): void {
+    this.nmt(NMT_COMMAND.ENTER_PRE_OPERATIONAL, nodeId);
+  }
+
+  /**
+   * 复位节点
+   */
+  resetNode(nodeId: number = 0): void {
+    this.nmt(NMT_COMMAND.RESET_NODE, nodeId);
+  }
+
+  /**
+   * 复位通信
+   */
+  resetCommunication(nodeId: number = 0): void {
+    this.nmt(NMT_COMMAND.RESET_COMMUNICATION, nodeId);
+  }
+
+  /**
+   * 最近一次观察到的节点状态
+   */
+  getNodeState(nodeId: number): NmtState {
+    return this.states.get(nodeId) ?? 'unknown';
+  }
+
+  // ============================================================================
+  // 心跳和节点保护
+  // ============================================================================
+
+  /**
+   * 监控节点心跳
+   *
+   * 收到第一个心跳后开始计时，超过 timeout 未收到下一个心跳时触发 nodeTimeout 事件，
+   * 并将节点状态置为 unknown
+   * @param timeout 心跳超时时间 (ms)，通常为节点心跳周期的 1.5 倍
+   */
+  monitorHeartbeat(nodeId: number, timeout: number): void {
+    this.stopHeartbeatMonitor(nodeId);
+    this.heartbeats.set(nodeId, { timeout, timer: null });
+  }
+
+  /**
+   * 停止监控节点心跳
+   */
+  stopHeartbeatMonitor(nodeId: number): void {
+    const monitor = this.heartbeats.get(nodeId);
+    if (monitor?.timer) {
+      clearTimeout(monitor.timer);
+    }
+    this.heartbeats.delete(nodeId);
+  }
+
+  /**
+   * 开始节点保护
+   *
+   * 每隔 guardTime 发送远程帧请求节点状态，超过 guardTime × lifeTimeFactor 未收到
+   * 翻转位正确的响应时触发 nodeTimeout 事件
+   * @param guardTime 保护时间 (ms)
+   * @param lifeTimeFactor 寿命因子，默认 3
+   */
+  startNodeGuarding(nodeId: number, guardTime: number, lifeTimeFactor: number = 3): void {
+    this.stopNodeGuarding(nodeId);
+    const timer = startPollTimer(this, guardTime, () => {
+      const guard = this.guards.get(nodeId);
+      if (!guard) {
+        return;
+      }
+      if (!guard.timedOut && Date.now() - guard.lastResponse > guard.lifeTime) {
+        guard.timedOut = true;
+        this.setState(nodeId, 'unknown');
+        this.emit('nodeTimeout', nodeId, 'guarding');
+      }
+      this.link.transmit({ id: CANOPEN_COB_ID.HEARTBEAT + nodeId, data: [], isRemote: true });
+    });
+    this.guards.set(nodeId, { lifeTime: guardTime * lifeTimeFactor, timer, toggle: 0, lastResponse: Date.now(), timedOut: false });
+  }
+
+  /**
+   * 停止节点保护
+   */
+  stopNodeGuarding(nodeId: number): void {
+    const guard = this.guards.get(nodeId);
+    if (guard) {
+      clearInterval(guard.timer);
+    }
+    this.guards.delete(nodeId);
+  }
+
+  private handleHeartbeat(nodeId: number, value: number): void {
+    const state = decodeNmtState(value);
+    const guard = this.guards.get(nodeId);
+    if (state === 'bootup') {
+      if (guard) {
+        guard.toggle = 0;
+      }
+      this.emit('bootup', nodeId);
+    } else if (guard) {
+      // 节点保护响应的最高位为翻转位，翻转位错误的响应视为未收到
+      if (value >> 7 !== guard.toggle) {
+        return;
+      }
+      guard.toggle ^= 1;
+      guard.lastResponse = Date.now();
+      guard.timedOut = false;
+    }
+
+    const monitor = this.heartbeats.get(nodeId);
+    if (monitor) {
+      if (monitor.timer) {
+        clearTimeout(monitor.timer);
+      }
+      monitor.timer = setTimeout(() => {
+        monitor.timer = null;
+        this.setState(nodeId, 'unknown');
+        this.emit('nodeTimeout', nodeId, 'heartbeat');
+      }, monitor.timeout);
+      monitor.timer.unref();
+    }
+    this.setState(nodeId, state);
+  }
+
+  private setState(nodeId: number, state: NmtState): void {
+    const previous = this.getNodeState(nodeId);
+    this.states.set(nodeId, state);
+    if (previous !== state) {
+      this.emit('nodeState', nodeId, state, previous);
+    }
+  }
+
+  // ============================================================================
+  // SYNC
+  // ============================================================================
+
+  /**
+   * 开始周期发送 SYNC
+   * @param period 周期 (ms)
+   * @param counterOverflow 计数器溢出值 (2-240)，0 表示不带计数器
+   */
+  startSync(period: number, counterOverflow: number = 0): void {
+    if (counterOverflow !== 0 && (counterOverflow < 2 || counterOverflow > 240)) {
+      throw new RangeError(`SYNC 计数器溢出值必须为 0 或 2-240: ${counterOverflow}`);
+    }
+    this.stopSync();
+    this.syncCounter = 0;
+    this.syncTimer = startPollTimer(this, period, () => this.sendSync(counterOverflow));
+  }
+
+  /**
+   * 停止发送 SYNC
+   */
+  stopSync(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  /**
+   * 发送一帧 SYNC
+   * @param counterOverflow 计数器溢出值，0 表示不带计数器
+   */
+  sendSync(counterOverflow: number = 0): void {
+    if (counterOverflow === 0) {
+      this.link.transmit({ id: CANOPEN_COB_ID.SYNC, data: [] });
+      return;
+    }
+    this.syncCounter = this.syncCounter >= counterOverflow ? 1 : this.syncCounter + 1;
+    this.link.transmit({ id: CANOPEN_COB_ID.SYNC, data: [this.syncCounter] });
+  }
+
+  // ============================================================================
+  // SDO
+  // ============================================================================
+
+  /**
+   * 节点的 SDO 客户端 (首次访问时创建)
+   */
+  getSdoClient(nodeId: number): SdoClient {
+    if (nodeId < 1 || nodeId > 127) {
+      throw new RangeError(`节点 ID 必须为 1-127: ${nodeId}`);
+    }
+    let client = this.sdoClients.get(nodeId);
+    if (!client) {
+      client = new SdoClient(this.link, { nodeId, timeout: this.config.sdoTimeout, blockSize: this.config.sdoBlockSize });
+      this.sdoClients.set(nodeId, client);
+    }
+    return client;
+  }
+
+  /**
+   * SDO 上传 (读取)
+   * @throws {SdoAbortError} 服务器中止或超时时抛出异常
+   */
+  sdoUpload(nodeId: number, index: number, subIndex: number, options?: SdoTransferOptions): Promise<Buffer> {
+    return this.getSdoClient(nodeId).upload(index, subIndex, options);
+  }
+
+  /**
+   * SDO 下载 (写入)
+   * @throws {SdoAbortError} 服务器中止或超时时抛出异常
+   */
+  sdoDownload(nodeId: number, index: number, subIndex: number, data: Buffer | number[], options?: SdoTransferOptions): Promise<void> {
+    return this.getSdoClient(nodeId).download(index, subIndex, data, options);
+  }
+
+  /**
+   * 设置节点的对象字典，用于 readObject()/writeObject() 的数据类型转换
+   */
+  setDictionary(nodeId: number, dictionary: ObjectDictionary): void {
+    this.dictionaries.set(nodeId, dictionary);
+  }
+
+  /**
+   * 节点的对象字典
+   */
+  getDictionary(nodeId: number): ObjectDictionary | undefined {
+    return this.dictionaries.get(nodeId);
+  }
+
+  /**
+   * 按对象字典的数据类型读取对象
+   * @throws {ZlgCanError} 未设置对象字典或对象不存在时抛出异常
+   * @throws {SdoAbortError} 服务器中止或超时时抛出异常
+   */
+  async readObject(nodeId: number, index: number, subIndex: number = 0, options?: SdoTransferOptions): Promise<CanOpenValue> {
+    const dataType = this.objectDataType('readObject', nodeId, index, subIndex);
+    return decodeCanOpenValue(dataType, await this.sdoUpload(nodeId, index, subIndex, options));
+  }
+
+  /**
+   * 按对象字典的数据类型写入对象
+   * @throws {ZlgCanError} 未设置对象字典、对象不存在或值超出类型范围时抛出异常
+   * @throws {SdoAbortError} 服务器中止或超时时抛出异常
+   */
+  writeObject(nodeId: number, index: number, subIndex: number, value: CanOpenValue, options?: SdoTransferOptions): Promise<void> {
+    const dataType = this.objectDataType('writeObject', nodeId, index, subIndex);
+    return this.sdoDownload(nodeId, index, subIndex, encodeCanOpenValue(dataType, value), options);
+  }
+
+  private objectDataType(operation: string, nodeId: number, index: number, subIndex: number): number {
+    const dictionary = this.dictionaries.get(nodeId);
+    if (!dictionary) {
+      throw new ZlgCanError(operation, undefined, `节点 ${nodeId} 未设置对象字典`);
+    }
+    const dataType = dictionary.getObject(index, subIndex)?.dataType;
+    if (dataType === undefined) {
+      throw new ZlgCanError(operation, undefined, `节点 ${nodeId} 的对象字典中不存在 ${index.toString(16).toUpperCase()}sub${subIndex}`);
+    }
+    return dataType;
+  }
+
+  // ============================================================================
+  // PDO
+  // ============================================================================
+
+  /**
+   * 通过 SDO 配置节点的 PDO 并在本地登记映射
+   *
+   * 依次禁用 PDO (COB-ID 第 31 位)、写入通信参数、清空并写入映射参数，最后重新启用 PDO
+   * @param pdo PDO 编号 (1-512)
+   * @throws {SdoAbortError} 节点拒绝配置时抛出异常
+   */
+  async configurePdo(nodeId: number, direction: PdoDirection, pdo: number, config: PdoConfig): Promise<void> {
+    const cobId = this.pdoCobId(nodeId, direction, pdo, config.cobId);
+    const communication = (direction === 'tpdo' ? 0x1800 : 0x1400) + pdo - 1;
+    const mappingIndex = communication + 0x200;
+    const u8 = (value: number): Buffer => encodeCanOpenValue(CANOPEN_DATA_TYPE.UNSIGNED8, value);
+    const u16 = (value: number): Buffer => encodeCanOpenValue(CANOPEN_DATA_TYPE.UNSIGNED16, value);
+    const u32 = (value: number): Buffer => encodeCanOpenValue(CANOPEN_DATA_TYPE.UNSIGNED32, value);
+
+    await this.sdoDownload(nodeId, communication, 1, u32((cobId | 0x80000000) >>> 0));
+    if (config.transmissionType !== undefined) {
+      await this.sdoDownload(nodeId, communication, 2, u8(config.transmissionType));
+    }
+    if (config.inhibitTime !== undefined) {
+      await this.sdoDownload(nodeId, communication, 3, u16(config.inhibitTime));
+    }
+    if (config.eventTimer !== undefined) {
+      await this.sdoDownload(nodeId, communication, 5, u16(config.eventTimer));
+    }
+    await this.sdoDownload(nodeId, mappingIndex, 0, u8(0));
+    for (let i = 0; i < config.mapping.length; i++) {
+      await this.sdoDownload(nodeId, mappingIndex, i + 1, u32(pdoMappingValue(config.mapping[i])));
+    }
+    await this.sdoDownload(nodeId, mappingIndex, 0, u8(config.mapping.length));
+    await this.sdoDownload(nodeId, communication, 1, u32(cobId));
+
+    this.mapPdo(nodeId, direction, pdo, config.mapping, cobId);
+  }
+
+  /**
+   * 仅在本地登记 PDO 映射 (节点已按此映射配置时使用)
+   * @param cobId COB-ID，默认为预定义连接集 (仅 PDO 1-4)
+   */
+  mapPdo(nodeId: number, direction: PdoDirection, pdo: number, mapping: PdoMappingEntry[], cobId?: number): void {
+    const entry = { nodeId, pdo, cobId: this.pdoCobId(nodeId, direction, pdo, cobId), mapping };
+    if (direction === 'tpdo') {
+      for (const [id, existing] of this.tpdos) {
+        if (existing.nodeId === nodeId && existing.pdo === pdo) {
+          this.tpdos.delete(id);
+        }
+      }
+      this.tpdos.set(entry.cobId, entry);
+    } else {
+      this.rpdos.set(pdoKey(nodeId, pdo), entry);
+    }
+  }
+
+  /**
+   * 按已登记的映射发送 RPDO
+   * @throws {ZlgCanError} RPDO 未登记、信号未映射或值超出范围时抛出异常
+   */
+  sendRpdo(nodeId: number, pdo: number, values: Record<string, CanOpenValue>): void {
+    const entry = this.rpdos.get(pdoKey(nodeId, pdo));
+    if (!entry) {
+      throw new ZlgCanError('sendRpdo', undefined, `节点 ${nodeId} 的 RPDO${pdo} 未登记映射`);
+    }
+    this.link.transmit({ id: entry.cobId, data: encodePdo(entry.mapping, values) });
+  }
+
+  private pdoCobId(nodeId: number, direction: PdoDirection, pdo: number, cobId?: number): number {
+    if (pdo < 1 || pdo > 512) {
+      throw new RangeError(`PDO 编号必须为 1-512: ${pdo}`);
+    }
+    if (cobId !== undefined) {
+      return cobId;
+    }
+    if (pdo > 4) {
+      throw new ZlgCanError('configurePdo', undefined, `PDO${pdo} 没有预定义 COB-ID，请指定 cobId`);
+    }
+    return (direction === 'tpdo' ? CANOPEN_COB_ID.TPDO1 : CANOPEN_COB_ID.RPDO1) + (pdo - 1) * 0x100 + nodeId;
+  }
+}
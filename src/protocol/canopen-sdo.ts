@@ -0,0 +1,368 @@
+/**
+ * CANopen SDO 客户端
+ * 快速、分段和块传输方式的上传 (读) 和下载 (写)，服务器中止和超时以 SdoAbortError 报告
+ */
+
+import { CanLink, CanLinkMessage } from './can-link';
+import { CANOPEN_COB_ID, SDO_ABORT, SdoAbortError } from './canopen';
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/** 中止传输命令字 */
+const CS_ABORT = 0x80;
+
+/** 块传输序号最大值 */
+const MAX_BLOCK_SIZE = 127;
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * SDO 客户端配置
+ */
+export interface SdoClientConfig {
+  /** 服务器节点 ID (1-127) */
+  nodeId: number;
+  /** 等待服务器响应的超时时间 (ms)，默认 1000 */
+  timeout?: number;
+  /** 块上传时每块的段数 (1-127)，默认 127 */
+  blockSize?: number;
+  /** 客户端 → 服务器的 COB-ID，默认 0x600 + 节点 ID */
+  requestCobId?: number;
+  /** 服务器 → 客户端的 COB-ID，默认 0x580 + 节点 ID */
+  responseCobId?: number;
+}
+
+/**
+ * 传输选项
+ */
+export interface SdoTransferOptions {
+  /** 使用块传输，默认 false (数据不超过 4 字节时使用快速传输，否则使用分段传输) */
+  block?: boolean;
+  /** 本次传输的响应超时时间 (ms)，默认使用客户端配置 */
+  timeout?: number;
+}
+
+/**
+ * CRC-16-CCITT (多项式 0x1021，初值 0)，用于块传输校验
+ */
+export function sdoBlockCrc(data: Buffer | number[]): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xFFFF : (crc << 1) & 0xFFFF;
+    }
+  }
+  return crc;
+}
+
+// ============================================================================
+// SDO 客户端
+// ============================================================================
+
+/**
+ * SDO 客户端
+ *
+ * 接收的帧由 handleFrame() 处理 (CanOpenMaster 会自动分发，单独使用时调用 poll())，
+ * 同一客户端的多次传输按调用顺序依次进行
+ */
+export class SdoClient {
+  private readonly config: Required<SdoClientConfig>;
+  private readonly responses: Buffer[] = [];
+  private waiter: ((data: Buffer | null) => void) | null = null;
+  private chain: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly link: CanLink, config: SdoClientConfig) {
+    this.config = {
+      timeout: 1000,
+      blockSize: MAX_BLOCK_SIZE,
+      requestCobId: CANOPEN_COB_ID.SDO_RX + config.nodeId,
+      responseCobId: CANOPEN_COB_ID.SDO_TX + config.nodeId,
+      ...config,
+    };
+  }
+
+  /**
+   * 服务器节点 ID
+   */
+  get nodeId(): number {
+    return this.config.nodeId;
+  }
+
+  /**
+   * 读取并处理已接收的帧
+   * @param maxCount 最大读取数量，默认 100
+   */
+  poll(maxCount: number = 100): void {
+    for (const frame of this.link.receive(maxCount)) {
+      this.handleFrame(frame);
+    }
+  }
+
+  /**
+   * 处理一帧
+   * @returns 是否为本客户端的响应帧
+   */
+  handleFrame(frame: CanLinkMessage): boolean {
+    if (frame.id !== this.config.responseCobId || frame.isExtended || frame.isRemote || frame.data.length < 8) {
+      return false;
+    }
+    const data = Buffer.from(frame.data);
+    if (this.waiter) {
+      this.waiter(data);
+    } else {
+      this.responses.push(data);
+    }
+    return true;
+  }
+
+  /**
+   * 上传 (读取) 对象
+   * @returns 对象数据
+   * @throws {SdoAbortError} 服务器中止、超时或协议错误时抛出异常
+   */
+  upload(index: number, subIndex: number, options: SdoTransferOptions = {}): Promise<Buffer> {
+    return this.enqueue(() => (options.block
+      ? this.blockUpload(index, subIndex, options.timeout ?? this.config.timeout)
+      : this.segmentedUpload(index, subIndex, options.timeout ?? this.config.timeout)));
+  }
+
+  /**
+   * 下载 (写入) 对象
+   * @throws {SdoAbortError} 服务器中止、超时或协议错误时抛出异常
+   */
+  download(index: number, subIndex: number, data: Buffer | number[], options: SdoTransferOptions = {}): Promise<void> {
+    const payload = Buffer.from(data);
+    return this.enqueue(() => (options.block
+      ? this.blockDownload(index, subIndex, payload, options.timeout ?? this.config.timeout)
+      : this.segmentedDownload(index, subIndex, payload, options.timeout ?? this.config.timeout)));
+  }
+
+  private enqueue<T>(transfer: () => Promise<T>): Promise<T> {
+    const result = this.chain.then(() => {
+      this.responses.length = 0;
+      return transfer();
+    });
+    this.chain = result.catch(() => undefined);
+    return result;
+  }
+
+  // ============================================================================
+  // 快速和分段传输
+  // ============================================================================
+
+  private async segmentedUpload(index: number, subIndex: number, timeout: number): Promise<Buffer> {
+    const context = { index, subIndex, timeout };
+    this.send([0x40, index & 0xFF, index >> 8, subIndex]);
+    const initiate = await this.expect(context, (r) => r[0] >> 5 === 2);
+
+    // 快速传输
+    if (initiate[0] & 0x02) {
+      const size = initiate[0] & 0x01 ? 4 - ((initiate[0] >> 2) & 0x03) : 4;
+      return initiate.subarray(4, 4 + size);
+    }
+
+    const size = initiate[0] & 0x01 ? initiate.readUInt32LE(4) : undefined;
+    const chunks: Buffer[] = [];
+    let toggle = 0;
+    for (;;) {
+      this.send([0x60 | (toggle << 4)]);
+      const segment = await this.expect(context, (r) => r[0] >> 5 === 0);
+      if (((segment[0] >> 4) & 0x01) !== toggle) {
+        throw this.abort(context, SDO_ABORT.TOGGLE_BIT);
+      }
+      chunks.push(segment.subarray(1, 8 - ((segment[0] >> 1) & 0x07)));
+      if (segment[0] & 0x01) {
+        break;
+      }
+      toggle ^= 1;
+    }
+
+    const data = Buffer.concat(chunks);
+    if (size !== undefined && data.length !== size) {
+      throw this.abort(context, SDO_ABORT.LENGTH_MISMATCH);
+    }
+    return data;
+  }
+
+  private async segmentedDownload(index: number, subIndex: number, data: Buffer, timeout: number): Promise<void> {
+    const context = { index, subIndex, timeout };
+    if (data.length > 0 && data.length <= 4) {
+      this.send([0x23 | ((4 - data.length) << 2), index & 0xFF, index >> 8, subIndex, ...data]);
+      await this.expect(context, (r) => r[0] >> 5 === 3);
+      return;
+    }
+
+    const size = Buffer.alloc(4);
+    size.writeUInt32LE(data.length);
+    this.send([0x21, index & 0xFF, index >> 8, subIndex, ...size]);
+    await this.expect(context, (r) => r[0] >> 5 === 3);
+
+    let toggle = 0;
+    for (let offset = 0; offset < data.length || offset === 0; offset += 7) {
+      const chunk = data.subarray(offset, offset + 7);
+      const last = offset + 7 >= data.length;
+      this.send([(toggle << 4) | ((7 - chunk.length) << 1) | (last ? 0x01 : 0x00), ...chunk]);
+      const response = await this.expect(context, (r) => r[0] >> 5 === 1);
+      if (((response[0] >> 4) & 0x01) !== toggle) {
+        throw this.abort(context, SDO_ABORT.TOGGLE_BIT);
+      }
+      toggle ^= 1;
+      if (last) {
+        break;
+      }
+    }
+  }
+
+  // ============================================================================
+  // 块传输
+  // ============================================================================
+
+  private async blockUpload(index: number, subIndex: number, timeout: number): Promise<Buffer> {
+    const context = { index, subIndex, timeout };
+    const blockSize = Math.min(MAX_BLOCK_SIZE, Math.max(1, this.config.blockSize));
+    this.send([0xA4, index & 0xFF, index >> 8, subIndex, blockSize, 0]);
+    const initiate = await this.expect(context, (r) => r[0] >> 5 === 6 && (r[0] & 0x01) === 0);
+    const crcSupported = (initiate[0] & 0x04) !== 0;
+    const size = initiate[0] & 0x02 ? initiate.readUInt32LE(4) : undefined;
+    this.send([0xA3]);
+
+    const chunks: Buffer[] = [];
+    let expected = 1;
+    for (;;) {
+      const segment = await this.next(context);
+      const sequence = segment[0] & 0x7F;
+      const last = (segment[0] & 0x80) !== 0;
+      if (segment[0] === CS_ABORT) {
+        throw new SdoAbortError(this.config.nodeId, index, subIndex, segment.readUInt32LE(4), true);
+      }
+      if (sequence === expected) {
+        chunks.push(segment.subarray(1, 8));
+        expected++;
+      }
+      if (last || sequence === blockSize) {
+        // 确认最后一个连续收到的序号，服务器从其后重发 (最后一段之前有丢失时同样确认)
+        this.send([0xA2, expected - 1, blockSize]);
+        if (last && sequence === expected - 1) {
+          break;
+        }
+        expected = 1;
+      }
+    }
+
+    const end = await this.expect(context, (r) => r[0] >> 5 === 6 && (r[0] & 0x03) === 1);
+    const unused = (end[0] >> 2) & 0x07;
+    const all = Buffer.concat(chunks);
+    const data = all.subarray(0, all.length - unused);
+    if (crcSupported && end.readUInt16LE(1) !== sdoBlockCrc(data)) {
+      throw this.abort(context, SDO_ABORT.CRC_ERROR);
+    }
+    if (size !== undefined && data.length !== size) {
+      throw this.abort(context, SDO_ABORT.LENGTH_MISMATCH);
+    }
+    this.send([0xA1]);
+    return data;
+  }
+
+  private async blockDownload(index: number, subIndex: number, data: Buffer, timeout: number): Promise<void> {
+    const context = { index, subIndex, timeout };
+    const size = Buffer.alloc(4);
+    size.writeUInt32LE(data.length);
+    this.send([0xC6, index & 0xFF, index >> 8, subIndex, ...size]);
+    const initiate = await this.expect(context, (r) => r[0] >> 5 === 5 && (r[0] & 0x03) === 0);
+    const crcSupported = (initiate[0] & 0x04) !== 0;
+    let blockSize = initiate[4];
+    if (blockSize < 1 || blockSize > MAX_BLOCK_SIZE) {
+      throw this.abort(context, SDO_ABORT.INVALID_BLOCK_SIZE);
+    }
+
+    const segments = Math.max(1, Math.ceil(data.length / 7));
+    let next = 0;
+    while (next < segments) {
+      const count = Math.min(blockSize, segments - next);
+      for (let sequence = 1; sequence <= count; sequence++) {
+        const segment = next + sequence - 1;
+        const chunk = data.subarray(segment * 7, segment * 7 + 7);
+        const last = segment === segments - 1;
+        this.send([(last ? 0x80 : 0x00) | sequence, ...chunk]);
+      }
+      const ack = await this.expect(context, (r) => r[0] >> 5 === 5 && (r[0] & 0x03) === 2);
+      if (ack[1] > count) {
+        throw this.abort(context, SDO_ABORT.INVALID_SEQUENCE);
+      }
+      next += ack[1];
+      blockSize = ack[2];
+      if (blockSize < 1 || blockSize > MAX_BLOCK_SIZE) {
+        throw this.abort(context, SDO_ABORT.INVALID_BLOCK_SIZE);
+      }
+    }
+
+    const unused = segments * 7 - data.length;
+    const crc = crcSupported ? sdoBlockCrc(data) : 0;
+    this.send([0xC1 | (unused << 2), crc & 0xFF, crc >> 8]);
+    await this.expect(context, (r) => r[0] >> 5 === 5 && (r[0] & 0x03) === 1);
+  }
+
+  // ============================================================================
+  // 收发
+  // ============================================================================
+
+  private send(data: number[]): void {
+    const payload = Buffer.alloc(8);
+    Buffer.from(data).copy(payload);
+    this.link.transmit({ id: this.config.requestCobId, data: payload });
+  }
+
+  /**
+   * 等待下一个响应，超时时发送中止并抛出异常
+   */
+  private next(context: { index: number; subIndex: number; timeout: number }): Promise<Buffer> {
+    const queued = this.responses.shift();
+    if (queued) {
+      return Promise.resolve(queued);
+    }
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiter = null;
+        reject(this.abort(context, SDO_ABORT.TIMEOUT));
+      }, context.timeout);
+      this.waiter = (data) => {
+        clearTimeout(timer);
+        this.waiter = null;
+        resolve(data!);
+      };
+    });
+  }
+
+  /**
+   * 等待指定命令字的响应，服务器中止或收到其它命令字时抛出异常
+   */
+  private async expect(
+    context: { index: number; subIndex: number; timeout: number },
+    match: (response: Buffer) => boolean,
+  ): Promise<Buffer> {
+    const response = await this.next(context);
+    if (response[0] === CS_ABORT) {
+      throw new SdoAbortError(this.config.nodeId, context.index, context.subIndex, response.readUInt32LE(4), true);
+    }
+    if (!match(response)) {
+      throw this.abort(context, SDO_ABORT.INVALID_COMMAND);
+    }
+    return response;
+  }
+
+  /**
+   * 发送中止传输帧
+   * @returns 对应的异常
+   */
+  private abort(context: { index: number; subIndex: number }, abortCode: number): SdoAbortError {
+    const code = Buffer.alloc(4);
+    code.writeUInt32LE(abortCode);
+    this.send([CS_ABORT, context.index & 0xFF, context.index >> 8, context.subIndex, ...code]);
+    return new SdoAbortError(this.config.nodeId, context.index, context.subIndex, abortCode);
+  }
+}
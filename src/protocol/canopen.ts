@@ -0,0 +1,576 @@
+/**
+ * CANopen 常量和编解码 (CiA 301)
+ * COB-ID、NMT 命令和状态、SDO 中止码、EMCY 解码、对象字典数据类型和 PDO 映射编解码
+ */
+
+import { ZlgCanError, ErrorLocale, getErrorLocale } from '../driver';
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/**
+ * 预定义连接集的 COB-ID 基址 (加节点 ID)
+ */
+export const CANOPEN_COB_ID = {
+  NMT: 0x000,
+  SYNC: 0x080,
+  EMCY: 0x080,
+  TIME: 0x100,
+  TPDO1: 0x180,
+  RPDO1: 0x200,
+  TPDO2: 0x280,
+  RPDO2: 0x300,
+  TPDO3: 0x380,
+  RPDO3: 0x400,
+  TPDO4: 0x480,
+  RPDO4: 0x500,
+  /** SDO 服务器 → 客户端 */
+  SDO_TX: 0x580,
+  /** SDO 客户端 → 服务器 */
+  SDO_RX: 0x600,
+  /** 心跳、节点保护和启动消息 */
+  HEARTBEAT: 0x700,
+} as const;
+
+/**
+ * NMT 命令
+ */
+export const NMT_COMMAND = {
+  START: 0x01,
+  STOP: 0x02,
+  ENTER_PRE_OPERATIONAL: 0x80,
+  RESET_NODE: 0x81,
+  RESET_COMMUNICATION: 0x82,
+} as const;
+
+/**
+ * NMT 状态
+ */
+export type NmtState = 'bootup' | 'stopped' | 'operational' | 'preOperational' | 'unknown';
+
+const NMT_STATES: Record<number, NmtState> = {
+  0x00: 'bootup',
+  0x04: 'stopped',
+  0x05: 'operational',
+  0x7F: 'preOperational',
+};
+
+/**
+ * 对象字典数据类型
+ */
+export const CANOPEN_DATA_TYPE = {
+  BOOLEAN: 0x01,
+  INTEGER8: 0x02,
+  INTEGER16: 0x03,
+  INTEGER32: 0x04,
+  UNSIGNED8: 0x05,
+  UNSIGNED16: 0x06,
+  UNSIGNED32: 0x07,
+  REAL32: 0x08,
+  VISIBLE_STRING: 0x09,
+  OCTET_STRING: 0x0A,
+  UNICODE_STRING: 0x0B,
+  TIME_OF_DAY: 0x0C,
+  TIME_DIFFERENCE: 0x0D,
+  DOMAIN: 0x0F,
+  INTEGER24: 0x10,
+  REAL64: 0x11,
+  INTEGER40: 0x12,
+  INTEGER48: 0x13,
+  INTEGER56: 0x14,
+  INTEGER64: 0x15,
+  UNSIGNED24: 0x16,
+  UNSIGNED40: 0x18,
+  UNSIGNED48: 0x19,
+  UNSIGNED56: 0x1A,
+  UNSIGNED64: 0x1B,
+} as const;
+
+/**
+ * SDO 中止码
+ */
+export const SDO_ABORT = {
+  TOGGLE_BIT: 0x05030000,
+  TIMEOUT: 0x05040000,
+  INVALID_COMMAND: 0x05040001,
+  INVALID_BLOCK_SIZE: 0x05040002,
+  INVALID_SEQUENCE: 0x05040003,
+  CRC_ERROR: 0x05040004,
+  OUT_OF_MEMORY: 0x05040005,
+  UNSUPPORTED_ACCESS: 0x06010000,
+  WRITE_ONLY: 0x06010001,
+  READ_ONLY: 0x06010002,
+  NO_OBJECT: 0x06020000,
+  NOT_MAPPABLE: 0x06040041,
+  PDO_LENGTH: 0x06040042,
+  INCOMPATIBLE_PARAMETER: 0x06040043,
+  INTERNAL_INCOMPATIBILITY: 0x06040047,
+  HARDWARE_ERROR: 0x06060000,
+  LENGTH_MISMATCH: 0x06070010,
+  LENGTH_TOO_HIGH: 0x06070012,
+  LENGTH_TOO_LOW: 0x06070013,
+  NO_SUBINDEX: 0x06090011,
+  INVALID_VALUE: 0x06090030,
+  VALUE_TOO_HIGH: 0x06090031,
+  VALUE_TOO_LOW: 0x06090032,
+  MAX_LESS_THAN_MIN: 0x06090036,
+  RESOURCE_UNAVAILABLE: 0x060A0023,
+  GENERAL_ERROR: 0x08000000,
+  TRANSFER_ERROR: 0x08000020,
+  LOCAL_CONTROL: 0x08000021,
+  DEVICE_STATE: 0x08000022,
+  NO_DICTIONARY: 0x08000023,
+  NO_DATA: 0x08000024,
+} as const;
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 对象字典值
+ */
+export type CanOpenValue = number | bigint | boolean | string | Buffer;
+
+/**
+ * 紧急报文
+ */
+export interface EmcyMessage {
+  /** 节点 ID */
+  nodeId: number;
+  /** 错误码 (0x0000 表示错误复位) */
+  errorCode: number;
+  /** 错误寄存器 (对象 0x1001) */
+  errorRegister: number;
+  /** 厂商自定义数据 (5 字节) */
+  manufacturerData: Buffer;
+  /** 错误码分类说明 */
+  description?: string;
+}
+
+/**
+ * PDO 映射项
+ */
+export interface PdoMappingEntry {
+  /** 对象索引 */
+  index: number;
+  /** 子索引 */
+  subIndex: number;
+  /** 位长度 */
+  bitLength: number;
+  /** 数据类型 (CANOPEN_DATA_TYPE)，省略时按无符号整数解码 */
+  dataType?: number;
+  /** 信号名，省略时为 "索引sub子索引" (如 "6041sub0") */
+  name?: string;
+}
+
+// ============================================================================
+// NMT 和 EMCY
+// ============================================================================
+
+/**
+ * 解码心跳/节点保护状态字节 (忽略节点保护的翻转位)
+ */
+export function decodeNmtState(value: number): NmtState {
+  return NMT_STATES[value & 0x7F] ?? 'unknown';
+}
+
+const EMCY_CLASSES: Record<ErrorLocale, [number, number, string][]> = {
+  zh: [
+    [0x0000, 0x00FF, '错误复位或无错误'],
+    [0x1000, 0x10FF, '通用错误'],
+    [0x2000, 0x2FFF, '电流'],
+    [0x3000, 0x3FFF, '电压'],
+    [0x4000, 0x4FFF, '温度'],
+    [0x5000, 0x5FFF, '设备硬件'],
+    [0x6000, 0x6FFF, '设备软件'],
+    [0x7000, 0x7FFF, '附加模块'],
+    [0x8110, 0x8110, 'CAN 溢出'],
+    [0x8120, 0x8120, 'CAN 错误被动'],
+    [0x8130, 0x8130, '节点保护或心跳错误'],
+    [0x8140, 0x8140, '已从总线关闭恢复'],
+    [0x8210, 0x8210, 'PDO 长度错误'],
+    [0x8000, 0x8FFF, '监控'],
+    [0x9000, 0x9FFF, '外部错误'],
+    [0xF000, 0xFEFF, '附加功能'],
+    [0xFF00, 0xFFFF, '设备自定义'],
+  ],
+  en: [
+    [0x0000, 0x00FF, 'error reset or no error'],
+    [0x1000, 0x10FF, 'generic error'],
+    [0x2000, 0x2FFF, 'current'],
+    [0x3000, 0x3FFF, 'voltage'],
+    [0x4000, 0x4FFF, 'temperature'],
+    [0x5000, 0x5FFF, 'device hardware'],
+    [0x6000, 0x6FFF, 'device software'],
+    [0x7000, 0x7FFF, 'additional modules'],
+    [0x8110, 0x8110, 'CAN overrun'],
+    [0x8120, 0x8120, 'CAN error passive'],
+    [0x8130, 0x8130, 'life guard or heartbeat error'],
+    [0x8140, 0x8140, 'recovered from bus off'],
+    [0x8210, 0x8210, 'PDO length error'],
+    [0x8000, 0x8FFF, 'monitoring'],
+    [0x9000, 0x9FFF, 'external error'],
+    [0xF000, 0xFEFF, 'additional functions'],
+    [0xFF00, 0xFFFF, 'device specific'],
+  ],
+};
+
+/**
+ * 解码紧急报文
+ * @param nodeId 节点 ID (COB-ID - 0x80)
+ * @param data 8 字节数据
+ */
+export function decodeEmcy(nodeId: number, data: Buffer | number[], locale: ErrorLocale = getErrorLocale()): EmcyMessage {
+  const bytes = Buffer.alloc(8);
+  Buffer.from(data).copy(bytes);
+  const errorCode = bytes.readUInt16LE(0);
+  const emcy: EmcyMessage = { nodeId, errorCode, errorRegister: bytes[2], manufacturerData: bytes.subarray(3, 8) };
+  const description = EMCY_CLASSES[locale].find(([from, to]) => errorCode >= from && errorCode <= to)?.[2];
+  if (description) {
+    emcy.description = description;
+  }
+  return emcy;
+}
+
+// ============================================================================
+// 数据类型编解码
+// ============================================================================
+
+const SIGNED_TYPES = new Set<number>([
+  CANOPEN_DATA_TYPE.INTEGER8,
+  CANOPEN_DATA_TYPE.INTEGER16,
+  CANOPEN_DATA_TYPE.INTEGER24,
+  CANOPEN_DATA_TYPE.INTEGER32,
+  CANOPEN_DATA_TYPE.INTEGER40,
+  CANOPEN_DATA_TYPE.INTEGER48,
+  CANOPEN_DATA_TYPE.INTEGER56,
+  CANOPEN_DATA_TYPE.INTEGER64,
+]);
+
+const INTEGER_BITS: Record<number, number> = {
+  [CANOPEN_DATA_TYPE.INTEGER8]: 8,
+  [CANOPEN_DATA_TYPE.INTEGER16]: 16,
+  [CANOPEN_DATA_TYPE.INTEGER24]: 24,
+  [CANOPEN_DATA_TYPE.INTEGER32]: 32,
+  [CANOPEN_DATA_TYPE.INTEGER40]: 40,
+  [CANOPEN_DATA_TYPE.INTEGER48]: 48,
+  [CANOPEN_DATA_TYPE.INTEGER56]: 56,
+  [CANOPEN_DATA_TYPE.INTEGER64]: 64,
+  [CANOPEN_DATA_TYPE.UNSIGNED8]: 8,
+  [CANOPEN_DATA_TYPE.UNSIGNED16]: 16,
+  [CANOPEN_DATA_TYPE.UNSIGNED24]: 24,
+  [CANOPEN_DATA_TYPE.UNSIGNED32]: 32,
+  [CANOPEN_DATA_TYPE.UNSIGNED40]: 40,
+  [CANOPEN_DATA_TYPE.UNSIGNED48]: 48,
+  [CANOPEN_DATA_TYPE.UNSIGNED56]: 56,
+  [CANOPEN_DATA_TYPE.UNSIGNED64]: 64,
+};
+
+/**
+ * 数据类型的位长度，字符串和 DOMAIN 等可变长度类型返回 undefined
+ */
+export function canOpenDataTypeBits(dataType: number): number | undefined {
+  if (dataType === CANOPEN_DATA_TYPE.REAL32) {
+    return 32;
+  }
+  if (dataType === CANOPEN_DATA_TYPE.REAL64) {
+    return 64;
+  }
+  if (dataType === CANOPEN_DATA_TYPE.BOOLEAN) {
+    return 8;
+  }
+  return INTEGER_BITS[dataType];
+}
+
+/**
+ * 将原始位 (小端) 按数据类型转换为值
+ * @param bitLength 原始位长度 (PDO 映射长度或类型长度)
+ */
+function bitsToValue(dataType: number | undefined, bits: bigint, bitLength: number): CanOpenValue {
+  switch (dataType) {
+    case CANOPEN_DATA_TYPE.BOOLEAN:
+      return bits !== 0n;
+    case CANOPEN_DATA_TYPE.REAL32: {
+      const buffer = Buffer.alloc(4);
+      buffer.writeUInt32LE(Number(bits & 0xFFFFFFFFn));
+      return buffer.readFloatLE();
+    }
+    case CANOPEN_DATA_TYPE.REAL64: {
+      const buffer = Buffer.alloc(8);
+      buffer.writeBigUInt64LE(bits);
+      return buffer.readDoubleLE();
+    }
+  }
+  const value = dataType !== undefined && SIGNED_TYPES.has(dataType) ? BigInt.asIntN(bitLength, bits) : bits;
+  return bitLength <= 48 ? Number(value) : value;
+}
+
+/**
+ * 将值按数据类型转换为原始位 (小端)
+ */
+function valueToBits(dataType: number | undefined, value: CanOpenValue, bitLength: number): bigint {
+  if (typeof value === 'boolean') {
+    return value ? 1n : 0n;
+  }
+  if (dataType === CANOPEN_DATA_TYPE.REAL32) {
+    const buffer = Buffer.alloc(4);
+    buffer.writeFloatLE(Number(value));
+    return BigInt(buffer.readUInt32LE());
+  }
+  if (dataType === CANOPEN_DATA_TYPE.REAL64) {
+    const buffer = Buffer.alloc(8);
+    buffer.writeDoubleLE(Number(value));
+    return buffer.readBigUInt64LE();
+  }
+  if (typeof value === 'string' || Buffer.isBuffer(value)) {
+    throw new ZlgCanError('encodeCanOpenValue', undefined, `数值类型的对象不能写入 ${typeof value === 'string' ? '字符串' : 'Buffer'}`);
+  }
+  const integer = typeof value === 'bigint' ? value : BigInt(Math.round(value));
+  const signed = dataType !== undefined && SIGNED_TYPES.has(dataType);
+  const min = signed ? -(1n << BigInt(bitLength - 1)) : 0n;
+  const max = signed ? (1n << BigInt(bitLength - 1)) - 1n : (1n << BigInt(bitLength)) - 1n;
+  if (integer < min || integer > max) {
+    throw new ZlgCanError('encodeCanOpenValue', undefined, `值 ${value} 超出 ${bitLength} 位${signed ? '有符号' : '无符号'}范围`);
+  }
+  return BigInt.asUintN(bitLength, integer);
+}
+
+/**
+ * 按数据类型解码 SDO 数据
+ * - 整数：48 位及以下为 number，更长为 bigint
+ * - BOOLEAN 为 boolean，REAL32/REAL64 为 number
+ * - VISIBLE_STRING 为字符串 (去除尾部的 0x00)，UNICODE_STRING 为 UTF-16LE 字符串
+ * - 其它类型 (OCTET_STRING、DOMAIN 等) 为 Buffer
+ */
+export function decodeCanOpenValue(dataType: number, data: Buffer | number[]): CanOpenValue {
+  const bytes = Buffer.from(data);
+  switch (dataType) {
+    case CANOPEN_DATA_TYPE.VISIBLE_STRING:
+      return bytes.toString('latin1').replace(/\0+$/, '');
+    case CANOPEN_DATA_TYPE.UNICODE_STRING:
+      return bytes.toString('utf16le').replace(/\0+$/, '');
+  }
+  const bits = canOpenDataTypeBits(dataType);
+  if (bits === undefined) {
+    return bytes;
+  }
+  const length = bits / 8;
+  if (bytes.length < length) {
+    throw new ZlgCanError('decodeCanOpenValue', undefined, `数据长度不足: 需要 ${length} 字节，实际为 ${bytes.length} 字节`);
+  }
+  let raw = 0n;
+  for (let i = length - 1; i >= 0; i--) {
+    raw = (raw << 8n) | BigInt(bytes[i]);
+  }
+  return bitsToValue(dataType, raw, dataType === CANOPEN_DATA_TYPE.BOOLEAN ? 8 : bits);
+}
+
+/**
+ * 按数据类型编码 SDO 数据
+ * @throws {ZlgCanError} 值超出类型范围或类型不匹配时抛出异常
+ */
+export function encodeCanOpenValue(dataType: number, value: CanOpenValue): Buffer {
+  switch (dataType) {
+    case CANOPEN_DATA_TYPE.VISIBLE_STRING:
+      return Buffer.from(String(value), 'latin1');
+    case CANOPEN_DATA_TYPE.UNICODE_STRING:
+      return Buffer.from(String(value), 'utf16le');
+  }
+  const bits = canOpenDataTypeBits(dataType);
+  if (bits === undefined) {
+    return Buffer.isBuffer(value) ? value : Buffer.from(String(value));
+  }
+  let raw = valueToBits(dataType, value, dataType === CANOPEN_DATA_TYPE.BOOLEAN ? 8 : bits);
+  const data = Buffer.alloc(bits / 8);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Number(raw & 0xFFn);
+    raw >>= 8n;
+  }
+  return data;
+}
+
+// ============================================================================
+// PDO 编解码
+// ============================================================================
+
+/**
+ * PDO 映射项的信号名
+ */
+export function pdoEntryName(entry: PdoMappingEntry): string {
+  return entry.name ?? `${entry.index.toString(16).toUpperCase()}sub${entry.subIndex}`;
+}
+
+/**
+ * 映射参数值 (索引 << 16 | 子索引 << 8 | 位长度)
+ */
+export function pdoMappingValue(entry: PdoMappingEntry): number {
+  return ((entry.index << 16) | (entry.subIndex << 8) | entry.bitLength) >>> 0;
+}
+
+/**
+ * 按映射解码 PDO 数据，超出数据长度的映射项被跳过
+ * @returns 信号名 → 值
+ */
+export function decodePdo(mapping: PdoMappingEntry[], data: Buffer | number[]): Record<string, CanOpenValue> {
+  const bytes = Buffer.from(data);
+  const values: Record<string, CanOpenValue> = {};
+  let offset = 0;
+  for (const entry of mapping) {
+    if (offset + entry.bitLength > bytes.length * 8) {
+      break;
+    }
+    let raw = 0n;
+    for (let i = entry.bitLength - 1; i >= 0; i--) {
+      const position = offset + i;
+      raw = (raw << 1n) | BigInt((bytes[position >> 3] >> (position & 7)) & 1);
+    }
+    // 空映射 (索引 0x0001-0x0007 为数据类型占位) 不输出
+    if (entry.index >= 0x0008) {
+      values[pdoEntryName(entry)] = bitsToValue(entry.dataType, raw, entry.bitLength);
+    }
+    offset += entry.bitLength;
+  }
+  return values;
+}
+
+/**
+ * 按映射编码 PDO 数据，未指定的映射项为 0
+ * @throws {ZlgCanError} 映射总长度超过 64 位、信号未映射或值超出范围时抛出异常
+ */
+export function encodePdo(mapping: PdoMappingEntry[], values: Record<string, CanOpenValue>): Buffer {
+  const totalBits = mapping.reduce((sum, entry) => sum + entry.bitLength, 0);
+  if (totalBits > 64) {
+    throw new ZlgCanError('encodePdo', undefined, `PDO 映射长度超过 64 位: ${totalBits}`);
+  }
+  for (const name of Object.keys(values)) {
+    if (!mapping.some((entry) => pdoEntryName(entry) === name)) {
+      throw new ZlgCanError('encodePdo', undefined, `PDO 未映射信号: ${name}`);
+    }
+  }
+
+  const data = Buffer.alloc(Math.ceil(totalBits / 8));
+  let offset = 0;
+  for (const entry of mapping) {
+    const value = values[pdoEntryName(entry)];
+    if (value !== undefined) {
+      const raw = valueToBits(entry.dataType, value, entry.bitLength);
+      for (let i = 0; i < entry.bitLength; i++) {
+        if ((raw >> BigInt(i)) & 1n) {
+          const position = offset + i;
+          data[position >> 3] |= 1 << (position & 7);
+        }
+      }
+    }
+    offset += entry.bitLength;
+  }
+  return data;
+}
+
+// ============================================================================
+// 异常
+// ============================================================================
+
+const ABORT_MESSAGES: Record<ErrorLocale, Record<number, string>> = {
+  zh: {
+    [SDO_ABORT.TOGGLE_BIT]: '翻转位未改变',
+    [SDO_ABORT.TIMEOUT]: 'SDO 协议超时',
+    [SDO_ABORT.INVALID_COMMAND]: '无效或未知的命令字',
+    [SDO_ABORT.INVALID_BLOCK_SIZE]: '无效的块大小',
+    [SDO_ABORT.INVALID_SEQUENCE]: '无效的序号',
+    [SDO_ABORT.CRC_ERROR]: 'CRC 错误',
+    [SDO_ABORT.OUT_OF_MEMORY]: '内存不足',
+    [SDO_ABORT.UNSUPPORTED_ACCESS]: '不支持的访问方式',
+    [SDO_ABORT.WRITE_ONLY]: '对象只写',
+    [SDO_ABORT.READ_ONLY]: '对象只读',
+    [SDO_ABORT.NO_OBJECT]: '对象不存在',
+    [SDO_ABORT.NOT_MAPPABLE]: '对象不能映射到 PDO',
+    [SDO_ABORT.PDO_LENGTH]: '映射的对象超过 PDO 长度',
+    [SDO_ABORT.INCOMPATIBLE_PARAMETER]: '参数不兼容',
+    [SDO_ABORT.INTERNAL_INCOMPATIBILITY]: '设备内部不兼容',
+    [SDO_ABORT.HARDWARE_ERROR]: '硬件错误导致访问失败',
+    [SDO_ABORT.LENGTH_MISMATCH]: '数据类型长度不匹配',
+    [SDO_ABORT.LENGTH_TOO_HIGH]: '数据过长',
+    [SDO_ABORT.LENGTH_TOO_LOW]: '数据过短',
+    [SDO_ABORT.NO_SUBINDEX]: '子索引不存在',
+    [SDO_ABORT.INVALID_VALUE]: '值超出范围',
+    [SDO_ABORT.VALUE_TOO_HIGH]: '值过大',
+    [SDO_ABORT.VALUE_TOO_LOW]: '值过小',
+    [SDO_ABORT.MAX_LESS_THAN_MIN]: '最大值小于最小值',
+    [SDO_ABORT.RESOURCE_UNAVAILABLE]: '资源不可用',
+    [SDO_ABORT.GENERAL_ERROR]: '一般错误',
+    [SDO_ABORT.TRANSFER_ERROR]: '数据无法传输或保存',
+    [SDO_ABORT.LOCAL_CONTROL]: '本地控制导致数据无法传输或保存',
+    [SDO_ABORT.DEVICE_STATE]: '当前设备状态下数据无法传输或保存',
+    [SDO_ABORT.NO_DICTIONARY]: '对象字典生成失败或不存在',
+    [SDO_ABORT.NO_DATA]: '无可用数据',
+  },
+  en: {
+    [SDO_ABORT.TOGGLE_BIT]: 'toggle bit not alternated',
+    [SDO_ABORT.TIMEOUT]: 'SDO protocol timed out',
+    [SDO_ABORT.INVALID_COMMAND]: 'command specifier not valid or unknown',
+    [SDO_ABORT.INVALID_BLOCK_SIZE]: 'invalid block size',
+    [SDO_ABORT.INVALID_SEQUENCE]: 'invalid sequence number',
+    [SDO_ABORT.CRC_ERROR]: 'CRC error',
+    [SDO_ABORT.OUT_OF_MEMORY]: 'out of memory',
+    [SDO_ABORT.UNSUPPORTED_ACCESS]: 'unsupported access to an object',
+    [SDO_ABORT.WRITE_ONLY]: 'attempt to read a write only object',
+    [SDO_ABORT.READ_ONLY]: 'attempt to write a read only object',
+    [SDO_ABORT.NO_OBJECT]: 'object does not exist',
+    [SDO_ABORT.NOT_MAPPABLE]: 'object cannot be mapped to the PDO',
+    [SDO_ABORT.PDO_LENGTH]: 'mapped objects exceed PDO length',
+    [SDO_ABORT.INCOMPATIBLE_PARAMETER]: 'general parameter incompatibility',
+    [SDO_ABORT.INTERNAL_INCOMPATIBILITY]: 'general internal incompatibility in the device',
+    [SDO_ABORT.HARDWARE_ERROR]: 'access failed due to a hardware error',
+    [SDO_ABORT.LENGTH_MISMATCH]: 'data type length does not match',
+    [SDO_ABORT.LENGTH_TOO_HIGH]: 'data type length too high',
+    [SDO_ABORT.LENGTH_TOO_LOW]: 'data type length too low',
+    [SDO_ABORT.NO_SUBINDEX]: 'sub-index does not exist',
+    [SDO_ABORT.INVALID_VALUE]: 'invalid value for parameter',
+    [SDO_ABORT.VALUE_TOO_HIGH]: 'value of parameter too high',
+    [SDO_ABORT.VALUE_TOO_LOW]: 'value of parameter too low',
+    [SDO_ABORT.MAX_LESS_THAN_MIN]: 'maximum value is less than minimum value',
+    [SDO_ABORT.RESOURCE_UNAVAILABLE]: 'resource not available',
+    [SDO_ABORT.GENERAL_ERROR]: 'general error',
+    [SDO_ABORT.TRANSFER_ERROR]: 'data cannot be transferred or stored',
+    [SDO_ABORT.LOCAL_CONTROL]: 'data cannot be transferred or stored because of local control',
+    [SDO_ABORT.DEVICE_STATE]: 'data cannot be transferred or stored because of the present device state',
+    [SDO_ABORT.NO_DICTIONARY]: 'object dictionary not present',
+    [SDO_ABORT.NO_DATA]: 'no data available',
+  },
+};
+
+const ABORTED_BY_SERVER: Record<ErrorLocale, string> = { zh: '服务器中止', en: 'aborted by server' };
+
+function hex(value: number, digits: number): string {
+  return `0x${value.toString(16).toUpperCase().padStart(digits, '0')}`;
+}
+
+/**
+ * SDO 传输中止
+ *
+ * abortCode 为 CiA 301 中止码，remote 表示由服务器中止 (否则为客户端超时或协议错误)，errorCode 为空
+ */
+export class SdoAbortError extends ZlgCanError {
+  constructor(
+    public readonly nodeId: number,
+    public readonly index: number,
+    public readonly subIndex: number,
+    public readonly abortCode: number,
+    public readonly remote = false,
+  ) {
+    super('SDO', undefined, SdoAbortError.format(nodeId, index, subIndex, abortCode, remote, getErrorLocale()));
+    this.name = 'SdoAbortError';
+  }
+
+  localizedMessage(locale: ErrorLocale): string {
+    return SdoAbortError.format(this.nodeId, this.index, this.subIndex, this.abortCode, this.remote, locale);
+  }
+
+  private static format(nodeId: number, index: number, subIndex: number, abortCode: number, remote: boolean, locale: ErrorLocale): string {
+    const description = ABORT_MESSAGES[locale][abortCode] ?? hex(abortCode, 8);
+    const target = `SDO ${nodeId} ${hex(index, 4)}:${subIndex}`;
+    return remote ? `${target} ${ABORTED_BY_SERVER[locale]}: ${description} (${hex(abortCode, 8)})` : `${target}: ${description}`;
+  }
+}
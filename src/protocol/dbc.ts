@@ -0,0 +1,729 @@
+/**
+ * DBC 文件解析
+ * 解析节点、报文、信号 (字节序、符号、浮点、缩放、范围、单位)、值表、多路复用和扩展多路复用、注释和属性
+ */
+
+import { ZlgCanError } from '../driver';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 信号字节序
+ * - intel: 小端 (@1)，起始位为最低位
+ * - motorola: 大端 (@0)，起始位为最高位
+ */
+export type DbcByteOrder = 'intel' | 'motorola';
+
+/** 信号数值类型 (signed/unsigned 来自 SG_，float/double 来自 SIG_VALTYPE_) */
+export type DbcValueType = 'unsigned' | 'signed' | 'float' | 'double';
+
+/** 属性值 (ENUM 属性为枚举字符串) */
+export type DbcAttributeValue = number | string;
+
+/** 属性所属对象 ('' 为网络) */
+export type DbcObjectType = '' | 'BU_' | 'BO_' | 'SG_' | 'EV_';
+
+/**
+ * 属性定义 (BA_DEF_ / BA_DEF_DEF_)
+ */
+export interface DbcAttributeDefinition {
+  /** 属性名 */
+  name: string;
+  /** 所属对象 */
+  objectType: DbcObjectType;
+  /** 值类型 */
+  valueType: 'INT' | 'HEX' | 'FLOAT' | 'STRING' | 'ENUM';
+  /** 最小值 (INT/HEX/FLOAT) */
+  minimum?: number;
+  /** 最大值 (INT/HEX/FLOAT) */
+  maximum?: number;
+  /** 枚举值 (ENUM) */
+  values?: string[];
+  /** 默认值 */
+  defaultValue?: DbcAttributeValue;
+}
+
+/**
+ * 信号多路复用范围 (SG_MUL_VAL_)
+ */
+export interface DbcMultiplexRange {
+  /** 最小值 (含) */
+  from: number;
+  /** 最大值 (含) */
+  to: number;
+}
+
+/**
+ * 信号 (SG_)
+ */
+export interface DbcSignal {
+  /** 信号名 */
+  name: string;
+  /** 起始位 */
+  startBit: number;
+  /** 位长度 */
+  length: number;
+  /** 字节序 */
+  byteOrder: DbcByteOrder;
+  /** 数值类型 */
+  valueType: DbcValueType;
+  /** 缩放因子 */
+  factor: number;
+  /** 偏移 */
+  offset: number;
+  /** 物理值最小值 */
+  minimum: number;
+  /** 物理值最大值 */
+  maximum: number;
+  /** 单位 */
+  unit: string;
+  /** 接收节点 */
+  receivers: string[];
+  /** 是否为多路复用选择信号 (M 或 mXM) */
+  isMultiplexer: boolean;
+  /** 多路复用选择信号名 (仅被复用的信号) */
+  multiplexerSignal?: string;
+  /** 有效的多路复用选择值范围 (mX 为单个值，扩展多路复用来自 SG_MUL_VAL_) */
+  multiplexerRanges?: DbcMultiplexRange[];
+  /** 值表 (原始值 → 描述) */
+  valueTable?: Record<number, string>;
+  /** 注释 */
+  comment?: string;
+  /** 属性 (包含定义的默认值) */
+  attributes: Record<string, DbcAttributeValue>;
+}
+
+/**
+ * 报文 (BO_)
+ */
+export interface DbcMessage {
+  /** 报文 ID (不含扩展帧标志位) */
+  id: number;
+  /** 是否为扩展帧 */
+  isExtended: boolean;
+  /** 报文名 */
+  name: string;
+  /** 数据长度 (字节) */
+  length: number;
+  /** 发送节点 */
+  sender: string;
+  /** 其它发送节点 (BO_TX_BU_) */
+  transmitters: string[];
+  /** 是否为 CANFD 报文 (VFrameFormat 为 StandardCAN_FD/ExtendedCAN_FD) */
+  isFd: boolean;
+  /** CANFD 比特率切换 (CANFD_BRS) */
+  brs: boolean;
+  /** 发送周期 (ms，GenMsgCycleTime) */
+  cycleTime?: number;
+  /** 信号 */
+  signals: DbcSignal[];
+  /** 注释 */
+  comment?: string;
+  /** 属性 (包含定义的默认值) */
+  attributes: Record<string, DbcAttributeValue>;
+}
+
+/**
+ * 节点 (BU_)
+ */
+export interface DbcNode {
+  /** 节点名 */
+  name: string;
+  /** 注释 */
+  comment?: string;
+  /** 属性 (包含定义的默认值) */
+  attributes: Record<string, DbcAttributeValue>;
+}
+
+/**
+ * DBC 数据库
+ */
+export interface DbcDatabase {
+  /** 版本字符串 */
+  version: string;
+  /** 节点 */
+  nodes: DbcNode[];
+  /** 报文 */
+  messages: DbcMessage[];
+  /** 全局值表 (VAL_TABLE_) */
+  valueTables: Record<string, Record<number, string>>;
+  /** 属性定义 */
+  attributeDefinitions: DbcAttributeDefinition[];
+  /** 网络属性 (包含定义的默认值) */
+  attributes: Record<string, DbcAttributeValue>;
+  /** 网络注释 */
+  comment?: string;
+}
+
+/** 扩展帧 ID 标志位 */
+const EXTENDED_ID_FLAG = 0x80000000;
+
+/** VFrameFormat 中表示 CANFD 报文的枚举值 */
+const FD_FRAME_FORMATS = ['StandardCAN_FD', 'ExtendedCAN_FD'];
+
+// ============================================================================
+// 词法分析
+// ============================================================================
+
+interface Token {
+  type: 'identifier' | 'number' | 'string' | 'symbol';
+  text: string;
+  line: number;
+}
+
+/** 数字 (整数、小数和科学计数法) */
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/;
+
+function isWordChar(c: string | undefined): boolean {
+  return c !== undefined && /[A-Za-z0-9_]/.test(c);
+}
+
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+  let number: RegExpExecArray | null;
+
+  while (i < content.length) {
+    const c = content[i];
+    if (c === '\n') {
+      line++;
+      i++;
+    } else if (c === ' ' || c === '\t' || c === '\r') {
+      i++;
+    } else if (c === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') {
+        i++;
+      }
+    } else if (c === '"') {
+      const start = line;
+      let text = '';
+      i++;
+      while (i < content.length && content[i] !== '"') {
+        if (content[i] === '\\' && i + 1 < content.length) {
+          i++;
+        }
+        if (content[i] === '\n') {
+          line++;
+        }
+        text += content[i++];
+      }
+      if (i >= content.length) {
+        throw new ZlgCanError('parseDbc', undefined, `第 ${start} 行字符串未结束`);
+      }
+      i++;
+      tokens.push({ type: 'string', text, line: start });
+    } else if ((number = isWordChar(content[i - 1]) ? null : NUMBER.exec(content.slice(i, i + 64)))) {
+      // 符号前为字母或数字时 (如 @1- 和 SG_MUL_VAL_ 的 0-3) 不属于数字
+      if (isWordChar(content[i + number[0].length])) {
+        const word = /^\w+/.exec(content.slice(i, i + 256))![0];
+        tokens.push({ type: 'identifier', text: word, line });
+        i += word.length;
+      } else {
+        tokens.push({ type: 'number', text: number[0], line });
+        i += number[0].length;
+      }
+    } else if (isWordChar(c)) {
+      const word = /^\w+/.exec(content.slice(i, i + 256))![0];
+      tokens.push({ type: 'identifier', text: word, line });
+      i += word.length;
+    } else {
+      tokens.push({ type: 'symbol', text: c, line });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+// ============================================================================
+// 语法分析
+// ============================================================================
+
+/** 不以分号结尾的语句 */
+const LINE_STATEMENTS = new Set(['VERSION', 'NS_', 'BS_', 'BU_', 'BO_', 'SG_']);
+
+class DbcParser {
+  private position = 0;
+  private readonly database: DbcDatabase = {
+    version: '',
+    nodes: [],
+    messages: [],
+    valueTables: {},
+    attributeDefinitions: [],
+    attributes: {},
+  };
+  private currentMessage: DbcMessage | null = null;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): DbcDatabase {
+    while (this.position < this.tokens.length) {
+      const token = this.next();
+      if (token.type !== 'identifier') {
+        this.fail(token, `意外的 "${token.text}"`);
+      }
+      switch (token.text) {
+        case 'VERSION':
+          this.database.version = this.expectString();
+          break;
+        case 'NS_':
+          this.skipNewSymbols();
+          break;
+        case 'BS_':
+          this.restOfLine(token);
+          break;
+        case 'BU_':
+          this.parseNodes(token);
+          break;
+        case 'BO_':
+          this.parseMessage();
+          break;
+        case 'SG_':
+          this.parseSignal(token);
+          break;
+        case 'BO_TX_BU_':
+          this.parseTransmitters();
+          break;
+        case 'VAL_TABLE_':
+          this.parseValueTable();
+          break;
+        case 'VAL_':
+          this.parseValueDescriptions();
+          break;
+        case 'CM_':
+          this.parseComment();
+          break;
+        case 'BA_DEF_':
+          this.parseAttributeDefinition();
+          break;
+        case 'BA_DEF_DEF_':
+          this.parseAttributeDefault();
+          break;
+        case 'BA_':
+          this.parseAttribute();
+          break;
+        case 'SIG_VALTYPE_':
+          this.parseSignalValueType();
+          break;
+        case 'SG_MUL_VAL_':
+          this.parseMultiplexValues();
+          break;
+        default:
+          this.skipStatement();
+          break;
+      }
+    }
+    this.finish();
+    return this.database;
+  }
+
+  // ============================================================================
+  // 语句
+  // ============================================================================
+
+  private skipNewSymbols(): void {
+    // NS_ 列表中的名称也是关键字，跳过至 BS_ 或 BU_
+    while (this.position < this.tokens.length && !['BS_', 'BU_'].includes(this.peek()!.text)) {
+      this.position++;
+    }
+  }
+
+  private parseNodes(keyword: Token): void {
+    this.expectSymbol(':');
+    for (const token of this.restOfLine(keyword)) {
+      this.database.nodes.push({ name: token.text, attributes: {} });
+    }
+  }
+
+  private parseMessage(): void {
+    const rawId = this.expectNumber();
+    const name = this.expectIdentifier();
+    this.expectSymbol(':');
+    const length = this.expectNumber();
+    const sender = this.expectIdentifier();
+    this.currentMessage = {
+      id: (rawId & ~EXTENDED_ID_FLAG) >>> 0,
+      isExtended: rawId >= EXTENDED_ID_FLAG,
+      name,
+      length,
+      sender,
+      transmitters: [],
+      isFd: false,
+      brs: false,
+      signals: [],
+      attributes: {},
+    };
+    this.database.messages.push(this.currentMessage);
+  }
+
+  private parseSignal(keyword: Token): void {
+    if (!this.currentMessage) {
+      this.fail(keyword, 'SG_ 不属于任何报文');
+    }
+    const name = this.expectIdentifier();
+    let isMultiplexer = false;
+    let multiplexValue: number | undefined;
+    if (this.peek()?.text !== ':') {
+      const indicator = this.expectIdentifier();
+      const match = /^(?:m(\d+))?(M?)$/.exec(indicator);
+      if (!match || (!match[1] && !match[2])) {
+        this.fail(keyword, `无效的多路复用标识 "${indicator}"`);
+      }
+      isMultiplexer = match[2] === 'M';
+      multiplexValue = match[1] !== undefined ? Number(match[1]) : undefined;
+    }
+    this.expectSymbol(':');
+    const startBit = this.expectNumber();
+    this.expectSymbol('|');
+    const length = this.expectNumber();
+    this.expectSymbol('@');
+    const order = this.expectNumber();
+    const sign = this.expectSymbol('+', '-');
+    this.expectSymbol('(');
+    const factor = this.expectNumber();
+    this.expectSymbol(',');
+    const offset = this.expectNumber();
+    this.expectSymbol(')');
+    this.expectSymbol('[');
+    const minimum = this.expectNumber();
+    this.expectSymbol('|');
+    const maximum = this.expectNumber();
+    this.expectSymbol(']');
+    const unit = this.expectString();
+    const receivers = this.restOfLine(keyword).map((t) => t.text).filter((t) => t !== ',');
+
+    const signal: DbcSignal = {
+      name,
+      startBit,
+      length,
+      byteOrder: order === 1 ? 'intel' : 'motorola',
+      valueType: sign === '-' ? 'signed' : 'unsigned',
+      factor,
+      offset,
+      minimum,
+      maximum,
+      unit,
+      receivers,
+      isMultiplexer,
+      attributes: {},
+    };
+    if (multiplexValue !== undefined) {
+      signal.multiplexerRanges = [{ from: multiplexValue, to: multiplexValue }];
+    }
+    this.currentMessage.signals.push(signal);
+  }
+
+  private parseTransmitters(): void {
+    const message = this.findMessage(this.expectNumber());
+    this.expectSymbol(':');
+    const transmitters = this.untilSemicolon().filter((t) => t.text !== ',').map((t) => t.text);
+    message?.transmitters.push(...transmitters);
+  }
+
+  private parseValueTable(): void {
+    const name = this.expectIdentifier();
+    this.database.valueTables[name] = this.parseValuePairs(this.untilSemicolon());
+  }
+
+  private parseValueDescriptions(): void {
+    // VAL_ 环境变量名 ...; 不处理
+    if (this.peek()?.type !== 'number') {
+      this.skipStatement();
+      return;
+    }
+    const message = this.findMessage(this.expectNumber());
+    const signalName = this.expectIdentifier();
+    const values = this.parseValuePairs(this.untilSemicolon());
+    const signal = message?.signals.find((s) => s.name === signalName);
+    if (signal) {
+      signal.valueTable = values;
+    }
+  }
+
+  private parseComment(): void {
+    const token = this.peek()!;
+    if (token.type === 'string') {
+      this.database.comment = this.expectString();
+    } else {
+      const objectType = this.expectIdentifier();
+      if (objectType === 'BU_') {
+        const name = this.expectIdentifier();
+        const node = this.database.nodes.find((n) => n.name === name);
+        const comment = this.expectString();
+        if (node) {
+          node.comment = comment;
+        }
+      } else if (objectType === 'BO_') {
+        const message = this.findMessage(this.expectNumber());
+        const comment = this.expectString();
+        if (message) {
+          message.comment = comment;
+        }
+      } else if (objectType === 'SG_') {
+        const message = this.findMessage(this.expectNumber());
+        const signalName = this.expectIdentifier();
+        const comment = this.expectString();
+        const signal = message?.signals.find((s) => s.name === signalName);
+        if (signal) {
+          signal.comment = comment;
+        }
+      }
+    }
+    this.skipStatement();
+  }
+
+  private parseAttributeDefinition(): void {
+    let objectType: DbcObjectType = '';
+    if (this.peek()?.type === 'identifier') {
+      objectType = this.expectIdentifier() as DbcObjectType;
+    }
+    const name = this.expectString();
+    const typeToken = this.next();
+    const valueType = typeToken.text as DbcAttributeDefinition['valueType'];
+    const definition: DbcAttributeDefinition = { name, objectType, valueType };
+    const rest = this.untilSemicolon();
+
+    if (valueType === 'INT' || valueType === 'HEX' || valueType === 'FLOAT') {
+      const numbers = rest.filter((t) => t.type === 'number').map((t) => Number(t.text));
+      [definition.minimum, definition.maximum] = numbers;
+    } else if (valueType === 'ENUM') {
+      definition.values = rest.filter((t) => t.type === 'string').map((t) => t.text);
+    } else if (valueType !== 'STRING') {
+      this.fail(typeToken, `无效的属性类型 "${typeToken.text}"`);
+    }
+    this.database.attributeDefinitions.push(definition);
+  }
+
+  private parseAttributeDefault(): void {
+    const name = this.expectString();
+    const token = this.next();
+    this.skipStatement();
+    const definition = this.database.attributeDefinitions.find((d) => d.name === name);
+    if (definition) {
+      // ENUM 默认值为枚举字符串
+      definition.defaultValue = token.type === 'number' && definition.valueType !== 'ENUM' ? Number(token.text) : token.text;
+    }
+  }
+
+  private parseAttribute(): void {
+    const name = this.expectString();
+    let target: { attributes: Record<string, DbcAttributeValue> } | undefined = this.database;
+    if (this.peek()?.type === 'identifier') {
+      const objectType = this.expectIdentifier();
+      if (objectType === 'BU_') {
+        const nodeName = this.expectIdentifier();
+        target = this.database.nodes.find((n) => n.name === nodeName);
+      } else if (objectType === 'BO_') {
+        target = this.findMessage(this.expectNumber());
+      } else if (objectType === 'SG_') {
+        const message = this.findMessage(this.expectNumber());
+        const signalName = this.expectIdentifier();
+        target = message?.signals.find((s) => s.name === signalName);
+      } else {
+        target = undefined;
+        this.next();
+      }
+    }
+    const token = this.next();
+    this.skipStatement();
+    if (!target) {
+      return;
+    }
+
+    const definition = this.database.attributeDefinitions.find((d) => d.name === name);
+    if (token.type === 'string') {
+      target.attributes[name] = token.text;
+    } else if (definition?.valueType === 'ENUM') {
+      // ENUM 属性值为枚举索引
+      target.attributes[name] = definition.values![Number(token.text)] ?? Number(token.text);
+    } else {
+      target.attributes[name] = Number(token.text);
+    }
+  }
+
+  private parseSignalValueType(): void {
+    const message = this.findMessage(this.expectNumber());
+    const signalName = this.expectIdentifier();
+    if (this.peek()?.text === ':') {
+      this.next();
+    }
+    const type = this.expectNumber();
+    this.skipStatement();
+    const signal = message?.signals.find((s) => s.name === signalName);
+    if (signal && (type === 1 || type === 2)) {
+      signal.valueType = type === 1 ? 'float' : 'double';
+    }
+  }
+
+  private parseMultiplexValues(): void {
+    const message = this.findMessage(this.expectNumber());
+    const signalName = this.expectIdentifier();
+    const multiplexerSignal = this.expectIdentifier();
+    const numbers = this.untilSemicolon().filter((t) => t.type === 'number').map((t) => Number(t.text));
+    const signal = message?.signals.find((s) => s.name === signalName);
+    if (!signal) {
+      return;
+    }
+    signal.multiplexerSignal = multiplexerSignal;
+    signal.multiplexerRanges = [];
+    for (let i = 0; i + 1 < numbers.length; i += 2) {
+      signal.multiplexerRanges.push({ from: numbers[i], to: numbers[i + 1] });
+    }
+  }
+
+  /**
+   * 补充属性默认值、简单多路复用的选择信号和 CANFD/周期属性
+   */
+  private finish(): void {
+    const defaults = (objectType: DbcObjectType, attributes: Record<string, DbcAttributeValue>) => {
+      for (const definition of this.database.attributeDefinitions) {
+        if (definition.objectType === objectType && definition.defaultValue !== undefined && !(definition.name in attributes)) {
+          attributes[definition.name] = definition.defaultValue;
+        }
+      }
+    };
+
+    defaults('', this.database.attributes);
+    for (const node of this.database.nodes) {
+      defaults('BU_', node.attributes);
+    }
+    for (const message of this.database.messages) {
+      defaults('BO_', message.attributes);
+      const frameFormat = message.attributes.VFrameFormat;
+      message.isFd = typeof frameFormat === 'string' && FD_FRAME_FORMATS.includes(frameFormat);
+      message.brs = message.isFd && String(message.attributes.CANFD_BRS) === '1';
+      const cycleTime = message.attributes.GenMsgCycleTime;
+      if (typeof cycleTime === 'number' && cycleTime > 0) {
+        message.cycleTime = cycleTime;
+      }
+
+      const multiplexer = message.signals.find((s) => s.isMultiplexer && !s.multiplexerRanges);
+      for (const signal of message.signals) {
+        defaults('SG_', signal.attributes);
+        if (signal.multiplexerRanges && !signal.multiplexerSignal) {
+          signal.multiplexerSignal = multiplexer?.name;
+        }
+      }
+    }
+  }
+
+  // ============================================================================
+  // 词法单元读取
+  // ============================================================================
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      const last = this.tokens[this.tokens.length - 1];
+      throw new ZlgCanError('parseDbc', undefined, `第 ${last?.line ?? 1} 行之后文件意外结束`);
+    }
+    return token;
+  }
+
+  private fail(token: Token, message: string): never {
+    throw new ZlgCanError('parseDbc', undefined, `第 ${token.line} 行${message}`);
+  }
+
+  private expectIdentifier(): string {
+    const token = this.next();
+    if (token.type !== 'identifier') {
+      this.fail(token, `应为名称，实际为 "${token.text}"`);
+    }
+    return token.text;
+  }
+
+  private expectNumber(): number {
+    const token = this.next();
+    if (token.type !== 'number') {
+      this.fail(token, `应为数字，实际为 "${token.text}"`);
+    }
+    return Number(token.text);
+  }
+
+  private expectString(): string {
+    const token = this.next();
+    if (token.type !== 'string') {
+      this.fail(token, `应为字符串，实际为 "${token.text}"`);
+    }
+    return token.text;
+  }
+
+  private expectSymbol(...symbols: string[]): string {
+    const token = this.next();
+    if (token.type !== 'symbol' || !symbols.includes(token.text)) {
+      this.fail(token, `应为 "${symbols.join('" 或 "')}"，实际为 "${token.text}"`);
+    }
+    return token.text;
+  }
+
+  /**
+   * 读取与 keyword 同一行的剩余词法单元
+   */
+  private restOfLine(keyword: Token): Token[] {
+    const tokens: Token[] = [];
+    let token = this.peek();
+    while (token && token.line === keyword.line) {
+      tokens.push(token);
+      this.position++;
+      token = this.peek();
+    }
+    return tokens;
+  }
+
+  /**
+   * 读取至分号 (不含)，并跳过分号
+   */
+  private untilSemicolon(): Token[] {
+    const tokens: Token[] = [];
+    let token = this.peek();
+    while (token && !(token.type === 'symbol' && token.text === ';')) {
+      // 缺少分号时在下一个行语句处停止
+      if (token.type === 'identifier' && LINE_STATEMENTS.has(token.text) && tokens.length > 0 && token.line !== tokens[tokens.length - 1].line) {
+        return tokens;
+      }
+      tokens.push(token);
+      this.position++;
+      token = this.peek();
+    }
+    this.position++;
+    return tokens;
+  }
+
+  private skipStatement(): void {
+    this.untilSemicolon();
+  }
+
+  private parseValuePairs(tokens: Token[]): Record<number, string> {
+    const values: Record<number, string> = {};
+    for (let i = 0; i + 1 < tokens.length; i += 2) {
+      values[Number(tokens[i].text)] = tokens[i + 1].text;
+    }
+    return values;
+  }
+
+  private findMessage(rawId: number): DbcMessage | undefined {
+    const id = (rawId & ~EXTENDED_ID_FLAG) >>> 0;
+    const isExtended = rawId >= EXTENDED_ID_FLAG;
+    return this.database.messages.find((m) => m.id === id && m.isExtended === isExtended);
+  }
+}
+
+// ============================================================================
+// 解析
+// ============================================================================
+
+/**
+ * 解析 DBC 文件
+ * @param content 文件内容 (Buffer 按 UTF-8 解码)
+ * @throws {ZlgCanError} 语法错误时抛出异常，消息包含行号
+ */
+export function parseDbc(content: string | Buffer): DbcDatabase {
+  const text = typeof content === 'string' ? content : content.toString('utf8');
+  return new DbcParser(tokenize(text)).parse();
+}
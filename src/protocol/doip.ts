@@ -0,0 +1,762 @@
+/**
+ * DoIP (ISO 13400-2) 诊断
+ * 通过 UDP 发现车辆、TCP 路由激活后收发诊断消息，DoipClient 可作为 UdsClient 的传输层
+ */
+
+import { EventEmitter } from 'events';
+import * as dgram from 'dgram';
+import * as net from 'net';
+import { UdsRequestError, ZCAN_UDS_ERROR, emitError } from '../driver';
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/** DoIP 端口 (UDP_DISCOVERY / TCP_DATA) */
+export const DOIP_PORT = 13400;
+
+/** 协议版本 */
+export const DOIP_PROTOCOL_VERSION = {
+  ISO_13400_2010: 0x01,
+  ISO_13400_2012: 0x02,
+  ISO_13400_2019: 0x03,
+  /** 车辆识别请求可使用的默认版本 */
+  DEFAULT: 0xFF,
+} as const;
+
+/** 负载类型 */
+export const DOIP_PAYLOAD_TYPE = {
+  GENERIC_NACK: 0x0000,
+  VEHICLE_IDENTIFICATION_REQUEST: 0x0001,
+  VEHICLE_IDENTIFICATION_REQUEST_EID: 0x0002,
+  VEHICLE_IDENTIFICATION_REQUEST_VIN: 0x0003,
+  VEHICLE_ANNOUNCEMENT: 0x0004,
+  ROUTING_ACTIVATION_REQUEST: 0x0005,
+  ROUTING_ACTIVATION_RESPONSE: 0x0006,
+  ALIVE_CHECK_REQUEST: 0x0007,
+  ALIVE_CHECK_RESPONSE: 0x0008,
+  ENTITY_STATUS_REQUEST: 0x4001,
+  ENTITY_STATUS_RESPONSE: 0x4002,
+  POWER_MODE_REQUEST: 0x4003,
+  POWER_MODE_RESPONSE: 0x4004,
+  DIAGNOSTIC_MESSAGE: 0x8001,
+  DIAGNOSTIC_ACK: 0x8002,
+  DIAGNOSTIC_NACK: 0x8003,
+} as const;
+
+/** 头部 NACK 码 (GENERIC_NACK) */
+export const DOIP_HEADER_NACK = {
+  INCORRECT_PATTERN_FORMAT: 0x00,
+  UNKNOWN_PAYLOAD_TYPE: 0x01,
+  MESSAGE_TOO_LARGE: 0x02,
+  OUT_OF_MEMORY: 0x03,
+  INVALID_PAYLOAD_LENGTH: 0x04,
+} as const;
+
+/** 路由激活类型 */
+export const DOIP_ACTIVATION_TYPE = {
+  DEFAULT: 0x00,
+  WWH_OBD: 0x01,
+  CENTRAL_SECURITY: 0xE0,
+} as const;
+
+/** 路由激活响应码 */
+export const DOIP_ROUTING_RESPONSE = {
+  UNKNOWN_SOURCE_ADDRESS: 0x00,
+  ALL_SOCKETS_REGISTERED: 0x01,
+  SOURCE_ADDRESS_MISMATCH: 0x02,
+  SOURCE_ADDRESS_ALREADY_ACTIVE: 0x03,
+  MISSING_AUTHENTICATION: 0x04,
+  REJECTED_CONFIRMATION: 0x05,
+  UNSUPPORTED_ACTIVATION_TYPE: 0x06,
+  SUCCESS: 0x10,
+  CONFIRMATION_REQUIRED: 0x11,
+} as const;
+
+/** 诊断消息 NACK 码 */
+export const DOIP_DIAGNOSTIC_NACK = {
+  INVALID_SOURCE_ADDRESS: 0x02,
+  UNKNOWN_TARGET_ADDRESS: 0x03,
+  MESSAGE_TOO_LARGE: 0x04,
+  OUT_OF_MEMORY: 0x05,
+  TARGET_UNREACHABLE: 0x06,
+  UNKNOWN_NETWORK: 0x07,
+  TRANSPORT_PROTOCOL_ERROR: 0x08,
+} as const;
+
+/** DoIP 头部长度 */
+export const DOIP_HEADER_LENGTH = 8;
+
+const HEADER_NACK_STATUS: Record<number, number> = {
+  [DOIP_HEADER_NACK.INCORRECT_PATTERN_FORMAT]: ZCAN_UDS_ERROR.DOIP_HEADER_NACK_INCORRECT_PATTERN_FORMAT,
+  [DOIP_HEADER_NACK.UNKNOWN_PAYLOAD_TYPE]: ZCAN_UDS_ERROR.DOIP_HEADER_NACK_UNKNOWN_PAYLOAD_TYPE,
+  [DOIP_HEADER_NACK.MESSAGE_TOO_LARGE]: ZCAN_UDS_ERROR.DOIP_HEADER_NACK_MESSAGE_TOO_LARGE,
+  [DOIP_HEADER_NACK.OUT_OF_MEMORY]: ZCAN_UDS_ERROR.DOIP_HEADER_NACK_OUT_OF_MEMORY,
+  [DOIP_HEADER_NACK.INVALID_PAYLOAD_LENGTH]: ZCAN_UDS_ERROR.DOIP_HEADER_NACK_INVALID_PAYLOAD_LENGTH,
+};
+
+const DIAGNOSTIC_NACK_STATUS: Record<number, number> = {
+  [DOIP_DIAGNOSTIC_NACK.INVALID_SOURCE_ADDRESS]: ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_INVALID_SOURCE_ADDRESS,
+  [DOIP_DIAGNOSTIC_NACK.UNKNOWN_TARGET_ADDRESS]: ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_UNKNOWN_TARGET_ADDRESS,
+  [DOIP_DIAGNOSTIC_NACK.MESSAGE_TOO_LARGE]: ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_MESSAGE_TOO_LARGE,
+  [DOIP_DIAGNOSTIC_NACK.OUT_OF_MEMORY]: ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_OUT_OF_MEMORY,
+  [DOIP_DIAGNOSTIC_NACK.TARGET_UNREACHABLE]: ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_TARGET_UNREACHABLE,
+  [DOIP_DIAGNOSTIC_NACK.UNKNOWN_NETWORK]: ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_UNKNOWN_NETWORK,
+  [DOIP_DIAGNOSTIC_NACK.TRANSPORT_PROTOCOL_ERROR]: ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_TRANSPORT_PROTOCOL_ERROR,
+};
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * DoIP 消息
+ */
+export interface DoipMessage {
+  /** 协议版本 */
+  protocolVersion: number;
+  /** 负载类型 (见 DOIP_PAYLOAD_TYPE) */
+  payloadType: number;
+  /** 负载 */
+  payload: Buffer;
+}
+
+/**
+ * 车辆声明 / 车辆识别响应
+ */
+export interface DoipEntity {
+  /** DoIP 实体 IP 地址 */
+  address: string;
+  /** 发送声明的 UDP 端口 */
+  port: number;
+  /** 车辆识别号 */
+  vin: string;
+  /** 逻辑地址 */
+  logicalAddress: number;
+  /** 实体标识 (EID，通常为 MAC 地址) */
+  eid: Buffer;
+  /** 组标识 (GID) */
+  gid: Buffer;
+  /** 后续操作要求 (0x00 无，0x10 需要中央安全路由激活) */
+  furtherAction: number;
+  /** VIN/GID 同步状态 (可选) */
+  syncStatus?: number;
+}
+
+/**
+ * 车辆发现选项
+ */
+export interface DoipDiscoveryOptions {
+  /** 目标地址，默认 '255.255.255.255' (广播) */
+  address?: string;
+  /** 目标端口，默认 13400 */
+  port?: number;
+  /** 本地绑定地址，默认所有网卡 */
+  localAddress?: string;
+  /** 等待响应的时间 (ms)，默认 1000 */
+  timeout?: number;
+  /** 只识别指定 VIN 的车辆 */
+  vin?: string;
+  /** 只识别指定 EID 的实体 */
+  eid?: Buffer | number[];
+  /** 协议版本，默认 DOIP_PROTOCOL_VERSION.DEFAULT */
+  protocolVersion?: number;
+}
+
+/**
+ * DoIP 客户端配置
+ */
+export interface DoipClientConfig {
+  /** DoIP 实体 IP 地址 */
+  host: string;
+  /** TCP 端口，默认 13400 */
+  port?: number;
+  /** 测试设备逻辑地址，默认 0x0E00 */
+  sourceAddress?: number;
+  /** 目标 ECU 逻辑地址 */
+  targetAddress: number;
+  /** 路由激活类型，默认 DOIP_ACTIVATION_TYPE.DEFAULT */
+  activationType?: number;
+  /** 路由激活请求的 OEM 数据 (4 字节，可选) */
+  oemData?: Buffer | number[];
+  /** 协议版本，默认 DOIP_PROTOCOL_VERSION.ISO_13400_2012 */
+  protocolVersion?: number;
+  /** TCP 连接超时 (ms)，默认 2000 */
+  connectTimeout?: number;
+  /** 等待路由激活响应的超时 (ms)，默认 2000 */
+  routingActivationTimeout?: number;
+  /** 等待诊断消息 ACK/NACK 的超时 (ms)，默认 2000 */
+  diagnosticAckTimeout?: number;
+  /** 可接收的最大负载长度，超过时回复头部 NACK 并断开，默认 0x100000 */
+  maxPayloadLength?: number;
+}
+
+/**
+ * 路由激活结果
+ */
+export interface RoutingActivationResult {
+  /** 测试设备逻辑地址 */
+  testerAddress: number;
+  /** DoIP 实体逻辑地址 */
+  entityAddress: number;
+  /** 响应码 (见 DOIP_ROUTING_RESPONSE) */
+  responseCode: number;
+}
+
+/**
+ * DoIP 客户端事件
+ */
+export interface DoipClientEvents {
+  /** 收到诊断消息 (包括非目标 ECU 的消息) */
+  diagnosticMessage: (sourceAddress: number, data: Buffer) => void;
+  /** 收到在线检查请求 (已自动响应) */
+  aliveCheck: () => void;
+  /** 连接关闭 */
+  close: () => void;
+  /** 收到无法关联到请求的头部 NACK、格式错误的数据或连接错误 (没有监听器时忽略) */
+  error: (error: Error) => void;
+}
+
+export interface DoipClient {
+  on<E extends keyof DoipClientEvents>(event: E, listener: DoipClientEvents[E]): this;
+  once<E extends keyof DoipClientEvents>(event: E, listener: DoipClientEvents[E]): this;
+  off<E extends keyof DoipClientEvents>(event: E, listener: DoipClientEvents[E]): this;
+  emit<E extends keyof DoipClientEvents>(event: E, ...args: Parameters<DoipClientEvents[E]>): boolean;
+}
+
+// ============================================================================
+// 异常
+// ============================================================================
+
+/**
+ * DoIP 通信失败
+ *
+ * status 为 ZCAN_UDS_ERROR.DOIP_* 状态码，与设备端 UDS 请求使用相同的错误码；
+ * 收到 NACK 时 nackCode 为原始 NACK 码
+ */
+export class DoipError extends UdsRequestError {
+  constructor(
+    status: number,
+    public readonly nackCode?: number,
+    message?: string,
+  ) {
+    super('DoIP', status, message);
+    this.name = 'DoipError';
+  }
+}
+
+// ============================================================================
+// 编解码
+// ============================================================================
+
+/**
+ * 编码 DoIP 消息
+ * @param payloadType 负载类型
+ * @param payload 负载
+ * @param protocolVersion 协议版本，默认 DOIP_PROTOCOL_VERSION.ISO_13400_2012
+ */
+export function encodeDoipMessage(
+  payloadType: number,
+  payload: Buffer | number[] = [],
+  protocolVersion: number = DOIP_PROTOCOL_VERSION.ISO_13400_2012,
+): Buffer {
+  const data = Buffer.from(payload);
+  const header = Buffer.alloc(DOIP_HEADER_LENGTH);
+  header[0] = protocolVersion;
+  header[1] = ~protocolVersion & 0xFF;
+  header.writeUInt16BE(payloadType, 2);
+  header.writeUInt32BE(data.length, 4);
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * DoIP 消息流解析器，将 TCP 数据流拆分为完整的消息
+ */
+export class DoipMessageParser {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  /**
+   * @param maxPayloadLength 可接收的最大负载长度
+   */
+  constructor(private readonly maxPayloadLength: number = 0xFFFFFFFF) {}
+
+  /**
+   * 追加数据并返回已完整接收的消息
+   * @throws {DoipError} 同步字节错误或负载过长时抛出异常 (nackCode 为应回复的头部 NACK 码)
+   */
+  push(chunk: Buffer): DoipMessage[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const messages: DoipMessage[] = [];
+    while (this.buffer.length >= DOIP_HEADER_LENGTH) {
+      const version = this.buffer[0];
+      if ((version ^ this.buffer[1]) !== 0xFF) {
+        this.buffer = Buffer.alloc(0);
+        throw new DoipError(ZCAN_UDS_ERROR.DOIP_HEADER_NACK_INCORRECT_PATTERN_FORMAT, DOIP_HEADER_NACK.INCORRECT_PATTERN_FORMAT);
+      }
+      const length = this.buffer.readUInt32BE(4);
+      if (length > this.maxPayloadLength) {
+        this.buffer = Buffer.alloc(0);
+        throw new DoipError(ZCAN_UDS_ERROR.DOIP_HEADER_NACK_MESSAGE_TOO_LARGE, DOIP_HEADER_NACK.MESSAGE_TOO_LARGE);
+      }
+      if (this.buffer.length < DOIP_HEADER_LENGTH + length) {
+        break;
+      }
+      messages.push({
+        protocolVersion: version,
+        payloadType: this.buffer.readUInt16BE(2),
+        payload: Buffer.from(this.buffer.subarray(DOIP_HEADER_LENGTH, DOIP_HEADER_LENGTH + length)),
+      });
+      this.buffer = this.buffer.subarray(DOIP_HEADER_LENGTH + length);
+    }
+    return messages;
+  }
+
+  /**
+   * 清除未完整接收的数据
+   */
+  reset(): void {
+    this.buffer = Buffer.alloc(0);
+  }
+}
+
+/**
+ * 解析车辆声明 / 车辆识别响应负载
+ * @returns 负载长度不足时返回 null
+ */
+export function parseVehicleAnnouncement(payload: Buffer, address: string = '', port: number = DOIP_PORT): DoipEntity | null {
+  if (payload.length < 32) {
+    return null;
+  }
+  return {
+    address,
+    port,
+    vin: payload.subarray(0, 17).toString('ascii'),
+    logicalAddress: payload.readUInt16BE(17),
+    eid: Buffer.from(payload.subarray(19, 25)),
+    gid: Buffer.from(payload.subarray(25, 31)),
+    furtherAction: payload[31],
+    syncStatus: payload.length > 32 ? payload[32] : undefined,
+  };
+}
+
+// ============================================================================
+// 车辆发现
+// ============================================================================
+
+/**
+ * 发送车辆识别请求并收集响应
+ * @param options 发现选项
+ * @returns 在超时时间内响应的 DoIP 实体 (按地址和逻辑地址去重)
+ */
+export function discoverDoipEntities(options: DoipDiscoveryOptions = {}): Promise<DoipEntity[]> {
+  const {
+    address = '255.255.255.255',
+    port = DOIP_PORT,
+    timeout = 1000,
+    protocolVersion = DOIP_PROTOCOL_VERSION.DEFAULT,
+  } = options;
+
+  let request: Buffer;
+  if (options.vin !== undefined) {
+    request = encodeDoipMessage(DOIP_PAYLOAD_TYPE.VEHICLE_IDENTIFICATION_REQUEST_VIN, Buffer.from(options.vin, 'ascii'), protocolVersion);
+  } else if (options.eid !== undefined) {
+    request = encodeDoipMessage(DOIP_PAYLOAD_TYPE.VEHICLE_IDENTIFICATION_REQUEST_EID, options.eid, protocolVersion);
+  } else {
+    request = encodeDoipMessage(DOIP_PAYLOAD_TYPE.VEHICLE_IDENTIFICATION_REQUEST, [], protocolVersion);
+  }
+
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket('udp4');
+    const entities = new Map<string, DoipEntity>();
+    let timer: NodeJS.Timeout | null = null;
+    let finished = false;
+
+    const finish = (error: Error | null) => {
+      // 发送失败后仍可能触发 socket error 或超时
+      if (finished) {
+        return;
+      }
+      finished = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      socket.close();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(Array.from(entities.values()));
+      }
+    };
+
+    socket.on('error', () => finish(new DoipError(ZCAN_UDS_ERROR.DOIP_FAILED_TO_CREATE_SOCKET)));
+    socket.on('message', (data, remote) => {
+      try {
+        for (const message of new DoipMessageParser().push(data)) {
+          if (message.payloadType !== DOIP_PAYLOAD_TYPE.VEHICLE_ANNOUNCEMENT) {
+            continue;
+          }
+          const entity = parseVehicleAnnouncement(message.payload, remote.address, remote.port);
+          if (entity) {
+            entities.set(`${entity.address}/${entity.logicalAddress}`, entity);
+          }
+        }
+      } catch {
+        // 忽略格式错误的数据报
+      }
+    });
+
+    socket.bind(0, options.localAddress, () => {
+      socket.setBroadcast(true);
+      socket.send(request, port, address, (error) => {
+        if (error) {
+          finish(new DoipError(ZCAN_UDS_ERROR.DOIP_FAILED_TO_CONNECT));
+        }
+      });
+      timer = setTimeout(() => finish(null), timeout);
+    });
+  });
+}
+
+// ============================================================================
+// 客户端
+// ============================================================================
+
+/**
+ * 等待中的响应
+ */
+interface PendingResponse {
+  payloadTypes: number[];
+  resolve: (message: DoipMessage) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * DoIP 诊断客户端
+ *
+ * connect() 建立 TCP 连接并执行路由激活，之后 send() 发送诊断消息并等待 ACK/NACK，
+ * 目标 ECU 的诊断消息由 receive() 读取。实现了 UdsTransport，可直接用于 UdsClient。
+ * 在线检查请求自动响应
+ */
+export class DoipClient extends EventEmitter {
+  private readonly config: Required<Omit<DoipClientConfig, 'oemData'>> & { oemData: Buffer | null };
+  private readonly parser: DoipMessageParser;
+  private socket: net.Socket | null = null;
+  private activated = false;
+  private pending: PendingResponse | null = null;
+  private sendChain: Promise<unknown> = Promise.resolve();
+  private readonly received: Buffer[] = [];
+  private readonly waiters: { resolve: (data: Buffer | null) => void; timer: NodeJS.Timeout | null }[] = [];
+
+  /**
+   * @param config 客户端配置
+   */
+  constructor(config: DoipClientConfig) {
+    super();
+    this.config = {
+      port: DOIP_PORT,
+      sourceAddress: 0x0E00,
+      activationType: DOIP_ACTIVATION_TYPE.DEFAULT,
+      protocolVersion: DOIP_PROTOCOL_VERSION.ISO_13400_2012,
+      connectTimeout: 2000,
+      routingActivationTimeout: 2000,
+      diagnosticAckTimeout: 2000,
+      maxPayloadLength: 0x100000,
+      ...config,
+      oemData: config.oemData ? Buffer.from(config.oemData) : null,
+    };
+    this.parser = new DoipMessageParser(this.config.maxPayloadLength);
+  }
+
+  // ============================================================================
+  // 连接管理
+  // ============================================================================
+
+  /**
+   * 建立 TCP 连接并执行路由激活
+   * @throws {DoipError} 连接失败、超时或路由激活被拒绝时抛出异常
+   */
+  async connect(): Promise<RoutingActivationResult> {
+    if (this.socket) {
+      throw new DoipError(ZCAN_UDS_ERROR.DOIP_ROUTING_ALREADY_ACTIVE);
+    }
+    await this.openSocket();
+    try {
+      return await this.activateRouting();
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  /**
+   * 关闭连接
+   */
+  close(): void {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+    this.socket = null;
+    this.activated = false;
+    socket.destroy();
+    this.parser.reset();
+    this.rejectPending(new DoipError(ZCAN_UDS_ERROR.DOIP_ROUTING_NOT_ACTIVE));
+    this.flushWaiters();
+    this.emit('close');
+  }
+
+  /**
+   * 路由是否已激活
+   */
+  isConnected(): boolean {
+    return this.activated;
+  }
+
+  /**
+   * 切换目标 ECU 逻辑地址
+   */
+  setTargetAddress(address: number): void {
+    this.config.targetAddress = address;
+  }
+
+  private openSocket(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.config.host, port: this.config.port });
+      socket.setNoDelay(true);
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new DoipError(ZCAN_UDS_ERROR.DOIP_TIMEOUT));
+      }, this.config.connectTimeout);
+
+      socket.once('connect', () => {
+        clearTimeout(timer);
+        this.socket = socket;
+        resolve();
+      });
+      socket.on('error', (error) => {
+        clearTimeout(timer);
+        if (this.socket === socket) {
+          // 连接已断开，由 close 事件清理状态
+          this.rejectPending(error);
+          this.close();
+          emitError(this, error);
+        } else {
+          reject(new DoipError(ZCAN_UDS_ERROR.DOIP_FAILED_TO_CONNECT));
+        }
+      });
+      socket.on('close', () => {
+        if (this.socket === socket) {
+          this.close();
+        }
+      });
+      socket.on('data', (chunk) => this.handleData(chunk));
+    });
+  }
+
+  private async activateRouting(): Promise<RoutingActivationResult> {
+    const payload = Buffer.alloc(7);
+    payload.writeUInt16BE(this.config.sourceAddress, 0);
+    payload[2] = this.config.activationType;
+    const request = this.config.oemData ? Buffer.concat([payload, this.config.oemData]) : payload;
+
+    const response = await this.transact(
+      DOIP_PAYLOAD_TYPE.ROUTING_ACTIVATION_REQUEST,
+      request,
+      [DOIP_PAYLOAD_TYPE.ROUTING_ACTIVATION_RESPONSE],
+      this.config.routingActivationTimeout,
+    );
+    if (response.payload.length < 9) {
+      throw new DoipError(ZCAN_UDS_ERROR.DOIP_HEADER_NACK_INVALID_PAYLOAD_LENGTH);
+    }
+
+    const result = {
+      testerAddress: response.payload.readUInt16BE(0),
+      entityAddress: response.payload.readUInt16BE(2),
+      responseCode: response.payload[4],
+    };
+    if (result.responseCode === DOIP_ROUTING_RESPONSE.SOURCE_ADDRESS_ALREADY_ACTIVE) {
+      throw new DoipError(ZCAN_UDS_ERROR.DOIP_ROUTING_ALREADY_ACTIVE, result.responseCode);
+    }
+    if (result.responseCode !== DOIP_ROUTING_RESPONSE.SUCCESS) {
+      throw new DoipError(ZCAN_UDS_ERROR.DOIP_ROUTING_ACTIVE_FAIL, result.responseCode);
+    }
+    this.activated = true;
+    return result;
+  }
+
+  // ============================================================================
+  // 诊断消息
+  // ============================================================================
+
+  /**
+   * 向目标 ECU 发送诊断消息并等待 ACK，多次调用按顺序发送
+   * @param data UDS 请求
+   * @throws {DoipError} 路由未激活、收到 NACK 或等待 ACK 超时时抛出异常
+   */
+  send(data: Buffer): Promise<void> {
+    const result = this.sendChain.then(async () => {
+      if (!this.activated) {
+        throw new DoipError(ZCAN_UDS_ERROR.DOIP_ROUTING_NOT_ACTIVE);
+      }
+      const { sourceAddress, targetAddress } = this.config;
+      const header = Buffer.alloc(4);
+      header.writeUInt16BE(sourceAddress, 0);
+      header.writeUInt16BE(targetAddress, 2);
+
+      const response = await this.transact(
+        DOIP_PAYLOAD_TYPE.DIAGNOSTIC_MESSAGE,
+        Buffer.concat([header, Buffer.from(data)]),
+        [DOIP_PAYLOAD_TYPE.DIAGNOSTIC_ACK, DOIP_PAYLOAD_TYPE.DIAGNOSTIC_NACK],
+        this.config.diagnosticAckTimeout,
+      );
+      if (response.payloadType === DOIP_PAYLOAD_TYPE.DIAGNOSTIC_NACK) {
+        const code = response.payload[4];
+        throw new DoipError(DIAGNOSTIC_NACK_STATUS[code] ?? ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_UNKNOWN, code);
+      }
+    });
+    this.sendChain = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * 读取目标 ECU 的诊断消息
+   * @param timeout 超时时间 (ms)，省略时不等待
+   * @returns 诊断消息数据，超时或连接关闭返回 null
+   */
+  receive(timeout?: number): Promise<Buffer | null> {
+    const queued = this.received.shift();
+    if (queued) {
+      return Promise.resolve(queued);
+    }
+    if (!timeout || !this.socket) {
+      return Promise.resolve(null);
+    }
+    return new Promise((resolve) => {
+      const waiter: { resolve: (data: Buffer | null) => void; timer: NodeJS.Timeout | null } = { resolve, timer: null };
+      waiter.timer = setTimeout(() => {
+        const index = this.waiters.indexOf(waiter);
+        if (index >= 0) {
+          this.waiters.splice(index, 1);
+        }
+        resolve(null);
+      }, timeout);
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * 清除已缓存的诊断消息
+   */
+  clearReceived(): void {
+    this.received.length = 0;
+  }
+
+  // ============================================================================
+  // 消息处理
+  // ============================================================================
+
+  /**
+   * 发送请求并等待指定类型的响应
+   */
+  private transact(payloadType: number, payload: Buffer, responseTypes: number[], timeout: number): Promise<DoipMessage> {
+    return new Promise((resolve, reject) => {
+      const socket = this.socket;
+      if (!socket) {
+        reject(new DoipError(ZCAN_UDS_ERROR.DOIP_ROUTING_NOT_ACTIVE));
+        return;
+      }
+      const timer = setTimeout(() => {
+        this.pending = null;
+        reject(new DoipError(ZCAN_UDS_ERROR.DOIP_TIMEOUT));
+      }, timeout);
+      this.pending = { payloadTypes: responseTypes, resolve, reject, timer };
+      socket.write(encodeDoipMessage(payloadType, payload, this.config.protocolVersion));
+    });
+  }
+
+  private handleData(chunk: Buffer): void {
+    let messages: DoipMessage[];
+    try {
+      messages = this.parser.push(chunk);
+    } catch (error) {
+      // 回复头部 NACK 后断开连接
+      const nack = (error as DoipError).nackCode ?? DOIP_HEADER_NACK.INCORRECT_PATTERN_FORMAT;
+      this.socket?.write(encodeDoipMessage(DOIP_PAYLOAD_TYPE.GENERIC_NACK, [nack], this.config.protocolVersion));
+      this.rejectPending(error as Error);
+      this.close();
+      emitError(this, error);
+      return;
+    }
+    messages.forEach((message) => this.handleMessage(message));
+  }
+
+  private handleMessage(message: DoipMessage): void {
+    const { payloadType, payload } = message;
+    const pending = this.pending;
+
+    switch (payloadType) {
+      case DOIP_PAYLOAD_TYPE.ALIVE_CHECK_REQUEST: {
+        const response = Buffer.alloc(2);
+        response.writeUInt16BE(this.config.sourceAddress);
+        this.socket?.write(encodeDoipMessage(DOIP_PAYLOAD_TYPE.ALIVE_CHECK_RESPONSE, response, this.config.protocolVersion));
+        this.emit('aliveCheck');
+        return;
+      }
+      case DOIP_PAYLOAD_TYPE.DIAGNOSTIC_MESSAGE:
+        if (payload.length >= 4) {
+          this.deliver(payload.readUInt16BE(0), Buffer.from(payload.subarray(4)));
+        }
+        return;
+      case DOIP_PAYLOAD_TYPE.GENERIC_NACK: {
+        const error = new DoipError(HEADER_NACK_STATUS[payload[0]] ?? ZCAN_UDS_ERROR.DOIP_HEADER_NACK_UNKNOWN, payload[0]);
+        if (pending) {
+          this.rejectPending(error);
+        } else {
+          emitError(this, error);
+        }
+        return;
+      }
+    }
+
+    if (pending && pending.payloadTypes.includes(payloadType)) {
+      clearTimeout(pending.timer);
+      this.pending = null;
+      pending.resolve(message);
+    }
+  }
+
+  private deliver(sourceAddress: number, data: Buffer): void {
+    this.emit('diagnosticMessage', sourceAddress, data);
+    if (sourceAddress !== this.config.targetAddress) {
+      return;
+    }
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      if (waiter.timer) {
+        clearTimeout(waiter.timer);
+      }
+      waiter.resolve(data);
+    } else {
+      this.received.push(data);
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    const pending = this.pending;
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending = null;
+      pending.reject(error);
+    }
+  }
+
+  private flushWaiters(): void {
+    for (const waiter of this.waiters.splice(0)) {
+      if (waiter.timer) {
+        clearTimeout(waiter.timer);
+      }
+      waiter.resolve(null);
+    }
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * EDS 文件解析器 (CiA 306)
+ * 将电子数据表解析为文件信息、设备信息和对象字典条目
+ */
+
+import { ZlgCanError } from '../driver';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 对象类型
+ */
+export const EDS_OBJECT_TYPE = {
+  NULL: 0x0,
+  DOMAIN: 0x2,
+  DEFTYPE: 0x5,
+  DEFSTRUCT: 0x6,
+  VAR: 0x7,
+  ARRAY: 0x8,
+  RECORD: 0x9,
+} as const;
+
+/**
+ * 访问类型
+ */
+export type EdsAccessType = 'ro' | 'wo' | 'rw' | 'rwr' | 'rww' | 'const';
+
+/**
+ * 对象字典条目
+ */
+export interface EdsObject {
+  /** 索引 */
+  index: number;
+  /** 子索引 (主对象为 0) */
+  subIndex: number;
+  /** 参数名 (ParameterName) */
+  name: string;
+  /** 对象类型 (EDS_OBJECT_TYPE)，默认 VAR */
+  objectType: number;
+  /** 数据类型 (CANOPEN_DATA_TYPE)，ARRAY/RECORD 主对象可能没有 */
+  dataType?: number;
+  /** 访问类型 */
+  accessType?: EdsAccessType;
+  /** 默认值原文 (可能包含 $NODEID) */
+  defaultValue?: string;
+  /** 下限原文 */
+  lowLimit?: string;
+  /** 上限原文 */
+  highLimit?: string;
+  /** 是否可映射到 PDO */
+  pdoMapping: boolean;
+  /** 子对象 (子索引 → 条目)，仅 ARRAY/RECORD */
+  subObjects: Map<number, EdsObject>;
+}
+
+/**
+ * EDS 文件
+ */
+export interface EdsFile {
+  /** [FileInfo] 节 */
+  fileInfo: Record<string, string>;
+  /** [DeviceInfo] 节 */
+  deviceInfo: Record<string, string>;
+  /** 对象字典条目 (索引 → 条目)，按索引排序 */
+  objects: Map<number, EdsObject>;
+}
+
+// ============================================================================
+// 解析
+// ============================================================================
+
+const ACCESS_TYPES = new Set<string>(['ro', 'wo', 'rw', 'rwr', 'rww', 'const']);
+
+/**
+ * 解析 EDS 中的整数 (十进制、0x 十六进制或 0 开头的八进制)
+ */
+export function parseEdsInteger(text: string): number {
+  const value = text.trim();
+  if (/^[+-]?0x[0-9a-f]+$/i.test(value)) {
+    return (value.startsWith('-') ? -1 : 1) * parseInt(value.replace(/^[+-]/, ''), 16);
+  }
+  if (/^0[0-7]+$/.test(value)) {
+    return parseInt(value, 8);
+  }
+  if (/^[+-]?\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  return NaN;
+}
+
+interface EdsSection {
+  /** 节所在行号 */
+  line: number;
+  /** 键 (大写) → 值 */
+  entries: Map<string, string>;
+  /** 原键名 → 值 */
+  record: Record<string, string>;
+}
+
+/**
+ * 按节读取 INI 格式内容
+ * @returns 节名 (大写) → 节内容
+ */
+function readSections(text: string): Map<string, EdsSection> {
+  const sections = new Map<string, EdsSection>();
+  let current: EdsSection | null = null;
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith(';') || line.startsWith('#')) {
+      return;
+    }
+    const section = /^\[([^\]]+)\]$/.exec(line);
+    if (section) {
+      const name = section[1].trim().toUpperCase();
+      if (sections.has(name)) {
+        throw new ZlgCanError('parseEds', undefined, `第 ${i + 1} 行重复的节: [${section[1].trim()}]`);
+      }
+      current = { line: i + 1, entries: new Map(), record: {} };
+      sections.set(name, current);
+      return;
+    }
+    const separator = line.indexOf('=');
+    if (separator <= 0 || !current) {
+      throw new ZlgCanError('parseEds', undefined, `第 ${i + 1} 行无法解析: ${line}`);
+    }
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    current.entries.set(key.toUpperCase(), value);
+    current.record[key] = value;
+  });
+  return sections;
+}
+
+function parseEntry(
+  index: number,
+  subIndex: number,
+  entries: Map<string, string>,
+  line: number,
+): EdsObject {
+  const integer = (key: string): number | undefined => {
+    const text = entries.get(key.toUpperCase());
+    if (text === undefined || text === '') {
+      return undefined;
+    }
+    const value = parseEdsInteger(text);
+    if (Number.isNaN(value)) {
+      throw new ZlgCanError('parseEds', undefined, `第 ${line} 行对象 ${index.toString(16).toUpperCase()} 的 ${key} 不是整数: ${text}`);
+    }
+    return value;
+  };
+
+  const object: EdsObject = {
+    index,
+    subIndex,
+    name: entries.get('PARAMETERNAME') ?? '',
+    objectType: integer('ObjectType') ?? EDS_OBJECT_TYPE.VAR,
+    pdoMapping: integer('PDOMapping') === 1,
+    subObjects: new Map(),
+  };
+  const dataType = integer('DataType');
+  if (dataType !== undefined) {
+    object.dataType = dataType;
+  }
+  const accessType = entries.get('ACCESSTYPE')?.toLowerCase();
+  if (accessType) {
+    if (!ACCESS_TYPES.has(accessType)) {
+      throw new ZlgCanError('parseEds', undefined, `第 ${line} 行无效的访问类型: ${accessType}`);
+    }
+    object.accessType = accessType as EdsAccessType;
+  }
+  for (const [key, field] of [['DEFAULTVALUE', 'defaultValue'], ['LOWLIMIT', 'lowLimit'], ['HIGHLIMIT', 'highLimit']] as const) {
+    const value = entries.get(key);
+    if (value !== undefined && value !== '') {
+      object[field] = value;
+    }
+  }
+  return object;
+}
+
+/**
+ * 解析 EDS 文件
+ *
+ * 对象节为 [1018]，子对象节为 [1018sub1]；对象列表节 (MandatoryObjects 等) 仅用于
+ * 校验，未在列表中出现的对象节同样被解析
+ * @param content 文件内容 (Buffer 按 latin1 解码)
+ * @throws {ZlgCanError} 语法错误时抛出异常，消息包含行号
+ */
+export function parseEds(content: string | Buffer): EdsFile {
+  const text = typeof content === 'string' ? content : content.toString('latin1');
+  const sections = readSections(text);
+  const objects = new Map<number, EdsObject>();
+  const subSections: [number, number, Map<string, string>, number][] = [];
+
+  for (const [name, { line, entries }] of sections) {
+    const main = /^([0-9A-F]{4})$/.exec(name);
+    if (main) {
+      const index = parseInt(main[1], 16);
+      objects.set(index, parseEntry(index, 0, entries, line));
+      continue;
+    }
+    const sub = /^([0-9A-F]{4})SUB([0-9A-F]{1,2})$/.exec(name);
+    if (sub) {
+      subSections.push([parseInt(sub[1], 16), parseInt(sub[2], 16), entries, line]);
+    }
+  }
+
+  for (const [index, subIndex, entries, line] of subSections) {
+    const parent = objects.get(index);
+    if (!parent) {
+      throw new ZlgCanError('parseEds', undefined, `第 ${line} 行子对象 ${index.toString(16).toUpperCase()}sub${subIndex.toString(16)} 没有主对象`);
+    }
+    parent.subObjects.set(subIndex, parseEntry(index, subIndex, entries, line));
+  }
+
+  for (const list of ['MANDATORYOBJECTS', 'OPTIONALOBJECTS', 'MANUFACTUREROBJECTS']) {
+    const section = sections.get(list);
+    if (!section) {
+      continue;
+    }
+    for (const [key, value] of section.entries) {
+      if (key === 'SUPPORTEDOBJECTS') {
+        continue;
+      }
+      const index = parseEdsInteger(value);
+      if (!objects.has(index)) {
+        throw new ZlgCanError('parseEds', undefined, `第 ${section.line} 行之后列出的对象 ${value} 没有对应的节`);
+      }
+    }
+  }
+
+  return {
+    fileInfo: sections.get('FILEINFO')?.record ?? {},
+    deviceInfo: sections.get('DEVICEINFO')?.record ?? {},
+    objects: new Map([...objects].sort(([a], [b]) => a - b)),
+  };
+}
@@ -0,0 +1,267 @@
+/**
+ * 刷写镜像解析
+ * 将 Intel HEX、Motorola S-record 和二进制文件解析为按地址排序的连续内存段
+ */
+
+import { ZlgCanError } from '../driver';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 连续内存段
+ */
+export interface MemorySegment {
+  /** 起始地址 */
+  address: number;
+  /** 数据 */
+  data: Buffer;
+}
+
+/**
+ * 镜像格式
+ */
+export type ImageFormat = 'ihex' | 'srec' | 'binary';
+
+/**
+ * 镜像加载选项
+ */
+export interface LoadImageOptions {
+  /**
+   * 文件格式，省略时按内容判断：
+   * 文本内容且第一条记录有效时为 Intel HEX 或 S-record，包含非文本字节时为二进制，其他内容须指定格式
+   */
+  format?: ImageFormat;
+  /** 二进制文件的起始地址，默认 0 */
+  baseAddress?: number;
+}
+
+/** Intel HEX 记录类型 */
+const IHEX_RECORD = {
+  DATA: 0x00,
+  END_OF_FILE: 0x01,
+  EXTENDED_SEGMENT_ADDRESS: 0x02,
+  START_SEGMENT_ADDRESS: 0x03,
+  EXTENDED_LINEAR_ADDRESS: 0x04,
+  START_LINEAR_ADDRESS: 0x05,
+} as const;
+
+/** S-record 数据记录的地址长度 (字节) */
+const SREC_DATA_ADDRESS_LENGTH: Record<string, number> = {
+  S1: 2,
+  S2: 3,
+  S3: 4,
+};
+
+// ============================================================================
+// 内存段合并
+// ============================================================================
+
+/**
+ * 按地址排序并合并相邻的内存段
+ * @throws {ZlgCanError} 内存段地址重叠时抛出异常
+ */
+export function mergeSegments(segments: MemorySegment[]): MemorySegment[] {
+  const sorted = segments.filter((s) => s.data.length > 0).sort((a, b) => a.address - b.address);
+  const merged: { address: number; chunks: Buffer[]; end: number }[] = [];
+
+  for (const segment of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && segment.address < last.end) {
+      throw new ZlgCanError('mergeSegments', undefined, `内存段地址重叠: 0x${segment.address.toString(16)}`);
+    }
+    if (last && segment.address === last.end) {
+      last.chunks.push(segment.data);
+      last.end += segment.data.length;
+    } else {
+      merged.push({ address: segment.address, chunks: [segment.data], end: segment.address + segment.data.length });
+    }
+  }
+
+  return merged.map((m) => ({ address: m.address, data: Buffer.concat(m.chunks) }));
+}
+
+// ============================================================================
+// 解析
+// ============================================================================
+
+function parseHexBytes(text: string, operation: string, line: number): Buffer {
+  if (text.length % 2 !== 0 || !/^[0-9A-Fa-f]*$/.test(text)) {
+    throw new ZlgCanError(operation, undefined, `第 ${line} 行包含无效的十六进制数据`);
+  }
+  return Buffer.from(text, 'hex');
+}
+
+/**
+ * 解析 Intel HEX 文件
+ * @param text 文件内容
+ * @throws {ZlgCanError} 记录格式或校验和错误时抛出异常
+ */
+export function parseIntelHex(text: string): MemorySegment[] {
+  const operation = 'parseIntelHex';
+  const segments: MemorySegment[] = [];
+  let base = 0;
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '') {
+      continue;
+    }
+    if (line[0] !== ':') {
+      throw new ZlgCanError(operation, undefined, `第 ${i + 1} 行不是有效的记录`);
+    }
+
+    const bytes = parseHexBytes(line.slice(1), operation, i + 1);
+    if (bytes.length < 5 || bytes.length !== bytes[0] + 5) {
+      throw new ZlgCanError(operation, undefined, `第 ${i + 1} 行长度错误`);
+    }
+    const sum = bytes.reduce((acc, b) => acc + b, 0);
+    if ((sum & 0xFF) !== 0) {
+      throw new ZlgCanError(operation, undefined, `第 ${i + 1} 行校验和错误`);
+    }
+
+    const offset = bytes.readUInt16BE(1);
+    const type = bytes[3];
+    const data = bytes.subarray(4, 4 + bytes[0]);
+    switch (type) {
+      case IHEX_RECORD.DATA:
+        segments.push({ address: base + offset, data: Buffer.from(data) });
+        break;
+      case IHEX_RECORD.END_OF_FILE:
+        return mergeSegments(segments);
+      case IHEX_RECORD.EXTENDED_SEGMENT_ADDRESS:
+      case IHEX_RECORD.EXTENDED_LINEAR_ADDRESS:
+        if (bytes[0] !== 2) {
+          throw new ZlgCanError(operation, undefined, `第 ${i + 1} 行扩展地址记录长度错误`);
+        }
+        base = data.readUInt16BE(0) * (type === IHEX_RECORD.EXTENDED_SEGMENT_ADDRESS ? 16 : 0x10000);
+        break;
+      case IHEX_RECORD.START_SEGMENT_ADDRESS:
+      case IHEX_RECORD.START_LINEAR_ADDRESS:
+        break;
+      default:
+        throw new ZlgCanError(operation, undefined, `第 ${i + 1} 行记录类型无效: ${type}`);
+    }
+  }
+
+  return mergeSegments(segments);
+}
+
+/**
+ * 解析 Motorola S-record 文件 (S19/S28/S37)
+ * @param text 文件内容
+ * @throws {ZlgCanError} 记录格式或校验和错误时抛出异常
+ */
+export function parseSRecord(text: string): MemorySegment[] {
+  const operation = 'parseSRecord';
+  const segments: MemorySegment[] = [];
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '') {
+      continue;
+    }
+    if (!/^S[0-9]/.test(line)) {
+      throw new ZlgCanError(operation, undefined, `第 ${i + 1} 行不是有效的记录`);
+    }
+
+    const bytes = parseHexBytes(line.slice(2), operation, i + 1);
+    if (bytes.length < 2 || bytes.length !== bytes[0] + 1) {
+      throw new ZlgCanError(operation, undefined, `第 ${i + 1} 行长度错误`);
+    }
+    const sum = bytes.subarray(0, bytes.length - 1).reduce((acc, b) => acc + b, 0);
+    if ((~sum & 0xFF) !== bytes[bytes.length - 1]) {
+      throw new ZlgCanError(operation, undefined, `第 ${i + 1} 行校验和错误`);
+    }
+
+    const addressLength = SREC_DATA_ADDRESS_LENGTH[line.slice(0, 2)];
+    if (addressLength !== undefined) {
+      segments.push({
+        address: bytes.readUIntBE(1, addressLength),
+        data: Buffer.from(bytes.subarray(1 + addressLength, bytes.length - 1)),
+      });
+    }
+  }
+
+  return mergeSegments(segments);
+}
+
+/**
+ * 是否为文本内容 (仅包含可打印 ASCII 字符和空白)
+ */
+function isText(content: Buffer): boolean {
+  return content.every((b) => (b >= 0x20 && b <= 0x7E) || b === 0x09 || b === 0x0A || b === 0x0D);
+}
+
+/**
+ * 按内容判断镜像格式
+ * @throws {ZlgCanError} 文本内容的第一条记录无效时抛出异常
+ */
+function detectFormat(content: Buffer | string): ImageFormat {
+  if (typeof content !== 'string' && !isText(content)) {
+    return 'binary';
+  }
+
+  const text = typeof content === 'string' ? content : content.toString('ascii');
+  const line = text.split(/\r?\n/).find((l) => l.trim() !== '')?.trim() ?? '';
+  const parsers: [ImageFormat, (record: string) => MemorySegment[]][] = [['ihex', parseIntelHex], ['srec', parseSRecord]];
+  for (const [format, parse] of parsers) {
+    try {
+      parse(line);
+      return format;
+    } catch {
+      // 尝试下一种格式
+    }
+  }
+  throw new ZlgCanError('loadImage', undefined, "无法识别镜像格式，二进制文件请指定 format: 'binary'");
+}
+
+/**
+ * 加载刷写镜像
+ * @param content 文件内容 (文本格式可传入字符串或 Buffer)
+ * @param options 格式和二进制起始地址
+ * @throws {ZlgCanError} 未指定格式且无法识别时抛出异常
+ */
+export function loadImage(content: Buffer | string, options: LoadImageOptions = {}): MemorySegment[] {
+  const text = typeof content === 'string' ? content : null;
+  const format = options.format ?? detectFormat(content);
+
+  switch (format) {
+    case 'ihex':
+      return parseIntelHex(text ?? content.toString('ascii'));
+    case 'srec':
+      return parseSRecord(text ?? content.toString('ascii'));
+    case 'binary':
+      return mergeSegments([{ address: options.baseAddress ?? 0, data: Buffer.from(content) }]);
+  }
+}
+
+// ============================================================================
+// 校验
+// ============================================================================
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * 计算 CRC-32 (IEEE 802.3)
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
@@ -0,0 +1,258 @@
+/**
+ * ECU 刷写
+ * 按 UDS 编程流程 (会话、安全访问、擦除、下载、校验、复位) 将镜像写入 ECU
+ */
+
+import { EventEmitter } from 'events';
+import { ZlgCanError } from '../driver';
+import {
+  UDS_SESSION,
+  UDS_RESET,
+  UDS_DTC_SETTING,
+  UDS_COMMUNICATION_CONTROL,
+  UDS_COMMUNICATION_TYPE,
+  UdsTimeoutError,
+} from './uds';
+import { UdsClient, RoutineControlResult } from './uds-client';
+import { IsoTpError } from './isotp';
+import { MemorySegment, crc32 } from './flash-image';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 刷写阶段
+ */
+export type FlashPhase =
+  | 'preProgramming'
+  | 'session'
+  | 'security'
+  | 'erase'
+  | 'download'
+  | 'verify'
+  | 'reset';
+
+/**
+ * 刷写配置
+ */
+export interface FlashProgrammerConfig {
+  /** 编程会话，默认 UDS_SESSION.PROGRAMMING */
+  session?: number;
+  /** 进入编程会话前进入扩展会话并关闭故障码记录和非诊断通信，默认 true */
+  preProgramming?: boolean;
+  /** 安全访问等级，null 表示跳过，默认 0x01 (密钥函数通过 UdsClient 设置) */
+  securityLevel?: number | null;
+  /** 擦除例程 ID，null 表示跳过，默认 0xFF00 */
+  eraseRoutineId?: number | null;
+  /** 擦除例程参数，默认为 0x44 + 4 字节地址 + 4 字节长度 */
+  eraseParameters?: (segment: MemorySegment) => number[] | Buffer;
+  /** 校验例程 ID，null 表示跳过，默认 0x0202 */
+  checksumRoutineId?: number | null;
+  /** 校验例程参数，默认为数据的 CRC-32 (4 字节大端) */
+  checksumParameters?: (segment: MemorySegment) => number[] | Buffer;
+  /** 判断校验例程结果，默认 routineInfo 为 0x00 时通过 */
+  checksumPassed?: (result: RoutineControlResult) => boolean;
+  /** RequestDownload 地址字节数，默认 4 */
+  addressLength?: number;
+  /** RequestDownload 长度字节数，默认 4 */
+  sizeLength?: number;
+  /** RequestDownload 数据格式标识，默认 0x00 (不压缩不加密) */
+  dataFormat?: number;
+  /** TransferData 请求最大长度上限，默认使用 ECU 返回的 maxNumberOfBlockLength */
+  maxBlockLength?: number;
+  /** TransferData 超时后以相同块序号重试的次数，默认 2 */
+  transferRetries?: number;
+  /** 刷写完成后 ECU 复位类型，null 表示不复位，默认 UDS_RESET.HARD */
+  resetType?: number | null;
+}
+
+/**
+ * 刷写进度
+ */
+export interface FlashProgress {
+  /** 当前内存段序号 */
+  segmentIndex: number;
+  /** 内存段数量 */
+  segmentCount: number;
+  /** 当前块的起始地址 */
+  address: number;
+  /** 已发送字节数 (所有内存段) */
+  bytesSent: number;
+  /** 总字节数 */
+  totalBytes: number;
+}
+
+/**
+ * 刷写事件
+ */
+export interface FlashProgrammerEvents {
+  /** 进入新的刷写阶段，segmentIndex 仅在擦除、下载和校验阶段提供 */
+  phase: (phase: FlashPhase, segmentIndex?: number) => void;
+  /** TransferData 完成一块 */
+  progress: (progress: FlashProgress) => void;
+  /** TransferData 超时重试 */
+  retry: (blockSequenceCounter: number, error: Error) => void;
+}
+
+export interface FlashProgrammer {
+  on<E extends keyof FlashProgrammerEvents>(event: E, listener: FlashProgrammerEvents[E]): this;
+  once<E extends keyof FlashProgrammerEvents>(event: E, listener: FlashProgrammerEvents[E]): this;
+  off<E extends keyof FlashProgrammerEvents>(event: E, listener: FlashProgrammerEvents[E]): this;
+  emit<E extends keyof FlashProgrammerEvents>(event: E, ...args: Parameters<FlashProgrammerEvents[E]>): boolean;
+}
+
+// ============================================================================
+// 刷写
+// ============================================================================
+
+function defaultEraseParameters(segment: MemorySegment): number[] {
+  const bytes = Buffer.alloc(9);
+  bytes[0] = 0x44;
+  bytes.writeUInt32BE(segment.address >>> 0, 1);
+  bytes.writeUInt32BE(segment.data.length, 5);
+  return Array.from(bytes);
+}
+
+function defaultChecksumParameters(segment: MemorySegment): number[] {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32BE(crc32(segment.data));
+  return Array.from(bytes);
+}
+
+/**
+ * ECU 刷写
+ *
+ * 每个内存段依次执行擦除、RequestDownload、TransferData、RequestTransferExit 和校验例程。
+ * 连续帧的发送节奏由 UdsClient 所用的传输层决定 (如 IsoTpTransport 的 useTransmitQueue)
+ */
+export class FlashProgrammer extends EventEmitter {
+  private readonly config: Required<FlashProgrammerConfig>;
+
+  /**
+   * @param client UDS 诊断客户端
+   * @param config 刷写配置
+   */
+  constructor(private readonly client: UdsClient, config: FlashProgrammerConfig = {}) {
+    super();
+    this.config = {
+      session: UDS_SESSION.PROGRAMMING,
+      preProgramming: true,
+      securityLevel: 0x01,
+      eraseRoutineId: 0xFF00,
+      eraseParameters: defaultEraseParameters,
+      checksumRoutineId: 0x0202,
+      checksumParameters: defaultChecksumParameters,
+      checksumPassed: (result) => result.routineInfo === undefined || result.routineInfo === 0x00,
+      addressLength: 4,
+      sizeLength: 4,
+      dataFormat: 0x00,
+      maxBlockLength: Infinity,
+      transferRetries: 2,
+      resetType: UDS_RESET.HARD,
+      ...config,
+    };
+  }
+
+  /**
+   * 执行刷写
+   * @param segments 内存段 (如 loadImage 的结果)
+   * @throws {UdsNegativeResponseError} ECU 返回消极响应
+   * @throws {ZlgCanError} 安全访问失败、校验失败或重试次数用尽时抛出异常
+   */
+  async program(segments: MemorySegment[]): Promise<void> {
+    const { client, config } = this;
+
+    if (config.preProgramming) {
+      this.emit('phase', 'preProgramming');
+      await client.diagnosticSessionControl(UDS_SESSION.EXTENDED);
+      await client.controlDtcSetting(UDS_DTC_SETTING.OFF, { suppressPositiveResponse: true });
+      await client.communicationControl(
+        UDS_COMMUNICATION_CONTROL.DISABLE_RX_AND_TX,
+        UDS_COMMUNICATION_TYPE.NORMAL,
+        { suppressPositiveResponse: true },
+      );
+    }
+
+    this.emit('phase', 'session');
+    await client.diagnosticSessionControl(config.session);
+
+    if (config.securityLevel !== null) {
+      this.emit('phase', 'security');
+      // 种子全为 0 表示已解锁，同样视为成功
+      await client.securityAccess(config.securityLevel);
+    }
+
+    const totalBytes = segments.reduce((sum, s) => sum + s.data.length, 0);
+    let bytesSent = 0;
+    for (let index = 0; index < segments.length; index++) {
+      const segment = segments[index];
+
+      if (config.eraseRoutineId !== null) {
+        this.emit('phase', 'erase', index);
+        await client.startRoutine(config.eraseRoutineId, config.eraseParameters(segment));
+      }
+
+      this.emit('phase', 'download', index);
+      const maxBlockLength = Math.min(
+        await client.requestDownload(segment.address, segment.data.length, {
+          addressLength: config.addressLength,
+          sizeLength: config.sizeLength,
+          dataFormat: config.dataFormat,
+        }),
+        config.maxBlockLength,
+      );
+      const blockSize = maxBlockLength - 2;
+      if (blockSize <= 0) {
+        throw new ZlgCanError('FlashProgrammer', undefined, `无效的块长度: ${maxBlockLength}`);
+      }
+
+      let counter = 1;
+      for (let offset = 0; offset < segment.data.length; offset += blockSize) {
+        const block = segment.data.subarray(offset, offset + blockSize);
+        await this.transferBlock(counter, block);
+        bytesSent += block.length;
+        this.emit('progress', {
+          segmentIndex: index,
+          segmentCount: segments.length,
+          address: segment.address + offset,
+          bytesSent,
+          totalBytes,
+        });
+        counter = (counter + 1) & 0xFF;
+      }
+      await client.requestTransferExit();
+
+      if (config.checksumRoutineId !== null) {
+        this.emit('phase', 'verify', index);
+        const result = await client.startRoutine(config.checksumRoutineId, config.checksumParameters(segment));
+        if (!config.checksumPassed(result)) {
+          throw new ZlgCanError('FlashProgrammer', undefined, `内存段 0x${segment.address.toString(16)} 校验失败`);
+        }
+      }
+    }
+
+    if (config.resetType !== null) {
+      this.emit('phase', 'reset');
+      await client.ecuReset(config.resetType);
+    }
+  }
+
+  /**
+   * 发送一块数据，超时后以相同块序号重试 (ECU 对重复的块序号应返回积极响应)
+   */
+  private async transferBlock(counter: number, block: Buffer): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.client.transferData(counter, block);
+        return;
+      } catch (error) {
+        const retryable = error instanceof UdsTimeoutError || error instanceof IsoTpError;
+        if (!retryable || attempt >= this.config.transferRetries) {
+          throw error;
+        }
+        this.emit('retry', counter, error as Error);
+      }
+    }
+  }
+}
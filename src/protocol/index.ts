@@ -0,0 +1,375 @@
+/**
+ * 协议层导出
+ */
+
+export {
+  CanLinkMessage,
+  CanLink,
+  CanLoopback,
+  createCanLoopbackPair,
+} from './can-link';
+
+export {
+  IsoTpTransport,
+  IsoTpTransportEvents,
+  IsoTpConfig,
+  IsoTpAddressing,
+  IsoTpPadding,
+  IsoTpResult,
+  IsoTpError,
+  ISOTP_FLOW_STATUS,
+  CANFD_DATA_LENGTHS,
+  canFdDataLength,
+} from './isotp';
+
+export {
+  UDS_SID,
+  UDS_NRC,
+  UDS_NEGATIVE_RESPONSE,
+  UDS_POSITIVE_RESPONSE_OFFSET,
+  UDS_SUPPRESS_POSITIVE_RESPONSE,
+  UDS_SUB_FUNCTION_SERVICES,
+  isPositiveResponseSuppressed,
+  UDS_SESSION,
+  UDS_RESET,
+  UDS_ROUTINE_CONTROL,
+  UDS_COMMUNICATION_CONTROL,
+  UDS_COMMUNICATION_TYPE,
+  UDS_DTC_SETTING,
+  UDS_DTC_REPORT,
+  UDS_ALL_DTC_GROUPS,
+  getServiceName,
+  getNrcDescription,
+  UdsNegativeResponseError,
+  UdsTimeoutError,
+  DidCodec,
+  asciiDidCodec,
+  uintDidCodec,
+  bytesDidCodec,
+} from './uds';
+
+export {
+  UdsClient,
+  UdsClientConfig,
+  UdsClientEvents,
+  UdsTransport,
+  DeviceUdsTransport,
+  UdsServiceOptions,
+  DownloadOptions,
+  SecurityKeyFunction,
+  SessionControlResult,
+  RoutineControlResult,
+  DtcRecord,
+  DtcList,
+  DtcCount,
+  DtcDataRecords,
+} from './uds-client';
+
+export {
+  UdsServer,
+  UdsServerConfig,
+  UdsServerEvents,
+  DidDefinition,
+  UdsServiceHandler,
+  RoutineHandler,
+  UdsFault,
+} from './uds-server';
+
+export {
+  MemorySegment,
+  ImageFormat,
+  LoadImageOptions,
+  mergeSegments,
+  parseIntelHex,
+  parseSRecord,
+  loadImage,
+  crc32,
+} from './flash-image';
+
+export {
+  FlashProgrammer,
+  FlashProgrammerConfig,
+  FlashProgrammerEvents,
+  FlashPhase,
+  FlashProgress,
+} from './flash';
+
+export {
+  DOIP_PORT,
+  DOIP_PROTOCOL_VERSION,
+  DOIP_PAYLOAD_TYPE,
+  DOIP_HEADER_NACK,
+  DOIP_ACTIVATION_TYPE,
+  DOIP_ROUTING_RESPONSE,
+  DOIP_DIAGNOSTIC_NACK,
+  DOIP_HEADER_LENGTH,
+  DoipMessage,
+  DoipEntity,
+  DoipDiscoveryOptions,
+  DoipClientConfig,
+  DoipClientEvents,
+  RoutingActivationResult,
+  DoipError,
+  DoipMessageParser,
+  DoipClient,
+  encodeDoipMessage,
+  parseVehicleAnnouncement,
+  discoverDoipEntities,
+} from './doip';
+
+export {
+  UdsTraceDecoder,
+  UdsTraceDecoderEvents,
+  UdsTraceConfig,
+  UdsTraceChannel,
+  UdsTraceDirection,
+  UdsTraceTransaction,
+  IsoTpTracePdu,
+  decodeUdsTrace,
+} from './uds-trace';
+
+export {
+  DbcDatabase,
+  DbcNode,
+  DbcMessage,
+  DbcSignal,
+  DbcByteOrder,
+  DbcValueType,
+  DbcMultiplexRange,
+  DbcAttributeDefinition,
+  DbcAttributeValue,
+  DbcObjectType,
+  parseDbc,
+} from './dbc';
+
+export {
+  CanDatabase,
+  DecodedMessage,
+  DecodedSignal,
+  SignalValues,
+  EncodeOptions,
+  decodeSignal,
+  decodeSignalRaw,
+  encodeSignal,
+  encodeSignalRaw,
+  physicalToRaw,
+} from './can-database';
+
+export {
+  ResidualBus,
+  ResidualBusConfig,
+  ResidualBusEvents,
+  ResidualBusSendMode,
+} from './residual-bus';
+
+export {
+  LdfDatabase,
+  LdfMaster,
+  LdfSignal,
+  LdfFrame,
+  LdfFrameSignal,
+  LdfSporadicFrame,
+  LdfEventTriggeredFrame,
+  LdfNodeAttributes,
+  LdfConfigurableFrame,
+  LdfScheduleTable,
+  LdfScheduleEntry,
+  LdfSignalEncoding,
+  LdfPhysicalRange,
+  parseLdf,
+} from './ldf';
+
+export {
+  LinDatabase,
+  DecodedLinFrame,
+  DecodedLinSignal,
+  LinSignalValue,
+  LinSignalValues,
+  LinEncodeOptions,
+  decodeLinSignalRaw,
+  encodeLinSignalRaw,
+  linPhysicalToRaw,
+} from './lin-database';
+
+export {
+  LinScheduler,
+  LinSchedulerEvents,
+} from './lin-scheduler';
+
+export {
+  J1939_PGN,
+  J1939_GLOBAL_ADDRESS,
+  J1939_NULL_ADDRESS,
+  J1939_MAX_TP_LENGTH,
+  J1939_ABORT_REASON,
+  J1939Id,
+  J1939Name,
+  J1939Lamp,
+  J1939Dtc,
+  J1939Dm1,
+  J1939TransportError,
+  isPdu1,
+  parseJ1939Id,
+  buildJ1939Id,
+  j1939NameValue,
+  encodeJ1939Name,
+  decodeJ1939Name,
+  decodeDm1,
+  encodeDm1,
+} from './j1939';
+
+export {
+  J1939Node,
+  J1939NodeEvents,
+  J1939Config,
+  J1939Message,
+  J1939SendOptions,
+  J1939RequestHandler,
+} from './j1939-node';
+
+export {
+  CANOPEN_COB_ID,
+  NMT_COMMAND,
+  CANOPEN_DATA_TYPE,
+  SDO_ABORT,
+  NmtState,
+  CanOpenValue,
+  EmcyMessage,
+  PdoMappingEntry,
+  SdoAbortError,
+  decodeNmtState,
+  decodeEmcy,
+  canOpenDataTypeBits,
+  decodeCanOpenValue,
+  encodeCanOpenValue,
+  pdoEntryName,
+  pdoMappingValue,
+  decodePdo,
+  encodePdo,
+} from './canopen';
+
+export {
+  SdoClient,
+  SdoClientConfig,
+  SdoTransferOptions,
+  sdoBlockCrc,
+} from './canopen-sdo';
+
+export {
+  EDS_OBJECT_TYPE,
+  EdsAccessType,
+  EdsObject,
+  EdsFile,
+  parseEds,
+  parseEdsInteger,
+} from './eds';
+
+export {
+  ObjectDictionary,
+} from './canopen-dictionary';
+
+export {
+  CanOpenMaster,
+  CanOpenMasterEvents,
+  CanOpenMasterConfig,
+  PdoDirection,
+  PdoConfig,
+  PdoMessage,
+} from './canopen-master';
+
+export {
+  XCP_COMMAND,
+  XCP_PID,
+  XCP_ERROR,
+  XCP_EVENT,
+  XCP_RESOURCE,
+  XcpByteOrder,
+  XcpDataType,
+  XcpCommandError,
+  XcpTimeoutError,
+  isXcpDataType,
+  xcpDataTypeSize,
+  decodeXcpValue,
+  encodeXcpValue,
+} from './xcp';
+
+export {
+  A2lCompuMethod,
+  A2lMeasurement,
+  A2lCharacteristic,
+  A2lDatabase,
+  parseA2l,
+  a2lToPhysical,
+  a2lToRaw,
+  a2lVerbalValue,
+} from './a2l';
+
+export {
+  XcpMaster,
+  XcpMasterEvents,
+  XcpMasterConfig,
+  XcpConnectInfo,
+  XcpStatus,
+  XcpDaqResolution,
+  XcpKeyFunction,
+  XcpDaqSignal,
+  XcpDaqListConfig,
+  XcpDaqSample,
+} from './xcp-master';
+
+export {
+  OBD_MODE,
+  OBD_INFO_TYPE,
+  OBD_FUNCTIONAL_ID,
+  OBD_FUNCTIONAL_ID_EXTENDED,
+  OBD_RESPONSE_ID_MIN,
+  OBD_RESPONSE_ID_MAX,
+  OBD_PIDS,
+  ObdPidValue,
+  ObdPidDefinition,
+  isSupportedPidsPid,
+  decodeSupportedPids,
+  decodeObdPid,
+  formatObdDtc,
+  parseObdDtc,
+  decodeObdDtcs,
+} from './obd';
+
+export {
+  ObdScanner,
+  ObdScannerEvents,
+  ObdScannerConfig,
+  ObdRequestOptions,
+  ObdResponse,
+  ObdPidResult,
+} from './obd-scanner';
+
+export {
+  AscDirection,
+  AscTimestampMode,
+  AscBase,
+  AscSink,
+  AscWriterOptions,
+  AscWriteOptions,
+  AscRecord,
+  AscFile,
+  AscWriter,
+  stringifyAsc,
+  parseAsc,
+  formatAscDate,
+  parseAscDate,
+} from './asc';
+
+export {
+  BLF_OBJECT_TYPE,
+  BlfDirection,
+  BlfWriterOptions,
+  BlfWriteOptions,
+  BlfErrorFrame,
+  BlfRecord,
+  BlfFileInfo,
+  BlfFile,
+  BlfWriter,
+  BlfReader,
+  parseBlf,
+} from './blf';
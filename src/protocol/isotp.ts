@@ -0,0 +1,706 @@
+/**
+ * ISO-TP 传输层 (ISO 15765-2)
+ * 在 CanLink 上实现单帧/首帧/连续帧/流控帧、CANFD 长度转义、填充、STmin/BS 和 N_As/N_Bs/N_Cr 超时
+ */
+
+import { EventEmitter } from 'events';
+import { ZlgCanError, TransmitBackpressureError, ErrorLocale, getErrorLocale, startPollTimer } from '../driver';
+import { encodeStMin, decodeStMin } from '../device';
+import { CanLinkMessage, CanLink } from './can-link';
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/** 协议控制信息类型 (N_PCI 高 4 位) */
+const PCI_TYPE = {
+  SINGLE_FRAME: 0,
+  FIRST_FRAME: 1,
+  CONSECUTIVE_FRAME: 2,
+  FLOW_CONTROL: 3,
+} as const;
+
+/** 流控状态 (FlowStatus) */
+export const ISOTP_FLOW_STATUS = {
+  CONTINUE_TO_SEND: 0,
+  WAIT: 1,
+  OVERFLOW: 2,
+} as const;
+
+/** CANFD 帧有效数据长度 */
+export const CANFD_DATA_LENGTHS = [8, 12, 16, 20, 24, 32, 48, 64] as const;
+
+/** 首帧 12 位长度上限，超过时使用 32 位长度转义 */
+const FF_DL_12BIT_MAX = 0xFFF;
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 寻址方式
+ * - normal: 仅使用 CAN ID
+ * - extended: 首字节为目标地址 (N_TA)
+ * - mixed: 首字节为地址扩展 (N_AE)
+ */
+export type IsoTpAddressing = 'normal' | 'extended' | 'mixed';
+
+/**
+ * 填充方式
+ * - none: 不填充 (CANFD 帧长度超过 8 字节时填充至最近的有效长度)
+ * - short: 小于 8 字节填充至 8 字节，超过 8 字节时填充至最近的有效长度
+ * - max: 填充至 txDataLength
+ */
+export type IsoTpPadding = 'none' | 'short' | 'max';
+
+/**
+ * ISO-TP 配置
+ */
+export interface IsoTpConfig {
+  /** 发送 CAN ID */
+  txId: number;
+  /** 接收 CAN ID */
+  rxId: number;
+  /** 是否使用扩展帧 (29-bit ID)，默认 false */
+  extended?: boolean;
+  /** 寻址方式，默认 'normal' */
+  addressing?: IsoTpAddressing;
+  /** 发送帧首字节 (extended: N_TA，mixed: N_AE)，默认 0 */
+  txAddress?: number;
+  /** 接收帧首字节 (extended: N_TA，mixed: N_AE)，默认 0 */
+  rxAddress?: number;
+  /** 使用 CANFD 帧发送，默认 false */
+  fd?: boolean;
+  /** CANFD 比特率切换，默认 false */
+  brs?: boolean;
+  /** 发送帧最大数据长度 (TX_DL)，默认 CAN 为 8、CANFD 为 64 */
+  txDataLength?: number;
+  /** 填充方式，默认 'short' */
+  padding?: IsoTpPadding;
+  /** 填充字节，默认 0xCC */
+  paddingByte?: number;
+  /** 接收时流控帧的块大小 (BS)，默认 0 (不限制) */
+  blockSize?: number;
+  /** 接收时流控帧的 STmin (ms，0.1-0.9 表示 100-900μs)，默认 0 */
+  stMin?: number;
+  /** 发送帧超时时间 N_As (ms)，发送受阻时在该时间内重试，默认 1000 */
+  nAs?: number;
+  /** 等待流控帧超时时间 N_Bs (ms)，默认 1000 */
+  nBs?: number;
+  /** 等待连续帧超时时间 N_Cr (ms)，默认 1000 */
+  nCr?: number;
+  /** 允许连续收到的 WAIT 流控帧数量 (N_WFTmax)，默认 10 */
+  maxWaitFrames?: number;
+  /** 可接收的最大 PDU 长度，超过时回复 OVERFLOW 流控帧，默认 0xFFFF */
+  maxReceiveLength?: number;
+  /** 通过 CanLink 的发送队列按 STmin 间隔发送连续帧 (需支持 transmitQueue 和 getAvailableTxCount)，默认 false */
+  useTransmitQueue?: boolean;
+}
+
+/**
+ * 传输结果 (N_Result)
+ */
+export type IsoTpResult =
+  | 'N_TIMEOUT_A'
+  | 'N_TIMEOUT_Bs'
+  | 'N_TIMEOUT_Cr'
+  | 'N_WRONG_SN'
+  | 'N_INVALID_FS'
+  | 'N_UNEXP_PDU'
+  | 'N_WFT_OVRN'
+  | 'N_BUFFER_OVFLW'
+  | 'N_ERROR';
+
+/**
+ * 流控帧参数
+ */
+interface FlowControl {
+  status: number;
+  blockSize: number;
+  stMin: number;
+}
+
+/**
+ * 分段接收状态
+ */
+interface Reception {
+  buffer: Buffer;
+  offset: number;
+  sequenceNumber: number;
+  blockCount: number;
+  timer: NodeJS.Timeout | null;
+}
+
+// ============================================================================
+// 异常
+// ============================================================================
+
+const RESULT_MESSAGES: Record<ErrorLocale, Record<IsoTpResult, string>> = {
+  zh: {
+    N_TIMEOUT_A: '发送帧超时 (N_As)',
+    N_TIMEOUT_Bs: '等待流控帧超时 (N_Bs)',
+    N_TIMEOUT_Cr: '等待连续帧超时 (N_Cr)',
+    N_WRONG_SN: '连续帧序号错误',
+    N_INVALID_FS: '无效的流控状态',
+    N_UNEXP_PDU: '接收过程中收到新的单帧或首帧',
+    N_WFT_OVRN: 'WAIT 流控帧数量超过上限',
+    N_BUFFER_OVFLW: '接收方缓冲区溢出',
+    N_ERROR: '传输已停止',
+  },
+  en: {
+    N_TIMEOUT_A: 'frame transmission timeout (N_As)',
+    N_TIMEOUT_Bs: 'flow control timeout (N_Bs)',
+    N_TIMEOUT_Cr: 'consecutive frame timeout (N_Cr)',
+    N_WRONG_SN: 'wrong consecutive frame sequence number',
+    N_INVALID_FS: 'invalid flow status',
+    N_UNEXP_PDU: 'single or first frame received during reception',
+    N_WFT_OVRN: 'too many WAIT flow control frames',
+    N_BUFFER_OVFLW: 'receiver buffer overflow',
+    N_ERROR: 'transport stopped',
+  },
+};
+
+/**
+ * ISO-TP 传输失败
+ *
+ * result 为 ISO 15765-2 定义的 N_Result，errorCode 为空
+ */
+export class IsoTpError extends ZlgCanError {
+  constructor(
+    public readonly result: IsoTpResult,
+    message?: string,
+  ) {
+    super('ISO-TP', undefined, message || `ISO-TP: ${RESULT_MESSAGES[getErrorLocale()][result]}`);
+    this.name = 'IsoTpError';
+  }
+
+  localizedMessage(locale: ErrorLocale): string {
+    return `ISO-TP: ${RESULT_MESSAGES[locale][this.result]}`;
+  }
+}
+
+// ============================================================================
+// 辅助函数
+// ============================================================================
+
+/**
+ * 向上取整到 CANFD 有效数据长度
+ */
+export function canFdDataLength(length: number): number {
+  return CANFD_DATA_LENGTHS.find((l) => l >= length) ?? 64;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ============================================================================
+// 传输层
+// ============================================================================
+
+/**
+ * ISO-TP 传输层事件
+ */
+export interface IsoTpTransportEvents {
+  /** 收到完整的 PDU */
+  pdu: (data: Buffer) => void;
+  /** 分段接收失败 (N_Cr 超时、序号错误等) */
+  receiveError: (error: IsoTpError) => void;
+  /** 轮询失败 (没有监听器时忽略) */
+  error: (error: Error) => void;
+}
+
+export interface IsoTpTransport {
+  on<E extends keyof IsoTpTransportEvents>(event: E, listener: IsoTpTransportEvents[E]): this;
+  once<E extends keyof IsoTpTransportEvents>(event: E, listener: IsoTpTransportEvents[E]): this;
+  off<E extends keyof IsoTpTransportEvents>(event: E, listener: IsoTpTransportEvents[E]): this;
+  emit<E extends keyof IsoTpTransportEvents>(event: E, ...args: Parameters<IsoTpTransportEvents[E]>): boolean;
+}
+
+/**
+ * ISO-TP 传输层
+ *
+ * 通过 CanLink 收发 PDU。接收的帧由 poll() 处理 (start() 开始周期轮询)，
+ * 完整的 PDU 发出 pdu 事件并缓存，供 receive() 读取
+ */
+export class IsoTpTransport extends EventEmitter {
+  private readonly config: Required<IsoTpConfig>;
+  private readonly addressLength: number;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private reception: Reception | null = null;
+  private readonly received: Buffer[] = [];
+  private readonly waiters: { resolve: (data: Buffer | null) => void; timer: NodeJS.Timeout | null }[] = [];
+  private flowControlHandler: ((fc: FlowControl) => void) | null = null;
+  private abortSend: ((error: IsoTpError) => void) | null = null;
+  private sendChain: Promise<void> = Promise.resolve();
+
+  /**
+   * @param link CAN 帧收发接口 (如已打开的 CanfdWifi100uTcp)
+   * @param config 传输层配置
+   */
+  constructor(private readonly link: CanLink, config: IsoTpConfig) {
+    super();
+    const fd = config.fd ?? false;
+    this.config = {
+      extended: false,
+      addressing: 'normal',
+      txAddress: 0,
+      rxAddress: 0,
+      fd,
+      brs: false,
+      txDataLength: fd ? 64 : 8,
+      padding: 'short',
+      paddingByte: 0xCC,
+      blockSize: 0,
+      stMin: 0,
+      nAs: 1000,
+      nBs: 1000,
+      nCr: 1000,
+      maxWaitFrames: 10,
+      maxReceiveLength: 0xFFFF,
+      useTransmitQueue: false,
+      ...config,
+    };
+    this.addressLength = this.config.addressing === 'normal' ? 0 : 1;
+
+    const { txDataLength } = this.config;
+    const valid = fd ? (CANFD_DATA_LENGTHS as readonly number[]).includes(txDataLength) : txDataLength === 8;
+    if (!valid) {
+      throw new ZlgCanError('IsoTpTransport', undefined, `无效的发送数据长度: ${txDataLength}`);
+    }
+  }
+
+  // ============================================================================
+  // 轮询
+  // ============================================================================
+
+  /**
+   * 开始周期轮询接收帧
+   * @param interval 轮询间隔 (ms)，默认 1
+   */
+  start(interval: number = 1): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+    this.pollTimer = startPollTimer(this, interval, () => this.poll());
+  }
+
+  /**
+   * 停止轮询，进行中的发送以 N_ERROR 结束，等待中的 receive() 返回 null
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.abortSend) {
+      this.abortSend(new IsoTpError('N_ERROR'));
+    }
+    this.cancelReception();
+    for (const waiter of this.waiters.splice(0)) {
+      if (waiter.timer) {
+        clearTimeout(waiter.timer);
+      }
+      waiter.resolve(null);
+    }
+  }
+
+  /**
+   * 是否正在轮询
+   */
+  isRunning(): boolean {
+    return this.pollTimer !== null;
+  }
+
+  /**
+   * 读取并处理已接收的帧
+   * @param maxCount 最大读取数量，默认 100
+   */
+  poll(maxCount: number = 100): void {
+    for (const frame of this.link.receive(maxCount)) {
+      this.handleFrame(frame);
+    }
+  }
+
+  // ============================================================================
+  // 接收
+  // ============================================================================
+
+  /**
+   * 读取下一个完整的 PDU
+   * @param timeout 超时时间 (ms)，省略时一直等待
+   * @returns PDU，超时或停止时返回 null
+   */
+  receive(timeout?: number): Promise<Buffer | null> {
+    const queued = this.received.shift();
+    if (queued) {
+      return Promise.resolve(queued);
+    }
+    return new Promise((resolve) => {
+      const waiter = { resolve, timer: null as NodeJS.Timeout | null };
+      if (timeout !== undefined) {
+        waiter.timer = setTimeout(() => {
+          this.waiters.splice(this.waiters.indexOf(waiter), 1);
+          resolve(null);
+        }, timeout);
+      }
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * 丢弃已缓存但未读取的 PDU
+   */
+  clearReceived(): void {
+    this.received.length = 0;
+  }
+
+  /**
+   * 处理一帧，不匹配接收 ID 或地址的帧被忽略
+   */
+  handleFrame(frame: CanLinkMessage): void {
+    if (frame.id !== this.config.rxId || !!frame.isExtended !== this.config.extended || frame.isRemote) {
+      return;
+    }
+    const data = Buffer.from(frame.data);
+    const o = this.addressLength;
+    if (data.length <= o || (o > 0 && data[0] !== this.config.rxAddress)) {
+      return;
+    }
+
+    switch (data[o] >> 4) {
+      case PCI_TYPE.SINGLE_FRAME:
+        this.handleSingleFrame(data);
+        break;
+      case PCI_TYPE.FIRST_FRAME:
+        this.handleFirstFrame(data);
+        break;
+      case PCI_TYPE.CONSECUTIVE_FRAME:
+        this.handleConsecutiveFrame(data);
+        break;
+      case PCI_TYPE.FLOW_CONTROL:
+        if (this.flowControlHandler && data.length >= o + 3) {
+          this.flowControlHandler({ status: data[o] & 0x0F, blockSize: data[o + 1], stMin: data[o + 2] });
+        }
+        break;
+    }
+  }
+
+  private handleSingleFrame(data: Buffer): void {
+    const o = this.addressLength;
+    let length = data[o] & 0x0F;
+    let start = o + 1;
+    // CANFD 单帧长度转义 (帧长度超过 8 字节)
+    if (length === 0) {
+      if (data.length <= 8 || data.length < o + 2) {
+        return;
+      }
+      length = data[o + 1];
+      start = o + 2;
+    }
+    if (length === 0 || start + length > data.length) {
+      return;
+    }
+    if (this.reception) {
+      this.failReception('N_UNEXP_PDU');
+    }
+    this.deliver(Buffer.from(data.subarray(start, start + length)));
+  }
+
+  private handleFirstFrame(data: Buffer): void {
+    const o = this.addressLength;
+    if (data.length < o + 2) {
+      return;
+    }
+    let length = ((data[o] & 0x0F) << 8) | data[o + 1];
+    let start = o + 2;
+    // 32 位长度转义
+    if (length === 0) {
+      if (data.length < o + 6) {
+        return;
+      }
+      length = data.readUInt32BE(o + 2);
+      start = o + 6;
+    }
+    if (this.reception) {
+      this.failReception('N_UNEXP_PDU');
+    }
+    if (length > this.config.maxReceiveLength) {
+      this.sendFlowControl(ISOTP_FLOW_STATUS.OVERFLOW);
+      return;
+    }
+
+    const buffer = Buffer.alloc(length);
+    const offset = data.copy(buffer, 0, start);
+    this.reception = { buffer, offset, sequenceNumber: 1, blockCount: 0, timer: null };
+    this.sendFlowControl(ISOTP_FLOW_STATUS.CONTINUE_TO_SEND);
+    this.restartCrTimer();
+  }
+
+  private handleConsecutiveFrame(data: Buffer): void {
+    const reception = this.reception;
+    if (!reception) {
+      return;
+    }
+    const o = this.addressLength;
+    if ((data[o] & 0x0F) !== reception.sequenceNumber) {
+      this.failReception('N_WRONG_SN');
+      return;
+    }
+
+    reception.offset += data.copy(reception.buffer, reception.offset, o + 1);
+    reception.sequenceNumber = (reception.sequenceNumber + 1) & 0x0F;
+    if (reception.offset >= reception.buffer.length) {
+      this.cancelReception();
+      this.deliver(reception.buffer);
+      return;
+    }
+
+    reception.blockCount++;
+    if (this.config.blockSize > 0 && reception.blockCount >= this.config.blockSize) {
+      reception.blockCount = 0;
+      this.sendFlowControl(ISOTP_FLOW_STATUS.CONTINUE_TO_SEND);
+    }
+    this.restartCrTimer();
+  }
+
+  private sendFlowControl(status: number): void {
+    this.transmitFrame([(PCI_TYPE.FLOW_CONTROL << 4) | status, this.config.blockSize, encodeStMin(this.config.stMin)]);
+  }
+
+  private restartCrTimer(): void {
+    const reception = this.reception;
+    if (!reception) {
+      return;
+    }
+    if (reception.timer) {
+      clearTimeout(reception.timer);
+    }
+    reception.timer = setTimeout(() => this.failReception('N_TIMEOUT_Cr'), this.config.nCr);
+    reception.timer.unref();
+  }
+
+  private cancelReception(): void {
+    if (this.reception?.timer) {
+      clearTimeout(this.reception.timer);
+    }
+    this.reception = null;
+  }
+
+  private failReception(result: IsoTpResult): void {
+    this.cancelReception();
+    this.emit('receiveError', new IsoTpError(result));
+  }
+
+  private deliver(data: Buffer): void {
+    this.emit('pdu', data);
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      if (waiter.timer) {
+        clearTimeout(waiter.timer);
+      }
+      waiter.resolve(data);
+    } else {
+      this.received.push(data);
+    }
+  }
+
+  // ============================================================================
+  // 发送
+  // ============================================================================
+
+  /**
+   * 发送 PDU，多次调用按顺序发送
+   * @param data PDU 数据
+   * @throws {IsoTpError} 流控超时、接收方溢出等传输失败时抛出异常
+   */
+  send(data: Buffer | number[]): Promise<void> {
+    const pdu = Buffer.from(data);
+    if (pdu.length === 0 || pdu.length > 0xFFFFFFFF) {
+      return Promise.reject(new ZlgCanError('send', undefined, `无效的 PDU 长度: ${pdu.length}`));
+    }
+    const result = this.sendChain.then(() => this.sendPdu(pdu));
+    this.sendChain = result.catch(() => undefined);
+    return result;
+  }
+
+  private async sendPdu(pdu: Buffer): Promise<void> {
+    const o = this.addressLength;
+    const maxLength = this.config.txDataLength;
+
+    // 单帧
+    if (pdu.length <= 7 - o) {
+      await this.transmitWithRetry([pdu.length, ...pdu]);
+      return;
+    }
+    if (maxLength > 8 && pdu.length <= maxLength - 2 - o) {
+      await this.transmitWithRetry([0x00, pdu.length, ...pdu]);
+      return;
+    }
+
+    // 首帧
+    const header = pdu.length <= FF_DL_12BIT_MAX
+      ? [0x10 | (pdu.length >> 8), pdu.length & 0xFF]
+      : [0x10, 0x00, (pdu.length >>> 24) & 0xFF, (pdu.length >> 16) & 0xFF, (pdu.length >> 8) & 0xFF, pdu.length & 0xFF];
+    let offset = maxLength - o - header.length;
+    await this.transmitWithRetry([...header, ...pdu.subarray(0, offset)]);
+
+    // 连续帧
+    const queued = this.config.useTransmitQueue && !!this.link.transmitQueue && !!this.link.getAvailableTxCount;
+    let sequenceNumber = 1;
+    let queueTime = 0;
+    while (offset < pdu.length) {
+      const fc = await this.waitFlowControl(queueTime);
+      const separation = decodeStMin(fc.stMin);
+      const block: CanLinkMessage[] = [];
+      for (let count = 0; offset < pdu.length && (fc.blockSize === 0 || count < fc.blockSize); count++) {
+        const chunk = pdu.subarray(offset, offset + maxLength - 1 - o);
+        const payload = [(PCI_TYPE.CONSECUTIVE_FRAME << 4) | sequenceNumber, ...chunk];
+        offset += chunk.length;
+        sequenceNumber = (sequenceNumber + 1) & 0x0F;
+        if (queued) {
+          block.push(this.buildFrame(payload));
+          continue;
+        }
+        if (count > 0 && separation > 0) {
+          await delay(separation);
+        }
+        await this.transmitWithRetry(payload);
+      }
+      if (queued) {
+        queueTime = await this.queueFrames(block, separation);
+      }
+    }
+    // 等待队列中的最后一帧发出，避免调用方过早开始等待响应
+    if (queueTime > 0) {
+      await delay(queueTime);
+    }
+  }
+
+  /**
+   * 通过发送队列发送连续帧，队列已满时在 N_As 内等待
+   * @param frames 连续帧
+   * @param separation 帧间隔 (ms)，队列延时以 ms 为单位，不足 1ms 时向上取整
+   * @returns 队列中的帧全部发出所需的时间 (ms)
+   */
+  private async queueFrames(frames: CanLinkMessage[], separation: number): Promise<number> {
+    const interval = Math.ceil(separation);
+    let deadline = Date.now() + this.config.nAs;
+    let index = 0;
+    while (index < frames.length) {
+      const available = Math.min(this.link.getAvailableTxCount!(), frames.length - index);
+      if (available <= 0) {
+        if (Date.now() >= deadline) {
+          throw new IsoTpError('N_TIMEOUT_A');
+        }
+        await delay(1);
+        continue;
+      }
+      const items = frames.slice(index, index + available).map((message, i) => ({
+        message,
+        delay: index + i === 0 ? 0 : interval,
+      }));
+      index += this.link.transmitQueue!(items);
+      deadline = Date.now() + this.config.nAs;
+    }
+    return interval * Math.max(0, frames.length - 1);
+  }
+
+  /**
+   * 等待 CONTINUE_TO_SEND 流控帧，WAIT 帧重新开始 N_Bs 计时
+   * @param extraTime 首次计时额外等待的时间 (ms)，用于等待队列中的连续帧发出
+   */
+  private waitFlowControl(extraTime: number = 0): Promise<FlowControl> {
+    return new Promise((resolve, reject) => {
+      let waitCount = 0;
+      let timer: NodeJS.Timeout;
+      const finish = (error: IsoTpError | null, fc?: FlowControl) => {
+        clearTimeout(timer);
+        this.flowControlHandler = null;
+        this.abortSend = null;
+        if (error) {
+          reject(error);
+        } else {
+          resolve(fc!);
+        }
+      };
+      const startTimer = (extra: number = 0) => {
+        clearTimeout(timer);
+        timer = setTimeout(() => finish(new IsoTpError('N_TIMEOUT_Bs')), this.config.nBs + extra);
+      };
+
+      this.flowControlHandler = (fc) => {
+        switch (fc.status) {
+          case ISOTP_FLOW_STATUS.CONTINUE_TO_SEND:
+            finish(null, fc);
+            break;
+          case ISOTP_FLOW_STATUS.WAIT:
+            if (++waitCount > this.config.maxWaitFrames) {
+              finish(new IsoTpError('N_WFT_OVRN'));
+            } else {
+              startTimer();
+            }
+            break;
+          case ISOTP_FLOW_STATUS.OVERFLOW:
+            finish(new IsoTpError('N_BUFFER_OVFLW'));
+            break;
+          default:
+            finish(new IsoTpError('N_INVALID_FS'));
+        }
+      };
+      this.abortSend = (error) => finish(error);
+      startTimer(extraTime);
+    });
+  }
+
+  /**
+   * 发送一帧，发送受阻时在 N_As 内重试
+   */
+  private async transmitWithRetry(payload: number[]): Promise<void> {
+    const deadline = Date.now() + this.config.nAs;
+    for (;;) {
+      try {
+        this.transmitFrame(payload);
+        return;
+      } catch (error) {
+        if (!(error instanceof TransmitBackpressureError)) {
+          throw error;
+        }
+        if (Date.now() >= deadline) {
+          throw new IsoTpError('N_TIMEOUT_A');
+        }
+        await delay(1);
+      }
+    }
+  }
+
+  /**
+   * 添加地址字节和填充后发送一帧
+   * @param payload 协议控制信息和数据
+   */
+  private transmitFrame(payload: number[]): void {
+    this.link.transmit(this.buildFrame(payload));
+  }
+
+  /**
+   * 添加地址字节和填充，生成待发送的帧
+   * @param payload 协议控制信息和数据
+   */
+  private buildFrame(payload: number[]): CanLinkMessage {
+    const { txId, extended, fd, brs, addressing, txAddress, padding, paddingByte, txDataLength } = this.config;
+    const bytes = addressing === 'normal' ? payload : [txAddress, ...payload];
+
+    let length = bytes.length;
+    if (padding === 'max') {
+      length = txDataLength;
+    } else if (length > 8) {
+      length = canFdDataLength(length);
+    } else if (padding === 'short') {
+      length = 8;
+    }
+
+    const data = Buffer.alloc(length, paddingByte);
+    Buffer.from(bytes).copy(data);
+    return fd ? { id: txId, data, isExtended: extended, brs } : { id: txId, data, isExtended: extended };
+  }
+}
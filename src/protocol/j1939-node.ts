@@ -0,0 +1,784 @@
+/**
+ * J1939 节点
+ * 通过 CanLink 收发参数组，实现地址声明、请求 PGN 和传输协议 (BAM、RTS/CTS)
+ */
+
+import { EventEmitter } from 'events';
+import { ZlgCanError, emitError, startPollTimer } from '../driver';
+import { CanLink, CanLinkMessage } from './can-link';
+import {
+  J1939_PGN,
+  J1939_GLOBAL_ADDRESS,
+  J1939_NULL_ADDRESS,
+  J1939_MAX_TP_LENGTH,
+  J1939_ABORT_REASON,
+  J1939Name,
+  J1939Dm1,
+  J1939TransportError,
+  isPdu1,
+  parseJ1939Id,
+  buildJ1939Id,
+  j1939NameValue,
+  encodeJ1939Name,
+  decodeJ1939Name,
+  decodeDm1,
+} from './j1939';
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/** TP.CM 控制字节 */
+const TP_CM = {
+  RTS: 16,
+  CTS: 17,
+  END_OF_MSG_ACK: 19,
+  BAM: 32,
+  ABORT: 255,
+} as const;
+
+/** 传输协议使用的优先级 */
+const TP_PRIORITY = 7;
+
+/** NACK 控制字节 */
+const ACK_NEGATIVE = 1;
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * J1939 节点配置
+ */
+export interface J1939Config {
+  /** 本节点 NAME */
+  name: J1939Name;
+  /** 首选地址 */
+  preferredAddress: number;
+  /** 首选地址被占用时可选择的地址范围 (NAME 允许任意地址时)，默认 [128, 247] */
+  addressRange?: [number, number];
+  /** 地址声明后等待冲突的时间 (ms)，默认 250 */
+  claimTimeout?: number;
+  /** BAM 数据包间隔 (ms)，默认 50 */
+  bamInterval?: number;
+  /** 接收时每个 CTS 允许的数据包数量，默认 16 */
+  ctsPackets?: number;
+  /** 等待下一个数据包的超时时间 T1 (ms)，默认 750 */
+  t1?: number;
+  /** 发送 CTS 后等待数据包的超时时间 T2 (ms)，默认 1250 */
+  t2?: number;
+  /** 发送最后一个数据包后等待 CTS/确认的超时时间 T3 (ms)，默认 1250 */
+  t3?: number;
+  /** 收到保持连接的 CTS 后等待下一个 CTS 的超时时间 T4 (ms)，默认 1050 */
+  t4?: number;
+}
+
+/**
+ * 参数组
+ */
+export interface J1939Message {
+  /** 参数组编号 */
+  pgn: number;
+  /** 优先级 */
+  priority: number;
+  /** 源地址 */
+  source: number;
+  /** 目标地址 (全局或 PDU2 格式时为 0xFF) */
+  destination: number;
+  /** 数据 */
+  data: Buffer;
+  /** 时间戳 (单帧为接收时间戳，多包为最后一个数据包的时间戳) */
+  timestamp?: bigint | number;
+}
+
+/**
+ * 发送选项
+ */
+export interface J1939SendOptions {
+  /** 目标地址，默认 0xFF (全局，多包时使用 BAM) */
+  destination?: number;
+  /** 优先级，默认 6 */
+  priority?: number;
+}
+
+/**
+ * 请求处理函数，返回响应数据，返回 null 时对目标为本节点的请求回复 NACK
+ */
+export type J1939RequestHandler = (request: { pgn: number; source: number; destination: number }) => Buffer | number[] | null;
+
+/**
+ * 多包接收状态
+ */
+interface TpReception {
+  pgn: number;
+  priority: number;
+  size: number;
+  packets: number;
+  buffer: Buffer;
+  nextSequence: number;
+  /** 当前 CTS 窗口的最后一个序号 (BAM 为 packets) */
+  windowEnd: number;
+  /** 发送方允许的每个 CTS 的最大包数 (RTS 第 5 字节) */
+  maxPackets: number;
+  broadcast: boolean;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * 地址声明状态
+ */
+interface ClaimState {
+  address: number;
+  timer: NodeJS.Timeout | null;
+  /** claimAddress() 返回的 Promise (地址丢失后自动重新声明时为空) */
+  resolve?: (address: number) => void;
+  reject?: (error: Error) => void;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function pgnBytes(pgn: number): number[] {
+  return [pgn & 0xFF, (pgn >> 8) & 0xFF, (pgn >> 16) & 0xFF];
+}
+
+// ============================================================================
+// 节点
+// ============================================================================
+
+/**
+ * J1939 节点事件
+ */
+export interface J1939NodeEvents {
+  /** 收到发往本节点或全局的参数组 (含多包) */
+  message: (message: J1939Message) => void;
+  /** 收到请求 PGN (地址声明请求由节点自动响应) */
+  request: (pgn: number, source: number, destination: number) => void;
+  /** 收到 DM1 */
+  dm1: (dm1: J1939Dm1, source: number) => void;
+  /** 成功声明地址 */
+  addressClaimed: (address: number) => void;
+  /** 地址被 NAME 优先级更高的节点占用且无其它可用地址 */
+  addressLost: () => void;
+  /** 多包接收失败 */
+  transportError: (error: J1939TransportError, source: number) => void;
+  /** 轮询或请求响应发送失败 (没有监听器时忽略) */
+  error: (error: Error) => void;
+}
+
+export interface J1939Node {
+  on<E extends keyof J1939NodeEvents>(event: E, listener: J1939NodeEvents[E]): this;
+  once<E extends keyof J1939NodeEvents>(event: E, listener: J1939NodeEvents[E]): this;
+  off<E extends keyof J1939NodeEvents>(event: E, listener: J1939NodeEvents[E]): this;
+  emit<E extends keyof J1939NodeEvents>(event: E, ...args: Parameters<J1939NodeEvents[E]>): boolean;
+}
+
+/**
+ * J1939 节点
+ *
+ * 接收的帧由 poll() 处理 (start() 开始周期轮询)。发送前需通过 claimAddress() 声明地址；
+ * 超过 8 字节的数据发往全局地址时使用 BAM，发往指定地址时使用 RTS/CTS，多包发送按调用顺序依次进行
+ */
+export class J1939Node extends EventEmitter {
+  private readonly config: Required<J1939Config>;
+  private readonly nameValue: bigint;
+  private address = J1939_NULL_ADDRESS;
+  private claim: ClaimState | null = null;
+  private readonly addressTable = new Map<number, bigint>();
+  private readonly receptions = new Map<string, TpReception>();
+  private readonly requestHandlers = new Map<number, J1939RequestHandler>();
+  private readonly waiters: { match: (message: J1939Message) => boolean; resolve: (message: J1939Message) => void }[] = [];
+  private controlHandler: ((source: number, data: Buffer) => void) | null = null;
+  private sendChain: Promise<void> = Promise.resolve();
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly link: CanLink, config: J1939Config) {
+    super();
+    this.config = {
+      addressRange: [128, 247],
+      claimTimeout: 250,
+      bamInterval: 50,
+      ctsPackets: 16,
+      t1: 750,
+      t2: 1250,
+      t3: 1250,
+      t4: 1050,
+      ...config,
+    };
+    this.nameValue = j1939NameValue(config.name);
+  }
+
+  // ============================================================================
+  // 轮询
+  // ============================================================================
+
+  /**
+   * 开始周期轮询接收帧
+   * @param interval 轮询间隔 (ms)，默认 1
+   */
+  start(interval: number = 1): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+    this.pollTimer = startPollTimer(this, interval, () => this.poll());
+  }
+
+  /**
+   * 停止轮询并放弃进行中的多包接收
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    for (const reception of this.receptions.values()) {
+      if (reception.timer) {
+        clearTimeout(reception.timer);
+      }
+    }
+    this.receptions.clear();
+  }
+
+  /**
+   * 是否正在轮询
+   */
+  isRunning(): boolean {
+    return this.pollTimer !== null;
+  }
+
+  /**
+   * 读取并处理已接收的帧
+   * @param maxCount 最大读取数量，默认 100
+   */
+  poll(maxCount: number = 100): void {
+    for (const frame of this.link.receive(maxCount)) {
+      this.handleFrame(frame);
+    }
+  }
+
+  /**
+   * 处理一帧，标准帧、远程帧和发往其它节点的帧被忽略
+   */
+  handleFrame(frame: CanLinkMessage): void {
+    if (!frame.isExtended || frame.isRemote) {
+      return;
+    }
+    const { pgn, priority, source, destination } = parseJ1939Id(frame.id);
+    const data = Buffer.from(frame.data);
+
+    // 地址声明需要处理所有节点的声明以维护地址表
+    if (pgn === J1939_PGN.ADDRESS_CLAIMED) {
+      this.handleAddressClaimed(source, data);
+    }
+    if (destination !== J1939_GLOBAL_ADDRESS && destination !== this.address) {
+      return;
+    }
+
+    switch (pgn) {
+      case J1939_PGN.TP_CM:
+        this.handleConnectionManagement(source, destination, data, priority);
+        break;
+      case J1939_PGN.TP_DT:
+        this.handleDataTransfer(source, destination, data, frame.timestamp);
+        break;
+      default:
+        this.deliver({ pgn, priority, source, destination, data, timestamp: frame.timestamp });
+        break;
+    }
+  }
+
+  // ============================================================================
+  // 地址声明
+  // ============================================================================
+
+  /**
+   * 当前地址 (未声明或声明失败时为 0xFE)
+   */
+  getAddress(): number {
+    return this.address;
+  }
+
+  /**
+   * 已知的其它节点 (地址 → NAME)
+   */
+  getAddressTable(): Map<number, J1939Name> {
+    const table = new Map<number, J1939Name>();
+    for (const [address, value] of this.addressTable) {
+      const data = Buffer.alloc(8);
+      data.writeBigUInt64LE(value);
+      table.set(address, decodeJ1939Name(data));
+    }
+    return table;
+  }
+
+  /**
+   * 声明地址
+   *
+   * 发送地址声明后等待 claimTimeout，期间 NAME 优先级更高的节点声明同一地址时，
+   * 可任意选择地址的节点在 addressRange 中选择下一个空闲地址重新声明，否则发送无法声明地址消息
+   * @returns 声明成功的地址
+   * @throws {ZlgCanError} 无可用地址时抛出异常
+   */
+  claimAddress(): Promise<number> {
+    if (this.claim) {
+      return Promise.reject(new ZlgCanError('claimAddress', undefined, '地址声明正在进行'));
+    }
+    return new Promise((resolve, reject) => {
+      this.claim = { address: this.config.preferredAddress, resolve, reject, timer: null };
+      this.sendClaim(this.config.preferredAddress);
+    });
+  }
+
+  private sendClaim(address: number): void {
+    const claim = this.claim!;
+    claim.address = address;
+    if (claim.timer) {
+      clearTimeout(claim.timer);
+    }
+    this.transmitFrame(J1939_PGN.ADDRESS_CLAIMED, encodeJ1939Name(this.config.name), address, J1939_GLOBAL_ADDRESS, 6);
+    claim.timer = setTimeout(() => {
+      this.claim = null;
+      this.address = address;
+      this.emit('addressClaimed', address);
+      claim.resolve?.(address);
+    }, this.config.claimTimeout);
+    claim.timer.unref();
+  }
+
+  private handleAddressClaimed(source: number, data: Buffer): void {
+    if (data.length < 8) {
+      return;
+    }
+    const other = data.readBigUInt64LE();
+    if (other === this.nameValue) {
+      // 本节点的回显
+      return;
+    }
+    if (source !== J1939_NULL_ADDRESS) {
+      this.addressTable.set(source, other);
+    }
+
+    const ours = this.claim ? this.claim.address : this.address;
+    if (source !== ours || ours === J1939_NULL_ADDRESS) {
+      return;
+    }
+    if (this.nameValue < other) {
+      // 本节点优先级更高，重新声明
+      this.transmitFrame(J1939_PGN.ADDRESS_CLAIMED, encodeJ1939Name(this.config.name), ours, J1939_GLOBAL_ADDRESS, 6);
+      return;
+    }
+
+    const next = this.config.name.arbitraryAddressCapable ? this.findFreeAddress(ours) : undefined;
+    if (next !== undefined) {
+      this.address = J1939_NULL_ADDRESS;
+      if (!this.claim) {
+        this.claim = { address: next, timer: null };
+      }
+      this.sendClaim(next);
+      return;
+    }
+
+    // 无法声明地址
+    this.address = J1939_NULL_ADDRESS;
+    this.transmitFrame(J1939_PGN.ADDRESS_CLAIMED, encodeJ1939Name(this.config.name), J1939_NULL_ADDRESS, J1939_GLOBAL_ADDRESS, 6);
+    const claim = this.claim;
+    this.claim = null;
+    if (claim?.timer) {
+      clearTimeout(claim.timer);
+    }
+    this.emit('addressLost');
+    claim?.reject?.(new ZlgCanError('claimAddress', undefined, `地址 ${ours} 被占用且无可用地址`));
+  }
+
+  private findFreeAddress(current: number): number | undefined {
+    const [from, to] = this.config.addressRange;
+    for (let address = from; address <= to; address++) {
+      if (address !== current && !this.addressTable.has(address)) {
+        return address;
+      }
+    }
+    return undefined;
+  }
+
+  // ============================================================================
+  // 请求
+  // ============================================================================
+
+  /**
+   * 设置请求处理函数，收到该 PGN 的请求时发送返回的数据
+   */
+  setRequestHandler(pgn: number, handler: J1939RequestHandler | null): void {
+    if (handler) {
+      this.requestHandlers.set(pgn, handler);
+    } else {
+      this.requestHandlers.delete(pgn);
+    }
+  }
+
+  /**
+   * 发送请求 PGN 并等待响应
+   * @param pgn 请求的 PGN
+   * @param destination 目标地址，默认 0xFF (全局，返回第一个响应)
+   * @param timeout 超时时间 (ms)，默认 1250
+   * @returns 响应，超时时返回 null
+   */
+  async request(pgn: number, destination: number = J1939_GLOBAL_ADDRESS, timeout: number = 1250): Promise<J1939Message | null> {
+    // 先检查地址，避免抛出异常后留下等待者
+    const source = this.requireAddress('request');
+    const response = this.waitMessage(
+      (m) => m.pgn === pgn && (destination === J1939_GLOBAL_ADDRESS || m.source === destination),
+      timeout,
+    );
+    this.transmitFrame(J1939_PGN.REQUEST, pgnBytes(pgn), source, destination, 6);
+    return response;
+  }
+
+  /**
+   * 等待满足条件的参数组
+   * @returns 参数组，超时时返回 null
+   */
+  waitMessage(match: (message: J1939Message) => boolean, timeout: number): Promise<J1939Message | null> {
+    return new Promise((resolve) => {
+      const waiter = {
+        match,
+        resolve: (message: J1939Message | null) => {
+          clearTimeout(timer);
+          this.waiters.splice(this.waiters.indexOf(waiter), 1);
+          resolve(message);
+        },
+      };
+      const timer = setTimeout(() => waiter.resolve(null), timeout);
+      this.waiters.push(waiter);
+    });
+  }
+
+  private handleRequest(source: number, destination: number, data: Buffer): void {
+    if (data.length < 3) {
+      return;
+    }
+    const pgn = data[0] | (data[1] << 8) | (data[2] << 16);
+    this.emit('request', pgn, source, destination);
+
+    if (pgn === J1939_PGN.ADDRESS_CLAIMED) {
+      if (this.address !== J1939_NULL_ADDRESS) {
+        this.transmitFrame(pgn, encodeJ1939Name(this.config.name), this.address, J1939_GLOBAL_ADDRESS, 6);
+      }
+      return;
+    }
+    if (this.address === J1939_NULL_ADDRESS) {
+      return;
+    }
+
+    const handler = this.requestHandlers.get(pgn);
+    const response = handler ? handler({ pgn, source, destination }) : null;
+    if (response) {
+      const target = isPdu1(pgn) && destination !== J1939_GLOBAL_ADDRESS ? source : J1939_GLOBAL_ADDRESS;
+      this.send(pgn, response, { destination: target }).catch((error) => emitError(this, error));
+    } else if (destination !== J1939_GLOBAL_ADDRESS) {
+      const nack = [ACK_NEGATIVE, 0xFF, 0xFF, 0xFF, source, ...pgnBytes(pgn)];
+      this.transmitFrame(J1939_PGN.ACKNOWLEDGEMENT, nack, this.address, J1939_GLOBAL_ADDRESS, 6);
+    }
+  }
+
+  // ============================================================================
+  // 发送
+  // ============================================================================
+
+  /**
+   * 发送参数组，超过 8 字节时使用传输协议
+   * @param pgn PGN
+   * @param data 数据 (最多 1785 字节)
+   * @throws {ZlgCanError} 未声明地址或数据过长时抛出异常
+   * @throws {J1939TransportError} 对方中止连接或超时时抛出异常
+   */
+  send(pgn: number, data: Buffer | number[], options: J1939SendOptions = {}): Promise<void> {
+    const payload = Buffer.from(data);
+    const destination = isPdu1(pgn) ? options.destination ?? J1939_GLOBAL_ADDRESS : J1939_GLOBAL_ADDRESS;
+    const priority = options.priority ?? 6;
+    try {
+      const source = this.requireAddress('send');
+      if (payload.length > J1939_MAX_TP_LENGTH) {
+        throw new ZlgCanError('send', undefined, `数据长度超过 ${J1939_MAX_TP_LENGTH} 字节: ${payload.length}`);
+      }
+      if (payload.length <= 8) {
+        this.transmitFrame(pgn, payload, source, destination, priority);
+        return Promise.resolve();
+      }
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    const result = this.sendChain.then(() => destination === J1939_GLOBAL_ADDRESS
+      ? this.sendBam(pgn, payload)
+      : this.sendConnectionMode(pgn, payload, destination));
+    this.sendChain = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * 发送 DM1 (超过 8 字节时使用 BAM)
+   */
+  sendDm1(data: Buffer | number[]): Promise<void> {
+    return this.send(J1939_PGN.DM1, data);
+  }
+
+  private async sendBam(pgn: number, data: Buffer): Promise<void> {
+    const packets = Math.ceil(data.length / 7);
+    const source = this.requireAddress('send');
+    this.transmitFrame(J1939_PGN.TP_CM, [TP_CM.BAM, data.length & 0xFF, data.length >> 8, packets, 0xFF, ...pgnBytes(pgn)],
+      source, J1939_GLOBAL_ADDRESS, TP_PRIORITY);
+    for (let sequence = 1; sequence <= packets; sequence++) {
+      await delay(this.config.bamInterval);
+      this.transmitFrame(J1939_PGN.TP_DT, this.packet(data, sequence), source, J1939_GLOBAL_ADDRESS, TP_PRIORITY);
+    }
+  }
+
+  private async sendConnectionMode(pgn: number, data: Buffer, destination: number): Promise<void> {
+    const packets = Math.ceil(data.length / 7);
+    const source = this.requireAddress('send');
+    const abort = (reason: number) => {
+      this.transmitFrame(J1939_PGN.TP_CM, [TP_CM.ABORT, reason, 0xFF, 0xFF, 0xFF, ...pgnBytes(pgn)], source, destination, TP_PRIORITY);
+      return new J1939TransportError(pgn, reason);
+    };
+
+    this.transmitFrame(J1939_PGN.TP_CM, [TP_CM.RTS, data.length & 0xFF, data.length >> 8, packets, 0xFF, ...pgnBytes(pgn)],
+      source, destination, TP_PRIORITY);
+    let timeout = this.config.t3;
+    for (;;) {
+      const control = await this.waitControl(destination, pgn, timeout);
+      if (!control) {
+        throw abort(J1939_ABORT_REASON.TIMEOUT);
+      }
+      switch (control[0]) {
+        case TP_CM.CTS: {
+          const count = control[1];
+          const next = control[2];
+          if (count === 0) {
+            // 保持连接
+            timeout = this.config.t4;
+            break;
+          }
+          if (next < 1 || next + count - 1 > packets) {
+            throw abort(J1939_ABORT_REASON.BAD_SEQUENCE);
+          }
+          for (let sequence = next; sequence < next + count; sequence++) {
+            this.transmitFrame(J1939_PGN.TP_DT, this.packet(data, sequence), source, destination, TP_PRIORITY);
+          }
+          timeout = this.config.t3;
+          break;
+        }
+        case TP_CM.END_OF_MSG_ACK:
+          return;
+        case TP_CM.ABORT:
+          throw new J1939TransportError(pgn, control[1], true);
+      }
+    }
+  }
+
+  /**
+   * 等待对方的 CTS、确认或中止
+   * @returns 连接管理数据，超时时返回 null
+   */
+  private waitControl(peer: number, pgn: number, timeout: number): Promise<Buffer | null> {
+    return new Promise((resolve) => {
+      const finish = (data: Buffer | null) => {
+        clearTimeout(timer);
+        this.controlHandler = null;
+        resolve(data);
+      };
+      const timer = setTimeout(() => finish(null), timeout);
+      this.controlHandler = (source, data) => {
+        const controlPgn = data[5] | (data[6] << 8) | (data[7] << 16);
+        if (source === peer && controlPgn === pgn) {
+          finish(data);
+        }
+      };
+    });
+  }
+
+  private packet(data: Buffer, sequence: number): number[] {
+    const chunk = Array.from(data.subarray((sequence - 1) * 7, sequence * 7));
+    return [sequence, ...chunk, ...new Array<number>(7 - chunk.length).fill(0xFF)];
+  }
+
+  private transmitFrame(pgn: number, data: Buffer | number[], source: number, destination: number, priority: number): void {
+    this.link.transmit({
+      id: buildJ1939Id({ pgn, source, destination, priority }),
+      isExtended: true,
+      data: Buffer.from(data),
+    });
+  }
+
+  private requireAddress(operation: string): number {
+    if (this.address === J1939_NULL_ADDRESS) {
+      throw new ZlgCanError(operation, undefined, '尚未声明地址');
+    }
+    return this.address;
+  }
+
+  // ============================================================================
+  // 多包接收
+  // ============================================================================
+
+  private handleConnectionManagement(source: number, destination: number, data: Buffer, priority: number): void {
+    if (data.length < 8) {
+      return;
+    }
+    const pgn = data[5] | (data[6] << 8) | (data[7] << 16);
+    const key = `${source}:${destination === J1939_GLOBAL_ADDRESS ? 'bam' : 'rts'}`;
+
+    switch (data[0]) {
+      case TP_CM.BAM:
+      case TP_CM.RTS: {
+        const broadcast = data[0] === TP_CM.BAM;
+        if (broadcast !== (destination === J1939_GLOBAL_ADDRESS)) {
+          return;
+        }
+        const size = data[1] | (data[2] << 8);
+        const packets = data[3];
+        this.cancelReception(key);
+        if (size > J1939_MAX_TP_LENGTH || size <= 8 || packets !== Math.ceil(size / 7)) {
+          if (!broadcast) {
+            this.sendAbort(pgn, source, J1939_ABORT_REASON.MESSAGE_TOO_LARGE);
+          }
+          return;
+        }
+        const reception: TpReception = {
+          pgn,
+          priority,
+          size,
+          packets,
+          buffer: Buffer.alloc(packets * 7),
+          nextSequence: 1,
+          windowEnd: packets,
+          // RTS 第 5 字节为每个 CTS 的最大包数，0xFF 表示不限制，0 为无效值按不限制处理
+          maxPackets: broadcast || data[4] === 0 ? 0xFF : data[4],
+          broadcast,
+          timer: null,
+        };
+        this.receptions.set(key, reception);
+        if (broadcast) {
+          this.restartTimer(key, this.config.t1);
+        } else {
+          this.sendCts(key, source);
+        }
+        break;
+      }
+      case TP_CM.CTS:
+      case TP_CM.END_OF_MSG_ACK:
+        this.controlHandler?.(source, data);
+        break;
+      case TP_CM.ABORT: {
+        this.controlHandler?.(source, data);
+        const reception = this.receptions.get(key);
+        if (reception && reception.pgn === pgn) {
+          this.cancelReception(key);
+          this.emit('transportError', new J1939TransportError(pgn, data[1], true), source);
+        }
+        break;
+      }
+    }
+  }
+
+  private handleDataTransfer(source: number, destination: number, data: Buffer, timestamp?: bigint | number): void {
+    const key = `${source}:${destination === J1939_GLOBAL_ADDRESS ? 'bam' : 'rts'}`;
+    const reception = this.receptions.get(key);
+    if (!reception || data.length < 1) {
+      return;
+    }
+    const sequence = data[0];
+    if (sequence !== reception.nextSequence) {
+      this.failReception(key, source, sequence < reception.nextSequence
+        ? J1939_ABORT_REASON.DUPLICATE_SEQUENCE
+        : J1939_ABORT_REASON.BAD_SEQUENCE);
+      return;
+    }
+    data.copy(reception.buffer, (sequence - 1) * 7, 1, 8);
+    reception.nextSequence++;
+
+    if (sequence === reception.packets) {
+      this.cancelReception(key);
+      if (!reception.broadcast) {
+        const size = reception.size;
+        this.transmitFrame(J1939_PGN.TP_CM, [TP_CM.END_OF_MSG_ACK, size & 0xFF, size >> 8, reception.packets, 0xFF,
+          ...pgnBytes(reception.pgn)], this.address, source, TP_PRIORITY);
+      }
+      this.deliver({
+        pgn: reception.pgn,
+        priority: reception.priority,
+        source,
+        destination,
+        data: reception.buffer.subarray(0, reception.size),
+        timestamp,
+      });
+    } else if (sequence === reception.windowEnd) {
+      this.sendCts(key, source);
+    } else {
+      this.restartTimer(key, this.config.t1);
+    }
+  }
+
+  private sendCts(key: string, source: number): void {
+    const reception = this.receptions.get(key)!;
+    const count = Math.min(this.config.ctsPackets, reception.maxPackets, reception.packets - reception.nextSequence + 1);
+    reception.windowEnd = reception.nextSequence + count - 1;
+    this.transmitFrame(J1939_PGN.TP_CM, [TP_CM.CTS, count, reception.nextSequence, 0xFF, 0xFF, ...pgnBytes(reception.pgn)],
+      this.address, source, TP_PRIORITY);
+    this.restartTimer(key, this.config.t2);
+  }
+
+  private sendAbort(pgn: number, destination: number, reason: number): void {
+    this.transmitFrame(J1939_PGN.TP_CM, [TP_CM.ABORT, reason, 0xFF, 0xFF, 0xFF, ...pgnBytes(pgn)], this.address, destination, TP_PRIORITY);
+  }
+
+  private restartTimer(key: string, timeout: number): void {
+    const reception = this.receptions.get(key)!;
+    if (reception.timer) {
+      clearTimeout(reception.timer);
+    }
+    const source = Number(key.split(':')[0]);
+    reception.timer = setTimeout(() => this.failReception(key, source, J1939_ABORT_REASON.TIMEOUT), timeout);
+    reception.timer.unref();
+  }
+
+  private failReception(key: string, source: number, reason: number): void {
+    const reception = this.receptions.get(key);
+    if (!reception) {
+      return;
+    }
+    this.cancelReception(key);
+    if (!reception.broadcast) {
+      this.sendAbort(reception.pgn, source, reason);
+    }
+    this.emit('transportError', new J1939TransportError(reception.pgn, reason), source);
+  }
+
+  private cancelReception(key: string): void {
+    const reception = this.receptions.get(key);
+    if (reception?.timer) {
+      clearTimeout(reception.timer);
+    }
+    this.receptions.delete(key);
+  }
+
+  // ============================================================================
+  // 分发
+  // ============================================================================
+
+  private deliver(message: J1939Message): void {
+    if (message.pgn === J1939_PGN.REQUEST) {
+      this.handleRequest(message.source, message.destination, message.data);
+    }
+    this.emit('message', message);
+    if (message.pgn === J1939_PGN.DM1 && message.data.length >= 2) {
+      this.emit('dm1', decodeDm1(message.data), message.source);
+    }
+    for (const waiter of [...this.waiters]) {
+      if (waiter.match(message)) {
+        waiter.resolve(message);
+        break;
+      }
+    }
+  }
+}
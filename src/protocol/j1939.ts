@@ -0,0 +1,352 @@
+/**
+ * SAE J1939 常量和编解码
+ * 29 位 ID 与 PGN/优先级/地址的转换、NAME 编解码、DM1 故障码解码和传输协议异常
+ */
+
+import { ZlgCanError, ErrorLocale, getErrorLocale } from '../driver';
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/**
+ * 常用 PGN
+ */
+export const J1939_PGN = {
+  /** 确认 (ACK/NACK) */
+  ACKNOWLEDGEMENT: 0xE800,
+  /** 请求 */
+  REQUEST: 0xEA00,
+  /** 传输协议数据传输 (TP.DT) */
+  TP_DT: 0xEB00,
+  /** 传输协议连接管理 (TP.CM) */
+  TP_CM: 0xEC00,
+  /** 地址声明 */
+  ADDRESS_CLAIMED: 0xEE00,
+  /** 当前故障码 (DM1) */
+  DM1: 0xFECA,
+  /** 历史故障码 (DM2) */
+  DM2: 0xFECB,
+} as const;
+
+/** 全局地址 */
+export const J1939_GLOBAL_ADDRESS = 0xFF;
+
+/** 空地址 (未声明地址或无法声明地址) */
+export const J1939_NULL_ADDRESS = 0xFE;
+
+/** 传输协议的最大数据长度 (255 包 * 7 字节) */
+export const J1939_MAX_TP_LENGTH = 1785;
+
+/**
+ * 传输协议中止原因 (TP.Conn_Abort)
+ */
+export const J1939_ABORT_REASON = {
+  /** 已有连接，无法建立新连接 */
+  ALREADY_IN_SESSION: 1,
+  /** 资源不足 */
+  RESOURCES: 2,
+  /** 超时 */
+  TIMEOUT: 3,
+  /** 数据传输过程中收到 CTS */
+  CTS_WHILE_TRANSFERRING: 4,
+  /** 重传次数达到上限 */
+  MAX_RETRANSMIT: 5,
+  /** 意外的数据传输包 */
+  UNEXPECTED_DT: 6,
+  /** 序号错误 */
+  BAD_SEQUENCE: 7,
+  /** 重复的序号 */
+  DUPLICATE_SEQUENCE: 8,
+  /** 数据长度超过 1785 字节 */
+  MESSAGE_TOO_LARGE: 9,
+} as const;
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 29 位 ID 的字段
+ */
+export interface J1939Id {
+  /** 优先级 (0-7，0 最高) */
+  priority: number;
+  /** 参数组编号 (PDU1 格式时 PS 字段为 0) */
+  pgn: number;
+  /** 源地址 */
+  source: number;
+  /** 目标地址 (PDU2 格式时为 0xFF) */
+  destination: number;
+}
+
+/**
+ * NAME (64 位设备名，数值越小地址声明优先级越高)
+ */
+export interface J1939Name {
+  /** 身份编号 (21 位) */
+  identityNumber: number;
+  /** 制造商代码 (11 位) */
+  manufacturerCode: number;
+  /** ECU 实例 (3 位) */
+  ecuInstance: number;
+  /** 功能实例 (5 位) */
+  functionInstance: number;
+  /** 功能 (8 位) */
+  function: number;
+  /** 车辆系统 (7 位) */
+  vehicleSystem: number;
+  /** 车辆系统实例 (4 位) */
+  vehicleSystemInstance: number;
+  /** 行业组 (3 位) */
+  industryGroup: number;
+  /** 可任意选择地址 */
+  arbitraryAddressCapable: boolean;
+}
+
+/**
+ * 故障灯状态
+ * - status: 'off' | 'on' | 'error' | 'notAvailable'
+ * - flash: 'slow' (1 Hz) | 'fast' (2 Hz) | 'reserved' | 'off'
+ */
+export interface J1939Lamp {
+  status: 'off' | 'on' | 'error' | 'notAvailable';
+  flash: 'slow' | 'fast' | 'reserved' | 'off';
+}
+
+/**
+ * 诊断故障码
+ */
+export interface J1939Dtc {
+  /** 可疑参数编号 (19 位) */
+  spn: number;
+  /** 故障模式标识 (5 位) */
+  fmi: number;
+  /** 发生次数 (7 位，127 表示不可用) */
+  occurrenceCount: number;
+  /** SPN 转换方法位 */
+  conversionMethod: number;
+}
+
+/**
+ * DM1/DM2 诊断消息
+ */
+export interface J1939Dm1 {
+  /** 故障指示灯 (MIL) */
+  malfunctionIndicator: J1939Lamp;
+  /** 红色停机灯 */
+  redStop: J1939Lamp;
+  /** 琥珀色警告灯 */
+  amberWarning: J1939Lamp;
+  /** 保护灯 */
+  protect: J1939Lamp;
+  /** 故障码 (无故障时为空) */
+  dtcs: J1939Dtc[];
+}
+
+// ============================================================================
+// ID 和 NAME
+// ============================================================================
+
+/**
+ * PGN 是否为 PDU1 格式 (PF < 240，PS 字段为目标地址)
+ */
+export function isPdu1(pgn: number): boolean {
+  return ((pgn >> 8) & 0xFF) < 0xF0;
+}
+
+/**
+ * 解析 29 位 ID
+ */
+export function parseJ1939Id(id: number): J1939Id {
+  const pf = (id >> 16) & 0xFF;
+  const ps = (id >> 8) & 0xFF;
+  const pdu1 = pf < 0xF0;
+  return {
+    priority: (id >> 26) & 0x07,
+    pgn: ((id >> 8) & 0x3FF00) | (pdu1 ? 0 : ps),
+    source: id & 0xFF,
+    destination: pdu1 ? ps : J1939_GLOBAL_ADDRESS,
+  };
+}
+
+/**
+ * 生成 29 位 ID
+ * @param fields 优先级默认 6，目标地址默认 0xFF (PDU2 格式时忽略)
+ */
+export function buildJ1939Id(fields: { pgn: number; source: number; destination?: number; priority?: number }): number {
+  const { pgn, source, destination = J1939_GLOBAL_ADDRESS, priority = 6 } = fields;
+  if (pgn < 0 || pgn > 0x3FFFF) {
+    throw new RangeError(`PGN 超出范围 (0-0x3FFFF): ${pgn}`);
+  }
+  const pgnField = isPdu1(pgn) ? (pgn & 0x3FF00) | (destination & 0xFF) : pgn;
+  return (((priority & 0x07) << 26) | (pgnField << 8) | (source & 0xFF)) >>> 0;
+}
+
+/**
+ * NAME 转换为 64 位数值 (用于地址声明仲裁)
+ */
+export function j1939NameValue(name: J1939Name): bigint {
+  return (BigInt(name.arbitraryAddressCapable ? 1 : 0) << 63n)
+    | (BigInt(name.industryGroup & 0x07) << 60n)
+    | (BigInt(name.vehicleSystemInstance & 0x0F) << 56n)
+    | (BigInt(name.vehicleSystem & 0x7F) << 49n)
+    | (BigInt(name.function & 0xFF) << 40n)
+    | (BigInt(name.functionInstance & 0x1F) << 35n)
+    | (BigInt(name.ecuInstance & 0x07) << 32n)
+    | (BigInt(name.manufacturerCode & 0x7FF) << 21n)
+    | BigInt(name.identityNumber & 0x1FFFFF);
+}
+
+/**
+ * 编码 NAME 为 8 字节 (小端)
+ */
+export function encodeJ1939Name(name: J1939Name): Buffer {
+  const data = Buffer.alloc(8);
+  data.writeBigUInt64LE(j1939NameValue(name));
+  return data;
+}
+
+/**
+ * 解码 8 字节 NAME (小端)
+ */
+export function decodeJ1939Name(data: Buffer | number[]): J1939Name {
+  const value = Buffer.from(data).readBigUInt64LE();
+  const field = (shift: bigint, mask: bigint) => Number((value >> shift) & mask);
+  return {
+    identityNumber: field(0n, 0x1FFFFFn),
+    manufacturerCode: field(21n, 0x7FFn),
+    ecuInstance: field(32n, 0x07n),
+    functionInstance: field(35n, 0x1Fn),
+    function: field(40n, 0xFFn),
+    vehicleSystem: field(49n, 0x7Fn),
+    vehicleSystemInstance: field(56n, 0x0Fn),
+    industryGroup: field(60n, 0x07n),
+    arbitraryAddressCapable: field(63n, 1n) === 1,
+  };
+}
+
+// ============================================================================
+// DM1
+// ============================================================================
+
+const LAMP_STATUS: J1939Lamp['status'][] = ['off', 'on', 'error', 'notAvailable'];
+const LAMP_FLASH: J1939Lamp['flash'][] = ['slow', 'fast', 'reserved', 'off'];
+
+/**
+ * 解码 DM1/DM2 数据 (SPN 转换方法版本 4)
+ *
+ * 只有一个全 0 故障码时表示无故障，返回空列表
+ */
+export function decodeDm1(data: Buffer | number[]): J1939Dm1 {
+  const bytes = Buffer.from(data);
+  if (bytes.length < 2) {
+    throw new ZlgCanError('decodeDm1', undefined, `DM1 数据长度不足: ${bytes.length}`);
+  }
+  const lamp = (shift: number): J1939Lamp => ({
+    status: LAMP_STATUS[(bytes[0] >> shift) & 0x03],
+    flash: LAMP_FLASH[(bytes[1] >> shift) & 0x03],
+  });
+
+  const dtcs: J1939Dtc[] = [];
+  for (let offset = 2; offset + 4 <= bytes.length; offset += 4) {
+    const dtc: J1939Dtc = {
+      spn: bytes[offset] | (bytes[offset + 1] << 8) | ((bytes[offset + 2] & 0xE0) << 11),
+      fmi: bytes[offset + 2] & 0x1F,
+      occurrenceCount: bytes[offset + 3] & 0x7F,
+      conversionMethod: bytes[offset + 3] >> 7,
+    };
+    if (dtc.spn !== 0 || dtc.fmi !== 0 || dtc.occurrenceCount !== 0) {
+      dtcs.push(dtc);
+    }
+  }
+
+  return {
+    malfunctionIndicator: lamp(6),
+    redStop: lamp(4),
+    amberWarning: lamp(2),
+    protect: lamp(0),
+    dtcs,
+  };
+}
+
+/**
+ * 编码 DM1/DM2 数据，无故障码时写入一个全 0 故障码
+ */
+export function encodeDm1(dm1: J1939Dm1): Buffer {
+  const lamps = [dm1.malfunctionIndicator, dm1.redStop, dm1.amberWarning, dm1.protect];
+  const status = lamps.reduce((value, lamp, i) => value | (LAMP_STATUS.indexOf(lamp.status) << (6 - i * 2)), 0);
+  const flash = lamps.reduce((value, lamp, i) => value | (LAMP_FLASH.indexOf(lamp.flash) << (6 - i * 2)), 0);
+  const dtcs = dm1.dtcs.length > 0 ? dm1.dtcs : [{ spn: 0, fmi: 0, occurrenceCount: 0, conversionMethod: 0 }];
+  const data = [status, flash];
+  for (const dtc of dtcs) {
+    data.push(
+      dtc.spn & 0xFF,
+      (dtc.spn >> 8) & 0xFF,
+      ((dtc.spn >> 11) & 0xE0) | (dtc.fmi & 0x1F),
+      ((dtc.conversionMethod & 0x01) << 7) | (dtc.occurrenceCount & 0x7F),
+    );
+  }
+  // 单帧 DM1 以 0xFF 填充至 8 字节
+  while (data.length < 8) {
+    data.push(0xFF);
+  }
+  return Buffer.from(data);
+}
+
+// ============================================================================
+// 异常
+// ============================================================================
+
+const ABORT_MESSAGES: Record<ErrorLocale, Record<number, string>> = {
+  zh: {
+    1: '已有连接',
+    2: '资源不足',
+    3: '超时',
+    4: '数据传输过程中收到 CTS',
+    5: '重传次数达到上限',
+    6: '意外的数据传输包',
+    7: '序号错误',
+    8: '重复的序号',
+    9: '数据长度超过 1785 字节',
+  },
+  en: {
+    1: 'already in a connection',
+    2: 'system resources needed',
+    3: 'timeout',
+    4: 'CTS received while transferring data',
+    5: 'maximum retransmit requests reached',
+    6: 'unexpected data transfer packet',
+    7: 'bad sequence number',
+    8: 'duplicate sequence number',
+    9: 'message larger than 1785 bytes',
+  },
+};
+
+const ABORTED_BY_PEER: Record<ErrorLocale, string> = { zh: '对方中止', en: 'aborted by peer' };
+
+/**
+ * 传输协议失败
+ *
+ * reason 为 TP.Conn_Abort 中止原因，remote 表示由对方中止，errorCode 为空
+ */
+export class J1939TransportError extends ZlgCanError {
+  constructor(
+    public readonly pgn: number,
+    public readonly reason: number,
+    public readonly remote = false,
+  ) {
+    super('J1939', undefined, J1939TransportError.format(pgn, reason, remote, getErrorLocale()));
+    this.name = 'J1939TransportError';
+  }
+
+  localizedMessage(locale: ErrorLocale): string {
+    return J1939TransportError.format(this.pgn, this.reason, this.remote, locale);
+  }
+
+  private static format(pgn: number, reason: number, remote: boolean, locale: ErrorLocale): string {
+    const description = ABORT_MESSAGES[locale][reason] ?? `0x${reason.toString(16).toUpperCase()}`;
+    const pgnText = `0x${pgn.toString(16).toUpperCase().padStart(4, '0')}`;
+    return `J1939 PGN ${pgnText}: ${remote ? `${ABORTED_BY_PEER[locale]} (${description})` : description}`;
+  }
+}
@@ -0,0 +1,721 @@
+/**
+ * LDF 文件解析 (LIN 2.x)
+ * 解析节点、信号、帧、零星帧、事件触发帧、诊断帧、节点属性、调度表和信号编码类型
+ */
+
+import { ZlgCanError } from '../driver';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 信号
+ */
+export interface LdfSignal {
+  /** 信号名 */
+  name: string;
+  /** 位长度 (字节数组信号为 8 的倍数) */
+  size: number;
+  /** 初始值 (字节数组信号为字节数组) */
+  initValue: number | number[];
+  /** 发布节点 */
+  publisher: string;
+  /** 订阅节点 */
+  subscribers: string[];
+  /** 编码类型名 (Signal_representation) */
+  encoding?: string;
+}
+
+/**
+ * 帧内信号位置
+ */
+export interface LdfFrameSignal {
+  /** 信号名 */
+  name: string;
+  /** 起始位 (LSB) */
+  offset: number;
+}
+
+/**
+ * 无条件帧或诊断帧
+ */
+export interface LdfFrame {
+  /** 帧名 */
+  name: string;
+  /** 帧 ID (0-63) */
+  id: number;
+  /** 发布节点 (SlaveResp 为空字符串) */
+  publisher: string;
+  /** 数据长度 (字节) */
+  length: number;
+  /** 信号 */
+  signals: LdfFrameSignal[];
+}
+
+/**
+ * 零星帧
+ */
+export interface LdfSporadicFrame {
+  /** 帧名 */
+  name: string;
+  /** 关联的无条件帧 (按优先级排序) */
+  frames: string[];
+}
+
+/**
+ * 事件触发帧
+ */
+export interface LdfEventTriggeredFrame {
+  /** 帧名 */
+  name: string;
+  /** 帧 ID */
+  id: number;
+  /** 冲突解决调度表 (LIN 2.1) */
+  collisionScheduleTable?: string;
+  /** 关联的无条件帧 */
+  frames: string[];
+}
+
+/**
+ * 可配置帧
+ */
+export interface LdfConfigurableFrame {
+  /** 帧名 */
+  frame: string;
+  /** 消息 ID (LIN 2.0) */
+  messageId?: number;
+}
+
+/**
+ * 节点属性
+ */
+export interface LdfNodeAttributes {
+  /** 节点名 */
+  name: string;
+  /** LIN 协议版本 */
+  protocolVersion?: string;
+  /** 配置的 NAD */
+  configuredNad?: number;
+  /** 初始 NAD */
+  initialNad?: number;
+  /** 供应商 ID */
+  supplierId?: number;
+  /** 功能 ID */
+  functionId?: number;
+  /** 变体 */
+  variant?: number;
+  /** 应答错误信号 */
+  responseError?: string;
+  /** P2_min (ms) */
+  p2Min?: number;
+  /** ST_min (ms) */
+  stMin?: number;
+  /** N_As 超时 (ms) */
+  nAsTimeout?: number;
+  /** N_Cr 超时 (ms) */
+  nCrTimeout?: number;
+  /** 可配置帧 */
+  configurableFrames: LdfConfigurableFrame[];
+}
+
+/**
+ * 调度表项
+ * - frame: 发送帧 (无条件帧、零星帧、事件触发帧、MasterReq 或 SlaveResp)
+ * - command: 节点配置命令 (AssignNAD、FreeFormat 等)，node 和 arguments 为命令参数
+ */
+export interface LdfScheduleEntry {
+  /** 类型 */
+  type: 'frame' | 'command';
+  /** 帧名或命令名 */
+  name: string;
+  /** 命令的目标节点 */
+  node?: string;
+  /** 命令的其它参数 (AssignFrameId 的帧名除外) */
+  arguments: number[];
+  /** 命令引用的帧 (AssignFrameId/UnassignFrameId) */
+  frame?: string;
+  /** 时隙 (ms) */
+  delay: number;
+}
+
+/**
+ * 调度表
+ */
+export interface LdfScheduleTable {
+  /** 调度表名 */
+  name: string;
+  /** 调度表项 */
+  entries: LdfScheduleEntry[];
+}
+
+/**
+ * 物理值范围
+ */
+export interface LdfPhysicalRange {
+  /** 原始值最小值 */
+  minimum: number;
+  /** 原始值最大值 */
+  maximum: number;
+  /** 缩放因子 */
+  scale: number;
+  /** 偏移 */
+  offset: number;
+  /** 单位 */
+  unit: string;
+}
+
+/**
+ * 信号编码类型
+ */
+export interface LdfSignalEncoding {
+  /** 编码类型名 */
+  name: string;
+  /** 逻辑值 (原始值 → 描述) */
+  logicalValues: Record<number, string>;
+  /** 物理值范围 */
+  physicalRanges: LdfPhysicalRange[];
+  /** BCD 编码 */
+  bcd: boolean;
+  /** ASCII 编码 */
+  ascii: boolean;
+}
+
+/**
+ * 主机节点
+ */
+export interface LdfMaster {
+  /** 节点名 */
+  name: string;
+  /** 时基 (ms) */
+  timeBase: number;
+  /** 抖动 (ms) */
+  jitter: number;
+}
+
+/**
+ * LDF 数据库
+ */
+export interface LdfDatabase {
+  /** 协议版本 */
+  protocolVersion: string;
+  /** 语言版本 */
+  languageVersion: string;
+  /** 波特率 (bit/s) */
+  speed: number;
+  /** 通道名 */
+  channelName?: string;
+  /** 主机节点 */
+  master: LdfMaster | null;
+  /** 从机节点 */
+  slaves: string[];
+  /** 信号 */
+  signals: LdfSignal[];
+  /** 诊断信号 */
+  diagnosticSignals: LdfSignal[];
+  /** 无条件帧 */
+  frames: LdfFrame[];
+  /** 诊断帧 (MasterReq/SlaveResp) */
+  diagnosticFrames: LdfFrame[];
+  /** 零星帧 */
+  sporadicFrames: LdfSporadicFrame[];
+  /** 事件触发帧 */
+  eventTriggeredFrames: LdfEventTriggeredFrame[];
+  /** 节点属性 */
+  nodeAttributes: LdfNodeAttributes[];
+  /** 调度表 */
+  scheduleTables: LdfScheduleTable[];
+  /** 信号编码类型 */
+  encodings: LdfSignalEncoding[];
+}
+
+// ============================================================================
+// 词法分析
+// ============================================================================
+
+interface Token {
+  type: 'identifier' | 'number' | 'string' | 'symbol';
+  text: string;
+  line: number;
+}
+
+/** 数字 (十六进制、整数、小数和科学计数法) */
+const NUMBER = /^-?(0[xX][0-9a-fA-F]+|(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?)/;
+
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+  let match: RegExpExecArray | null;
+
+  while (i < content.length) {
+    const c = content[i];
+    if (c === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(c)) {
+      i++;
+    } else if (c === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') {
+        i++;
+      }
+    } else if (c === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const stop = end === -1 ? content.length : end + 2;
+      line += content.slice(i, stop).split('\n').length - 1;
+      i = stop;
+    } else if (c === '"') {
+      const end = content.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new ZlgCanError('parseLdf', undefined, `第 ${line} 行字符串未结束`);
+      }
+      const text = content.slice(i + 1, end);
+      tokens.push({ type: 'string', text, line });
+      line += text.split('\n').length - 1;
+      i = end + 1;
+    } else if ((match = NUMBER.exec(content.slice(i, i + 64))) && !/\w/.test(content[i + match[0].length] ?? '')) {
+      tokens.push({ type: 'number', text: match[0], line });
+      i += match[0].length;
+    } else if (/\w/.test(c)) {
+      const word = /^\w+/.exec(content.slice(i, i + 256))![0];
+      tokens.push({ type: 'identifier', text: word, line });
+      i += word.length;
+    } else {
+      tokens.push({ type: 'symbol', text: c, line });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+// ============================================================================
+// 语法分析
+// ============================================================================
+
+/** 节点配置命令 */
+const SCHEDULE_COMMANDS = new Set([
+  'AssignNAD',
+  'ConditionalChangeNAD',
+  'DataDump',
+  'SaveConfiguration',
+  'AssignFrameIdRange',
+  'FreeFormat',
+  'AssignFrameId',
+  'UnassignFrameId',
+]);
+
+class LdfParser {
+  private position = 0;
+  private readonly database: LdfDatabase = {
+    protocolVersion: '',
+    languageVersion: '',
+    speed: 0,
+    master: null,
+    slaves: [],
+    signals: [],
+    diagnosticSignals: [],
+    frames: [],
+    diagnosticFrames: [],
+    sporadicFrames: [],
+    eventTriggeredFrames: [],
+    nodeAttributes: [],
+    scheduleTables: [],
+    encodings: [],
+  };
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): LdfDatabase {
+    while (this.position < this.tokens.length) {
+      const token = this.next();
+      if (token.type !== 'identifier') {
+        this.fail(token, `意外的 "${token.text}"`);
+      }
+      if (this.peek()?.text === '=') {
+        this.parseHeader(token.text);
+        continue;
+      }
+      if (this.peek()?.text === ';') {
+        // LIN_description_file;
+        this.next();
+        continue;
+      }
+
+      this.expectSymbol('{');
+      switch (token.text) {
+        case 'Nodes':
+          this.parseNodes();
+          break;
+        case 'Signals':
+          this.parseSignals(this.database.signals);
+          break;
+        case 'Diagnostic_signals':
+          this.parseSignals(this.database.diagnosticSignals);
+          break;
+        case 'Frames':
+          this.parseFrames(this.database.frames, true);
+          break;
+        case 'Diagnostic_frames':
+          this.parseFrames(this.database.diagnosticFrames, false);
+          break;
+        case 'Sporadic_frames':
+          this.parseSporadicFrames();
+          break;
+        case 'Event_triggered_frames':
+          this.parseEventTriggeredFrames();
+          break;
+        case 'Node_attributes':
+          this.parseNodeAttributes();
+          break;
+        case 'Schedule_tables':
+          this.parseScheduleTables();
+          break;
+        case 'Signal_encoding_types':
+          this.parseEncodings();
+          break;
+        case 'Signal_representation':
+          this.parseRepresentations();
+          break;
+        default:
+          this.skipBlock();
+          break;
+      }
+    }
+    return this.database;
+  }
+
+  // ============================================================================
+  // 段落
+  // ============================================================================
+
+  private parseHeader(key: string): void {
+    this.expectSymbol('=');
+    const values = this.untilSemicolon();
+    const value = values[0]?.text ?? '';
+    switch (key) {
+      case 'LIN_protocol_version':
+        this.database.protocolVersion = value;
+        break;
+      case 'LIN_language_version':
+        this.database.languageVersion = value;
+        break;
+      case 'LIN_speed':
+        this.database.speed = Math.round(Number(value) * (values[1]?.text === 'bps' ? 1 : 1000));
+        break;
+      case 'Channel_name':
+        this.database.channelName = value;
+        break;
+    }
+  }
+
+  private parseNodes(): void {
+    while (!this.endOfBlock()) {
+      const key = this.expectIdentifier();
+      this.expectSymbol(':');
+      const values = this.untilSemicolon().filter((t) => t.text !== ',');
+      if (key === 'Master') {
+        const numbers = values.filter((t) => t.type === 'number').map((t) => Number(t.text));
+        this.database.master = { name: values[0].text, timeBase: numbers[0] ?? 0, jitter: numbers[1] ?? 0 };
+      } else if (key === 'Slaves') {
+        this.database.slaves = values.map((t) => t.text);
+      }
+    }
+  }
+
+  private parseSignals(signals: LdfSignal[]): void {
+    while (!this.endOfBlock()) {
+      const name = this.expectIdentifier();
+      this.expectSymbol(':');
+      const size = this.expectNumber();
+      this.expectSymbol(',');
+      let initValue: number | number[];
+      if (this.peek()?.text === '{') {
+        this.next();
+        initValue = this.untilSymbol('}').filter((t) => t.type === 'number').map((t) => Number(t.text));
+      } else {
+        initValue = this.expectNumber();
+      }
+      const nodes = this.untilSemicolon().filter((t) => t.type === 'identifier').map((t) => t.text);
+      signals.push({ name, size, initValue, publisher: nodes[0] ?? '', subscribers: nodes.slice(1) });
+    }
+  }
+
+  private parseFrames(frames: LdfFrame[], unconditional: boolean): void {
+    while (!this.endOfBlock()) {
+      const name = this.expectIdentifier();
+      this.expectSymbol(':');
+      const id = this.expectNumber();
+      let publisher = '';
+      let length = 8;
+      if (unconditional) {
+        this.expectSymbol(',');
+        publisher = this.expectIdentifier();
+        this.expectSymbol(',');
+        length = this.expectNumber();
+      } else if (id === 0x3C) {
+        publisher = this.database.master?.name ?? '';
+      }
+      this.expectSymbol('{');
+      const signals: LdfFrameSignal[] = [];
+      while (!this.endOfBlock()) {
+        const signal = this.expectIdentifier();
+        this.expectSymbol(',');
+        signals.push({ name: signal, offset: this.expectNumber() });
+        this.expectSymbol(';');
+      }
+      frames.push({ name, id, publisher, length, signals });
+    }
+  }
+
+  private parseSporadicFrames(): void {
+    while (!this.endOfBlock()) {
+      const name = this.expectIdentifier();
+      this.expectSymbol(':');
+      const frames = this.untilSemicolon().filter((t) => t.type === 'identifier').map((t) => t.text);
+      this.database.sporadicFrames.push({ name, frames });
+    }
+  }
+
+  private parseEventTriggeredFrames(): void {
+    while (!this.endOfBlock()) {
+      const name = this.expectIdentifier();
+      this.expectSymbol(':');
+      const values = this.untilSemicolon().filter((t) => t.text !== ',');
+      const frame: LdfEventTriggeredFrame = { name, id: 0, frames: [] };
+      if (values[0]?.type === 'identifier') {
+        frame.collisionScheduleTable = values.shift()!.text;
+      }
+      frame.id = Number(values.shift()?.text);
+      frame.frames = values.map((t) => t.text);
+      this.database.eventTriggeredFrames.push(frame);
+    }
+  }
+
+  private parseNodeAttributes(): void {
+    while (!this.endOfBlock()) {
+      const attributes: LdfNodeAttributes = { name: this.expectIdentifier(), configurableFrames: [] };
+      this.expectSymbol('{');
+      while (!this.endOfBlock()) {
+        const key = this.expectIdentifier();
+        if (key === 'configurable_frames') {
+          this.expectSymbol('{');
+          while (!this.endOfBlock()) {
+            const entry: LdfConfigurableFrame = { frame: this.expectIdentifier() };
+            const rest = this.untilSemicolon();
+            if (rest[0]?.text === '=') {
+              entry.messageId = Number(rest[1].text);
+            }
+            attributes.configurableFrames.push(entry);
+          }
+          continue;
+        }
+
+        this.expectSymbol('=');
+        const values = this.untilSemicolon().filter((t) => t.text !== ',');
+        const number = Number(values[0]?.text);
+        switch (key) {
+          case 'LIN_protocol':
+            attributes.protocolVersion = values[0]?.text;
+            break;
+          case 'configured_NAD':
+            attributes.configuredNad = number;
+            break;
+          case 'initial_NAD':
+            attributes.initialNad = number;
+            break;
+          case 'product_id':
+            [attributes.supplierId, attributes.functionId, attributes.variant] = values.map((t) => Number(t.text));
+            break;
+          case 'response_error':
+            attributes.responseError = values[0]?.text;
+            break;
+          case 'P2_min':
+            attributes.p2Min = number;
+            break;
+          case 'ST_min':
+            attributes.stMin = number;
+            break;
+          case 'N_As_timeout':
+            attributes.nAsTimeout = number;
+            break;
+          case 'N_Cr_timeout':
+            attributes.nCrTimeout = number;
+            break;
+        }
+      }
+      this.database.nodeAttributes.push(attributes);
+    }
+  }
+
+  private parseScheduleTables(): void {
+    while (!this.endOfBlock()) {
+      const table: LdfScheduleTable = { name: this.expectIdentifier(), entries: [] };
+      this.expectSymbol('{');
+      while (!this.endOfBlock()) {
+        const name = this.expectIdentifier();
+        const entry: LdfScheduleEntry = { type: SCHEDULE_COMMANDS.has(name) ? 'command' : 'frame', name, arguments: [], delay: 0 };
+        if (this.peek()?.text === '{') {
+          this.next();
+          for (const token of this.untilSymbol('}').filter((t) => t.text !== ',')) {
+            if (token.type === 'number') {
+              entry.arguments.push(Number(token.text));
+            } else if (entry.node === undefined && name !== 'ConditionalChangeNAD' && name !== 'FreeFormat') {
+              entry.node = token.text;
+            } else {
+              entry.frame = token.text;
+            }
+          }
+        }
+        const delayKeyword = this.expectIdentifier();
+        if (delayKeyword !== 'delay') {
+          this.fail(this.tokens[this.position - 1], `应为 "delay"，实际为 "${delayKeyword}"`);
+        }
+        entry.delay = this.expectNumber();
+        this.untilSemicolon();
+        table.entries.push(entry);
+      }
+      this.database.scheduleTables.push(table);
+    }
+  }
+
+  private parseEncodings(): void {
+    while (!this.endOfBlock()) {
+      const encoding: LdfSignalEncoding = { name: this.expectIdentifier(), logicalValues: {}, physicalRanges: [], bcd: false, ascii: false };
+      this.expectSymbol('{');
+      while (!this.endOfBlock()) {
+        const kind = this.expectIdentifier();
+        const values = this.untilSemicolon().filter((t) => t.text !== ',');
+        switch (kind) {
+          case 'logical_value':
+            encoding.logicalValues[Number(values[0].text)] = values[1]?.text ?? '';
+            break;
+          case 'physical_value': {
+            const [minimum, maximum, scale, offset] = values.slice(0, 4).map((t) => Number(t.text));
+            encoding.physicalRanges.push({ minimum, maximum, scale, offset, unit: values[4]?.text ?? '' });
+            break;
+          }
+          case 'bcd_value':
+            encoding.bcd = true;
+            break;
+          case 'ascii_value':
+            encoding.ascii = true;
+            break;
+        }
+      }
+      this.database.encodings.push(encoding);
+    }
+  }
+
+  private parseRepresentations(): void {
+    while (!this.endOfBlock()) {
+      const encoding = this.expectIdentifier();
+      this.expectSymbol(':');
+      for (const token of this.untilSemicolon()) {
+        const signal = this.database.signals.find((s) => s.name === token.text);
+        if (signal) {
+          signal.encoding = encoding;
+        }
+      }
+    }
+  }
+
+  // ============================================================================
+  // 词法单元读取
+  // ============================================================================
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      const last = this.tokens[this.tokens.length - 1];
+      throw new ZlgCanError('parseLdf', undefined, `第 ${last?.line ?? 1} 行之后文件意外结束`);
+    }
+    return token;
+  }
+
+  private fail(token: Token, message: string): never {
+    throw new ZlgCanError('parseLdf', undefined, `第 ${token.line} 行${message}`);
+  }
+
+  private expectIdentifier(): string {
+    const token = this.next();
+    if (token.type !== 'identifier') {
+      this.fail(token, `应为名称，实际为 "${token.text}"`);
+    }
+    return token.text;
+  }
+
+  private expectNumber(): number {
+    const token = this.next();
+    if (token.type !== 'number') {
+      this.fail(token, `应为数字，实际为 "${token.text}"`);
+    }
+    return Number(token.text);
+  }
+
+  private expectSymbol(symbol: string): void {
+    const token = this.next();
+    if (token.type !== 'symbol' || token.text !== symbol) {
+      this.fail(token, `应为 "${symbol}"，实际为 "${token.text}"`);
+    }
+  }
+
+  /**
+   * 当前段落是否结束，结束时跳过 '}'
+   */
+  private endOfBlock(): boolean {
+    const token = this.peek();
+    if (!token) {
+      this.next();
+    }
+    if (token!.text === '}' && token!.type === 'symbol') {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 读取至指定符号 (不含)，并跳过该符号
+   */
+  private untilSymbol(symbol: string): Token[] {
+    const tokens: Token[] = [];
+    for (let token = this.next(); !(token.type === 'symbol' && token.text === symbol); token = this.next()) {
+      tokens.push(token);
+    }
+    return tokens;
+  }
+
+  private untilSemicolon(): Token[] {
+    return this.untilSymbol(';');
+  }
+
+  private skipBlock(): void {
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.type === 'symbol' && token.text === '{') {
+        depth++;
+      } else if (token.type === 'symbol' && token.text === '}') {
+        depth--;
+      }
+    }
+  }
+}
+
+// ============================================================================
+// 解析
+// ============================================================================
+
+/**
+ * 解析 LDF 文件
+ * @param content 文件内容 (Buffer 按 UTF-8 解码)
+ * @throws {ZlgCanError} 语法错误时抛出异常，消息包含行号
+ */
+export function parseLdf(content: string | Buffer): LdfDatabase {
+  const text = typeof content === 'string' ? content : content.toString('utf8');
+  return new LdfParser(tokenize(text)).parse();
+}
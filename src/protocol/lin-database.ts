@@ -0,0 +1,343 @@
+/**
+ * LIN 数据库
+ * 按 LDF 描述将 LIN 帧解码为信号值，并由信号值生成帧数据
+ */
+
+import { ZlgCanError, linProtectedId } from '../driver';
+import {
+  LdfDatabase,
+  LdfFrame,
+  LdfSignal,
+  LdfSignalEncoding,
+  LdfSporadicFrame,
+  LdfEventTriggeredFrame,
+  LdfNodeAttributes,
+  LdfScheduleTable,
+} from './ldf';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 信号值 (标量信号为数值，字节数组信号为字节数组)
+ */
+export type LinSignalValue = number | number[];
+
+/**
+ * 解码后的信号
+ */
+export interface DecodedLinSignal {
+  /** 信号定义 */
+  signal: LdfSignal;
+  /** 原始值 */
+  raw: LinSignalValue;
+  /** 物理值 (原始值落在物理值范围内时为 raw * scale + offset，否则为原始值) */
+  value: LinSignalValue;
+  /** 逻辑值描述 */
+  label?: string;
+  /** 单位 */
+  unit?: string;
+}
+
+/**
+ * 解码后的帧
+ */
+export interface DecodedLinFrame {
+  /** 帧定义 (事件触发帧为第一个字节 PID 对应的无条件帧) */
+  frame: LdfFrame;
+  /** 信号值 (信号名 → 物理值) */
+  values: Record<string, LinSignalValue>;
+  /** 信号详情 */
+  signals: DecodedLinSignal[];
+}
+
+/**
+ * 待编码的信号值 (信号名 → 物理值、逻辑值描述或字节数组)
+ */
+export type LinSignalValues = Record<string, number | string | number[]>;
+
+/**
+ * 编码选项
+ */
+export interface LinEncodeOptions {
+  /** 基础数据，未指定的信号保留其中的值，省略时未指定的信号使用初始值 */
+  data?: number[];
+}
+
+// ============================================================================
+// 信号编解码
+// ============================================================================
+
+/**
+ * 从数据中读取信号原始值 (LSB 在前)
+ * @returns 数据长度不足时返回 undefined
+ */
+export function decodeLinSignalRaw(signal: LdfSignal, offset: number, data: number[]): LinSignalValue | undefined {
+  if (Array.isArray(signal.initValue)) {
+    const start = offset >> 3;
+    const length = Math.ceil(signal.size / 8);
+    return start + length > data.length ? undefined : data.slice(start, start + length);
+  }
+
+  let raw = 0;
+  for (let i = 0; i < signal.size; i++) {
+    const byte = data[(offset + i) >> 3];
+    if (byte === undefined) {
+      return undefined;
+    }
+    raw += ((byte >> ((offset + i) & 7)) & 1) * 2 ** i;
+  }
+  return raw;
+}
+
+/**
+ * 将信号原始值写入数据 (LSB 在前)
+ * @throws {ZlgCanError} 信号超出数据长度时抛出异常
+ */
+export function encodeLinSignalRaw(signal: LdfSignal, offset: number, raw: LinSignalValue, data: number[]): void {
+  if (offset + signal.size > data.length * 8) {
+    throw new ZlgCanError('encodeLinSignal', undefined, `信号 ${signal.name} 超出数据长度 ${data.length}`);
+  }
+  if (Array.isArray(raw)) {
+    raw.forEach((byte, i) => {
+      data[(offset >> 3) + i] = byte & 0xFF;
+    });
+    return;
+  }
+
+  for (let i = 0; i < signal.size; i++) {
+    const index = (offset + i) >> 3;
+    const mask = 1 << ((offset + i) & 7);
+    if (Math.floor(raw / 2 ** i) % 2) {
+      data[index] |= mask;
+    } else {
+      data[index] &= ~mask;
+    }
+  }
+}
+
+/**
+ * 将物理值、逻辑值描述或字节数组转换为原始值
+ * @throws {ZlgCanError} 逻辑值未定义、不在任何物理值范围内或超出信号位宽时抛出异常
+ */
+export function linPhysicalToRaw(
+  signal: LdfSignal,
+  value: number | string | number[],
+  encoding?: LdfSignalEncoding,
+): LinSignalValue {
+  if (Array.isArray(signal.initValue) !== Array.isArray(value)) {
+    throw new ZlgCanError('encodeLinSignal', undefined, `信号 ${signal.name} 的值类型错误`);
+  }
+  if (Array.isArray(value)) {
+    const length = Math.ceil(signal.size / 8);
+    if (value.length !== length) {
+      throw new ZlgCanError('encodeLinSignal', undefined, `信号 ${signal.name} 应为 ${length} 字节，实际为 ${value.length} 字节`);
+    }
+    return [...value];
+  }
+
+  let raw: number;
+  if (typeof value === 'string') {
+    const entry = Object.entries(encoding?.logicalValues ?? {}).find(([, label]) => label === value);
+    if (!entry) {
+      throw new ZlgCanError('encodeLinSignal', undefined, `信号 ${signal.name} 的编码中没有逻辑值 "${value}"`);
+    }
+    raw = Number(entry[0]);
+  } else if (encoding && encoding.physicalRanges.length > 0) {
+    const candidates = encoding.physicalRanges.map((r) => (r.scale === 0 ? r.minimum : Math.round((value - r.offset) / r.scale)));
+    const index = encoding.physicalRanges.findIndex((r, i) => candidates[i] >= r.minimum && candidates[i] <= r.maximum
+      && (r.scale !== 0 || value === r.offset));
+    if (index === -1) {
+      throw new ZlgCanError('encodeLinSignal', undefined, `信号 ${signal.name} 的值 ${value} 不在编码 ${encoding.name} 的物理值范围内`);
+    }
+    raw = candidates[index];
+  } else {
+    raw = Math.round(value);
+  }
+
+  if (raw < 0 || raw > 2 ** signal.size - 1) {
+    throw new ZlgCanError('encodeLinSignal', undefined, `信号 ${signal.name} 的原始值 ${raw} 超出 ${signal.size} 位范围`);
+  }
+  return raw;
+}
+
+// ============================================================================
+// 数据库
+// ============================================================================
+
+/**
+ * LIN 数据库
+ *
+ * 按帧 ID 查找无条件帧和诊断帧，事件触发帧按第一个字节 (关联帧的 PID) 解码为关联的无条件帧
+ */
+export class LinDatabase {
+  private readonly frames = new Map<string, LdfFrame>();
+  private readonly framesById = new Map<number, LdfFrame>();
+  private readonly signals = new Map<string, LdfSignal>();
+  private readonly encodings = new Map<string, LdfSignalEncoding>();
+
+  constructor(readonly database: LdfDatabase) {
+    for (const frame of [...database.frames, ...database.diagnosticFrames]) {
+      this.frames.set(frame.name, frame);
+      this.framesById.set(frame.id, frame);
+    }
+    for (const signal of [...database.signals, ...database.diagnosticSignals]) {
+      this.signals.set(signal.name, signal);
+    }
+    for (const encoding of database.encodings) {
+      this.encodings.set(encoding.name, encoding);
+    }
+  }
+
+  /**
+   * 主机节点名
+   */
+  get masterName(): string {
+    return this.database.master?.name ?? '';
+  }
+
+  /**
+   * 按名称查找无条件帧或诊断帧
+   */
+  getFrame(name: string): LdfFrame | undefined {
+    return this.frames.get(name);
+  }
+
+  /**
+   * 按 ID 查找无条件帧或诊断帧
+   */
+  getFrameById(id: number): LdfFrame | undefined {
+    return this.framesById.get(id);
+  }
+
+  /**
+   * 按名称查找信号
+   */
+  getSignal(name: string): LdfSignal | undefined {
+    return this.signals.get(name);
+  }
+
+  /**
+   * 按名称查找零星帧
+   */
+  getSporadicFrame(name: string): LdfSporadicFrame | undefined {
+    return this.database.sporadicFrames.find((f) => f.name === name);
+  }
+
+  /**
+   * 按名称查找事件触发帧
+   */
+  getEventTriggeredFrame(name: string): LdfEventTriggeredFrame | undefined {
+    return this.database.eventTriggeredFrames.find((f) => f.name === name);
+  }
+
+  /**
+   * 节点属性
+   */
+  getNodeAttributes(node: string): LdfNodeAttributes | undefined {
+    return this.database.nodeAttributes.find((n) => n.name === node);
+  }
+
+  /**
+   * 按名称查找调度表
+   */
+  getScheduleTable(name: string): LdfScheduleTable | undefined {
+    return this.database.scheduleTables.find((t) => t.name === name);
+  }
+
+  /**
+   * 解码一帧，未定义的 ID 返回 null
+   */
+  decode(frame: { id: number; data: number[] | Buffer }): DecodedLinFrame | null {
+    const data = Array.from(frame.data);
+    const definition = this.framesById.get(frame.id);
+    if (definition) {
+      return this.decodeData(definition, data);
+    }
+
+    const eventTriggered = this.database.eventTriggeredFrames.find((f) => f.id === frame.id);
+    const associated = eventTriggered?.frames
+      .map((name) => this.frames.get(name))
+      .find((f) => f !== undefined && linProtectedId(f.id) === data[0]);
+    return associated ? this.decodeData(associated, data) : null;
+  }
+
+  /**
+   * 按帧定义解码数据，超出数据长度的信号被跳过
+   */
+  decodeData(frame: LdfFrame | string, data: number[] | Buffer): DecodedLinFrame {
+    const definition = typeof frame === 'string' ? this.requireFrame(frame) : frame;
+    const bytes = Array.from(data);
+    const values: Record<string, LinSignalValue> = {};
+    const signals: DecodedLinSignal[] = [];
+
+    for (const { name, offset } of definition.signals) {
+      const signal = this.signals.get(name);
+      const raw = signal && decodeLinSignalRaw(signal, offset, bytes);
+      if (!signal || raw === undefined) {
+        continue;
+      }
+      const decoded: DecodedLinSignal = { signal, raw, value: raw };
+      const encoding = signal.encoding ? this.encodings.get(signal.encoding) : undefined;
+      if (encoding && typeof raw === 'number') {
+        const range = encoding.physicalRanges.find((r) => raw >= r.minimum && raw <= r.maximum);
+        if (range) {
+          decoded.value = raw * range.scale + range.offset;
+          if (range.unit) {
+            decoded.unit = range.unit;
+          }
+        }
+        const label = encoding.logicalValues[raw];
+        if (label !== undefined) {
+          decoded.label = label;
+        }
+      }
+      signals.push(decoded);
+      values[name] = decoded.value;
+    }
+    return { frame: definition, values, signals };
+  }
+
+  /**
+   * 由信号值生成帧数据
+   * @param frame 帧名或帧定义
+   * @param values 信号值 (物理值、逻辑值描述或字节数组)
+   * @throws {ZlgCanError} 帧或信号未定义、值不在编码范围内时抛出异常
+   */
+  encode(frame: LdfFrame | string, values: LinSignalValues = {}, options: LinEncodeOptions = {}): number[] {
+    const definition = typeof frame === 'string' ? this.requireFrame(frame) : frame;
+    for (const name of Object.keys(values)) {
+      if (!definition.signals.some((s) => s.name === name)) {
+        throw new ZlgCanError('encode', undefined, `帧 ${definition.name} 未定义信号: ${name}`);
+      }
+    }
+
+    const data = new Array<number>(definition.length).fill(0);
+    options.data?.slice(0, definition.length).forEach((byte, i) => {
+      data[i] = byte;
+    });
+    for (const { name, offset } of definition.signals) {
+      const signal = this.signals.get(name);
+      if (!signal) {
+        throw new ZlgCanError('encode', undefined, `帧 ${definition.name} 引用了未定义的信号: ${name}`);
+      }
+      const value = values[name];
+      if (value !== undefined) {
+        const encoding = signal.encoding ? this.encodings.get(signal.encoding) : undefined;
+        encodeLinSignalRaw(signal, offset, linPhysicalToRaw(signal, value, encoding), data);
+      } else if (!options.data) {
+        encodeLinSignalRaw(signal, offset, signal.initValue, data);
+      }
+    }
+    return data;
+  }
+
+  private requireFrame(name: string): LdfFrame {
+    const frame = this.frames.get(name);
+    if (!frame) {
+      throw new ZlgCanError('LinDatabase', undefined, `未定义的帧: ${name}`);
+    }
+    return frame;
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * LIN 主机调度
+ * 按 LDF 调度表驱动 LinChannel 发送帧头和主机发布的帧，支持零星帧、事件触发帧、诊断帧和节点配置命令
+ */
+
+import { EventEmitter } from 'events';
+import { ZlgCanError, linProtectedId, emitError } from '../driver';
+import { LinChannel } from '../device';
+import { LdfFrame, LdfNodeAttributes, LdfScheduleEntry } from './ldf';
+import { LinDatabase, LinSignalValues } from './lin-database';
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/** 主机请求帧 ID */
+const MASTER_REQUEST_ID = 0x3C;
+
+/** 从机应答帧 ID */
+const SLAVE_RESPONSE_ID = 0x3D;
+
+/** 节点配置服务 ID */
+const SID_ASSIGN_NAD = 0xB0;
+const SID_ASSIGN_FRAME_ID = 0xB1;
+const SID_CONDITIONAL_CHANGE_NAD = 0xB3;
+const SID_DATA_DUMP = 0xB4;
+const SID_SAVE_CONFIGURATION = 0xB6;
+const SID_ASSIGN_FRAME_ID_RANGE = 0xB7;
+
+/** UnassignFrameId 使用的 PID */
+const UNASSIGNED_PID = 0x40;
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 解析后的调度表项
+ */
+type ScheduleSlot =
+  | { kind: 'publish'; frame: LdfFrame }
+  | { kind: 'header'; id: number }
+  | { kind: 'sporadic'; frames: LdfFrame[] }
+  | { kind: 'masterRequest' }
+  | { kind: 'command'; data: number[] };
+
+// ============================================================================
+// 主机调度
+// ============================================================================
+
+/**
+ * LIN 主机调度事件
+ */
+export interface LinSchedulerEvents {
+  /** 时隙发送失败 (没有监听器时忽略) */
+  error: (error: Error, entry: LdfScheduleEntry) => void;
+}
+
+export interface LinScheduler {
+  on<E extends keyof LinSchedulerEvents>(event: E, listener: LinSchedulerEvents[E]): this;
+  once<E extends keyof LinSchedulerEvents>(event: E, listener: LinSchedulerEvents[E]): this;
+  off<E extends keyof LinSchedulerEvents>(event: E, listener: LinSchedulerEvents[E]): this;
+  emit<E extends keyof LinSchedulerEvents>(event: E, ...args: Parameters<LinSchedulerEvents[E]>): boolean;
+}
+
+/**
+ * LIN 主机调度
+ *
+ * 通过 LinChannel.startSchedule() 执行调度表，每个时隙开始时按表项类型发送：
+ * - 主机发布的无条件帧：发送帧头和当前信号数据 (可通过 setSignals 修改)
+ * - 从机发布的无条件帧、事件触发帧和 SlaveResp：只发送帧头
+ * - 零星帧：发送第一个信号已更新的关联帧，没有更新时时隙为空
+ * - MasterReq：发送 sendMasterRequest 排队的数据，队列为空时时隙为空
+ * - 节点配置命令：发送按节点属性生成的主机请求帧
+ *
+ * 开始调度会替换通道上正在执行的调度表
+ */
+export class LinScheduler extends EventEmitter {
+  private readonly frameData = new Map<string, number[]>();
+  private readonly updated = new Set<string>();
+  private readonly masterRequests: number[][] = [];
+  private activeTable: string | null = null;
+
+  constructor(
+    private readonly channel: LinChannel,
+    private readonly database: LinDatabase,
+  ) {
+    super();
+    for (const frame of database.database.frames) {
+      if (frame.publisher === database.masterName) {
+        this.frameData.set(frame.name, database.encode(frame));
+      }
+    }
+  }
+
+  /**
+   * 开始执行调度表，正在运行时切换到新的调度表
+   * @throws {ZlgCanError} 调度表未定义、为空或引用了未定义的帧和节点时抛出异常
+   */
+  start(tableName: string): void {
+    const table = this.database.getScheduleTable(tableName);
+    if (!table) {
+      throw new ZlgCanError('LinScheduler', undefined, `未定义的调度表: ${tableName}`);
+    }
+    if (table.entries.length === 0) {
+      throw new ZlgCanError('LinScheduler', undefined, `调度表 ${tableName} 为空`);
+    }
+    const entries = table.entries.map((entry) => {
+      const slot = this.resolve(entry);
+      return {
+        slot: entry.delay,
+        run: () => {
+          try {
+            this.runSlot(slot);
+          } catch (error) {
+            emitError(this, error, entry);
+          }
+        },
+      };
+    });
+
+    this.channel.startSchedule(entries);
+    this.activeTable = tableName;
+  }
+
+  /**
+   * 停止调度
+   */
+  stop(): void {
+    if (this.activeTable !== null) {
+      this.channel.stopSchedule();
+      this.activeTable = null;
+    }
+  }
+
+  /**
+   * 是否正在调度
+   */
+  isRunning(): boolean {
+    return this.activeTable !== null && this.channel.isScheduleRunning();
+  }
+
+  /**
+   * 正在执行的调度表名
+   */
+  getActiveTable(): string | null {
+    return this.activeTable;
+  }
+
+  /**
+   * 修改主机发布的信号值，下一次调度到对应帧时发送
+   * @throws {ZlgCanError} 信号不由主机发布或超出范围时抛出异常
+   */
+  setSignals(values: LinSignalValues): void {
+    const pending = new Map<string, LinSignalValues>();
+    for (const [name, value] of Object.entries(values)) {
+      const frames = this.database.database.frames.filter((f) => this.frameData.has(f.name) && f.signals.some((s) => s.name === name));
+      if (frames.length === 0) {
+        throw new ZlgCanError('LinScheduler', undefined, `信号 ${name} 不在主机发布的帧中`);
+      }
+      for (const frame of frames) {
+        pending.set(frame.name, { ...pending.get(frame.name), [name]: value });
+      }
+    }
+
+    // 全部编码成功后再更新，避免部分信号生效
+    const encoded = [...pending].map(([name, frameValues]) =>
+      [name, this.database.encode(name, frameValues, { data: this.frameData.get(name) })] as const);
+    for (const [name, data] of encoded) {
+      this.frameData.set(name, data);
+      this.updated.add(name);
+    }
+  }
+
+  /**
+   * 修改单个信号值
+   */
+  setSignal(name: string, value: number | string | number[]): void {
+    this.setSignals({ [name]: value });
+  }
+
+  /**
+   * 主机发布的帧的当前数据
+   */
+  getFrameData(frameName: string): number[] {
+    const data = this.frameData.get(frameName);
+    if (!data) {
+      throw new ZlgCanError('LinScheduler', undefined, `帧 ${frameName} 不由主机发布`);
+    }
+    return [...data];
+  }
+
+  /**
+   * 排队一个主机请求帧，在下一个 MasterReq 时隙发送
+   * @param data 8 字节数据 (NAD、PCI、SID 等)，不足 8 字节时以 0xFF 填充
+   */
+  sendMasterRequest(data: number[]): void {
+    if (data.length > 8) {
+      throw new RangeError(`主机请求帧数据长度超出范围 (1-8): ${data.length}`);
+    }
+    this.masterRequests.push([...data, ...new Array<number>(8 - data.length).fill(0xFF)]);
+  }
+
+  // ============================================================================
+  // 时隙
+  // ============================================================================
+
+  private runSlot(slot: ScheduleSlot): void {
+    switch (slot.kind) {
+      case 'publish':
+        this.updated.delete(slot.frame.name);
+        this.channel.send(slot.frame.id, this.frameData.get(slot.frame.name)!);
+        break;
+      case 'header':
+        this.channel.sendHeader(slot.id);
+        break;
+      case 'sporadic': {
+        const frame = slot.frames.find((f) => this.updated.has(f.name));
+        if (frame) {
+          this.updated.delete(frame.name);
+          this.channel.send(frame.id, this.frameData.get(frame.name)!);
+        }
+        break;
+      }
+      case 'masterRequest': {
+        const data = this.masterRequests.shift();
+        if (data) {
+          this.channel.send(MASTER_REQUEST_ID, data);
+        }
+        break;
+      }
+      case 'command':
+        this.channel.send(MASTER_REQUEST_ID, slot.data);
+        break;
+    }
+  }
+
+  private resolve(entry: LdfScheduleEntry): ScheduleSlot {
+    if (entry.type === 'command') {
+      return { kind: 'command', data: this.commandData(entry) };
+    }
+    if (entry.name === 'MasterReq') {
+      return { kind: 'masterRequest' };
+    }
+    if (entry.name === 'SlaveResp') {
+      return { kind: 'header', id: SLAVE_RESPONSE_ID };
+    }
+
+    const frame = this.database.getFrame(entry.name);
+    if (frame) {
+      return frame.publisher === this.database.masterName ? { kind: 'publish', frame } : { kind: 'header', id: frame.id };
+    }
+    const eventTriggered = this.database.getEventTriggeredFrame(entry.name);
+    if (eventTriggered) {
+      return { kind: 'header', id: eventTriggered.id };
+    }
+    const sporadic = this.database.getSporadicFrame(entry.name);
+    if (sporadic) {
+      return { kind: 'sporadic', frames: sporadic.frames.map((name) => this.requirePublished(name)) };
+    }
+    throw new ZlgCanError('LinScheduler', undefined, `调度表引用了未定义的帧: ${entry.name}`);
+  }
+
+  /**
+   * 生成节点配置命令的主机请求帧数据
+   */
+  private commandData(entry: LdfScheduleEntry): number[] {
+    const args = entry.arguments;
+    switch (entry.name) {
+      case 'FreeFormat':
+        return padRequest(args);
+      case 'ConditionalChangeNAD':
+        return padRequest([args[0], 0x06, SID_CONDITIONAL_CHANGE_NAD, ...args.slice(1, 6)]);
+    }
+
+    const node = this.requireNode(entry);
+    const nad = node.configuredNad ?? node.initialNad ?? 0x7F;
+    const supplier = node.supplierId ?? 0x7FFF;
+    switch (entry.name) {
+      case 'AssignNAD': {
+        const func = node.functionId ?? 0xFFFF;
+        return [node.initialNad ?? nad, 0x06, SID_ASSIGN_NAD, supplier & 0xFF, supplier >> 8, func & 0xFF, func >> 8, nad];
+      }
+      case 'DataDump':
+        return padRequest([nad, 0x06, SID_DATA_DUMP, ...args.slice(0, 5)]);
+      case 'SaveConfiguration':
+        return padRequest([nad, 0x01, SID_SAVE_CONFIGURATION]);
+      case 'AssignFrameIdRange': {
+        const start = args[0] ?? 0;
+        const pids = args.length >= 5
+          ? args.slice(1, 5)
+          : [0, 1, 2, 3].map((i) => {
+            const configurable = node.configurableFrames[start + i];
+            return configurable ? linProtectedId(this.requireFrame(configurable.frame).id) : 0xFF;
+          });
+        return [nad, 0x06, SID_ASSIGN_FRAME_ID_RANGE, start, ...pids];
+      }
+      case 'AssignFrameId':
+      case 'UnassignFrameId': {
+        const configurable = node.configurableFrames.find((f) => f.frame === entry.frame);
+        if (!configurable || configurable.messageId === undefined) {
+          throw new ZlgCanError('LinScheduler', undefined, `节点 ${node.name} 未定义帧 ${entry.frame} 的消息 ID`);
+        }
+        const messageId = configurable.messageId;
+        const pid = entry.name === 'AssignFrameId' ? linProtectedId(this.requireFrame(configurable.frame).id) : UNASSIGNED_PID;
+        return [nad, 0x06, SID_ASSIGN_FRAME_ID, supplier & 0xFF, supplier >> 8, messageId & 0xFF, messageId >> 8, pid];
+      }
+      default:
+        throw new ZlgCanError('LinScheduler', undefined, `不支持的调度命令: ${entry.name}`);
+    }
+  }
+
+  private requireNode(entry: LdfScheduleEntry): LdfNodeAttributes {
+    const node = entry.node === undefined ? undefined : this.database.getNodeAttributes(entry.node);
+    if (!node) {
+      throw new ZlgCanError('LinScheduler', undefined, `命令 ${entry.name} 引用了未定义属性的节点: ${entry.node}`);
+    }
+    return node;
+  }
+
+  private requireFrame(name: string): LdfFrame {
+    const frame = this.database.getFrame(name);
+    if (!frame) {
+      throw new ZlgCanError('LinScheduler', undefined, `调度表引用了未定义的帧: ${name}`);
+    }
+    return frame;
+  }
+
+  private requirePublished(name: string): LdfFrame {
+    const frame = this.requireFrame(name);
+    if (!this.frameData.has(name)) {
+      throw new ZlgCanError('LinScheduler', undefined, `零星帧关联的帧 ${name} 不由主机发布`);
+    }
+    return frame;
+  }
+}
+
+/**
+ * 以 0xFF 将主机请求帧数据填充至 8 字节
+ */
+function padRequest(data: number[]): number[] {
+  return [...data, ...new Array<number>(Math.max(0, 8 - data.length)).fill(0xFF)].slice(0, 8);
+}
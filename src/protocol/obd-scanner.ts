@@ -0,0 +1,537 @@
+/**
+ * OBD-II 诊断仪 (SAE J1979 / ISO 15765-4)
+ * 基于 ISO-TP 的功能寻址和物理寻址请求，收集多个 ECU 的响应
+ */
+
+import { EventEmitter } from 'events';
+import { emitError, startPollTimer } from '../driver';
+import { CanLink, CanLinkMessage } from './can-link';
+import { IsoTpTransport, IsoTpError } from './isotp';
+import {
+  UDS_NEGATIVE_RESPONSE,
+  UDS_POSITIVE_RESPONSE_OFFSET,
+  UDS_NRC,
+  UdsNegativeResponseError,
+  UdsTimeoutError,
+} from './uds';
+import {
+  OBD_MODE,
+  OBD_INFO_TYPE,
+  OBD_FUNCTIONAL_ID,
+  OBD_FUNCTIONAL_ID_EXTENDED,
+  OBD_RESPONSE_ID_MIN,
+  OBD_RESPONSE_ID_MAX,
+  OBD_PIDS,
+  ObdPidValue,
+  isSupportedPidsPid,
+  decodeSupportedPids,
+  decodeObdPid,
+  decodeObdDtcs,
+} from './obd';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * OBD 诊断仪配置
+ */
+export interface ObdScannerConfig {
+  /** 使用 29 位 ID (功能寻址 0x18DB33F1，物理寻址 0x18DAxxF1)，默认 false */
+  extended?: boolean;
+  /** 测试设备地址 (29 位 ID 的源地址)，默认 0xF1 */
+  testerAddress?: number;
+  /** 使用 CANFD 帧发送，默认 false */
+  fd?: boolean;
+  /** CANFD 比特率切换，默认 false */
+  brs?: boolean;
+  /** 填充字节，默认 0xCC */
+  paddingByte?: number;
+  /** 响应超时时间 P2 (ms)，功能寻址在该时间内收集响应，默认 100 */
+  p2Timeout?: number;
+  /** 收到 NRC 0x78 后的 P2* 超时时间 (ms)，默认 5000 */
+  p2StarTimeout?: number;
+}
+
+/**
+ * 请求选项
+ */
+export interface ObdRequestOptions {
+  /** 物理寻址的 ECU 响应 ID (如 0x7E8、0x18DAF110)，省略时使用功能寻址 */
+  ecu?: number;
+}
+
+/**
+ * 单个 ECU 的响应
+ */
+export interface ObdResponse<T> {
+  /** ECU 响应 ID */
+  ecu: number;
+  /** 响应值 */
+  value: T;
+}
+
+/**
+ * Mode 01 PID 读取结果
+ */
+export interface ObdPidResult {
+  /** PID */
+  pid: number;
+  /** 名称 (内置 PID 表中的 PID) */
+  name?: string;
+  /** 单位 */
+  unit?: string;
+  /** 解码值，未知 PID 时省略 */
+  value?: ObdPidValue;
+  /** PID 之后的原始数据 */
+  data: Buffer;
+}
+
+/**
+ * 进行中的请求
+ */
+interface ActiveRequest {
+  sid: number;
+  ecu?: number;
+  responses: ObdResponse<Buffer>[];
+  /** 回复了 NRC 0x78 的 ECU */
+  pending: Set<number>;
+  timer: NodeJS.Timeout | null;
+  resolve: (responses: ObdResponse<Buffer>[]) => void;
+  reject: (error: Error) => void;
+}
+
+// ============================================================================
+// 诊断仪
+// ============================================================================
+
+/**
+ * OBD 诊断仪事件
+ */
+export interface ObdScannerEvents {
+  /** 收到 NRC 0x78 (响应等待中) */
+  responsePending: (ecu: number, sid: number) => void;
+  /** 轮询失败或 ECU 响应的分段接收失败 (没有监听器时忽略) */
+  error: (error: Error) => void;
+}
+
+export interface ObdScanner {
+  on<E extends keyof ObdScannerEvents>(event: E, listener: ObdScannerEvents[E]): this;
+  once<E extends keyof ObdScannerEvents>(event: E, listener: ObdScannerEvents[E]): this;
+  off<E extends keyof ObdScannerEvents>(event: E, listener: ObdScannerEvents[E]): this;
+  emit<E extends keyof ObdScannerEvents>(event: E, ...args: Parameters<ObdScannerEvents[E]>): boolean;
+}
+
+/**
+ * OBD-II 诊断仪
+ *
+ * 接收的帧由 poll() 处理 (start() 开始周期轮询)。每个响应的 ECU 使用独立的 ISO-TP 接收通道，
+ * 多帧响应的流控帧发送到该 ECU 的物理请求 ID。功能寻址请求在 P2 内收集所有 ECU 的响应，
+ * 正在接收多帧响应或回复了 NRC 0x78 的 ECU 会延长等待时间
+ */
+export class ObdScanner extends EventEmitter {
+  private readonly config: Required<ObdScannerConfig>;
+  private readonly functional: IsoTpTransport;
+  private readonly transports = new Map<number, IsoTpTransport>();
+  /** 正在接收多帧响应的 ECU */
+  private readonly receiving = new Set<number>();
+  private active: ActiveRequest | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly link: CanLink, config: ObdScannerConfig = {}) {
+    super();
+    this.config = {
+      extended: false,
+      testerAddress: 0xF1,
+      fd: false,
+      brs: false,
+      paddingByte: 0xCC,
+      p2Timeout: 100,
+      p2StarTimeout: 5000,
+      ...config,
+    };
+    const txId = this.config.extended ? (OBD_FUNCTIONAL_ID_EXTENDED & ~0xFF) | this.config.testerAddress : OBD_FUNCTIONAL_ID;
+    this.functional = this.createTransport(txId, txId);
+  }
+
+  // ============================================================================
+  // 轮询
+  // ============================================================================
+
+  /**
+   * 开始周期轮询接收帧
+   * @param interval 轮询间隔 (ms)，默认 1
+   */
+  start(interval: number = 1): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+    this.pollTimer = startPollTimer(this, interval, () => this.poll());
+  }
+
+  /**
+   * 停止轮询
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * 是否正在轮询
+   */
+  isRunning(): boolean {
+    return this.pollTimer !== null;
+  }
+
+  /**
+   * 读取并处理已接收的帧
+   * @param maxCount 最大读取数量，默认 100
+   */
+  poll(maxCount: number = 100): void {
+    for (const frame of this.link.receive(maxCount)) {
+      this.handleFrame(frame);
+    }
+  }
+
+  /**
+   * 处理一帧，非 OBD 响应 ID 的帧被忽略
+   */
+  handleFrame(frame: CanLinkMessage): void {
+    if (!!frame.isExtended !== this.config.extended || frame.isRemote || !this.isResponseId(frame.id)) {
+      return;
+    }
+    const transport = this.ecuTransport(frame.id);
+    if (frame.data.length > 0 && frame.data[0] >> 4 === 1) {
+      this.receiving.add(frame.id);
+    }
+    transport.handleFrame(frame);
+  }
+
+  /**
+   * 已响应过的 ECU (响应 ID)
+   */
+  getEcus(): number[] {
+    return [...this.transports.keys()];
+  }
+
+  // ============================================================================
+  // 请求
+  // ============================================================================
+
+  /**
+   * 发送请求并收集积极响应
+   *
+   * 功能寻址时返回 P2 内所有 ECU 的积极响应 (可能为空)，忽略消极响应；
+   * 物理寻址时返回该 ECU 的积极响应
+   * @param data 请求 PDU (包含 Mode)
+   * @returns 各 ECU 的响应 PDU (包含响应 SID)
+   * @throws {UdsNegativeResponseError} 物理寻址的 ECU 返回消极响应
+   * @throws {UdsTimeoutError} 物理寻址的 ECU 在 P2/P2* 内未响应
+   */
+  request(data: Buffer | number[], options: ObdRequestOptions = {}): Promise<ObdResponse<Buffer>[]> {
+    const pdu = Buffer.from(data);
+    const result = this.queue.then(() => this.execute(pdu, options.ecu));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * 查询支持的 PID 或 InfoType
+   *
+   * 依次请求位图 PID 0x00、0x20 ...，直到没有 ECU 支持下一个位图 PID
+   * @param mode OBD_MODE.CURRENT_DATA 或 OBD_MODE.VEHICLE_INFO，默认 Mode 01
+   * @returns 各 ECU 支持的 PID (不含位图 PID)
+   */
+  async readSupportedPids(mode: number = OBD_MODE.CURRENT_DATA, options: ObdRequestOptions = {}): Promise<ObdResponse<number[]>[]> {
+    const supported = new Map<number, number[]>();
+    for (let base = 0x00; base <= 0xE0; base += 0x20) {
+      let next = false;
+      for (const response of await this.request([mode, base], options)) {
+        if (response.value[1] !== base || response.value.length < 6) {
+          continue;
+        }
+        const pids = decodeSupportedPids(base, response.value.subarray(2, 6));
+        const list = supported.get(response.ecu) ?? [];
+        list.push(...pids.filter((pid) => !isSupportedPidsPid(pid)));
+        supported.set(response.ecu, list);
+        next = next || pids.includes(base + 0x20);
+      }
+      if (!next) {
+        break;
+      }
+    }
+    return [...supported].map(([ecu, value]) => ({ ecu, value }));
+  }
+
+  /**
+   * 读取 Mode 01 PID 并按内置 PID 表解码
+   */
+  async readPid(pid: number, options: ObdRequestOptions = {}): Promise<ObdResponse<ObdPidResult>[]> {
+    const responses = await this.request([OBD_MODE.CURRENT_DATA, pid], options);
+    const definition = OBD_PIDS[pid];
+    return responses
+      .filter((response) => response.value[1] === pid)
+      .map(({ ecu, value }) => {
+        const data = Buffer.from(value.subarray(2));
+        const result: ObdPidResult = { pid, data };
+        if (definition) {
+          result.name = definition.name;
+          result.unit = definition.unit;
+          result.value = decodeObdPid(pid, data);
+        }
+        return { ecu, value: result };
+      });
+  }
+
+  /**
+   * 读取故障码 (Mode 03/07/0A)
+   * @param mode OBD_MODE.STORED_DTC、PENDING_DTC 或 PERMANENT_DTC
+   * @returns 各 ECU 的故障码 (如 'P0123')
+   */
+  async readDtcs(mode: number, options: ObdRequestOptions = {}): Promise<ObdResponse<string[]>[]> {
+    const responses = await this.request([mode], options);
+    return responses.map(({ ecu, value }) => ({ ecu, value: decodeObdDtcs(value.subarray(1)) }));
+  }
+
+  /**
+   * 读取已确认的故障码 (Mode 03)
+   */
+  readStoredDtcs(options: ObdRequestOptions = {}): Promise<ObdResponse<string[]>[]> {
+    return this.readDtcs(OBD_MODE.STORED_DTC, options);
+  }
+
+  /**
+   * 读取待定故障码 (Mode 07)
+   */
+  readPendingDtcs(options: ObdRequestOptions = {}): Promise<ObdResponse<string[]>[]> {
+    return this.readDtcs(OBD_MODE.PENDING_DTC, options);
+  }
+
+  /**
+   * 读取永久故障码 (Mode 0A)
+   */
+  readPermanentDtcs(options: ObdRequestOptions = {}): Promise<ObdResponse<string[]>[]> {
+    return this.readDtcs(OBD_MODE.PERMANENT_DTC, options);
+  }
+
+  /**
+   * 清除故障码 (Mode 04)
+   * @returns 确认清除的 ECU
+   */
+  async clearDtcs(options: ObdRequestOptions = {}): Promise<number[]> {
+    const responses = await this.request([OBD_MODE.CLEAR_DTC], options);
+    return responses.map((response) => response.ecu);
+  }
+
+  /**
+   * 读取车辆信息 (Mode 09)
+   * @param infoType InfoType (见 OBD_INFO_TYPE)
+   * @returns 各 ECU 的数据项 (按数据项数量等分)
+   */
+  async readVehicleInfo(infoType: number, options: ObdRequestOptions = {}): Promise<ObdResponse<Buffer[]>[]> {
+    const responses = await this.request([OBD_MODE.VEHICLE_INFO, infoType], options);
+    return responses
+      .filter((response) => response.value[1] === infoType && response.value.length >= 3)
+      .map(({ ecu, value }) => {
+        const count = value[2];
+        const data = value.subarray(3);
+        const size = count > 0 ? Math.floor(data.length / count) : 0;
+        const items = Array.from({ length: size > 0 ? count : 0 }, (_, i) => Buffer.from(data.subarray(i * size, (i + 1) * size)));
+        return { ecu, value: items };
+      });
+  }
+
+  /**
+   * 读取车辆识别码 (Mode 09 InfoType 02)
+   */
+  async readVin(options: ObdRequestOptions = {}): Promise<ObdResponse<string>[]> {
+    const responses = await this.readVehicleInfo(OBD_INFO_TYPE.VIN, options);
+    return responses.map(({ ecu, value }) => ({ ecu, value: asciiText(Buffer.concat(value)) }));
+  }
+
+  /**
+   * 读取标定 ID (Mode 09 InfoType 04)
+   */
+  async readCalibrationIds(options: ObdRequestOptions = {}): Promise<ObdResponse<string[]>[]> {
+    const responses = await this.readVehicleInfo(OBD_INFO_TYPE.CALIBRATION_ID, options);
+    return responses.map(({ ecu, value }) => ({ ecu, value: value.map(asciiText) }));
+  }
+
+  /**
+   * 读取标定校验码 (Mode 09 InfoType 06)
+   */
+  async readCvns(options: ObdRequestOptions = {}): Promise<ObdResponse<number[]>[]> {
+    const responses = await this.readVehicleInfo(OBD_INFO_TYPE.CVN, options);
+    return responses.map(({ ecu, value }) => ({ ecu, value: value.filter((item) => item.length >= 4).map((item) => item.readUInt32BE(0)) }));
+  }
+
+  /**
+   * 读取 ECU 名称 (Mode 09 InfoType 0A)
+   */
+  async readEcuName(options: ObdRequestOptions = {}): Promise<ObdResponse<string>[]> {
+    const responses = await this.readVehicleInfo(OBD_INFO_TYPE.ECU_NAME, options);
+    return responses.map(({ ecu, value }) => ({ ecu, value: asciiText(Buffer.concat(value)) }));
+  }
+
+  // ============================================================================
+  // 响应收集
+  // ============================================================================
+
+  private execute(pdu: Buffer, ecu?: number): Promise<ObdResponse<Buffer>[]> {
+    let transport: IsoTpTransport;
+    try {
+      transport = ecu === undefined ? this.functional : this.physicalTransport(ecu);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    return new Promise((resolve, reject) => {
+      this.active = { sid: pdu[0], ecu, responses: [], pending: new Set(), timer: null, resolve, reject };
+      this.armTimer(this.config.p2Timeout);
+      transport.send(pdu).catch((error) => this.finish(error));
+    });
+  }
+
+  private handlePdu(ecu: number, data: Buffer): void {
+    const active = this.active;
+    if (!active || (active.ecu !== undefined && active.ecu !== ecu) || data.length === 0) {
+      return;
+    }
+    if (data[0] === UDS_NEGATIVE_RESPONSE && data.length >= 3 && data[1] === active.sid) {
+      if (data[2] === UDS_NRC.RESPONSE_PENDING) {
+        active.pending.add(ecu);
+        this.emit('responsePending', ecu, active.sid);
+        this.armTimer(this.config.p2StarTimeout);
+        return;
+      }
+      this.settle(ecu);
+      if (active.ecu !== undefined) {
+        this.finish(new UdsNegativeResponseError(active.sid, data[2]));
+      }
+      return;
+    }
+    if (data[0] !== active.sid + UDS_POSITIVE_RESPONSE_OFFSET) {
+      return;
+    }
+    this.settle(ecu);
+    active.responses.push({ ecu, value: data });
+    if (active.ecu !== undefined) {
+      this.finish();
+    }
+  }
+
+  /**
+   * NRC 0x78 ECU 给出最终响应，所有挂起的 ECU 都已响应时将等待时间恢复为 P2
+   */
+  private settle(ecu: number): void {
+    const active = this.active!;
+    if (active.pending.delete(ecu) && active.pending.size === 0) {
+      this.armTimer(this.config.p2Timeout);
+    }
+  }
+
+  private armTimer(timeout: number): void {
+    const active = this.active!;
+    if (active.timer) {
+      clearTimeout(active.timer);
+    }
+    active.timer = setTimeout(() => this.expire(), timeout);
+  }
+
+  /**
+   * 等待时间结束：仍在接收多帧响应时继续等待，P2* 内未响应的 NRC 0x78 ECU 被放弃
+   */
+  private expire(): void {
+    const active = this.active!;
+    active.timer = null;
+    active.pending.clear();
+    const receiving = active.ecu === undefined ? this.receiving.size > 0 : this.receiving.has(active.ecu);
+    if (receiving) {
+      this.armTimer(this.config.p2Timeout);
+      return;
+    }
+    if (active.ecu !== undefined) {
+      this.finish(new UdsTimeoutError(active.sid));
+    } else {
+      this.finish();
+    }
+  }
+
+  private finish(error?: Error): void {
+    const active = this.active;
+    if (!active) {
+      return;
+    }
+    if (active.timer) {
+      clearTimeout(active.timer);
+    }
+    this.active = null;
+    if (error) {
+      active.reject(error);
+    } else {
+      active.resolve(active.responses);
+    }
+  }
+
+  // ============================================================================
+  // 寻址
+  // ============================================================================
+
+  private createTransport(txId: number, rxId: number): IsoTpTransport {
+    const { extended, fd, brs, paddingByte, p2Timeout } = this.config;
+    return new IsoTpTransport(this.link, { txId, rxId, extended, fd, brs, paddingByte, nCr: Math.max(p2Timeout, 150) });
+  }
+
+  private physicalTransport(ecu: number): IsoTpTransport {
+    if (!this.isResponseId(ecu)) {
+      throw new RangeError(`无效的 OBD ECU 响应 ID: 0x${ecu.toString(16).toUpperCase()}`);
+    }
+    return this.ecuTransport(ecu);
+  }
+
+  /**
+   * ECU 的 ISO-TP 通道，首次使用时创建
+   */
+  private ecuTransport(ecu: number): IsoTpTransport {
+    let transport = this.transports.get(ecu);
+    if (!transport) {
+      const created = this.createTransport(this.requestId(ecu), ecu);
+      created.on('pdu', (data) => {
+        this.receiving.delete(ecu);
+        created.clearReceived();
+        this.handlePdu(ecu, data);
+      });
+      created.on('receiveError', (error: IsoTpError) => {
+        this.receiving.delete(ecu);
+        emitError(this, error);
+      });
+      this.transports.set(ecu, created);
+      transport = created;
+    }
+    return transport;
+  }
+
+  private isResponseId(id: number): boolean {
+    if (!this.config.extended) {
+      return id >= OBD_RESPONSE_ID_MIN && id <= OBD_RESPONSE_ID_MAX;
+    }
+    return (id & 0xFFFFFF00) === (0x18DA0000 | (this.config.testerAddress << 8));
+  }
+
+  /**
+   * ECU 响应 ID 对应的物理寻址请求 ID
+   */
+  private requestId(ecu: number): number {
+    return this.config.extended ? 0x18DA0000 | ((ecu & 0xFF) << 8) | this.config.testerAddress : ecu - 8;
+  }
+}
+
+/**
+ * 去除 ASCII 数据前后的填充字节 (0x00、0xFF 和空格)
+ */
+function asciiText(data: Buffer): string {
+  return data.toString('latin1').replace(/^[\0\xFF ]+|[\0\xFF ]+$/g, '');
+}
@@ -0,0 +1,209 @@
+/**
+ * OBD-II (SAE J1979 / ISO 15031-5) 常量和编解码
+ * 服务 (Mode)、CAN 寻址 ID、内置 PID 解码表、支持 PID 位图和故障码格式
+ */
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/**
+ * OBD 服务 (Mode)
+ */
+export const OBD_MODE = {
+  /** 当前动力系统数据 */
+  CURRENT_DATA: 0x01,
+  /** 冻结帧数据 */
+  FREEZE_FRAME: 0x02,
+  /** 已确认的排放相关故障码 */
+  STORED_DTC: 0x03,
+  /** 清除故障码 */
+  CLEAR_DTC: 0x04,
+  /** 当前或上一驾驶循环检测到的待定故障码 */
+  PENDING_DTC: 0x07,
+  /** 车辆信息 */
+  VEHICLE_INFO: 0x09,
+  /** 永久故障码 */
+  PERMANENT_DTC: 0x0A,
+} as const;
+
+/**
+ * 车辆信息类型 (Mode 09 InfoType)
+ */
+export const OBD_INFO_TYPE = {
+  /** 支持的 InfoType 01-20 */
+  SUPPORTED: 0x00,
+  /** 车辆识别码 (VIN) */
+  VIN: 0x02,
+  /** 标定 ID (CALID) */
+  CALIBRATION_ID: 0x04,
+  /** 标定校验码 (CVN) */
+  CVN: 0x06,
+  /** ECU 名称 */
+  ECU_NAME: 0x0A,
+} as const;
+
+/** 11 位功能寻址请求 ID */
+export const OBD_FUNCTIONAL_ID = 0x7DF;
+
+/** 29 位功能寻址请求 ID (目标 0x33，源地址为测试设备 0xF1) */
+export const OBD_FUNCTIONAL_ID_EXTENDED = 0x18DB33F1;
+
+/** 11 位物理寻址响应 ID 范围 (0x7E8-0x7EF，对应请求 ID 为响应 ID - 8) */
+export const OBD_RESPONSE_ID_MIN = 0x7E8;
+export const OBD_RESPONSE_ID_MAX = 0x7EF;
+
+// ============================================================================
+// PID 解码
+// ============================================================================
+
+/**
+ * PID 值：数值、文本或多个字段
+ */
+export type ObdPidValue = number | string | Record<string, number | boolean>;
+
+/**
+ * PID 定义
+ */
+export interface ObdPidDefinition {
+  /** 名称 */
+  name: string;
+  /** 数据长度 (字节) */
+  length: number;
+  /** 单位 */
+  unit: string;
+  /** 解码数据 (不含 PID) */
+  decode: (data: Buffer) => ObdPidValue;
+}
+
+const u8 = (data: Buffer): number => data[0];
+const u16 = (data: Buffer): number => data.readUInt16BE(0);
+const percent = (data: Buffer): number => (data[0] * 100) / 255;
+const temperature = (data: Buffer): number => data[0] - 40;
+const fuelTrim = (data: Buffer): number => (data[0] * 100) / 128 - 100;
+
+/**
+ * 内置 Mode 01 PID 解码表 (SAE J1979 附录 B 中的常用 PID)
+ *
+ * 可向其中添加自定义 PID
+ */
+export const OBD_PIDS: Record<number, ObdPidDefinition> = {
+  0x01: {
+    name: 'Monitor status since DTCs cleared',
+    length: 4,
+    unit: '',
+    decode: (data) => ({ milOn: (data[0] & 0x80) !== 0, dtcCount: data[0] & 0x7F, compressionIgnition: (data[1] & 0x08) !== 0 }),
+  },
+  0x03: { name: 'Fuel system status', length: 2, unit: '', decode: (data) => ({ system1: data[0], system2: data[1] }) },
+  0x04: { name: 'Calculated engine load', length: 1, unit: '%', decode: percent },
+  0x05: { name: 'Engine coolant temperature', length: 1, unit: '°C', decode: temperature },
+  0x06: { name: 'Short term fuel trim - Bank 1', length: 1, unit: '%', decode: fuelTrim },
+  0x07: { name: 'Long term fuel trim - Bank 1', length: 1, unit: '%', decode: fuelTrim },
+  0x08: { name: 'Short term fuel trim - Bank 2', length: 1, unit: '%', decode: fuelTrim },
+  0x09: { name: 'Long term fuel trim - Bank 2', length: 1, unit: '%', decode: fuelTrim },
+  0x0A: { name: 'Fuel pressure', length: 1, unit: 'kPa', decode: (data) => data[0] * 3 },
+  0x0B: { name: 'Intake manifold absolute pressure', length: 1, unit: 'kPa', decode: u8 },
+  0x0C: { name: 'Engine speed', length: 2, unit: 'rpm', decode: (data) => u16(data) / 4 },
+  0x0D: { name: 'Vehicle speed', length: 1, unit: 'km/h', decode: u8 },
+  0x0E: { name: 'Timing advance', length: 1, unit: '°', decode: (data) => data[0] / 2 - 64 },
+  0x0F: { name: 'Intake air temperature', length: 1, unit: '°C', decode: temperature },
+  0x10: { name: 'Mass air flow rate', length: 2, unit: 'g/s', decode: (data) => u16(data) / 100 },
+  0x11: { name: 'Throttle position', length: 1, unit: '%', decode: percent },
+  0x1C: { name: 'OBD standards', length: 1, unit: '', decode: u8 },
+  0x1F: { name: 'Run time since engine start', length: 2, unit: 's', decode: u16 },
+  0x21: { name: 'Distance traveled with MIL on', length: 2, unit: 'km', decode: u16 },
+  0x2F: { name: 'Fuel tank level input', length: 1, unit: '%', decode: percent },
+  0x30: { name: 'Warm-ups since codes cleared', length: 1, unit: '', decode: u8 },
+  0x31: { name: 'Distance traveled since codes cleared', length: 2, unit: 'km', decode: u16 },
+  0x33: { name: 'Absolute barometric pressure', length: 1, unit: 'kPa', decode: u8 },
+  0x42: { name: 'Control module voltage', length: 2, unit: 'V', decode: (data) => u16(data) / 1000 },
+  0x43: { name: 'Absolute load value', length: 2, unit: '%', decode: (data) => (u16(data) * 100) / 255 },
+  0x44: { name: 'Commanded air-fuel equivalence ratio', length: 2, unit: '', decode: (data) => u16(data) / 32768 },
+  0x45: { name: 'Relative throttle position', length: 1, unit: '%', decode: percent },
+  0x46: { name: 'Ambient air temperature', length: 1, unit: '°C', decode: temperature },
+  0x49: { name: 'Accelerator pedal position D', length: 1, unit: '%', decode: percent },
+  0x4D: { name: 'Time run with MIL on', length: 2, unit: 'min', decode: u16 },
+  0x4E: { name: 'Time since trouble codes cleared', length: 2, unit: 'min', decode: u16 },
+  0x51: { name: 'Fuel type', length: 1, unit: '', decode: u8 },
+  0x5C: { name: 'Engine oil temperature', length: 1, unit: '°C', decode: temperature },
+  0x5E: { name: 'Engine fuel rate', length: 2, unit: 'L/h', decode: (data) => u16(data) / 20 },
+  0xA6: { name: 'Odometer', length: 4, unit: 'km', decode: (data) => data.readUInt32BE(0) / 10 },
+};
+
+/**
+ * 是否为支持 PID 位图的 PID (0x00、0x20 ... 0xE0)
+ */
+export function isSupportedPidsPid(pid: number): boolean {
+  return (pid & 0x1F) === 0 && pid <= 0xE0;
+}
+
+/**
+ * 解码支持 PID 位图
+ * @param base 位图 PID (0x00、0x20 ... 0xE0)
+ * @param data 4 字节位图，最高位对应 base + 1
+ * @returns 支持的 PID (包含下一个位图 PID)
+ */
+export function decodeSupportedPids(base: number, data: Buffer): number[] {
+  const pids: number[] = [];
+  for (let i = 0; i < 32 && i < data.length * 8; i++) {
+    if (data[i >> 3] & (0x80 >> (i & 7))) {
+      pids.push(base + i + 1);
+    }
+  }
+  return pids;
+}
+
+/**
+ * 按内置 PID 表解码 Mode 01 数据
+ * @param data PID 之后的数据
+ * @returns 解码值，未知 PID 或数据不足时返回 undefined
+ */
+export function decodeObdPid(pid: number, data: Buffer): ObdPidValue | undefined {
+  const definition = OBD_PIDS[pid];
+  if (!definition || data.length < definition.length) {
+    return undefined;
+  }
+  return definition.decode(data.subarray(0, definition.length));
+}
+
+// ============================================================================
+// 故障码
+// ============================================================================
+
+const DTC_SYSTEMS = ['P', 'C', 'B', 'U'];
+
+/**
+ * 2 字节故障码转换为文本 (如 0x0123 → 'P0123'，0xC101 → 'U0101')
+ */
+export function formatObdDtc(code: number): string {
+  const system = DTC_SYSTEMS[(code >> 14) & 0x03];
+  return `${system}${(code >> 12) & 0x03}${(code & 0x0FFF).toString(16).toUpperCase().padStart(3, '0')}`;
+}
+
+/**
+ * 文本故障码转换为 2 字节编码
+ * @throws {RangeError} 格式错误时抛出异常
+ */
+export function parseObdDtc(text: string): number {
+  const match = /^([PCBU])([0-3])([0-9A-F]{3})$/i.exec(text);
+  if (!match) {
+    throw new RangeError(`无效的故障码: ${text}`);
+  }
+  return (DTC_SYSTEMS.indexOf(match[1].toUpperCase()) << 14) | (Number(match[2]) << 12) | parseInt(match[3], 16);
+}
+
+/**
+ * 解码 Mode 03/07/0A 的 CAN 响应数据 (故障码数量 + 故障码列表)
+ * @param data 响应 SID 之后的数据
+ */
+export function decodeObdDtcs(data: Buffer): string[] {
+  const dtcs: string[] = [];
+  const count = data[0] ?? 0;
+  for (let i = 0; i < count && 2 + i * 2 <= data.length - 1; i++) {
+    const code = data.readUInt16BE(1 + i * 2);
+    if (code !== 0) {
+      dtcs.push(formatObdDtc(code));
+    }
+  }
+  return dtcs;
+}
@@ -0,0 +1,260 @@
+/**
+ * 剩余总线仿真
+ * 按 DBC 周期发送被仿真节点的报文，优先使用设备的硬件周期发送，不足时使用主机定时器，信号值可在运行时修改
+ */
+
+import { EventEmitter } from 'events';
+import { ZlgCanError, emitError } from '../driver';
+import { CanLinkMessage, CanLink } from './can-link';
+import { CanDatabase, SignalValues } from './can-database';
+import { DbcMessage } from './dbc';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 剩余总线仿真配置
+ */
+export interface ResidualBusConfig {
+  /** 被仿真的节点 (报文的发送节点或 BO_TX_BU_ 中的节点) */
+  nodes: string[];
+  /** 初始信号值 (报文名 → 信号值)，未指定的信号使用 GenSigStartValue */
+  initialValues?: Record<string, SignalValues>;
+  /** 可使用的硬件周期发送数量，0 表示全部使用主机定时器，默认 32 */
+  autoSendSlots?: number;
+  /** 硬件周期发送的起始索引，默认 0 */
+  autoSendIndex?: number;
+  /** 未定义 GenMsgCycleTime 的报文的发送周期 (ms)，0 表示不周期发送，默认 0 */
+  defaultCycleTime?: number;
+}
+
+/** 报文发送方式 */
+export type ResidualBusSendMode = 'hardware' | 'host' | 'none';
+
+/**
+ * 被仿真的报文
+ */
+interface SimulatedMessage {
+  message: DbcMessage;
+  frame: CanLinkMessage;
+  cycleTime: number;
+  mode: ResidualBusSendMode;
+  slot?: number;
+  timer: NodeJS.Timeout | null;
+}
+
+// ============================================================================
+// 剩余总线仿真
+// ============================================================================
+
+/**
+ * 剩余总线仿真事件
+ */
+export interface ResidualBusEvents {
+  /** 主机定时器发送失败 (没有监听器时忽略) */
+  error: (error: Error, message: string) => void;
+}
+
+export interface ResidualBus {
+  on<E extends keyof ResidualBusEvents>(event: E, listener: ResidualBusEvents[E]): this;
+  once<E extends keyof ResidualBusEvents>(event: E, listener: ResidualBusEvents[E]): this;
+  off<E extends keyof ResidualBusEvents>(event: E, listener: ResidualBusEvents[E]): this;
+  emit<E extends keyof ResidualBusEvents>(event: E, ...args: Parameters<ResidualBusEvents[E]>): boolean;
+}
+
+/**
+ * 剩余总线仿真
+ *
+ * CanLink 支持 addAutoSend/applyAutoSend/clearAutoSend 时 (如 CanfdWifi100uTcp)，前 autoSendSlots 个周期报文
+ * 使用硬件周期发送，其余报文使用主机定时器。修改信号值时立即更新对应的硬件周期发送报文或下一次定时发送的数据。
+ * stop() 会调用 clearAutoSend() 清除通道上的全部硬件周期发送
+ */
+export class ResidualBus extends EventEmitter {
+  private readonly config: Required<Omit<ResidualBusConfig, 'initialValues'>>;
+  private readonly messages = new Map<string, SimulatedMessage>();
+  private running = false;
+
+  constructor(
+    private readonly link: CanLink,
+    private readonly database: CanDatabase,
+    config: ResidualBusConfig,
+  ) {
+    super();
+    this.config = {
+      autoSendSlots: 32,
+      autoSendIndex: 0,
+      defaultCycleTime: 0,
+      ...config,
+    };
+
+    for (const message of database.messages) {
+      if (!config.nodes.includes(message.sender) && !message.transmitters.some((t) => config.nodes.includes(t))) {
+        continue;
+      }
+      const frame = database.encode(message, config.initialValues?.[message.name]);
+      const cycleTime = message.cycleTime ?? this.config.defaultCycleTime;
+      this.messages.set(message.name, { message, frame, cycleTime, mode: 'none', timer: null });
+    }
+  }
+
+  /**
+   * 开始发送
+   * @throws {Error} 设置硬件周期发送失败时抛出异常，已启动的定时器和周期发送被清除
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    const hardware = !!(this.link.addAutoSend && this.link.applyAutoSend && this.link.clearAutoSend);
+    let slot = 0;
+
+    try {
+      for (const simulated of this.messages.values()) {
+        if (simulated.cycleTime <= 0) {
+          simulated.mode = 'none';
+        } else if (hardware && slot < this.config.autoSendSlots) {
+          simulated.mode = 'hardware';
+          simulated.slot = this.config.autoSendIndex + slot++;
+          this.writeSlot(simulated);
+        } else {
+          simulated.mode = 'host';
+          simulated.timer = setInterval(() => this.send(simulated), simulated.cycleTime);
+          simulated.timer.unref();
+        }
+      }
+      if (slot > 0) {
+        this.link.applyAutoSend!();
+      }
+    } catch (error) {
+      try {
+        this.release();
+      } catch {
+        // 保留原始异常
+      }
+      throw error;
+    }
+    this.running = true;
+  }
+
+  /**
+   * 停止发送
+   */
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+    this.release();
+  }
+
+  /**
+   * 清除主机定时器和硬件周期发送
+   */
+  private release(): void {
+    let hardware = false;
+    for (const simulated of this.messages.values()) {
+      if (simulated.timer) {
+        clearInterval(simulated.timer);
+        simulated.timer = null;
+      }
+      hardware ||= simulated.mode === 'hardware';
+      simulated.mode = 'none';
+      simulated.slot = undefined;
+    }
+    if (hardware) {
+      this.link.clearAutoSend!();
+    }
+  }
+
+  /**
+   * 是否正在发送
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * 被仿真的报文名
+   */
+  getMessageNames(): string[] {
+    return [...this.messages.keys()];
+  }
+
+  /**
+   * 报文的发送方式 (未开始或无发送周期时为 'none')
+   */
+  getSendMode(messageName: string): ResidualBusSendMode {
+    return this.require(messageName).mode;
+  }
+
+  /**
+   * 修改信号值，运行中立即更新发送的数据 (硬件周期发送重新设置后需应用才生效)
+   * @throws {ZlgCanError} 报文未被仿真、信号未定义或超出范围时抛出异常
+   */
+  setSignals(messageName: string, values: SignalValues): void {
+    const simulated = this.require(messageName);
+    simulated.frame = this.database.encode(simulated.message, values, { data: simulated.frame.data });
+    if (simulated.mode === 'hardware') {
+      this.writeSlot(simulated);
+      this.link.applyAutoSend!();
+    }
+  }
+
+  /**
+   * 修改单个信号值
+   */
+  setSignal(messageName: string, signalName: string, value: number | string): void {
+    this.setSignals(messageName, { [signalName]: value });
+  }
+
+  /**
+   * 当前信号物理值
+   */
+  getSignals(messageName: string): Record<string, number> {
+    const simulated = this.require(messageName);
+    return this.database.decodeData(simulated.message, simulated.frame.data).values;
+  }
+
+  /**
+   * 当前发送的报文
+   */
+  getFrame(messageName: string): CanLinkMessage {
+    return this.require(messageName).frame;
+  }
+
+  /**
+   * 立即发送一次 (用于事件型报文)，可同时修改信号值
+   */
+  sendNow(messageName: string, values?: SignalValues): void {
+    if (values) {
+      this.setSignals(messageName, values);
+    }
+    this.link.transmit(this.require(messageName).frame);
+  }
+
+  private send(simulated: SimulatedMessage): void {
+    try {
+      this.link.transmit(simulated.frame);
+    } catch (error) {
+      emitError(this, error, simulated.message.name);
+    }
+  }
+
+  private writeSlot(simulated: SimulatedMessage): void {
+    this.link.addAutoSend!({
+      index: simulated.slot!,
+      enable: true,
+      interval: simulated.cycleTime,
+      message: simulated.frame,
+    });
+  }
+
+  private require(messageName: string): SimulatedMessage {
+    const simulated = this.messages.get(messageName);
+    if (!simulated) {
+      throw new ZlgCanError('ResidualBus', undefined, `报文 ${messageName} 不属于被仿真的节点`);
+    }
+    return simulated;
+  }
+}
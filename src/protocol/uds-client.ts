@@ -0,0 +1,727 @@
+/**
+ * UDS 诊断客户端
+ * 基于 ISO-TP 传输层或设备端 UDS 请求，封装常用诊断服务并将消极响应转换为异常
+ */
+
+import { EventEmitter } from 'events';
+import { CanfdWifi100uTcp, UdsRequestOptions } from '../device';
+import { ZlgCanError, UdsRequestError, ZCAN_UDS_ERROR, emitError } from '../driver';
+import {
+  UDS_SID,
+  UDS_NRC,
+  UDS_NEGATIVE_RESPONSE,
+  UDS_POSITIVE_RESPONSE_OFFSET,
+  UDS_SUPPRESS_POSITIVE_RESPONSE,
+  isPositiveResponseSuppressed,
+  UDS_DTC_REPORT,
+  UDS_ROUTINE_CONTROL,
+  UDS_COMMUNICATION_TYPE,
+  UDS_DTC_SETTING,
+  UDS_ALL_DTC_GROUPS,
+  DidCodec,
+  UdsNegativeResponseError,
+  UdsTimeoutError,
+} from './uds';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * UDS 请求/响应传输接口，IsoTpTransport 可直接作为 UdsTransport 使用
+ */
+export interface UdsTransport {
+  /** 发送请求 PDU */
+  send(data: Buffer): Promise<void>;
+  /** 读取下一个响应 PDU，超时返回 null */
+  receive(timeout: number): Promise<Buffer | null>;
+  /** 丢弃未读取的 PDU，发送请求前调用 */
+  clearReceived?(): void;
+}
+
+/**
+ * 安全访问密钥计算函数
+ * @param seed ECU 返回的种子
+ * @param level 请求种子的安全等级 (奇数)
+ */
+export type SecurityKeyFunction = (seed: Buffer, level: number) => Uint8Array | number[] | Promise<Uint8Array | number[]>;
+
+/**
+ * UDS 客户端配置
+ */
+export interface UdsClientConfig {
+  /** P2 响应超时时间 (ms)，默认 1000 */
+  p2Timeout?: number;
+  /** 收到 NRC 0x78 后的 P2* 超时时间 (ms)，默认 5000 */
+  p2StarTimeout?: number;
+  /** 安全访问密钥计算函数 */
+  securityKey?: SecurityKeyFunction;
+}
+
+/**
+ * 请求选项
+ */
+export interface UdsServiceOptions {
+  /** 抑制积极响应，默认 false */
+  suppressPositiveResponse?: boolean;
+}
+
+/**
+ * 请求下载选项
+ */
+export interface DownloadOptions {
+  /** 地址字节数，默认 4 */
+  addressLength?: number;
+  /** 长度字节数，默认 4 */
+  sizeLength?: number;
+  /** 数据格式标识 (高 4 位压缩方式，低 4 位加密方式)，默认 0x00 */
+  dataFormat?: number;
+}
+
+/**
+ * 诊断会话控制结果
+ */
+export interface SessionControlResult {
+  /** 会话类型 */
+  session: number;
+  /** ECU 的 P2 最大值 (ms) */
+  p2Server?: number;
+  /** ECU 的 P2* 最大值 (ms) */
+  p2StarServer?: number;
+}
+
+/**
+ * 例程控制结果
+ */
+export interface RoutineControlResult {
+  /** 例程 ID */
+  routineId: number;
+  /** 例程信息 (routineInfo)，无状态记录时为空 */
+  routineInfo?: number;
+  /** 例程状态记录 (不包含 routineInfo) */
+  status: Buffer;
+}
+
+/**
+ * 故障码和状态
+ */
+export interface DtcRecord {
+  /** 3 字节故障码 */
+  dtc: number;
+  /** 状态字节 */
+  status: number;
+}
+
+/**
+ * 按状态掩码读取的故障码
+ */
+export interface DtcList {
+  /** ECU 支持的状态位 */
+  availabilityMask: number;
+  dtcs: DtcRecord[];
+}
+
+/**
+ * 按状态掩码统计的故障码数量
+ */
+export interface DtcCount {
+  /** ECU 支持的状态位 */
+  availabilityMask: number;
+  /** 故障码格式 */
+  format: number;
+  count: number;
+}
+
+/**
+ * 故障码快照或扩展数据
+ */
+export interface DtcDataRecords {
+  dtc: number;
+  status: number;
+  /** 记录号之后的原始数据 (按记录号排列，格式由 ECU 定义) */
+  records: Buffer;
+}
+
+/**
+ * UDS 客户端事件
+ */
+export interface UdsClientEvents {
+  /** 收到 NRC 0x78，等待时间延长至 P2* */
+  responsePending: (sid: number) => void;
+  /** 保持会话请求失败 (没有监听器时忽略) */
+  error: (error: Error) => void;
+}
+
+export interface UdsClient {
+  on<E extends keyof UdsClientEvents>(event: E, listener: UdsClientEvents[E]): this;
+  once<E extends keyof UdsClientEvents>(event: E, listener: UdsClientEvents[E]): this;
+  off<E extends keyof UdsClientEvents>(event: E, listener: UdsClientEvents[E]): this;
+  emit<E extends keyof UdsClientEvents>(event: E, ...args: Parameters<UdsClientEvents[E]>): boolean;
+}
+
+// ============================================================================
+// 设备端传输
+// ============================================================================
+
+/**
+ * 设备端 UDS 传输
+ *
+ * 每个请求 PDU 通过 CanfdWifi100uTcp.udsRequest() 由设备执行，分帧和 NRC 0x78 由设备处理，
+ * receive() 的超时参数被忽略 (使用 options 中的 P2/P2*)。
+ * 请求设置了抑制积极响应位时由设备抑制响应，send() 等待设备发送完成，不产生可读取的响应
+ */
+export class DeviceUdsTransport implements UdsTransport {
+  private readonly pending: Promise<Buffer | null>[] = [];
+
+  /**
+   * @param device 已打开的设备
+   * @param options 请求地址、帧类型和超时等选项
+   */
+  constructor(
+    private readonly device: CanfdWifi100uTcp,
+    private readonly options: Omit<UdsRequestOptions, 'sid' | 'data' | 'requestId'>,
+  ) {}
+
+  async send(data: Buffer): Promise<void> {
+    const suppressPositiveResponse = isPositiveResponseSuppressed(data);
+    const request = this.device.udsRequest({ ...this.options, sid: data[0], data: data.subarray(1), suppressPositiveResponse });
+    if (suppressPositiveResponse) {
+      await request;
+      return;
+    }
+    const result = request.then(
+      (response): Buffer | null => {
+        switch (response.type) {
+          case 'positive':
+            return Buffer.concat([Buffer.from([response.sid]), response.data]);
+          case 'negative':
+            return Buffer.from([UDS_NEGATIVE_RESPONSE, response.sid, response.nrc]);
+          default:
+            return null;
+        }
+      },
+      (error) => {
+        if (error instanceof UdsRequestError && error.status === ZCAN_UDS_ERROR.TIMEOUT) {
+          return null;
+        }
+        throw error;
+      },
+    );
+    // 未读取的请求失败不应成为未处理的拒绝
+    result.catch(() => undefined);
+    this.pending.push(result);
+  }
+
+  receive(timeout: number): Promise<Buffer | null> {
+    const next = this.pending.shift();
+    if (next) {
+      return next;
+    }
+    return new Promise((resolve) => setTimeout(() => resolve(null), timeout));
+  }
+}
+
+// ============================================================================
+// 客户端
+// ============================================================================
+
+function toBytes(value: number, size: number): number[] {
+  const bytes: number[] = [];
+  for (let i = size - 1; i >= 0; i--) {
+    bytes.push(Math.floor(value / 2 ** (8 * i)) & 0xFF);
+  }
+  return bytes;
+}
+
+/**
+ * UDS 诊断客户端
+ *
+ * 请求按顺序执行；消极响应抛出 UdsNegativeResponseError，NRC 0x78 将等待时间延长至 P2*，
+ * 超时抛出 UdsTimeoutError
+ */
+export class UdsClient extends EventEmitter {
+  private readonly config: Required<Omit<UdsClientConfig, 'securityKey'>>;
+  private securityKey: SecurityKeyFunction | null;
+  private readonly didCodecs = new Map<number, DidCodec<unknown>>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private busy = false;
+  private testerPresentTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param transport 请求/响应传输 (如已启动的 IsoTpTransport 或 DeviceUdsTransport)
+   * @param config 客户端配置
+   */
+  constructor(private readonly transport: UdsTransport, config: UdsClientConfig = {}) {
+    super();
+    this.config = {
+      p2Timeout: config.p2Timeout ?? 1000,
+      p2StarTimeout: config.p2StarTimeout ?? 5000,
+    };
+    this.securityKey = config.securityKey || null;
+  }
+
+  // ============================================================================
+  // 通用请求
+  // ============================================================================
+
+  /**
+   * 发送请求并等待积极响应
+   * @param data 请求 PDU (包含 SID)
+   * @param suppressPositiveResponse 请求已设置抑制积极响应位，发送后立即返回 null，不等待响应
+   * @returns 积极响应 PDU (包含响应 SID)
+   * @throws {UdsNegativeResponseError} ECU 返回消极响应
+   * @throws {UdsTimeoutError} P2/P2* 内未收到响应
+   */
+  request(data: Buffer | number[], suppressPositiveResponse: boolean = false): Promise<Buffer | null> {
+    const pdu = Buffer.from(data);
+    const result = this.queue.then(() => this.execute(pdu, suppressPositiveResponse));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async execute(pdu: Buffer, suppressPositiveResponse: boolean): Promise<Buffer | null> {
+    const sid = pdu[0];
+    this.busy = true;
+    try {
+      this.transport.clearReceived?.();
+      await this.transport.send(pdu);
+      if (suppressPositiveResponse) {
+        // 不在请求队列中等待 P2，之后到达的响应在下一个请求发送前被丢弃
+        return null;
+      }
+      let timeout = this.config.p2Timeout;
+      for (;;) {
+        const response = await this.transport.receive(timeout);
+        if (!response) {
+          throw new UdsTimeoutError(sid);
+        }
+
+        if (response[0] === UDS_NEGATIVE_RESPONSE && response.length >= 3 && response[1] === sid) {
+          if (response[2] === UDS_NRC.RESPONSE_PENDING) {
+            timeout = this.config.p2StarTimeout;
+            this.emit('responsePending', sid);
+            continue;
+          }
+          throw new UdsNegativeResponseError(sid, response[2]);
+        }
+        if (response[0] === sid + UDS_POSITIVE_RESPONSE_OFFSET) {
+          return response;
+        }
+        // 忽略与请求无关的响应
+      }
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /**
+   * 发送带子功能的请求
+   */
+  private async requestSubFunction(
+    sid: number,
+    subFunction: number,
+    parameters: number[] | Buffer,
+    options: UdsServiceOptions,
+  ): Promise<Buffer | null> {
+    const suppress = options.suppressPositiveResponse === true;
+    const request = [sid, subFunction | (suppress ? UDS_SUPPRESS_POSITIVE_RESPONSE : 0), ...parameters];
+    return this.request(request, suppress);
+  }
+
+  // ============================================================================
+  // 会话管理
+  // ============================================================================
+
+  /**
+   * 诊断会话控制 (0x10)
+   * @param session 会话类型 (见 UDS_SESSION)
+   */
+  async diagnosticSessionControl(session: number, options: UdsServiceOptions = {}): Promise<SessionControlResult> {
+    const response = await this.requestSubFunction(UDS_SID.DIAGNOSTIC_SESSION_CONTROL, session, [], options);
+    if (!response) {
+      return { session };
+    }
+    const result: SessionControlResult = { session: response[1] };
+    if (response.length >= 6) {
+      result.p2Server = response.readUInt16BE(2);
+      result.p2StarServer = response.readUInt16BE(4) * 10;
+    }
+    return result;
+  }
+
+  /**
+   * ECU 复位 (0x11)
+   * @param resetType 复位类型 (见 UDS_RESET)
+   * @returns 快速断电时间 (s)，ECU 未返回时为空
+   */
+  async ecuReset(resetType: number, options: UdsServiceOptions = {}): Promise<{ powerDownTime?: number }> {
+    const response = await this.requestSubFunction(UDS_SID.ECU_RESET, resetType, [], options);
+    return response && response.length >= 3 ? { powerDownTime: response[2] } : {};
+  }
+
+  /**
+   * 发送一次 TesterPresent (0x3E)，默认抑制积极响应
+   */
+  async testerPresent(options: UdsServiceOptions = { suppressPositiveResponse: true }): Promise<void> {
+    await this.requestSubFunction(UDS_SID.TESTER_PRESENT, 0x00, [], options);
+  }
+
+  /**
+   * 开始周期发送 TesterPresent 保持非默认会话，有请求执行时跳过本周期
+   * @param interval 发送间隔 (ms)，默认 2000
+   */
+  startTesterPresent(interval: number = 2000): void {
+    this.stopTesterPresent();
+    this.testerPresentTimer = setInterval(() => {
+      if (this.busy) {
+        return;
+      }
+      this.testerPresent().catch((error) => emitError(this, error));
+    }, interval);
+    this.testerPresentTimer.unref();
+  }
+
+  /**
+   * 停止周期发送 TesterPresent
+   */
+  stopTesterPresent(): void {
+    if (this.testerPresentTimer) {
+      clearInterval(this.testerPresentTimer);
+      this.testerPresentTimer = null;
+    }
+  }
+
+  /**
+   * 通信控制 (0x28)
+   * @param controlType 控制类型 (见 UDS_COMMUNICATION_CONTROL)
+   * @param communicationType 通信类型，默认 UDS_COMMUNICATION_TYPE.NORMAL
+   */
+  async communicationControl(
+    controlType: number,
+    communicationType: number = UDS_COMMUNICATION_TYPE.NORMAL,
+    options: UdsServiceOptions = {},
+  ): Promise<void> {
+    await this.requestSubFunction(UDS_SID.COMMUNICATION_CONTROL, controlType, [communicationType], options);
+  }
+
+  /**
+   * 控制故障码记录 (0x85)
+   * @param settingType 设置类型 (见 UDS_DTC_SETTING)
+   */
+  async controlDtcSetting(settingType: number, options: UdsServiceOptions = {}): Promise<void> {
+    await this.requestSubFunction(UDS_SID.CONTROL_DTC_SETTING, settingType, [], options);
+  }
+
+  // ============================================================================
+  // 数据读写
+  // ============================================================================
+
+  /**
+   * 注册 DID 编解码器，readDataByIdentifier/writeDataByIdentifier 省略编解码器时使用
+   */
+  registerDid<T>(did: number, codec: DidCodec<T>): void {
+    this.didCodecs.set(did, codec as DidCodec<unknown>);
+  }
+
+  /**
+   * 按标识符读取数据 (0x22)
+   * @param did 数据标识符
+   * @param codec 编解码器，省略时使用已注册的编解码器，均未设置时返回原始数据
+   */
+  async readDataByIdentifier<T = Buffer>(did: number, codec?: DidCodec<T>): Promise<T> {
+    const [value] = await this.readDataByIdentifiers([did], codec ? [codec] : undefined);
+    return value as T;
+  }
+
+  /**
+   * 一次读取多个数据标识符 (0x22)，除最后一个外均需编解码器提供固定长度
+   * @param dids 数据标识符
+   * @param codecs 与 dids 对应的编解码器，省略时使用已注册的编解码器
+   */
+  async readDataByIdentifiers(dids: number[], codecs?: (DidCodec<unknown> | undefined)[]): Promise<unknown[]> {
+    const request = [UDS_SID.READ_DATA_BY_IDENTIFIER, ...dids.flatMap((did) => toBytes(did, 2))];
+    const response = (await this.request(request))!;
+
+    const values: unknown[] = [];
+    let offset = 1;
+    dids.forEach((did, i) => {
+      const codec = codecs?.[i] || this.didCodecs.get(did);
+      if (offset + 2 > response.length || response.readUInt16BE(offset) !== did) {
+        throw new ZlgCanError('readDataByIdentifier', undefined, `响应中缺少 DID 0x${did.toString(16)}`);
+      }
+      offset += 2;
+      const isLast = i === dids.length - 1;
+      const length = isLast ? response.length - offset : codec?.length;
+      if (length === undefined) {
+        throw new ZlgCanError('readDataByIdentifier', undefined, `DID 0x${did.toString(16)} 未设置固定长度的编解码器`);
+      }
+      const data = response.subarray(offset, offset + length);
+      values.push(codec ? codec.decode(data) : Buffer.from(data));
+      offset += length;
+    });
+    return values;
+  }
+
+  /**
+   * 按标识符写入数据 (0x2E)
+   * @param did 数据标识符
+   * @param value 数据，未提供编解码器时须为 Buffer 或字节数组
+   * @param codec 编解码器，省略时使用已注册的编解码器
+   */
+  async writeDataByIdentifier(did: number, value: Buffer | number[]): Promise<void>;
+  async writeDataByIdentifier<T>(did: number, value: T, codec?: DidCodec<T>): Promise<void>;
+  async writeDataByIdentifier(did: number, value: unknown, codec?: DidCodec<unknown>): Promise<void> {
+    const resolved = codec || this.didCodecs.get(did);
+    let data: Buffer;
+    if (resolved) {
+      data = resolved.encode(value);
+    } else if (Buffer.isBuffer(value) || Array.isArray(value)) {
+      data = Buffer.from(value);
+    } else {
+      throw new ZlgCanError('writeDataByIdentifier', undefined, `DID 0x${did.toString(16)} 未设置编解码器，数据须为 Buffer 或字节数组`);
+    }
+    await this.request([UDS_SID.WRITE_DATA_BY_IDENTIFIER, ...toBytes(did, 2), ...data]);
+  }
+
+  // ============================================================================
+  // 安全访问
+  // ============================================================================
+
+  /**
+   * 设置安全访问密钥计算函数
+   */
+  setSecurityKeyFunction(fn: SecurityKeyFunction | null): void {
+    this.securityKey = fn;
+  }
+
+  /**
+   * 请求种子 (0x27 奇数子功能)
+   * @param level 安全等级 (奇数)
+   * @param parameters securityAccessDataRecord
+   */
+  async requestSeed(level: number, parameters: number[] | Buffer = []): Promise<Buffer> {
+    const response = (await this.requestSubFunction(UDS_SID.SECURITY_ACCESS, level, parameters, {}))!;
+    return Buffer.from(response.subarray(2));
+  }
+
+  /**
+   * 发送密钥 (0x27 偶数子功能)
+   * @param level 请求种子的安全等级 (奇数)
+   * @param key 密钥
+   */
+  async sendKey(level: number, key: number[] | Buffer): Promise<void> {
+    await this.requestSubFunction(UDS_SID.SECURITY_ACCESS, level + 1, key, {});
+  }
+
+  /**
+   * 安全访问解锁：请求种子、计算密钥并发送，种子全为 0 时表示已解锁
+   * @param level 安全等级 (奇数)
+   * @param keyFunction 密钥计算函数，省略时使用配置的函数
+   * @returns 是否执行了密钥校验 (已解锁时为 false)
+   */
+  async securityAccess(level: number, keyFunction?: SecurityKeyFunction): Promise<boolean> {
+    const fn = keyFunction || this.securityKey;
+    if (!fn) {
+      throw new ZlgCanError('securityAccess', undefined, '未设置密钥计算函数');
+    }
+    const seed = await this.requestSeed(level);
+    if (seed.every((b) => b === 0)) {
+      return false;
+    }
+    await this.sendKey(level, Buffer.from(await fn(seed, level)));
+    return true;
+  }
+
+  // ============================================================================
+  // 例程控制
+  // ============================================================================
+
+  /**
+   * 例程控制 (0x31)
+   * @param controlType 控制类型 (见 UDS_ROUTINE_CONTROL)
+   * @param routineId 例程 ID
+   * @param parameters 例程控制参数
+   */
+  async routineControl(
+    controlType: number,
+    routineId: number,
+    parameters: number[] | Buffer = [],
+    options: UdsServiceOptions = {},
+  ): Promise<RoutineControlResult> {
+    const response = await this.requestSubFunction(
+      UDS_SID.ROUTINE_CONTROL,
+      controlType,
+      [...toBytes(routineId, 2), ...parameters],
+      options,
+    );
+    if (!response || response.length < 4) {
+      return { routineId, status: Buffer.alloc(0) };
+    }
+    return {
+      routineId: response.readUInt16BE(2),
+      routineInfo: response.length > 4 ? response[4] : undefined,
+      status: Buffer.from(response.subarray(5)),
+    };
+  }
+
+  /**
+   * 启动例程
+   */
+  startRoutine(routineId: number, parameters: number[] | Buffer = []): Promise<RoutineControlResult> {
+    return this.routineControl(UDS_ROUTINE_CONTROL.START, routineId, parameters);
+  }
+
+  /**
+   * 停止例程
+   */
+  stopRoutine(routineId: number, parameters: number[] | Buffer = []): Promise<RoutineControlResult> {
+    return this.routineControl(UDS_ROUTINE_CONTROL.STOP, routineId, parameters);
+  }
+
+  /**
+   * 请求例程结果
+   */
+  requestRoutineResults(routineId: number): Promise<RoutineControlResult> {
+    return this.routineControl(UDS_ROUTINE_CONTROL.REQUEST_RESULTS, routineId);
+  }
+
+  // ============================================================================
+  // 故障码
+  // ============================================================================
+
+  /**
+   * 读取故障码信息 (0x19)
+   * @param subFunction 子功能 (见 UDS_DTC_REPORT)
+   * @param parameters 子功能参数
+   * @returns 子功能之后的响应数据
+   */
+  async readDtcInformation(subFunction: number, parameters: number[] | Buffer = []): Promise<Buffer> {
+    const response = (await this.requestSubFunction(UDS_SID.READ_DTC_INFORMATION, subFunction, parameters, {}))!;
+    return Buffer.from(response.subarray(2));
+  }
+
+  /**
+   * 按状态掩码统计故障码数量 (0x19 0x01)
+   */
+  async readDtcCount(statusMask: number): Promise<DtcCount> {
+    const data = await this.readDtcInformation(UDS_DTC_REPORT.NUMBER_OF_DTC_BY_STATUS_MASK, [statusMask]);
+    if (data.length < 4) {
+      throw new ZlgCanError('readDtcCount', undefined, '响应长度错误');
+    }
+    return { availabilityMask: data[0], format: data[1], count: data.readUInt16BE(2) };
+  }
+
+  /**
+   * 按状态掩码读取故障码 (0x19 0x02)
+   */
+  async readDtcsByStatusMask(statusMask: number): Promise<DtcList> {
+    return this.parseDtcList(await this.readDtcInformation(UDS_DTC_REPORT.DTC_BY_STATUS_MASK, [statusMask]));
+  }
+
+  /**
+   * 读取 ECU 支持的所有故障码 (0x19 0x0A)
+   */
+  async readSupportedDtcs(): Promise<DtcList> {
+    return this.parseDtcList(await this.readDtcInformation(UDS_DTC_REPORT.SUPPORTED_DTC));
+  }
+
+  /**
+   * 读取故障码快照 (0x19 0x04)
+   * @param dtc 故障码
+   * @param recordNumber 快照记录号，默认 0xFF (全部)
+   */
+  async readDtcSnapshot(dtc: number, recordNumber: number = 0xFF): Promise<DtcDataRecords> {
+    const data = await this.readDtcInformation(UDS_DTC_REPORT.DTC_SNAPSHOT_RECORD_BY_DTC_NUMBER, [...toBytes(dtc, 3), recordNumber]);
+    if (data.length < 4) {
+      throw new ZlgCanError('readDtcSnapshot', undefined, '响应长度错误');
+    }
+    return { dtc: data.readUIntBE(0, 3), status: data[3], records: Buffer.from(data.subarray(4)) };
+  }
+
+  /**
+   * 读取故障码扩展数据 (0x19 0x06)
+   * @param dtc 故障码
+   * @param recordNumber 扩展数据记录号，默认 0xFF (全部)
+   */
+  async readDtcExtendedData(dtc: number, recordNumber: number = 0xFF): Promise<DtcDataRecords> {
+    const data = await this.readDtcInformation(UDS_DTC_REPORT.DTC_EXT_DATA_RECORD_BY_DTC_NUMBER, [...toBytes(dtc, 3), recordNumber]);
+    if (data.length < 4) {
+      throw new ZlgCanError('readDtcExtendedData', undefined, '响应长度错误');
+    }
+    return { dtc: data.readUIntBE(0, 3), status: data[3], records: Buffer.from(data.subarray(4)) };
+  }
+
+  private parseDtcList(data: Buffer): DtcList {
+    const dtcs: DtcRecord[] = [];
+    for (let offset = 1; offset + 4 <= data.length; offset += 4) {
+      dtcs.push({ dtc: data.readUIntBE(offset, 3), status: data[offset + 3] });
+    }
+    return { availabilityMask: data[0], dtcs };
+  }
+
+  /**
+   * 清除诊断信息 (0x14)
+   * @param group 故障码组，默认 UDS_ALL_DTC_GROUPS
+   */
+  async clearDiagnosticInformation(group: number = UDS_ALL_DTC_GROUPS): Promise<void> {
+    await this.request([UDS_SID.CLEAR_DIAGNOSTIC_INFORMATION, ...toBytes(group, 3)]);
+  }
+
+  // ============================================================================
+  // 上传下载
+  // ============================================================================
+
+  /**
+   * 请求下载 (0x34)
+   * @param address 存储地址
+   * @param size 数据长度
+   * @returns ECU 可接收的单个 TransferData 请求的最大长度 (maxNumberOfBlockLength，包含 SID 和块序号)
+   */
+  async requestDownload(address: number, size: number, options: DownloadOptions = {}): Promise<number> {
+    const addressLength = options.addressLength ?? 4;
+    const sizeLength = options.sizeLength ?? 4;
+    const response = (await this.request([
+      UDS_SID.REQUEST_DOWNLOAD,
+      options.dataFormat ?? 0x00,
+      (sizeLength << 4) | addressLength,
+      ...toBytes(address, addressLength),
+      ...toBytes(size, sizeLength),
+    ]))!;
+
+    const length = response.length >= 2 ? response[1] >> 4 : 0;
+    if (length === 0 || response.length < 2 + length) {
+      throw new ZlgCanError('requestDownload', undefined, '响应长度错误');
+    }
+    if (length > 6) {
+      throw new ZlgCanError('requestDownload', undefined, `不支持的 maxNumberOfBlockLength 长度: ${length} 字节`);
+    }
+    return response.readUIntBE(2, length);
+  }
+
+  /**
+   * 传输数据 (0x36)
+   * @param blockSequenceCounter 块序号 (0x00-0xFF)
+   * @param data 数据块
+   * @returns 块序号之后的响应数据
+   */
+  async transferData(blockSequenceCounter: number, data: Buffer | number[]): Promise<Buffer> {
+    const response = (await this.request(Buffer.concat([
+      Buffer.from([UDS_SID.TRANSFER_DATA, blockSequenceCounter & 0xFF]),
+      Buffer.from(data),
+    ])))!;
+    if (response[1] !== (blockSequenceCounter & 0xFF)) {
+      throw new ZlgCanError('transferData', undefined, `块序号不匹配: ${response[1]}`);
+    }
+    return Buffer.from(response.subarray(2));
+  }
+
+  /**
+   * 请求退出传输 (0x37)
+   * @param parameters 传输参数
+   * @returns 响应参数
+   */
+  async requestTransferExit(parameters: number[] | Buffer = []): Promise<Buffer> {
+    const response = (await this.request([UDS_SID.REQUEST_TRANSFER_EXIT, ...parameters]))!;
+    return Buffer.from(response.subarray(1));
+  }
+}
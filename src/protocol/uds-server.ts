@@ -0,0 +1,697 @@
+/**
+ * UDS 诊断服务端 (ECU 仿真)
+ * 在 ISO-TP 传输层上应答诊断请求，维护会话、安全等级、DID 和故障码，用于离线开发和测试
+ */
+
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { emitError } from '../driver';
+import {
+  UDS_SID,
+  UDS_NRC,
+  UDS_NEGATIVE_RESPONSE,
+  UDS_POSITIVE_RESPONSE_OFFSET,
+  UDS_SUPPRESS_POSITIVE_RESPONSE,
+  UDS_SUB_FUNCTION_SERVICES,
+  isPositiveResponseSuppressed,
+  UDS_SESSION,
+  UDS_DTC_SETTING,
+  UDS_DTC_REPORT,
+  UDS_ALL_DTC_GROUPS,
+  UdsNegativeResponseError,
+} from './uds';
+import { SecurityKeyFunction } from './uds-client';
+import { IsoTpTransport } from './isotp';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 服务端配置
+ */
+export interface UdsServerConfig {
+  /** 支持的诊断会话，默认默认会话、编程会话和扩展会话 */
+  sessions?: number[];
+  /** 会话控制响应中的 P2server (ms)，默认 50 */
+  p2Server?: number;
+  /** 会话控制响应中的 P2*server (ms)，默认 5000 */
+  p2StarServer?: number;
+  /** 非默认会话无请求时返回默认会话的时间 S3server (ms)，默认 5000 */
+  s3Server?: number;
+  /** 计算期望密钥，未设置时不支持安全访问 */
+  securityKey?: SecurityKeyFunction;
+  /** 生成种子，默认 4 字节随机数 */
+  seed?: (level: number) => Buffer | number[];
+  /** 允许连续输错密钥的次数，默认 3 */
+  maxSecurityAttempts?: number;
+  /** 输错次数超限后拒绝请求种子的时间 (ms)，默认 10000 */
+  securityDelay?: number;
+  /** 故障码状态可用掩码，默认 0xFF */
+  dtcAvailabilityMask?: number;
+  /** 注入延时响应时发送 NRC 0x78 的间隔 (ms)，默认 2000 */
+  pendingInterval?: number;
+}
+
+/**
+ * DID 定义
+ */
+export interface DidDefinition {
+  /** 数据 */
+  value: Buffer | number[];
+  /** 是否允许写入，默认 false */
+  writable?: boolean;
+  /** 允许访问的会话，默认所有会话 */
+  sessions?: number[];
+  /** 需要的安全等级 (请求种子的奇数等级)，默认不需要 */
+  securityLevel?: number;
+}
+
+/**
+ * 服务处理函数
+ *
+ * 返回积极响应 PDU (包含响应 SID)，返回 null 表示不响应，抛出 UdsNegativeResponseError 时返回消极响应
+ */
+export type UdsServiceHandler = (request: Buffer) => Buffer | number[] | null | Promise<Buffer | number[] | null>;
+
+/**
+ * 例程处理函数
+ *
+ * 返回例程 ID 之后的响应数据 (routineInfo 和状态记录)，抛出 UdsNegativeResponseError 时返回消极响应
+ */
+export type RoutineHandler = (controlType: number, parameters: Buffer) => Buffer | number[] | Promise<Buffer | number[]>;
+
+/**
+ * 注入的故障
+ */
+export interface UdsFault {
+  /** 返回的 NRC */
+  nrc?: number;
+  /** 正常处理前持续发送 NRC 0x78 的时间 (ms) */
+  responsePending?: number;
+  /** 不响应 */
+  noResponse?: boolean;
+  /** 生效次数，默认一直生效 */
+  count?: number;
+}
+
+/**
+ * 服务端事件
+ */
+export interface UdsServerEvents {
+  /** 收到请求 */
+  request: (request: Buffer) => void;
+  /** 发送响应 */
+  response: (response: Buffer) => void;
+  /** 诊断会话切换 */
+  sessionChange: (session: number) => void;
+  /** S3server 超时返回默认会话 */
+  sessionTimeout: () => void;
+  /** 安全访问解锁 */
+  securityUnlocked: (level: number) => void;
+  /** ECU 复位 */
+  reset: (resetType: number) => void;
+  /** 响应发送失败或处理函数异常 (没有监听器时忽略) */
+  error: (error: Error) => void;
+}
+
+export interface UdsServer {
+  on<E extends keyof UdsServerEvents>(event: E, listener: UdsServerEvents[E]): this;
+  once<E extends keyof UdsServerEvents>(event: E, listener: UdsServerEvents[E]): this;
+  off<E extends keyof UdsServerEvents>(event: E, listener: UdsServerEvents[E]): this;
+  emit<E extends keyof UdsServerEvents>(event: E, ...args: Parameters<UdsServerEvents[E]>): boolean;
+}
+
+/** 默认会话中不可用的服务 */
+const NON_DEFAULT_SESSION_SERVICES = new Set<number>([
+  UDS_SID.SECURITY_ACCESS,
+  UDS_SID.COMMUNICATION_CONTROL,
+  UDS_SID.CONTROL_DTC_SETTING,
+]);
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function nrc(sid: number, code: number): UdsNegativeResponseError {
+  return new UdsNegativeResponseError(sid, code);
+}
+
+// ============================================================================
+// 服务端
+// ============================================================================
+
+/**
+ * UDS 诊断服务端 (ECU 仿真)
+ *
+ * 监听 IsoTpTransport 的 pdu 事件并按顺序应答请求。内置会话控制、ECU 复位、DID 读写、
+ * 安全访问、故障码读取/清除、例程控制、通信控制、故障码记录控制和 TesterPresent，
+ * setServiceHandler 注册的处理函数优先于内置服务
+ */
+export class UdsServer extends EventEmitter {
+  private readonly config: Required<Omit<UdsServerConfig, 'securityKey'>> & { securityKey: SecurityKeyFunction | null };
+  private readonly dids = new Map<number, DidDefinition & { value: Buffer }>();
+  private readonly dtcs = new Map<number, number>();
+  private readonly routines = new Map<number, RoutineHandler>();
+  private readonly handlers = new Map<number, UdsServiceHandler>();
+  private readonly faults = new Map<number, UdsFault>();
+  private readonly pduListener = (pdu: Buffer) => this.enqueue(pdu);
+  private queue: Promise<void> = Promise.resolve();
+  private running = false;
+  private session: number = UDS_SESSION.DEFAULT;
+  private securityLevel = 0;
+  private pendingSeed: { level: number; seed: Buffer } | null = null;
+  private failedAttempts = 0;
+  private securityLockedUntil = 0;
+  private dtcSettingEnabled = true;
+  private communicationControlType = 0;
+  private s3Timer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param transport ECU 端的 ISO-TP 传输层 (txId 为响应 ID，rxId 为请求 ID)
+   * @param config 服务端配置
+   */
+  constructor(private readonly transport: IsoTpTransport, config: UdsServerConfig = {}) {
+    super();
+    this.config = {
+      sessions: [UDS_SESSION.DEFAULT, UDS_SESSION.PROGRAMMING, UDS_SESSION.EXTENDED],
+      p2Server: 50,
+      p2StarServer: 5000,
+      s3Server: 5000,
+      seed: () => randomBytes(4),
+      maxSecurityAttempts: 3,
+      securityDelay: 10000,
+      dtcAvailabilityMask: 0xFF,
+      pendingInterval: 2000,
+      ...config,
+      securityKey: config.securityKey || null,
+    };
+  }
+
+  // ============================================================================
+  // 生命周期
+  // ============================================================================
+
+  /**
+   * 开始应答请求 (传输层需已启动轮询)
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.transport.on('pdu', this.pduListener);
+  }
+
+  /**
+   * 停止应答请求
+   */
+  stop(): void {
+    this.running = false;
+    this.transport.off('pdu', this.pduListener);
+    this.stopS3Timer();
+  }
+
+  /**
+   * 是否正在应答请求
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  // ============================================================================
+  // 仿真状态
+  // ============================================================================
+
+  /**
+   * 当前诊断会话
+   */
+  getSession(): number {
+    return this.session;
+  }
+
+  /**
+   * 当前已解锁的安全等级 (请求种子的奇数等级)，0 表示未解锁
+   */
+  getSecurityLevel(): number {
+    return this.securityLevel;
+  }
+
+  /**
+   * 故障码记录是否开启 (ControlDTCSetting)
+   */
+  isDtcSettingEnabled(): boolean {
+    return this.dtcSettingEnabled;
+  }
+
+  /**
+   * 最近一次通信控制的控制类型 (CommunicationControl)，默认 0x00 (收发均开启)
+   */
+  getCommunicationControl(): number {
+    return this.communicationControlType;
+  }
+
+  /**
+   * 定义 DID
+   * @param did 数据标识符
+   * @param definition 数据和访问条件，传入数组或 Buffer 时为只读且无访问限制
+   */
+  setDid(did: number, definition: DidDefinition | Buffer | number[]): void {
+    const def = Buffer.isBuffer(definition) || Array.isArray(definition) ? { value: definition } : definition;
+    this.dids.set(did, { ...def, value: Buffer.from(def.value) });
+  }
+
+  /**
+   * 读取 DID 当前值
+   */
+  getDid(did: number): Buffer | undefined {
+    const def = this.dids.get(did);
+    return def ? Buffer.from(def.value) : undefined;
+  }
+
+  /**
+   * 设置故障码状态，故障码记录关闭时忽略
+   * @param dtc 故障码 (3 字节)
+   * @param status 状态字节，0 表示删除
+   */
+  setDtc(dtc: number, status: number): void {
+    if (!this.dtcSettingEnabled) {
+      return;
+    }
+    if (status === 0) {
+      this.dtcs.delete(dtc);
+    } else {
+      this.dtcs.set(dtc, status & 0xFF);
+    }
+  }
+
+  /**
+   * 当前存储的故障码
+   */
+  getDtcs(): { dtc: number; status: number }[] {
+    return Array.from(this.dtcs, ([dtc, status]) => ({ dtc, status }));
+  }
+
+  /**
+   * 注册例程
+   * @param routineId 例程 ID
+   * @param handler 例程处理函数
+   */
+  setRoutine(routineId: number, handler: RoutineHandler): void {
+    this.routines.set(routineId, handler);
+  }
+
+  /**
+   * 注册服务处理函数，优先于内置服务
+   * @param sid 服务 ID
+   * @param handler 处理函数，null 表示移除
+   */
+  setServiceHandler(sid: number, handler: UdsServiceHandler | null): void {
+    if (handler) {
+      this.handlers.set(sid, handler);
+    } else {
+      this.handlers.delete(sid);
+    }
+  }
+
+  /**
+   * 注入故障：指定服务返回 NRC、延时响应或不响应
+   * @param sid 服务 ID
+   * @param fault 故障
+   */
+  injectFault(sid: number, fault: UdsFault): void {
+    this.faults.set(sid, { ...fault });
+  }
+
+  /**
+   * 清除注入的故障
+   * @param sid 服务 ID，省略时清除全部
+   */
+  clearFaults(sid?: number): void {
+    if (sid === undefined) {
+      this.faults.clear();
+    } else {
+      this.faults.delete(sid);
+    }
+  }
+
+  /**
+   * 复位仿真状态：返回默认会话，锁定安全访问，开启故障码记录和通信
+   */
+  reset(): void {
+    this.changeSession(UDS_SESSION.DEFAULT);
+    this.failedAttempts = 0;
+    this.securityLockedUntil = 0;
+    this.dtcSettingEnabled = true;
+    this.communicationControlType = 0;
+  }
+
+  // ============================================================================
+  // 请求处理
+  // ============================================================================
+
+  private enqueue(pdu: Buffer): void {
+    this.transport.clearReceived();
+    this.queue = this.queue
+      .then(() => this.handleRequest(pdu))
+      .catch((error) => {
+        emitError(this, error);
+      })
+      // 监听器抛出异常时保持队列可用
+      .catch(() => undefined);
+  }
+
+  private async handleRequest(request: Buffer): Promise<void> {
+    const sid = request[0];
+    this.emit('request', request);
+    this.restartS3Timer();
+
+    const fault = this.takeFault(sid);
+    if (fault?.responsePending) {
+      let remaining = fault.responsePending;
+      while (remaining > 0) {
+        await this.respond(Buffer.from([UDS_NEGATIVE_RESPONSE, sid, UDS_NRC.RESPONSE_PENDING]));
+        const wait = Math.min(remaining, this.config.pendingInterval);
+        await delay(wait);
+        remaining -= wait;
+      }
+    }
+    if (fault?.noResponse) {
+      return;
+    }
+    if (fault?.nrc !== undefined) {
+      await this.respond(Buffer.from([UDS_NEGATIVE_RESPONSE, sid, fault.nrc]));
+      return;
+    }
+
+    const suppress = isPositiveResponseSuppressed(request);
+    let response: Buffer | number[] | null;
+    let afterResponse: (() => void) | null = null;
+    try {
+      const handler = this.handlers.get(sid);
+      if (handler) {
+        response = await handler(request);
+      } else {
+        const normalized = Buffer.from(request);
+        if (suppress) {
+          normalized[1] &= ~UDS_SUPPRESS_POSITIVE_RESPONSE;
+        }
+        [response, afterResponse] = await this.dispatch(normalized);
+      }
+    } catch (error) {
+      if (!(error instanceof UdsNegativeResponseError)) {
+        throw error;
+      }
+      await this.respond(Buffer.from([UDS_NEGATIVE_RESPONSE, sid, error.nrc]));
+      return;
+    }
+
+    if (response && !suppress) {
+      await this.respond(Buffer.from(response));
+    }
+    afterResponse?.();
+  }
+
+  private takeFault(sid: number): UdsFault | undefined {
+    const fault = this.faults.get(sid);
+    if (fault && fault.count !== undefined && --fault.count <= 0) {
+      this.faults.delete(sid);
+    }
+    return fault;
+  }
+
+  private async respond(response: Buffer): Promise<void> {
+    this.emit('response', response);
+    await this.transport.send(response);
+  }
+
+  /**
+   * 内置服务分发
+   * @returns 积极响应和响应发送后执行的操作
+   */
+  private async dispatch(request: Buffer): Promise<[Buffer | number[] | null, (() => void) | null]> {
+    const sid = request[0];
+    if (NON_DEFAULT_SESSION_SERVICES.has(sid) && this.session === UDS_SESSION.DEFAULT) {
+      throw nrc(sid, UDS_NRC.SERVICE_NOT_SUPPORTED_IN_ACTIVE_SESSION);
+    }
+    if (UDS_SUB_FUNCTION_SERVICES.has(sid) && request.length < 2) {
+      throw nrc(sid, UDS_NRC.INCORRECT_MESSAGE_LENGTH_OR_FORMAT);
+    }
+
+    switch (sid) {
+      case UDS_SID.DIAGNOSTIC_SESSION_CONTROL:
+        return [this.sessionControl(request), null];
+      case UDS_SID.ECU_RESET:
+        return this.ecuReset(request);
+      case UDS_SID.TESTER_PRESENT:
+        if (request[1] !== 0x00) {
+          throw nrc(sid, UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED);
+        }
+        return [[sid + UDS_POSITIVE_RESPONSE_OFFSET, 0x00], null];
+      case UDS_SID.READ_DATA_BY_IDENTIFIER:
+        return [this.readDataByIdentifier(request), null];
+      case UDS_SID.WRITE_DATA_BY_IDENTIFIER:
+        return [this.writeDataByIdentifier(request), null];
+      case UDS_SID.SECURITY_ACCESS:
+        return [await this.securityAccess(request), null];
+      case UDS_SID.READ_DTC_INFORMATION:
+        return [this.readDtcInformation(request), null];
+      case UDS_SID.CLEAR_DIAGNOSTIC_INFORMATION:
+        return [this.clearDiagnosticInformation(request), null];
+      case UDS_SID.ROUTINE_CONTROL:
+        return [await this.routineControl(request), null];
+      case UDS_SID.COMMUNICATION_CONTROL:
+        if (request.length < 3 || request[1] > 0x03) {
+          throw nrc(sid, request.length < 3 ? UDS_NRC.INCORRECT_MESSAGE_LENGTH_OR_FORMAT : UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED);
+        }
+        this.communicationControlType = request[1];
+        return [[sid + UDS_POSITIVE_RESPONSE_OFFSET, request[1]], null];
+      case UDS_SID.CONTROL_DTC_SETTING:
+        if (request[1] !== UDS_DTC_SETTING.ON && request[1] !== UDS_DTC_SETTING.OFF) {
+          throw nrc(sid, UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED);
+        }
+        this.dtcSettingEnabled = request[1] === UDS_DTC_SETTING.ON;
+        return [[sid + UDS_POSITIVE_RESPONSE_OFFSET, request[1]], null];
+      default:
+        throw nrc(sid, UDS_NRC.SERVICE_NOT_SUPPORTED);
+    }
+  }
+
+  // ============================================================================
+  // 内置服务
+  // ============================================================================
+
+  private sessionControl(request: Buffer): number[] {
+    const session = request[1];
+    if (!this.config.sessions.includes(session)) {
+      throw nrc(request[0], UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED);
+    }
+    this.changeSession(session);
+    const p2 = this.config.p2Server;
+    const p2Star = Math.round(this.config.p2StarServer / 10);
+    return [0x50, session, (p2 >> 8) & 0xFF, p2 & 0xFF, (p2Star >> 8) & 0xFF, p2Star & 0xFF];
+  }
+
+  private ecuReset(request: Buffer): [number[], () => void] {
+    const resetType = request[1];
+    if (resetType < 0x01 || resetType > 0x03) {
+      throw nrc(request[0], UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED);
+    }
+    // 先发送积极响应再复位
+    return [[0x51, resetType], () => {
+      this.reset();
+      this.emit('reset', resetType);
+    }];
+  }
+
+  private readDataByIdentifier(request: Buffer): Buffer {
+    const sid = request[0];
+    if (request.length < 3 || (request.length - 1) % 2 !== 0) {
+      throw nrc(sid, UDS_NRC.INCORRECT_MESSAGE_LENGTH_OR_FORMAT);
+    }
+    const parts: Buffer[] = [Buffer.from([sid + UDS_POSITIVE_RESPONSE_OFFSET])];
+    for (let offset = 1; offset < request.length; offset += 2) {
+      const did = request.readUInt16BE(offset);
+      const def = this.accessDid(sid, did);
+      parts.push(request.subarray(offset, offset + 2), def.value);
+    }
+    return Buffer.concat(parts);
+  }
+
+  private writeDataByIdentifier(request: Buffer): number[] {
+    const sid = request[0];
+    if (request.length < 4) {
+      throw nrc(sid, UDS_NRC.INCORRECT_MESSAGE_LENGTH_OR_FORMAT);
+    }
+    const did = request.readUInt16BE(1);
+    const def = this.accessDid(sid, did);
+    if (!def.writable) {
+      throw nrc(sid, UDS_NRC.REQUEST_OUT_OF_RANGE);
+    }
+    const value = request.subarray(3);
+    if (value.length !== def.value.length) {
+      throw nrc(sid, UDS_NRC.INCORRECT_MESSAGE_LENGTH_OR_FORMAT);
+    }
+    def.value = Buffer.from(value);
+    return [sid + UDS_POSITIVE_RESPONSE_OFFSET, request[1], request[2]];
+  }
+
+  /**
+   * 检查 DID 是否存在以及会话和安全等级条件
+   */
+  private accessDid(sid: number, did: number): DidDefinition & { value: Buffer } {
+    const def = this.dids.get(did);
+    if (!def || (def.sessions && !def.sessions.includes(this.session))) {
+      throw nrc(sid, UDS_NRC.REQUEST_OUT_OF_RANGE);
+    }
+    if (def.securityLevel !== undefined && this.securityLevel !== def.securityLevel) {
+      throw nrc(sid, UDS_NRC.SECURITY_ACCESS_DENIED);
+    }
+    return def;
+  }
+
+  private async securityAccess(request: Buffer): Promise<Buffer> {
+    const sid = request[0];
+    const subFunction = request[1];
+    const keyFunction = this.config.securityKey;
+    // 0x00 和 0x7F 为保留值
+    if (!keyFunction || subFunction === 0x00 || subFunction === 0x7F) {
+      throw nrc(sid, UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED);
+    }
+
+    // 请求种子
+    if (subFunction % 2 === 1) {
+      if (Date.now() < this.securityLockedUntil) {
+        throw nrc(sid, UDS_NRC.REQUIRED_TIME_DELAY_NOT_EXPIRED);
+      }
+      if (this.securityLevel === subFunction) {
+        this.pendingSeed = null;
+        return Buffer.from([0x67, subFunction, 0x00, 0x00, 0x00, 0x00]);
+      }
+      const seed = Buffer.from(this.config.seed(subFunction));
+      this.pendingSeed = { level: subFunction, seed };
+      return Buffer.concat([Buffer.from([0x67, subFunction]), seed]);
+    }
+
+    // 发送密钥
+    const level = subFunction - 1;
+    const pending = this.pendingSeed;
+    if (!pending || pending.level !== level) {
+      throw nrc(sid, UDS_NRC.REQUEST_SEQUENCE_ERROR);
+    }
+    this.pendingSeed = null;
+    const expected = Buffer.from(await keyFunction(pending.seed, level));
+    if (!expected.equals(request.subarray(2))) {
+      if (++this.failedAttempts >= this.config.maxSecurityAttempts) {
+        this.failedAttempts = 0;
+        this.securityLockedUntil = Date.now() + this.config.securityDelay;
+        throw nrc(sid, UDS_NRC.EXCEEDED_NUMBER_OF_ATTEMPTS);
+      }
+      throw nrc(sid, UDS_NRC.INVALID_KEY);
+    }
+    this.failedAttempts = 0;
+    this.securityLevel = level;
+    this.emit('securityUnlocked', level);
+    return Buffer.from([0x67, subFunction]);
+  }
+
+  private readDtcInformation(request: Buffer): Buffer {
+    const sid = request[0];
+    if (request.length < 2) {
+      throw nrc(sid, UDS_NRC.INCORRECT_MESSAGE_LENGTH_OR_FORMAT);
+    }
+    const subFunction = request[1];
+    const availability = this.config.dtcAvailabilityMask;
+    const header = [sid + UDS_POSITIVE_RESPONSE_OFFSET, subFunction, availability];
+
+    const select = (mask: number) => this.getDtcs().filter(({ status }) => (status & mask & availability) !== 0);
+    const encode = (records: { dtc: number; status: number }[]) => Buffer.from([
+      ...header,
+      ...records.flatMap(({ dtc, status }) => [(dtc >> 16) & 0xFF, (dtc >> 8) & 0xFF, dtc & 0xFF, status]),
+    ]);
+
+    switch (subFunction) {
+      case UDS_DTC_REPORT.NUMBER_OF_DTC_BY_STATUS_MASK:
+      case UDS_DTC_REPORT.DTC_BY_STATUS_MASK: {
+        if (request.length !== 3) {
+          throw nrc(sid, UDS_NRC.INCORRECT_MESSAGE_LENGTH_OR_FORMAT);
+        }
+        const records = select(request[2]);
+        if (subFunction === UDS_DTC_REPORT.DTC_BY_STATUS_MASK) {
+          return encode(records);
+        }
+        // DTCFormatIdentifier 0x01: ISO 14229-1
+        return Buffer.from([...header, 0x01, (records.length >> 8) & 0xFF, records.length & 0xFF]);
+      }
+      case UDS_DTC_REPORT.SUPPORTED_DTC:
+        return encode(this.getDtcs());
+      default:
+        throw nrc(sid, UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED);
+    }
+  }
+
+  private clearDiagnosticInformation(request: Buffer): number[] {
+    const sid = request[0];
+    if (request.length !== 4) {
+      throw nrc(sid, UDS_NRC.INCORRECT_MESSAGE_LENGTH_OR_FORMAT);
+    }
+    const group = request.readUIntBE(1, 3);
+    if (group === UDS_ALL_DTC_GROUPS) {
+      this.dtcs.clear();
+    } else if (!this.dtcs.delete(group)) {
+      throw nrc(sid, UDS_NRC.REQUEST_OUT_OF_RANGE);
+    }
+    return [sid + UDS_POSITIVE_RESPONSE_OFFSET];
+  }
+
+  private async routineControl(request: Buffer): Promise<Buffer> {
+    const sid = request[0];
+    if (request.length < 4) {
+      throw nrc(sid, UDS_NRC.INCORRECT_MESSAGE_LENGTH_OR_FORMAT);
+    }
+    const handler = this.routines.get(request.readUInt16BE(2));
+    if (!handler) {
+      throw nrc(sid, UDS_NRC.REQUEST_OUT_OF_RANGE);
+    }
+    const result = await handler(request[1], Buffer.from(request.subarray(4)));
+    return Buffer.concat([Buffer.from([sid + UDS_POSITIVE_RESPONSE_OFFSET]), request.subarray(1, 4), Buffer.from(result)]);
+  }
+
+  // ============================================================================
+  // 会话管理
+  // ============================================================================
+
+  private changeSession(session: number): void {
+    const changed = session !== this.session;
+    this.session = session;
+    this.securityLevel = 0;
+    this.pendingSeed = null;
+    this.restartS3Timer();
+    if (changed) {
+      this.emit('sessionChange', session);
+    }
+  }
+
+  /**
+   * 非默认会话中重新开始 S3server 计时，超时后返回默认会话
+   */
+  private restartS3Timer(): void {
+    this.stopS3Timer();
+    if (!this.running || this.session === UDS_SESSION.DEFAULT) {
+      return;
+    }
+    this.s3Timer = setTimeout(() => {
+      this.s3Timer = null;
+      this.changeSession(UDS_SESSION.DEFAULT);
+      this.emit('sessionTimeout');
+    }, this.config.s3Server);
+    this.s3Timer.unref();
+  }
+
+  private stopS3Timer(): void {
+    if (this.s3Timer) {
+      clearTimeout(this.s3Timer);
+      this.s3Timer = null;
+    }
+  }
+}
@@ -0,0 +1,444 @@
+/**
+ * ISO-TP/UDS 被动解码
+ * 从原始 CAN 帧 (实时接收或录制的帧数组) 中重组 ISO-TP PDU，并按通道配对 UDS 请求/响应，
+ * 给出服务名称、NRC 说明和响应时间
+ */
+
+import { EventEmitter } from 'events';
+import { CanLinkMessage } from './can-link';
+import { IsoTpAddressing, IsoTpError } from './isotp';
+import { UDS_NEGATIVE_RESPONSE, UDS_POSITIVE_RESPONSE_OFFSET, UDS_NRC, getServiceName, getNrcDescription } from './uds';
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/** 协议控制信息类型 (N_PCI 高 4 位) */
+const PCI_TYPE = {
+  SINGLE_FRAME: 0,
+  FIRST_FRAME: 1,
+  CONSECUTIVE_FRAME: 2,
+} as const;
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/** 传输方向 */
+export type UdsTraceDirection = 'request' | 'response';
+
+/**
+ * 解码通道 (一对请求/响应 ID)
+ */
+export interface UdsTraceChannel {
+  /** 请求 CAN ID (测试仪 → ECU) */
+  requestId: number;
+  /** 响应 CAN ID (ECU → 测试仪) */
+  responseId: number;
+  /** 是否为扩展帧 (29-bit ID)，默认 false */
+  extended?: boolean;
+  /** 寻址方式，默认 'normal' */
+  addressing?: IsoTpAddressing;
+  /** 请求帧首字节 (extended: N_TA，mixed: N_AE)，默认 0 */
+  requestAddress?: number;
+  /** 响应帧首字节 (extended: N_TA，mixed: N_AE)，默认 0 */
+  responseAddress?: number;
+  /** 通道名称，默认为 "请求 ID/响应 ID" 的十六进制形式 */
+  name?: string;
+}
+
+/**
+ * 解码配置
+ */
+export interface UdsTraceConfig {
+  /** 解码通道 */
+  channels: UdsTraceChannel[];
+  /** 请求 (或最后一个 NRC 0x78) 之后等待响应的时间 (ms)，超过后请求按无响应处理，仅在帧带时间戳时生效，默认 5000 */
+  responseTimeout?: number;
+  /** 可重组的最大 PDU 长度，首帧长度超过时丢弃该 PDU 并发出 reassemblyError，默认 0xFFFF */
+  maxPduLength?: number;
+}
+
+/**
+ * 重组后的 ISO-TP PDU
+ */
+export interface IsoTpTracePdu {
+  /** 通道名称 */
+  channel: string;
+  /** 传输方向 */
+  direction: UdsTraceDirection;
+  /** CAN ID */
+  id: number;
+  /** PDU 数据 */
+  data: Buffer;
+  /** 首帧时间戳 (μs，帧不带时间戳时为空) */
+  startTime?: number;
+  /** 末帧时间戳 (μs，帧不带时间戳时为空) */
+  endTime?: number;
+  /** 组成 PDU 的帧数 (不含流控帧) */
+  frameCount: number;
+}
+
+/**
+ * UDS 请求/响应
+ */
+export interface UdsTraceTransaction {
+  /** 通道名称 */
+  channel: string;
+  /** 请求 PDU (收到无对应请求的响应时为 null) */
+  request: IsoTpTracePdu | null;
+  /** 请求 SID */
+  sid: number;
+  /** 服务名称，非标准服务为空 */
+  service?: string;
+  /** 最终响应 PDU (无响应时为 null) */
+  response: IsoTpTracePdu | null;
+  /** 收到的 NRC 0x78 (ResponsePending) 数量 */
+  pendingResponses: number;
+  /** 是否为积极响应 */
+  positive: boolean;
+  /** 消极响应码 */
+  nrc?: number;
+  /** 消极响应码说明 */
+  nrcName?: string;
+  /** 请求末帧到响应首帧的时间 (ms)，帧不带时间戳时为空 */
+  responseTime?: number;
+}
+
+/**
+ * 单方向的分段接收状态
+ */
+interface Stream {
+  channel: string;
+  direction: UdsTraceDirection;
+  id: number;
+  extended: boolean;
+  address: number | null;
+  reception: {
+    buffer: Buffer;
+    offset: number;
+    sequenceNumber: number;
+    startTime?: number;
+    frameCount: number;
+  } | null;
+}
+
+/**
+ * 等待响应的请求
+ */
+interface Outstanding {
+  request: IsoTpTracePdu;
+  pendingResponses: number;
+  /** 请求末帧或最后一个 NRC 0x78 的时间戳 (μs) */
+  lastActivity?: number;
+}
+
+// ============================================================================
+// 辅助函数
+// ============================================================================
+
+function hex(value: number): string {
+  return `0x${value.toString(16).toUpperCase()}`;
+}
+
+// ============================================================================
+// 解码器
+// ============================================================================
+
+/**
+ * 解码器事件
+ */
+export interface UdsTraceDecoderEvents {
+  /** 重组出完整的 PDU */
+  pdu: (pdu: IsoTpTracePdu) => void;
+  /** 完成一次请求/响应 */
+  transaction: (transaction: UdsTraceTransaction) => void;
+  /** 分段重组失败 (序号错误、接收过程中收到新的单帧或首帧、首帧长度超过 maxPduLength) */
+  reassemblyError: (error: IsoTpError, channel: string, direction: UdsTraceDirection) => void;
+}
+
+export interface UdsTraceDecoder {
+  on<E extends keyof UdsTraceDecoderEvents>(event: E, listener: UdsTraceDecoderEvents[E]): this;
+  once<E extends keyof UdsTraceDecoderEvents>(event: E, listener: UdsTraceDecoderEvents[E]): this;
+  off<E extends keyof UdsTraceDecoderEvents>(event: E, listener: UdsTraceDecoderEvents[E]): this;
+  emit<E extends keyof UdsTraceDecoderEvents>(event: E, ...args: Parameters<UdsTraceDecoderEvents[E]>): boolean;
+}
+
+/**
+ * ISO-TP/UDS 被动解码器
+ *
+ * 只监听不发送：流控帧被忽略，不检查 N_Bs/N_Cr 超时。帧通过 feed() 按接收顺序输入，
+ * 实时接收和录制的帧数组使用相同的处理流程
+ */
+export class UdsTraceDecoder extends EventEmitter {
+  private readonly responseTimeout: number;
+  private readonly maxPduLength: number;
+  private readonly streams: Stream[] = [];
+  private readonly outstanding = new Map<string, Outstanding>();
+  private completed: UdsTraceTransaction[] = [];
+
+  constructor(config: UdsTraceConfig) {
+    super();
+    this.responseTimeout = config.responseTimeout ?? 5000;
+    this.maxPduLength = config.maxPduLength ?? 0xFFFF;
+
+    for (const channel of config.channels) {
+      const name = channel.name ?? `${hex(channel.requestId)}/${hex(channel.responseId)}`;
+      const extended = !!channel.extended;
+      const addressed = (channel.addressing ?? 'normal') !== 'normal';
+      this.streams.push(
+        {
+          channel: name, direction: 'request', id: channel.requestId, extended,
+          address: addressed ? channel.requestAddress ?? 0 : null, reception: null,
+        },
+        {
+          channel: name, direction: 'response', id: channel.responseId, extended,
+          address: addressed ? channel.responseAddress ?? 0 : null, reception: null,
+        },
+      );
+    }
+  }
+
+  /**
+   * 输入一帧或多帧，返回本次完成的请求/响应
+   */
+  feed(frames: CanLinkMessage | CanLinkMessage[]): UdsTraceTransaction[] {
+    for (const frame of Array.isArray(frames) ? frames : [frames]) {
+      const time = frame.timestamp !== undefined ? Number(frame.timestamp) : undefined;
+      if (time !== undefined) {
+        this.expire(time);
+      }
+      for (const stream of this.streams) {
+        this.handleFrame(stream, frame, time);
+      }
+    }
+    return this.takeCompleted();
+  }
+
+  /**
+   * 结束所有等待响应的请求 (按无响应处理)，返回本次完成的请求/响应
+   *
+   * 录制数据解码完毕后调用，未完成的分段接收被丢弃
+   */
+  flush(): UdsTraceTransaction[] {
+    for (const channel of [...this.outstanding.keys()]) {
+      this.complete(channel, null);
+    }
+    for (const stream of this.streams) {
+      stream.reception = null;
+    }
+    return this.takeCompleted();
+  }
+
+  /**
+   * 丢弃所有分段接收和等待响应的请求
+   */
+  reset(): void {
+    for (const stream of this.streams) {
+      stream.reception = null;
+    }
+    this.outstanding.clear();
+    this.completed = [];
+  }
+
+  // ============================================================================
+  // ISO-TP 重组
+  // ============================================================================
+
+  private handleFrame(stream: Stream, frame: CanLinkMessage, time?: number): void {
+    if (frame.id !== stream.id || !!frame.isExtended !== stream.extended || frame.isRemote) {
+      return;
+    }
+    const data = Buffer.from(frame.data);
+    const o = stream.address === null ? 0 : 1;
+    if (data.length <= o || (o > 0 && data[0] !== stream.address)) {
+      return;
+    }
+
+    switch (data[o] >> 4) {
+      case PCI_TYPE.SINGLE_FRAME: {
+        let length = data[o] & 0x0F;
+        let start = o + 1;
+        // CANFD 单帧长度转义
+        if (length === 0) {
+          if (data.length <= 8 || data.length < o + 2) {
+            return;
+          }
+          length = data[o + 1];
+          start = o + 2;
+        }
+        if (length === 0 || start + length > data.length) {
+          return;
+        }
+        this.interruptReception(stream);
+        this.deliver(stream, Buffer.from(data.subarray(start, start + length)), time, time, 1);
+        break;
+      }
+      case PCI_TYPE.FIRST_FRAME: {
+        if (data.length < o + 2) {
+          return;
+        }
+        let length = ((data[o] & 0x0F) << 8) | data[o + 1];
+        let start = o + 2;
+        // 32 位长度转义
+        if (length === 0) {
+          if (data.length < o + 6) {
+            return;
+          }
+          length = data.readUInt32BE(o + 2);
+          start = o + 6;
+        }
+        this.interruptReception(stream);
+        if (length > this.maxPduLength) {
+          this.emit('reassemblyError', new IsoTpError('N_BUFFER_OVFLW'), stream.channel, stream.direction);
+          return;
+        }
+        const buffer = Buffer.alloc(length);
+        const offset = data.copy(buffer, 0, start);
+        stream.reception = { buffer, offset, sequenceNumber: 1, startTime: time, frameCount: 1 };
+        break;
+      }
+      case PCI_TYPE.CONSECUTIVE_FRAME: {
+        const reception = stream.reception;
+        if (!reception) {
+          return;
+        }
+        if ((data[o] & 0x0F) !== reception.sequenceNumber) {
+          stream.reception = null;
+          this.emit('reassemblyError', new IsoTpError('N_WRONG_SN'), stream.channel, stream.direction);
+          return;
+        }
+        reception.offset += data.copy(reception.buffer, reception.offset, o + 1);
+        reception.sequenceNumber = (reception.sequenceNumber + 1) & 0x0F;
+        reception.frameCount++;
+        if (reception.offset >= reception.buffer.length) {
+          stream.reception = null;
+          this.deliver(stream, reception.buffer, reception.startTime, time, reception.frameCount);
+        }
+        break;
+      }
+    }
+  }
+
+  private interruptReception(stream: Stream): void {
+    if (stream.reception) {
+      stream.reception = null;
+      this.emit('reassemblyError', new IsoTpError('N_UNEXP_PDU'), stream.channel, stream.direction);
+    }
+  }
+
+  private deliver(stream: Stream, data: Buffer, startTime: number | undefined, endTime: number | undefined, frameCount: number): void {
+    const pdu: IsoTpTracePdu = {
+      channel: stream.channel,
+      direction: stream.direction,
+      id: stream.id,
+      data,
+      startTime,
+      endTime,
+      frameCount,
+    };
+    this.emit('pdu', pdu);
+    if (stream.direction === 'request') {
+      this.handleRequest(pdu);
+    } else {
+      this.handleResponse(pdu);
+    }
+  }
+
+  // ============================================================================
+  // UDS 配对
+  // ============================================================================
+
+  private handleRequest(pdu: IsoTpTracePdu): void {
+    // 上一个请求未收到响应 (或响应被抑制)
+    if (this.outstanding.has(pdu.channel)) {
+      this.complete(pdu.channel, null);
+    }
+    this.outstanding.set(pdu.channel, { request: pdu, pendingResponses: 0, lastActivity: pdu.endTime });
+  }
+
+  private handleResponse(pdu: IsoTpTracePdu): void {
+    const negative = pdu.data[0] === UDS_NEGATIVE_RESPONSE;
+    // 消极响应不完整或首字节不是积极响应 SID
+    if (negative ? pdu.data.length < 3 : pdu.data[0] < UDS_POSITIVE_RESPONSE_OFFSET) {
+      return;
+    }
+    const sid = negative ? pdu.data[1] : pdu.data[0] - UDS_POSITIVE_RESPONSE_OFFSET;
+    const outstanding = this.outstanding.get(pdu.channel);
+    const matched = outstanding && outstanding.request.data[0] === sid ? outstanding : null;
+
+    if (negative && pdu.data[2] === UDS_NRC.RESPONSE_PENDING && matched) {
+      matched.pendingResponses++;
+      matched.lastActivity = pdu.endTime;
+      return;
+    }
+    if (matched) {
+      this.complete(pdu.channel, pdu);
+    } else {
+      this.push(this.createTransaction(pdu.channel, null, sid, 0, pdu));
+    }
+  }
+
+  private complete(channel: string, response: IsoTpTracePdu | null): void {
+    const { request, pendingResponses } = this.outstanding.get(channel)!;
+    this.outstanding.delete(channel);
+    this.push(this.createTransaction(channel, request, request.data[0], pendingResponses, response));
+  }
+
+  private createTransaction(
+    channel: string,
+    request: IsoTpTracePdu | null,
+    sid: number,
+    pendingResponses: number,
+    response: IsoTpTracePdu | null,
+  ): UdsTraceTransaction {
+    const negative = response !== null && response.data[0] === UDS_NEGATIVE_RESPONSE;
+    const transaction: UdsTraceTransaction = {
+      channel,
+      request,
+      sid,
+      service: getServiceName(sid),
+      response,
+      pendingResponses,
+      positive: response !== null && !negative,
+    };
+    if (response && negative) {
+      transaction.nrc = response.data[2];
+      transaction.nrcName = getNrcDescription(response.data[2]);
+    }
+    if (request?.endTime !== undefined && response?.startTime !== undefined) {
+      transaction.responseTime = (response.startTime - request.endTime) / 1000;
+    }
+    return transaction;
+  }
+
+  private push(transaction: UdsTraceTransaction): void {
+    this.completed.push(transaction);
+    this.emit('transaction', transaction);
+  }
+
+  private takeCompleted(): UdsTraceTransaction[] {
+    const completed = this.completed;
+    this.completed = [];
+    return completed;
+  }
+
+  /**
+   * 结束等待超过 responseTimeout 的请求
+   */
+  private expire(time: number): void {
+    for (const [channel, { lastActivity }] of [...this.outstanding]) {
+      if (lastActivity !== undefined && time - lastActivity > this.responseTimeout * 1000) {
+        this.complete(channel, null);
+      }
+    }
+  }
+}
+
+/**
+ * 解码录制的帧数组，返回全部请求/响应 (包括末尾无响应的请求)
+ */
+export function decodeUdsTrace(frames: CanLinkMessage[], config: UdsTraceConfig): UdsTraceTransaction[] {
+  const decoder = new UdsTraceDecoder(config);
+  return [...decoder.feed(frames), ...decoder.flush()];
+}
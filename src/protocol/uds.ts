@@ -0,0 +1,359 @@
+/**
+ * UDS (ISO 14229-1) 协议定义
+ * 服务 ID、消极响应码、子功能常量、DID 编解码器和诊断异常
+ */
+
+import { ZlgCanError, ErrorLocale, getErrorLocale } from '../driver';
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/** 服务 ID */
+export const UDS_SID = {
+  DIAGNOSTIC_SESSION_CONTROL: 0x10,
+  ECU_RESET: 0x11,
+  CLEAR_DIAGNOSTIC_INFORMATION: 0x14,
+  READ_DTC_INFORMATION: 0x19,
+  READ_DATA_BY_IDENTIFIER: 0x22,
+  SECURITY_ACCESS: 0x27,
+  COMMUNICATION_CONTROL: 0x28,
+  WRITE_DATA_BY_IDENTIFIER: 0x2E,
+  ROUTINE_CONTROL: 0x31,
+  REQUEST_DOWNLOAD: 0x34,
+  REQUEST_UPLOAD: 0x35,
+  TRANSFER_DATA: 0x36,
+  REQUEST_TRANSFER_EXIT: 0x37,
+  TESTER_PRESENT: 0x3E,
+  CONTROL_DTC_SETTING: 0x85,
+} as const;
+
+/** 消极响应 SID */
+export const UDS_NEGATIVE_RESPONSE = 0x7F;
+
+/** 积极响应 SID 偏移 */
+export const UDS_POSITIVE_RESPONSE_OFFSET = 0x40;
+
+/** 抑制积极响应位 (子功能最高位) */
+export const UDS_SUPPRESS_POSITIVE_RESPONSE = 0x80;
+
+/** 带子功能 (支持抑制积极响应位) 的服务 */
+export const UDS_SUB_FUNCTION_SERVICES: ReadonlySet<number> = new Set<number>([
+  UDS_SID.DIAGNOSTIC_SESSION_CONTROL,
+  UDS_SID.ECU_RESET,
+  UDS_SID.SECURITY_ACCESS,
+  UDS_SID.COMMUNICATION_CONTROL,
+  UDS_SID.ROUTINE_CONTROL,
+  UDS_SID.TESTER_PRESENT,
+  UDS_SID.CONTROL_DTC_SETTING,
+]);
+
+/**
+ * 请求是否设置了抑制积极响应位 (仅检查带子功能的服务)
+ * @param request 请求 PDU (包含 SID)
+ */
+export function isPositiveResponseSuppressed(request: Buffer | number[]): boolean {
+  return request.length >= 2 && UDS_SUB_FUNCTION_SERVICES.has(request[0])
+    && (request[1] & UDS_SUPPRESS_POSITIVE_RESPONSE) !== 0;
+}
+
+/** 消极响应码 (NRC) */
+export const UDS_NRC = {
+  GENERAL_REJECT: 0x10,
+  SERVICE_NOT_SUPPORTED: 0x11,
+  SUB_FUNCTION_NOT_SUPPORTED: 0x12,
+  INCORRECT_MESSAGE_LENGTH_OR_FORMAT: 0x13,
+  RESPONSE_TOO_LONG: 0x14,
+  BUSY_REPEAT_REQUEST: 0x21,
+  CONDITIONS_NOT_CORRECT: 0x22,
+  REQUEST_SEQUENCE_ERROR: 0x24,
+  NO_RESPONSE_FROM_SUBNET_COMPONENT: 0x25,
+  FAILURE_PREVENTS_EXECUTION: 0x26,
+  REQUEST_OUT_OF_RANGE: 0x31,
+  SECURITY_ACCESS_DENIED: 0x33,
+  INVALID_KEY: 0x35,
+  EXCEEDED_NUMBER_OF_ATTEMPTS: 0x36,
+  REQUIRED_TIME_DELAY_NOT_EXPIRED: 0x37,
+  UPLOAD_DOWNLOAD_NOT_ACCEPTED: 0x70,
+  TRANSFER_DATA_SUSPENDED: 0x71,
+  GENERAL_PROGRAMMING_FAILURE: 0x72,
+  WRONG_BLOCK_SEQUENCE_COUNTER: 0x73,
+  RESPONSE_PENDING: 0x78,
+  SUB_FUNCTION_NOT_SUPPORTED_IN_ACTIVE_SESSION: 0x7E,
+  SERVICE_NOT_SUPPORTED_IN_ACTIVE_SESSION: 0x7F,
+} as const;
+
+/** 诊断会话 (DiagnosticSessionControl) */
+export const UDS_SESSION = {
+  DEFAULT: 0x01,
+  PROGRAMMING: 0x02,
+  EXTENDED: 0x03,
+  SAFETY_SYSTEM: 0x04,
+} as const;
+
+/** 复位类型 (ECUReset) */
+export const UDS_RESET = {
+  HARD: 0x01,
+  KEY_OFF_ON: 0x02,
+  SOFT: 0x03,
+  ENABLE_RAPID_POWER_SHUTDOWN: 0x04,
+  DISABLE_RAPID_POWER_SHUTDOWN: 0x05,
+} as const;
+
+/** 例程控制类型 (RoutineControl) */
+export const UDS_ROUTINE_CONTROL = {
+  START: 0x01,
+  STOP: 0x02,
+  REQUEST_RESULTS: 0x03,
+} as const;
+
+/** 通信控制类型 (CommunicationControl) */
+export const UDS_COMMUNICATION_CONTROL = {
+  ENABLE_RX_AND_TX: 0x00,
+  ENABLE_RX_AND_DISABLE_TX: 0x01,
+  DISABLE_RX_AND_ENABLE_TX: 0x02,
+  DISABLE_RX_AND_TX: 0x03,
+} as const;
+
+/** 通信类型 (CommunicationControl communicationType) */
+export const UDS_COMMUNICATION_TYPE = {
+  NORMAL: 0x01,
+  NETWORK_MANAGEMENT: 0x02,
+  NORMAL_AND_NETWORK_MANAGEMENT: 0x03,
+} as const;
+
+/** 故障码记录设置 (ControlDTCSetting) */
+export const UDS_DTC_SETTING = {
+  ON: 0x01,
+  OFF: 0x02,
+} as const;
+
+/** 故障码读取子功能 (ReadDTCInformation) */
+export const UDS_DTC_REPORT = {
+  NUMBER_OF_DTC_BY_STATUS_MASK: 0x01,
+  DTC_BY_STATUS_MASK: 0x02,
+  DTC_SNAPSHOT_IDENTIFICATION: 0x03,
+  DTC_SNAPSHOT_RECORD_BY_DTC_NUMBER: 0x04,
+  DTC_EXT_DATA_RECORD_BY_DTC_NUMBER: 0x06,
+  SUPPORTED_DTC: 0x0A,
+} as const;
+
+/** 所有故障码组 (ClearDiagnosticInformation) */
+export const UDS_ALL_DTC_GROUPS = 0xFFFFFF;
+
+const NRC_MESSAGES: Record<ErrorLocale, Record<number, string>> = {
+  zh: {
+    [UDS_NRC.GENERAL_REJECT]: '一般拒绝',
+    [UDS_NRC.SERVICE_NOT_SUPPORTED]: '服务不支持',
+    [UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED]: '子功能不支持',
+    [UDS_NRC.INCORRECT_MESSAGE_LENGTH_OR_FORMAT]: '报文长度或格式错误',
+    [UDS_NRC.RESPONSE_TOO_LONG]: '响应过长',
+    [UDS_NRC.BUSY_REPEAT_REQUEST]: '忙碌，请重试',
+    [UDS_NRC.CONDITIONS_NOT_CORRECT]: '条件不满足',
+    [UDS_NRC.REQUEST_SEQUENCE_ERROR]: '请求顺序错误',
+    [UDS_NRC.NO_RESPONSE_FROM_SUBNET_COMPONENT]: '子网节点无响应',
+    [UDS_NRC.FAILURE_PREVENTS_EXECUTION]: '故障阻止执行',
+    [UDS_NRC.REQUEST_OUT_OF_RANGE]: '请求超出范围',
+    [UDS_NRC.SECURITY_ACCESS_DENIED]: '安全访问拒绝',
+    [UDS_NRC.INVALID_KEY]: '密钥无效',
+    [UDS_NRC.EXCEEDED_NUMBER_OF_ATTEMPTS]: '尝试次数超限',
+    [UDS_NRC.REQUIRED_TIME_DELAY_NOT_EXPIRED]: '延时未到',
+    [UDS_NRC.UPLOAD_DOWNLOAD_NOT_ACCEPTED]: '不接受上传/下载',
+    [UDS_NRC.TRANSFER_DATA_SUSPENDED]: '数据传输暂停',
+    [UDS_NRC.GENERAL_PROGRAMMING_FAILURE]: '编程失败',
+    [UDS_NRC.WRONG_BLOCK_SEQUENCE_COUNTER]: '块序号错误',
+    [UDS_NRC.RESPONSE_PENDING]: '响应挂起',
+    [UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED_IN_ACTIVE_SESSION]: '当前会话不支持该子功能',
+    [UDS_NRC.SERVICE_NOT_SUPPORTED_IN_ACTIVE_SESSION]: '当前会话不支持该服务',
+  },
+  en: {
+    [UDS_NRC.GENERAL_REJECT]: 'general reject',
+    [UDS_NRC.SERVICE_NOT_SUPPORTED]: 'service not supported',
+    [UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED]: 'sub-function not supported',
+    [UDS_NRC.INCORRECT_MESSAGE_LENGTH_OR_FORMAT]: 'incorrect message length or invalid format',
+    [UDS_NRC.RESPONSE_TOO_LONG]: 'response too long',
+    [UDS_NRC.BUSY_REPEAT_REQUEST]: 'busy, repeat request',
+    [UDS_NRC.CONDITIONS_NOT_CORRECT]: 'conditions not correct',
+    [UDS_NRC.REQUEST_SEQUENCE_ERROR]: 'request sequence error',
+    [UDS_NRC.NO_RESPONSE_FROM_SUBNET_COMPONENT]: 'no response from subnet component',
+    [UDS_NRC.FAILURE_PREVENTS_EXECUTION]: 'failure prevents execution of requested action',
+    [UDS_NRC.REQUEST_OUT_OF_RANGE]: 'request out of range',
+    [UDS_NRC.SECURITY_ACCESS_DENIED]: 'security access denied',
+    [UDS_NRC.INVALID_KEY]: 'invalid key',
+    [UDS_NRC.EXCEEDED_NUMBER_OF_ATTEMPTS]: 'exceeded number of attempts',
+    [UDS_NRC.REQUIRED_TIME_DELAY_NOT_EXPIRED]: 'required time delay not expired',
+    [UDS_NRC.UPLOAD_DOWNLOAD_NOT_ACCEPTED]: 'upload/download not accepted',
+    [UDS_NRC.TRANSFER_DATA_SUSPENDED]: 'transfer data suspended',
+    [UDS_NRC.GENERAL_PROGRAMMING_FAILURE]: 'general programming failure',
+    [UDS_NRC.WRONG_BLOCK_SEQUENCE_COUNTER]: 'wrong block sequence counter',
+    [UDS_NRC.RESPONSE_PENDING]: 'response pending',
+    [UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED_IN_ACTIVE_SESSION]: 'sub-function not supported in active session',
+    [UDS_NRC.SERVICE_NOT_SUPPORTED_IN_ACTIVE_SESSION]: 'service not supported in active session',
+  },
+};
+
+const NEGATIVE_RESPONSE: Record<ErrorLocale, string> = {
+  zh: '消极响应',
+  en: 'negative response',
+};
+
+const TIMEOUT: Record<ErrorLocale, string> = {
+  zh: '响应超时',
+  en: 'response timeout',
+};
+
+function hex(value: number): string {
+  return `0x${value.toString(16).toUpperCase().padStart(2, '0')}`;
+}
+
+/** 服务名称 (ISO 14229-1) */
+const SERVICE_NAMES: Record<number, string> = {
+  0x10: 'DiagnosticSessionControl',
+  0x11: 'ECUReset',
+  0x14: 'ClearDiagnosticInformation',
+  0x19: 'ReadDTCInformation',
+  0x22: 'ReadDataByIdentifier',
+  0x23: 'ReadMemoryByAddress',
+  0x24: 'ReadScalingDataByIdentifier',
+  0x27: 'SecurityAccess',
+  0x28: 'CommunicationControl',
+  0x29: 'Authentication',
+  0x2A: 'ReadDataByPeriodicIdentifier',
+  0x2C: 'DynamicallyDefineDataIdentifier',
+  0x2E: 'WriteDataByIdentifier',
+  0x2F: 'InputOutputControlByIdentifier',
+  0x31: 'RoutineControl',
+  0x34: 'RequestDownload',
+  0x35: 'RequestUpload',
+  0x36: 'TransferData',
+  0x37: 'RequestTransferExit',
+  0x38: 'RequestFileTransfer',
+  0x3D: 'WriteMemoryByAddress',
+  0x3E: 'TesterPresent',
+  0x83: 'AccessTimingParameter',
+  0x84: 'SecuredDataTransmission',
+  0x85: 'ControlDTCSetting',
+  0x86: 'ResponseOnEvent',
+  0x87: 'LinkControl',
+};
+
+/**
+ * 获取服务名称
+ * @param sid 请求 SID (积极响应 SID 会先减去 0x40)
+ */
+export function getServiceName(sid: number): string | undefined {
+  return SERVICE_NAMES[sid] ?? SERVICE_NAMES[sid - UDS_POSITIVE_RESPONSE_OFFSET];
+}
+
+/**
+ * 获取消极响应码说明
+ */
+export function getNrcDescription(nrc: number, locale: ErrorLocale = getErrorLocale()): string | undefined {
+  return NRC_MESSAGES[locale][nrc];
+}
+
+// ============================================================================
+// 异常
+// ============================================================================
+
+/**
+ * ECU 返回消极响应
+ *
+ * sid 为被拒绝的请求 SID，nrc 为消极响应码，errorCode 为空
+ */
+export class UdsNegativeResponseError extends ZlgCanError {
+  constructor(
+    public readonly sid: number,
+    public readonly nrc: number,
+  ) {
+    super(`UDS ${hex(sid)}`, undefined, UdsNegativeResponseError.format(sid, nrc, getErrorLocale()));
+    this.name = 'UdsNegativeResponseError';
+  }
+
+  localizedMessage(locale: ErrorLocale): string {
+    return UdsNegativeResponseError.format(this.sid, this.nrc, locale);
+  }
+
+  private static format(sid: number, nrc: number, locale: ErrorLocale): string {
+    const description = getNrcDescription(nrc, locale);
+    return `UDS ${hex(sid)} ${NEGATIVE_RESPONSE[locale]}: ${description ? `${description} (${hex(nrc)})` : hex(nrc)}`;
+  }
+}
+
+/**
+ * 在 P2/P2* 时间内未收到响应
+ */
+export class UdsTimeoutError extends ZlgCanError {
+  constructor(public readonly sid: number) {
+    super(`UDS ${hex(sid)}`, undefined, `UDS ${hex(sid)} ${TIMEOUT[getErrorLocale()]}`);
+    this.name = 'UdsTimeoutError';
+  }
+
+  localizedMessage(locale: ErrorLocale): string {
+    return `UDS ${hex(this.sid)} ${TIMEOUT[locale]}`;
+  }
+}
+
+// ============================================================================
+// DID 编解码
+// ============================================================================
+
+/**
+ * DID 数据编解码器
+ */
+export interface DidCodec<T> {
+  /** 数据长度 (字节)，可变长度时省略；一次读取多个 DID 时除最后一个外均需固定长度 */
+  length?: number;
+  /** 编码为 DID 数据 */
+  encode(value: T): Buffer;
+  /** 从 DID 数据解码 */
+  decode(data: Buffer): T;
+}
+
+/**
+ * ASCII 字符串 (如 VIN)，解码时去除尾部的 0x00 和空格，编码时以 0x00 填充至固定长度
+ * @param length 固定长度 (字节)
+ */
+export function asciiDidCodec(length?: number): DidCodec<string> {
+  return {
+    length,
+    encode: (value) => {
+      const data = Buffer.from(value, 'ascii');
+      if (length === undefined) {
+        return data;
+      }
+      const padded = Buffer.alloc(length);
+      data.copy(padded, 0, 0, length);
+      return padded;
+    },
+    decode: (data) => data.toString('ascii').replace(/[\0 ]+$/, ''),
+  };
+}
+
+/**
+ * 无符号整数 (大端)
+ * @param size 字节数 (1-6)
+ */
+export function uintDidCodec(size: number): DidCodec<number> {
+  return {
+    length: size,
+    encode: (value) => {
+      const data = Buffer.alloc(size);
+      data.writeUIntBE(value, 0, size);
+      return data;
+    },
+    decode: (data) => data.readUIntBE(0, size),
+  };
+}
+
+/**
+ * 原始字节
+ * @param length 固定长度 (字节)
+ */
+export function bytesDidCodec(length?: number): DidCodec<Buffer> {
+  return {
+    length,
+    encode: (value) => Buffer.from(value),
+    decode: (data) => Buffer.from(data),
+  };
+}
@@ -0,0 +1,848 @@
+/**
+ * XCP on CAN/CANFD 主站
+ * 连接和种子/密钥解锁、存储区读写 (标定)、动态 DAQ 列表配置和 DAQ 数据包解码，可按 A2L 名称访问测量量和标定量
+ */
+
+import { EventEmitter } from 'events';
+import { ZlgCanError, startPollTimer } from '../driver';
+import { CanLink, CanLinkMessage } from './can-link';
+import { canFdDataLength } from './isotp';
+import {
+  XCP_COMMAND,
+  XCP_PID,
+  XCP_EVENT,
+  XcpByteOrder,
+  XcpDataType,
+  XcpCommandError,
+  XcpTimeoutError,
+  xcpDataTypeSize,
+  decodeXcpValue,
+  encodeXcpValue,
+} from './xcp';
+import { A2lDatabase, a2lToPhysical, a2lToRaw } from './a2l';
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * XCP 主站配置
+ */
+export interface XcpMasterConfig {
+  /** 主站 → 从站 (CMD/STIM) 的 CAN ID */
+  requestId: number;
+  /** 从站 → 主站 (RES/ERR/EV/DAQ) 的 CAN ID */
+  responseId: number;
+  /** 是否使用扩展帧 (29-bit ID)，默认 false */
+  extended?: boolean;
+  /** 使用 CANFD 帧发送，默认 false */
+  fd?: boolean;
+  /** CANFD 比特率切换，默认 false */
+  brs?: boolean;
+  /** 将发送帧填充到 8 字节 (CANFD 为下一个有效长度)，默认 true */
+  padding?: boolean;
+  /** 填充字节，默认 0x00 */
+  paddingByte?: number;
+  /** 命令响应超时时间 T1 (ms)，默认 1000 */
+  timeout?: number;
+}
+
+/**
+ * CONNECT 响应
+ */
+export interface XcpConnectInfo {
+  /** 可用资源 (XCP_RESOURCE 位组合) */
+  resources: number;
+  /** 从站字节序 */
+  byteOrder: XcpByteOrder;
+  /** 地址粒度 (字节) */
+  addressGranularity: number;
+  /** 从站支持块传输模式 */
+  slaveBlockMode: boolean;
+  /** 最大命令包长度 */
+  maxCto: number;
+  /** 最大数据包长度 */
+  maxDto: number;
+  /** 协议层版本 */
+  protocolVersion: number;
+  /** 传输层版本 */
+  transportVersion: number;
+}
+
+/**
+ * GET_STATUS 响应
+ */
+export interface XcpStatus {
+  /** 会话状态 */
+  sessionStatus: number;
+  /** 被锁定的资源 (XCP_RESOURCE 位组合) */
+  protection: number;
+  /** 会话配置 ID */
+  sessionConfigurationId: number;
+}
+
+/**
+ * GET_DAQ_RESOLUTION_INFO 响应
+ */
+export interface XcpDaqResolution {
+  /** DAQ ODT 条目长度粒度 */
+  granularityOdtEntrySize: number;
+  /** DAQ ODT 条目最大长度 */
+  maxOdtEntrySize: number;
+  /** 时间戳长度 (字节)，0 表示不支持时间戳 */
+  timestampSize: number;
+  /** 时间戳是否固定存在 */
+  timestampFixed: boolean;
+  /** 每个时间戳计数对应的时间 (μs) */
+  timestampResolution: number;
+}
+
+/**
+ * 密钥计算函数
+ * @param seed 从站种子
+ * @param resource 待解锁资源 (XCP_RESOURCE)
+ */
+export type XcpKeyFunction = (seed: Buffer, resource: number) => Uint8Array | number[] | Promise<Uint8Array | number[]>;
+
+/**
+ * DAQ 信号
+ */
+export interface XcpDaqSignal {
+  /** 信号名，配置了 A2L 且省略地址时作为测量量名称查找 */
+  name: string;
+  /** ECU 地址 */
+  address?: number;
+  /** 地址扩展，默认 0 */
+  addressExtension?: number;
+  /** 数据类型 */
+  dataType?: XcpDataType;
+  /** 字节序，默认使用从站字节序 */
+  byteOrder?: XcpByteOrder;
+}
+
+/**
+ * DAQ 列表配置
+ */
+export interface XcpDaqListConfig {
+  /** 事件通道号 */
+  eventChannel: number;
+  /** 预分频，默认 1 */
+  prescaler?: number;
+  /** 优先级，默认 0 */
+  priority?: number;
+  /** 是否带 ECU 时间戳，默认 true (从站不支持时忽略) */
+  timestamp?: boolean;
+  /** 信号 (字符串表示 A2L 测量量名称)，按顺序打包到 ODT 中 */
+  signals: (XcpDaqSignal | string)[];
+}
+
+/**
+ * 解码的 DAQ 采样
+ */
+export interface XcpDaqSample {
+  /** DAQ 列表在 configureDaq() 参数中的序号 */
+  list: number;
+  /** 信号名 → 值 (A2L 测量量为物理值) */
+  values: Record<string, number | bigint>;
+  /** ECU 时间戳计数 */
+  ecuTimestamp?: number;
+  /** ECU 时间戳 (μs) */
+  ecuTime?: number;
+  /** 最后一个 ODT 的接收时间戳 */
+  timestamp?: bigint | number;
+}
+
+/**
+ * 已配置的 ODT 条目
+ */
+interface OdtEntry {
+  name: string;
+  address: number;
+  addressExtension: number;
+  dataType: XcpDataType;
+  byteOrder: XcpByteOrder;
+  convert?: (raw: number) => number;
+}
+
+/**
+ * 已配置的 DAQ 列表
+ */
+interface DaqList {
+  number: number;
+  config: XcpDaqListConfig;
+  timestamp: boolean;
+  odts: OdtEntry[][];
+  firstPid: number;
+  pending: { values: Record<string, number | bigint>; nextOdt: number; ecuTimestamp?: number } | null;
+}
+
+/**
+ * 等待中的命令响应
+ */
+interface PendingCommand {
+  resolve: (data: Buffer) => void;
+  /** 收到 EV_CMD_PENDING 时重新计时 */
+  restart: () => void;
+}
+
+const TIMESTAMP_UNITS_US = [0.001, 0.01, 0.1, 1, 10, 100, 1000, 10000, 100000, 1000000];
+
+// ============================================================================
+// 主站
+// ============================================================================
+
+/**
+ * XCP 主站事件
+ */
+export interface XcpMasterEvents {
+  /** 完整接收一个 DAQ 列表的全部 ODT */
+  daq: (sample: XcpDaqSample) => void;
+  /** 收到事件包 (XCP_EVENT) */
+  event: (code: number, data: Buffer) => void;
+  /** 收到服务请求包 */
+  serviceRequest: (code: number, data: Buffer) => void;
+  /** 轮询失败 (没有监听器时忽略) */
+  error: (error: Error) => void;
+}
+
+export interface XcpMaster {
+  on<E extends keyof XcpMasterEvents>(event: E, listener: XcpMasterEvents[E]): this;
+  once<E extends keyof XcpMasterEvents>(event: E, listener: XcpMasterEvents[E]): this;
+  off<E extends keyof XcpMasterEvents>(event: E, listener: XcpMasterEvents[E]): this;
+  emit<E extends keyof XcpMasterEvents>(event: E, ...args: Parameters<XcpMasterEvents[E]>): boolean;
+}
+
+/**
+ * XCP on CAN/CANFD 主站
+ *
+ * 接收的帧由 poll() 处理 (start() 开始周期轮询)，命令按调用顺序依次执行。
+ * 存储区访问仅支持字节地址粒度，DAQ 仅支持动态配置和绝对 ODT 编号的 PID
+ */
+export class XcpMaster extends EventEmitter {
+  private readonly config: Required<XcpMasterConfig>;
+  private info: XcpConnectInfo | null = null;
+  private a2l: A2lDatabase | null = null;
+  private pending: PendingCommand | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private daqLists: DaqList[] = [];
+  private readonly pidMap = new Map<number, [DaqList, number]>();
+  private resolution: XcpDaqResolution | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly link: CanLink, config: XcpMasterConfig) {
+    super();
+    this.config = {
+      extended: false,
+      fd: false,
+      brs: false,
+      padding: true,
+      paddingByte: 0x00,
+      timeout: 1000,
+      ...config,
+    };
+  }
+
+  // ============================================================================
+  // 轮询
+  // ============================================================================
+
+  /**
+   * 开始周期轮询接收帧
+   * @param interval 轮询间隔 (ms)，默认 1
+   */
+  start(interval: number = 1): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+    this.pollTimer = startPollTimer(this, interval, () => this.poll());
+  }
+
+  /**
+   * 停止轮询
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * 是否正在轮询
+   */
+  isRunning(): boolean {
+    return this.pollTimer !== null;
+  }
+
+  /**
+   * 读取并处理已接收的帧
+   * @param maxCount 最大读取数量，默认 100
+   */
+  poll(maxCount: number = 100): void {
+    for (const frame of this.link.receive(maxCount)) {
+      this.handleFrame(frame);
+    }
+  }
+
+  /**
+   * 处理一帧，其它 ID 的帧被忽略
+   */
+  handleFrame(frame: CanLinkMessage): void {
+    if (frame.id !== this.config.responseId || !!frame.isExtended !== this.config.extended || frame.isRemote || frame.data.length === 0) {
+      return;
+    }
+    const data = Buffer.from(frame.data);
+    const pid = data[0];
+    if (pid === XCP_PID.RESPONSE || pid === XCP_PID.ERROR) {
+      this.pending?.resolve(data);
+    } else if (pid === XCP_PID.EVENT) {
+      if (data[1] === XCP_EVENT.CMD_PENDING) {
+        this.pending?.restart();
+      }
+      this.emit('event', data[1], data.subarray(2));
+    } else if (pid === XCP_PID.SERVICE_REQUEST) {
+      this.emit('serviceRequest', data[1], data.subarray(2));
+    } else {
+      this.handleDaq(pid, data, frame.timestamp);
+    }
+  }
+
+  // ============================================================================
+  // 会话
+  // ============================================================================
+
+  /**
+   * 连接从站
+   * @param mode 0 正常，1 用户自定义
+   */
+  async connect(mode: number = 0): Promise<XcpConnectInfo> {
+    const response = await this.command([XCP_COMMAND.CONNECT, mode]);
+    const byteOrder: XcpByteOrder = response[2] & 0x01 ? 'motorola' : 'intel';
+    this.info = {
+      resources: response[1],
+      byteOrder,
+      addressGranularity: 1 << ((response[2] >> 1) & 0x03),
+      slaveBlockMode: (response[2] & 0x40) !== 0,
+      maxCto: response[3],
+      maxDto: byteOrder === 'intel' ? response.readUInt16LE(4) : response.readUInt16BE(4),
+      protocolVersion: response[6],
+      transportVersion: response[7],
+    };
+    return { ...this.info };
+  }
+
+  /**
+   * 断开连接
+   */
+  async disconnect(): Promise<void> {
+    await this.command([XCP_COMMAND.DISCONNECT]);
+    this.info = null;
+  }
+
+  /**
+   * 连接信息 (未连接时为 null)
+   */
+  getConnectInfo(): XcpConnectInfo | null {
+    return this.info ? { ...this.info } : null;
+  }
+
+  /**
+   * 查询会话状态和资源保护状态
+   */
+  async getStatus(): Promise<XcpStatus> {
+    const response = await this.command([XCP_COMMAND.GET_STATUS]);
+    return {
+      sessionStatus: response[1],
+      protection: response[2],
+      sessionConfigurationId: this.readUInt(response, 4, 2),
+    };
+  }
+
+  /**
+   * 请求种子，超过一个响应包的种子分多次获取
+   * @param resource 资源 (XCP_RESOURCE 中的一位)
+   * @returns 种子，资源未被保护时为空
+   */
+  async getSeed(resource: number): Promise<Buffer> {
+    let response = await this.command([XCP_COMMAND.GET_SEED, 0, resource]);
+    const length = response[1];
+    const parts = [response.subarray(2, 2 + Math.min(length, this.connected().maxCto - 2))];
+    let received = parts[0].length;
+    while (received < length) {
+      response = await this.command([XCP_COMMAND.GET_SEED, 1]);
+      const part = response.subarray(2, 2 + Math.min(response[1], this.connected().maxCto - 2));
+      if (part.length === 0) {
+        throw new ZlgCanError('getSeed', undefined, '种子数据不完整');
+      }
+      parts.push(part);
+      received += part.length;
+    }
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * 种子/密钥解锁资源
+   * @returns 解锁后仍被保护的资源 (XCP_RESOURCE 位组合)
+   */
+  async unlock(resource: number, keyFunction: XcpKeyFunction): Promise<number> {
+    const seed = await this.getSeed(resource);
+    if (seed.length === 0) {
+      return (await this.getStatus()).protection;
+    }
+    const key = Buffer.from(await keyFunction(seed, resource));
+    const chunk = this.connected().maxCto - 2;
+    let protection = 0;
+    for (let offset = 0; offset < key.length; offset += chunk) {
+      const part = key.subarray(offset, offset + chunk);
+      const response = await this.command([XCP_COMMAND.UNLOCK, key.length - offset, ...part]);
+      protection = response[1];
+    }
+    return protection;
+  }
+
+  // ============================================================================
+  // 存储区访问
+  // ============================================================================
+
+  /**
+   * 设置存储区传输地址 (MTA)
+   */
+  async setMta(address: number, addressExtension: number = 0): Promise<void> {
+    await this.command([XCP_COMMAND.SET_MTA, 0, 0, addressExtension, ...this.uint(address, 4)]);
+  }
+
+  /**
+   * 单条命令读取存储区 (SHORT_UPLOAD)
+   * @throws {RangeError} 长度超过 MAX_CTO - 1 时抛出异常
+   */
+  async shortUpload(address: number, length: number, addressExtension: number = 0): Promise<Buffer> {
+    const max = this.byteAddressed().maxCto - 1;
+    if (length < 1 || length > max) {
+      throw new RangeError(`SHORT_UPLOAD 长度必须为 1-${max}: ${length}`);
+    }
+    const response = await this.command([XCP_COMMAND.SHORT_UPLOAD, length, 0, addressExtension, ...this.uint(address, 4)]);
+    return Buffer.from(response.subarray(1, 1 + length));
+  }
+
+  /**
+   * 单条命令写入存储区 (SHORT_DOWNLOAD，CAN 上需 MAX_CTO 大于 8)
+   * @throws {RangeError} 数据超过 MAX_CTO - 8 时抛出异常
+   */
+  async shortDownload(address: number, data: Buffer | number[], addressExtension: number = 0): Promise<void> {
+    const max = this.byteAddressed().maxCto - 8;
+    if (data.length < 1 || data.length > max) {
+      throw new RangeError(`SHORT_DOWNLOAD 长度必须为 1-${max}: ${data.length}`);
+    }
+    await this.command([XCP_COMMAND.SHORT_DOWNLOAD, data.length, 0, addressExtension, ...this.uint(address, 4), ...data]);
+  }
+
+  /**
+   * 读取存储区，按 MAX_CTO 拆分为多条 SHORT_UPLOAD
+   */
+  async readMemory(address: number, length: number, addressExtension: number = 0): Promise<Buffer> {
+    const chunk = this.byteAddressed().maxCto - 1;
+    const parts: Buffer[] = [];
+    for (let offset = 0; offset < length; offset += chunk) {
+      parts.push(await this.shortUpload(address + offset, Math.min(chunk, length - offset), addressExtension));
+    }
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * 写入存储区
+   *
+   * 数据可放入一条 SHORT_DOWNLOAD 时直接发送，否则 SET_MTA 后按 MAX_CTO 拆分为多条 DOWNLOAD，数据为空时不发送命令
+   */
+  async writeMemory(address: number, data: Buffer | number[], addressExtension: number = 0): Promise<void> {
+    const bytes = Buffer.from(data);
+    const { maxCto } = this.byteAddressed();
+    if (bytes.length === 0) {
+      return;
+    }
+    if (bytes.length <= maxCto - 8) {
+      await this.shortDownload(address, bytes, addressExtension);
+      return;
+    }
+    await this.setMta(address, addressExtension);
+    const chunk = maxCto - 2;
+    for (let offset = 0; offset < bytes.length; offset += chunk) {
+      const part = bytes.subarray(offset, offset + chunk);
+      await this.command([XCP_COMMAND.DOWNLOAD, part.length, ...part]);
+    }
+  }
+
+  // ============================================================================
+  // A2L
+  // ============================================================================
+
+  /**
+   * 设置 A2L 数据库，用于按名称访问测量量和标定量
+   */
+  setA2l(database: A2lDatabase | null): void {
+    this.a2l = database;
+  }
+
+  /**
+   * 读取测量量的物理值 (数组测量量返回数组)
+   * @throws {ZlgCanError} 未设置 A2L 或测量量不存在时抛出异常
+   */
+  async readMeasurement(name: string): Promise<number | bigint | (number | bigint)[]> {
+    const a2l = this.requireA2l('readMeasurement');
+    const measurement = a2l.measurements.get(name);
+    if (!measurement) {
+      throw new ZlgCanError('readMeasurement', undefined, `A2L 中不存在测量量 ${name}`);
+    }
+    const size = xcpDataTypeSize(measurement.dataType);
+    const data = await this.readMemory(measurement.address, size * measurement.arraySize, measurement.addressExtension);
+    const method = a2l.compuMethods.get(measurement.conversion);
+    const values = Array.from({ length: measurement.arraySize }, (_, i) => {
+      const raw = decodeXcpValue(measurement.dataType, data, measurement.byteOrder ?? a2l.byteOrder, i * size);
+      return typeof raw === 'bigint' ? raw : a2lToPhysical(method, raw);
+    });
+    return measurement.arraySize === 1 ? values[0] : values;
+  }
+
+  /**
+   * 读取标定量的物理值
+   * - VALUE 返回数值，VAL_BLK 返回数组，ASCII 返回字符串
+   * @throws {ZlgCanError} 未设置 A2L、标定量不存在或类型不支持时抛出异常
+   */
+  async readCharacteristic(name: string): Promise<number | bigint | (number | bigint)[] | string> {
+    const [a2l, characteristic] = this.characteristic('readCharacteristic', name);
+    const size = xcpDataTypeSize(characteristic.dataType);
+    const data = await this.readMemory(characteristic.address, size * characteristic.count, characteristic.addressExtension);
+    if (characteristic.type === 'ASCII') {
+      return data.toString('latin1').replace(/\0.*$/s, '');
+    }
+    const method = a2l.compuMethods.get(characteristic.conversion);
+    const values = Array.from({ length: characteristic.count }, (_, i) => {
+      const raw = decodeXcpValue(characteristic.dataType, data, characteristic.byteOrder ?? a2l.byteOrder, i * size);
+      return typeof raw === 'bigint' ? raw : a2lToPhysical(method, raw);
+    });
+    return characteristic.type === 'VALUE' ? values[0] : values;
+  }
+
+  /**
+   * 写入标定量的物理值
+   * - VALUE 为数值，VAL_BLK 为数组，ASCII 为字符串 (以 0x00 填充至 NUMBER 长度)
+   * @throws {RangeError} 物理值超出上下限时抛出异常
+   * @throws {ZlgCanError} 未设置 A2L、标定量不存在或类型不支持时抛出异常
+   */
+  async writeCharacteristic(name: string, value: number | bigint | (number | bigint)[] | string): Promise<void> {
+    const [a2l, characteristic] = this.characteristic('writeCharacteristic', name);
+    if (characteristic.type === 'ASCII') {
+      const text = Buffer.alloc(characteristic.count);
+      Buffer.from(String(value), 'latin1').copy(text, 0, 0, characteristic.count);
+      await this.writeMemory(characteristic.address, text, characteristic.addressExtension);
+      return;
+    }
+    if (typeof value === 'string') {
+      throw new ZlgCanError('writeCharacteristic', undefined, `标定量 ${name} 需要数值`);
+    }
+    const values = Array.isArray(value) ? value : [value];
+    if (values.length !== characteristic.count) {
+      throw new ZlgCanError('writeCharacteristic', undefined, `标定量 ${name} 需要 ${characteristic.count} 个数值`);
+    }
+    const method = a2l.compuMethods.get(characteristic.conversion);
+    const data = Buffer.concat(values.map((physical) => {
+      if (physical < characteristic.lowerLimit || physical > characteristic.upperLimit) {
+        throw new RangeError(`标定量 ${name} 的值 ${physical} 超出范围 [${characteristic.lowerLimit}, ${characteristic.upperLimit}]`);
+      }
+      const raw = typeof physical === 'bigint' ? physical : a2lToRaw(method, physical);
+      return encodeXcpValue(characteristic.dataType, raw, characteristic.byteOrder ?? a2l.byteOrder);
+    }));
+    await this.writeMemory(characteristic.address, data, characteristic.addressExtension);
+  }
+
+  private requireA2l(operation: string): A2lDatabase {
+    if (!this.a2l) {
+      throw new ZlgCanError(operation, undefined, '未设置 A2L 数据库');
+    }
+    return this.a2l;
+  }
+
+  private characteristic(operation: string, name: string): [A2lDatabase, NonNullable<ReturnType<A2lDatabase['characteristics']['get']>>] {
+    const a2l = this.requireA2l(operation);
+    const characteristic = a2l.characteristics.get(name);
+    if (!characteristic) {
+      throw new ZlgCanError(operation, undefined, `A2L 中不存在标定量 ${name}`);
+    }
+    if (characteristic.type !== 'VALUE' && characteristic.type !== 'VAL_BLK' && characteristic.type !== 'ASCII') {
+      throw new ZlgCanError(operation, undefined, `不支持的标定量类型 ${characteristic.type}: ${name}`);
+    }
+    return [a2l, characteristic];
+  }
+
+  // ============================================================================
+  // DAQ
+  // ============================================================================
+
+  /**
+   * 查询 DAQ 分辨率和时间戳信息
+   */
+  async getDaqResolutionInfo(): Promise<XcpDaqResolution> {
+    const response = await this.command([XCP_COMMAND.GET_DAQ_RESOLUTION_INFO]);
+    const mode = response[5];
+    const size = mode & 0x07;
+    const unit = TIMESTAMP_UNITS_US[mode >> 4] ?? 1;
+    return {
+      granularityOdtEntrySize: response[1],
+      maxOdtEntrySize: response[2],
+      timestampSize: size,
+      timestampFixed: (mode & 0x08) !== 0,
+      timestampResolution: this.readUInt(response, 6, 2) * unit,
+    };
+  }
+
+  /**
+   * 配置动态 DAQ 列表
+   *
+   * 释放已有配置后按 MAX_DTO 将信号依次打包到 ODT 中 (第一个 ODT 预留时间戳)，
+   * 然后分配 DAQ 列表、ODT 和条目，写入条目地址并设置列表模式
+   * @throws {ZlgCanError} 从站不支持动态 DAQ、信号无法放入一个 ODT 或 A2L 中找不到信号时抛出异常
+   */
+  async configureDaq(lists: XcpDaqListConfig[]): Promise<void> {
+    const { maxDto, byteOrder } = this.connected();
+    const processor = await this.command([XCP_COMMAND.GET_DAQ_PROCESSOR_INFO]);
+    if ((processor[1] & 0x01) === 0) {
+      throw new ZlgCanError('configureDaq', undefined, '从站不支持动态 DAQ 配置');
+    }
+    if ((processor[7] >> 6) !== 0) {
+      throw new ZlgCanError('configureDaq', undefined, '仅支持绝对 ODT 编号的 PID');
+    }
+    const minDaq = processor[6];
+    const resolution = await this.getDaqResolutionInfo();
+    this.resolution = resolution;
+
+    const daqLists = lists.map((config, i): DaqList => {
+      const timestamp = (config.timestamp ?? true) && resolution.timestampSize > 0;
+      const odts: OdtEntry[][] = [[]];
+      let free = maxDto - 1 - (timestamp ? resolution.timestampSize : 0);
+      for (const signal of config.signals) {
+        const entry = this.resolveSignal(signal, byteOrder);
+        const size = xcpDataTypeSize(entry.dataType);
+        if (size > resolution.maxOdtEntrySize || size > maxDto - 1) {
+          throw new ZlgCanError('configureDaq', undefined, `信号 ${entry.name} 长度 ${size} 超过 ODT 条目上限`);
+        }
+        if (size > free) {
+          odts.push([]);
+          free = maxDto - 1;
+        }
+        odts[odts.length - 1].push(entry);
+        free -= size;
+      }
+      return { number: minDaq + i, config, timestamp, odts, firstPid: 0, pending: null };
+    });
+
+    await this.command([XCP_COMMAND.FREE_DAQ]);
+    this.daqLists = [];
+    this.pidMap.clear();
+    await this.command([XCP_COMMAND.ALLOC_DAQ, 0, ...this.uint(daqLists.length, 2)]);
+    for (const list of daqLists) {
+      await this.command([XCP_COMMAND.ALLOC_ODT, 0, ...this.uint(list.number, 2), list.odts.length]);
+    }
+    for (const list of daqLists) {
+      for (let odt = 0; odt < list.odts.length; odt++) {
+        await this.command([XCP_COMMAND.ALLOC_ODT_ENTRY, 0, ...this.uint(list.number, 2), odt, list.odts[odt].length]);
+      }
+    }
+    for (const list of daqLists) {
+      for (let odt = 0; odt < list.odts.length; odt++) {
+        await this.command([XCP_COMMAND.SET_DAQ_PTR, 0, ...this.uint(list.number, 2), odt, 0]);
+        for (const entry of list.odts[odt]) {
+          await this.command([
+            XCP_COMMAND.WRITE_DAQ, 0xFF, xcpDataTypeSize(entry.dataType), entry.addressExtension, ...this.uint(entry.address, 4),
+          ]);
+        }
+      }
+      await this.command([
+        XCP_COMMAND.SET_DAQ_LIST_MODE,
+        list.timestamp ? 0x10 : 0x00,
+        ...this.uint(list.number, 2),
+        ...this.uint(list.config.eventChannel, 2),
+        list.config.prescaler ?? 1,
+        list.config.priority ?? 0,
+      ]);
+    }
+    this.daqLists = daqLists;
+  }
+
+  /**
+   * 同时启动已配置的全部 DAQ 列表
+   */
+  async startDaq(): Promise<void> {
+    if (this.daqLists.length === 0) {
+      throw new ZlgCanError('startDaq', undefined, '未配置 DAQ 列表');
+    }
+    this.pidMap.clear();
+    for (const list of this.daqLists) {
+      const response = await this.command([XCP_COMMAND.START_STOP_DAQ_LIST, 2, ...this.uint(list.number, 2)]);
+      list.firstPid = response[1];
+      list.pending = null;
+      list.odts.forEach((_, odt) => this.pidMap.set(list.firstPid + odt, [list, odt]));
+    }
+    await this.command([XCP_COMMAND.START_STOP_SYNCH, 1]);
+  }
+
+  /**
+   * 停止全部 DAQ 列表
+   */
+  async stopDaq(): Promise<void> {
+    await this.command([XCP_COMMAND.START_STOP_SYNCH, 0]);
+    this.pidMap.clear();
+  }
+
+  private resolveSignal(signal: XcpDaqSignal | string, byteOrder: XcpByteOrder): OdtEntry {
+    const config = typeof signal === 'string' ? { name: signal } : signal;
+    if (config.address !== undefined && config.dataType !== undefined) {
+      return {
+        name: config.name,
+        address: config.address,
+        addressExtension: config.addressExtension ?? 0,
+        dataType: config.dataType,
+        byteOrder: config.byteOrder ?? byteOrder,
+      };
+    }
+    const measurement = this.a2l?.measurements.get(config.name);
+    if (!measurement) {
+      throw new ZlgCanError('configureDaq', undefined, `信号 ${config.name} 未指定地址和数据类型，且 A2L 中不存在该测量量`);
+    }
+    const method = this.a2l!.compuMethods.get(measurement.conversion);
+    return {
+      name: config.name,
+      address: measurement.address,
+      addressExtension: measurement.addressExtension,
+      dataType: measurement.dataType,
+      byteOrder: config.byteOrder ?? measurement.byteOrder ?? this.a2l!.byteOrder,
+      convert: (raw) => a2lToPhysical(method, raw),
+    };
+  }
+
+  private handleDaq(pid: number, data: Buffer, timestamp?: bigint | number): void {
+    const target = this.pidMap.get(pid);
+    if (!target) {
+      return;
+    }
+    const [list, odt] = target;
+    let offset = 1;
+    if (odt === 0) {
+      list.pending = { values: {}, nextOdt: 0 };
+      if (list.timestamp) {
+        const size = this.resolution!.timestampSize;
+        list.pending.ecuTimestamp = this.readUInt(data, 1, size);
+        offset += size;
+      }
+    }
+    const pending = list.pending;
+    if (!pending || pending.nextOdt !== odt) {
+      // 丢失了前面的 ODT，放弃本次采样
+      list.pending = null;
+      return;
+    }
+    for (const entry of list.odts[odt]) {
+      const raw = decodeXcpValue(entry.dataType, data, entry.byteOrder, offset);
+      pending.values[entry.name] = entry.convert && typeof raw === 'number' ? entry.convert(raw) : raw;
+      offset += xcpDataTypeSize(entry.dataType);
+    }
+    pending.nextOdt++;
+    if (pending.nextOdt < list.odts.length) {
+      return;
+    }
+
+    list.pending = null;
+    const sample: XcpDaqSample = { list: this.daqLists.indexOf(list), values: pending.values, timestamp };
+    if (pending.ecuTimestamp !== undefined) {
+      sample.ecuTimestamp = pending.ecuTimestamp;
+      sample.ecuTime = pending.ecuTimestamp * this.resolution!.timestampResolution;
+    }
+    this.emit('daq', sample);
+  }
+
+  // ============================================================================
+  // 命令收发
+  // ============================================================================
+
+  /**
+   * 发送命令并等待积极响应
+   * @throws {XcpCommandError} 从站返回错误响应时抛出异常
+   * @throws {XcpTimeoutError} 超时未收到响应时抛出异常
+   */
+  private command(data: number[]): Promise<Buffer> {
+    const result = this.queue.then(() => this.execute(data));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private execute(data: number[]): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      let timer: NodeJS.Timeout;
+      const arm = (): void => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          this.pending = null;
+          reject(new XcpTimeoutError(data[0]));
+        }, this.config.timeout);
+      };
+      this.pending = {
+        resolve: (response) => {
+          clearTimeout(timer);
+          this.pending = null;
+          if (response[0] === XCP_PID.ERROR) {
+            reject(new XcpCommandError(data[0], response[1]));
+          } else {
+            resolve(response);
+          }
+        },
+        restart: arm,
+      };
+      arm();
+      try {
+        this.transmit(data);
+      } catch (error) {
+        clearTimeout(timer!);
+        this.pending = null;
+        reject(error);
+      }
+    });
+  }
+
+  private transmit(bytes: number[]): void {
+    const { requestId, extended, fd, brs, padding, paddingByte } = this.config;
+    let length = bytes.length;
+    if (padding) {
+      length = fd ? canFdDataLength(length) : 8;
+    }
+    const data = Buffer.alloc(Math.max(length, bytes.length), paddingByte);
+    Buffer.from(bytes).copy(data);
+    this.link.transmit(fd ? { id: requestId, data, isExtended: extended, brs } : { id: requestId, data, isExtended: extended });
+  }
+
+  private connected(): XcpConnectInfo {
+    if (!this.info) {
+      throw new ZlgCanError('XCP', undefined, '未连接从站');
+    }
+    return this.info;
+  }
+
+  private byteAddressed(): XcpConnectInfo {
+    const info = this.connected();
+    if (info.addressGranularity !== 1) {
+      throw new ZlgCanError('XCP', undefined, `不支持的地址粒度: ${info.addressGranularity} 字节`);
+    }
+    return info;
+  }
+
+  private uint(value: number, size: number): number[] {
+    const data = Buffer.alloc(size);
+    if (this.info?.byteOrder === 'motorola') {
+      data.writeUIntBE(value, 0, size);
+    } else {
+      data.writeUIntLE(value, 0, size);
+    }
+    return Array.from(data);
+  }
+
+  private readUInt(data: Buffer, offset: number, size: number): number {
+    return this.info?.byteOrder === 'motorola' ? data.readUIntBE(offset, size) : data.readUIntLE(offset, size);
+  }
+}
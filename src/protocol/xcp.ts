@@ -0,0 +1,319 @@
+/**
+ * XCP 常量、数据类型和异常 (ASAM MCD-1 XCP)
+ * 命令码、错误码、资源保护位、测量/标定数据类型编解码和命令异常
+ */
+
+import { ZlgCanError, ErrorLocale, getErrorLocale } from '../driver';
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/**
+ * 命令码 (CTO 首字节)
+ */
+export const XCP_COMMAND = {
+  CONNECT: 0xFF,
+  DISCONNECT: 0xFE,
+  GET_STATUS: 0xFD,
+  SYNCH: 0xFC,
+  GET_COMM_MODE_INFO: 0xFB,
+  GET_ID: 0xFA,
+  GET_SEED: 0xF8,
+  UNLOCK: 0xF7,
+  SET_MTA: 0xF6,
+  UPLOAD: 0xF5,
+  SHORT_UPLOAD: 0xF4,
+  DOWNLOAD: 0xF0,
+  DOWNLOAD_NEXT: 0xEF,
+  SHORT_DOWNLOAD: 0xED,
+  SET_CAL_PAGE: 0xEB,
+  GET_CAL_PAGE: 0xEA,
+  CLEAR_DAQ_LIST: 0xE3,
+  SET_DAQ_PTR: 0xE2,
+  WRITE_DAQ: 0xE1,
+  SET_DAQ_LIST_MODE: 0xE0,
+  START_STOP_DAQ_LIST: 0xDE,
+  START_STOP_SYNCH: 0xDD,
+  GET_DAQ_CLOCK: 0xDC,
+  GET_DAQ_PROCESSOR_INFO: 0xDA,
+  GET_DAQ_RESOLUTION_INFO: 0xD9,
+  FREE_DAQ: 0xD6,
+  ALLOC_DAQ: 0xD5,
+  ALLOC_ODT: 0xD4,
+  ALLOC_ODT_ENTRY: 0xD3,
+} as const;
+
+/**
+ * 从站 → 主站数据包标识 (PID)
+ */
+export const XCP_PID = {
+  /** 积极响应 */
+  RESPONSE: 0xFF,
+  /** 错误 */
+  ERROR: 0xFE,
+  /** 事件 */
+  EVENT: 0xFD,
+  /** 服务请求 */
+  SERVICE_REQUEST: 0xFC,
+} as const;
+
+/**
+ * 错误码
+ */
+export const XCP_ERROR = {
+  CMD_SYNCH: 0x00,
+  CMD_BUSY: 0x10,
+  DAQ_ACTIVE: 0x11,
+  PGM_ACTIVE: 0x12,
+  CMD_UNKNOWN: 0x20,
+  CMD_SYNTAX: 0x21,
+  OUT_OF_RANGE: 0x22,
+  WRITE_PROTECTED: 0x23,
+  ACCESS_DENIED: 0x24,
+  ACCESS_LOCKED: 0x25,
+  PAGE_NOT_VALID: 0x26,
+  MODE_NOT_VALID: 0x27,
+  SEGMENT_NOT_VALID: 0x28,
+  SEQUENCE: 0x29,
+  DAQ_CONFIG: 0x2A,
+  MEMORY_OVERFLOW: 0x30,
+  GENERIC: 0x31,
+  VERIFY: 0x32,
+  RESOURCE_TEMPORARY_NOT_ACCESSIBLE: 0x33,
+  SUBCMD_UNKNOWN: 0x34,
+} as const;
+
+/**
+ * 事件码
+ */
+export const XCP_EVENT = {
+  RESUME_MODE: 0x00,
+  CLEAR_DAQ: 0x01,
+  STORE_DAQ: 0x02,
+  STORE_CAL: 0x03,
+  CMD_PENDING: 0x05,
+  DAQ_OVERLOAD: 0x06,
+  SESSION_TERMINATED: 0x07,
+  TIME_SYNC: 0x08,
+  STIM_TIMEOUT: 0x09,
+  SLEEP: 0x0A,
+  WAKE_UP: 0x0B,
+  USER: 0xFE,
+  TRANSPORT: 0xFF,
+} as const;
+
+/**
+ * 资源 (CONNECT 响应的可用资源和 GET_SEED/UNLOCK 的保护位)
+ */
+export const XCP_RESOURCE = {
+  CAL_PAG: 0x01,
+  DAQ: 0x04,
+  STIM: 0x08,
+  PGM: 0x10,
+} as const;
+
+/**
+ * 多字节参数的字节序 (由 CONNECT 响应决定)
+ */
+export type XcpByteOrder = 'intel' | 'motorola';
+
+/**
+ * 测量/标定数据类型 (与 A2L 数据类型名称一致)
+ */
+export type XcpDataType =
+  | 'UBYTE'
+  | 'SBYTE'
+  | 'UWORD'
+  | 'SWORD'
+  | 'ULONG'
+  | 'SLONG'
+  | 'A_UINT64'
+  | 'A_INT64'
+  | 'FLOAT32_IEEE'
+  | 'FLOAT64_IEEE';
+
+const DATA_TYPE_SIZES: Record<XcpDataType, number> = {
+  UBYTE: 1,
+  SBYTE: 1,
+  UWORD: 2,
+  SWORD: 2,
+  ULONG: 4,
+  SLONG: 4,
+  A_UINT64: 8,
+  A_INT64: 8,
+  FLOAT32_IEEE: 4,
+  FLOAT64_IEEE: 8,
+};
+
+// ============================================================================
+// 数据类型编解码
+// ============================================================================
+
+/**
+ * 数据类型长度 (字节)
+ */
+export function xcpDataTypeSize(dataType: XcpDataType): number {
+  return DATA_TYPE_SIZES[dataType];
+}
+
+/**
+ * 判断是否为有效的数据类型名称
+ */
+export function isXcpDataType(name: string): name is XcpDataType {
+  return Object.prototype.hasOwnProperty.call(DATA_TYPE_SIZES, name);
+}
+
+const SIGNED_TYPES = new Set<XcpDataType>(['SBYTE', 'SWORD', 'SLONG', 'A_INT64']);
+
+/**
+ * 按数据类型解码，64 位整数为 bigint
+ */
+export function decodeXcpValue(dataType: XcpDataType, data: Buffer, byteOrder: XcpByteOrder = 'intel', offset: number = 0): number | bigint {
+  const size = DATA_TYPE_SIZES[dataType];
+  if (offset + size > data.length) {
+    throw new RangeError(`数据长度不足: ${dataType} 需要 ${size} 字节`);
+  }
+  // 统一转换为小端后解码
+  const bytes = Buffer.from(data.subarray(offset, offset + size));
+  if (byteOrder === 'motorola') {
+    bytes.reverse();
+  }
+  switch (dataType) {
+    case 'FLOAT32_IEEE':
+      return bytes.readFloatLE();
+    case 'FLOAT64_IEEE':
+      return bytes.readDoubleLE();
+    case 'A_UINT64':
+      return bytes.readBigUInt64LE();
+    case 'A_INT64':
+      return bytes.readBigInt64LE();
+  }
+  return SIGNED_TYPES.has(dataType) ? bytes.readIntLE(0, size) : bytes.readUIntLE(0, size);
+}
+
+/**
+ * 按数据类型编码，整数四舍五入
+ * @throws {RangeError} 值超出类型范围时抛出异常
+ */
+export function encodeXcpValue(dataType: XcpDataType, value: number | bigint, byteOrder: XcpByteOrder = 'intel'): Buffer {
+  const size = DATA_TYPE_SIZES[dataType];
+  const bytes = Buffer.alloc(size);
+  if (dataType === 'FLOAT32_IEEE') {
+    bytes.writeFloatLE(Number(value));
+  } else if (dataType === 'FLOAT64_IEEE') {
+    bytes.writeDoubleLE(Number(value));
+  } else {
+    const integer = typeof value === 'bigint' ? value : BigInt(Math.round(value));
+    const bits = BigInt(size * 8);
+    const signed = SIGNED_TYPES.has(dataType);
+    const min = signed ? -(1n << (bits - 1n)) : 0n;
+    const max = signed ? (1n << (bits - 1n)) - 1n : (1n << bits) - 1n;
+    if (integer < min || integer > max) {
+      throw new RangeError(`值 ${value} 超出 ${dataType} 范围`);
+    }
+    let raw = BigInt.asUintN(size * 8, integer);
+    for (let i = 0; i < size; i++) {
+      bytes[i] = Number(raw & 0xFFn);
+      raw >>= 8n;
+    }
+  }
+  return byteOrder === 'motorola' ? bytes.reverse() : bytes;
+}
+
+// ============================================================================
+// 异常
+// ============================================================================
+
+const ERROR_MESSAGES: Record<ErrorLocale, Record<number, string>> = {
+  zh: {
+    [XCP_ERROR.CMD_SYNCH]: '命令处理同步',
+    [XCP_ERROR.CMD_BUSY]: '命令正在处理',
+    [XCP_ERROR.DAQ_ACTIVE]: 'DAQ 运行中',
+    [XCP_ERROR.PGM_ACTIVE]: '编程进行中',
+    [XCP_ERROR.CMD_UNKNOWN]: '未知命令',
+    [XCP_ERROR.CMD_SYNTAX]: '命令语法错误',
+    [XCP_ERROR.OUT_OF_RANGE]: '参数超出范围',
+    [XCP_ERROR.WRITE_PROTECTED]: '存储区写保护',
+    [XCP_ERROR.ACCESS_DENIED]: '存储区不可访问',
+    [XCP_ERROR.ACCESS_LOCKED]: '资源被锁定，需要种子/密钥解锁',
+    [XCP_ERROR.PAGE_NOT_VALID]: '页无效',
+    [XCP_ERROR.MODE_NOT_VALID]: '页模式无效',
+    [XCP_ERROR.SEGMENT_NOT_VALID]: '段无效',
+    [XCP_ERROR.SEQUENCE]: '命令顺序错误',
+    [XCP_ERROR.DAQ_CONFIG]: 'DAQ 配置无效',
+    [XCP_ERROR.MEMORY_OVERFLOW]: '存储空间不足',
+    [XCP_ERROR.GENERIC]: '一般错误',
+    [XCP_ERROR.VERIFY]: '校验失败',
+    [XCP_ERROR.RESOURCE_TEMPORARY_NOT_ACCESSIBLE]: '资源暂时不可访问',
+    [XCP_ERROR.SUBCMD_UNKNOWN]: '未知子命令',
+  },
+  en: {
+    [XCP_ERROR.CMD_SYNCH]: 'command processor synchronization',
+    [XCP_ERROR.CMD_BUSY]: 'command was not executed',
+    [XCP_ERROR.DAQ_ACTIVE]: 'DAQ is running',
+    [XCP_ERROR.PGM_ACTIVE]: 'programming is running',
+    [XCP_ERROR.CMD_UNKNOWN]: 'unknown command',
+    [XCP_ERROR.CMD_SYNTAX]: 'command syntax invalid',
+    [XCP_ERROR.OUT_OF_RANGE]: 'parameter out of range',
+    [XCP_ERROR.WRITE_PROTECTED]: 'memory location is write protected',
+    [XCP_ERROR.ACCESS_DENIED]: 'memory location is not accessible',
+    [XCP_ERROR.ACCESS_LOCKED]: 'access denied, seed & key is required',
+    [XCP_ERROR.PAGE_NOT_VALID]: 'selected page not available',
+    [XCP_ERROR.MODE_NOT_VALID]: 'selected page mode not available',
+    [XCP_ERROR.SEGMENT_NOT_VALID]: 'selected segment not valid',
+    [XCP_ERROR.SEQUENCE]: 'sequence error',
+    [XCP_ERROR.DAQ_CONFIG]: 'DAQ configuration not valid',
+    [XCP_ERROR.MEMORY_OVERFLOW]: 'memory overflow error',
+    [XCP_ERROR.GENERIC]: 'generic error',
+    [XCP_ERROR.VERIFY]: 'verify routine detected an error',
+    [XCP_ERROR.RESOURCE_TEMPORARY_NOT_ACCESSIBLE]: 'resource temporarily not accessible',
+    [XCP_ERROR.SUBCMD_UNKNOWN]: 'unknown sub command',
+  },
+};
+
+const ERROR_RESPONSE: Record<ErrorLocale, string> = { zh: '错误响应', en: 'error response' };
+
+const TIMEOUT: Record<ErrorLocale, string> = { zh: '响应超时', en: 'response timeout' };
+
+function hex(value: number): string {
+  return `0x${value.toString(16).toUpperCase().padStart(2, '0')}`;
+}
+
+/**
+ * 从站返回错误响应
+ *
+ * command 为被拒绝的命令码，xcpError 为 XCP 错误码，errorCode 为空
+ */
+export class XcpCommandError extends ZlgCanError {
+  constructor(
+    public readonly command: number,
+    public readonly xcpError: number,
+  ) {
+    super(`XCP ${hex(command)}`, undefined, XcpCommandError.format(command, xcpError, getErrorLocale()));
+    this.name = 'XcpCommandError';
+  }
+
+  localizedMessage(locale: ErrorLocale): string {
+    return XcpCommandError.format(this.command, this.xcpError, locale);
+  }
+
+  private static format(command: number, xcpError: number, locale: ErrorLocale): string {
+    const description = ERROR_MESSAGES[locale][xcpError];
+    return `XCP ${hex(command)} ${ERROR_RESPONSE[locale]}: ${description ? `${description} (${hex(xcpError)})` : hex(xcpError)}`;
+  }
+}
+
+/**
+ * 在超时时间内未收到响应
+ */
+export class XcpTimeoutError extends ZlgCanError {
+  constructor(public readonly command: number) {
+    super(`XCP ${hex(command)}`, undefined, `XCP ${hex(command)} ${TIMEOUT[getErrorLocale()]}`);
+    this.name = 'XcpTimeoutError';
+  }
+
+  localizedMessage(locale: ErrorLocale): string {
+    return `XCP ${hex(this.command)} ${TIMEOUT[locale]}`;
+  }
+}
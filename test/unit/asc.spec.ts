@@ -0,0 +1,165 @@
+/**
+ * ASC 日志单元测试
+ * 验证 CAN/CANFD 报文的写入格式、绝对/相对时间戳、十进制模式、合并接收记录和 CANoe 日志解析
+ */
+
+import { expect } from 'chai';
+import { CanMessage, CanFdMessage, CanfdWifi100uTcp } from '../../src/device';
+import { FakeZlgCanLib } from '../../src/driver/fake';
+import { AscWriter, stringifyAsc, parseAsc, formatAscDate, parseAscDate } from '../../src/protocol/asc';
+
+const DATE = new Date(2026, 9, 19, 14, 15, 30, 123);
+
+const MESSAGES: { message: CanMessage | CanFdMessage; channel?: number; direction?: 'Rx' | 'Tx' }[] = [
+  { message: { id: 0x123, data: [0x01, 0x02, 0x03], timestamp: 1_000_000n } },
+  { message: { id: 0x18FEF100, isExtended: true, data: [0xAA, 0xBB], timestamp: 1_001_500n }, direction: 'Tx' },
+  { message: { id: 0x7FF, isRemote: true, data: Buffer.alloc(8), timestamp: 1_002_000n }, channel: 2 },
+  { message: { id: 0x456, data: Buffer.from(Array.from({ length: 12 }, (_, i) => i)), brs: true, esi: false, timestamp: 1_250_000n } },
+  { message: { id: 0x1ABCDEF, isExtended: true, data: [0x11], brs: false, esi: true, timestamp: 2_000_001n }, direction: 'Tx' },
+];
+
+function lines(text: string): string[] {
+  return text.split('\r\n');
+}
+
+describe('ASC 日志', () => {
+  it('按 Vector 格式写入 CAN 和 CANFD 报文', () => {
+    const text = stringifyAsc(MESSAGES, { date: DATE });
+    expect(lines(text).slice(0, 6)).to.deep.equal([
+      'date Mon Oct 19 02:15:30.123 pm 2026',
+      'base hex  timestamps absolute',
+      'internal events logged',
+      '// version 9.0.0',
+      'Begin Triggerblock Mon Oct 19 02:15:30.123 pm 2026',
+      '   0.000000 Start of measurement',
+    ]);
+    expect(lines(text).slice(6, 9)).to.deep.equal([
+      '   0.000000 1  123             Rx   d 3 01 02 03',
+      '   0.001500 1  18FEF100x       Tx   d 2 AA BB',
+      '   0.002000 2  7FF             Rx   r 8',
+    ]);
+    expect(lines(text)[9]).to.match(/^ {3}0\.250000 CANFD {3}1 Rx {8}456 1 0 9 12 00 01 02 03 04 05 06 07 08 09 0A 0B +0 +0 +3000 /);
+    expect(lines(text)[10]).to.match(/^ {3}1\.000001 CANFD {3}1 Tx {3}1ABCDEFx 0 1 1 {2}1 11 +0 +0 +5000 /);
+    expect(lines(text).slice(-2)).to.deep.equal(['End TriggerBlock', '']);
+  });
+
+  it('写入后解析得到相同的报文', () => {
+    const file = parseAsc(stringifyAsc(MESSAGES, { date: DATE }));
+    expect(file.base).to.equal('hex');
+    expect(file.timestamps).to.equal('absolute');
+    expect(file.date?.getTime()).to.equal(DATE.getTime());
+    expect(file.records.map((r) => [r.time, r.channel, r.direction])).to.deep.equal([
+      [0, 1, 'Rx'],
+      [1500, 1, 'Tx'],
+      [2000, 2, 'Rx'],
+      [250000, 1, 'Rx'],
+      [1000001, 1, 'Tx'],
+    ]);
+    const [classic, extended, remote, fd, fdEsi] = file.records.map((r) => r.message);
+    expect(classic).to.deep.equal({ id: 0x123, isExtended: false, data: Buffer.from([1, 2, 3]), timestamp: 0 });
+    expect(extended).to.include({ id: 0x18FEF100, isExtended: true });
+    expect(remote).to.include({ id: 0x7FF, isRemote: true });
+    expect(remote.data).to.have.length(8);
+    expect(fd).to.deep.equal({
+      id: 0x456, isExtended: false, data: Buffer.from(Array.from({ length: 12 }, (_, i) => i)), brs: true, esi: false, timestamp: 250000,
+    });
+    expect(fdEsi).to.include({ brs: false, esi: true });
+  });
+
+  it('相对时间戳和十进制模式', () => {
+    const text = stringifyAsc(MESSAGES, { date: DATE, timestamps: 'relative', base: 'dec' });
+    expect(text).to.contain('base dec  timestamps relative');
+    expect(text).to.contain('   0.001500 1  419361024x      Tx   d 2 170 187');
+    const file = parseAsc(text);
+    expect(file.base).to.equal('dec');
+    expect(file.timestamps).to.equal('relative');
+    expect(file.records.map((r) => r.time)).to.deep.equal([0, 1500, 2000, 250000, 1000001]);
+    expect(file.records[1].message).to.include({ id: 0x18FEF100, isExtended: true });
+    expect(Array.from(file.records[1].message.data)).to.deep.equal([0xAA, 0xBB]);
+  });
+
+  it('合并接收记录的发送回显写为 Tx', () => {
+    const chunks: string[] = [];
+    let ended = false;
+    const writer = new AscWriter({ write: (chunk) => chunks.push(chunk), end: () => { ended = true; } }, { date: DATE });
+    writer.writeRecord({ type: 'can', channel: 0, echoed: true, message: { id: 0x100, data: [1], timestamp: 500 } });
+    writer.writeRecord({ type: 'canfd', channel: 1, echoed: false, message: { id: 0x200, data: [2], brs: true, timestamp: 1500 } });
+    writer.writeRecord({
+      type: 'error',
+      channel: 0,
+      error: { timestamp: 2500, errorType: 1, errorSubType: 0, rxErrorCounter: 0, txErrorCounter: 0, errorData: 0 },
+    });
+    writer.close();
+    writer.close();
+
+    expect(ended).to.equal(true);
+    const text = chunks.join('');
+    expect(text).to.contain('   0.000000 1  100             Tx   d 1 01');
+    expect(text).to.contain('   0.002000 1  ErrorFrame');
+    const records = parseAsc(text).records;
+    expect(records.map((r) => [r.channel, r.direction, r.time])).to.deep.equal([[1, 'Tx', 0], [2, 'Rx', 1000]]);
+    expect(records[1].message).to.include({ brs: true, esi: false });
+    expect(() => writer.write({ id: 1, data: [] })).to.throw(/已关闭/);
+  });
+
+  it('receive() 返回的发送回显写为 Tx', () => {
+    const lib = new FakeZlgCanLib();
+    const device = new CanfdWifi100uTcp({ ip: '192.168.1.100', port: 8000, lib });
+    const other = new CanfdWifi100uTcp({ ip: '192.168.1.101', port: 8000, deviceIndex: 1, echo: false, lib });
+    device.open();
+    other.open();
+    try {
+      device.transmit({ id: 0x100, data: [1] });
+      device.transmit({ id: 0x200, data: [2], brs: true });
+      other.transmit({ id: 0x300, data: [3] });
+
+      const messages = device.receive();
+      expect(messages.map((m) => [m.id, m.echoed])).to.deep.equal([[0x100, true], [0x300, false], [0x200, true]]);
+      const chunks: string[] = [];
+      const writer = new AscWriter({ write: (chunk) => chunks.push(chunk) }, { date: DATE });
+      writer.writeMessages(messages);
+      writer.close();
+      const records = parseAsc(chunks.join('')).records;
+      expect(records.map((r) => [r.message.id, r.direction])).to.deep.equal([[0x100, 'Tx'], [0x300, 'Rx'], [0x200, 'Tx']]);
+    } finally {
+      device.close();
+      other.close();
+    }
+  });
+
+  it('解析 CANoe 日志', () => {
+    const file = parseAsc([
+      'date Mon Oct 19 14:15:30 2026',
+      'base hex  timestamps absolute',
+      'no internal events logged',
+      '// version 13.0.0',
+      'Begin Triggerblock Mon Oct 19 14:15:30 2026',
+      '   0.000000 Start of measurement',
+      '   0.010000 1  Statistic: D 0 R 0 XD 0 XR 0 E 0 O 0 B 0.00%',
+      '   0.015000 1  ErrorFrame',
+      '   0.020000 1  1F334455x      Rx   d 8 11 22 33 44 55 66 77 88  Length = 272000 BitCount = 139 ID = 523453525x',
+      '   0.030000 CANFD   2 Rx        3A1  EngineData                       1 0 d 32 00 01 02 03 04 05 06 07 08 09 0a 0b 0c 0d 0e 0f 10 11 12 13 14 15 16 17 18 19 1a 1b 1c 1d 1e 1f   130000  130 3000 b8860 46500250 4b280150 20011736 20010205',
+      '   0.040000 CANFD   1 Tx        101                                   0 0 4  4 de ad be ef        0    0        0        0        0        0        0        0',
+      'End TriggerBlock',
+    ].join('\n'));
+
+    expect(file.date?.getTime()).to.equal(new Date(2026, 9, 19, 14, 15, 30).getTime());
+    expect(file.records).to.have.length(3);
+    expect(file.records[0]).to.deep.include({ time: 20000, channel: 1, direction: 'Rx' });
+    expect(file.records[0].message).to.include({ id: 0x1F334455, isExtended: true });
+    expect(file.records[1]).to.deep.include({ time: 30000, channel: 2 });
+    expect(file.records[1].message).to.include({ id: 0x3A1, brs: true, esi: false });
+    expect(file.records[1].message.data).to.have.length(32);
+    // Flags 不含 EDL：经典 CAN 帧
+    expect(file.records[2].message).to.deep.equal({ id: 0x101, isExtended: false, data: Buffer.from([0xDE, 0xAD, 0xBE, 0xEF]), timestamp: 40000 });
+
+    expect(() => parseAsc('   0.1 1  800 Rx d 1 00')).to.throw(/第 1 行/);
+    expect(() => parseAsc('   0.1 1  100 Rx d 2 00')).to.throw(/第 1 行/);
+  });
+
+  it('日期格式化和解析', () => {
+    expect(formatAscDate(new Date(2026, 0, 5, 0, 7, 9, 5))).to.equal('Mon Jan 05 12:07:09.005 am 2026');
+    expect(parseAscDate('Mon Jan 05 12:07:09.005 am 2026')?.getTime()).to.equal(new Date(2026, 0, 5, 0, 7, 9, 5).getTime());
+    expect(parseAscDate('invalid')).to.equal(undefined);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * BLF 日志单元测试
+ * 验证 CAN/CANFD/错误帧的写入和读取、日志容器分块压缩、合并接收记录、跨容器对象和其它工具写入的对象类型
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { CanMessage, CanFdMessage } from '../../src/device';
+import { BlfWriter, BlfReader, BlfRecord, parseBlf } from '../../src/protocol/blf';
+
+const DATE = new Date(2026, 9, 19, 14, 15, 30, 123);
+
+const MESSAGES: { message: CanMessage | CanFdMessage; channel?: number; direction?: 'Rx' | 'Tx' }[] = [
+  { message: { id: 0x123, data: [0x01, 0x02, 0x03], timestamp: 1_000_000n } },
+  { message: { id: 0x18FEF100, isExtended: true, data: [0xAA, 0xBB], timestamp: 1_001_500n }, direction: 'Tx' },
+  { message: { id: 0x7FF, isRemote: true, data: Buffer.alloc(8), timestamp: 1_002_000n }, channel: 2 },
+  { message: { id: 0x456, data: Buffer.from(Array.from({ length: 12 }, (_, i) => i)), brs: true, esi: false, timestamp: 1_250_000n } },
+  { message: { id: 0x1ABCDEF, isExtended: true, data: [0x11], brs: false, esi: true, timestamp: 2_000_001n }, direction: 'Tx' },
+];
+
+/**
+ * 构造对象 (版本 1 对象头)
+ */
+function object(type: number, body: Buffer, timestamp = 0n, flags = 2): Buffer {
+  const size = 32 + body.length;
+  const buffer = Buffer.alloc(size + (size % 4));
+  buffer.write('LOBJ', 0, 'latin1');
+  buffer.writeUInt16LE(32, 4);
+  buffer.writeUInt16LE(1, 6);
+  buffer.writeUInt32LE(size, 8);
+  buffer.writeUInt32LE(type, 12);
+  buffer.writeUInt32LE(flags, 16);
+  buffer.writeBigUInt64LE(timestamp, 24);
+  body.copy(buffer, 32);
+  return buffer;
+}
+
+/**
+ * 构造 zlib 压缩的日志容器
+ */
+function container(data: Buffer): Buffer {
+  const payload = zlib.deflateSync(data);
+  const size = 32 + payload.length;
+  const buffer = Buffer.alloc(size + (size % 4));
+  buffer.write('LOBJ', 0, 'latin1');
+  buffer.writeUInt16LE(16, 4);
+  buffer.writeUInt16LE(1, 6);
+  buffer.writeUInt32LE(size, 8);
+  buffer.writeUInt32LE(10, 12);
+  buffer.writeUInt16LE(2, 16);
+  buffer.writeUInt32LE(data.length, 24);
+  payload.copy(buffer, 32);
+  return buffer;
+}
+
+function fileHeader(): Buffer {
+  const header = Buffer.alloc(144);
+  header.write('LOGG', 0, 'latin1');
+  header.writeUInt32LE(144, 4);
+  return header;
+}
+
+/**
+ * 统计顶层日志容器数量
+ */
+function countContainers(content: Buffer): number {
+  let count = 0;
+  for (let position = 144; position < content.length;) {
+    const size = content.readUInt32LE(position + 8);
+    count += content.readUInt32LE(position + 12) === 10 ? 1 : 0;
+    position += size + (size % 4);
+  }
+  return count;
+}
+
+describe('BLF 日志', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blf-'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('写入后读取得到相同的报文', () => {
+    const file = path.join(dir, 'messages.blf');
+    const writer = new BlfWriter(file, { date: DATE });
+    for (const { message, channel, direction } of MESSAGES) {
+      writer.write(message, { channel, direction });
+    }
+    writer.close();
+    writer.close();
+
+    const content = fs.readFileSync(file);
+    const { info, records } = parseBlf(content);
+    expect(info).to.deep.include({ application: 5, fileSize: content.length, objectCount: 5 });
+    expect(info.start?.getTime()).to.equal(DATE.getTime());
+    expect(info.stop?.getTime()).to.equal(DATE.getTime() + 1000);
+
+    expect(records.map((r) => [r.type, r.time, r.channel, r.type === 'error' ? '' : r.direction])).to.deep.equal([
+      ['can', 0, 1, 'Rx'],
+      ['can', 1500, 1, 'Tx'],
+      ['can', 2000, 2, 'Rx'],
+      ['canfd', 250000, 1, 'Rx'],
+      ['canfd', 1000001, 1, 'Tx'],
+    ]);
+    const [classic, extended, remote, fd, fdEsi] = records.map((r) => (r.type === 'error' ? null : r.message));
+    expect(classic).to.deep.equal({ id: 0x123, isExtended: false, data: Buffer.from([1, 2, 3]), timestamp: 0 });
+    expect(extended).to.deep.include({ id: 0x18FEF100, isExtended: true, data: Buffer.from([0xAA, 0xBB]) });
+    expect(remote).to.include({ id: 0x7FF, isRemote: true });
+    expect(remote?.data).to.have.length(8);
+    expect(fd).to.deep.equal({
+      id: 0x456, isExtended: false, data: Buffer.from(Array.from({ length: 12 }, (_, i) => i)), brs: true, esi: false, timestamp: 250000,
+    });
+    expect(fdEsi).to.include({ id: 0x1ABCDEF, isExtended: true, brs: false, esi: true });
+  });
+
+  it('按容器大小分块压缩写入并流式读取', () => {
+    const file = path.join(dir, 'long.blf');
+    const writer = new BlfWriter(file, { date: DATE, containerSize: 4096 });
+    for (let i = 0; i < 2000; i++) {
+      writer.write({ id: 0x100 + (i % 16), data: [i & 0xFF, i >> 8, 0, 0, 0, 0, 0, 0], timestamp: i * 1000 });
+    }
+    writer.close();
+
+    const content = fs.readFileSync(file);
+    expect(countContainers(content)).to.be.greaterThan(10);
+    expect(content.length).to.be.lessThan(2000 * 56);
+
+    const reader = new BlfReader(file);
+    try {
+      expect(reader.info.objectCount).to.equal(2000);
+      let count = 0;
+      for (const record of reader) {
+        expect(record.time).to.equal(count * 1000);
+        if (record.type === 'can') {
+          expect(Buffer.from(record.message.data).readUInt16LE(0)).to.equal(count);
+        }
+        count++;
+      }
+      expect(count).to.equal(2000);
+    } finally {
+      reader.close();
+    }
+    expect(() => [...reader.records()]).to.throw(/已关闭/);
+  });
+
+  it('未关闭的文件应能读取已写入的容器', () => {
+    const file = path.join(dir, 'unclosed.blf');
+    const writer = new BlfWriter(file, { date: DATE, containerSize: 4096 });
+    try {
+      expect(parseBlf(fs.readFileSync(file)), '打开时的文件头').to.deep.include({
+        info: { application: 5, fileSize: 144, uncompressedSize: 144, objectCount: 0, start: DATE, stop: DATE },
+        records: [],
+      });
+
+      for (let i = 0; i < 100; i++) {
+        writer.write({ id: 0x100, data: [i], timestamp: i * 1000 });
+      }
+      writer.flush();
+      writer.write({ id: 0x200, data: [0xFF], timestamp: 100000 });
+
+      const content = fs.readFileSync(file);
+      const { info, records } = parseBlf(content);
+      expect(info).to.deep.include({ fileSize: content.length, objectCount: 100 });
+      expect(records).to.have.length(100);
+
+      const reader = new BlfReader(file);
+      try {
+        expect([...reader].length).to.equal(100);
+      } finally {
+        reader.close();
+      }
+    } finally {
+      writer.close();
+    }
+  });
+
+  it('发送回显写为 Tx，总线错误写为 CAN_ERROR_EXT', () => {
+    const file = path.join(dir, 'records.blf');
+    const writer = new BlfWriter(file, { date: DATE, compressionLevel: 0 });
+    writer.writeRecord({ type: 'can', channel: 0, echoed: true, message: { id: 0x100, data: [1], timestamp: 500 } });
+    writer.writeRecord({ type: 'canfd', channel: 1, echoed: false, message: { id: 0x200, data: [2], brs: true, timestamp: 1500 } });
+    writer.writeRecord({
+      type: 'error',
+      channel: 0,
+      error: { timestamp: 2500, errorType: 1, errorSubType: 0, rxErrorCounter: 0, txErrorCounter: 0, errorData: 0x4A },
+    });
+    writer.writeMessages([{ id: 0x300, data: [3], echoed: true, timestamp: 3500 }]);
+    writer.close();
+    expect(() => writer.write({ id: 1, data: [] })).to.throw(/已关闭/);
+
+    const records = parseBlf(fs.readFileSync(file)).records;
+    expect(records.map((r) => [r.type, r.channel, r.time])).to.deep.equal([['can', 1, 0], ['canfd', 2, 1000], ['error', 1, 2000], ['can', 1, 3000]]);
+    expect(records[0]).to.include({ direction: 'Tx' });
+    expect(records[1]).to.include({ direction: 'Rx' });
+    expect((records[2] as Extract<BlfRecord, { type: 'error' }>).error).to.include({ ecc: 0x4A, id: 0 });
+    expect(records[3], 'receive() 返回的回显报文').to.include({ direction: 'Tx' });
+  });
+
+  it('读取跨容器对象和其它工具写入的对象类型', () => {
+    // CAN_FD_MESSAGE (100)：时间戳单位 10μs，EDL + BRS
+    const fdBody = Buffer.alloc(84);
+    fdBody.writeUInt16LE(3, 0);
+    fdBody.writeUInt8(0x01, 2);
+    fdBody.writeUInt8(13, 3);
+    fdBody.writeUInt32LE((0x80000000 | 0x1234567) >>> 0, 4);
+    fdBody.writeUInt8(0x03, 13);
+    fdBody.writeUInt8(32, 14);
+    fdBody.fill(0x5A, 20, 52);
+    // CAN_MESSAGE (1)：远程帧
+    const remoteBody = Buffer.alloc(16);
+    remoteBody.writeUInt16LE(1, 0);
+    remoteBody.writeUInt8(0x80, 2);
+    remoteBody.writeUInt8(4, 3);
+    remoteBody.writeUInt32LE(0x321, 4);
+    // CAN_ERROR_EXT (73)
+    const errorBody = Buffer.alloc(32);
+    errorBody.writeUInt16LE(2, 0);
+    errorBody.writeUInt8(0x12, 8);
+    errorBody.writeUInt8(7, 9);
+    errorBody.writeUInt8(2, 10);
+    errorBody.writeUInt32LE(0x555, 16);
+    errorBody.set([0xDE, 0xAD], 24);
+
+    const data = Buffer.concat([
+      object(100, fdBody, 150n, 1),
+      object(1, remoteBody, 2_000_000n),
+      object(999, Buffer.alloc(6)),
+      object(73, errorBody, 3_000_000n),
+    ]);
+    // 第一个容器在第二个对象中间结束
+    const split = object(100, fdBody).length + 10;
+    const content = Buffer.concat([fileHeader(), container(data.subarray(0, split)), container(data.subarray(split))]);
+
+    const { info, records } = parseBlf(content);
+    expect(info.start).to.equal(undefined);
+    expect(records).to.have.length(3);
+    expect(records[0]).to.deep.include({ type: 'canfd', time: 1500, channel: 3, direction: 'Tx' });
+    expect(records[0].type === 'canfd' && records[0].message).to.deep.include({ id: 0x1234567, isExtended: true, brs: true, esi: false });
+    expect(records[0].type === 'canfd' && records[0].message.data).to.deep.equal(Buffer.alloc(32, 0x5A));
+    expect(records[1]).to.deep.include({ type: 'can', time: 2000, direction: 'Rx' });
+    expect(records[1].type === 'can' && records[1].message).to.include({ id: 0x321, isRemote: true });
+    expect(records[2]).to.deep.include({
+      type: 'error',
+      time: 3000,
+      channel: 2,
+      error: { id: 0x555, isExtended: false, data: Buffer.from([0xDE, 0xAD]), ecc: 0x12, position: 7, flags: 0 },
+    });
+
+    expect(() => parseBlf(Buffer.from('not a blf file'))).to.throw(/LOGG/);
+    const corrupt = Buffer.concat([fileHeader(), Buffer.from('XOBJ' + '\0'.repeat(12), 'latin1')]);
+    expect(() => parseBlf(corrupt)).to.throw(/签名无效/);
+  });
+});
@@ -0,0 +1,560 @@
+/**
+ * CANopen 单元测试
+ * 验证数据类型/PDO/EMCY 编解码和 EDS 解析，并通过内存回环上的模拟节点验证 SDO、NMT、心跳、节点保护和 PDO 配置
+ */
+
+import { expect } from 'chai';
+import { CanLoopback, CanLink } from '../../src/protocol/can-link';
+import {
+  CANOPEN_DATA_TYPE,
+  SDO_ABORT,
+  SdoAbortError,
+  NmtState,
+  decodeCanOpenValue,
+  encodeCanOpenValue,
+  decodeEmcy,
+  decodePdo,
+  encodePdo,
+} from '../../src/protocol/canopen';
+import { SdoClient, sdoBlockCrc } from '../../src/protocol/canopen-sdo';
+import { parseEds } from '../../src/protocol/eds';
+import { ObjectDictionary } from '../../src/protocol/canopen-dictionary';
+import { CanOpenMaster, PdoMessage } from '../../src/protocol/canopen-master';
+
+const EDS = `
+[FileInfo]
+FileName=drive.eds
+FileVersion=1
+
+[DeviceInfo]
+VendorName=ZLG
+ProductName=Test Drive
+
+[MandatoryObjects]
+SupportedObjects=2
+1=0x1000
+2=0x1018
+
+[1000]
+ParameterName=Device type
+ObjectType=0x7
+DataType=0x0007
+AccessType=ro
+DefaultValue=0x00020192
+PDOMapping=0
+
+[1018]
+ParameterName=Identity object
+ObjectType=0x9
+SubNumber=2
+
+[1018sub0]
+ParameterName=Highest sub-index supported
+DataType=0x0005
+AccessType=ro
+DefaultValue=1
+
+[1018sub1]
+ParameterName=Vendor-ID
+DataType=0x0007
+AccessType=ro
+DefaultValue=0x1234
+
+[1800]
+ParameterName=TPDO1 communication parameter
+ObjectType=0x9
+SubNumber=2
+
+[1800sub0]
+ParameterName=Highest sub-index supported
+DataType=0x0005
+AccessType=ro
+DefaultValue=1
+
+[1800sub1]
+ParameterName=COB-ID
+DataType=0x0007
+AccessType=rw
+DefaultValue=$NODEID+0x180
+
+[6041]
+ParameterName=Statusword
+DataType=0x0006
+AccessType=ro
+PDOMapping=1
+
+[6064]
+ParameterName=Position actual value
+DataType=0x0004
+AccessType=ro
+PDOMapping=1
+`;
+
+/**
+ * 模拟 CANopen 从站：SDO 服务器 (快速、分段和块传输)、NMT、节点保护和心跳
+ */
+class FakeNode {
+  readonly objects = new Map<string, Buffer>();
+  readonly writes: string[] = [];
+  state = 0x7F;
+  /** 块下载时丢弃的段序号 (仅丢弃一次，用于验证重传) */
+  dropSequence = 0;
+  /** 块上传时丢弃的段序号 (仅丢弃一次，用于验证重传) */
+  dropUploadSequence = 0;
+  private guardToggle = 0;
+  private mode: {
+    type: 'segUpload' | 'segDownload' | 'blockDownload' | 'blockUpload';
+    key: string;
+    data: Buffer;
+    toggle: number;
+    blockSize: number;
+    sequence: number;
+    offset: number;
+    ended: boolean;
+  } | null = null;
+  private readonly timer: NodeJS.Timeout;
+
+  constructor(readonly link: CanLink, readonly nodeId: number) {
+    this.timer = setInterval(() => this.poll(), 1);
+  }
+
+  close(): void {
+    clearInterval(this.timer);
+  }
+
+  heartbeat(state = this.state): void {
+    this.link.transmit({ id: 0x700 + this.nodeId, data: [state] });
+  }
+
+  private poll(): void {
+    for (const frame of this.link.receive()) {
+      const data = Buffer.from(frame.data);
+      if (frame.id === 0x000 && (data[1] === 0 || data[1] === this.nodeId)) {
+        this.state = { 0x01: 0x05, 0x02: 0x04, 0x80: 0x7F }[data[0]] ?? this.state;
+      } else if (frame.id === 0x700 + this.nodeId && frame.isRemote) {
+        this.link.transmit({ id: 0x700 + this.nodeId, data: [(this.guardToggle << 7) | this.state] });
+        this.guardToggle ^= 1;
+      } else if (frame.id === 0x600 + this.nodeId) {
+        this.handleSdo(data);
+      }
+    }
+  }
+
+  private reply(data: number[]): void {
+    const payload = Buffer.alloc(8);
+    Buffer.from(data).copy(payload);
+    this.link.transmit({ id: 0x580 + this.nodeId, data: payload });
+  }
+
+  private abort(data: Buffer, code: number): void {
+    const bytes = Buffer.alloc(4);
+    bytes.writeUInt32LE(code);
+    this.reply([0x80, data[1], data[2], data[3], ...bytes]);
+    this.mode = null;
+  }
+
+  private handleSdo(d: Buffer): void {
+    const key = `${d.readUInt16LE(1).toString(16)}:${d[3]}`;
+    const mode = this.mode;
+    if (d[0] === 0x80) {
+      this.mode = null;
+      return;
+    }
+
+    // 块下载的子块数据段
+    if (mode?.type === 'blockDownload' && !mode.ended) {
+      const sequence = d[0] & 0x7F;
+      if (sequence === this.dropSequence) {
+        this.dropSequence = 0;
+      } else if (sequence === mode.sequence + 1) {
+        mode.data = Buffer.concat([mode.data, d.subarray(1, 8)]);
+        mode.sequence = sequence;
+        mode.ended = (d[0] & 0x80) !== 0;
+      }
+      if (sequence === mode.blockSize || d[0] & 0x80) {
+        this.reply([0xA2, mode.sequence, mode.blockSize]);
+        mode.sequence = 0;
+      }
+      return;
+    }
+
+    switch (d[0] >> 5) {
+      case 2: {
+        const value = this.objects.get(key);
+        if (!value) {
+          this.abort(d, SDO_ABORT.NO_OBJECT);
+        } else if (value.length <= 4) {
+          this.reply([0x43 | ((4 - value.length) << 2), d[1], d[2], d[3], ...value]);
+        } else {
+          const size = Buffer.alloc(4);
+          size.writeUInt32LE(value.length);
+          this.reply([0x41, d[1], d[2], d[3], ...size]);
+          this.mode = { type: 'segUpload', key, data: value, toggle: 0, blockSize: 0, sequence: 0, offset: 0, ended: false };
+        }
+        break;
+      }
+      case 3: {
+        if (mode?.type !== 'segUpload') {
+          this.abort(d, SDO_ABORT.INVALID_COMMAND);
+          break;
+        }
+        const chunk = mode.data.subarray(mode.offset, mode.offset + 7);
+        mode.offset += chunk.length;
+        const last = mode.offset >= mode.data.length;
+        this.reply([(d[0] & 0x10) | ((7 - chunk.length) << 1) | (last ? 1 : 0), ...chunk]);
+        if (last) {
+          this.mode = null;
+        }
+        break;
+      }
+      case 1: {
+        if (d[0] & 0x02) {
+          const size = d[0] & 0x01 ? 4 - ((d[0] >> 2) & 0x03) : 4;
+          this.store(key, d.subarray(4, 4 + size));
+        } else {
+          this.mode = { type: 'segDownload', key, data: Buffer.alloc(0), toggle: 0, blockSize: 0, sequence: 0, offset: 0, ended: false };
+        }
+        this.reply([0x60, d[1], d[2], d[3]]);
+        break;
+      }
+      case 0: {
+        if (mode?.type !== 'segDownload') {
+          this.abort(d, SDO_ABORT.INVALID_COMMAND);
+          break;
+        }
+        mode.data = Buffer.concat([mode.data, d.subarray(1, 8 - ((d[0] >> 1) & 0x07))]);
+        this.reply([0x20 | (d[0] & 0x10)]);
+        if (d[0] & 0x01) {
+          this.store(mode.key, mode.data);
+          this.mode = null;
+        }
+        break;
+      }
+      case 6: {
+        if ((d[0] & 0x01) === 0) {
+          this.mode = { type: 'blockDownload', key, data: Buffer.alloc(0), toggle: 0, blockSize: 4, sequence: 0, offset: 0, ended: false };
+          this.reply([0xA4, d[1], d[2], d[3], 4]);
+        } else if (mode?.type === 'blockDownload') {
+          const data = mode.data.subarray(0, mode.data.length - ((d[0] >> 2) & 0x07));
+          if (d.readUInt16LE(1) !== sdoBlockCrc(data)) {
+            this.abort(d, SDO_ABORT.CRC_ERROR);
+            break;
+          }
+          this.store(mode.key, data);
+          this.mode = null;
+          this.reply([0xA1]);
+        }
+        break;
+      }
+      case 5: {
+        const cs = d[0] & 0x03;
+        if (cs === 0) {
+          const value = this.objects.get(key) ?? Buffer.alloc(0);
+          const size = Buffer.alloc(4);
+          size.writeUInt32LE(value.length);
+          this.mode = { type: 'blockUpload', key, data: value, toggle: 0, blockSize: d[4], sequence: 0, offset: 0, ended: false };
+          this.reply([0xC6, d[1], d[2], d[3], ...size]);
+        } else if (cs === 3 && mode?.type === 'blockUpload') {
+          this.sendUploadBlock(mode);
+        } else if (cs === 2 && mode?.type === 'blockUpload') {
+          mode.offset += d[1] * 7;
+          mode.blockSize = d[2];
+          if (mode.offset >= mode.data.length) {
+            const unused = Math.ceil(mode.data.length / 7) * 7 - mode.data.length;
+            const crc = sdoBlockCrc(mode.data);
+            this.reply([0xC1 | (unused << 2), crc & 0xFF, crc >> 8]);
+          } else {
+            this.sendUploadBlock(mode);
+          }
+        } else if (cs === 1) {
+          this.mode = null;
+        }
+        break;
+      }
+    }
+  }
+
+  private sendUploadBlock(mode: NonNullable<FakeNode['mode']>): void {
+    for (let sequence = 1; sequence <= mode.blockSize; sequence++) {
+      const start = mode.offset + (sequence - 1) * 7;
+      const last = start + 7 >= mode.data.length;
+      if (sequence === this.dropUploadSequence) {
+        this.dropUploadSequence = 0;
+      } else {
+        this.reply([(last ? 0x80 : 0x00) | sequence, ...mode.data.subarray(start, start + 7)]);
+      }
+      if (last) {
+        break;
+      }
+    }
+  }
+
+  private store(key: string, data: Buffer): void {
+    this.objects.set(key, Buffer.from(data));
+    this.writes.push(`${key}=${data.toString('hex')}`);
+  }
+}
+
+describe('CANopen 测试', () => {
+  describe('编解码', () => {
+    it('应按数据类型编解码对象值', () => {
+      expect(decodeCanOpenValue(CANOPEN_DATA_TYPE.INTEGER16, [0xFE, 0xFF])).to.equal(-2);
+      expect(decodeCanOpenValue(CANOPEN_DATA_TYPE.UNSIGNED24, [0x01, 0x02, 0x03])).to.equal(0x030201);
+      expect(decodeCanOpenValue(CANOPEN_DATA_TYPE.UNSIGNED64, Buffer.alloc(8, 0xFF))).to.equal(0xFFFFFFFFFFFFFFFFn);
+      expect(decodeCanOpenValue(CANOPEN_DATA_TYPE.BOOLEAN, [1])).to.equal(true);
+      expect(decodeCanOpenValue(CANOPEN_DATA_TYPE.REAL32, encodeCanOpenValue(CANOPEN_DATA_TYPE.REAL32, 1.5))).to.equal(1.5);
+      expect(decodeCanOpenValue(CANOPEN_DATA_TYPE.VISIBLE_STRING, Buffer.from('CO\0'))).to.equal('CO');
+      expect(Array.from(encodeCanOpenValue(CANOPEN_DATA_TYPE.INTEGER32, -1))).to.deep.equal([0xFF, 0xFF, 0xFF, 0xFF]);
+      expect(() => encodeCanOpenValue(CANOPEN_DATA_TYPE.UNSIGNED8, 256)).to.throw(/超出 8 位无符号范围/);
+    });
+
+    it('应按映射编解码 PDO 并跳过空映射', () => {
+      const mapping = [
+        { index: 0x6041, subIndex: 0, bitLength: 16 },
+        { index: 0x0005, subIndex: 0, bitLength: 8 },
+        { index: 0x6064, subIndex: 0, bitLength: 32, dataType: CANOPEN_DATA_TYPE.INTEGER32, name: 'position' },
+        { index: 0x2000, subIndex: 1, bitLength: 1, dataType: CANOPEN_DATA_TYPE.BOOLEAN },
+      ];
+      const data = encodePdo(mapping, { '6041sub0': 0x0637, position: -100, '2000sub1': true });
+      expect(Array.from(data)).to.deep.equal([0x37, 0x06, 0x00, 0x9C, 0xFF, 0xFF, 0xFF, 0x01]);
+      expect(decodePdo(mapping, data)).to.deep.equal({ '6041sub0': 0x0637, position: -100, '2000sub1': true });
+      expect(() => encodePdo(mapping, { unknown: 1 })).to.throw(/未映射/);
+    });
+
+    it('应解码 EMCY 并生成本地化的 SDO 中止消息', () => {
+      const emcy = decodeEmcy(5, [0x10, 0x32, 0x04, 1, 2, 3, 4, 5], 'zh');
+      expect(emcy).to.deep.include({ nodeId: 5, errorCode: 0x3210, errorRegister: 0x04, description: '电压' });
+      expect(Array.from(emcy.manufacturerData)).to.deep.equal([1, 2, 3, 4, 5]);
+      expect(decodeEmcy(5, [0x30, 0x81, 0x11, 0, 0, 0, 0, 0], 'en').description).to.equal('life guard or heartbeat error');
+
+      const error = new SdoAbortError(5, 0x1018, 1, SDO_ABORT.NO_OBJECT, true);
+      expect(error.localizedMessage('zh')).to.equal('SDO 5 0x1018:1 服务器中止: 对象不存在 (0x06020000)');
+      expect(error.localizedMessage('en')).to.equal('SDO 5 0x1018:1 aborted by server: object does not exist (0x06020000)');
+    });
+  });
+
+  describe('EDS', () => {
+    it('应解析对象、子对象和默认值', () => {
+      const eds = parseEds(EDS);
+      expect(eds.deviceInfo).to.deep.equal({ VendorName: 'ZLG', ProductName: 'Test Drive' });
+      expect([...eds.objects.keys()]).to.deep.equal([0x1000, 0x1018, 0x1800, 0x6041, 0x6064]);
+      expect(eds.objects.get(0x1018)!.subObjects.size).to.equal(2);
+
+      const dictionary = new ObjectDictionary(eds);
+      expect(dictionary.getObject(0x1018, 1)).to.deep.include({ name: 'Vendor-ID', dataType: 0x07, accessType: 'ro' });
+      expect(dictionary.getObject(0x1018), '带子对象时返回子索引 0').to.deep.include({ name: 'Highest sub-index supported' });
+      expect(dictionary.getObject(0x1000, 1)).to.equal(undefined);
+      expect(dictionary.getObjectByName('Identity object.Vendor-ID')!.index).to.equal(0x1018);
+      expect(dictionary.getDefaultValue(0x1000)).to.equal(0x00020192);
+      expect(dictionary.getDefaultValue(0x1800, 1, 5), '$NODEID').to.equal(0x185);
+      expect(dictionary.pdoEntry(0x6064)).to.deep.equal({ index: 0x6064, subIndex: 0, bitLength: 32, dataType: 0x04, name: 'Position actual value' });
+      expect(() => dictionary.pdoEntry(0x1000)).to.throw(/不能映射/);
+    });
+
+    it('语法错误和缺失的对象应报告行号', () => {
+      expect(() => parseEds('[1000]\nParameterName=A\ngarbage')).to.throw(/第 3 行无法解析/);
+      expect(() => parseEds('[2000sub1]\nParameterName=A')).to.throw(/第 1 行子对象 2000sub1 没有主对象/);
+      expect(() => parseEds('[MandatoryObjects]\nSupportedObjects=1\n1=0x1000')).to.throw(/0x1000 没有对应的节/);
+      expect(() => parseEds('[1000]\nDataType=abc')).to.throw(/第 1 行对象 1000 的 DataType 不是整数/);
+    });
+  });
+
+  describe('SDO', () => {
+    let bus: CanLoopback;
+    let node: FakeNode;
+    let client: SdoClient;
+    let timer: NodeJS.Timeout;
+
+    beforeEach(() => {
+      bus = new CanLoopback();
+      node = new FakeNode(bus.createLink(), 5);
+      client = new SdoClient(bus.createLink(), { nodeId: 5, timeout: 200, blockSize: 5 });
+      timer = setInterval(() => client.poll(), 1);
+    });
+
+    afterEach(() => {
+      node.close();
+      clearInterval(timer);
+    });
+
+    it('应通过快速和分段传输读写对象', async () => {
+      await client.download(0x2000, 1, [0x11, 0x22]);
+      expect(node.writes).to.deep.equal(['2000:1=1122']);
+      expect(Array.from(await client.upload(0x2000, 1))).to.deep.equal([0x11, 0x22]);
+
+      const text = Buffer.from('Segmented transfer of 30 bytes');
+      await client.download(0x1008, 0, text);
+      expect(node.objects.get('1008:0')!.toString()).to.equal(text.toString());
+      expect((await client.upload(0x1008, 0)).toString()).to.equal(text.toString());
+    });
+
+    it('应通过块传输读写对象并重传丢失的段', async () => {
+      const payload = Buffer.from(Array.from({ length: 200 }, (_, i) => (i * 7) & 0xFF));
+      node.dropSequence = 3;
+      await client.download(0x1F50, 1, payload, { block: true });
+      expect(node.objects.get('1f50:1')!.equals(payload)).to.equal(true);
+
+      const uploaded = await client.upload(0x1F50, 1, { block: true });
+      expect(uploaded.equals(payload)).to.equal(true);
+    });
+
+    it('块上传最后一段之前有段丢失时应确认已收到的段并接收重传', async () => {
+      const payload = Buffer.from('Block upload of 21 by');
+      node.objects.set('1f50:2', payload);
+      node.dropUploadSequence = 2;
+      const uploaded = await client.upload(0x1F50, 2, { block: true });
+      expect(uploaded.toString()).to.equal(payload.toString());
+      expect(node.dropUploadSequence).to.equal(0);
+    });
+
+    it('服务器中止或超时时应抛出 SdoAbortError', async () => {
+      const error = await client.upload(0x3000, 0).catch((e) => e);
+      expect(error).to.be.instanceOf(SdoAbortError);
+      expect(error).to.include({ nodeId: 5, index: 0x3000, subIndex: 0, abortCode: SDO_ABORT.NO_OBJECT, remote: true });
+
+      const sniffer = bus.createLink();
+      const silent = new SdoClient(bus.createLink(), { nodeId: 9, timeout: 20 });
+      const timeout = await silent.upload(0x1000, 0).catch((e) => e);
+      expect(timeout).to.include({ abortCode: SDO_ABORT.TIMEOUT, remote: false });
+      const abort = sniffer.receive(1000).find((f) => f.id === 0x609 && f.data[0] === 0x80);
+      expect(Array.from(abort!.data)).to.deep.equal([0x80, 0x00, 0x10, 0x00, 0x00, 0x00, 0x04, 0x05]);
+    });
+  });
+
+  describe('CanOpenMaster', () => {
+    let bus: CanLoopback;
+    let node: FakeNode;
+    let master: CanOpenMaster;
+
+    beforeEach(() => {
+      bus = new CanLoopback();
+      node = new FakeNode(bus.createLink(), 5);
+      master = new CanOpenMaster(bus.createLink(), { sdoTimeout: 200 });
+      master.start();
+    });
+
+    afterEach(() => {
+      master.stop();
+      node.close();
+    });
+
+    it('应发送 NMT 命令并通过心跳跟踪节点状态和超时', async () => {
+      const states: [number, NmtState, NmtState][] = [];
+      const bootups: number[] = [];
+      master.on('nodeState', (...args) => states.push(args));
+      master.on('bootup', (nodeId) => bootups.push(nodeId));
+      master.monitorHeartbeat(5, 60);
+
+      node.heartbeat(0x00);
+      await delay(10);
+      master.startNode(5);
+      await delay(10);
+      expect(node.state).to.equal(0x05);
+      node.heartbeat();
+      await delay(10);
+      expect(master.getNodeState(5)).to.equal('operational');
+
+      const timeout = new Promise<[number, string]>((resolve) => master.once('nodeTimeout', (...args) => resolve(args)));
+      expect(await timeout).to.deep.equal([5, 'heartbeat']);
+      expect(bootups).to.deep.equal([5]);
+      expect(states).to.deep.equal([
+        [5, 'bootup', 'unknown'],
+        [5, 'operational', 'bootup'],
+        [5, 'unknown', 'operational'],
+      ]);
+    });
+
+    it('节点保护应校验翻转位并在节点无响应时超时', async () => {
+      master.startNodeGuarding(5, 10, 2);
+      await delay(45);
+      expect(master.getNodeState(5)).to.equal('preOperational');
+
+      let timedOut = false;
+      master.on('nodeTimeout', (nodeId, source) => {
+        timedOut = nodeId === 5 && source === 'guarding';
+      });
+      node.close();
+      await delay(60);
+      expect(timedOut).to.equal(true);
+      expect(master.getNodeState(5)).to.equal('unknown');
+    });
+
+    it('应通过 SDO 配置 TPDO 映射并解码接收的 PDO', async () => {
+      const dictionary = ObjectDictionary.fromEds(EDS);
+      master.setDictionary(5, dictionary);
+      const mapping = [dictionary.pdoEntry(0x6041), dictionary.pdoEntry(0x6064)];
+      await master.configurePdo(5, 'tpdo', 1, { transmissionType: 255, eventTimer: 100, mapping });
+      expect(node.writes).to.deep.equal([
+        '1800:1=85010080',
+        '1800:2=ff',
+        '1800:5=6400',
+        '1a00:0=00',
+        '1a00:1=10004160',
+        '1a00:2=20006460',
+        '1a00:0=02',
+        '1800:1=85010000',
+      ]);
+
+      const received = new Promise<PdoMessage>((resolve) => master.once('pdo', resolve));
+      node.link.transmit({ id: 0x185, data: [0x37, 0x06, 0x18, 0xFC, 0xFF, 0xFF] });
+      const pdo = await received;
+      expect(pdo).to.deep.include({ nodeId: 5, pdo: 1, cobId: 0x185 });
+      expect(pdo.values).to.deep.equal({ Statusword: 0x0637, 'Position actual value': -1000 });
+
+      expect(await master.readObject(5, 0x1800, 1)).to.equal(0x185);
+      await master.writeObject(5, 0x1018, 1, 0x4321);
+      expect(node.objects.get('1018:1')!.readUInt32LE()).to.equal(0x4321);
+    });
+
+    it('应发送 RPDO 和带计数器的 SYNC 并接收 EMCY', async () => {
+      const sniffer = bus.createLink();
+      master.mapPdo(5, 'rpdo', 1, [{ index: 0x6040, subIndex: 0, bitLength: 16, name: 'controlword' }]);
+      master.sendRpdo(5, 1, { controlword: 0x000F });
+      expect(() => master.sendRpdo(5, 2, {})).to.throw(/RPDO2 未登记/);
+
+      master.sendSync(3);
+      master.sendSync(3);
+      master.sendSync(3);
+      master.sendSync(3);
+      const frames = sniffer.receive(1000);
+      expect(frames.map((f) => [f.id, ...f.data])).to.deep.equal([
+        [0x205, 0x0F, 0x00],
+        [0x080, 1],
+        [0x080, 2],
+        [0x080, 3],
+        [0x080, 1],
+      ]);
+
+      const emcy = new Promise<number>((resolve) => master.once('emcy', (message) => resolve(message.errorCode)));
+      node.link.transmit({ id: 0x85, data: [0x00, 0x50, 0x01, 0, 0, 0, 0, 0] });
+      expect(await emcy).to.equal(0x5000);
+    });
+
+    it('SYNC 发送失败时应继续发送，没有 error 监听器时不抛出异常', async () => {
+      const link = bus.createLink();
+      let attempts = 0;
+      const failing = new CanOpenMaster({
+        transmit: () => {
+          attempts++;
+          throw new Error('transmit failed');
+        },
+        receive: (maxCount) => link.receive(maxCount),
+      });
+      failing.startSync(5);
+      try {
+        await delay(20);
+        const errors: Error[] = [];
+        failing.on('error', (error) => errors.push(error));
+        await delay(20);
+        expect(attempts, '失败后继续发送').to.be.at.least(3);
+        expect(errors.length).to.be.greaterThan(0);
+      } finally {
+        failing.stop();
+      }
+    });
+  });
+});
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,223 @@
+/**
+ * DBC 解析和信号解码单元测试
+ * 验证报文/信号/属性/注释解析、Intel/Motorola 字节序、有符号和浮点信号、CANFD 报文、(扩展) 多路复用和报文编码
+ */
+
+import { expect } from 'chai';
+import { ZlgCanError } from '../../src/driver';
+import { parseDbc } from '../../src/protocol/dbc';
+import { CanDatabase, decodeSignal, encodeSignal } from '../../src/protocol/can-database';
+
+const SAMPLE_DBC = `VERSION "1.0"
+
+NS_ :
+	NS_DESC_
+	CM_
+	BA_DEF_
+	BA_
+	VAL_
+	BA_DEF_DEF_
+	SIG_VALTYPE_
+	SG_MUL_VAL_
+
+BS_:
+
+BU_: Engine Gateway Tester
+
+VAL_TABLE_ GearTable 0 "P" 1 "R" 2 "N" 3 "D" ;
+
+BO_ 256 EngineData: 8 Engine
+ SG_ EngineTemp : 7|12@0- (0.5,0) [-1024|1023.5] "degC" Gateway,Tester
+ SG_ Speed : 16|16@1+ (0.01,0) [0|655.35] "km/h" Gateway
+ SG_ Gear : 32|2@1+ (1,0) [0|3] "" Gateway
+
+BO_ 2566844926 ExtStatus: 8 Gateway
+ SG_ Counter : 0|4@1+ (1,0) [0|0] "" Engine
+
+BO_ 1280 FdStatus: 64 Engine
+ SG_ Energy : 0|64@1- (1,0) [0|0] "kWh" Gateway
+ SG_ Voltage : 64|32@1- (1,0) [0|1000] "V" Gateway
+ SG_ Tail : 504|8@1+ (1,-100) [-100|155] "" Gateway
+
+BO_ 1536 MuxMsg: 8 Engine
+ SG_ Mode M : 0|8@1+ (1,0) [0|255] "" Tester
+ SG_ A m0 : 8|8@1+ (1,0) [0|255] "" Tester
+ SG_ B m1 : 8|16@1+ (1,0) [0|65535] "" Tester
+ SG_ Sub m1M : 24|8@1+ (1,0) [0|255] "" Tester
+ SG_ C : 32|8@1+ (1,0) [0|255] "" Tester
+
+BO_TX_BU_ 256 : Engine,Gateway;
+
+CM_ "Sample network";
+CM_ BU_ Engine "Engine control
+unit";
+CM_ BO_ 256 "Engine \\"status\\"";
+CM_ SG_ 256 Speed "Vehicle speed";
+BA_DEF_ BO_ "GenMsgCycleTime" INT 0 65535;
+BA_DEF_ BO_ "VFrameFormat" ENUM "StandardCAN","ExtendedCAN","reserved","J1939PG","reserved","reserved","reserved","reserved","reserved","reserved","reserved","reserved","reserved","reserved","StandardCAN_FD","ExtendedCAN_FD";
+BA_DEF_ BO_ "CANFD_BRS" ENUM "0","1";
+BA_DEF_ SG_ "GenSigStartValue" FLOAT -3.4E+038 3.4E+038;
+BA_DEF_ BU_ "NodeLayerModules" STRING ;
+BA_DEF_ "BusType" STRING ;
+BA_DEF_DEF_ "GenMsgCycleTime" 0;
+BA_DEF_DEF_ "VFrameFormat" "StandardCAN";
+BA_DEF_DEF_ "CANFD_BRS" "1";
+BA_DEF_DEF_ "GenSigStartValue" 0;
+BA_DEF_DEF_ "NodeLayerModules" "";
+BA_DEF_DEF_ "BusType" "CAN";
+BA_ "BusType" "CAN FD";
+BA_ "NodeLayerModules" BU_ Engine "CANoeILNLVector.dll";
+BA_ "GenMsgCycleTime" BO_ 256 100;
+BA_ "VFrameFormat" BO_ 2566844926 1;
+BA_ "VFrameFormat" BO_ 1280 14;
+BA_ "GenSigStartValue" SG_ 256 Speed 500;
+VAL_ 256 Gear 0 "P" 1 "R" 2 "N" 3 "D" ;
+SIG_VALTYPE_ 1280 Energy : 2;
+SIG_VALTYPE_ 1280 Voltage : 1;
+SG_MUL_VAL_ 1536 Sub Mode 1-1;
+SG_MUL_VAL_ 1536 C Sub 2-3, 5-5;
+`;
+
+describe('DBC 测试', () => {
+  describe('解析', () => {
+    const dbc = parseDbc(SAMPLE_DBC);
+
+    it('应解析节点、报文和信号', () => {
+      expect(dbc.version).to.equal('1.0');
+      expect(dbc.nodes.map((n) => n.name)).to.deep.equal(['Engine', 'Gateway', 'Tester']);
+      expect(dbc.messages.map((m) => m.name)).to.deep.equal(['EngineData', 'ExtStatus', 'FdStatus', 'MuxMsg']);
+      expect(dbc.valueTables.GearTable[3]).to.equal('D');
+
+      const engine = dbc.messages[0];
+      expect(engine).to.deep.include({ id: 0x100, isExtended: false, length: 8, sender: 'Engine', cycleTime: 100, isFd: false });
+      expect(engine.transmitters).to.deep.equal(['Engine', 'Gateway']);
+      expect(engine.signals[0]).to.deep.include({
+        name: 'EngineTemp', startBit: 7, length: 12, byteOrder: 'motorola', valueType: 'signed',
+        factor: 0.5, offset: 0, minimum: -1024, maximum: 1023.5, unit: 'degC', receivers: ['Gateway', 'Tester'],
+      });
+      expect(engine.signals[2].valueTable).to.deep.equal({ 0: 'P', 1: 'R', 2: 'N', 3: 'D' });
+    });
+
+    it('应解析扩展帧、CANFD 属性和浮点信号类型', () => {
+      const [, ext, fd] = dbc.messages;
+      expect(ext).to.deep.include({ id: 0x18FEF1FE, isExtended: true, isFd: false });
+      expect(ext.attributes.VFrameFormat).to.equal('ExtendedCAN');
+      expect(fd).to.deep.include({ length: 64, isFd: true, brs: true });
+      expect(fd.cycleTime, '周期为 0 时不设置').to.equal(undefined);
+      expect(fd.signals.map((s) => s.valueType)).to.deep.equal(['double', 'float', 'unsigned']);
+    });
+
+    it('应解析注释和属性并补充默认值', () => {
+      expect(dbc.comment).to.equal('Sample network');
+      expect(dbc.nodes[0].comment).to.equal('Engine control\nunit');
+      expect(dbc.messages[0].comment).to.equal('Engine "status"');
+      expect(dbc.messages[0].signals[1].comment).to.equal('Vehicle speed');
+
+      expect(dbc.attributes.BusType).to.equal('CAN FD');
+      expect(dbc.nodes[0].attributes.NodeLayerModules).to.equal('CANoeILNLVector.dll');
+      expect(dbc.nodes[1].attributes.NodeLayerModules).to.equal('');
+      expect(dbc.messages[0].signals[1].attributes.GenSigStartValue).to.equal(500);
+      expect(dbc.messages[0].signals[0].attributes.GenSigStartValue).to.equal(0);
+      const definition = dbc.attributeDefinitions.find((d) => d.name === 'GenSigStartValue')!;
+      expect(definition).to.deep.include({ objectType: 'SG_', valueType: 'FLOAT', minimum: -3.4e38, maximum: 3.4e38 });
+    });
+
+    it('应解析多路复用和扩展多路复用', () => {
+      const signals = dbc.messages[3].signals;
+      expect(signals[0].isMultiplexer).to.equal(true);
+      expect(signals[0]).to.not.have.property('multiplexerRanges');
+      expect(signals[1]).to.deep.include({ multiplexerSignal: 'Mode', multiplexerRanges: [{ from: 0, to: 0 }] });
+      expect(signals[3]).to.deep.include({ isMultiplexer: true, multiplexerSignal: 'Mode' });
+      expect(signals[4]).to.deep.include({
+        multiplexerSignal: 'Sub',
+        multiplexerRanges: [{ from: 2, to: 3 }, { from: 5, to: 5 }],
+      });
+    });
+
+    it('语法错误时应抛出包含行号的异常', () => {
+      expect(() => parseDbc('BO_ 1 Msg: 8 Node\n SG_ Sig : 0|8@1+ (1,0) [0|1 "" Node\n'))
+        .to.throw(ZlgCanError, /第 2 行/);
+      expect(() => parseDbc('BO_ 1 Msg: 8 Node\nCM_ "abc;\n')).to.throw(ZlgCanError, /字符串未结束/);
+    });
+  });
+
+  describe('解码', () => {
+    const database = new CanDatabase(parseDbc(SAMPLE_DBC));
+
+    it('应解码 Intel/Motorola 和有符号信号并附带值表描述', () => {
+      const decoded = database.decode({ id: 0x100, data: [0xFF, 0x60, 0x10, 0x27, 0x02, 0, 0, 0] })!;
+      expect(decoded.message.name).to.equal('EngineData');
+      expect(decoded.values).to.deep.equal({ EngineTemp: -5, Speed: 100, Gear: 2 });
+      expect(decoded.signals[2]).to.deep.include({ raw: 2, label: 'N' });
+    });
+
+    it('应按 ID 和帧类型匹配报文，忽略远程帧和未知 ID', () => {
+      expect(database.decode({ id: 0x18FEF1FE, isExtended: true, data: [0x0A] })!.values).to.deep.equal({ Counter: 10 });
+      expect(database.decode({ id: 0x18FEF1FE, data: [0x0A] })).to.equal(null);
+      expect(database.decode({ id: 0x100, isRemote: true, data: [] })).to.equal(null);
+      expect(database.decode({ id: 0x7FF, data: [] })).to.equal(null);
+    });
+
+    it('应解码 CANFD 报文中的浮点信号并跳过超出数据长度的信号', () => {
+      const data = Buffer.alloc(64);
+      data.writeDoubleLE(-12.25, 0);
+      data.writeFloatLE(3.5, 8);
+      data[63] = 142;
+      expect(database.decode({ id: 0x500, data, brs: true })!.values).to.deep.equal({ Energy: -12.25, Voltage: 3.5, Tail: 42 });
+      expect(database.decode({ id: 0x500, data: data.subarray(0, 12) })!.values).to.deep.equal({ Energy: -12.25, Voltage: 3.5 });
+      expect(decodeSignal(database.getMessage('FdStatus')!.signals[2], [0x00])).to.equal(undefined);
+    });
+
+    it('应只解码激活的多路复用信号', () => {
+      const decode = (data: number[]) => database.decode({ id: 0x600, data })!.values;
+      expect(decode([0x00, 0x34, 0x12, 0x03, 0x55, 0, 0, 0])).to.deep.equal({ Mode: 0, A: 0x34 });
+      expect(decode([0x01, 0x34, 0x12, 0x03, 0x55, 0, 0, 0])).to.deep.equal({ Mode: 1, B: 0x1234, Sub: 3, C: 0x55 });
+      expect(decode([0x01, 0x34, 0x12, 0x04, 0x55, 0, 0, 0])).to.deep.equal({ Mode: 1, B: 0x1234, Sub: 4 });
+    });
+  });
+
+  describe('编码', () => {
+    const database = new CanDatabase(parseDbc(SAMPLE_DBC));
+
+    it('应按信号定义打包数据，未指定的信号使用 GenSigStartValue', () => {
+      const frame = database.encode('EngineData', { EngineTemp: -5, Gear: 'D' });
+      expect(frame).to.deep.equal({ id: 0x100, isExtended: false, data: Buffer.from([0xFF, 0x60, 0xF4, 0x01, 0x03, 0, 0, 0]) });
+      expect(database.decode(frame)!.values).to.deep.equal({ EngineTemp: -5, Speed: 5, Gear: 3 });
+    });
+
+    it('应生成扩展帧和带 BRS 的 CANFD 帧', () => {
+      expect(database.encode('ExtStatus', { Counter: 7 })).to.not.have.property('brs');
+      expect(database.encode('ExtStatus').isExtended).to.equal(true);
+
+      const fd = database.encode('FdStatus', { Energy: 1.5, Voltage: 230.5, Tail: 42 });
+      expect(fd).to.deep.include({ id: 0x500, brs: true });
+      expect(fd.data.length).to.equal(64);
+      expect(database.decode(fd)!.values).to.deep.equal({ Energy: 1.5, Voltage: 230.5, Tail: 42 });
+    });
+
+    it('应先写入选择信号，并拒绝当前选择下无效的信号', () => {
+      const frame = database.encode('MuxMsg', { C: 9, Sub: 5, B: 0x1234, Mode: 1 });
+      expect(database.decode(frame)!.values).to.deep.equal({ Mode: 1, B: 0x1234, Sub: 5, C: 9 });
+      expect(() => database.encode('MuxMsg', { Mode: 0, B: 1 })).to.throw(ZlgCanError, /B 在当前多路复用选择下无效/);
+    });
+
+    it('应检查范围、值表描述和信号名', () => {
+      expect(() => database.encode('EngineData', { Speed: 700 })).to.throw(ZlgCanError, /超出范围/);
+      expect(() => database.encode('EngineData', { Gear: 'X' })).to.throw(ZlgCanError, /值表中没有/);
+      expect(() => database.encode('EngineData', { Rpm: 1 })).to.throw(ZlgCanError, /未定义信号: Rpm/);
+      expect(() => database.encode('Unknown')).to.throw(ZlgCanError, /未定义的报文/);
+      expect(() => database.encode('ExtStatus', { Counter: 16 }), '原始值位宽').to.throw(ZlgCanError, /4 位无符号/);
+      expect(Buffer.from(database.encode('EngineData', { Speed: 700 }, { checkRange: false }).data).readUInt16LE(2)).to.equal(70000 & 0xFFFF);
+    });
+
+    it('应在基础数据上只更新指定的信号', () => {
+      const base = database.encode('EngineData', { EngineTemp: 20, Speed: 50, Gear: 'R' });
+      const updated = database.encode('EngineData', { Speed: 60 }, { data: base.data });
+      expect(database.decode(updated)!.values).to.deep.equal({ EngineTemp: 20, Speed: 60, Gear: 1 });
+
+      const data = Buffer.alloc(1);
+      encodeSignal(database.getMessage('ExtStatus')!.signals[0], 0x0F, data);
+      expect(data[0]).to.equal(0x0F);
+    });
+  });
+});
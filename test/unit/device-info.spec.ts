@@ -0,0 +1,95 @@
+/**
+ * 设备信息单元测试
+ * 验证定长字符串、版本号解码和设备层 info()
+ */
+
+import { expect } from 'chai';
+import {
+  decodeFixedString,
+  formatPackedVersion,
+  formatVersion,
+} from '../../src/device/device-info';
+import { CanfdWifi100uTcp } from '../../src/device/canfd-wifi-100u-tcp';
+import { FakeZlgCanLib } from '../../src/driver/fake';
+import { createDriver } from '../../src/driver';
+import { ZCAN_DEVICE_TYPE } from '../../src/driver/constants';
+
+describe('设备信息测试', () => {
+  describe('解码函数', () => {
+    it('decodeFixedString 应截断到第一个 \\0', () => {
+      const bytes = Buffer.alloc(20);
+      bytes.write('ABC123');
+      bytes[10] = 0x41;
+      expect(decodeFixedString(bytes), '应只保留 \\0 之前的内容').to.equal('ABC123');
+    });
+
+    it('formatVersion 应格式化为 major.minor.patch', () => {
+      const version = formatVersion({ major_version: 2, minor_version: 10, patch_version: 1, reserved: 0 });
+      expect(version, `版本: ${version}`).to.equal('2.10.1');
+    });
+
+    it('formatPackedVersion 应按十六进制书写的版本号解码', () => {
+      expect(formatPackedVersion(0x0100), '0x0100').to.equal('1.0.0');
+      expect(formatPackedVersion(0x0215), '0x0215').to.equal('2.15.0');
+      expect(formatPackedVersion(0x1001), '0x1001').to.equal('10.1.0');
+    });
+
+    it('formatPackedVersion 遇到 A-F 时应按字节数值格式化', () => {
+      expect(formatPackedVersion(0x020A), '0x020A').to.equal('2.10.0');
+      expect(formatPackedVersion(0x0BFF), '0x0BFF').to.equal('11.255.0');
+    });
+  });
+
+  describe('驱动层', () => {
+    it('getDeviceInfoEx 应返回扩展设备信息', () => {
+      const driver = createDriver(new FakeZlgCanLib({ deviceName: 'BENCH-A' }));
+      driver.initialize();
+      const device = driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 0);
+      const info = driver.getDeviceInfoEx(device);
+      expect(decodeFixedString(info.device_name), '设备名称').to.equal('BENCH-A');
+      expect(info.can_channel_number, 'CAN 通道数').to.equal(1);
+    });
+  });
+
+  describe('设备层 info()', () => {
+    let lib: FakeZlgCanLib;
+    let device: CanfdWifi100uTcp;
+
+    beforeEach(() => {
+      lib = new FakeZlgCanLib({ serialNumber: 'SN0001', hardwareType: 'CANFD-WIFI-100U', deviceName: 'BENCH-A' });
+      device = new CanfdWifi100uTcp({ ip: '192.168.1.100', port: 8000, lib });
+    });
+
+    afterEach(() => {
+      device.close();
+    });
+
+    it('设备未打开时应抛出异常', () => {
+      expect(() => device.info(), '未打开设备应抛出异常').to.throw();
+    });
+
+    it('应返回解码后的字符串、版本和通道数', () => {
+      device.open();
+      expect(device.info()).to.deep.equal({
+        deviceName: 'BENCH-A',
+        hardwareType: 'CANFD-WIFI-100U',
+        serialNumber: 'SN0001',
+        hardwareVersion: '1.0.0',
+        firmwareVersion: '2.10.1',
+        driverVersion: '1.3.0',
+        libraryVersion: '2.5.0',
+        canChannelCount: 1,
+        linChannelCount: 0,
+      });
+    });
+
+    it('不支持扩展信息时应回退到基本设备信息', () => {
+      device.open();
+      lib.injectFailure('ZCAN_GetDeviceInfoEx');
+      const info = device.info();
+      expect(info.deviceName, '设备名称应回退为硬件类型').to.equal('CANFD-WIFI-100U');
+      expect(info.serialNumber, '序列号').to.equal('SN0001');
+      expect(info.firmwareVersion, '固件版本').to.equal('2.10.0');
+    });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * DoIP 单元测试
+ * 使用本地 TCP/UDP 仿真实体验证消息编解码、车辆发现、路由激活、诊断 ACK/NACK 和在线检查
+ */
+
+import { expect } from 'chai';
+import * as dgram from 'dgram';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { ZCAN_UDS_ERROR } from '../../src/driver';
+import {
+  DOIP_PAYLOAD_TYPE,
+  DOIP_ROUTING_RESPONSE,
+  DOIP_DIAGNOSTIC_NACK,
+  DoipClient,
+  DoipError,
+  DoipMessage,
+  DoipMessageParser,
+  encodeDoipMessage,
+  discoverDoipEntities,
+} from '../../src/protocol/doip';
+import { UdsClient } from '../../src/protocol/uds-client';
+
+const VIN = 'WVWZZZ1JZXW000001';
+const ENTITY_ADDRESS = 0x1001;
+
+function announcement(): Buffer {
+  const payload = Buffer.alloc(33);
+  payload.write(VIN, 0, 'ascii');
+  payload.writeUInt16BE(ENTITY_ADDRESS, 17);
+  Buffer.from([0x00, 0x11, 0x22, 0x33, 0x44, 0x55]).copy(payload, 19);
+  payload[32] = 0x00;
+  return payload;
+}
+
+function addresses(source: number, target: number): Buffer {
+  const data = Buffer.alloc(4);
+  data.writeUInt16BE(source, 0);
+  data.writeUInt16BE(target, 2);
+  return data;
+}
+
+/**
+ * 本地 DoIP 实体仿真
+ */
+class DoipStandIn {
+  readonly server = net.createServer((socket) => this.accept(socket));
+  readonly udp = dgram.createSocket('udp4');
+  readonly received: DoipMessage[] = [];
+  routingResponse: number = DOIP_ROUTING_RESPONSE.SUCCESS;
+  diagnosticNack: number | null = null;
+  /** 设置后以该数据应答诊断消息 */
+  rawReply: Buffer | null = null;
+  socket: net.Socket | null = null;
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    await new Promise<void>((resolve) => this.udp.bind(0, '127.0.0.1', resolve));
+    this.udp.on('message', (data, remote) => {
+      const [message] = new DoipMessageParser().push(data);
+      if (message.payloadType === DOIP_PAYLOAD_TYPE.VEHICLE_IDENTIFICATION_REQUEST) {
+        this.udp.send(encodeDoipMessage(DOIP_PAYLOAD_TYPE.VEHICLE_ANNOUNCEMENT, announcement()), remote.port, remote.address);
+      }
+    });
+  }
+
+  get tcpPort(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  get udpPort(): number {
+    return this.udp.address().port;
+  }
+
+  stop(): void {
+    this.socket?.destroy();
+    this.server.close();
+    this.udp.close();
+  }
+
+  private accept(socket: net.Socket): void {
+    this.socket = socket;
+    const parser = new DoipMessageParser();
+    socket.on('data', (chunk) => {
+      for (const message of parser.push(chunk)) {
+        this.received.push(message);
+        this.handle(socket, message);
+      }
+    });
+    socket.on('error', () => undefined);
+  }
+
+  private handle(socket: net.Socket, { payloadType, payload }: DoipMessage): void {
+    if (payloadType === DOIP_PAYLOAD_TYPE.ROUTING_ACTIVATION_REQUEST) {
+      const response = Buffer.alloc(9);
+      payload.copy(response, 0, 0, 2);
+      response.writeUInt16BE(ENTITY_ADDRESS, 2);
+      response[4] = this.routingResponse;
+      socket.write(encodeDoipMessage(DOIP_PAYLOAD_TYPE.ROUTING_ACTIVATION_RESPONSE, response));
+    } else if (payloadType === DOIP_PAYLOAD_TYPE.DIAGNOSTIC_MESSAGE) {
+      const tester = payload.readUInt16BE(0);
+      const ecu = payload.readUInt16BE(2);
+      if (this.rawReply) {
+        socket.write(this.rawReply);
+        return;
+      }
+      if (this.diagnosticNack !== null) {
+        socket.write(encodeDoipMessage(DOIP_PAYLOAD_TYPE.DIAGNOSTIC_NACK, [...addresses(ecu, tester), this.diagnosticNack]));
+        return;
+      }
+      // ACK 和 UDS 响应在同一个 TCP 段中发送
+      const request = payload.subarray(4);
+      socket.write(Buffer.concat([
+        encodeDoipMessage(DOIP_PAYLOAD_TYPE.DIAGNOSTIC_ACK, [...addresses(ecu, tester), 0x00]),
+        encodeDoipMessage(DOIP_PAYLOAD_TYPE.DIAGNOSTIC_MESSAGE, [...addresses(ecu, tester), request[0] + 0x40, ...request.subarray(1), 0x41]),
+      ]));
+    }
+  }
+}
+
+describe('DoIP 测试', () => {
+  describe('消息编解码', () => {
+    it('应编码头部并从分段的数据流中拆分消息', () => {
+      const encoded = encodeDoipMessage(DOIP_PAYLOAD_TYPE.ALIVE_CHECK_RESPONSE, [0x0E, 0x00]);
+      expect(Array.from(encoded)).to.deep.equal([0x02, 0xFD, 0x00, 0x08, 0, 0, 0, 2, 0x0E, 0x00]);
+
+      const parser = new DoipMessageParser();
+      const stream = Buffer.concat([encoded, encodeDoipMessage(DOIP_PAYLOAD_TYPE.DIAGNOSTIC_MESSAGE, [1, 2, 3, 4, 5])]);
+      expect(parser.push(stream.subarray(0, 5))).to.deep.equal([]);
+      const messages = parser.push(stream.subarray(5));
+      expect(messages.map((m) => m.payloadType)).to.deep.equal([0x0008, 0x8001]);
+      expect(Array.from(messages[1].payload)).to.deep.equal([1, 2, 3, 4, 5]);
+    });
+
+    it('同步字节错误或负载过长时应抛出 DoipError', () => {
+      expect(() => new DoipMessageParser().push(Buffer.from([0x02, 0x02, 0, 1, 0, 0, 0, 0])))
+        .to.throw(DoipError).with.property('status', ZCAN_UDS_ERROR.DOIP_HEADER_NACK_INCORRECT_PATTERN_FORMAT);
+      expect(() => new DoipMessageParser(4).push(encodeDoipMessage(0x8001, [1, 2, 3, 4, 5])))
+        .to.throw(DoipError).with.property('nackCode', 0x02);
+    });
+  });
+
+  describe('本地实体', () => {
+    let standIn: DoipStandIn;
+    let client: DoipClient;
+
+    beforeEach(async () => {
+      standIn = new DoipStandIn();
+      await standIn.start();
+      client = new DoipClient({ host: '127.0.0.1', port: standIn.tcpPort, targetAddress: ENTITY_ADDRESS, diagnosticAckTimeout: 200 });
+    });
+
+    afterEach(() => {
+      client.close();
+      standIn.stop();
+    });
+
+    it('车辆发现应返回 VIN、逻辑地址和 EID', async () => {
+      const entities = await discoverDoipEntities({ address: '127.0.0.1', port: standIn.udpPort, timeout: 100 });
+      expect(entities.length).to.equal(1);
+      expect(entities[0]).to.deep.include({ address: '127.0.0.1', vin: VIN, logicalAddress: ENTITY_ADDRESS, furtherAction: 0, syncStatus: 0 });
+      expect(Array.from(entities[0].eid)).to.deep.equal([0x00, 0x11, 0x22, 0x33, 0x44, 0x55]);
+    });
+
+    it('路由激活后应可作为 UdsClient 的传输层', async () => {
+      const result = await client.connect();
+      expect(result).to.deep.equal({ testerAddress: 0x0E00, entityAddress: ENTITY_ADDRESS, responseCode: 0x10 });
+      expect(client.isConnected()).to.equal(true);
+
+      const uds = new UdsClient(client, { p2Timeout: 200 });
+      expect(Array.from(await uds.readDataByIdentifier(0xF190))).to.deep.equal([0x41]);
+      const diagnostic = standIn.received.find((m) => m.payloadType === DOIP_PAYLOAD_TYPE.DIAGNOSTIC_MESSAGE)!;
+      expect(Array.from(diagnostic.payload)).to.deep.equal([0x0E, 0x00, 0x10, 0x01, 0x22, 0xF1, 0x90]);
+    });
+
+    it('路由激活被拒绝时应抛出 DoipError 并关闭连接', async () => {
+      standIn.routingResponse = DOIP_ROUTING_RESPONSE.UNKNOWN_SOURCE_ADDRESS;
+      try {
+        await client.connect();
+        expect.fail('应抛出异常');
+      } catch (error) {
+        expect(error).to.be.instanceOf(DoipError);
+        expect((error as DoipError).status).to.equal(ZCAN_UDS_ERROR.DOIP_ROUTING_ACTIVE_FAIL);
+        expect((error as DoipError).nackCode).to.equal(DOIP_ROUTING_RESPONSE.UNKNOWN_SOURCE_ADDRESS);
+      }
+      expect(client.isConnected()).to.equal(false);
+    });
+
+    it('诊断消息 NACK 应转换为 DoipError', async () => {
+      await client.connect();
+      standIn.diagnosticNack = DOIP_DIAGNOSTIC_NACK.UNKNOWN_TARGET_ADDRESS;
+      try {
+        await client.send(Buffer.from([0x3E, 0x00]));
+        expect.fail('应抛出异常');
+      } catch (error) {
+        expect((error as DoipError).status).to.equal(ZCAN_UDS_ERROR.DOIP_DIAGNOSTIC_NACK_UNKNOWN_TARGET_ADDRESS);
+        expect((error as DoipError).localizedMessage('en')).to.match(/unknown target address/);
+      }
+    });
+
+    it('路由未激活时发送应失败', async () => {
+      try {
+        await client.send(Buffer.from([0x3E, 0x00]));
+        expect.fail('应抛出异常');
+      } catch (error) {
+        expect((error as DoipError).status).to.equal(ZCAN_UDS_ERROR.DOIP_ROUTING_NOT_ACTIVE);
+      }
+    });
+
+    it('应自动响应在线检查请求', async () => {
+      await client.connect();
+      const checked = new Promise<void>((resolve) => client.once('aliveCheck', resolve));
+      standIn.socket!.write(encodeDoipMessage(DOIP_PAYLOAD_TYPE.ALIVE_CHECK_REQUEST));
+      await checked;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      const response = standIn.received.find((m) => m.payloadType === DOIP_PAYLOAD_TYPE.ALIVE_CHECK_RESPONSE)!;
+      expect(Array.from(response.payload)).to.deep.equal([0x0E, 0x00]);
+    });
+
+    it('收到格式错误的数据时应拒绝等待中的请求并关闭连接', async () => {
+      await client.connect();
+      const closed = new Promise<void>((resolve) => client.once('close', resolve));
+      standIn.rawReply = Buffer.from([0x02, 0x00, 0x80, 0x01, 0x00, 0x00, 0x00, 0x00]);
+      try {
+        await client.send(Buffer.from([0x3E, 0x00]));
+        expect.fail('应抛出异常');
+      } catch (error) {
+        expect(error).to.be.instanceOf(DoipError);
+        expect((error as DoipError).status).to.equal(ZCAN_UDS_ERROR.DOIP_HEADER_NACK_INCORRECT_PATTERN_FORMAT);
+      }
+      await closed;
+      expect(client.isConnected()).to.equal(false);
+    });
+
+    it('没有 error 监听器时应忽略无法关联到请求的头部 NACK', async () => {
+      await client.connect();
+      standIn.socket!.write(encodeDoipMessage(DOIP_PAYLOAD_TYPE.GENERIC_NACK, [0x04]));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(client.isConnected()).to.equal(true);
+
+      const errors: DoipError[] = [];
+      client.on('error', (error) => errors.push(error as DoipError));
+      standIn.socket!.write(encodeDoipMessage(DOIP_PAYLOAD_TYPE.GENERIC_NACK, [0x04]));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(errors.map((e) => e.nackCode)).to.deep.equal([0x04]);
+    });
+
+    it('实体断开连接时应发出 close 事件', async () => {
+      await client.connect();
+      const closed = new Promise<void>((resolve) => client.once('close', resolve));
+      standIn.socket!.destroy();
+      await closed;
+      expect(client.isConnected()).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * 通道错误状态单元测试
+ * 验证错误状态解码和总线状态变化事件
+ */
+
+import { expect } from 'chai';
+import {
+  ChannelErrorMonitor,
+  decodeChannelErrorState,
+  BusStateChangeEvent,
+} from '../../src/device/error-monitor';
+import { CanfdWifi100uTcp } from '../../src/device/canfd-wifi-100u-tcp';
+import { FakeZlgCanLib } from '../../src/driver/fake';
+import { ZlgCanError, BusOffError, DeviceNotOpenError, TransmitBackpressureError } from '../../src/driver/errors';
+import { ZCAN_ERROR, CAN_STATUS_REG } from '../../src/driver/constants';
+import { IZcanChannelStatus } from '../../src/driver/types';
+
+function makeStatus(overrides: Partial<IZcanChannelStatus> = {}): IZcanChannelStatus {
+  return {
+    errInterrupt: 0,
+    regMode: 0,
+    regStatus: 0,
+    regALCapture: 0,
+    regECCapture: 0,
+    regEWLimit: 96,
+    regRECounter: 0,
+    regTECounter: 0,
+    Reserved: 0,
+    ...overrides,
+  };
+}
+
+const NO_ERROR = { error_code: 0, passive_ErrData: [0, 0, 0], arLost_ErrData: 0 };
+
+describe('通道错误状态测试', () => {
+  describe('decodeChannelErrorState', () => {
+    it('无错误时应为 error-active', () => {
+      const state = decodeChannelErrorState(NO_ERROR, makeStatus());
+      expect(state.state, `状态: ${state.state}`).to.equal('error-active');
+      expect(state.txErrorCounter, 'TEC 应为 0').to.equal(0);
+    });
+
+    it('错误计数达到报警限制时应为 error-warning', () => {
+      const state = decodeChannelErrorState(NO_ERROR, makeStatus({ regTECounter: 100 }));
+      expect(state.state, `状态: ${state.state}`).to.equal('error-warning');
+    });
+
+    it('错误计数达到 128 时应为 error-passive', () => {
+      const state = decodeChannelErrorState(NO_ERROR, makeStatus({ regRECounter: 130 }));
+      expect(state.state, `状态: ${state.state}`).to.equal('error-passive');
+      expect(state.rxErrorCounter, 'REC 应为 130').to.equal(130);
+    });
+
+    it('消极错误数据应提供错误计数和错误码捕获', () => {
+      const state = decodeChannelErrorState(
+        { error_code: ZCAN_ERROR.CAN_PASSIVE, passive_ErrData: [0x20 | 0x80 | 0x03, 10, 140], arLost_ErrData: 0 },
+        makeStatus(),
+      );
+      expect(state.state, `状态: ${state.state}`).to.equal('error-passive');
+      expect(state.txErrorCounter, 'TEC 应取自消极错误数据').to.equal(140);
+      expect(state.errorCapture, '应解码错误码捕获').to.deep.equal({ type: 'stuff', direction: 'rx', segment: 3 });
+    });
+
+    it('总线关闭标志或状态寄存器应为 bus-off', () => {
+      const byFlag = decodeChannelErrorState({ ...NO_ERROR, error_code: ZCAN_ERROR.CAN_BUSOFF }, makeStatus());
+      expect(byFlag.state, '错误码总线关闭').to.equal('bus-off');
+      expect(byFlag.flags.busOff, 'busOff 标志').to.be.true;
+
+      const byReg = decodeChannelErrorState(NO_ERROR, makeStatus({ regStatus: CAN_STATUS_REG.BUS_STATUS }));
+      expect(byReg.state, '状态寄存器总线关闭').to.equal('bus-off');
+    });
+
+    it('仲裁丢失时应给出位位置', () => {
+      const state = decodeChannelErrorState(
+        { error_code: ZCAN_ERROR.CAN_LOSE, passive_ErrData: [0, 0, 0], arLost_ErrData: 0x0B },
+        makeStatus(),
+      );
+      expect(state.flags.arbitrationLost, '仲裁丢失标志').to.be.true;
+      expect(state.arbitrationLostBit, '仲裁丢失位').to.equal(11);
+    });
+  });
+
+  describe('设备层错误状态', () => {
+    let lib: FakeZlgCanLib;
+    let device: CanfdWifi100uTcp;
+
+    beforeEach(() => {
+      lib = new FakeZlgCanLib();
+      device = new CanfdWifi100uTcp({ ip: '192.168.1.100', port: 8000, lib });
+    });
+
+    afterEach(() => {
+      device.close();
+    });
+
+    it('设备未打开时 getChannelState 应抛出异常', () => {
+      expect(() => device.getChannelState(), '未打开设备应抛出异常').to.throw(DeviceNotOpenError);
+    });
+
+    it('getChannelState 应读取控制器错误计数', () => {
+      device.open();
+      lib.setErrorState({ txErrorCounter: 97, rxErrorCounter: 5 });
+      const state = device.getChannelState();
+      expect(state.state, `状态: ${state.state}`).to.equal('error-warning');
+      expect(state.txErrorCounter, 'TEC').to.equal(97);
+      expect(state.rxErrorCounter, 'REC').to.equal(5);
+    });
+
+    it('监视器应按状态变化依次发出事件', () => {
+      device.open();
+      const monitor = device.getErrorMonitor();
+      const events: BusStateChangeEvent[] = [];
+      monitor.on('stateChange', (event) => events.push(event));
+
+      monitor.poll();
+      lib.setErrorState({ txErrorCounter: 100 });
+      monitor.poll();
+      lib.setErrorState({ txErrorCounter: 200 });
+      monitor.poll();
+      monitor.poll();
+      lib.setErrorState({ busOff: true });
+      monitor.poll();
+
+      const transitions = events.map((e) => `${e.previous}->${e.current}`);
+      expect(transitions, `状态变化: ${transitions.join(', ')}`).to.deep.equal([
+        'error-active->error-warning',
+        'error-warning->error-passive',
+        'error-passive->bus-off',
+      ]);
+      expect(monitor.state, '当前状态应为 bus-off').to.equal('bus-off');
+    });
+
+    it('总线关闭时发送应失败', () => {
+      device.open();
+      lib.setErrorState({ busOff: true });
+      expect(() => device.transmit({ id: 0x100, data: [1] }), '总线关闭时发送应抛出异常').to.throw(BusOffError);
+    });
+
+    it('发送过快时应抛出 TransmitBackpressureError', () => {
+      device.open();
+      lib.injectFailure('ZCAN_Transmit', ZCAN_ERROR.SEND_TOO_FAST);
+      expect(() => device.transmit({ id: 0x100, data: [1] }), '发送过快应抛出异常').to.throw(TransmitBackpressureError);
+      expect(() => device.transmit({ id: 0x100, data: [1] }), '注入的失败只影响一次调用').to.not.throw();
+    });
+
+    it('无错误码时发送失败应保留原错误信息', () => {
+      device.open();
+      // 发送失败但通道没有错误码
+      lib.injectFailure('ZCAN_Transmit', 0);
+      try {
+        device.transmit({ id: 0x100, data: [1] });
+        expect.fail('应抛出异常');
+      } catch (e) {
+        expect(e, '应为 ZlgCanError 而不是子类').to.be.instanceOf(ZlgCanError);
+        expect((e as Error).constructor, '应为 ZlgCanError 而不是子类').to.equal(ZlgCanError);
+        expect((e as ZlgCanError).errorCode, 'errorCode 应为空').to.equal(undefined);
+        expect((e as Error).message).to.equal('发送 CAN 报文失败');
+      }
+    });
+
+    it('仲裁丢失应发出 arbitrationLost 事件', () => {
+      device.open();
+      const monitor = device.getErrorMonitor();
+      let lostBit = -1;
+      monitor.on('arbitrationLost', (bit) => {
+        lostBit = bit;
+      });
+
+      lib.setErrorState({ errorCode: ZCAN_ERROR.CAN_LOSE, arbitrationLostBit: 4 });
+      monitor.poll();
+      expect(lostBit, `仲裁丢失位: ${lostBit}`).to.equal(4);
+    });
+
+    it('start 应周期轮询，close 应停止轮询', async () => {
+      device.open();
+      const monitor = device.getErrorMonitor();
+      const changed = new Promise<BusStateChangeEvent>((resolve) => monitor.once('stateChange', resolve));
+
+      monitor.start(5);
+      lib.setErrorState({ rxErrorCounter: 150 });
+      const event = await changed;
+      expect(event.current, `状态: ${event.current}`).to.equal('error-passive');
+
+      device.close();
+      expect(monitor.isRunning(), '关闭设备后应停止轮询').to.be.false;
+    });
+
+    it('轮询失败时仅在有监听器时发出 error 事件', async () => {
+      let reads = 0;
+      const monitor = new ChannelErrorMonitor(() => {
+        reads++;
+        throw new ZlgCanError('ZCAN_ReadChannelErrInfo');
+      });
+
+      // 没有监听器：错误被丢弃，轮询继续而不是抛出未捕获异常
+      monitor.start(1);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(reads, '轮询应继续').to.be.greaterThan(1);
+
+      const error = await new Promise<Error>((resolve) => monitor.once('error', resolve));
+      monitor.stop();
+      expect(error).to.be.instanceOf(ZlgCanError);
+    });
+  });
+});
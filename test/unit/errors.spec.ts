@@ -6,10 +6,20 @@
 import { expect } from 'chai';
 import {
   ZlgCanError,
+  DeviceNotOpenError,
+  ConnectionError,
+  BusOffError,
+  TransmitBackpressureError,
   ZCAN_ERROR_MESSAGES,
+  ZCAN_ERROR_MESSAGES_EN,
   getErrorMessage,
+  describeErrorCode,
+  createZlgCanError,
+  setErrorLocale,
 } from '../../src/driver/errors';
-import { ZCAN_ERROR } from '../../src/driver/constants';
+import { ZCAN_ERROR, ZCAN_DEVICE_TYPE } from '../../src/driver/constants';
+import { FakeZlgCanLib } from '../../src/driver/fake';
+import { createDriver } from '../../src/driver';
 
 describe('错误处理测试', () => {
   describe('ZCAN_ERROR_MESSAGES', () => {
@@ -126,4 +136,112 @@ describe('错误处理测试', () => {
       expect(caughtError?.errorCode, `捕获的异常 errorCode: 0x${caughtError?.errorCode?.toString(16)}`).to.equal(ZCAN_ERROR.DEVICEOPEN);
     });
   });
+
+  describe('英文错误信息', () => {
+    afterEach(() => {
+      setErrorLocale('zh');
+    });
+
+    it('应包含所有 ZCAN_ERROR 错误码的英文映射', () => {
+      Object.values(ZCAN_ERROR).forEach((code) => {
+        expect(ZCAN_ERROR_MESSAGES_EN[code], `错误码 0x${code.toString(16)} 应有英文错误信息`).to.be.a('string');
+      });
+    });
+
+    it('getErrorMessage 应支持指定语言', () => {
+      const message = getErrorMessage('ZCAN_OpenDevice', ZCAN_ERROR.DEVICENOTEXIST, 'en');
+      expect(message, `message: ${message}`).to.equal('ZCAN_OpenDevice failed: device does not exist (0x1000)');
+    });
+
+    it('setErrorLocale 应改变默认语言', () => {
+      setErrorLocale('en');
+      const error = new ZlgCanError('ZCAN_StartCAN');
+      expect(error.message, `message: ${error.message}`).to.equal('ZCAN_StartCAN failed');
+      expect(error.localizedMessage('zh'), '应能生成中文信息').to.equal('ZCAN_StartCAN 失败');
+    });
+
+    it('组合的 CAN 错误位应逐位描述', () => {
+      const description = describeErrorCode(ZCAN_ERROR.CAN_PASSIVE | ZCAN_ERROR.CAN_BUSERR, 'en');
+      expect(description, `description: ${description}`).to.equal('CAN error passive, CAN bus error');
+    });
+  });
+
+  describe('createZlgCanError', () => {
+    it('应按错误码创建对应子类', () => {
+      const cases: [number, Function, string][] = [
+        [ZCAN_ERROR.DEVICENOTOPEN, DeviceNotOpenError, 'DeviceNotOpenError'],
+        [ZCAN_ERROR.OPEN_CONNECT, ConnectionError, 'ConnectionError'],
+        [ZCAN_ERROR.NO_CONNECTED, ConnectionError, 'ConnectionError'],
+        [ZCAN_ERROR.CAN_BUSOFF | ZCAN_ERROR.CAN_PASSIVE, BusOffError, 'BusOffError'],
+        [ZCAN_ERROR.SEND_TOO_FAST, TransmitBackpressureError, 'TransmitBackpressureError'],
+        [ZCAN_ERROR.SEND_PARTIAL, TransmitBackpressureError, 'TransmitBackpressureError'],
+      ];
+      cases.forEach(([code, type, name]) => {
+        const error = createZlgCanError('ZCAN_Test', code);
+        expect(error, `0x${code.toString(16)} 应为 ${name}`).to.be.instanceOf(type);
+        expect(error, `${name} 应为 ZlgCanError 实例`).to.be.instanceOf(ZlgCanError);
+        expect(error.name, `name: ${error.name}`).to.equal(name);
+        expect(error.errorCode, 'errorCode 应保留').to.equal(code);
+      });
+    });
+
+    it('其它错误码应创建 ZlgCanError', () => {
+      const error = createZlgCanError('ZCAN_Test', ZCAN_ERROR.CMDFAILED);
+      expect(error.name, `name: ${error.name}`).to.equal('ZlgCanError');
+    });
+  });
+
+  describe('驱动错误码', () => {
+    it('通道操作失败时应附带通道错误码', () => {
+      const lib = new FakeZlgCanLib();
+      const driver = createDriver(lib);
+      driver.initialize();
+      const device = driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 0);
+      const channel = driver.initCAN(device, 0, { can_type: 1, acc_code: 0, acc_mask: 0xFFFFFFFF, filter: 0, mode: 0 });
+
+      lib.injectFailure('ZCAN_StartCAN', ZCAN_ERROR.NO_CONNECTED);
+      expect(() => driver.startCAN(channel), '应抛出 ConnectionError').to.throw(ConnectionError, /0x30005/);
+    });
+
+    it('设备操作失败时应读取该设备通道的错误码', () => {
+      const lib = new FakeZlgCanLib();
+      const driver = createDriver(lib);
+      driver.initialize();
+      const device = driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 0);
+      driver.initCAN(device, 0, { can_type: 1, acc_code: 0, acc_mask: 0xFFFFFFFF, filter: 0, mode: 0 });
+
+      lib.injectFailure('ZCAN_SetValue', ZCAN_ERROR.CMDFAILED);
+      try {
+        driver.setValue(device, '0/ip', '10.0.0.1');
+        expect.fail('应抛出异常');
+      } catch (e) {
+        expect((e as ZlgCanError).errorCode, 'errorCode 应为 CMDFAILED').to.equal(ZCAN_ERROR.CMDFAILED);
+      }
+    });
+
+    it('读取通道状态失败时应附带通道错误码', () => {
+      const lib = new FakeZlgCanLib();
+      const driver = createDriver(lib);
+      driver.initialize();
+      const device = driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 0);
+      const channel = driver.initCAN(device, 0, { can_type: 1, acc_code: 0, acc_mask: 0xFFFFFFFF, filter: 0, mode: 0 });
+
+      lib.injectFailure('ZCAN_ReadChannelStatus', ZCAN_ERROR.NO_CONNECTED);
+      expect(() => driver.readChannelStatus(channel), '应抛出 ConnectionError').to.throw(ConnectionError, /0x30005/);
+      lib.injectFailure('ZCAN_ReadChannelErrInfo', ZCAN_ERROR.CAN_BUSOFF);
+      expect(() => driver.readChannelErrInfo(channel), '应抛出 BusOffError').to.throw(BusOffError);
+    });
+
+    it('重复打开设备应报告 DEVICEOPENED', () => {
+      const driver = createDriver(new FakeZlgCanLib());
+      driver.initialize();
+      driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 0);
+      try {
+        driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 0);
+        expect.fail('应抛出异常');
+      } catch (e) {
+        expect((e as ZlgCanError).errorCode, 'errorCode 应为 DEVICEOPENED').to.equal(ZCAN_ERROR.DEVICEOPENED);
+      }
+    });
+  });
 });
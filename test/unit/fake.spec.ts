@@ -0,0 +1,206 @@
+/**
+ * 内存原生库单元测试
+ * 通过 FakeZlgCanLib 在无 DLL 环境下端到端验证驱动层与设备层
+ */
+
+import { expect } from 'chai';
+import { CanfdWifi100uTcp, CanFdMessage } from '../../src/device/canfd-wifi-100u-tcp';
+import { FakeZlgCanLib } from '../../src/driver/fake';
+import { createDriver } from '../../src/driver';
+import { ZCAN_DEVICE_TYPE, CAN_FLAG, TX_FLAG } from '../../src/driver/constants';
+
+describe('FakeZlgCanLib', () => {
+  const TEST_CONFIG = {
+    ip: '192.168.1.100',
+    port: 8000,
+  };
+
+  describe('驱动层', () => {
+    it('注入原生库后 initialize 不应检查平台', () => {
+      const driver = createDriver(new FakeZlgCanLib());
+      expect(() => driver.initialize(), '注入原生库后应能在任意平台初始化').to.not.throw();
+    });
+
+    it('应按 ZCAN_Transmit_Data 布局解码并按 ZCAN_Receive_Data 布局回环', () => {
+      const lib = new FakeZlgCanLib();
+      const driver = createDriver(lib);
+      driver.initialize();
+
+      const device = driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 0);
+      const channel = driver.initCAN(device, 0, { can_type: 1, acc_code: 0, acc_mask: 0xFFFFFFFF, filter: 0, mode: 0 });
+      driver.startCAN(channel);
+
+      lib.advance(5);
+      const sent = driver.transmit(channel, [{
+        frame: { can_id: 0x123 | CAN_FLAG.EFF_FLAG, can_dlc: 3, __pad: TX_FLAG.ECHO_FLAG, data: [1, 2, 3] },
+        transmit_type: 0,
+      }]);
+      expect(sent, `应发送 1 帧，实际: ${sent}`).to.equal(1);
+
+      const received = driver.receive(channel, 10, 0);
+      expect(received.length, `应回环 1 帧，实际: ${received.length}`).to.equal(1);
+      expect(received[0].frame.can_id, '扩展帧标志应保留').to.equal((0x123 | CAN_FLAG.EFF_FLAG) >>> 0);
+      expect(Array.from(received[0].frame.data).slice(0, 3), '数据应一致').to.deep.equal([1, 2, 3]);
+      expect(received[0].frame.__pad! & TX_FLAG.ECHO_FLAG, '回显帧应带回显标志').to.equal(TX_FLAG.ECHO_FLAG);
+      expect(Number(received[0].timestamp), '时间戳应为虚拟时钟 (us)').to.equal(5000);
+    });
+
+    it('同一设备类型和索引不能重复打开', () => {
+      const driver = createDriver(new FakeZlgCanLib());
+      driver.initialize();
+      driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 0);
+      expect(() => driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 0), '重复打开应抛出异常').to.throw();
+    });
+
+    it('openDeviceByName 应按名称打开对应索引的设备', () => {
+      const driver = createDriver(new FakeZlgCanLib({ deviceNames: ['BENCH-A', 'BENCH-B'] }));
+      driver.initialize();
+      driver.openDeviceByName(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 'BENCH-B');
+      expect(() => driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 1), '索引 1 应已被占用').to.throw();
+      expect(() => driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 0), '索引 0 应可打开').to.not.throw();
+      expect(
+        () => driver.openDeviceByName(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 'BENCH-C'),
+        '不存在的名称应抛出异常',
+      ).to.throw(/ZCAN_OpenDeviceByName/);
+    });
+
+    it('getValue 应返回 SetValue 写入的字符串', () => {
+      const driver = createDriver(new FakeZlgCanLib());
+      driver.initialize();
+      const device = driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 0);
+      driver.setValue(device, '0/ip', '10.0.0.1');
+      expect(driver.getValue(device, '0/ip'), '应读回写入的值').to.equal('10.0.0.1');
+      expect(() => driver.getValue(device, '0/unknown'), '未知路径应抛出异常').to.throw();
+    });
+  });
+
+  describe('设备层', () => {
+    let lib: FakeZlgCanLib;
+    let device: CanfdWifi100uTcp;
+
+    beforeEach(() => {
+      lib = new FakeZlgCanLib();
+      device = new CanfdWifi100uTcp({ ...TEST_CONFIG, lib });
+      device.open();
+    });
+
+    afterEach(() => {
+      device.close();
+    });
+
+    it('open 后应处于打开状态', () => {
+      expect(device.isOpen(), '设备应处于打开状态').to.be.true;
+    });
+
+    it('transmit 的 CAN 和 CANFD 报文应通过 receive 回显', () => {
+      device.transmit({ id: 0x100, data: [1, 2, 3] });
+      device.transmit({ id: 0x200, data: Buffer.alloc(16, 0xAA), brs: true });
+
+      expect(device.getBufferCount(), '缓冲区应有 2 帧').to.equal(2);
+      expect(device.getBufferCount('can'), 'CAN 缓冲区应有 1 帧').to.equal(1);
+
+      const messages = device.receive();
+      expect(messages.length, `应接收 2 帧，实际: ${messages.length}`).to.equal(2);
+
+      const can = messages.find((m) => m.id === 0x100)!;
+      expect(Array.from(can.data), 'CAN 数据应一致').to.deep.equal([1, 2, 3]);
+
+      const canfd = messages.find((m) => m.id === 0x200) as CanFdMessage;
+      expect(canfd.data.length, 'CANFD 数据长度应为 16').to.equal(16);
+      expect(canfd.brs, 'BRS 标志应保留').to.be.true;
+    });
+
+    it('关闭回显时报文只投递到总线上的其它设备', () => {
+      const quiet = new CanfdWifi100uTcp({ ...TEST_CONFIG, deviceIndex: 1, echo: false, lib });
+      quiet.open();
+      try {
+        quiet.transmit({ id: 0x321, data: [9] });
+        expect(quiet.receive().length, '关闭回显的发送方不应收到报文').to.equal(0);
+
+        const messages = device.receive();
+        expect(messages.map((m) => m.id), '其它设备应收到报文').to.deep.equal([0x321]);
+      } finally {
+        quiet.close();
+      }
+    });
+
+    it('transmitQueue 应按延时依次发送', () => {
+      const sent = device.transmitQueue([
+        { message: { id: 0x100, data: [1] }, delay: 0 },
+        { message: { id: 0x101, data: [2] }, delay: 50 },
+        { message: { id: 0x102, data: [3], brs: true }, delay: 100 },
+      ]);
+      expect(sent, `应入队 3 帧，实际: ${sent}`).to.equal(3);
+      expect(device.getAvailableTxCount(), '队列可用长度应减少').to.equal(1000 - 3);
+
+      lib.advance(0);
+      expect(device.receive().map((m) => m.id), '0ms 时应发送第一帧').to.deep.equal([0x100]);
+
+      lib.advance(50);
+      expect(device.receive().map((m) => m.id), '50ms 时应发送第二帧').to.deep.equal([0x101]);
+
+      lib.advance(99);
+      expect(device.receive().length, '第三帧未到期').to.equal(0);
+
+      lib.advance(1);
+      const last = device.receive();
+      expect(last.map((m) => m.id), '150ms 时应发送第三帧').to.deep.equal([0x102]);
+      expect(Number(last[0].timestamp), '时间戳应为 150ms').to.equal(150000);
+      expect(device.getAvailableTxCount(), '队列应已清空').to.equal(1000);
+    });
+
+    it('clearDelayQueue 应丢弃未发送的队列报文', () => {
+      device.transmitQueue([{ message: { id: 0x100, data: [1] }, delay: 10 }]);
+      device.clearDelayQueue();
+      lib.advance(20);
+      expect(device.receive().length, '清空后不应再发送').to.equal(0);
+    });
+
+    it('addAutoSend 应在 applyAutoSend 后按周期发送', () => {
+      device.addAutoSend({ index: 0, enable: true, interval: 100, message: { id: 0x10, data: [1] } });
+      device.addAutoSend({ index: 1, enable: true, interval: 50, message: { id: 0x20, data: Buffer.alloc(12), brs: true } });
+
+      expect(device.getAutoSendCount(), 'CAN 周期发送数量应为 1').to.equal(1);
+      expect(device.getAutoSendCount(true), 'CANFD 周期发送数量应为 1').to.equal(1);
+
+      lib.advance(200);
+      expect(device.receive().length, 'apply 前不应发送').to.equal(0);
+
+      device.applyAutoSend();
+      lib.advance(200);
+      const messages = device.receive(100);
+      const can = messages.filter((m) => m.id === 0x10).length;
+      const canfd = messages.filter((m) => m.id === 0x20).length;
+      expect(can, `200ms 内 100ms 周期应发送 3 次，实际: ${can}`).to.equal(3);
+      expect(canfd, `200ms 内 50ms 周期应发送 5 次，实际: ${canfd}`).to.equal(5);
+
+      device.clearAutoSend();
+      lib.advance(200);
+      expect(device.receive().length, 'clear 后不应再发送').to.equal(0);
+      expect(device.getAutoSendCount(), '周期发送数量应清零').to.equal(0);
+    });
+
+    it('injectCan 应模拟总线上其它节点的报文', () => {
+      lib.injectCan({ can_id: 0x7E8, can_dlc: 2, data: [0x50, 0x01] });
+      const messages = device.receive();
+      expect(messages.map((m) => m.id), '应收到注入的报文').to.deep.equal([0x7E8]);
+    });
+
+    it('配置 deviceName 时应按名称打开设备', () => {
+      const named = new FakeZlgCanLib({ deviceNames: ['BENCH-A', 'BENCH-B'] });
+      const bench = new CanfdWifi100uTcp({ ...TEST_CONFIG, deviceName: 'BENCH-B', lib: named });
+      bench.open();
+      try {
+        expect(bench.info().deviceName, '应打开名称为 BENCH-B 的设备').to.equal('BENCH-B');
+      } finally {
+        bench.close();
+      }
+    });
+
+    it('clearBuffer 应清空接收缓冲区', () => {
+      device.transmit({ id: 0x100, data: [1] });
+      device.clearBuffer();
+      expect(device.getBufferCount(), '缓冲区应为空').to.equal(0);
+    });
+  });
+});
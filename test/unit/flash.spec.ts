@@ -0,0 +1,216 @@
+/**
+ * ECU 刷写单元测试
+ * 验证镜像解析、下载服务编码、完整的编程流程、块序号重试和校验失败处理
+ */
+
+import { expect } from 'chai';
+import { ZlgCanError } from '../../src/driver';
+import { createCanLoopbackPair } from '../../src/protocol/can-link';
+import { IsoTpTransport } from '../../src/protocol/isotp';
+import { UdsClient } from '../../src/protocol/uds-client';
+import { parseIntelHex, parseSRecord, loadImage, crc32, MemorySegment } from '../../src/protocol/flash-image';
+import { FlashProgrammer, FlashPhase, FlashProgress } from '../../src/protocol/flash';
+
+const INTEL_HEX = [
+  ':020000040008F2',
+  ':10100000000102030405060708090A0B0C0D0E0F68',
+  ':041010001011121396',
+  ':02200000AABB79',
+  ':00000001FF',
+].join('\r\n');
+
+const S_RECORD = [
+  'S00600004844521B',
+  'S3090800100001020304D4',
+  'S307080010040506D1',
+  'S70508001000E2',
+].join('\n');
+
+describe('ECU 刷写测试', () => {
+  describe('镜像解析', () => {
+    it('Intel HEX 应按扩展线性地址合并连续记录', () => {
+      const segments = parseIntelHex(INTEL_HEX);
+      expect(segments.map((s) => s.address)).to.deep.equal([0x00081000, 0x00082000]);
+      expect(Array.from(segments[0].data)).to.deep.equal(Array.from({ length: 20 }, (_, i) => i));
+      expect(Array.from(segments[1].data)).to.deep.equal([0xAA, 0xBB]);
+    });
+
+    it('校验和或扩展地址记录长度错误时应抛出异常', () => {
+      expect(() => parseIntelHex(':02200000AABB78')).to.throw(ZlgCanError, /第 1 行校验和错误/);
+      expect(() => parseIntelHex(':0100000400FB')).to.throw(ZlgCanError, /第 1 行扩展地址记录长度错误/);
+      expect(() => parseIntelHex(':020000040800F2\n:0100000201FC')).to.throw(ZlgCanError, /第 2 行扩展地址记录长度错误/);
+      expect(() => parseSRecord('S307080010040506D0')).to.throw(ZlgCanError, /校验和错误/);
+    });
+
+    it('S-record 应解析 S3 数据记录并忽略头和结束记录', () => {
+      expect(parseSRecord(S_RECORD)).to.deep.equal([{ address: 0x08001000, data: Buffer.from([1, 2, 3, 4, 5, 6]) }]);
+    });
+
+    it('loadImage 应按内容判断格式', () => {
+      expect(loadImage(Buffer.from(S_RECORD))[0].address).to.equal(0x08001000);
+      expect(loadImage(INTEL_HEX).length).to.equal(2);
+      expect(loadImage(Buffer.from([1, 2, 3]), { baseAddress: 0x4000 })).to.deep.equal([
+        { address: 0x4000, data: Buffer.from([1, 2, 3]) },
+      ]);
+    });
+
+    it('二进制内容以 : 或 S 开头时不应按文本格式解析', () => {
+      const binary = Buffer.from([0x3A, 0x00, 0xFF, 0x10, 0x53, 0x80]);
+      expect(loadImage(binary)).to.deep.equal([{ address: 0, data: binary }]);
+      expect(loadImage(Buffer.from([0x53, 0x31, 0x00, 0xC3]))[0].data.length).to.equal(4);
+      expect(() => loadImage(Buffer.from(':not a record\n')), '第一条记录无效').to.throw(ZlgCanError, /format: 'binary'/);
+      expect(loadImage(Buffer.from(':not a record\n'), { format: 'binary' })[0].data.length).to.equal(14);
+    });
+
+    it('CRC-32 应符合 IEEE 802.3', () => {
+      expect(crc32(Buffer.from('123456789'))).to.equal(0xCBF43926);
+    });
+  });
+
+  describe('编程流程', () => {
+    let tester: IsoTpTransport;
+    let ecu: IsoTpTransport;
+    let client: UdsClient;
+    let requests: number[][];
+    let memory: Map<number, number>;
+    let dropTransfer: number | null;
+
+    beforeEach(() => {
+      const [a, b] = createCanLoopbackPair();
+      tester = new IsoTpTransport(a, { txId: 0x7E0, rxId: 0x7E8 });
+      ecu = new IsoTpTransport(b, { txId: 0x7E8, rxId: 0x7E0 });
+      tester.start();
+      ecu.start();
+      requests = [];
+      memory = new Map();
+      dropTransfer = null;
+
+      // 模拟 Bootloader：maxNumberOfBlockLength 为 18 (每块 16 字节)，重复的块序号直接应答
+      let download = { address: 0, offset: 0, counter: 0, crc: 0 };
+      const written: number[] = [];
+      ecu.on('pdu', (pdu) => {
+        const request = Array.from(pdu);
+        requests.push(request);
+        let reply: number[] | null = null;
+        switch (request[0]) {
+          case 0x10:
+            reply = [0x50, request[1], 0x00, 0x32, 0x01, 0xF4];
+            break;
+          case 0x27:
+            reply = request[1] === 0x01 ? [0x67, 0x01, 0x12, 0x34] : [0x67, 0x02];
+            break;
+          case 0x31: {
+            const routineId = (request[2] << 8) | request[3];
+            const ok = routineId !== 0x0202 || Buffer.from(request.slice(4)).readUInt32BE() === download.crc;
+            reply = [0x71, 0x01, request[2], request[3], ok ? 0x00 : 0x01];
+            break;
+          }
+          case 0x34:
+            download = { address: Buffer.from(request.slice(3, 7)).readUInt32BE(), offset: 0, counter: 0, crc: 0 };
+            written.length = 0;
+            reply = [0x74, 0x20, 0x00, 0x12];
+            break;
+          case 0x36:
+            if (request[1] === ((download.counter + 1) & 0xFF)) {
+              request.slice(2).forEach((byte, i) => memory.set(download.address + download.offset + i, byte));
+              written.push(...request.slice(2));
+              download.offset += request.length - 2;
+              download.counter = request[1];
+            }
+            if (dropTransfer === request[1]) {
+              dropTransfer = null;
+              break;
+            }
+            reply = [0x76, request[1]];
+            break;
+          case 0x37:
+            download.crc = crc32(Buffer.from(written));
+            reply = [0x77];
+            break;
+          case 0x11:
+            reply = [0x51, request[1]];
+            break;
+        }
+        const suppressed = (request[0] === 0x85 || request[0] === 0x28) && (request[1] & 0x80) !== 0;
+        if (reply && !suppressed) {
+          ecu.send(reply);
+        }
+      });
+
+      client = new UdsClient(tester, {
+        p2Timeout: 50,
+        securityKey: (seed) => seed.map((b) => b ^ 0xFF),
+      });
+    });
+
+    afterEach(() => {
+      tester.stop();
+      ecu.stop();
+    });
+
+    function image(): MemorySegment[] {
+      return [
+        { address: 0x1000, data: Buffer.from(Array.from({ length: 40 }, (_, i) => i)) },
+        { address: 0x2000, data: Buffer.from([0xAA, 0xBB]) },
+      ];
+    }
+
+    it('应按顺序执行会话、安全访问、擦除、下载、校验和复位', async () => {
+      const programmer = new FlashProgrammer(client);
+      const phases: string[] = [];
+      const progress: FlashProgress[] = [];
+      programmer.on('phase', (phase: FlashPhase, index?: number) => phases.push(index === undefined ? phase : `${phase}${index}`));
+      programmer.on('progress', (p) => progress.push(p));
+
+      await programmer.program(image());
+
+      expect(phases).to.deep.equal([
+        'preProgramming', 'session', 'security',
+        'erase0', 'download0', 'verify0',
+        'erase1', 'download1', 'verify1',
+        'reset',
+      ]);
+      expect(requests.slice(0, 4), '编程前准备').to.deep.equal([
+        [0x10, 0x03], [0x85, 0x82], [0x28, 0x83, 0x01], [0x10, 0x02],
+      ]);
+      expect(requests[6], '擦除例程').to.deep.equal([0x31, 0x01, 0xFF, 0x00, 0x44, 0, 0, 0x10, 0x00, 0, 0, 0, 40]);
+      expect(requests[7], '请求下载').to.deep.equal([0x34, 0x00, 0x44, 0, 0, 0x10, 0x00, 0, 0, 0, 40]);
+      expect(requests.filter((r) => r[0] === 0x36).map((r) => [r[1], r.length - 2]), '块序号和长度').to.deep.equal([
+        [1, 16], [2, 16], [3, 8], [1, 2],
+      ]);
+      expect(progress.map((p) => p.bytesSent)).to.deep.equal([16, 32, 40, 42]);
+      expect(progress[3]).to.deep.include({ segmentIndex: 1, segmentCount: 2, address: 0x2000, totalBytes: 42 });
+      expect(memory.get(0x1027)).to.equal(39);
+      expect(memory.get(0x2001)).to.equal(0xBB);
+      expect(requests[requests.length - 1], 'ECU 复位').to.deep.equal([0x11, 0x01]);
+    });
+
+    it('TransferData 超时后应以相同块序号重试', async () => {
+      const programmer = new FlashProgrammer(client, { preProgramming: false, resetType: null, maxBlockLength: 10 });
+      const retries: number[] = [];
+      programmer.on('retry', (counter) => retries.push(counter));
+      dropTransfer = 2;
+
+      await programmer.program(image().slice(0, 1));
+
+      expect(retries).to.deep.equal([2]);
+      expect(requests.filter((r) => r[0] === 0x36).map((r) => r[1])).to.deep.equal([1, 2, 2, 3, 4, 5]);
+      expect(Array.from({ length: 40 }, (_, i) => memory.get(0x1000 + i))).to.deep.equal(Array.from(image()[0].data));
+    });
+
+    it('校验例程失败时应抛出异常', async () => {
+      const programmer = new FlashProgrammer(client, {
+        preProgramming: false,
+        securityLevel: null,
+        checksumParameters: () => [0, 0, 0, 0],
+      });
+      try {
+        await programmer.program(image());
+        expect.fail('应抛出异常');
+      } catch (error) {
+        expect(error).to.be.instanceOf(ZlgCanError);
+        expect((error as ZlgCanError).message).to.match(/0x1000 校验失败/);
+      }
+    });
+  });
+});
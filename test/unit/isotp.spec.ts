@@ -0,0 +1,268 @@
+/**
+ * ISO-TP 传输层单元测试
+ * 验证分帧/重组、CANFD 长度转义、填充、寻址方式、流控参数和超时处理
+ */
+
+import { expect } from 'chai';
+import { encodeStMin, decodeStMin } from '../../src/device';
+import { CanfdWifi100uTcp } from '../../src/device/canfd-wifi-100u-tcp';
+import { FakeZlgCanLib } from '../../src/driver/fake';
+import {
+  CanLink,
+  CanLinkMessage,
+  createCanLoopbackPair,
+} from '../../src/protocol/can-link';
+import {
+  IsoTpTransport,
+  IsoTpConfig,
+  IsoTpError,
+} from '../../src/protocol/isotp';
+
+/**
+ * 记录发送的帧
+ */
+function recording(link: CanLink, frames: CanLinkMessage[]): CanLink {
+  return {
+    transmit: (message) => {
+      frames.push(message);
+      link.transmit(message);
+    },
+    receive: (maxCount) => link.receive(maxCount),
+  };
+}
+
+function payload(length: number): Buffer {
+  return Buffer.from(Array.from({ length }, (_, i) => i & 0xFF));
+}
+
+describe('ISO-TP 传输层测试', () => {
+  let transports: IsoTpTransport[];
+  let sent: CanLinkMessage[];
+
+  /**
+   * 创建一对互相通信的传输层 (tester: 0x7E0 -> 0x7E8, ecu: 0x7E8 -> 0x7E0)
+   */
+  function createPair(tester: Partial<IsoTpConfig> = {}, ecu: Partial<IsoTpConfig> = {}): [IsoTpTransport, IsoTpTransport] {
+    const [a, b] = createCanLoopbackPair();
+    const pair: [IsoTpTransport, IsoTpTransport] = [
+      new IsoTpTransport(recording(a, sent), { txId: 0x7E0, rxId: 0x7E8, ...tester }),
+      new IsoTpTransport(b, { txId: 0x7E8, rxId: 0x7E0, ...ecu }),
+    ];
+    pair.forEach((t) => t.start());
+    transports.push(...pair);
+    return pair;
+  }
+
+  beforeEach(() => {
+    transports = [];
+    sent = [];
+  });
+
+  afterEach(() => {
+    transports.forEach((t) => t.stop());
+  });
+
+  describe('辅助函数', () => {
+    it('STmin 应按 ms 和 100μs 单位编解码', () => {
+      expect([encodeStMin(0), encodeStMin(20), encodeStMin(0.3), encodeStMin(500)]).to.deep.equal([0x00, 20, 0xF3, 0x7F]);
+      expect([decodeStMin(20), decodeStMin(0xF5), decodeStMin(0x80)]).to.deep.equal([20, 0.5, 0x7F]);
+    });
+  });
+
+  describe('分帧与重组', () => {
+    it('单帧应按 short 方式填充至 8 字节', async () => {
+      const [tester, ecu] = createPair();
+      await tester.send([0x10, 0x03]);
+
+      expect(Array.from(sent[0].data), '单帧').to.deep.equal([0x02, 0x10, 0x03, 0xCC, 0xCC, 0xCC, 0xCC, 0xCC]);
+      expect(Array.from((await ecu.receive(100))!), '接收数据').to.deep.equal([0x10, 0x03]);
+    });
+
+    it('多帧传输应按块大小发送流控帧', async () => {
+      const [tester, ecu] = createPair({}, { blockSize: 2 });
+      const data = payload(100);
+      await tester.send(data);
+
+      expect((await ecu.receive(100))!.equals(data), '重组数据').to.equal(true);
+      // 首帧 6 字节 + 14 个连续帧
+      expect(sent.length, '发送帧数量').to.equal(15);
+      expect(sent[0].data.slice(0, 2), '首帧长度').to.deep.equal(Buffer.from([0x10, 100]));
+      expect(sent.map((f) => f.data[0] >> 4).slice(1).every((pci) => pci === 2), '连续帧').to.equal(true);
+      expect(sent[15 - 1].data[0] & 0x0F, '序号回卷').to.equal(14 & 0x0F);
+    });
+
+    it('ECU 应能回复多帧响应', async () => {
+      const [tester, ecu] = createPair();
+      const response = payload(40);
+      const received = tester.receive(200);
+      await ecu.send(response);
+      expect((await received)!.equals(response)).to.equal(true);
+    });
+
+    it('CANFD 应使用单帧长度转义并填充至有效长度', async () => {
+      const [tester, ecu] = createPair({ fd: true, brs: true }, { fd: true });
+      await tester.send(payload(20));
+
+      expect(sent[0].data.length, '填充至 24 字节').to.equal(24);
+      expect(Array.from(sent[0].data.slice(0, 3)), '转义单帧').to.deep.equal([0x00, 20, 0x00]);
+      expect((sent[0] as { brs?: boolean }).brs, 'BRS').to.equal(true);
+      expect((await ecu.receive(100))!.length).to.equal(20);
+    });
+
+    it('超过 4095 字节时首帧应使用 32 位长度转义', async () => {
+      const [tester, ecu] = createPair({ fd: true }, { fd: true });
+      const data = payload(5000);
+      await tester.send(data);
+
+      expect(Array.from(sent[0].data.slice(0, 6)), '转义首帧').to.deep.equal([0x10, 0x00, 0x00, 0x00, 0x13, 0x88]);
+      expect((await ecu.receive(100))!.equals(data), '重组数据').to.equal(true);
+    });
+
+    it('扩展寻址应在首字节携带目标地址', async () => {
+      const [tester, ecu] = createPair(
+        { addressing: 'extended', txAddress: 0x10, rxAddress: 0xF1 },
+        { addressing: 'extended', txAddress: 0xF1, rxAddress: 0x10 },
+      );
+      const data = payload(12);
+      await tester.send(data);
+
+      expect(sent[0].data[0], '目标地址').to.equal(0x10);
+      expect(sent[0].data[1], '首帧 PCI').to.equal(0x10);
+      expect((await ecu.receive(100))!.equals(data)).to.equal(true);
+    });
+
+    it('不匹配的地址字节应被忽略', async () => {
+      const [tester, ecu] = createPair(
+        { addressing: 'mixed', txAddress: 0x22 },
+        { addressing: 'mixed', rxAddress: 0x33 },
+      );
+      await tester.send([0x3E, 0x00]);
+      expect(await ecu.receive(20)).to.equal(null);
+    });
+  });
+
+  describe('流控参数与超时', () => {
+    it('发送方应遵守接收方的 STmin', async () => {
+      const [tester, ecu] = createPair({}, { stMin: 5 });
+      const start = Date.now();
+      await tester.send(payload(27)); // 首帧 + 3 个连续帧
+      expect(Date.now() - start, '连续帧间隔').to.be.at.least(10);
+      expect((await ecu.receive(100))!.length).to.equal(27);
+    });
+
+    it('启用发送队列时应按 STmin 设置连续帧的队列延时', async () => {
+      const [a, b] = createCanLoopbackPair();
+      const delays: number[] = [];
+      const queued: CanLink = {
+        transmit: (message) => a.transmit(message),
+        receive: (maxCount) => a.receive(maxCount),
+        // 每次最多接受 2 帧，验证队列已满时分批加入
+        getAvailableTxCount: () => 2,
+        transmitQueue: (items) => {
+          items.forEach(({ message, delay }) => {
+            delays.push(delay);
+            a.transmit(message);
+          });
+          return items.length;
+        },
+      };
+      const tester = new IsoTpTransport(queued, { txId: 0x7E0, rxId: 0x7E8, useTransmitQueue: true });
+      const ecu = new IsoTpTransport(b, { txId: 0x7E8, rxId: 0x7E0, stMin: 5 });
+      [tester, ecu].forEach((t) => t.start());
+      transports.push(tester, ecu);
+
+      await tester.send(payload(27));
+      expect(delays, '队列延时').to.deep.equal([0, 5, 5]);
+      expect(await ecu.receive(100)).to.deep.equal(payload(27));
+    });
+
+    it('无流控帧时应以 N_TIMEOUT_Bs 失败', async () => {
+      const [a] = createCanLoopbackPair();
+      const tester = new IsoTpTransport(a, { txId: 0x7E0, rxId: 0x7E8, nBs: 20 });
+      tester.start();
+      transports.push(tester);
+
+      try {
+        await tester.send(payload(20));
+        expect.fail('应抛出异常');
+      } catch (error) {
+        expect(error).to.be.instanceOf(IsoTpError);
+        expect((error as IsoTpError).result).to.equal('N_TIMEOUT_Bs');
+      }
+    });
+
+    it('PDU 超过接收方缓冲区时应以 N_BUFFER_OVFLW 失败', async () => {
+      const [tester] = createPair({}, { maxReceiveLength: 50 });
+      try {
+        await tester.send(payload(100));
+        expect.fail('应抛出异常');
+      } catch (error) {
+        expect((error as IsoTpError).result).to.equal('N_BUFFER_OVFLW');
+      }
+    });
+
+    it('连续帧超时或序号错误时应发出 receiveError', async () => {
+      const [a, b] = createCanLoopbackPair();
+      const ecu = new IsoTpTransport(b, { txId: 0x7E8, rxId: 0x7E0, nCr: 20 });
+      transports.push(ecu);
+      const errors: string[] = [];
+      ecu.on('receiveError', (error) => errors.push(error.result));
+
+      a.transmit({ id: 0x7E0, data: [0x10, 20, 1, 2, 3, 4, 5, 6] });
+      ecu.poll();
+      await new Promise((resolve) => setTimeout(resolve, 40));
+
+      a.transmit({ id: 0x7E0, data: [0x10, 20, 1, 2, 3, 4, 5, 6] });
+      a.transmit({ id: 0x7E0, data: [0x22, 7, 8, 9, 10, 11, 12, 13] });
+      ecu.poll();
+
+      expect(errors).to.deep.equal(['N_TIMEOUT_Cr', 'N_WRONG_SN']);
+    });
+
+    it('链路接收失败时轮询应继续，没有 error 监听器时不抛出异常', async () => {
+      let failures = 2;
+      const [a, b] = createCanLoopbackPair();
+      const flaky: CanLink = {
+        transmit: (message) => b.transmit(message),
+        receive: (maxCount) => {
+          if (failures > 0) {
+            failures--;
+            throw new Error('receive failed');
+          }
+          return b.receive(maxCount);
+        },
+      };
+      const ecu = new IsoTpTransport(flaky, { txId: 0x7E8, rxId: 0x7E0 });
+      transports.push(ecu);
+      const received = new Promise<Buffer>((resolve) => ecu.once('pdu', resolve));
+      ecu.start();
+      a.transmit({ id: 0x7E0, data: [0x02, 0x10, 0x03] });
+      expect(Array.from(await received)).to.deep.equal([0x10, 0x03]);
+      expect(failures).to.equal(0);
+    });
+  });
+
+  describe('设备层', () => {
+    it('应能通过 CanfdWifi100uTcp 收发 PDU', async () => {
+      const lib = new FakeZlgCanLib();
+      const testerDevice = new CanfdWifi100uTcp({ ip: '192.168.1.100', port: 8000, lib });
+      const ecuDevice = new CanfdWifi100uTcp({ ip: '192.168.1.101', port: 8000, deviceIndex: 1, lib });
+      testerDevice.open();
+      ecuDevice.open();
+      const tester = new IsoTpTransport(testerDevice, { txId: 0x7E0, rxId: 0x7E8 });
+      const ecu = new IsoTpTransport(ecuDevice, { txId: 0x7E8, rxId: 0x7E0 });
+      tester.start();
+      ecu.start();
+      try {
+        const data = payload(50);
+        await tester.send(data);
+        expect((await ecu.receive(100))!.equals(data)).to.equal(true);
+      } finally {
+        tester.stop();
+        ecu.stop();
+        testerDevice.close();
+        ecuDevice.close();
+      }
+    });
+  });
+});
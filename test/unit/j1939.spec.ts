@@ -0,0 +1,254 @@
+/**
+ * J1939 单元测试
+ * 验证 ID/NAME/DM1 编解码，并通过内存回环验证地址声明、请求 PGN、BAM 和 RTS/CTS 传输
+ */
+
+import { expect } from 'chai';
+import { CanLoopback, CanLink } from '../../src/protocol/can-link';
+import {
+  J1939_PGN,
+  J1939Name,
+  J1939TransportError,
+  parseJ1939Id,
+  buildJ1939Id,
+  encodeJ1939Name,
+  decodeJ1939Name,
+  decodeDm1,
+  encodeDm1,
+} from '../../src/protocol/j1939';
+import { J1939Node, J1939Message } from '../../src/protocol/j1939-node';
+
+function name(identityNumber: number, arbitraryAddressCapable = true): J1939Name {
+  return {
+    identityNumber,
+    manufacturerCode: 0x123,
+    ecuInstance: 0,
+    functionInstance: 0,
+    function: 0x81,
+    vehicleSystem: 0,
+    vehicleSystemInstance: 0,
+    industryGroup: 2,
+    arbitraryAddressCapable,
+  };
+}
+
+describe('J1939 测试', () => {
+  describe('编解码', () => {
+    it('应解析和生成 PDU1/PDU2 格式的 ID', () => {
+      expect(parseJ1939Id(0x18FECA00)).to.deep.equal({ priority: 6, pgn: 0xFECA, source: 0x00, destination: 0xFF });
+      expect(parseJ1939Id(0x18EA00F9), 'PDU1').to.deep.equal({ priority: 6, pgn: 0xEA00, source: 0xF9, destination: 0x00 });
+      expect(parseJ1939Id(0x0CF00400).pgn, 'EEC1').to.equal(61444);
+
+      expect(buildJ1939Id({ pgn: 0xEA00, source: 0xF9, destination: 0x00 })).to.equal(0x18EA00F9);
+      expect(buildJ1939Id({ pgn: 0xF004, source: 0x00, destination: 0x12, priority: 3 }), 'PDU2 忽略目标地址').to.equal(0x0CF00400);
+      expect(() => buildJ1939Id({ pgn: 0x40000, source: 0 })).to.throw(RangeError);
+    });
+
+    it('NAME 应按位域编解码', () => {
+      const value = { ...name(0x1ABCDE), ecuInstance: 5, functionInstance: 17, vehicleSystem: 0x55, vehicleSystemInstance: 9 };
+      const data = encodeJ1939Name(value);
+      expect(data.length).to.equal(8);
+      expect(data[7] >> 7, '任意地址位').to.equal(1);
+      expect(data[7] & 0x70, '行业组').to.equal(0x20);
+      expect(decodeJ1939Name(data)).to.deep.equal(value);
+    });
+
+    it('DM1 应解码故障灯和故障码', () => {
+      // MIL 点亮，琥珀色警告灯快闪；SPN 520200 (0x7F008) FMI 3，发生 5 次
+      const dm1 = decodeDm1([0x44, 0xF7, 0x08, 0xF0, 0xE3, 0x05, 0x64, 0x00, 0x04, 0x81]);
+      expect(dm1.malfunctionIndicator).to.deep.equal({ status: 'on', flash: 'off' });
+      expect(dm1.amberWarning).to.deep.equal({ status: 'on', flash: 'fast' });
+      expect(dm1.redStop.status).to.equal('off');
+      expect(dm1.dtcs).to.deep.equal([
+        { spn: 520200, fmi: 3, occurrenceCount: 5, conversionMethod: 0 },
+        { spn: 100, fmi: 4, occurrenceCount: 1, conversionMethod: 1 },
+      ]);
+
+      expect(decodeDm1([0x00, 0xFF, 0, 0, 0, 0, 0xFF, 0xFF]).dtcs, '无故障').to.deep.equal([]);
+      expect(decodeDm1(encodeDm1(dm1))).to.deep.equal(dm1);
+    });
+  });
+
+  describe('J1939Node', () => {
+    let bus: CanLoopback;
+    let nodes: J1939Node[];
+
+    const createNode = (identityNumber: number, preferredAddress: number, arbitrary = true): J1939Node => {
+      const node = new J1939Node(bus.createLink(), {
+        name: name(identityNumber, arbitrary),
+        preferredAddress,
+        claimTimeout: 20,
+        bamInterval: 2,
+        ctsPackets: 4,
+      });
+      node.start();
+      nodes.push(node);
+      return node;
+    };
+
+    beforeEach(() => {
+      bus = new CanLoopback();
+      nodes = [];
+    });
+
+    afterEach(() => {
+      nodes.forEach((node) => node.stop());
+    });
+
+    it('地址冲突时 NAME 优先级低的节点应选择新地址', async () => {
+      const high = createNode(1, 0x80);
+      const low = createNode(2, 0x80);
+      const [highAddress, lowAddress] = await Promise.all([high.claimAddress(), low.claimAddress()]);
+      expect(highAddress).to.equal(0x80);
+      expect(lowAddress, '选择下一个空闲地址').to.equal(0x81);
+      expect(high.getAddressTable().get(0x81)!.identityNumber).to.equal(2);
+    });
+
+    it('不能任意选择地址的节点应发送无法声明地址消息', async () => {
+      const sniffer = bus.createLink();
+      // 任意地址位是 NAME 的最高位，两个节点均不可任意选择地址时按身份编号仲裁
+      const high = createNode(1, 0x10, false);
+      await high.claimAddress();
+      const fixed = createNode(2, 0x10, false);
+      let lost = false;
+      fixed.on('addressLost', () => {
+        lost = true;
+      });
+
+      let error: unknown;
+      await fixed.claimAddress().catch((e) => {
+        error = e;
+      });
+      expect(String(error)).to.match(/无可用地址/);
+      expect(lost).to.equal(true);
+      expect(fixed.getAddress()).to.equal(0xFE);
+      const cannotClaim = sniffer.receive(1000).filter((f) => f.id === buildJ1939Id({ pgn: J1939_PGN.ADDRESS_CLAIMED, source: 0xFE }));
+      expect(cannotClaim.length).to.equal(1);
+      await expectRejected(fixed.send(0xFECA, [0]), /尚未声明地址/);
+    });
+
+    it('应响应请求 PGN 并对不支持的定向请求回复 NACK', async () => {
+      const ecu = createNode(1, 0x00);
+      const tester = createNode(2, 0xF9);
+      await Promise.all([ecu.claimAddress(), tester.claimAddress()]);
+      ecu.setRequestHandler(0xFEDA, () => Buffer.from('V1.0*'));
+
+      const response = await tester.request(0xFEDA, 0x00, 200);
+      expect(response).to.deep.include({ pgn: 0xFEDA, source: 0x00 });
+      expect(response!.data.toString()).to.equal('V1.0*');
+
+      const ack = tester.waitMessage((message) => message.pgn === J1939_PGN.ACKNOWLEDGEMENT, 200);
+      expect(await tester.request(0xFEE5, 0x00, 50), '不支持的 PGN').to.equal(null);
+      expect(Array.from((await ack)!.data)).to.deep.equal([0x01, 0xFF, 0xFF, 0xFF, 0xF9, 0xE5, 0xFE, 0x00]);
+
+      const claim = await tester.request(J1939_PGN.ADDRESS_CLAIMED, 0xFF, 200);
+      expect(decodeJ1939Name(claim!.data).identityNumber, '地址声明请求').to.equal(1);
+    });
+
+    it('应通过 BAM 广播多包 DM1', async () => {
+      const ecu = createNode(1, 0x00);
+      const tool = createNode(2, 0xF9);
+      await Promise.all([ecu.claimAddress(), tool.claimAddress()]);
+
+      const received = new Promise<[ReturnType<typeof decodeDm1>, number]>((resolve) => {
+        tool.on('dm1', (dm1, source) => resolve([dm1, source]));
+      });
+      const dtcs = [1, 2, 3].map((spn) => ({ spn, fmi: spn, occurrenceCount: 1, conversionMethod: 0 }));
+      const off = { status: 'off', flash: 'off' } as const;
+      await ecu.sendDm1(encodeDm1({ malfunctionIndicator: off, redStop: off, amberWarning: { status: 'on', flash: 'off' }, protect: off, dtcs }));
+
+      const [dm1, source] = await received;
+      expect(source).to.equal(0x00);
+      expect(dm1.amberWarning.status).to.equal('on');
+      expect(dm1.dtcs).to.deep.equal(dtcs);
+    });
+
+    it('应通过 RTS/CTS 发送 1785 字节并分多个 CTS 窗口接收', async () => {
+      const sender = createNode(1, 0x10);
+      const receiver = createNode(2, 0x20);
+      await Promise.all([sender.claimAddress(), receiver.claimAddress()]);
+
+      const payload = Buffer.from(Array.from({ length: 1785 }, (_, i) => i & 0xFF));
+      const received = new Promise<J1939Message>((resolve) => {
+        receiver.on('message', (message) => message.pgn === 0xEF00 && resolve(message));
+      });
+      await sender.send(0xEF00, payload, { destination: 0x20 });
+      const message = await received;
+      expect(message).to.deep.include({ source: 0x10, destination: 0x20 });
+      expect(message.data.equals(payload)).to.equal(true);
+
+      await expectRejected(sender.send(0xEF00, Buffer.alloc(1786), { destination: 0x20 }), /1785/);
+    });
+
+    it('RTS 每个 CTS 的最大包数为 0 时应按本地设置回复 CTS', async () => {
+      const receiver = createNode(2, 0x20);
+      await receiver.claimAddress();
+      const peer = bus.createLink();
+      peer.receive(1000);
+
+      peer.transmit({
+        id: buildJ1939Id({ pgn: J1939_PGN.TP_CM, source: 0x30, destination: 0x20, priority: 7 }),
+        isExtended: true,
+        data: [16, 50, 0, 8, 0, 0x00, 0xEF, 0x00],
+      });
+      const cts = await new Promise<number[]>((resolve) => {
+        const timer = setInterval(() => {
+          const frame = peer.receive().find((f) => parseJ1939Id(f.id).pgn === J1939_PGN.TP_CM);
+          if (frame) {
+            clearInterval(timer);
+            resolve(Array.from(frame.data));
+          }
+        }, 1);
+      });
+      expect(cts.slice(0, 3), 'CTS 包数和起始序号').to.deep.equal([17, 4, 1]);
+    });
+
+    it('未声明地址时请求 PGN 应失败', async () => {
+      const node = new J1939Node(bus.createLink(), { name: name(4), preferredAddress: 0x50 });
+      await expectRejected(node.request(0xFEDA), /尚未声明地址/);
+    });
+
+    it('对方中止连接或无响应时应抛出 J1939TransportError', async () => {
+      const sender = createNode(1, 0x10);
+      await sender.claimAddress();
+      const peer: CanLink = bus.createLink();
+
+      // 对方回复中止 (资源不足)
+      const aborting = setInterval(() => {
+        for (const frame of peer.receive()) {
+          const { pgn, source } = parseJ1939Id(frame.id);
+          if (pgn === J1939_PGN.TP_CM && frame.data[0] === 16) {
+            peer.transmit({
+              id: buildJ1939Id({ pgn: J1939_PGN.TP_CM, source: 0x30, destination: source, priority: 7 }),
+              isExtended: true,
+              data: [255, 2, 0xFF, 0xFF, 0xFF, 0x00, 0xEF, 0x00],
+            });
+          }
+        }
+      }, 1);
+      try {
+        const error = await sender.send(0xEF00, Buffer.alloc(20), { destination: 0x30 }).catch((e) => e);
+        expect(error).to.be.instanceOf(J1939TransportError);
+        expect(error).to.include({ reason: 2, remote: true });
+      } finally {
+        clearInterval(aborting);
+      }
+
+      const timeoutNode = new J1939Node(bus.createLink(), { name: name(3), preferredAddress: 0x40, claimTimeout: 5, t3: 30 });
+      timeoutNode.start();
+      nodes.push(timeoutNode);
+      await timeoutNode.claimAddress();
+      const error = await timeoutNode.send(0xEF00, Buffer.alloc(20), { destination: 0x31 }).catch((e) => e);
+      expect(error).to.be.instanceOf(J1939TransportError);
+      expect(error).to.include({ reason: 3, remote: false });
+    });
+  });
+});
+
+async function expectRejected(promise: Promise<unknown>, pattern: RegExp): Promise<void> {
+  let error: unknown;
+  await promise.catch((e) => {
+    error = e;
+  });
+  expect(String(error)).to.match(pattern);
+}
@@ -0,0 +1,345 @@
+/**
+ * LDF 解析和 LIN 数据库单元测试
+ * 验证 LDF 各段落的解析、信号编解码，并通过 FakeZlgCanLib 验证主机调度表
+ */
+
+import { expect } from 'chai';
+import { LinChannel, LinFrame } from '../../src/device/lin-channel';
+import { FakeZlgCanLib } from '../../src/driver/fake';
+import { createDriver, ZlgCanError, linProtectedId } from '../../src/driver';
+import { ZCAN_DEVICE_TYPE } from '../../src/driver/constants';
+import { parseLdf } from '../../src/protocol/ldf';
+import { LinDatabase } from '../../src/protocol/lin-database';
+import { LinScheduler } from '../../src/protocol/lin-scheduler';
+
+const SAMPLE_LDF = `
+/* 车门 LIN 网络 */
+LIN_description_file;
+LIN_protocol_version = "2.1";
+LIN_language_version = "2.1";
+LIN_speed = 19.2 kbps;
+Channel_name = "DoorLin";
+
+Nodes {
+  Master: BCM, 5 ms, 0.1 ms;
+  Slaves: DoorLeft, DoorRight;
+}
+
+Signals {
+  WindowCmd: 2, 0, BCM, DoorLeft, DoorRight;
+  LockCmd: 1, 0, BCM, DoorLeft;
+  WindowPos: 8, 0, DoorLeft, BCM;
+  DoorTemp: 8, 40, DoorLeft, BCM;
+  RespError: 1, 0, DoorLeft, BCM;
+  SerialNo: 32, {1, 2, 3, 4}, DoorRight, BCM;
+  MirrorCmd: 4, 0, BCM, DoorRight;
+}
+
+Diagnostic_signals {
+  MasterReqB0: 8, 0;
+  MasterReqB1: 8, 0;
+  SlaveRespB0: 8, 0;
+}
+
+Frames {
+  BCM_Cmd: 0x10, BCM, 2 {
+    WindowCmd, 0;
+    LockCmd, 2;
+  }
+  DoorLeft_Status: 0x20, DoorLeft, 3 {
+    WindowPos, 0;
+    DoorTemp, 8;
+    RespError, 16;
+  }
+  DoorRight_Info: 0x21, DoorRight, 4 {
+    SerialNo, 0;
+  }
+  Mirror_Cmd: 0x11, BCM, 1 {
+    MirrorCmd, 0;
+  }
+}
+
+Sporadic_frames {
+  BCM_Sporadic: Mirror_Cmd;
+}
+
+Event_triggered_frames {
+  Door_Event: Collision, 0x30, DoorLeft_Status;
+}
+
+Diagnostic_frames {
+  MasterReq: 0x3c {
+    MasterReqB0, 0;
+    MasterReqB1, 8;
+  }
+  SlaveResp: 0x3d {
+    SlaveRespB0, 0;
+  }
+}
+
+Node_attributes {
+  DoorLeft {
+    LIN_protocol = "2.1";
+    configured_NAD = 0x02;
+    initial_NAD = 0x12;
+    product_id = 0x1234, 0x5678, 1;
+    response_error = RespError;
+    P2_min = 50 ms;
+    ST_min = 0 ms;
+    N_As_timeout = 1000 ms;
+    N_Cr_timeout = 1000 ms;
+    configurable_frames {
+      BCM_Cmd;
+      DoorLeft_Status;
+    }
+  }
+}
+
+Schedule_tables {
+  Normal {
+    BCM_Cmd delay 10 ms;
+    DoorLeft_Status delay 10 ms;
+    DoorRight_Info delay 10 ms;
+    BCM_Sporadic delay 10 ms;
+  }
+  Config {
+    AssignNAD { DoorLeft } delay 10 ms;
+    AssignFrameIdRange { DoorLeft, 0 } delay 10 ms;
+    SaveConfiguration { DoorLeft } delay 10 ms;
+    FreeFormat { 0x7F, 0x06, 0xB2, 0x00, 0xFF, 0x7F, 0xFF, 0xFF } delay 10 ms;
+  }
+  Diag {
+    MasterReq delay 10 ms;
+    SlaveResp delay 10 ms;
+  }
+  Collision {
+    DoorLeft_Status delay 10 ms;
+  }
+}
+
+Signal_encoding_types {
+  WindowCmdEnc {
+    logical_value, 0, "Stop";
+    logical_value, 1, "Up";
+    logical_value, 2, "Down";
+  }
+  TempEnc {
+    physical_value, 0, 250, 0.5, -40, "degC";
+    logical_value, 255, "Invalid";
+  }
+}
+
+Signal_representation {
+  WindowCmdEnc: WindowCmd;
+  TempEnc: DoorTemp;
+}
+`;
+
+describe('LDF 测试', () => {
+  describe('parseLdf', () => {
+    const ldf = parseLdf(SAMPLE_LDF);
+
+    it('应解析文件头和节点', () => {
+      expect(ldf.protocolVersion).to.equal('2.1');
+      expect(ldf.speed, '19.2 kbps').to.equal(19200);
+      expect(ldf.channelName).to.equal('DoorLin');
+      expect(ldf.master).to.deep.equal({ name: 'BCM', timeBase: 5, jitter: 0.1 });
+      expect(ldf.slaves).to.deep.equal(['DoorLeft', 'DoorRight']);
+    });
+
+    it('应解析信号、帧和诊断帧', () => {
+      expect(ldf.signals.find((s) => s.name === 'WindowCmd')).to.deep.equal({
+        name: 'WindowCmd',
+        size: 2,
+        initValue: 0,
+        publisher: 'BCM',
+        subscribers: ['DoorLeft', 'DoorRight'],
+        encoding: 'WindowCmdEnc',
+      });
+      expect(ldf.signals.find((s) => s.name === 'SerialNo')!.initValue, '字节数组').to.deep.equal([1, 2, 3, 4]);
+      expect(ldf.frames.find((f) => f.name === 'DoorLeft_Status')).to.deep.equal({
+        name: 'DoorLeft_Status',
+        id: 0x20,
+        publisher: 'DoorLeft',
+        length: 3,
+        signals: [{ name: 'WindowPos', offset: 0 }, { name: 'DoorTemp', offset: 8 }, { name: 'RespError', offset: 16 }],
+      });
+      expect(ldf.diagnosticSignals.map((s) => s.name)).to.deep.equal(['MasterReqB0', 'MasterReqB1', 'SlaveRespB0']);
+      expect(ldf.diagnosticFrames.map((f) => [f.name, f.id, f.publisher])).to.deep.equal([['MasterReq', 0x3C, 'BCM'], ['SlaveResp', 0x3D, '']]);
+      expect(ldf.sporadicFrames).to.deep.equal([{ name: 'BCM_Sporadic', frames: ['Mirror_Cmd'] }]);
+      expect(ldf.eventTriggeredFrames).to.deep.equal([
+        { name: 'Door_Event', id: 0x30, collisionScheduleTable: 'Collision', frames: ['DoorLeft_Status'] },
+      ]);
+    });
+
+    it('应解析节点属性、调度表和编码类型', () => {
+      expect(ldf.nodeAttributes).to.deep.equal([{
+        name: 'DoorLeft',
+        protocolVersion: '2.1',
+        configuredNad: 0x02,
+        initialNad: 0x12,
+        supplierId: 0x1234,
+        functionId: 0x5678,
+        variant: 1,
+        responseError: 'RespError',
+        p2Min: 50,
+        stMin: 0,
+        nAsTimeout: 1000,
+        nCrTimeout: 1000,
+        configurableFrames: [{ frame: 'BCM_Cmd' }, { frame: 'DoorLeft_Status' }],
+      }]);
+
+      const config = ldf.scheduleTables.find((t) => t.name === 'Config')!;
+      expect(config.entries[0]).to.deep.equal({ type: 'command', name: 'AssignNAD', node: 'DoorLeft', arguments: [], delay: 10 });
+      expect(config.entries[1]).to.include({ node: 'DoorLeft' }).and.to.have.deep.property('arguments', [0]);
+      expect(config.entries[3].arguments).to.have.length(8);
+      expect(ldf.scheduleTables[0].entries.map((e) => [e.type, e.name])).to.deep.equal([
+        ['frame', 'BCM_Cmd'],
+        ['frame', 'DoorLeft_Status'],
+        ['frame', 'DoorRight_Info'],
+        ['frame', 'BCM_Sporadic'],
+      ]);
+
+      const temp = ldf.encodings.find((e) => e.name === 'TempEnc')!;
+      expect(temp.physicalRanges).to.deep.equal([{ minimum: 0, maximum: 250, scale: 0.5, offset: -40, unit: 'degC' }]);
+      expect(temp.logicalValues).to.deep.equal({ 255: 'Invalid' });
+    });
+
+    it('语法错误应抛出包含行号的异常', () => {
+      expect(() => parseLdf('LIN_description_file;\nNodes {\n  Master BCM, 5 ms, 0.1 ms;\n}')).to.throw(ZlgCanError, /第 3 行/);
+      expect(() => parseLdf('Signals {\n  A: 8, 0, BCM;\n')).to.throw(ZlgCanError, /文件意外结束/);
+    });
+  });
+
+  describe('LinDatabase', () => {
+    const database = new LinDatabase(parseLdf(SAMPLE_LDF));
+
+    it('应按编码类型解码物理值和逻辑值', () => {
+      const decoded = database.decode({ id: 0x20, data: [0x64, 120, 0x01] })!;
+      expect(decoded.frame.name).to.equal('DoorLeft_Status');
+      expect(decoded.values).to.deep.equal({ WindowPos: 100, DoorTemp: 20, RespError: 1 });
+      expect(decoded.signals[1]).to.include({ unit: 'degC', raw: 120 });
+
+      const invalid = database.decode({ id: 0x20, data: [0, 255, 0] })!;
+      expect(invalid.signals[1]).to.include({ value: 255, label: 'Invalid' });
+      expect(database.decode({ id: 0x10, data: [0x02, 0] })!.signals[0].label).to.equal('Down');
+      expect(database.decode({ id: 0x21, data: [9, 8, 7, 6] })!.values).to.deep.equal({ SerialNo: [9, 8, 7, 6] });
+      expect(database.decode({ id: 0x05, data: [0] }), '未定义的 ID').to.equal(null);
+    });
+
+    it('事件触发帧应按第一个字节的 PID 解码', () => {
+      const decoded = database.decode({ id: 0x30, data: [linProtectedId(0x20), 0, 0] })!;
+      expect(decoded.frame.name).to.equal('DoorLeft_Status');
+    });
+
+    it('应编码物理值、逻辑值并使用初始值', () => {
+      expect(database.encode('BCM_Cmd', { WindowCmd: 'Up', LockCmd: 1 })).to.deep.equal([0x05, 0x00]);
+      expect(database.encode('DoorLeft_Status', { DoorTemp: 25 })).to.deep.equal([0, 130, 0]);
+      expect(database.encode('DoorLeft_Status'), 'DoorTemp 初始值').to.deep.equal([0, 40, 0]);
+      expect(database.encode('DoorRight_Info'), '字节数组初始值').to.deep.equal([1, 2, 3, 4]);
+      expect(database.encode('BCM_Cmd', { LockCmd: 1 }, { data: [0x02, 0xAA] }), '保留基础数据').to.deep.equal([0x06, 0xAA]);
+
+      expect(() => database.encode('DoorLeft_Status', { DoorTemp: 100 })).to.throw(ZlgCanError, /物理值范围/);
+      expect(() => database.encode('BCM_Cmd', { WindowCmd: 'Left' })).to.throw(ZlgCanError, /逻辑值/);
+      expect(() => database.encode('BCM_Cmd', { LockCmd: 2 })).to.throw(ZlgCanError, /1 位/);
+      expect(() => database.encode('BCM_Cmd', { WindowPos: 1 })).to.throw(ZlgCanError, /未定义信号/);
+    });
+  });
+
+  describe('LinScheduler', () => {
+    let master: LinChannel;
+    let slave: LinChannel;
+    let scheduler: LinScheduler;
+    const database = new LinDatabase(parseLdf(SAMPLE_LDF));
+
+    beforeEach(() => {
+      const driver = createDriver(new FakeZlgCanLib({ linChannelCount: 2 }));
+      driver.initialize();
+      const device = driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_USBCANFD_200U, 0);
+      master = new LinChannel(driver, device, { mode: 'master', channelIndex: 0 });
+      slave = new LinChannel(driver, device, { mode: 'slave', channelIndex: 1 });
+      master.open();
+      slave.open();
+      scheduler = new LinScheduler(master, database);
+    });
+
+    afterEach(() => {
+      scheduler.stop();
+      master.close();
+      slave.close();
+    });
+
+    const runTable = async (table: string, ms: number): Promise<LinFrame[]> => {
+      scheduler.start(table);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      scheduler.stop();
+      return master.poll(1000);
+    };
+
+    it('应按调度表发送主机帧并接收从机应答', async () => {
+      slave.setResponse({ id: 0x20, data: database.encode('DoorLeft_Status', { WindowPos: 50, DoorTemp: 0 }) });
+      slave.setResponse({ id: 0x21, data: [5, 6, 7, 8] });
+      scheduler.setSignals({ WindowCmd: 'Down', LockCmd: 1 });
+
+      const frames = await runTable('Normal', 45);
+      expect(scheduler.isRunning()).to.equal(false);
+      expect(frames.slice(0, 3).map((f) => f.id), '零星帧无更新时不发送').to.deep.equal([0x10, 0x20, 0x21]);
+      expect(frames[0].data).to.deep.equal([0x06, 0x00]);
+      expect(database.decode(frames[1])!.values).to.deep.equal({ WindowPos: 50, DoorTemp: 0, RespError: 0 });
+      expect(database.decode(frames[2])!.values).to.deep.equal({ SerialNo: [5, 6, 7, 8] });
+    });
+
+    it('零星帧应只在信号更新后发送一次', async () => {
+      scheduler.setSignal('MirrorCmd', 3);
+      const frames = await runTable('Normal', 75);
+      const mirror = frames.filter((f) => f.id === 0x11);
+      expect(mirror.map((f) => f.data)).to.deep.equal([[3]]);
+    });
+
+    it('节点配置命令应生成主机请求帧', async () => {
+      const frames = await runTable('Config', 45);
+      expect(frames.slice(0, 4).map((f) => f.data)).to.deep.equal([
+        [0x12, 0x06, 0xB0, 0x34, 0x12, 0x78, 0x56, 0x02],
+        [0x02, 0x06, 0xB7, 0x00, linProtectedId(0x10), linProtectedId(0x20), 0xFF, 0xFF],
+        [0x02, 0x01, 0xB6, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF],
+        [0x7F, 0x06, 0xB2, 0x00, 0xFF, 0x7F, 0xFF, 0xFF],
+      ]);
+    });
+
+    it('MasterReq 时隙应发送排队的诊断请求', async () => {
+      slave.setResponse({ id: 0x3D, data: [0x02, 0x06, 0xF2, 0x34, 0x12, 0x78, 0x56, 0x01] });
+      scheduler.sendMasterRequest([0x02, 0x06, 0xB2, 0x00, 0x34, 0x12, 0x78, 0x56]);
+      const frames = await runTable('Diag', 45);
+      expect(frames.filter((f) => f.id === 0x3C).length, '只发送一次').to.equal(1);
+      expect(frames.filter((f) => f.id === 0x3D).length).to.be.at.least(2);
+    });
+
+    it('时隙发送失败时应继续调度，没有 error 监听器时不抛出异常', async () => {
+      const send = master.send.bind(master);
+      let failures = 2;
+      master.send = (id, data) => {
+        if (failures > 0) {
+          failures--;
+          throw new Error('send failed');
+        }
+        send(id, data);
+      };
+
+      const frames = await runTable('Config', 45);
+      expect(failures).to.equal(0);
+      expect(frames.map((f) => f.data[2]), '失败后继续调度').to.include(0xB6);
+
+      const errors: string[] = [];
+      scheduler.on('error', (_error, entry) => errors.push(entry.name));
+      failures = 1;
+      await runTable('Config', 5);
+      expect(errors).to.deep.equal(['AssignNAD']);
+      expect(master.isScheduleRunning()).to.equal(false);
+    });
+
+    it('未定义的调度表或不由主机发布的信号应抛出异常', () => {
+      expect(() => scheduler.start('Unknown')).to.throw(ZlgCanError, /未定义的调度表/);
+      expect(() => scheduler.setSignal('WindowPos', 1)).to.throw(ZlgCanError, /不在主机发布的帧中/);
+    });
+  });
+});
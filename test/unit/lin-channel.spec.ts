@@ -0,0 +1,229 @@
+/**
+ * LIN 通道单元测试
+ * 验证 PID/校验和计算、驱动层 LIN 接口和 LinChannel 的调度、应答表及休眠/唤醒
+ */
+
+import { expect } from 'chai';
+import { LinChannel, LinFrame, LinBusError } from '../../src/device/lin-channel';
+import { FakeZlgCanLib } from '../../src/driver/fake';
+import {
+  createDriver,
+  ZlgCanDriver,
+  DeviceNotOpenError,
+  linProtectedId,
+  linChecksum,
+} from '../../src/driver';
+import {
+  ZCAN_DEVICE_TYPE,
+  LIN_MSG_DATA_TYPE,
+  LIN_MODE,
+  LIN_CHECKSUM_MODE,
+  LIN_DIR,
+} from '../../src/driver/constants';
+
+describe('LIN 通道测试', () => {
+  describe('协议辅助函数', () => {
+    it('linProtectedId 应计算奇偶校验位', () => {
+      expect(linProtectedId(0x10), '0x10').to.equal(0x50);
+      expect(linProtectedId(0x3C), '0x3C').to.equal(0x3C);
+      expect(linProtectedId(0x00), '0x00').to.equal(0x80);
+    });
+
+    it('linChecksum 应按校验方式计算并处理进位', () => {
+      expect(linChecksum(0x10, [0x01, 0x02], LIN_CHECKSUM_MODE.CLASSIC), '经典校验').to.equal(0xFC);
+      expect(linChecksum(0x10, [0x01], LIN_CHECKSUM_MODE.ENHANCED), '增强校验包含 PID').to.equal(0xAE);
+      expect(linChecksum(0x10, [0xFF, 0x02], LIN_CHECKSUM_MODE.CLASSIC), '进位回卷').to.equal(0xFD);
+    });
+
+    it('诊断帧应始终使用经典校验', () => {
+      const data = [0x00, 0xFF];
+      expect(linChecksum(0x3C, data, LIN_CHECKSUM_MODE.ENHANCED)).to.equal(linChecksum(0x3C, data, LIN_CHECKSUM_MODE.CLASSIC));
+    });
+  });
+
+  describe('驱动层', () => {
+    let driver: ZlgCanDriver;
+    let device: number;
+
+    beforeEach(() => {
+      driver = createDriver(new FakeZlgCanLib({ linChannelCount: 2 }));
+      driver.initialize();
+      device = driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_USBCANFD_200U, 0);
+    });
+
+    it('超出设备 LIN 通道数时 initLIN 应抛出异常', () => {
+      expect(() => driver.initLIN(device, 2, { linMode: LIN_MODE.MASTER, chkSumMode: 2, maxLength: 8, linBaud: 19200 }))
+        .to.throw(/ZCAN_InitLIN/);
+    });
+
+    it('主机发送帧头后应收到从机发布的应答', () => {
+      const master = driver.initLIN(device, 0, { linMode: LIN_MODE.MASTER, chkSumMode: 2, maxLength: 8, linBaud: 19200 });
+      const slave = driver.initLIN(device, 1, { linMode: LIN_MODE.SLAVE, chkSumMode: 2, maxLength: 8, linBaud: 19200 });
+      driver.startLIN(master);
+      driver.startLIN(slave);
+      driver.setLINPublish(slave, [{ ID: 0x10, dataLen: 3, data: [1, 2, 3], chkSumMode: LIN_CHECKSUM_MODE.DEFAULT }]);
+
+      const sent = driver.transmitLIN(master, [
+        {
+          chnl: 0,
+          dataType: LIN_MSG_DATA_TYPE.DATA,
+          data: { PID: 0x10, RxData: { timeStamp: 0, dataLen: 0, dir: LIN_DIR.TX, chkSum: 0, data: [] } },
+        },
+      ]);
+      expect(sent, '应发送 1 个帧头').to.equal(1);
+      expect(driver.getLINReceiveNum(master), '主机接收数量').to.equal(1);
+
+      const [msg] = driver.receiveLIN(master, 10, 0);
+      if (msg.dataType !== LIN_MSG_DATA_TYPE.DATA) {
+        throw new Error('数据类型错误');
+      }
+      expect(msg.data.PID, 'PID').to.equal(linProtectedId(0x10));
+      expect(Array.from(msg.data.RxData.data).slice(0, msg.data.RxData.dataLen), '应答数据').to.deep.equal([1, 2, 3]);
+      expect(msg.data.RxData.dir, '主机方向应为接收').to.equal(LIN_DIR.RX);
+      expect(msg.data.RxData.chkSum, '增强校验').to.equal(linChecksum(0x10, [1, 2, 3], LIN_CHECKSUM_MODE.ENHANCED));
+    });
+  });
+
+  describe('LinChannel', () => {
+    let lib: FakeZlgCanLib;
+    let driver: ZlgCanDriver;
+    let master: LinChannel;
+    let slave: LinChannel;
+
+    beforeEach(() => {
+      lib = new FakeZlgCanLib({ linChannelCount: 2 });
+      driver = createDriver(lib);
+      driver.initialize();
+      const device = driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_USBCANFD_200U, 0);
+      master = new LinChannel(driver, device, { mode: 'master', channelIndex: 0 });
+      slave = new LinChannel(driver, device, { mode: 'slave', channelIndex: 1 });
+    });
+
+    afterEach(() => {
+      master.close();
+      slave.close();
+    });
+
+    it('通道未打开时应抛出 DeviceNotOpenError', () => {
+      expect(() => master.sendHeader(0x10)).to.throw(DeviceNotOpenError);
+    });
+
+    it('打开前设置的应答表应在打开时写入', () => {
+      slave.setResponse({ id: 0x21, data: [0xAA, 0xBB] });
+      master.open();
+      slave.open();
+
+      const frames: LinFrame[] = [];
+      master.on('frame', (frame) => frames.push(frame));
+      master.sendHeader(0x21);
+      master.poll();
+
+      expect(frames.map((f) => [f.id, f.data, f.direction]), '主机收到应答').to.deep.equal([[0x21, [0xAA, 0xBB], 'rx']]);
+      expect(slave.poll().map((f) => f.direction), '从机发送方向').to.deep.equal(['tx']);
+    });
+
+    it('应答表项应按指定方式计算校验和', () => {
+      master.open();
+      slave.open();
+      slave.setResponse({ id: 0x22, data: [1, 2], checksum: 'classic' });
+
+      master.sendHeader(0x22);
+      const [frame] = master.poll();
+      expect(frame.checksum, '经典校验').to.equal(linChecksum(0x22, [1, 2], LIN_CHECKSUM_MODE.CLASSIC));
+    });
+
+    it('订阅的校验方式不匹配时应发出 linError', () => {
+      master.open();
+      slave.open();
+      slave.setResponse({ id: 0x23, data: [1], checksum: 'classic' });
+      master.subscribe({ id: 0x23, length: 1, checksum: 'enhanced' });
+
+      const errors: LinBusError[] = [];
+      master.on('linError', (error) => errors.push(error));
+      master.sendHeader(0x23);
+      expect(master.poll(), '不应返回数据帧').to.deep.equal([]);
+      expect(errors.map((e) => e.id), '错误帧 ID').to.deep.equal([0x23]);
+    });
+
+    it('无节点应答时主机应收到 linError', () => {
+      master.open();
+      const errors: LinBusError[] = [];
+      master.on('linError', (error) => errors.push(error));
+      master.sendHeader(0x30);
+      master.poll();
+      expect(errors.length, '应收到 1 个错误').to.equal(1);
+    });
+
+    it('从机发送帧头应抛出异常', () => {
+      slave.open();
+      expect(() => slave.sendHeader(0x10)).to.throw(/仅主机/);
+    });
+
+    it('调度表应按时隙循环发送帧头', async () => {
+      master.open();
+      slave.open();
+      slave.setResponse({ id: 0x01, data: [1] });
+      slave.setResponse({ id: 0x02, data: [2] });
+
+      master.startSchedule([
+        { id: 0x01, slot: 2 },
+        { id: 0x02, slot: 2 },
+        { id: 0x03, slot: 2, data: [3, 3] },
+      ]);
+      expect(master.isScheduleRunning(), '调度应在运行').to.equal(true);
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      master.stopSchedule();
+
+      const ids = master.poll(1000).map((f) => f.id);
+      expect(ids.slice(0, 6), '调度顺序').to.deep.equal([0x01, 0x02, 0x03, 0x01, 0x02, 0x03]);
+      expect(master.isScheduleRunning(), '调度应已停止').to.equal(false);
+    });
+
+    it('调度发送失败时应继续调度，没有 error 监听器时不抛出异常', async () => {
+      master.open();
+      slave.open();
+      slave.setResponse({ id: 0x01, data: [1] });
+      lib.injectFailure('ZCAN_TransmitLIN');
+      master.startSchedule([{ id: 0x01, slot: 2 }]);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(master.isScheduleRunning(), '调度应仍在运行').to.equal(true);
+      expect(master.poll(1000).length, '失败后应继续发送帧头').to.be.greaterThan(0);
+
+      const errors: Error[] = [];
+      master.on('error', (error) => errors.push(error));
+      lib.injectFailure('ZCAN_TransmitLIN');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      master.stopSchedule();
+      expect(errors.length, '应收到 error 事件').to.equal(1);
+    });
+
+    it('休眠命令和唤醒信号应发出 sleep/wake 事件', () => {
+      master.open();
+      slave.open();
+      const events: string[] = [];
+      master.on('sleep', () => events.push('master:sleep'));
+      master.on('wake', () => events.push('master:wake'));
+      master.on('wakeUpSignal', () => events.push('master:wakeUpSignal'));
+      slave.on('sleep', () => events.push('slave:sleep'));
+      slave.on('wake', () => events.push('slave:wake'));
+
+      master.goToSleep();
+      master.poll();
+      slave.poll();
+      expect(master.isSleeping, '主机应处于休眠').to.equal(true);
+      expect(() => master.sendHeader(0x10), '休眠时不能发送帧头').to.throw();
+
+      slave.wakeUp();
+      master.poll();
+      slave.poll();
+      expect(events).to.deep.equal([
+        'master:sleep',
+        'slave:sleep',
+        'master:wakeUpSignal',
+        'master:wake',
+        'slave:wake',
+      ]);
+      expect(master.isSleeping, '主机应已唤醒').to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * 动态库加载器单元测试
+ * 验证各平台/架构的库路径、调用约定和平台支持判断
+ */
+
+import { expect } from 'chai';
+import fs from 'fs';
+import path from 'path';
+import {
+  getDllPath,
+  getCallingConvention,
+  getSystemArch,
+  isPlatformSupported,
+  ZLGCAN_LIB_PATH_ENV,
+} from '../../src/driver/loader';
+import { createDriver } from '../../src/driver';
+
+describe('动态库加载器测试', () => {
+  let savedEnv: string | undefined;
+
+  beforeEach(() => {
+    savedEnv = process.env[ZLGCAN_LIB_PATH_ENV];
+    delete process.env[ZLGCAN_LIB_PATH_ENV];
+  });
+
+  afterEach(() => {
+    if (savedEnv === undefined) {
+      delete process.env[ZLGCAN_LIB_PATH_ENV];
+    } else {
+      process.env[ZLGCAN_LIB_PATH_ENV] = savedEnv;
+    }
+  });
+
+  describe('getDllPath', () => {
+    it('Windows x64 应使用 zlgcan_x64/zlgcan.dll', () => {
+      const dllPath = getDllPath('win32', 'x64');
+      expect(dllPath, `路径: ${dllPath}`).to.match(/zlgcan_x64[\\/]zlgcan\.dll$/);
+    });
+
+    it('Windows x86 应使用 zlgcan_x86/zlgcan.dll', () => {
+      const dllPath = getDllPath('win32', 'x86');
+      expect(dllPath, `路径: ${dllPath}`).to.match(/zlgcan_x86[\\/]zlgcan\.dll$/);
+    });
+
+    it('Linux 内置目录中没有 libzlgcan.so 时应交给系统动态链接器查找', () => {
+      for (const arch of ['x64', 'arm64', 'arm'] as const) {
+        const dllPath = getDllPath('linux', arch);
+        if (fs.existsSync(path.join(__dirname, '../../libs/zlg_canlib', `zlgcan_linux_${arch}`, 'libzlgcan.so'))) {
+          expect(dllPath, `${arch} 路径`).to.match(new RegExp(`zlgcan_linux_${arch}[\\\\/]libzlgcan\\.so$`));
+        } else {
+          expect(dllPath, `${arch} 路径`).to.equal('libzlgcan.so');
+        }
+      }
+    });
+
+    it('环境变量应优先于内置路径', () => {
+      process.env[ZLGCAN_LIB_PATH_ENV] = '/opt/zlg/libzlgcan.so';
+      const dllPath = getDllPath('linux', 'x64');
+      expect(dllPath, `路径: ${dllPath}`).to.equal(path.resolve('/opt/zlg/libzlgcan.so'));
+    });
+  });
+
+  describe('getSystemArch', () => {
+    it('应映射 Node.js 架构名称', () => {
+      expect(getSystemArch('x64')).to.equal('x64');
+      expect(getSystemArch('ia32')).to.equal('x86');
+      expect(getSystemArch('arm64')).to.equal('arm64');
+      expect(getSystemArch('arm')).to.equal('arm');
+    });
+
+    it('无法识别的架构应抛出异常而不是回退到 x86', () => {
+      expect(() => getSystemArch('ppc64')).to.throw(/ppc64/);
+      expect(() => getSystemArch('s390x')).to.throw(/s390x/);
+    });
+  });
+
+  describe('getCallingConvention', () => {
+    it('Windows 应使用 __stdcall', () => {
+      expect(getCallingConvention('win32')).to.equal('__stdcall');
+    });
+
+    it('Linux 应使用 __cdecl', () => {
+      expect(getCallingConvention('linux')).to.equal('__cdecl');
+    });
+  });
+
+  describe('isPlatformSupported', () => {
+    it('应支持 Windows x64/x86', () => {
+      expect(isPlatformSupported('win32', 'x64'), 'win32/x64').to.be.true;
+      expect(isPlatformSupported('win32', 'x86'), 'win32/x86').to.be.true;
+    });
+
+    it('应支持 Linux x64/arm64/arm', () => {
+      expect(isPlatformSupported('linux', 'x64'), 'linux/x64').to.be.true;
+      expect(isPlatformSupported('linux', 'arm64'), 'linux/arm64').to.be.true;
+      expect(isPlatformSupported('linux', 'arm'), 'linux/arm').to.be.true;
+    });
+
+    it('不应支持其它平台', () => {
+      expect(isPlatformSupported('darwin', 'arm64'), 'darwin/arm64').to.be.false;
+      expect(isPlatformSupported('win32', 'arm64'), 'win32/arm64').to.be.false;
+    });
+  });
+
+  describe('自定义库路径', () => {
+    it('库文件不存在时 initialize 应抛出异常', () => {
+      const driver = createDriver(path.join(__dirname, 'not-exist', 'libzlgcan.so'));
+      expect(() => driver.initialize(), '加载不存在的库应抛出异常').to.throw();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * 合并收发单元测试
+ * 验证 ZCANDataObj 编解码、驱动层 transmitData/receiveData 和设备层合并接收
+ */
+
+import { expect } from 'chai';
+import { CanfdWifi100uTcp, ReceivedRecord } from '../../src/device/canfd-wifi-100u-tcp';
+import { FakeZlgCanLib } from '../../src/driver/fake';
+import { createDriver, IZcanDataObj } from '../../src/driver';
+import {
+  ZCAN_DEVICE_TYPE,
+  ZCAN_DATA_OBJ_TYPE,
+  ZCAN_DATA_FLAG,
+  ZCAN_TX_DELAY,
+  ZCAN_ERR_TYPE,
+  ZCAN_BUS_ERR,
+  ZCAN_NODE_STATE,
+  CANFD_FLAG,
+} from '../../src/driver/constants';
+
+describe('合并收发测试', () => {
+  describe('驱动层', () => {
+    let lib: FakeZlgCanLib;
+    let driver: ReturnType<typeof createDriver>;
+    let device: number;
+
+    beforeEach(() => {
+      lib = new FakeZlgCanLib();
+      driver = createDriver(lib);
+      driver.initialize();
+      device = driver.openDevice(ZCAN_DEVICE_TYPE.ZCAN_CANFDNET_200U_TCP, 0);
+      const channel = driver.initCAN(device, 0, { can_type: 1, acc_code: 0, acc_mask: 0xFFFFFFFF, filter: 0, mode: 0 });
+      driver.startCAN(channel);
+    });
+
+    it('transmitData 发送的 CAN/CANFD 帧应通过 receiveData 回显', () => {
+      const data: IZcanDataObj[] = [
+        {
+          dataType: ZCAN_DATA_OBJ_TYPE.CAN_CANFD,
+          chnl: 0,
+          data: { timeStamp: 0, flag: ZCAN_DATA_FLAG.TX_ECHO_REQUEST, frame: { can_id: 0x123, len: 2, data: [1, 2] } },
+        },
+        {
+          dataType: ZCAN_DATA_OBJ_TYPE.CAN_CANFD,
+          chnl: 0,
+          data: {
+            timeStamp: 0,
+            flag: 1 | ZCAN_DATA_FLAG.TX_ECHO_REQUEST,
+            frame: { can_id: 0x456, len: 12, flags: CANFD_FLAG.BRS, data: new Array(12).fill(0x55) },
+          },
+        },
+      ];
+      expect(driver.transmitData(device, data), '应发送 2 帧').to.equal(2);
+
+      const received = driver.receiveData(device, 10, 0);
+      expect(received.map((r) => r.dataType), '数据类型').to.deep.equal([
+        ZCAN_DATA_OBJ_TYPE.CAN_CANFD,
+        ZCAN_DATA_OBJ_TYPE.CAN_CANFD,
+      ]);
+
+      const [can, canfd] = received;
+      if (can.dataType !== ZCAN_DATA_OBJ_TYPE.CAN_CANFD || canfd.dataType !== ZCAN_DATA_OBJ_TYPE.CAN_CANFD) {
+        throw new Error('数据类型错误');
+      }
+      expect(can.data.frame.can_id, 'CAN ID').to.equal(0x123);
+      expect(can.data.flag & ZCAN_DATA_FLAG.FRAME_TYPE_MASK, 'CAN 帧类型').to.equal(0);
+      expect(can.data.flag & ZCAN_DATA_FLAG.TX_ECHOED, '应标记为回显').to.equal(ZCAN_DATA_FLAG.TX_ECHOED);
+      expect(canfd.data.flag & ZCAN_DATA_FLAG.FRAME_TYPE_MASK, 'CANFD 帧类型').to.equal(1);
+      expect(canfd.data.frame.len, 'CANFD 长度').to.equal(12);
+      expect(canfd.data.frame.flags! & CANFD_FLAG.BRS, 'BRS 标志应保留').to.equal(CANFD_FLAG.BRS);
+    });
+
+    it('flag.txDelay 应按队列延时发送', () => {
+      driver.transmitData(device, [
+        {
+          dataType: ZCAN_DATA_OBJ_TYPE.CAN_CANFD,
+          chnl: 0,
+          data: {
+            timeStamp: 20,
+            flag: ZCAN_DATA_FLAG.TX_ECHO_REQUEST | (ZCAN_TX_DELAY.UNIT_MS << ZCAN_DATA_FLAG.TX_DELAY_SHIFT),
+            frame: { can_id: 0x10, len: 1, data: [1] },
+          },
+        },
+      ]);
+
+      lib.advance(19);
+      expect(driver.receiveData(device, 10, 0).length, '延时未到期').to.equal(0);
+      lib.advance(1);
+      expect(driver.receiveData(device, 10, 0).length, '20ms 时应发送').to.equal(1);
+    });
+  });
+
+  describe('设备层', () => {
+    let lib: FakeZlgCanLib;
+    let device: CanfdWifi100uTcp;
+
+    beforeEach(() => {
+      lib = new FakeZlgCanLib();
+      device = new CanfdWifi100uTcp({ ip: '192.168.1.100', port: 8000, mergeReceive: true, lib });
+      device.open();
+    });
+
+    afterEach(() => {
+      device.close();
+    });
+
+    it('receiveRecords 应按上报顺序返回报文和错误数据', () => {
+      device.transmit({ id: 0x100, data: [1] });
+      lib.injectErrorData({
+        errType: ZCAN_ERR_TYPE.BUS_ERR,
+        errSubType: ZCAN_BUS_ERR.ACK_ERR,
+        nodeState: ZCAN_NODE_STATE.PASSIVE,
+        rxErrCount: 0,
+        txErrCount: 128,
+        errData: 0,
+      });
+      device.transmit({ id: 0x200, data: [2], brs: true });
+      lib.injectCan({ can_id: 0x300, can_dlc: 1, data: [3] });
+
+      const records = device.receiveRecords();
+      expect(records.map((r) => r.type), '记录顺序').to.deep.equal(['can', 'error', 'canfd', 'can']);
+
+      const error = records[1] as Extract<ReceivedRecord, { type: 'error' }>;
+      expect(error.error.nodeState, '节点状态').to.equal('error-passive');
+      expect(error.error.txErrorCounter, 'TEC').to.equal(128);
+
+      const echoed = records.map((r) => (r.type === 'can' || r.type === 'canfd' ? r.echoed : null));
+      expect(echoed, '回显标志').to.deep.equal([true, null, true, false]);
+    });
+
+    it('合并接收模式下 receive 应只返回报文', () => {
+      device.transmit({ id: 0x100, data: [1] });
+      lib.injectErrorData({ errType: ZCAN_ERR_TYPE.BUS_ERR, errSubType: 0, nodeState: 0, rxErrCount: 0, txErrCount: 0, errData: 0 });
+      device.transmit({ id: 0x200, data: [2], brs: true });
+
+      expect(device.receive().map((m) => m.id), '报文顺序').to.deep.equal([0x100, 0x200]);
+    });
+
+    it('未开启合并接收时 receiveRecords 应抛出异常', () => {
+      const plain = new CanfdWifi100uTcp({ ip: '192.168.1.100', port: 8000, deviceIndex: 1, lib });
+      plain.open();
+      try {
+        expect(() => plain.receiveRecords(), '应抛出异常').to.throw(/mergeReceive/);
+      } finally {
+        plain.close();
+      }
+    });
+  });
+});
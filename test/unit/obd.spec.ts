@@ -0,0 +1,272 @@
+/**
+ * OBD-II 单元测试
+ * 验证 PID/故障码编解码，并通过内存回环上的多个模拟 ECU 验证功能寻址、物理寻址和 29 位 ID
+ */
+
+import { expect } from 'chai';
+import { CanLoopback, CanLink } from '../../src/protocol/can-link';
+import { IsoTpTransport, IsoTpError } from '../../src/protocol/isotp';
+import { UdsNegativeResponseError, UdsTimeoutError } from '../../src/protocol/uds';
+import {
+  OBD_MODE,
+  formatObdDtc,
+  parseObdDtc,
+  decodeSupportedPids,
+  decodeObdPid,
+  decodeObdDtcs,
+} from '../../src/protocol/obd';
+import { ObdScanner } from '../../src/protocol/obd-scanner';
+
+type Handler = (request: Buffer) => number[][] | null;
+
+/**
+ * 模拟 ECU：响应功能寻址和物理寻址的请求，可返回多个响应 (如 NRC 0x78 后的积极响应)
+ */
+class FakeEcu {
+  readonly requests: { id: number; data: Buffer }[] = [];
+  private readonly transport: IsoTpTransport;
+  private readonly timer: NodeJS.Timeout;
+
+  constructor(
+    readonly link: CanLink,
+    readonly responseId: number,
+    readonly requestId: number,
+    readonly functionalId: number,
+    readonly handler: Handler,
+    readonly extended = false,
+  ) {
+    this.transport = new IsoTpTransport(link, { txId: responseId, rxId: requestId, extended, paddingByte: 0x55 });
+    this.transport.on('pdu', (data) => this.respond(requestId, data));
+    this.timer = setInterval(() => this.poll(), 1);
+  }
+
+  close(): void {
+    clearInterval(this.timer);
+  }
+
+  private poll(): void {
+    for (const frame of this.link.receive()) {
+      if (frame.id === this.functionalId && !!frame.isExtended === this.extended) {
+        const data = Buffer.from(frame.data);
+        this.respond(frame.id, data.subarray(1, 1 + (data[0] & 0x0F)));
+      } else {
+        this.transport.handleFrame(frame);
+      }
+    }
+  }
+
+  private respond(id: number, request: Buffer): void {
+    this.requests.push({ id, data: Buffer.from(request) });
+    this.transport.clearReceived();
+    const responses = this.handler(request);
+    if (!responses) {
+      return;
+    }
+    responses.forEach((response, i) => {
+      setTimeout(() => this.transport.send(response).catch(() => undefined), i * 80);
+    });
+  }
+}
+
+const VIN = '1ZLGCAN0123456789';
+
+/**
+ * 发动机 ECU：支持 PID 01-0D 和 21，3 个已确认故障码
+ */
+const engine: Handler = (request) => {
+  const [mode, pid] = request;
+  if (mode === OBD_MODE.CURRENT_DATA) {
+    switch (pid) {
+      case 0x00: return [[0x41, 0x00, 0xFF, 0xF8, 0x00, 0x01]];
+      case 0x20: return [[0x41, 0x20, 0x80, 0x00, 0x00, 0x00]];
+      case 0x40: return null;
+      case 0x05: return [[0x41, 0x05, 90]];
+      case 0x0C: return [[0x41, 0x0C, 0x1A, 0xF8]];
+      default: return null;
+    }
+  }
+  if (mode === OBD_MODE.STORED_DTC) {
+    return [[0x43, 3, 0x01, 0x23, 0xC1, 0x01, 0x44, 0x20]];
+  }
+  if (mode === OBD_MODE.VEHICLE_INFO && pid === 0x02) {
+    return [[0x49, 0x02, 0x01, ...Buffer.from(VIN)]];
+  }
+  if (mode === OBD_MODE.VEHICLE_INFO && pid === 0x04) {
+    return [[0x49, 0x04, 0x02, ...Buffer.from('ENG-CAL-01\0\0\0\0\0\0'), ...Buffer.from('ENG-CAL-02\0\0\0\0\0\0')]];
+  }
+  if (mode === OBD_MODE.CLEAR_DTC) {
+    return [[0x7F, 0x04, 0x78], [0x44]];
+  }
+  return [[0x7F, mode, 0x12]];
+};
+
+/**
+ * 变速箱 ECU：支持 PID 01-05，无故障码，不支持车辆信息
+ */
+const transmission: Handler = (request) => {
+  const [mode, pid] = request;
+  if (mode === OBD_MODE.CURRENT_DATA) {
+    switch (pid) {
+      case 0x00: return [[0x41, 0x00, 0xF8, 0x00, 0x00, 0x00]];
+      case 0x05: return [[0x41, 0x05, 100]];
+      default: return null;
+    }
+  }
+  if (mode === OBD_MODE.STORED_DTC) {
+    return [[0x43, 0]];
+  }
+  if (mode === OBD_MODE.CLEAR_DTC) {
+    return [[0x44]];
+  }
+  return null;
+};
+
+describe('OBD-II', () => {
+  describe('编解码', () => {
+    it('故障码文本与编码互相转换', () => {
+      expect(formatObdDtc(0x0123)).to.equal('P0123');
+      expect(formatObdDtc(0xC101)).to.equal('U0101');
+      expect(formatObdDtc(0x4420)).to.equal('C0420');
+      expect(parseObdDtc('b1a2f')).to.equal(0x9A2F);
+      expect(() => parseObdDtc('X0123')).to.throw(RangeError);
+      expect(decodeObdDtcs(Buffer.from([2, 0x01, 0x23, 0x00, 0x00]))).to.deep.equal(['P0123']);
+    });
+
+    it('解码支持 PID 位图和内置 PID', () => {
+      expect(decodeSupportedPids(0x20, Buffer.from([0x80, 0x00, 0x00, 0x01]))).to.deep.equal([0x21, 0x40]);
+      expect(decodeObdPid(0x0C, Buffer.from([0x1A, 0xF8]))).to.equal(1726);
+      expect(decodeObdPid(0x05, Buffer.from([90]))).to.equal(50);
+      expect(decodeObdPid(0x01, Buffer.from([0x83, 0x07, 0x65, 0x00]))).to.deep.equal({ milOn: true, dtcCount: 3, compressionIgnition: false });
+      expect(decodeObdPid(0xFF, Buffer.from([1]))).to.equal(undefined);
+      expect(decodeObdPid(0x0C, Buffer.from([1]))).to.equal(undefined);
+    });
+  });
+
+  describe('ObdScanner (11 位 ID)', () => {
+    let ecus: FakeEcu[];
+    let scanner: ObdScanner;
+
+    beforeEach(() => {
+      const bus = new CanLoopback();
+      ecus = [
+        new FakeEcu(bus.createLink(), 0x7E8, 0x7E0, 0x7DF, engine),
+        new FakeEcu(bus.createLink(), 0x7E9, 0x7E1, 0x7DF, transmission),
+      ];
+      scanner = new ObdScanner(bus.createLink(), { p2Timeout: 50, p2StarTimeout: 200 });
+      scanner.start();
+    });
+
+    afterEach(() => {
+      scanner.stop();
+      ecus.forEach((ecu) => ecu.close());
+    });
+
+    it('功能寻址收集多个 ECU 的 PID 响应', async () => {
+      const temperatures = await scanner.readPid(0x05);
+      expect(temperatures.map((r) => [r.ecu, r.value.value])).to.have.deep.members([[0x7E8, 50], [0x7E9, 60]]);
+      expect(temperatures[0].value).to.include({ pid: 0x05, name: 'Engine coolant temperature', unit: '°C' });
+
+      const speed = await scanner.readPid(0x0C);
+      expect(speed).to.have.length(1);
+      expect(speed[0].ecu).to.equal(0x7E8);
+      expect(speed[0].value.value).to.equal(1726);
+      expect(ecus[0].requests.every((r) => r.id === 0x7DF)).to.equal(true);
+      expect(scanner.getEcus()).to.have.members([0x7E8, 0x7E9]);
+    });
+
+    it('按位图查询各 ECU 支持的 PID', async () => {
+      const supported = await scanner.readSupportedPids();
+      const byEcu = new Map(supported.map((r) => [r.ecu, r.value]));
+      expect(byEcu.get(0x7E8)).to.deep.equal([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 0x21]);
+      expect(byEcu.get(0x7E9)).to.deep.equal([1, 2, 3, 4, 5]);
+      expect(ecus[0].requests.map((r) => r.data[1])).to.deep.equal([0x00, 0x20]);
+    });
+
+    it('读取多帧故障码响应', async () => {
+      const dtcs = await scanner.readStoredDtcs();
+      expect(dtcs).to.have.deep.members([
+        { ecu: 0x7E8, value: ['P0123', 'U0101', 'C0420'] },
+        { ecu: 0x7E9, value: [] },
+      ]);
+    });
+
+    it('读取 VIN 和标定 ID', async () => {
+      expect(await scanner.readVin()).to.deep.equal([{ ecu: 0x7E8, value: VIN }]);
+      expect(await scanner.readCalibrationIds({ ecu: 0x7E8 })).to.deep.equal([{ ecu: 0x7E8, value: ['ENG-CAL-01', 'ENG-CAL-02'] }]);
+      expect(ecus[0].requests[1].id).to.equal(0x7E0);
+    });
+
+    it('NRC 0x78 延长等待时间', async () => {
+      const pending: number[] = [];
+      scanner.on('responsePending', (ecu) => pending.push(ecu));
+      const start = Date.now();
+      expect(await scanner.clearDtcs()).to.have.members([0x7E8, 0x7E9]);
+      expect(pending).to.deep.equal([0x7E8]);
+      // 最终响应在 80ms 后到达，之后只再等待 P2 (50ms) 而不是 P2* (200ms)
+      expect(Date.now() - start, '最终响应后按 P2 结束').to.be.within(80, 80 + 50 + 40);
+    });
+
+    it('物理寻址的消极响应和超时抛出异常', async () => {
+      let error: unknown;
+      try {
+        await scanner.readCvns({ ecu: 0x7E8 });
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(UdsNegativeResponseError);
+      expect((error as UdsNegativeResponseError).nrc).to.equal(0x12);
+
+      error = undefined;
+      try {
+        await scanner.readVin({ ecu: 0x7E9 });
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(UdsTimeoutError);
+
+      expect(await scanner.readVin({ ecu: 0x7E8 })).to.have.length(1);
+      expect(await scanner.readPid(0x0D)).to.deep.equal([]);
+      error = undefined;
+      try {
+        await scanner.request([0x01, 0x00], { ecu: 0x123 });
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(RangeError);
+    });
+  });
+
+  describe('ObdScanner 分段接收失败', () => {
+    it('没有 error 监听器时应忽略分段接收失败', () => {
+      const scanner = new ObdScanner(new CanLoopback().createLink());
+      const corrupt = () => {
+        scanner.handleFrame({ id: 0x7EA, data: [0x10, 20, 0x49, 0x02, 0x01, 0x57, 0x56, 0x57] });
+        scanner.handleFrame({ id: 0x7EA, data: [0x22, 0x5A, 0x5A, 0x5A, 0x31, 0x4A, 0x5A, 0x58] });
+      };
+      expect(corrupt).to.not.throw();
+
+      const errors: string[] = [];
+      scanner.on('error', (error) => errors.push((error as IsoTpError).result));
+      corrupt();
+      expect(errors).to.deep.equal(['N_WRONG_SN']);
+    });
+  });
+
+  describe('ObdScanner (29 位 ID)', () => {
+    it('功能寻址使用 0x18DB33F1，物理寻址使用 0x18DAxxF1', async () => {
+      const bus = new CanLoopback();
+      const ecu = new FakeEcu(bus.createLink(), 0x18DAF110, 0x18DA10F1, 0x18DB33F1, engine, true);
+      const scanner = new ObdScanner(bus.createLink(), { extended: true, p2Timeout: 50 });
+      scanner.start();
+      try {
+        expect(await scanner.readVin()).to.deep.equal([{ ecu: 0x18DAF110, value: VIN }]);
+        const speed = await scanner.readPid(0x0C, { ecu: 0x18DAF110 });
+        expect(speed[0].value.value).to.equal(1726);
+        expect(ecu.requests.map((r) => r.id)).to.deep.equal([0x18DB33F1, 0x18DA10F1]);
+      } finally {
+        scanner.stop();
+        ecu.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * 剩余总线仿真单元测试
+ * 通过 FakeZlgCanLib 验证硬件周期发送和运行时信号更新，通过内存回环验证主机定时器发送
+ */
+
+import { expect } from 'chai';
+import { CanfdWifi100uTcp } from '../../src/device/canfd-wifi-100u-tcp';
+import { FakeZlgCanLib } from '../../src/driver/fake';
+import { ZlgCanError } from '../../src/driver';
+import { CanLink, CanLoopback } from '../../src/protocol/can-link';
+import { CanDatabase } from '../../src/protocol/can-database';
+import { parseDbc } from '../../src/protocol/dbc';
+import { ResidualBus } from '../../src/protocol/residual-bus';
+
+const DBC = `VERSION ""
+
+BU_: Engine Gateway Tester
+
+BO_ 256 EngineData: 8 Engine
+ SG_ Speed : 0|16@1+ (0.1,0) [0|6553.5] "km/h" Tester
+ SG_ Gear : 16|8@1+ (1,0) [0|8] "" Tester
+
+BO_ 1280 EngineFd: 16 Engine
+ SG_ Torque : 0|16@1- (1,0) [-1000|1000] "Nm" Tester
+
+BO_ 512 EngineEvent: 8 Engine
+ SG_ Code : 0|8@1+ (1,0) [0|255] "" Tester
+
+BO_ 768 GatewayData: 8 Gateway
+ SG_ Status : 0|8@1+ (1,0) [0|255] "" Tester
+
+BO_ 1024 SharedData: 8 Gateway
+ SG_ Value : 0|8@1+ (1,0) [0|255] "" Tester
+
+BO_TX_BU_ 1024 : Gateway,Engine;
+
+BA_DEF_ BO_ "GenMsgCycleTime" INT 0 65535;
+BA_DEF_ BO_ "VFrameFormat" ENUM "StandardCAN","ExtendedCAN","reserved","J1939PG","reserved","reserved","reserved","reserved","reserved","reserved","reserved","reserved","reserved","reserved","StandardCAN_FD","ExtendedCAN_FD";
+BA_DEF_ SG_ "GenSigStartValue" FLOAT 0 100000;
+BA_DEF_DEF_ "GenMsgCycleTime" 0;
+BA_DEF_DEF_ "VFrameFormat" "StandardCAN";
+BA_DEF_DEF_ "GenSigStartValue" 0;
+BA_ "GenMsgCycleTime" BO_ 256 100;
+BA_ "GenMsgCycleTime" BO_ 1280 20;
+BA_ "GenMsgCycleTime" BO_ 768 10;
+BA_ "GenMsgCycleTime" BO_ 1024 50;
+BA_ "VFrameFormat" BO_ 1280 14;
+BA_ "GenSigStartValue" SG_ 256 Gear 3;
+`;
+
+describe('剩余总线仿真测试', () => {
+  const database = new CanDatabase(parseDbc(DBC));
+
+  it('应只仿真所选节点发送的报文', () => {
+    const bus = new ResidualBus(new CanLoopback().createLink(), database, { nodes: ['Engine'] });
+    expect(bus.getMessageNames()).to.deep.equal(['EngineData', 'EngineFd', 'EngineEvent', 'SharedData']);
+    expect(bus.getSignals('EngineData'), 'GenSigStartValue').to.deep.equal({ Speed: 0, Gear: 3 });
+    expect(() => bus.getFrame('GatewayData')).to.throw(ZlgCanError, /不属于被仿真的节点/);
+  });
+
+  describe('硬件周期发送', () => {
+    let lib: FakeZlgCanLib;
+    let device: CanfdWifi100uTcp;
+    let observer: CanfdWifi100uTcp;
+
+    beforeEach(() => {
+      lib = new FakeZlgCanLib();
+      device = new CanfdWifi100uTcp({ ip: '192.168.1.100', port: 8000, echo: false, lib });
+      observer = new CanfdWifi100uTcp({ ip: '192.168.1.100', port: 8000, deviceIndex: 1, lib });
+      device.open();
+      observer.open();
+    });
+
+    afterEach(() => {
+      device.close();
+      observer.close();
+    });
+
+    it('应使用硬件周期发送并在修改信号后更新数据', () => {
+      const bus = new ResidualBus(device, database, { nodes: ['Engine'], initialValues: { EngineData: { Speed: 12.5 } } });
+      bus.start();
+      expect(bus.getSendMode('EngineData')).to.equal('hardware');
+      expect(bus.getSendMode('EngineEvent'), '无发送周期').to.equal('none');
+      expect(device.getAutoSendCount() + device.getAutoSendCount(true)).to.equal(3);
+
+      lib.advance(200);
+      const frames = observer.receive(100);
+      const engine = frames.filter((f) => f.id === 0x100);
+      expect(engine.length, '100ms 周期').to.equal(3);
+      expect(frames.filter((f) => f.id === 0x500).length, '20ms 周期').to.equal(11);
+      expect(database.decode(engine[0])!.values).to.deep.equal({ Speed: 12.5, Gear: 3 });
+      expect(frames.find((f) => f.id === 0x500)).to.have.property('brs', false);
+
+      bus.setSignal('EngineData', 'Speed', 88);
+      lib.advance(100);
+      const updated = observer.receive(100).filter((f) => f.id === 0x100);
+      expect(updated.length).to.be.greaterThan(0);
+      expect(database.decode(updated[updated.length - 1])!.values).to.deep.equal({ Speed: 88, Gear: 3 });
+
+      bus.stop();
+      lib.advance(200);
+      expect(observer.receive(100).length, '停止后不再发送').to.equal(0);
+    });
+
+    it('硬件周期发送数量不足时应使用主机定时器', () => {
+      const bus = new ResidualBus(device, database, { nodes: ['Engine'], autoSendSlots: 1 });
+      bus.start();
+      try {
+        expect(['EngineData', 'EngineFd', 'SharedData'].map((name) => bus.getSendMode(name)))
+          .to.deep.equal(['hardware', 'host', 'host']);
+      } finally {
+        bus.stop();
+      }
+    });
+
+    it('sendNow 应立即发送事件型报文', () => {
+      const bus = new ResidualBus(device, database, { nodes: ['Engine'] });
+      bus.sendNow('EngineEvent', { Code: 7 });
+      const [frame] = observer.receive();
+      expect(database.decode(frame)!.values).to.deep.equal({ Code: 7 });
+    });
+  });
+
+  it('CanLink 不支持周期发送时应使用主机定时器', async () => {
+    const loopback = new CanLoopback();
+    const link = loopback.createLink();
+    const observer = loopback.createLink();
+    const bus = new ResidualBus(link, database, { nodes: ['Gateway'] });
+    bus.start();
+    expect(bus.isRunning()).to.equal(true);
+    expect(bus.getSendMode('GatewayData')).to.equal('host');
+
+    bus.setSignal('GatewayData', 'Status', 5);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    bus.stop();
+    const frames = observer.receive(1000).filter((f) => f.id === 0x300);
+    expect(frames.length).to.be.at.least(3);
+    expect(Array.from(frames[0].data)).to.deep.equal([5, 0, 0, 0, 0, 0, 0, 0]);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(observer.receive(1000).length, '停止后不再发送').to.equal(0);
+  });
+
+  describe('周期发送失败', () => {
+    let calls: string[];
+    let failApply: boolean;
+    let link: CanLink;
+
+    beforeEach(() => {
+      calls = [];
+      failApply = false;
+      link = {
+        transmit: () => {
+          calls.push('transmit');
+          throw new Error('transmit failed');
+        },
+        receive: () => [],
+        addAutoSend: (config) => calls.push(`add:${config.index}`),
+        applyAutoSend: () => {
+          calls.push('apply');
+          if (failApply) {
+            throw new Error('apply failed');
+          }
+        },
+        clearAutoSend: () => calls.push('clear'),
+      };
+    });
+
+    it('启动失败时应清除已启动的定时器和硬件周期发送', async () => {
+      failApply = true;
+      const bus = new ResidualBus(link, database, { nodes: ['Engine'], autoSendSlots: 1 });
+      expect(() => bus.start()).to.throw('apply failed');
+      expect(bus.isRunning()).to.equal(false);
+      expect(bus.getSendMode('EngineFd')).to.equal('none');
+
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      expect(calls, '不再由主机定时器发送').to.deep.equal(['add:0', 'apply', 'clear']);
+    });
+
+    it('修改硬件周期发送的信号后应应用周期发送', () => {
+      const bus = new ResidualBus(link, database, { nodes: ['Engine'], autoSendSlots: 2 });
+      bus.start();
+      try {
+        bus.setSignal('EngineData', 'Speed', 88);
+        expect(calls.slice(3)).to.deep.equal(['add:0', 'apply']);
+      } finally {
+        bus.stop();
+      }
+    });
+
+    it('主机定时器发送失败时没有 error 监听器不应抛出异常', async () => {
+      const bus = new ResidualBus({ transmit: link.transmit, receive: link.receive }, database, { nodes: ['Gateway'] });
+      bus.start();
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      const failures = calls.length;
+
+      const errors: string[] = [];
+      bus.on('error', (_error, message) => errors.push(message));
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      bus.stop();
+      expect(failures, '失败后继续发送').to.be.at.least(2);
+      expect(errors.length).to.be.greaterThan(0);
+      expect(errors.every((message) => message === 'GatewayData' || message === 'SharedData')).to.equal(true);
+    });
+  });
+});
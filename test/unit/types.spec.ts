@@ -18,6 +18,23 @@ import {
   ZcanfdAutoTransmitObj,
   ZcanChannelErrInfo,
   ZcanChannelStatus,
+  ZcanDataObj,
+  ZcanCanfdData,
+  ZcanErrorData,
+  ZcanGpsData,
+  ZcanLinData,
+  ZcanLinErrData,
+  ZcanLinEventData,
+  ZcanLinExData,
+  ZcanLinMsg,
+  ZcanLinInitConfig,
+  ZcanLinPublishCfg,
+  ZcanLinPublishCfgEx,
+  ZcanLinSubscribeCfg,
+  ZcanUdsRequest,
+  ZcanUdsResponse,
+  ZcanUdsCtrlReq,
+  ZcanUdsCtrlResp,
 } from '../../src/driver/types';
 import {
   CAN_MAX_DLEN,
@@ -131,6 +148,61 @@ describe('类型定义测试', () => {
     });
   });
 
+  describe('合并收发结构体', () => {
+    it('ZCANDataObj 大小应为 100 字节', () => {
+      // dataType(1) + chnl(1) + flag(2) + extraData(4) + data(92) = 100
+      const size = koffi.sizeof(ZcanDataObj);
+      expect(size, `ZCANDataObj 大小应为 100 字节，实际值: ${size}`).to.equal(100);
+    });
+
+    it('union 成员大小应与 pack(1) 布局一致且不超过 92 字节', () => {
+      const sizes: [string, koffi.IKoffiCType, number][] = [
+        ['ZCANCANFDData', ZcanCanfdData, 88],
+        ['ZCANErrorData', ZcanErrorData, 16],
+        ['ZCANGPSData', ZcanGpsData, 56],
+        ['ZCANLINData', ZcanLinData, 40],
+        ['ZCANLINErrData', ZcanLinErrData, 32],
+        ['ZCANLINEventData', ZcanLinEventData, 16],
+        ['ZCANLINExData', ZcanLinExData, 88],
+      ];
+      sizes.forEach(([name, type, expected]) => {
+        const size = koffi.sizeof(type);
+        expect(size, `${name} 大小应为 ${expected} 字节，实际值: ${size}`).to.equal(expected);
+      });
+    });
+  });
+
+  describe('LIN 结构体', () => {
+    it('LIN 结构体大小应与 pack(1) 布局一致', () => {
+      const sizes: [string, koffi.IKoffiCType, number][] = [
+        ['ZCAN_LIN_MSG', ZcanLinMsg, 48],
+        ['ZCAN_LIN_INIT_CONFIG', ZcanLinInitConfig, 8],
+        ['ZCAN_LIN_PUBLISH_CFG', ZcanLinPublishCfg, 16],
+        ['ZCAN_LIN_PUBLISH_CFG_EX', ZcanLinPublishCfgEx, 72],
+        ['ZCAN_LIN_SUBSCIBE_CFG', ZcanLinSubscribeCfg, 8],
+      ];
+      sizes.forEach(([name, type, expected]) => {
+        const size = koffi.sizeof(type);
+        expect(size, `${name} 大小应为 ${expected} 字节，实际值: ${size}`).to.equal(expected);
+      });
+    });
+  });
+
+  describe('UDS 诊断结构体', () => {
+    it('UDS 结构体大小应与 pack(1) 布局一致', () => {
+      const sizes: [string, koffi.IKoffiCType, number][] = [
+        ['ZCAN_UDS_REQUEST', ZcanUdsRequest, 56 + koffi.sizeof('void *') + 8],
+        ['ZCAN_UDS_RESPONSE', ZcanUdsResponse, 16],
+        ['ZCAN_UDS_CTRL_REQ', ZcanUdsCtrlReq, 16],
+        ['ZCAN_UDS_CTRL_RESP', ZcanUdsCtrlResp, 16],
+      ];
+      sizes.forEach(([name, type, expected]) => {
+        const size = koffi.sizeof(type);
+        expect(size, `${name} 大小应为 ${expected} 字节，实际值: ${size}`).to.equal(expected);
+      });
+    });
+  });
+
   describe('周期发送结构体', () => {
     it('ZCAN_AUTO_TRANSMIT_OBJ 字段顺序应正确 (enable, index, interval, obj)', () => {
       const size = koffi.sizeof(ZcanAutoTransmitObj);
@@ -0,0 +1,235 @@
+/**
+ * UDS 诊断客户端单元测试
+ * 验证常用服务的请求编码和响应解析、消极响应异常、NRC 0x78 处理和设备端传输
+ */
+
+import { expect } from 'chai';
+import { CanfdWifi100uTcp } from '../../src/device/canfd-wifi-100u-tcp';
+import { ZlgCanError } from '../../src/driver';
+import { FakeZlgCanLib } from '../../src/driver/fake';
+import { createCanLoopbackPair } from '../../src/protocol/can-link';
+import { IsoTpTransport } from '../../src/protocol/isotp';
+import { UdsClient, DeviceUdsTransport } from '../../src/protocol/uds-client';
+import {
+  UDS_SESSION,
+  UDS_NRC,
+  UdsNegativeResponseError,
+  UdsTimeoutError,
+  asciiDidCodec,
+  uintDidCodec,
+} from '../../src/protocol/uds';
+
+type Reply = number[] | { delay: number; data: number[] }[] | null;
+
+describe('UDS 诊断客户端测试', () => {
+  let tester: IsoTpTransport;
+  let ecu: IsoTpTransport;
+  let client: UdsClient;
+  let requests: number[][];
+  let responder: (request: number[]) => Reply;
+
+  beforeEach(() => {
+    const [a, b] = createCanLoopbackPair();
+    tester = new IsoTpTransport(a, { txId: 0x7E0, rxId: 0x7E8 });
+    ecu = new IsoTpTransport(b, { txId: 0x7E8, rxId: 0x7E0 });
+    tester.start();
+    ecu.start();
+    requests = [];
+    responder = () => null;
+
+    // 模拟 ECU：按 responder 返回的数据应答，数组形式可按延时发送多个响应
+    ecu.on('pdu', (pdu) => {
+      const request = Array.from(pdu);
+      requests.push(request);
+      const reply = responder(request);
+      if (!reply) {
+        return;
+      }
+      const replies = typeof reply[0] === 'number' ? [{ delay: 0, data: reply as number[] }] : reply as { delay: number; data: number[] }[];
+      for (const { delay, data } of replies) {
+        setTimeout(() => ecu.send(data), delay);
+      }
+    });
+
+    client = new UdsClient(tester, { p2Timeout: 50, p2StarTimeout: 200 });
+  });
+
+  afterEach(() => {
+    client.stopTesterPresent();
+    tester.stop();
+    ecu.stop();
+  });
+
+  it('诊断会话控制应返回 P2/P2* 时间', async () => {
+    responder = () => [0x50, 0x03, 0x00, 0x32, 0x01, 0xF4];
+    const result = await client.diagnosticSessionControl(UDS_SESSION.EXTENDED);
+    expect(requests[0]).to.deep.equal([0x10, 0x03]);
+    expect(result).to.deep.equal({ session: 0x03, p2Server: 50, p2StarServer: 5000 });
+  });
+
+  it('读写 DID 应使用编解码器', async () => {
+    responder = (request) => (request[0] === 0x22
+      ? [0x62, 0xF1, 0x90, ...Buffer.from('WVWZZZ1JZXW000001'), 0xF1, 0x8C, 0x00, 0x2A]
+      : [0x6E, request[1], request[2]]);
+    client.registerDid(0xF18C, uintDidCodec(2));
+
+    const [vin, serial] = await client.readDataByIdentifiers([0xF190, 0xF18C], [asciiDidCodec(17)]);
+    expect(requests[0], 'RDBI 请求').to.deep.equal([0x22, 0xF1, 0x90, 0xF1, 0x8C]);
+    expect(vin, 'VIN').to.equal('WVWZZZ1JZXW000001');
+    expect(serial, '已注册的编解码器').to.equal(42);
+
+    await client.writeDataByIdentifier(0xF18C, 0x1234);
+    expect(requests[1], 'WDBI 请求').to.deep.equal([0x2E, 0xF1, 0x8C, 0x12, 0x34]);
+  });
+
+  it('消极响应应抛出 UdsNegativeResponseError', async () => {
+    responder = () => [0x7F, 0x22, UDS_NRC.REQUEST_OUT_OF_RANGE];
+    try {
+      await client.readDataByIdentifier(0x1234);
+      expect.fail('应抛出异常');
+    } catch (error) {
+      expect(error).to.be.instanceOf(UdsNegativeResponseError);
+      expect((error as UdsNegativeResponseError).nrc).to.equal(UDS_NRC.REQUEST_OUT_OF_RANGE);
+      expect((error as UdsNegativeResponseError).localizedMessage('en')).to.match(/request out of range \(0x31\)/);
+    }
+  });
+
+  it('NRC 0x78 应将等待时间延长至 P2*', async () => {
+    responder = () => [
+      { delay: 0, data: [0x7F, 0x31, 0x78] },
+      { delay: 120, data: [0x71, 0x01, 0xFF, 0x00, 0x00] },
+    ];
+    let pending = 0;
+    client.on('responsePending', () => pending++);
+
+    const result = await client.startRoutine(0xFF00, [0x01]);
+    expect(requests[0], '例程请求').to.deep.equal([0x31, 0x01, 0xFF, 0x00, 0x01]);
+    expect(result.routineId).to.equal(0xFF00);
+    expect(result.routineInfo).to.equal(0x00);
+    expect(pending, 'responsePending 事件').to.equal(1);
+  });
+
+  it('无响应时应抛出 UdsTimeoutError，抑制积极响应时返回 null', async () => {
+    try {
+      await client.ecuReset(0x01);
+      expect.fail('应抛出异常');
+    } catch (error) {
+      expect(error).to.be.instanceOf(UdsTimeoutError);
+    }
+
+    expect(await client.request([0x3E, 0x80], true)).to.equal(null);
+  });
+
+  it('抑制积极响应的请求不应在队列中等待 P2', async () => {
+    const start = Date.now();
+    const suppressed = client.testerPresent({ suppressPositiveResponse: true });
+    responder = (request) => (request[0] === 0x22 ? [0x62, 0xF1, 0x90, 0x41] : null);
+    const data = await client.readDataByIdentifier(0xF190);
+    await suppressed;
+
+    expect(Array.from(data)).to.deep.equal([0x41]);
+    expect(Date.now() - start, '未等待 P2').to.be.below(50);
+  });
+
+  it('响应长度或格式无效时应抛出 ZlgCanError', async () => {
+    responder = (request) => (request[0] === 0x19 ? [0x59, 0x01, 0xFF, 0x01] : [0x74, 0x70, 1, 2, 3, 4, 5, 6, 7]);
+    for (const call of [
+      () => client.readDtcCount(0x09),
+      () => client.readDtcSnapshot(0x123456),
+      () => client.readDtcExtendedData(0x123456, 0x01),
+      () => client.requestDownload(0x00000000, 0x100),
+      () => client.writeDataByIdentifier(0xF190, 'ABC'),
+    ]) {
+      try {
+        await call();
+        expect.fail('应抛出异常');
+      } catch (error) {
+        expect(error).to.be.instanceOf(ZlgCanError);
+      }
+    }
+    expect(requests.length, '未注册编解码器时不发送 WDBI').to.equal(4);
+  });
+
+  it('安全访问应使用种子计算密钥', async () => {
+    responder = (request) => (request[1] === 0x01 ? [0x67, 0x01, 0x12, 0x34] : [0x67, 0x02]);
+    const unlocked = await client.securityAccess(0x01, (seed) => seed.map((b) => b ^ 0xFF));
+
+    expect(unlocked).to.equal(true);
+    expect(requests[1], '发送密钥').to.deep.equal([0x27, 0x02, 0xED, 0xCB]);
+  });
+
+  it('种子全为 0 时不应发送密钥', async () => {
+    responder = () => [0x67, 0x03, 0x00, 0x00];
+    expect(await client.securityAccess(0x03, () => [0])).to.equal(false);
+    expect(requests.length).to.equal(1);
+  });
+
+  it('应解析按状态掩码读取的故障码', async () => {
+    responder = () => [0x59, 0x02, 0xFF, 0x12, 0x34, 0x56, 0x09, 0xC1, 0x00, 0x00, 0x08];
+    const result = await client.readDtcsByStatusMask(0x09);
+    expect(requests[0]).to.deep.equal([0x19, 0x02, 0x09]);
+    expect(result).to.deep.equal({
+      availabilityMask: 0xFF,
+      dtcs: [{ dtc: 0x123456, status: 0x09 }, { dtc: 0xC10000, status: 0x08 }],
+    });
+  });
+
+  it('清除故障码和通信控制应编码参数', async () => {
+    responder = (request) => [request[0] + 0x40, ...(request[0] === 0x28 ? [request[1]] : [])];
+    await client.clearDiagnosticInformation();
+    await client.communicationControl(0x03, 0x01, { suppressPositiveResponse: true });
+    // 抑制积极响应的请求发送后立即返回，等待 ECU 轮询接收
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(requests).to.deep.equal([[0x14, 0xFF, 0xFF, 0xFF], [0x28, 0x83, 0x01]]);
+  });
+
+  it('TesterPresent 保持会话应周期发送 3E 80', async () => {
+    client.startTesterPresent(20);
+    await new Promise((resolve) => setTimeout(resolve, 130));
+    client.stopTesterPresent();
+    expect(requests.length, '发送次数').to.be.at.least(2);
+    expect(requests.every((r) => r[0] === 0x3E && r[1] === 0x80)).to.equal(true);
+  });
+
+  describe('设备端传输', () => {
+    it('应通过 udsRequest 执行请求', async () => {
+      const lib = new FakeZlgCanLib();
+      const device = new CanfdWifi100uTcp({ ip: '192.168.1.100', port: 8000, lib });
+      device.open();
+      try {
+        lib.setUdsResponder((request) => (request.sid === 0x22 ? { data: [0xF1, 0x90, 0x41] } : { nrc: 0x11 }));
+        const deviceClient = new UdsClient(new DeviceUdsTransport(device, { txId: 0x7E0, rxId: 0x7E8 }));
+
+        expect(Array.from(await deviceClient.readDataByIdentifier(0xF190))).to.deep.equal([0x41]);
+        try {
+          await deviceClient.ecuReset(0x01);
+          expect.fail('应抛出异常');
+        } catch (error) {
+          expect((error as UdsNegativeResponseError).nrc).to.equal(0x11);
+        }
+      } finally {
+        device.close();
+      }
+    });
+
+    it('抑制积极响应位应映射为设备的抑制响应选项', async () => {
+      const lib = new FakeZlgCanLib();
+      const device = new CanfdWifi100uTcp({ ip: '192.168.1.100', port: 8000, lib });
+      device.open();
+      try {
+        const suppressed: boolean[] = [];
+        lib.setUdsResponder((request) => {
+          suppressed.push(request.suppressResponse);
+          return { data: [request.data[0] & 0x7F] };
+        });
+        const deviceClient = new UdsClient(new DeviceUdsTransport(device, { txId: 0x7E0, rxId: 0x7E8 }));
+
+        expect(await deviceClient.testerPresent({ suppressPositiveResponse: true })).to.equal(undefined);
+        await deviceClient.testerPresent({ suppressPositiveResponse: false });
+        expect(suppressed).to.deep.equal([true, false]);
+      } finally {
+        device.close();
+      }
+    });
+  });
+});
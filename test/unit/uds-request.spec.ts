@@ -0,0 +1,124 @@
+/**
+ * 设备端 UDS 请求单元测试
+ * 验证 ZCAN_UDS_Request/ZCAN_UDS_Control 的驱动层封装和设备层 udsRequest/cancelUdsRequest
+ */
+
+import { expect } from 'chai';
+import { CanfdWifi100uTcp } from '../../src/device/canfd-wifi-100u-tcp';
+import { toZcanUdsRequest } from '../../src/device/uds-request';
+import { FakeZlgCanLib, FakeUdsRequest } from '../../src/driver/fake';
+import { UdsRequestError } from '../../src/driver';
+import { ZCAN_UDS_ERROR, ZCAN_UDS_FRAME_TYPE } from '../../src/driver/constants';
+
+describe('设备端 UDS 请求测试', () => {
+  let lib: FakeZlgCanLib;
+  let device: CanfdWifi100uTcp;
+  let requests: FakeUdsRequest[];
+
+  beforeEach(() => {
+    lib = new FakeZlgCanLib();
+    requests = [];
+    device = new CanfdWifi100uTcp({ ip: '192.168.1.100', port: 8000, lib });
+    device.open();
+  });
+
+  afterEach(() => {
+    device.close();
+  });
+
+  /**
+   * 等待请求失败并返回异常
+   */
+  async function rejection(promise: Promise<unknown>): Promise<UdsRequestError> {
+    try {
+      await promise;
+    } catch (error) {
+      expect(error).to.be.instanceOf(UdsRequestError);
+      return error as UdsRequestError;
+    }
+    throw new Error('请求应失败');
+  }
+
+  it('积极响应应返回响应 SID 和数据', async () => {
+    lib.setUdsResponder((request) => {
+      requests.push(request);
+      return { data: [0xF1, 0x90, 0x41, 0x42] };
+    });
+
+    const response = await device.udsRequest({ txId: 0x7E0, rxId: 0x7E8, sid: 0x22, data: [0xF1, 0x90], frameType: 'canfd-brs' });
+    expect(response.type, '响应类型').to.equal('positive');
+    if (response.type !== 'positive') {
+      return;
+    }
+    expect(response.sid, '响应 SID').to.equal(0x62);
+    expect(Array.from(response.data), '响应数据').to.deep.equal([0xF1, 0x90, 0x41, 0x42]);
+
+    const [request] = requests;
+    expect([request.srcAddr, request.dstAddr, request.sid], '请求地址和 SID').to.deep.equal([0x7E0, 0x7E8, 0x22]);
+    expect(request.data, '请求数据').to.deep.equal([0xF1, 0x90]);
+    expect(request.frameType, '帧类型').to.equal(ZCAN_UDS_FRAME_TYPE.CANFD_BRS);
+  });
+
+  it('消极响应应返回 NRC', async () => {
+    lib.setUdsResponder(() => ({ nrc: 0x31 }));
+    const response = await device.udsRequest({ txId: 0x7E0, rxId: 0x7E8, sid: 0x22, data: [0x12, 0x34] });
+    expect(response).to.deep.equal({ type: 'negative', sid: 0x22, nrc: 0x31 });
+  });
+
+  it('抑制积极响应时应返回 none', async () => {
+    lib.setUdsResponder((request) => {
+      requests.push(request);
+      return { data: [0x03] };
+    });
+    const response = await device.udsRequest({ txId: 0x7E0, rxId: 0x7E8, sid: 0x10, data: [0x03], suppressPositiveResponse: true });
+    expect(response).to.deep.equal({ type: 'none' });
+    expect(requests[0].suppressResponse, '请求应标记抑制响应').to.equal(true);
+  });
+
+  it('ECU 无响应时应在 P2 超时后抛出 UdsRequestError', async () => {
+    const pending = rejection(device.udsRequest({ txId: 0x7E0, rxId: 0x7E8, sid: 0x3E, data: [0x00], p2Timeout: 200 }));
+
+    lib.advance(199);
+    await new Promise((resolve) => setImmediate(resolve));
+    lib.advance(1);
+
+    const error = await pending;
+    expect(error.status, '超时状态').to.equal(ZCAN_UDS_ERROR.TIMEOUT);
+  });
+
+  it('cancelUdsRequest 应取消进行中的请求', async () => {
+    lib.setUdsResponder(() => ({ data: [0x01], delay: 500 }));
+    const pending = rejection(device.udsRequest({ txId: 0x7E0, rxId: 0x7E8, sid: 0x31, data: [0x01, 0xFF, 0x00], requestId: 7 }));
+
+    expect(device.cancelUdsRequest(7), '应取消成功').to.equal(true);
+    const error = await pending;
+    expect(error.status, '取消状态').to.equal(ZCAN_UDS_ERROR.CANCEL);
+    expect(device.cancelUdsRequest(7), '请求已结束').to.equal(false);
+  });
+
+  it('事务 ID 被占用时应抛出 BUSY', async () => {
+    lib.setUdsResponder(() => ({ data: [], delay: 10 }));
+    const first = device.udsRequest({ txId: 0x7E0, rxId: 0x7E8, sid: 0x11, data: [0x01], requestId: 3 });
+    const error = await rejection(device.udsRequest({ txId: 0x7E0, rxId: 0x7E8, sid: 0x11, data: [0x01], requestId: 3 }));
+    expect(error.status, '忙碌状态').to.equal(ZCAN_UDS_ERROR.BUSY);
+
+    lib.advance(10);
+    expect((await first).type, '第一个请求应完成').to.equal('positive');
+  });
+
+  it('STmin 应按流控帧字节编码，超出范围时抛出 RangeError', async () => {
+    const request = toZcanUdsRequest({ txId: 0x7E0, rxId: 0x7E8, sid: 0x22, stMin: 0.5, remoteStMin: 20 }, 1, 0);
+    expect(request.trans_param.local_st_min, '500μs').to.equal(0xF5);
+    expect(request.trans_param.remote_st_min, '20ms').to.equal(20);
+
+    for (const options of [{ stMin: 200 }, { remoteStMin: 128 }, { stMin: -1 }]) {
+      expect(() => toZcanUdsRequest({ txId: 0x7E0, rxId: 0x7E8, sid: 0x22, ...options }, 1, 0)).to.throw(RangeError);
+    }
+    try {
+      await device.udsRequest({ txId: 0x7E0, rxId: 0x7E8, sid: 0x22, stMin: 200 });
+      expect.fail('应抛出异常');
+    } catch (error) {
+      expect(error).to.be.instanceOf(RangeError);
+    }
+  });
+});
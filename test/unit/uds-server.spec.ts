@@ -0,0 +1,216 @@
+/**
+ * UDS 诊断服务端单元测试
+ * 通过 UdsClient 验证会话、DID 访问条件、安全访问、故障码、例程、故障注入和 S3 超时
+ */
+
+import { expect } from 'chai';
+import { createCanLoopbackPair } from '../../src/protocol/can-link';
+import { IsoTpTransport } from '../../src/protocol/isotp';
+import { UdsClient } from '../../src/protocol/uds-client';
+import { UdsServer, UdsServerConfig } from '../../src/protocol/uds-server';
+import { UDS_SESSION, UDS_NRC, UDS_DTC_SETTING, UdsNegativeResponseError, UdsTimeoutError } from '../../src/protocol/uds';
+
+const xorKey = (seed: Buffer) => seed.map((b) => b ^ 0xFF);
+
+describe('UDS 诊断服务端测试', () => {
+  let tester: IsoTpTransport;
+  let ecu: IsoTpTransport;
+  let client: UdsClient;
+  let server: UdsServer;
+
+  function setup(config: UdsServerConfig = {}): void {
+    const [a, b] = createCanLoopbackPair();
+    tester = new IsoTpTransport(a, { txId: 0x7E0, rxId: 0x7E8 });
+    ecu = new IsoTpTransport(b, { txId: 0x7E8, rxId: 0x7E0 });
+    tester.start();
+    ecu.start();
+    server = new UdsServer(ecu, { securityKey: xorKey, seed: () => [0x12, 0x34], ...config });
+    server.start();
+    client = new UdsClient(tester, { p2Timeout: 50, p2StarTimeout: 200 });
+  }
+
+  async function expectNrc(promise: Promise<unknown>, expected: number): Promise<void> {
+    try {
+      await promise;
+      expect.fail('应抛出异常');
+    } catch (error) {
+      expect(error).to.be.instanceOf(UdsNegativeResponseError);
+      expect((error as UdsNegativeResponseError).nrc).to.equal(expected);
+    }
+  }
+
+  async function expectTimeout(promise: Promise<unknown>): Promise<void> {
+    try {
+      await promise;
+      expect.fail('应抛出异常');
+    } catch (error) {
+      expect(error).to.be.instanceOf(UdsTimeoutError);
+    }
+  }
+
+  afterEach(() => {
+    server.stop();
+    tester.stop();
+    ecu.stop();
+  });
+
+  it('会话控制应返回 P2/P2* 并拒绝不支持的会话', async () => {
+    setup({ p2Server: 25, p2StarServer: 2000 });
+    const sessions: number[] = [];
+    server.on('sessionChange', (session) => sessions.push(session));
+
+    expect(await client.diagnosticSessionControl(UDS_SESSION.EXTENDED)).to.deep.equal({
+      session: UDS_SESSION.EXTENDED,
+      p2Server: 25,
+      p2StarServer: 2000,
+    });
+    await expectNrc(client.diagnosticSessionControl(0x40), UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED);
+    expect(server.getSession()).to.equal(UDS_SESSION.EXTENDED);
+    expect(sessions).to.deep.equal([UDS_SESSION.EXTENDED]);
+  });
+
+  it('DID 应检查会话、安全等级和写入权限', async () => {
+    setup();
+    server.setDid(0xF190, Buffer.from('WVWZZZ1JZXW000001'));
+    server.setDid(0x0100, { value: [0x00, 0x01], writable: true, sessions: [UDS_SESSION.EXTENDED], securityLevel: 0x01 });
+
+    expect((await client.readDataByIdentifier(0xF190)).toString()).to.equal('WVWZZZ1JZXW000001');
+    await expectNrc(client.readDataByIdentifier(0x0100), UDS_NRC.REQUEST_OUT_OF_RANGE);
+    await expectNrc(client.writeDataByIdentifier(0xF190, [0x41]), UDS_NRC.REQUEST_OUT_OF_RANGE);
+
+    await client.diagnosticSessionControl(UDS_SESSION.EXTENDED);
+    await expectNrc(client.readDataByIdentifier(0x0100), UDS_NRC.SECURITY_ACCESS_DENIED);
+    expect(await client.securityAccess(0x01, xorKey)).to.equal(true);
+    await expectNrc(client.writeDataByIdentifier(0x0100, [0x01]), UDS_NRC.INCORRECT_MESSAGE_LENGTH_OR_FORMAT);
+    await client.writeDataByIdentifier(0x0100, [0xAB, 0xCD]);
+    expect(Array.from(server.getDid(0x0100)!)).to.deep.equal([0xAB, 0xCD]);
+  });
+
+  it('安全访问应在输错次数超限后拒绝请求种子', async () => {
+    setup({ maxSecurityAttempts: 2, securityDelay: 1000 });
+    await expectNrc(client.requestSeed(0x01), UDS_NRC.SERVICE_NOT_SUPPORTED_IN_ACTIVE_SESSION);
+    await client.diagnosticSessionControl(UDS_SESSION.EXTENDED);
+
+    await expectNrc(client.sendKey(0x01, [0x00]), UDS_NRC.REQUEST_SEQUENCE_ERROR);
+    await expectNrc(client.securityAccess(0x01, () => [0x00, 0x00]), UDS_NRC.INVALID_KEY);
+    await expectNrc(client.securityAccess(0x01, () => [0x00, 0x00]), UDS_NRC.EXCEEDED_NUMBER_OF_ATTEMPTS);
+    await expectNrc(client.requestSeed(0x01), UDS_NRC.REQUIRED_TIME_DELAY_NOT_EXPIRED);
+    expect(server.getSecurityLevel()).to.equal(0);
+  });
+
+  it('安全访问保留的子功能应返回 SUB_FUNCTION_NOT_SUPPORTED', async () => {
+    setup();
+    await client.diagnosticSessionControl(UDS_SESSION.EXTENDED);
+    await expectNrc(client.request([0x27, 0x00]), UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED);
+    await expectNrc(client.request([0x27, 0x7F]), UDS_NRC.SUB_FUNCTION_NOT_SUPPORTED);
+  });
+
+  it('处理函数异常时请求队列应继续处理后续请求', async () => {
+    setup();
+    server.setDid(0xF190, [0x41]);
+    server.setServiceHandler(0x23, () => {
+      throw new Error('handler failed');
+    });
+
+    await expectTimeout(client.request([0x23, 0x01]));
+    expect(Array.from(await client.readDataByIdentifier(0xF190)), '没有 error 监听器').to.deep.equal([0x41]);
+
+    const errors: Error[] = [];
+    server.on('error', (error) => {
+      errors.push(error);
+      throw error;
+    });
+    await expectTimeout(client.request([0x23, 0x01]));
+    expect(Array.from(await client.readDataByIdentifier(0xF190)), '监听器抛出异常').to.deep.equal([0x41]);
+    expect(errors.map((e) => e.message)).to.deep.equal(['handler failed']);
+  });
+
+  it('已解锁时应返回全 0 种子，会话切换后重新锁定', async () => {
+    setup();
+    await client.diagnosticSessionControl(UDS_SESSION.EXTENDED);
+    expect(await client.securityAccess(0x01, xorKey)).to.equal(true);
+    expect(await client.securityAccess(0x01, xorKey), '已解锁').to.equal(false);
+    expect(server.getSecurityLevel()).to.equal(0x01);
+
+    await client.diagnosticSessionControl(UDS_SESSION.PROGRAMMING);
+    expect(server.getSecurityLevel()).to.equal(0);
+  });
+
+  it('应读取和清除故障码，关闭故障码记录时不再记录', async () => {
+    setup();
+    server.setDtc(0x123456, 0x09);
+    server.setDtc(0xC10000, 0x08);
+
+    expect((await client.readDtcCount(0x01)).count).to.equal(1);
+    expect((await client.readDtcsByStatusMask(0x08)).dtcs).to.deep.equal([
+      { dtc: 0x123456, status: 0x09 },
+      { dtc: 0xC10000, status: 0x08 },
+    ]);
+    await client.clearDiagnosticInformation(0x123456);
+    expect((await client.readSupportedDtcs()).dtcs).to.deep.equal([{ dtc: 0xC10000, status: 0x08 }]);
+    await client.clearDiagnosticInformation();
+    expect(server.getDtcs()).to.deep.equal([]);
+
+    await client.diagnosticSessionControl(UDS_SESSION.EXTENDED);
+    await client.controlDtcSetting(UDS_DTC_SETTING.OFF);
+    server.setDtc(0x123456, 0x09);
+    expect(server.getDtcs()).to.deep.equal([]);
+  });
+
+  it('应执行注册的例程和服务处理函数', async () => {
+    setup();
+    server.setRoutine(0xFF00, (controlType, parameters) => [0x00, controlType, ...parameters]);
+    server.setServiceHandler(0x23, (request) => [0x63, ...request.subarray(1)]);
+
+    const result = await client.startRoutine(0xFF00, [0xAA]);
+    expect(result.routineInfo).to.equal(0x00);
+    expect(Array.from(result.status)).to.deep.equal([0x01, 0xAA]);
+    await expectNrc(client.startRoutine(0x1234), UDS_NRC.REQUEST_OUT_OF_RANGE);
+    expect(Array.from((await client.request([0x23, 0x01]))!)).to.deep.equal([0x63, 0x01]);
+    await expectNrc(client.request([0x24]), UDS_NRC.SERVICE_NOT_SUPPORTED);
+  });
+
+  it('应按注入的故障返回 NRC 或延时响应', async () => {
+    setup({ pendingInterval: 30 });
+    server.setDid(0xF190, [0x41]);
+
+    server.injectFault(0x22, { nrc: UDS_NRC.CONDITIONS_NOT_CORRECT, count: 1 });
+    await expectNrc(client.readDataByIdentifier(0xF190), UDS_NRC.CONDITIONS_NOT_CORRECT);
+    expect(Array.from(await client.readDataByIdentifier(0xF190)), '故障仅生效一次').to.deep.equal([0x41]);
+
+    let pending = 0;
+    client.on('responsePending', () => pending++);
+    server.injectFault(0x22, { responsePending: 80 });
+    expect(Array.from(await client.readDataByIdentifier(0xF190))).to.deep.equal([0x41]);
+    expect(pending, 'NRC 0x78 次数').to.equal(3);
+  });
+
+  it('S3 超时后应返回默认会话，TesterPresent 可保持会话', async () => {
+    setup({ s3Server: 100 });
+    let timeouts = 0;
+    server.on('sessionTimeout', () => timeouts++);
+
+    await client.diagnosticSessionControl(UDS_SESSION.EXTENDED);
+    client.startTesterPresent(20);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(server.getSession(), 'TesterPresent 保持').to.equal(UDS_SESSION.EXTENDED);
+
+    client.stopTesterPresent();
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(server.getSession()).to.equal(UDS_SESSION.DEFAULT);
+    expect(timeouts).to.equal(1);
+  });
+
+  it('ECU 复位应在响应后恢复默认状态', async () => {
+    setup();
+    const resets: number[] = [];
+    server.on('reset', (type) => resets.push(type));
+    await client.diagnosticSessionControl(UDS_SESSION.EXTENDED);
+    await client.communicationControl(0x03);
+
+    await client.ecuReset(0x01);
+    expect(resets).to.deep.equal([0x01]);
+    expect(server.getSession()).to.equal(UDS_SESSION.DEFAULT);
+    expect(server.getCommunicationControl()).to.equal(0x00);
+  });
+});
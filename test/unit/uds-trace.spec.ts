@@ -0,0 +1,133 @@
+/**
+ * ISO-TP/UDS 被动解码单元测试
+ * 验证旁路监听实时通信、录制帧的时间计算、NRC 0x78 合并、响应超时和重组错误
+ */
+
+import { expect } from 'chai';
+import { CanLoopback, CanLinkMessage } from '../../src/protocol/can-link';
+import { IsoTpTransport, IsoTpError } from '../../src/protocol/isotp';
+import { UdsClient } from '../../src/protocol/uds-client';
+import { UdsServer } from '../../src/protocol/uds-server';
+import { UDS_NRC, getServiceName } from '../../src/protocol/uds';
+import { UdsTraceDecoder, UdsTraceTransaction, decodeUdsTrace } from '../../src/protocol/uds-trace';
+
+const VIN = 'WVWZZZ1JZXW000001';
+
+function frame(id: number, data: number[], timestamp?: number): CanLinkMessage {
+  return { id, data, timestamp };
+}
+
+describe('ISO-TP/UDS 被动解码测试', () => {
+  it('应返回标准服务名称', () => {
+    expect(getServiceName(0x22)).to.equal('ReadDataByIdentifier');
+    expect(getServiceName(0x62), '积极响应 SID').to.equal('ReadDataByIdentifier');
+    expect(getServiceName(0xBA)).to.equal(undefined);
+  });
+
+  it('应旁路监听实时通信并配对请求/响应', async () => {
+    const bus = new CanLoopback();
+    const tester = new IsoTpTransport(bus.createLink(), { txId: 0x7E0, rxId: 0x7E8 });
+    const ecu = new IsoTpTransport(bus.createLink(), { txId: 0x7E8, rxId: 0x7E0 });
+    const sniffer = bus.createLink();
+    const server = new UdsServer(ecu);
+    server.setDid(0xF190, Buffer.from(VIN));
+    tester.start();
+    ecu.start();
+    server.start();
+
+    const decoder = new UdsTraceDecoder({ channels: [{ requestId: 0x7E0, responseId: 0x7E8, name: 'ECU' }] });
+    const transactions: UdsTraceTransaction[] = [];
+    decoder.on('transaction', (transaction) => transactions.push(transaction));
+    try {
+      const client = new UdsClient(tester, { p2Timeout: 50 });
+      await client.readDataByIdentifier(0xF190);
+      decoder.feed(sniffer.receive());
+      try {
+        await client.readDataByIdentifier(0x1234);
+      } catch {
+        // 预期的消极响应
+      }
+      decoder.feed(sniffer.receive());
+    } finally {
+      server.stop();
+      tester.stop();
+      ecu.stop();
+    }
+
+    expect(transactions.length).to.equal(2);
+    const [read, rejected] = transactions;
+    expect(read).to.deep.include({ channel: 'ECU', sid: 0x22, service: 'ReadDataByIdentifier', positive: true, pendingResponses: 0 });
+    expect(read.response!.data.subarray(3).toString()).to.equal(VIN);
+    expect(read.response!.frameCount, '首帧 + 2 个连续帧').to.equal(3);
+    expect(read.responseTime).to.equal(undefined);
+
+    expect(rejected).to.deep.include({ positive: false, nrc: UDS_NRC.REQUEST_OUT_OF_RANGE });
+    expect(rejected.nrcName).to.be.a('string');
+  });
+
+  it('应按时间戳计算响应时间并合并 NRC 0x78', () => {
+    const transactions = decodeUdsTrace([
+      frame(0x7E0, [0x03, 0x22, 0xF1, 0x90], 1000),
+      frame(0x7E8, [0x03, 0x7F, 0x22, 0x78], 11000),
+      frame(0x7E8, [0x10, 0x0A, 0x62, 0xF1, 0x90, 0x01, 0x02, 0x03], 60000),
+      frame(0x7E0, [0x30, 0x00, 0x00], 60500),
+      frame(0x7E8, [0x21, 0x04, 0x05, 0x06, 0x07], 61000),
+    ], { channels: [{ requestId: 0x7E0, responseId: 0x7E8 }] });
+
+    expect(transactions.length).to.equal(1);
+    expect(transactions[0]).to.deep.include({ channel: '0x7E0/0x7E8', positive: true, pendingResponses: 1, responseTime: 59 });
+    expect(Array.from(transactions[0].response!.data)).to.deep.equal([0x62, 0xF1, 0x90, 1, 2, 3, 4, 5, 6, 7]);
+    expect(transactions[0].response).to.deep.include({ startTime: 60000, endTime: 61000, frameCount: 2 });
+  });
+
+  it('应处理响应超时、未配对的响应和末尾无响应的请求', () => {
+    const transactions = decodeUdsTrace([
+      frame(0x7E0, [0x02, 0x10, 0x03], 0),
+      frame(0x7E8, [0x02, 0x51, 0x01], 200000),
+      frame(0x7E0, [0x02, 0x3E, 0x80], 300000),
+    ], { channels: [{ requestId: 0x7E0, responseId: 0x7E8 }], responseTimeout: 100 });
+
+    expect(transactions.map((t) => [t.sid, t.request !== null, t.response !== null])).to.deep.equal([
+      [0x10, true, false],
+      [0x11, false, true],
+      [0x3E, true, false],
+    ]);
+    expect(transactions[1].service).to.equal('ECUReset');
+  });
+
+  it('应支持扩展寻址并报告重组错误', () => {
+    const decoder = new UdsTraceDecoder({
+      channels: [{ requestId: 0x6F1, responseId: 0x640, addressing: 'extended', requestAddress: 0x40, responseAddress: 0xF1 }],
+    });
+    const errors: string[] = [];
+    decoder.on('reassemblyError', (error: IsoTpError, _channel, direction) => errors.push(`${direction}:${error.result}`));
+
+    const transactions = decoder.feed([
+      frame(0x6F1, [0x40, 0x02, 0x3E, 0x00]),
+      frame(0x6F1, [0x41, 0x02, 0x3E, 0x00]),
+      frame(0x640, [0xF1, 0x10, 0x08, 0x7E, 0x00, 0x01, 0x02, 0x03]),
+      frame(0x640, [0xF1, 0x22, 0x04, 0x05]),
+      frame(0x640, [0xF1, 0x10, 0x08, 0x7E, 0x00, 0x01, 0x02, 0x03]),
+      frame(0x640, [0xF1, 0x02, 0x7E, 0x00]),
+    ]);
+
+    expect(errors).to.deep.equal(['response:N_WRONG_SN', 'response:N_UNEXP_PDU']);
+    expect(transactions.length, '地址不匹配的帧被忽略').to.equal(1);
+    expect(transactions[0]).to.deep.include({ sid: 0x3E, service: 'TesterPresent', positive: true });
+  });
+
+  it('首帧长度超过 maxPduLength 时应报告重组错误，首字节小于 0x40 的响应应被忽略', () => {
+    const decoder = new UdsTraceDecoder({ channels: [{ requestId: 0x7E0, responseId: 0x7E8 }], maxPduLength: 4096 });
+    const errors: string[] = [];
+    decoder.on('reassemblyError', (error: IsoTpError, _channel, direction) => errors.push(`${direction}:${error.result}`));
+
+    const transactions = decoder.feed([
+      frame(0x7E8, [0x10, 0x00, 0xFF, 0xFF, 0xFF, 0xFF, 0x62, 0xF1]),
+      frame(0x7E8, [0x21, 0x90, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46]),
+      frame(0x7E8, [0x02, 0x10, 0x03]),
+    ]);
+
+    expect(errors).to.deep.equal(['response:N_BUFFER_OVFLW']);
+    expect(transactions).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,445 @@
+/**
+ * XCP 单元测试
+ * 验证数据类型编解码和 A2L 解析，并通过内存回环上的模拟从站验证连接、种子/密钥、存储区读写和动态 DAQ
+ */
+
+import { expect } from 'chai';
+import { CanLoopback, CanLink } from '../../src/protocol/can-link';
+import {
+  XCP_COMMAND,
+  XCP_ERROR,
+  XCP_RESOURCE,
+  XcpCommandError,
+  XcpTimeoutError,
+  decodeXcpValue,
+  encodeXcpValue,
+} from '../../src/protocol/xcp';
+import { parseA2l, a2lToPhysical, a2lToRaw, a2lVerbalValue } from '../../src/protocol/a2l';
+import { XcpMaster, XcpDaqSample } from '../../src/protocol/xcp-master';
+
+const A2L = `
+ASAP2_VERSION 1 61
+/begin PROJECT Demo "Demo project"
+  /begin MODULE Engine "Engine ECU"
+    /begin MOD_COMMON ""
+      BYTE_ORDER MSB_LAST
+    /end MOD_COMMON
+
+    /begin COMPU_METHOD CM_Rpm "engine speed" LINEAR "%6.1" "rpm"
+      COEFFS_LINEAR 0.5 0
+    /end COMPU_METHOD
+    /begin COMPU_METHOD CM_Temp "temperature" RAT_FUNC "%4.1" "degC"
+      COEFFS 0 1 40 0 0 1
+    /end COMPU_METHOD
+    /begin COMPU_METHOD CM_Gear "gear" TAB_VERB "%d" ""
+      COMPU_TAB_REF VT_Gear
+    /end COMPU_METHOD
+    /begin COMPU_VTAB VT_Gear "gear" TAB_VERB 2
+      0 "Neutral"
+      1 "First"
+    /end COMPU_VTAB
+
+    /begin RECORD_LAYOUT RL_UWORD
+      FNC_VALUES 1 UWORD COLUMN_DIR DIRECT
+    /end RECORD_LAYOUT
+    /begin RECORD_LAYOUT RL_UBYTE
+      FNC_VALUES 1 UBYTE COLUMN_DIR DIRECT
+    /end RECORD_LAYOUT
+
+    /* 测量量 */
+    /begin MEASUREMENT engineSpeed "engine speed" UWORD CM_Rpm 0 0 0 8000
+      ECU_ADDRESS 0x100
+    /end MEASUREMENT
+    /begin MEASUREMENT coolantTemp "coolant temperature" SBYTE CM_Temp 0 0 -40 215
+      ECU_ADDRESS 0x102
+    /end MEASUREMENT
+    /begin MEASUREMENT gear "gear" UBYTE CM_Gear 0 0 0 1
+      ECU_ADDRESS 0x103
+    /end MEASUREMENT
+
+    // 标定量
+    /begin CHARACTERISTIC idleSpeed "idle speed" VALUE 0x200 RL_UWORD 0 CM_Rpm 0 2000
+    /end CHARACTERISTIC
+    /begin CHARACTERISTIC fanCurve "fan duty" VAL_BLK 0x210 RL_UBYTE 0 NO_COMPU_METHOD 0 100
+      NUMBER 10
+    /end CHARACTERISTIC
+    /begin CHARACTERISTIC variant "variant code" ASCII 0x230 RL_UBYTE 0 NO_COMPU_METHOD 0 255
+      NUMBER 8
+    /end CHARACTERISTIC
+  /end MODULE
+/end PROJECT
+`;
+
+const SEED = [0x11, 0x22, 0x33, 0x44, 0x55, 0x66, 0x77, 0x88];
+const xorKey = (seed: Buffer): number[] => Array.from(seed, (byte) => byte ^ 0xA5);
+
+/**
+ * 模拟 XCP 从站：Intel 字节序，MAX_CTO/MAX_DTO 为 8，CAL_PAG 资源需要解锁，支持动态 DAQ 和 2 字节时间戳
+ */
+class FakeSlave {
+  readonly memory = Buffer.alloc(0x400);
+  protection = XCP_RESOURCE.CAL_PAG;
+  /** 不响应的命令 (用于验证超时) */
+  silent = new Set<number>();
+  /** 先发送 EV_CMD_PENDING 再延迟响应的命令 */
+  pendingCommand = -1;
+  private mta = 0;
+  private seedOffset = 0;
+  private key: number[] = [];
+  private daq: { address: number; size: number }[][][] = [];
+  private daqPtr = [0, 0, 0];
+  private timestamped: boolean[] = [];
+  private selected = new Set<number>();
+  private running: number[] = [];
+  private readonly timer: NodeJS.Timeout;
+
+  constructor(readonly link: CanLink, readonly requestId = 0x7E0, readonly responseId = 0x7E1) {
+    this.timer = setInterval(() => this.poll(), 1);
+  }
+
+  close(): void {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * 为运行中的 DAQ 列表发送一次采样
+   */
+  sample(timestamp: number): void {
+    for (const list of this.running) {
+      let pid = 0;
+      for (let i = 0; i < list; i++) {
+        pid += this.daq[i].length;
+      }
+      this.daq[list].forEach((odt, index) => {
+        const data = [pid + index];
+        if (index === 0 && this.timestamped[list]) {
+          data.push(timestamp & 0xFF, timestamp >> 8);
+        }
+        for (const entry of odt) {
+          data.push(...this.memory.subarray(entry.address, entry.address + entry.size));
+        }
+        this.link.transmit({ id: this.responseId, data });
+      });
+    }
+  }
+
+  private poll(): void {
+    for (const frame of this.link.receive()) {
+      if (frame.id !== this.requestId) {
+        continue;
+      }
+      const data = Buffer.from(frame.data);
+      if (this.silent.has(data[0])) {
+        continue;
+      }
+      const response = this.handle(data);
+      if (data[0] === this.pendingCommand) {
+        // 超时时间 100ms：两次 EV_CMD_PENDING 后在 140ms 响应
+        this.link.transmit({ id: this.responseId, data: [0xFD, 0x05] });
+        setTimeout(() => this.link.transmit({ id: this.responseId, data: [0xFD, 0x05] }), 70);
+        setTimeout(() => this.link.transmit({ id: this.responseId, data: response }), 140);
+      } else {
+        this.link.transmit({ id: this.responseId, data: response });
+      }
+    }
+  }
+
+  private error(code: number): number[] {
+    return [0xFE, code];
+  }
+
+  private handle(data: Buffer): number[] {
+    switch (data[0]) {
+      case XCP_COMMAND.CONNECT:
+        return [0xFF, 0x1D, 0x00, 8, 8, 0, 1, 1];
+      case XCP_COMMAND.DISCONNECT:
+        return [0xFF];
+      case XCP_COMMAND.GET_STATUS:
+        return [0xFF, 0x00, this.protection, 0, 0x34, 0x12];
+      case XCP_COMMAND.GET_SEED: {
+        if (data[1] === 0) {
+          this.seedOffset = 0;
+          if (!(this.protection & data[2])) {
+            return [0xFF, 0];
+          }
+        }
+        const part = SEED.slice(this.seedOffset, this.seedOffset + 6);
+        const remaining = SEED.length - this.seedOffset;
+        this.seedOffset += part.length;
+        return [0xFF, remaining, ...part];
+      }
+      case XCP_COMMAND.UNLOCK: {
+        if (data[1] === 8) {
+          this.key = [];
+        }
+        this.key.push(...data.subarray(2, 2 + Math.min(data[1], 6)));
+        if (this.key.length === 8) {
+          if (this.key.join() !== xorKey(Buffer.from(SEED)).join()) {
+            return this.error(XCP_ERROR.ACCESS_LOCKED);
+          }
+          this.protection &= ~XCP_RESOURCE.CAL_PAG;
+        }
+        return [0xFF, this.protection];
+      }
+      case XCP_COMMAND.SET_MTA:
+        this.mta = data.readUInt32LE(4);
+        return [0xFF];
+      case XCP_COMMAND.SHORT_UPLOAD: {
+        const address = data.readUInt32LE(4);
+        return [0xFF, ...this.memory.subarray(address, address + data[1])];
+      }
+      case XCP_COMMAND.DOWNLOAD: {
+        if (this.protection & XCP_RESOURCE.CAL_PAG) {
+          return this.error(XCP_ERROR.ACCESS_LOCKED);
+        }
+        data.copy(this.memory, this.mta, 2, 2 + data[1]);
+        this.mta += data[1];
+        return [0xFF];
+      }
+      case XCP_COMMAND.GET_DAQ_PROCESSOR_INFO:
+        return [0xFF, 0x11, 4, 0, 2, 0, 0, 0];
+      case XCP_COMMAND.GET_DAQ_RESOLUTION_INFO:
+        return [0xFF, 1, 4, 1, 4, 0x32, 10, 0];
+      case XCP_COMMAND.FREE_DAQ:
+        this.daq = [];
+        return [0xFF];
+      case XCP_COMMAND.ALLOC_DAQ:
+        this.daq = Array.from({ length: data.readUInt16LE(2) }, () => []);
+        return [0xFF];
+      case XCP_COMMAND.ALLOC_ODT:
+        this.daq[data.readUInt16LE(2)] = Array.from({ length: data[4] }, () => []);
+        return [0xFF];
+      case XCP_COMMAND.ALLOC_ODT_ENTRY:
+        return [0xFF];
+      case XCP_COMMAND.SET_DAQ_PTR:
+        this.daqPtr = [data.readUInt16LE(2), data[4], data[5]];
+        return [0xFF];
+      case XCP_COMMAND.WRITE_DAQ:
+        this.daq[this.daqPtr[0]][this.daqPtr[1]].push({ address: data.readUInt32LE(4), size: data[2] });
+        return [0xFF];
+      case XCP_COMMAND.SET_DAQ_LIST_MODE:
+        this.timestamped[data.readUInt16LE(2)] = (data[1] & 0x10) !== 0;
+        return [0xFF];
+      case XCP_COMMAND.START_STOP_DAQ_LIST: {
+        const list = data.readUInt16LE(2);
+        this.selected.add(list);
+        let pid = 0;
+        for (let i = 0; i < list; i++) {
+          pid += this.daq[i].length;
+        }
+        return [0xFF, pid];
+      }
+      case XCP_COMMAND.START_STOP_SYNCH:
+        this.running = data[1] === 1 ? [...this.selected] : [];
+        return [0xFF];
+      default:
+        return this.error(XCP_ERROR.CMD_UNKNOWN);
+    }
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('XCP', () => {
+  describe('数据类型', () => {
+    it('按字节序编解码', () => {
+      expect(encodeXcpValue('UWORD', 0x1234)).to.deep.equal(Buffer.from([0x34, 0x12]));
+      expect(encodeXcpValue('UWORD', 0x1234, 'motorola')).to.deep.equal(Buffer.from([0x12, 0x34]));
+      expect(decodeXcpValue('SLONG', Buffer.from([0xFF, 0xFF, 0xFF, 0xFE]), 'motorola')).to.equal(-2);
+      expect(decodeXcpValue('A_UINT64', encodeXcpValue('A_UINT64', 2n ** 63n))).to.equal(2n ** 63n);
+      expect(decodeXcpValue('FLOAT32_IEEE', encodeXcpValue('FLOAT32_IEEE', 1.5))).to.equal(1.5);
+      expect(decodeXcpValue('SBYTE', Buffer.from([0x00, 0x80]), 'intel', 1)).to.equal(-128);
+      expect(() => encodeXcpValue('UBYTE', 256)).to.throw(RangeError);
+    });
+  });
+
+  describe('A2L', () => {
+    it('解析测量量、标定量和转换方法', () => {
+      const db = parseA2l(A2L);
+      expect(db.project).to.equal('Demo');
+      expect(db.module).to.equal('Engine');
+      expect(db.byteOrder).to.equal('intel');
+      expect(db.measurements.get('engineSpeed')).to.include({ dataType: 'UWORD', address: 0x100, conversion: 'CM_Rpm', arraySize: 1 });
+      expect(db.characteristics.get('fanCurve')).to.include({ type: 'VAL_BLK', dataType: 'UBYTE', count: 10, address: 0x210 });
+      expect(db.characteristics.get('idleSpeed')).to.include({ dataType: 'UWORD', lowerLimit: 0, upperLimit: 2000 });
+
+      const rpm = db.compuMethods.get('CM_Rpm');
+      expect(a2lToPhysical(rpm, 1600)).to.equal(800);
+      expect(a2lToRaw(rpm, 800)).to.equal(1600);
+      const temp = db.compuMethods.get('CM_Temp');
+      expect(a2lToPhysical(temp, 50)).to.equal(10);
+      expect(a2lToRaw(temp, 10)).to.equal(50);
+      expect(a2lVerbalValue(db.compuMethods.get('CM_Gear'), 1)).to.equal('First');
+    });
+
+    it('块不匹配时报告行号', () => {
+      expect(() => parseA2l('/begin PROJECT P ""\n/end MODULE')).to.throw(/第 2 行/);
+    });
+  });
+
+  describe('XcpMaster', () => {
+    let slave: FakeSlave;
+    let master: XcpMaster;
+
+    beforeEach(() => {
+      const bus = new CanLoopback();
+      slave = new FakeSlave(bus.createLink());
+      master = new XcpMaster(bus.createLink(), { requestId: 0x7E0, responseId: 0x7E1, timeout: 100 });
+      master.start();
+    });
+
+    afterEach(() => {
+      master.stop();
+      slave.close();
+    });
+
+    it('连接并读取状态', async () => {
+      const info = await master.connect();
+      expect(info).to.deep.equal({
+        resources: 0x1D,
+        byteOrder: 'intel',
+        addressGranularity: 1,
+        slaveBlockMode: false,
+        maxCto: 8,
+        maxDto: 8,
+        protocolVersion: 1,
+        transportVersion: 1,
+      });
+      const status = await master.getStatus();
+      expect(status).to.deep.equal({ sessionStatus: 0, protection: XCP_RESOURCE.CAL_PAG, sessionConfigurationId: 0x1234 });
+    });
+
+    it('命令帧填充到 8 字节', async () => {
+      const link = new CanLoopback();
+      const sniffer = link.createLink();
+      const other = new XcpMaster(link.createLink(), { requestId: 0x7E0, responseId: 0x7E1, timeout: 10 });
+      await other.connect().catch(() => undefined);
+      const [frame] = sniffer.receive();
+      expect(Array.from(frame.data)).to.deep.equal([0xFF, 0x00, 0, 0, 0, 0, 0, 0]);
+    });
+
+    it('种子/密钥解锁后写入标定数据', async () => {
+      await master.connect();
+      try {
+        await master.writeMemory(0x200, [1, 2]);
+        expect.fail('应抛出异常');
+      } catch (error) {
+        expect(error).to.be.instanceOf(XcpCommandError);
+        expect((error as XcpCommandError).xcpError).to.equal(XCP_ERROR.ACCESS_LOCKED);
+      }
+
+      const seeds: Buffer[] = [];
+      const protection = await master.unlock(XCP_RESOURCE.CAL_PAG, (seed) => {
+        seeds.push(seed);
+        return xorKey(seed);
+      });
+      expect(seeds[0]).to.deep.equal(Buffer.from(SEED));
+      expect(protection).to.equal(0);
+      expect(await master.getSeed(XCP_RESOURCE.CAL_PAG)).to.have.length(0);
+
+      const data = Buffer.from(Array.from({ length: 20 }, (_, i) => i + 1));
+      await master.writeMemory(0x300, data);
+      expect(slave.memory.subarray(0x300, 0x314)).to.deep.equal(data);
+      await master.writeMemory(0x300, []);
+      expect(await master.readMemory(0x300, 20)).to.deep.equal(data);
+      expect(await master.shortUpload(0x302, 3)).to.deep.equal(Buffer.from([3, 4, 5]));
+      let error: unknown;
+      try {
+        await master.shortUpload(0, 8);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(RangeError);
+    });
+
+    it('按 A2L 名称读写测量量和标定量', async () => {
+      master.setA2l(parseA2l(A2L));
+      await master.connect();
+      await master.unlock(XCP_RESOURCE.CAL_PAG, xorKey);
+
+      slave.memory.writeUInt16LE(3000, 0x100);
+      slave.memory.writeInt8(50, 0x102);
+      expect(await master.readMeasurement('engineSpeed')).to.equal(1500);
+      expect(await master.readMeasurement('coolantTemp')).to.equal(10);
+
+      await master.writeCharacteristic('idleSpeed', 750);
+      expect(slave.memory.readUInt16LE(0x200)).to.equal(1500);
+      expect(await master.readCharacteristic('idleSpeed')).to.equal(750);
+
+      const curve = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90];
+      await master.writeCharacteristic('fanCurve', curve);
+      expect(await master.readCharacteristic('fanCurve')).to.deep.equal(curve);
+
+      await master.writeCharacteristic('variant', 'EU5');
+      expect(await master.readCharacteristic('variant')).to.equal('EU5');
+
+      let error: unknown;
+      try {
+        await master.writeCharacteristic('idleSpeed', 2500);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(RangeError);
+      expect(slave.memory.readUInt16LE(0x200)).to.equal(1500);
+    });
+
+    it('配置 DAQ 列表并解码带时间戳的采样', async () => {
+      master.setA2l(parseA2l(A2L));
+      await master.connect();
+      await master.configureDaq([
+        {
+          eventChannel: 1,
+          signals: ['engineSpeed', 'coolantTemp', { name: 'counter', address: 0x104, dataType: 'ULONG' }],
+        },
+        { eventChannel: 2, timestamp: false, signals: ['gear'] },
+      ]);
+      await master.startDaq();
+
+      const samples: XcpDaqSample[] = [];
+      master.on('daq', (sample) => samples.push(sample));
+      slave.memory.writeUInt16LE(1600, 0x100);
+      slave.memory.writeInt8(-10, 0x102);
+      slave.memory.writeUInt8(1, 0x103);
+      slave.memory.writeUInt32LE(123456, 0x104);
+      slave.sample(500);
+      await delay(20);
+
+      expect(samples).to.have.length(2);
+      const [first, second] = samples;
+      expect(first.list).to.equal(0);
+      expect(first.values).to.deep.equal({ engineSpeed: 800, coolantTemp: -50, counter: 123456 });
+      expect(first.ecuTimestamp).to.equal(500);
+      expect(first.ecuTime).to.equal(5000);
+      expect(second).to.deep.include({ list: 1, values: { gear: 1 } });
+      expect(second.ecuTimestamp).to.equal(undefined);
+
+      await master.stopDaq();
+      slave.sample(600);
+      await delay(20);
+      expect(samples).to.have.length(2);
+    });
+
+    it('EV_CMD_PENDING 延长等待时间', async () => {
+      slave.pendingCommand = XCP_COMMAND.CONNECT;
+      const events: number[] = [];
+      master.on('event', (code) => events.push(code));
+      const info = await master.connect();
+      expect(info.maxCto).to.equal(8);
+      expect(events).to.deep.equal([0x05, 0x05]);
+    });
+
+    it('超时未响应', async () => {
+      slave.silent.add(XCP_COMMAND.CONNECT);
+      let error: unknown;
+      try {
+        await master.connect();
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(XcpTimeoutError);
+      expect((error as XcpTimeoutError).command).to.equal(XCP_COMMAND.CONNECT);
+    });
+  });
+});